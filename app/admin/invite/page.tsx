@@ -43,10 +43,11 @@ import {
   X as XIcon
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { AdminChatMessage, ChatStats, AIConversation, AIChatMessage, AIUsageStats } from '@/lib/types';
+import { AdminChatMessage, ChatStats, AIConversation, AIChatMessage, AIUsageStats, KnowledgeChunk } from '@/lib/types';
 import { formatDistanceToNow } from 'date-fns';
 import { ThemeSelector } from '@/components/theme-selector';
 import type { BroadcastMessage } from '@/lib/broadcast-service';
+import type { GmMissionSet, GmSeason, GmSeasonDistribution, GmSeasonPhase } from '@/lib/gamification-types';
 
 interface AdminStats {
   codes: {
@@ -169,8 +170,30 @@ export default function AdminInviteDashboard() {
   const [conversationMessages, setConversationMessages] = useState<AIChatMessage[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [aiChatLoading, setAIChatLoading] = useState(false);
+  const [aiSpend, setAISpend] = useState<{
+    rows: Array<{ date: string; provider: string; model: string; messages: number; tokens: number; estimatedCost: number }>;
+    chain: Array<{ provider: string; model: string }>;
+    circuits: Record<string, { failures: number; openUntil: number; lastError?: string }>;
+    budgets: Record<string, { tokensPerDay: number; costPerDayUsd: number }>;
+  } | null>(null);
+  const [kbChunks, setKbChunks] = useState<Array<KnowledgeChunk & { overridesBuiltin: boolean }> | null>(null);
+  const [kbDraft, setKbDraft] = useState('');
+  const [kbSaving, setKbSaving] = useState(false);
+  const [kbQuery, setKbQuery] = useState('');
+  const [kbPreview, setKbPreview] = useState<{ pinned: string[]; matches: Array<{ id: string; title: string; score: number }> } | null>(null);
   // Gamification leaderboards
   const [gmLb, setGmLb] = useState<{ streakTop: Array<{ address: string; value: number }>; missionTop: Array<{ address: string; value: number }> } | null>(null);
+  // Gamification mission sets
+  const [gmSets, setGmSets] = useState<{ sets: GmMissionSet[]; classic: GmMissionSet; activeDailyId: string; activeWeeklyId: string | null; verifiers: string[] } | null>(null);
+  const [gmSetDraft, setGmSetDraft] = useState('');
+  const [gmSetSaving, setGmSetSaving] = useState(false);
+  // Gamification seasons
+  const [gmSeasons, setGmSeasons] = useState<Array<GmSeason & {
+    phase: GmSeasonPhase;
+    distribution: { status: GmSeasonDistribution['status']; entries: number; failed: number; sending: number; totals: GmSeasonDistribution['totals'] } | null;
+  }> | null>(null);
+  const [gmSeasonDraft, setGmSeasonDraft] = useState('');
+  const [gmSeasonBusy, setGmSeasonBusy] = useState(false);
 
   // Broadcast state
   const [broadcastMessages, setBroadcastMessages] = useState<BroadcastMessage[]>([]);
@@ -764,6 +787,112 @@ export default function AdminInviteDashboard() {
     }
   };
 
+  const fetchAISpend = async () => {
+    try {
+      const res = await fetch('/api/chat/ai/admin/spend?days=7', {
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+        signal: abortControllerRef.current?.signal,
+      });
+      if (!res.ok) {
+        console.warn('Failed to fetch AI spend:', res.status);
+        return;
+      }
+      const data = await res.json();
+      setAISpend({ rows: data.rows || [], chain: data.chain || [], circuits: data.circuits || {}, budgets: data.budgets || {} });
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.error('Error fetching AI spend:', error);
+      }
+    }
+  };
+
+  const fetchKnowledgeBase = async (query?: string) => {
+    try {
+      const res = await fetch(`/api/chat/ai/admin/knowledge${query ? `?q=${encodeURIComponent(query)}` : ''}`, {
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+        signal: abortControllerRef.current?.signal,
+      });
+      if (!res.ok) {
+        console.warn('Failed to fetch knowledge base:', res.status);
+        return;
+      }
+      const data = await res.json();
+      setKbChunks(data.chunks || []);
+      setKbPreview(data.preview ?? null);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.error('Error fetching knowledge base:', error);
+      }
+    }
+  };
+
+  const startKnowledgeDraft = (from?: KnowledgeChunk) => {
+    const draft = from
+      ? { id: from.id, title: from.title, content: from.content, source: from.source === 'builtin' ? 'admin' : from.source, tags: from.tags, pinned: from.pinned }
+      : { id: '', title: '', content: '', source: 'admin', tags: [], pinned: false };
+    setKbDraft(JSON.stringify(draft, null, 2));
+  };
+
+  const saveKnowledgeDraft = async () => {
+    let body: unknown;
+    try {
+      body = JSON.parse(kbDraft);
+    } catch {
+      toast.error('Knowledge chunk is not valid JSON');
+      return;
+    }
+    setKbSaving(true);
+    try {
+      const res = await fetch('/api/chat/ai/admin/knowledge', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${adminKey}` },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Saved ${data.chunk.id} v${data.chunk.version}`);
+        setKbDraft('');
+        fetchKnowledgeBase();
+      } else {
+        toast.error(data?.error || 'Failed to save knowledge chunk');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save knowledge chunk');
+    } finally {
+      setKbSaving(false);
+    }
+  };
+
+  const deleteKnowledgeChunkById = async (id: string) => {
+    try {
+      const res = await fetch(`/api/chat/ai/admin/knowledge?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Removed ${id}`);
+        fetchKnowledgeBase();
+      } else {
+        toast.error(data?.error || 'Failed to delete knowledge chunk');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete knowledge chunk');
+    }
+  };
+
+  const confirmDeleteKnowledgeChunk = (chunk: KnowledgeChunk & { overridesBuiltin: boolean }) => {
+    showConfirmDialog({
+      title: chunk.overridesBuiltin ? 'Revert Knowledge Chunk' : 'Delete Knowledge Chunk',
+      description: chunk.overridesBuiltin
+        ? `Revert "${chunk.id}" to the built-in text shipped with the app?`
+        : `Delete "${chunk.id}"? Neural Seed will no longer retrieve it.`,
+      confirmText: chunk.overridesBuiltin ? 'Revert' : 'Delete',
+      onConfirm: () => deleteKnowledgeChunkById(chunk.id),
+      isDangerous: true,
+    });
+  };
+
   const loadConversationMessages = async (conversationId: string) => {
     try {
       const response = await fetch(`/api/chat/ai/admin/messages?conversationId=${conversationId}`, {
@@ -934,6 +1063,8 @@ export default function AdminInviteDashboard() {
       fetchChatData();
     } else if (activeTab === 'ai-chat') {
       fetchAIChatData();
+      fetchAISpend();
+      fetchKnowledgeBase();
     } else if (activeTab === 'gamification') {
       (async () => {
         try {
@@ -953,6 +1084,8 @@ export default function AdminInviteDashboard() {
           }
         }
       })();
+      fetchMissionSets();
+      fetchSeasons();
     } else if (activeTab === 'rpc') {
       fetchRpcStatus();
     } else if (activeTab === 'notifications') {
@@ -992,6 +1125,240 @@ export default function AdminInviteDashboard() {
     }
   };
 
+  const fetchMissionSets = async () => {
+    try {
+      const res = await fetch('/api/gamification/admin/missions', {
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+        signal: abortControllerRef.current?.signal,
+      });
+      if (!res.ok) {
+        console.warn('Failed to fetch mission sets:', res.status);
+        return;
+      }
+      const data = await res.json();
+      setGmSets({
+        sets: data.sets || [],
+        classic: data.classic,
+        activeDailyId: data.activeDailyId,
+        activeWeeklyId: data.activeWeeklyId ?? null,
+        verifiers: data.verifiers || [],
+      });
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.error('Error fetching mission sets:', error);
+      }
+    }
+  };
+
+  // New sets start from the classic definition so the shape is self-documenting
+  const startMissionSetDraft = (track: 'daily' | 'weekly', from?: GmMissionSet) => {
+    const base = from ?? gmSets?.classic;
+    if (!base) return;
+    const { updatedAt, ...rest } = base;
+    const draft = from ? rest : { ...rest, id: `${track}-${new Date().toISOString().slice(0, 10)}`, track, title: track === 'weekly' ? 'Weekly missions' : rest.title };
+    setGmSetDraft(JSON.stringify(draft, null, 2));
+  };
+
+  const saveMissionSetDraft = async () => {
+    let body: unknown;
+    try {
+      body = JSON.parse(gmSetDraft);
+    } catch {
+      toast.error('Mission set is not valid JSON');
+      return;
+    }
+    setGmSetSaving(true);
+    try {
+      const res = await fetch('/api/gamification/admin/missions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${adminKey}` },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Saved mission set ${data.set.id}`);
+        setGmSetDraft('');
+        fetchMissionSets();
+      } else {
+        toast.error(data?.error || 'Failed to save mission set');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save mission set');
+    } finally {
+      setGmSetSaving(false);
+    }
+  };
+
+  const deleteMissionSetById = async (id: string) => {
+    try {
+      const res = await fetch(`/api/gamification/admin/missions?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Deleted mission set ${id}`);
+        fetchMissionSets();
+      } else {
+        toast.error(data?.error || 'Failed to delete mission set');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete mission set');
+    }
+  };
+
+  const confirmDeleteMissionSet = (id: string) => {
+    showConfirmDialog({
+      title: 'Delete Mission Set',
+      description: `Delete mission set "${id}"? Progress already recorded on it keeps its points.`,
+      confirmText: 'Delete',
+      onConfirm: () => deleteMissionSetById(id),
+      isDangerous: true,
+    });
+  };
+
+  const fetchSeasons = async () => {
+    try {
+      const res = await fetch('/api/gamification/admin/seasons', {
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+        signal: abortControllerRef.current?.signal,
+      });
+      if (!res.ok) {
+        console.warn('Failed to fetch seasons:', res.status);
+        return;
+      }
+      const data = await res.json();
+      setGmSeasons(data.seasons || []);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.error('Error fetching seasons:', error);
+      }
+    }
+  };
+
+  const startSeasonDraft = (from?: GmSeason) => {
+    if (from) {
+      const { id, title, startsOn, endsOn, prizes } = from;
+      setGmSeasonDraft(JSON.stringify({ id, title, startsOn, endsOn, prizes }, null, 2));
+      return;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    setGmSeasonDraft(JSON.stringify({
+      id: `season-${today.slice(0, 7)}`,
+      title: 'New season',
+      startsOn: today,
+      endsOn: today,
+      prizes: [
+        { board: 'missions', fromRank: 1, toRank: 1, seed: '100', leaf: '0' },
+        { board: 'plants', fromRank: 1, toRank: 3, seed: '50', leaf: '0' },
+      ],
+    }, null, 2));
+  };
+
+  const saveSeasonDraft = async () => {
+    let body: unknown;
+    try {
+      body = JSON.parse(gmSeasonDraft);
+    } catch {
+      toast.error('Season is not valid JSON');
+      return;
+    }
+    setGmSeasonBusy(true);
+    try {
+      const res = await fetch('/api/gamification/admin/seasons', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${adminKey}` },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Saved season ${data.season.id}`);
+        setGmSeasonDraft('');
+        fetchSeasons();
+      } else {
+        toast.error(data?.error || 'Failed to save season');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save season');
+    } finally {
+      setGmSeasonBusy(false);
+    }
+  };
+
+  const updateSeasonDistribution = async (id: string, action: 'finalize' | 'approve') => {
+    setGmSeasonBusy(true);
+    try {
+      const res = await fetch('/api/gamification/admin/seasons/distribution', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${adminKey}` },
+        body: JSON.stringify({ id, action }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(action === 'finalize'
+          ? `Finalized ${id}: ${data.distribution.entries.length} prizes drafted`
+          : `Approved ${id}; prizes go out on the next seasons cron run`);
+        fetchSeasons();
+      } else {
+        toast.error(data?.error || `Failed to ${action} season`);
+      }
+    } catch (error: any) {
+      toast.error(error.message || `Failed to ${action} season`);
+    } finally {
+      setGmSeasonBusy(false);
+    }
+  };
+
+  const downloadSeasonDistribution = async (id: string) => {
+    try {
+      const res = await fetch(`/api/gamification/admin/seasons/distribution?id=${encodeURIComponent(id)}&format=csv`, {
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+      });
+      if (!res.ok) {
+        toast.error('Failed to download distribution');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `season-${id}-distribution.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download distribution');
+    }
+  };
+
+  const confirmApproveSeason = (id: string, totals: GmSeasonDistribution['totals']) => {
+    showConfirmDialog({
+      title: 'Approve Prize Distribution',
+      description: `Send ${totals.seed} SEED and ${totals.leaf} LEAF for season "${id}" from the agent wallet? Review the CSV first.`,
+      confirmText: 'Approve',
+      onConfirm: () => updateSeasonDistribution(id, 'approve'),
+      isDangerous: true,
+    });
+  };
+
+  const deleteSeasonById = async (id: string) => {
+    try {
+      const res = await fetch(`/api/gamification/admin/seasons?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${adminKey}` },
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Deleted season ${id}`);
+        fetchSeasons();
+      } else {
+        toast.error(data?.error || 'Failed to delete season');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete season');
+    }
+  };
+
   const confirmResetGamification = (scope: 'streaks' | 'missions' | 'all') => {
     showConfirmDialog({
       title: 'Reset Gamification Data',
@@ -2196,7 +2563,7 @@ export default function AdminInviteDashboard() {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm text-muted-foreground">Total Messages</p>
+                        <p className="text-sm text-muted-foreground">Total Messages ({chatStats.retentionDays}d)</p>
                         <p className="text-2xl font-bold">{chatStats.totalMessages}</p>
                       </div>
                       <MessageCircle className="w-8 h-8 text-muted-foreground" />
@@ -2220,7 +2587,7 @@ export default function AdminInviteDashboard() {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between">
                       <div>
-                        <p className="text-sm text-muted-foreground">Last 24h</p>
+                        <p className="text-sm text-muted-foreground">Last 24h ({chatStats.activeRooms} rooms)</p>
                         <p className="text-2xl font-bold">{chatStats.messagesLast24h}</p>
                       </div>
                       <Clock className="w-8 h-8 text-muted-foreground" />
@@ -2283,6 +2650,9 @@ export default function AdminInviteDashboard() {
                               <span className="text-xs text-muted-foreground">
                                 {new Date(message.timestamp).toLocaleString()} (Local)
                               </span>
+                              <span className="text-xs bg-muted px-2 py-0.5 rounded-full">
+                                {message.room}
+                              </span>
                               {message.isSpam && (
                                 <span className="text-xs bg-destructive/10 text-destructive px-2 py-1 rounded-full">
                                   Potential Spam
@@ -2527,6 +2897,11 @@ export default function AdminInviteDashboard() {
                             </span>
                           </div>
                           <p className="text-sm whitespace-pre-wrap text-foreground">{message.message}</p>
+                          {message.sources && message.sources.length > 0 && (
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              Sources: {message.sources.map((s) => `${s.id} v${s.version}`).join(', ')}
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -2534,6 +2909,165 @@ export default function AdminInviteDashboard() {
                 </CardContent>
               </Card>
             </div>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Spend by Provider</CardTitle>
+                  <Button variant="outline" size="sm" onClick={fetchAISpend}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Refresh
+                  </Button>
+                </div>
+                <CardDescription>Last 7 days (UTC); requests fail over along the chain and skip providers whose circuit is open</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!aiSpend ? (
+                  <LoadingSpinner text="Loading spend..." />
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {aiSpend.chain.length === 0 && <span className="text-sm text-muted-foreground">No provider has an API key configured</span>}
+                      {aiSpend.chain.map((entry, i) => {
+                        const circuit = aiSpend.circuits[entry.provider];
+                        const open = !!circuit && circuit.openUntil > Date.now();
+                        return (
+                          <div key={`${entry.provider}-${i}`} className="p-2 bg-muted/50 rounded text-xs" title={circuit?.lastError || undefined}>
+                            <span className="font-medium">{i + 1}. {entry.provider}</span>{' '}
+                            <span className="font-mono text-muted-foreground">{entry.model}</span>{' '}
+                            {open ? (
+                              <span className="text-red-600">open until {new Date(circuit.openUntil).toLocaleTimeString()}</span>
+                            ) : circuit?.failures ? (
+                              <span className="text-orange-600">{circuit.failures} recent failures</span>
+                            ) : (
+                              <span className="text-green-600">healthy</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-muted-foreground">
+                            <th className="py-1 pr-3">Date</th>
+                            <th className="py-1 pr-3">Provider</th>
+                            <th className="py-1 pr-3">Model</th>
+                            <th className="py-1 pr-3 text-right">Replies</th>
+                            <th className="py-1 pr-3 text-right">Tokens</th>
+                            <th className="py-1 text-right">Cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {aiSpend.rows.length === 0 ? (
+                            <tr><td colSpan={6} className="py-4 text-center text-muted-foreground">No spend recorded</td></tr>
+                          ) : aiSpend.rows.map((row) => (
+                            <tr key={`${row.date}-${row.provider}-${row.model}`} className="border-t border-border">
+                              <td className="py-1 pr-3">{row.date}</td>
+                              <td className="py-1 pr-3">{row.provider}</td>
+                              <td className="py-1 pr-3 font-mono text-xs">{row.model}</td>
+                              <td className="py-1 pr-3 text-right">{row.messages}</td>
+                              <td className="py-1 pr-3 text-right">{row.tokens.toLocaleString()}</td>
+                              <td className="py-1 text-right">${row.estimatedCost.toFixed(4)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    <div className="text-xs text-muted-foreground">
+                      Daily budgets per address:{' '}
+                      {Object.entries(aiSpend.budgets).map(([tier, b]) => `${tier} ${b.tokensPerDay.toLocaleString()} tokens / $${b.costPerDayUsd}`).join(' · ')}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Knowledge Base</CardTitle>
+                <CardDescription>
+                  Neural Seed gets the pinned chunks plus the best matches for each question; saving a built-in chunk overrides it until reverted
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Preview retrieval for a question..."
+                    value={kbQuery}
+                    onChange={(e) => setKbQuery(sanitizeInput(e.target.value))}
+                    maxLength={300}
+                  />
+                  <Button variant="outline" onClick={() => fetchKnowledgeBase(kbQuery.trim() || undefined)}>
+                    <Search className="w-4 h-4 mr-2" />
+                    Preview
+                  </Button>
+                </div>
+                {kbPreview && (
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <div>Pinned: {kbPreview.pinned.join(', ') || 'none'}</div>
+                    <div>
+                      Matches: {kbPreview.matches.length === 0 ? 'none' : kbPreview.matches.map((m) => `${m.id} (${m.score})`).join(', ')}
+                    </div>
+                  </div>
+                )}
+
+                {!kbChunks ? (
+                  <LoadingSpinner text="Loading knowledge base..." />
+                ) : (
+                  <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                    {kbChunks.map((chunk) => (
+                      <div key={chunk.id} className="flex items-center justify-between p-2 bg-muted/50 rounded gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">
+                            {chunk.title} <span className="font-mono text-xs text-muted-foreground">{chunk.id}</span>
+                            {chunk.pinned && <span className="ml-2 text-xs text-green-600">pinned</span>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            v{chunk.version} · {chunk.overridesBuiltin ? `${chunk.source} (overrides built-in)` : chunk.source} · {chunk.content.length} chars
+                            {chunk.updatedAt > 0 && <> · {formatDistanceToNow(new Date(chunk.updatedAt), { addSuffix: true })}</>}
+                          </div>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                          <Button size="sm" variant="ghost" onClick={() => startKnowledgeDraft(chunk)}>Edit</Button>
+                          {(chunk.source !== 'builtin' || chunk.overridesBuiltin) && (
+                            <Button size="sm" variant="ghost" onClick={() => confirmDeleteKnowledgeChunk(chunk)}>
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button size="sm" variant="outline" onClick={() => startKnowledgeDraft()}>
+                  <Plus className="w-3 h-3 mr-1" />New chunk
+                </Button>
+
+                {kbDraft && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={kbDraft}
+                      onChange={(e) => setKbDraft(e.target.value)}
+                      rows={16}
+                      className="font-mono text-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Keep chunks to one topic so retrieval stays precise. The id defaults to a slug of the title; each save bumps the version.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={saveKnowledgeDraft} disabled={kbSaving}>
+                        {kbSaving ? 'Saving…' : 'Save chunk'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setKbDraft('')}>Cancel</Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
         )}
 
@@ -2601,6 +3135,159 @@ export default function AdminInviteDashboard() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Mission Sets</CardTitle>
+                <CardDescription>
+                  Daily sets rotate by day and weekly sets by week when several are active; with no active daily set the built-in classic set is used
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!gmSets ? (
+                  <LoadingSpinner text="Loading mission sets..." />
+                ) : (
+                  <div className="space-y-2">
+                    {[gmSets.classic, ...gmSets.sets].map((set) => {
+                      const active = set.id === gmSets.activeDailyId || set.id === gmSets.activeWeeklyId;
+                      const points = set.sections.reduce((sum, s) => sum + s.points, 0) + set.tasks.reduce((sum, t) => sum + t.points, 0);
+                      return (
+                        <div key={set.id} className="flex items-center justify-between p-2 bg-muted/50 rounded gap-3">
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium truncate">
+                              {set.title} <span className="font-mono text-xs text-muted-foreground">{set.id}</span>
+                              {active && <span className="ml-2 text-xs text-green-600">active</span>}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {set.track} · {set.tasks.length} tasks · {points} Rocks · {set.startsOn || 'any'} → {set.endsOn || 'open'}
+                            </div>
+                          </div>
+                          <div className="flex gap-1 shrink-0">
+                            <Button size="sm" variant="ghost" onClick={() => startMissionSetDraft(set.track, set.id === gmSets.classic.id ? undefined : set)}>
+                              {set.id === gmSets.classic.id ? 'Copy' : 'Edit'}
+                            </Button>
+                            {set.id !== gmSets.classic.id && (
+                              <Button size="sm" variant="ghost" onClick={() => confirmDeleteMissionSet(set.id)}>
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => startMissionSetDraft('daily')} disabled={!gmSets}>
+                    <Plus className="w-3 h-3 mr-1" />New daily set
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startMissionSetDraft('weekly')} disabled={!gmSets}>
+                    <Plus className="w-3 h-3 mr-1" />New weekly set
+                  </Button>
+                </div>
+
+                {gmSetDraft && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={gmSetDraft}
+                      onChange={(e) => setGmSetDraft(e.target.value)}
+                      rows={16}
+                      className="font-mono text-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Verifiers: {gmSets?.verifiers.join(', ')} (or null for tasks tracked without a transaction). Dates are UTC YYYY-MM-DD.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={saveMissionSetDraft} disabled={gmSetSaving}>
+                        {gmSetSaving ? 'Saving…' : 'Save set'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setGmSetDraft('')}>Cancel</Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Seasons</CardTitle>
+                <CardDescription>
+                  Ended seasons are finalized by the seasons cron; prizes are only sent after the drafted distribution is approved
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!gmSeasons ? (
+                  <LoadingSpinner text="Loading seasons..." />
+                ) : gmSeasons.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">No seasons yet</div>
+                ) : (
+                  <div className="space-y-2">
+                    {gmSeasons.map((season) => (
+                      <div key={season.id} className="flex items-center justify-between p-2 bg-muted/50 rounded gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">
+                            {season.title} <span className="font-mono text-xs text-muted-foreground">{season.id}</span>
+                            <span className="ml-2 text-xs text-muted-foreground">{season.phase}</span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {season.startsOn} → {season.endsOn} · {season.prizes.length} prize tiers
+                            {season.distribution && ` · distribution ${season.distribution.status}: ${season.distribution.entries} prizes, ${season.distribution.totals.seed} SEED / ${season.distribution.totals.leaf} LEAF`}
+                            {season.distribution && season.distribution.failed > 0 && <span className="text-red-600"> · {season.distribution.failed} failed</span>}
+                            {season.distribution && season.distribution.sending > 0 && <span className="text-amber-600"> · {season.distribution.sending} unconfirmed</span>}
+                          </div>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                          {!season.finalizedAt && (
+                            <Button size="sm" variant="ghost" onClick={() => startSeasonDraft(season)}>Edit</Button>
+                          )}
+                          {season.phase === 'ended' && (
+                            <Button size="sm" variant="outline" onClick={() => updateSeasonDistribution(season.id, 'finalize')} disabled={gmSeasonBusy}>Finalize</Button>
+                          )}
+                          {season.distribution && season.distribution.entries > 0 && (
+                            <Button size="sm" variant="ghost" onClick={() => downloadSeasonDistribution(season.id)}>
+                              <Download className="w-3 h-3 mr-1" />CSV
+                            </Button>
+                          )}
+                          {season.distribution?.status === 'draft' && (
+                            <Button size="sm" onClick={() => confirmApproveSeason(season.id, season.distribution!.totals)} disabled={gmSeasonBusy}>Approve</Button>
+                          )}
+                          {!season.finalizedAt && (
+                            <Button size="sm" variant="ghost" onClick={() => deleteSeasonById(season.id)}>
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button size="sm" variant="outline" onClick={() => startSeasonDraft()}>
+                  <Plus className="w-3 h-3 mr-1" />New season
+                </Button>
+
+                {gmSeasonDraft && (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={gmSeasonDraft}
+                      onChange={(e) => setGmSeasonDraft(e.target.value)}
+                      rows={14}
+                      className="font-mono text-xs"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Boards: missions, streaks, plants, lands, stake. Prize amounts are per rank in the range. Dates are inclusive UTC YYYY-MM-DD; seasons may not overlap.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={saveSeasonDraft} disabled={gmSeasonBusy}>
+                        {gmSeasonBusy ? 'Saving…' : 'Save season'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setGmSeasonDraft('')}>Cancel</Button>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Admin Actions</CardTitle>
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import {
+  ACTIVITY_EVENT_TYPES,
+  ACTIVITY_PAGE_DEFAULT,
+  getActivityFeed,
+  type ActivityEventType,
+  type ActivityFeedFilters,
+} from '@/lib/activity-feed';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const parseId = (value: string | null) => (value && /^\d+$/.test(value) ? value : undefined);
+const parseSeconds = (value: string | null) => {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+};
+
+/**
+ * GET /api/activity?types=Attack,Killed&plantId=&landId=&address=&from=&to=&cursor=&limit=
+ * Newest-first activity across all event types; pass `nextCursor` back as `cursor` for the next page.
+ */
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+
+  const rawTypes = (params.get('types') || '').split(',').map((t) => t.trim()).filter(Boolean);
+  const unknownType = rawTypes.find((t) => !ACTIVITY_EVENT_TYPES.includes(t as ActivityEventType));
+  if (unknownType) {
+    return NextResponse.json({ success: false, error: `Unknown event type: ${unknownType}` }, { status: 400 });
+  }
+
+  const address = params.get('address') || undefined;
+  if (address && !isAddress(address)) {
+    return NextResponse.json({ success: false, error: 'Invalid address' }, { status: 400 });
+  }
+
+  const filters: ActivityFeedFilters = {
+    types: rawTypes as ActivityEventType[],
+    plantId: parseId(params.get('plantId')),
+    landId: parseId(params.get('landId')),
+    address,
+    from: parseSeconds(params.get('from')),
+    to: parseSeconds(params.get('to')),
+  };
+  if (filters.from !== undefined && filters.to !== undefined && filters.from > filters.to) {
+    return NextResponse.json({ success: false, error: '`from` must be before `to`' }, { status: 400 });
+  }
+
+  try {
+    const page = await getActivityFeed(filters, {
+      cursor: params.get('cursor'),
+      limit: Number(params.get('limit')) || ACTIVITY_PAGE_DEFAULT,
+    });
+    return NextResponse.json(
+      { success: true, ...page },
+      { headers: { 'Cache-Control': 'public, max-age=15, s-maxage=30' } },
+    );
+  } catch (error) {
+    console.error('[Activity] Failed to load activity feed', error);
+    return NextResponse.json({ success: false, error: 'Failed to load activity' }, { status: 500 });
+  }
+}
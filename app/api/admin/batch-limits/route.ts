@@ -2,9 +2,10 @@
  * Batch Limits Diagnostic API
  * 
  * Tests the practical limits for batch transactions by estimating gas
- * for different batch sizes of villageClaimProduction calls.
+ * for different batch sizes of villageClaimProduction calls, or of the
+ * cross-land upgrade / speed-up / quest calls with ?action=.
  * 
- * GET /api/admin/batch-limits?address=0x...&maxBatch=50
+ * GET /api/admin/batch-limits?address=0x...&maxBatch=50&action=claim|upgrade|speedup|quest
  * 
  * Returns gas estimates for batch sizes from 1 to maxBatch
  */
@@ -13,17 +14,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createPublicClient, http, encodeFunctionData } from 'viem';
 import { base } from 'viem/chains';
 import { landAbi } from '@/public/abi/pixotchi-v3-abi';
-import { LAND_CONTRACT_ADDRESS, getLandsByOwner, getLandBuildingsBatch } from '@/lib/contracts';
-
-// Base per-transaction gas limits
-// Pre-Fusaka: 25,000,000 gas per transaction
-// Post-Fusaka (EIP-7825, ~Jan 2026): 16,777,216 gas (2^24)
-// See: https://docs.base.org/chain/gas-limit
-const PRE_FUSAKA_TX_GAS_LIMIT = BigInt(25_000_000);
-const POST_FUSAKA_TX_GAS_LIMIT = BigInt(16_777_216); // 2^24
-
-// Use the post-Fusaka limit since it's the current constraint on mainnet
-const PER_TX_GAS_LIMIT = POST_FUSAKA_TX_GAS_LIMIT;
+import { LAND_CONTRACT_ADDRESS, getLandsByOwner, getLandBuildingsBatch, getQuestSlotsBatch } from '@/lib/contracts';
+import {
+  ESTIMATED_GAS_PER_CALL,
+  PER_TX_GAS_LIMIT,
+  POST_FUSAKA_TX_GAS_LIMIT,
+  PRE_FUSAKA_TX_GAS_LIMIT,
+  SMART_WALLET_OVERHEAD_BASE,
+  SMART_WALLET_OVERHEAD_PER_CALL,
+} from '@/lib/batch-limits';
+import { collectLandBatchItems, LAND_BATCH_ACTIONS, type LandBatchAction } from '@/lib/land-batch-planner';
 
 // Known limits to report
 const KNOWN_LIMITS = {
@@ -33,24 +33,39 @@ const KNOWN_LIMITS = {
   postFusakaLimit: POST_FUSAKA_TX_GAS_LIMIT.toString(),
   // Coinbase Smart Wallet bundler must fit within per-tx limit
   // Bundler adds overhead: ~21k base + ~5-10k per call
-  smartWalletOverheadBase: 21_000,
-  smartWalletOverheadPerCall: 5_000,
+  smartWalletOverheadBase: Number(SMART_WALLET_OVERHEAD_BASE),
+  smartWalletOverheadPerCall: Number(SMART_WALLET_OVERHEAD_PER_CALL),
   // RPC simulation typically times out around 100-200 calls
   rpcSimulationSafe: 100,
   // Tested recommendation based on real 100+ land account
   recommendedBatchSize: 50,
+  // Fallback per-call gas the batch cards chunk with when simulation is unavailable
+  estimatedGasPerCall: Object.fromEntries(
+    Object.entries(ESTIMATED_GAS_PER_CALL).map(([name, gas]) => [name, gas.toString()])
+  ),
 };
 
+type BatchAction = 'claim' | LandBatchAction;
+const BATCH_ACTIONS: BatchAction[] = ['claim', ...LAND_BATCH_ACTIONS.map((a) => a.value)];
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const address = searchParams.get('address');
   const maxBatchParam = searchParams.get('maxBatch');
   const maxBatch = maxBatchParam ? Math.min(parseInt(maxBatchParam), 100) : 50;
+  const action = (searchParams.get('action') || 'claim') as BatchAction;
 
   if (!address) {
     return NextResponse.json({
       error: 'Address required',
-      usage: '/api/admin/batch-limits?address=0x...&maxBatch=50',
+      usage: '/api/admin/batch-limits?address=0x...&maxBatch=50&action=claim',
+      knownLimits: KNOWN_LIMITS,
+    }, { status: 400 });
+  }
+
+  if (!BATCH_ACTIONS.includes(action)) {
+    return NextResponse.json({
+      error: `Unknown action, expected one of: ${BATCH_ACTIONS.join(', ')}`,
       knownLimits: KNOWN_LIMITS,
     }, { status: 400 });
   }
@@ -76,39 +91,39 @@ export async function GET(request: NextRequest) {
     const landIds = lands.map(l => l.tokenId);
     const buildingResults = await getLandBuildingsBatch(landIds);
 
-    // Collect all claimable items
-    interface ClaimableItem {
-      landId: bigint;
-      buildingId: number;
-      points: bigint;
-      lifetime: bigint;
-    }
-    
-    const claimableItems: ClaimableItem[] = [];
-    buildingResults.forEach(result => {
-      result.villageBuildings.forEach((b: any) => {
-        const id = Number(b.id);
-        const points = BigInt(b.accumulatedPoints || 0);
-        const lifetime = BigInt(b.accumulatedLifetime || 0);
-        
-        // Production buildings only (0: Solar, 3: Soil, 5: Bee)
-        if ((id === 0 || id === 3 || id === 5) && (points > BigInt(0) || lifetime > BigInt(0))) {
-          claimableItems.push({
-            landId: result.landId,
-            buildingId: id,
-            points,
-            lifetime
-          });
-        }
+    // Collect every call of the requested kind, in the order the batch cards would send them
+    const claimableItems: { functionName: string; args: readonly unknown[] }[] = [];
+    if (action === 'claim') {
+      buildingResults.forEach(result => {
+        result.villageBuildings.forEach((b: any) => {
+          const id = Number(b.id);
+          const points = BigInt(b.accumulatedPoints || 0);
+          const lifetime = BigInt(b.accumulatedLifetime || 0);
+
+          // Production buildings only (0: Solar, 3: Soil, 5: Bee)
+          if ((id === 0 || id === 3 || id === 5) && (points > BigInt(0) || lifetime > BigInt(0))) {
+            claimableItems.push({ functionName: 'villageClaimProduction', args: [result.landId, id] });
+          }
+        });
       });
-    });
+    } else {
+      const [questSlots, currentBlock] = await Promise.all([
+        action === 'quest' ? getQuestSlotsBatch(landIds) : Promise.resolve(undefined),
+        client.getBlockNumber(),
+      ]);
+      collectLandBatchItems({ action, buildings: buildingResults, questSlots, currentBlock }).forEach(item => {
+        claimableItems.push({ functionName: item.call.functionName, args: item.call.args });
+      });
+    }
 
     if (claimableItems.length === 0) {
       return NextResponse.json({
-        message: 'No claimable buildings found',
+        message: `No ${action} calls available for this address`,
         lands: lands.length,
         knownLimits: KNOWN_LIMITS,
-        suggestion: 'Wait for buildings to accumulate production, or test with mock data',
+        suggestion: action === 'claim'
+          ? 'Wait for buildings to accumulate production, or test with mock data'
+          : 'Test with an address that has buildings or quest slots in the matching state',
       });
     }
 
@@ -132,8 +147,8 @@ export async function GET(request: NextRequest) {
         to: LAND_CONTRACT_ADDRESS as `0x${string}`,
         data: encodeFunctionData({
           abi: landAbi,
-          functionName: 'villageClaimProduction',
-          args: [item.landId, item.buildingId],
+          functionName: item.functionName as any,
+          args: item.args as any,
         }),
       }));
 
@@ -191,7 +206,7 @@ export async function GET(request: NextRequest) {
 
     // Smart wallet bundler overhead: ~21k base + ~5k per call
     // Must fit within per-transaction gas limit (16.77M post-Fusaka)
-    const smartWalletOverhead = BigInt(21_000) + BigInt(5_000) * BigInt(maxBatch);
+    const smartWalletOverhead = SMART_WALLET_OVERHEAD_BASE + SMART_WALLET_OVERHEAD_PER_CALL * BigInt(maxBatch);
     const safeGasLimit = PER_TX_GAS_LIMIT - smartWalletOverhead;
     const calculatedMaxBatch = Number(safeGasLimit / avgGasPerCall);
 
@@ -204,6 +219,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       address,
+      action,
       landsCount: lands.length,
       claimableBuildings: claimableItems.length,
       knownLimits: KNOWN_LIMITS,
@@ -216,7 +232,7 @@ export async function GET(request: NextRequest) {
         calculatedMaxBatch,
         finalRecommendation,
         reasoning: [
-          `Average gas per villageClaimProduction: ~${avgGasPerCall.toString()} gas`,
+          `Average gas per ${action} call: ~${avgGasPerCall.toString()} gas`,
           `Per-transaction gas limit (post-Fusaka EIP-7825): 16.77M`,
           `Smart wallet bundler adds ~21k base + ~5k per call overhead`,
           `Safe gas budget after overhead: ${safeGasLimit.toString()}`,
@@ -229,7 +245,7 @@ export async function GET(request: NextRequest) {
         maxBatchSize: finalRecommendation,
         totalBatches: Math.ceil(claimableItems.length / finalRecommendation),
         message: claimableItems.length <= finalRecommendation
-          ? 'All buildings can be claimed in a single batch!'
+          ? 'All calls fit in a single batch!'
           : `Split into ${Math.ceil(claimableItems.length / finalRecommendation)} batches of ${finalRecommendation}`,
       },
     });
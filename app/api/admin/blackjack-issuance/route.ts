@@ -0,0 +1,47 @@
+/**
+ * Blackjack Randomness Issuance API
+ *
+ * GET /api/admin/blackjack-issuance?landId=123&limit=100
+ *
+ * Returns the seeds issued for a land (newest first; seed hashes only), the land's current
+ * onchain nonce, and which configured signer keys the contract trusts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminKey, createErrorResponse } from '@/lib/auth-utils';
+import { blackjackGetNonce, getReadClient } from '@/lib/contracts';
+import { getRandomnessIssuance, getRandomnessSignerStatus } from '@/lib/blackjack-randomness';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    return NextResponse.json(createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED').body, { status: 401 });
+  }
+
+  const landId = request.nextUrl.searchParams.get('landId');
+  if (!landId || !/^\d+$/.test(landId)) {
+    return NextResponse.json(createErrorResponse('Valid landId is required', 400).body, { status: 400 });
+  }
+  const limitParam = Number(request.nextUrl.searchParams.get('limit') || 100);
+  const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 1000) : 100;
+
+  try {
+    const [issuance, nonce, signers] = await Promise.all([
+      getRandomnessIssuance(landId, limit),
+      blackjackGetNonce(BigInt(landId)),
+      getRandomnessSignerStatus(getReadClient()),
+    ]);
+    return NextResponse.json({
+      success: true,
+      landId,
+      onchainNonce: nonce !== null ? nonce.toString() : null,
+      signers,
+      ...issuance,
+      timestamp: Date.now(),
+    });
+  } catch (e: any) {
+    console.error('Failed to load blackjack issuance', e);
+    return NextResponse.json(createErrorResponse('Failed to load issuance log', 500).body, { status: 500 });
+  }
+}
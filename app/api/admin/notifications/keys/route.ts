@@ -32,7 +32,12 @@ async function rawScanKeys(pattern: string, maxKeys: number = 1000): Promise<str
 }
 
 const NOTIFICATION_KEY_PATTERNS = [
-    'notif:plant12h:*',   // Current notification system
+    'notif:rules:*',      // Notification rules cron stats
+    'notif:cat:*',        // Per-category throttle keys
+    'notif:prefs:*',      // Per-FID / per-wallet notification preferences
+    'notif:channels:*',   // Per-wallet delivery channels
+    'notif:delivery:*',   // Channel delivery status records
+    'notif:plant12h:*',   // Legacy 12h keys
     'notif:plant3h:*',    // Legacy 3h keys
     'notif:plant1h:*',    // Legacy 1h keys
     'notif:fence:*',      // Legacy fence keys
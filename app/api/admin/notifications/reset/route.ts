@@ -63,7 +63,14 @@ export async function DELETE(req: NextRequest) {
     const ops: Array<Promise<any>> = [];
 
     if (scope === 'all') {
-      // Clear all plant12h notification keys
+      // Clear notification rules stats and per-category throttles (preferences are kept)
+      ops.push((redis as any)?.del?.('notif:rules:log'));
+      ops.push((redis as any)?.del?.('notif:rules:last'));
+      ops.push((redis as any)?.del?.('notif:rules:sent:count'));
+      ops.push((redis as any)?.del?.('notif:rules:runs'));
+      await scanAndDelete('notif:cat:*');
+
+      // Clear legacy plant12h notification keys
       ops.push((redis as any)?.del?.('notif:plant12h:log'));
       ops.push((redis as any)?.del?.('notif:plant12h:last'));
       ops.push((redis as any)?.del?.('notif:plant12h:sent:count'));
@@ -84,11 +91,14 @@ export async function DELETE(req: NextRequest) {
 
     } else if (scope === 'fid' && fid) {
       // Clear keys for specific fid
+      await scanAndDelete(`notif:cat:*:fid:${fid}`);
+      await scanAndDelete(`notif:cat:*:fid:${fid}:*`);
       ops.push((redis as any)?.del?.(`notif:plant12h:fid:${fid}`));
       await scanAndDelete(`notif:plant12h:fid:${fid}:plant:*`);
 
     } else if (scope === 'plant' && fid && plantId) {
       // Clear key for specific plant
+      await scanAndDelete(`notif:cat:plant_care:fid:${fid}:plant:${plantId}:*`);
       ops.push((redis as any)?.del?.(`notif:plant12h:fid:${fid}:plant:${plantId}`));
 
     } else {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { redis } from '@/lib/redis';
 import { validateAdminKey, createErrorResponse } from '@/lib/auth-utils';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/notification-rules';
 
 function parseList(raw: string[] | null) {
   return (raw || []).map((s: string) => {
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Plant TOD notification stats (12h threshold) - wrap each call to handle type mismatches
+    // Notification rules cron stats - wrap each call to handle type mismatches
     let plantSentCount = 0;
     let plantLast = 0;
     let plantRecent: any[] = [];
@@ -36,19 +37,19 @@ export async function GET(request: NextRequest) {
     let eligibleSet: string[] = [];
 
     try {
-      plantSentCount = Number((await (redis as any)?.get?.('notif:plant12h:sent:count')) || '0');
+      plantSentCount = Number((await (redis as any)?.get?.('notif:rules:sent:count')) || '0');
     } catch { /* key might be wrong type */ }
 
     try {
-      plantLast = Number((await (redis as any)?.get?.('notif:plant12h:last')) || '0');
+      plantLast = Number((await (redis as any)?.get?.('notif:rules:last')) || '0');
     } catch { /* key might be wrong type */ }
 
     try {
-      plantRecent = parseList(await (redis as any)?.lrange?.('notif:plant12h:log', 0, 20));
+      plantRecent = parseList(await (redis as any)?.lrange?.('notif:rules:log', 0, 20));
     } catch { /* key might be wrong type */ }
 
     try {
-      plantRuns = Number((await (redis as any)?.get?.('notif:plant12h:runs')) || '0');
+      plantRuns = Number((await (redis as any)?.get?.('notif:rules:runs')) || '0');
     } catch { /* key might be wrong type */ }
 
     try {
@@ -63,7 +64,7 @@ export async function GET(request: NextRequest) {
       success: true,
       stats: {
         plantTOD: {
-          thresholdHours: 12,
+          thresholdHours: DEFAULT_NOTIFICATION_PREFERENCES.plantThresholdsHours[0],
           sentCount: plantSentCount,
           lastRun: plantLast ? new Date(plantLast).toISOString() : null,
           recent: plantRecent,
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAutopilotForAllUsers } from '@/lib/autopilot-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes (Pro plan limit)
+
+// Stop starting new users with enough left for the one in progress to finish its user operation
+const RUN_BUDGET_MS = 240 * 1000;
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Runs every opted-in user's autopilot rules; scheduled just before the plant-care cron so plants
+// it rescues no longer show up as due for notifications. ?dry=true evaluates without executing.
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const dryRun = req.nextUrl.searchParams.get('dry') === 'true';
+    const result = await runAutopilotForAllUsers({
+      dryRun,
+      rpcUrl: 'https://base-rpc.publicnode.com',
+      deadline: Date.now() + RUN_BUDGET_MS,
+    });
+    return NextResponse.json({ success: true, dryRun, ...result });
+  } catch (error: any) {
+    console.error('[autopilot cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Autopilot run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { getAutopilotConfig, getAutopilotLog, saveAutopilotConfig } from '@/lib/autopilot-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agent/autopilot?address=0x...
+ * Autopilot rules and the most recent execution log for a user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+    }
+
+    await requireSession(request, address);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 20, 1), 100);
+    const [config, log] = await Promise.all([getAutopilotConfig(address), getAutopilotLog(address, limit)]);
+    return NextResponse.json({ success: true, config, log });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Autopilot config read error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to load autopilot rules' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/agent/autopilot
+ * Body: { address, enabled, dryRun, rules: AutopilotRule[] }
+ * Replaces the user's autopilot configuration.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, ...config } = body || {};
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+    }
+
+    await requireSession(request, address);
+    const result = await saveAutopilotConfig(address, config);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, config: result.config });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Autopilot config error:', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Failed to save autopilot rules' }, { status: 500 });
+  }
+}
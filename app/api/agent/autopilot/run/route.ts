@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { getAutopilotLog, runAutopilotForAddress } from '@/lib/autopilot-service';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/agent/autopilot/run
+ * Body: { address }
+ * Evaluate the user's rules as a dry run and return what autopilot would do right now.
+ * Live execution only happens from the autopilot cron.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address } = body || {};
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+    }
+
+    await requireSession(request, address);
+    const summary = await runAutopilotForAddress(address, { dryRun: true });
+    const log = await getAutopilotLog(address, 20);
+    return NextResponse.json({ success: true, summary, log });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Autopilot dry run error:', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Failed to evaluate autopilot rules' }, { status: 500 });
+  }
+}
@@ -5,15 +5,26 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 // Use centralized strain data for Agent
 import { z } from 'zod';
-import { PLANT_STRAINS } from '@/lib/constants';
+import { formatUnits, parseUnits } from 'viem';
+import { PLANT_STRAINS, VILLAGE_BUILDING_NAMES } from '@/lib/constants';
 import { getAgentAIProvider, getAgentModelConfig } from '@/lib/ai-config';
+import { getAllShopItems, getAllGardenItems, getPlantsByOwner, getLandsByOwner, getLandBuildingsBatch, getFenceV2Config, getStakeInfo } from '@/lib/contracts';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { AgentActionRequest, AgentUserCall, AGENT_MAX_PLANTS_PER_ACTION, quoteAgentAction } from '@/lib/agent-actions';
 // Removed generic AgentKit/Vercel AI tools to avoid requiring RPC URLs in this route
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 export const runtime = 'nodejs';
 
-// No AgentKit instance needed here; all onchain actions go through /api/agent/mint
+// No AgentKit instance needed here; onchain actions go through /api/agent/mint and /api/agent/execute
+
+type PendingUserAction = { summary: string; calls: AgentUserCall[]; requiresUserSignature: true };
+
+const isPendingUserAction = (output: unknown): output is PendingUserAction => {
+  const o = output as Partial<PendingUserAction> | null;
+  return !!o && o.requiresUserSignature === true && Array.isArray(o.calls) && o.calls.length > 0;
+};
 
 export async function POST(req: NextRequest) {
   try {
@@ -22,6 +33,11 @@ export async function POST(req: NextRequest) {
     if (!prompt || typeof prompt !== 'string') {
       return new Response(JSON.stringify({ error: 'Missing prompt' }), { status: 400 });
     }
+    // Agent tools spend this wallet's SEED, so the caller must be signed in as it
+    if (userAddress) await requireSession(req, String(userAddress));
+
+    const origin = (() => { try { return new URL(req.url).origin; } catch { return ''; } })();
+    const apiBase = process.env.NEXT_PUBLIC_URL || origin;
 
     // Use centralized strains (mintPriceSeed in SEED units)
     const HARDCODED_STRAINS = PLANT_STRAINS;
@@ -39,7 +55,7 @@ export async function POST(req: NextRequest) {
 
     const listStrains = tool({
       description: 'List available strains with exact prices. Always use this to get prices; do not guess.',
-      inputSchema: listStrainsParams as any,
+      inputSchema: listStrainsParams,
       execute: listStrainsExecute,
       strict: true,
     });
@@ -89,22 +105,23 @@ export async function POST(req: NextRequest) {
       // Actually execute the mint
       console.log('[MINT_TOOL] Executing mint...');
       try {
-        const origin = (() => { try { return new URL(req.url).origin; } catch { return ''; } })();
-        const base = process.env.NEXT_PUBLIC_URL || origin;
-        const mintUrl = `${base}/api/agent/mint`;
+        const mintUrl = `${apiBase}/api/agent/mint`;
         const requestBody = {
           userAddress: effectiveUserAddress,
           count,
           strainId: chosen?.id,
           totalSeedRequired: total,
           preparedSpendCalls: Array.isArray((preparedSpendCalls as any)) ? preparedSpendCalls : undefined,
+          tool: 'mint_plants',
+          prompt,
         };
 
-        console.log('[MINT_TOOL] Fetching:', { url: mintUrl, base, origin, body: requestBody });
+        console.log('[MINT_TOOL] Fetching:', { url: mintUrl, body: requestBody });
 
         const response = await fetch(mintUrl, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          // Forward the caller's session cookie; /api/agent/mint checks it against userAddress
+          headers: { 'Content-Type': 'application/json', cookie: req.headers.get('cookie') ?? '' },
           body: JSON.stringify(requestBody),
         });
 
@@ -176,37 +193,231 @@ export async function POST(req: NextRequest) {
 
     const mintPlants = tool({
       description: 'Mint Pixotchi plants for the user. Use execute=false for estimates, execute=true when user confirms.',
-      inputSchema: mintPlantsParams as any,
+      inputSchema: mintPlantsParams,
       execute: mintPlantsExecute,
       strict: true,
     });
 
+    const formatSeed = (wei: bigint) => Number(formatUnits(wei, 18)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    // Shared estimate-then-confirm runner for every game action beyond minting
+    const runGameAction = async (toolName: string, request: AgentActionRequest, execute: boolean, confirmedSeedCost?: number) => {
+      if (!userAddress) {
+        return { error: true, message: 'User wallet not provided. Ask the user to connect.' };
+      }
+
+      if (!execute) {
+        const quote = await quoteAgentAction(userAddress, request);
+        console.log('[AGENT_ACTION] Estimate:', { action: request.action, summary: quote.summary, seedCost: quote.seedCost, error: quote.error });
+        if (quote.error) return { error: true, message: quote.error };
+        return {
+          action: quote.action,
+          summary: quote.summary,
+          seedCost: quote.seedCost,
+          requiresUserSignature: quote.executor === 'user',
+          estimateOnly: true,
+          next: quote.executor === 'user'
+            ? 'After confirmation the user signs this transaction from their own wallet.'
+            : 'After confirmation the agent pays with SEED via spend permission.',
+        };
+      }
+
+      let maxSeedCostWei: string | undefined;
+      if (typeof confirmedSeedCost === 'number' && Number.isFinite(confirmedSeedCost) && confirmedSeedCost >= 0) {
+        try { maxSeedCostWei = parseUnits(confirmedSeedCost.toFixed(6), 18).toString(); } catch { }
+      }
+
+      try {
+        const response = await fetch(`${apiBase}/api/agent/execute`, {
+          method: 'POST',
+          // Forward the caller's session cookie; /api/agent/execute checks it against userAddress
+          headers: { 'Content-Type': 'application/json', cookie: req.headers.get('cookie') ?? '' },
+          body: JSON.stringify({ userAddress, request, maxSeedCostWei, tool: toolName, prompt }),
+        });
+        const result = await response.json().catch(() => ({}));
+        console.log('[AGENT_ACTION] Execute result:', { action: request.action, status: response.status, success: result?.success, error: result?.error });
+        if (!response.ok) {
+          return { error: true, message: result?.error || 'Failed to execute action' };
+        }
+        return {
+          success: true,
+          executed: !result.requiresUserSignature,
+          requiresUserSignature: Boolean(result.requiresUserSignature),
+          action: result.action,
+          summary: result.summary,
+          seedSpent: result.seedSpent,
+          transactionHash: result.transactionHash,
+          calls: result.calls,
+          message: result.message,
+        };
+      } catch (error: any) {
+        console.error('[AGENT_ACTION] Error during execution:', error?.message || error);
+        return { error: true, message: error?.message || 'Network error during action execution' };
+      }
+    };
+
+    const listMyPlantsParams = z.object({
+      reason: z.string().optional().describe('Reason for listing plants')
+    });
+
+    const listMyPlants = tool({
+      description: "List the user's plants with hours left before starving (TOD) and fence status. Use this before feeding or fencing plants.",
+      inputSchema: listMyPlantsParams,
+      execute: async () => {
+        if (!userAddress) return { error: true, message: 'User wallet not provided.' };
+        const plants = await getPlantsByOwner(userAddress);
+        const nowSec = Math.floor(Date.now() / 1000);
+        return plants
+          .filter((p) => p.status !== 4)
+          .map((p) => ({
+            id: p.id,
+            name: p.name || `Plant #${p.id}`,
+            level: p.level,
+            hoursLeft: Math.max(0, Math.round(((p.timeUntilStarving - nowSec) / 3600) * 10) / 10),
+            fenceActive: Boolean(p.fenceV2?.isActive),
+            fenceActiveUntil: p.fenceV2?.activeUntil || 0,
+          }))
+          .sort((a, b) => a.hoursLeft - b.hoursLeft);
+      },
+      strict: true,
+    });
+
+    const listItemsParams = z.object({
+      reason: z.string().optional().describe('Reason for listing items')
+    });
+
+    const listItems = tool({
+      description: 'List shop items and garden items with exact SEED prices, plus Fence V2 duration limits. Always use this to get prices; do not guess.',
+      inputSchema: listItemsParams,
+      execute: async () => {
+        const [shopItems, gardenItems, fenceConfig] = await Promise.all([getAllShopItems(), getAllGardenItems(), getFenceV2Config()]);
+        return {
+          shopItems: shopItems.map((i) => ({ id: i.id, name: i.name, priceSeed: formatSeed(BigInt(i.price || 0)), effectHours: Math.round(Number(i.effectTime || 0) / 3600) })),
+          gardenItems: gardenItems.map((i) => ({ id: i.id, name: i.name, priceSeed: formatSeed(BigInt(i.price || 0)), points: i.points, timeExtensionHours: Math.round(i.timeExtension / 3600) })),
+          fence: fenceConfig ? { pricePerDaySeed: formatSeed(fenceConfig.pricePerDay), minDays: fenceConfig.minDurationDays, maxDays: fenceConfig.maxDurationDays } : null,
+        };
+      },
+      strict: true,
+    });
+
+    const listMyLandsParams = z.object({
+      reason: z.string().optional().describe('Reason for listing lands')
+    });
+
+    const listMyLands = tool({
+      description: "List the user's lands with village buildings that have production ready to claim, and the user's staking position.",
+      inputSchema: listMyLandsParams,
+      execute: async () => {
+        if (!userAddress) return { error: true, message: 'User wallet not provided.' };
+        const [lands, stake] = await Promise.all([getLandsByOwner(userAddress), getStakeInfo(userAddress)]);
+        const buildings = await getLandBuildingsBatch(lands.map((l) => BigInt(l.tokenId)));
+        return {
+          lands: lands.map((land) => {
+            const entry = buildings.find((b) => b.landId === BigInt(land.tokenId));
+            const claimable = (entry?.villageBuildings || [])
+              .filter((b: any) => BigInt(b.accumulatedPoints || 0) > BigInt(0) || BigInt(b.accumulatedLifetime || 0) > BigInt(0))
+              .map((b: any) => ({
+                buildingId: Number(b.id),
+                name: VILLAGE_BUILDING_NAMES[Number(b.id) as keyof typeof VILLAGE_BUILDING_NAMES] || `Building ${b.id}`,
+                accumulatedPoints: String(b.accumulatedPoints ?? 0),
+                accumulatedLifetime: String(b.accumulatedLifetime ?? 0),
+              }));
+            return { landId: Number(land.tokenId), name: land.name, claimable };
+          }),
+          stake: stake ? { stakedSeed: formatSeed(stake.staked), rewardsLeaf: formatSeed(stake.rewards) } : null,
+        };
+      },
+      strict: true,
+    });
+
+    const buyItemParams = z.object({
+      kind: z.enum(['shop', 'garden']).describe('shop = timed shop item, garden = garden item that adds points/TOD (feeding)'),
+      itemId: z.string().describe('Item id from list_items'),
+      plantIds: z.array(z.number().int()).min(1).max(AGENT_MAX_PLANTS_PER_ACTION).describe("The user's plant ids to buy the item for"),
+      confirmedSeedCost: z.number().optional().describe('SEED total from the estimate the user confirmed'),
+      execute: z.boolean().default(false).describe('false=estimate only, true=actually execute the purchase'),
+    });
+
+    const buyItem = tool({
+      description: "Buy a shop or garden item for one or more of the user's plants (e.g. feeding dying plants). Use execute=false for estimates, execute=true when user confirms.",
+      inputSchema: buyItemParams,
+      execute: async ({ kind, itemId, plantIds, confirmedSeedCost, execute = false }: z.infer<typeof buyItemParams>) =>
+        runGameAction('buy_item', { action: kind === 'garden' ? 'buy_garden_item' : 'buy_shop_item', itemId: String(itemId), plantIds }, execute, confirmedSeedCost),
+      strict: true,
+    });
+
+    const buyFenceParams = z.object({
+      plantId: z.number().int().describe("The user's plant id to protect"),
+      days: z.number().int().min(1).describe('Number of Fence V2 days to buy'),
+      confirmedSeedCost: z.number().optional().describe('SEED total from the estimate the user confirmed'),
+      execute: z.boolean().default(false).describe('false=estimate only, true=actually execute the purchase'),
+    });
+
+    const buyFence = tool({
+      description: 'Buy Fence V2 protection days for one of the user\'s plants. Use execute=false for estimates, execute=true when user confirms.',
+      inputSchema: buyFenceParams,
+      execute: async ({ plantId, days, confirmedSeedCost, execute = false }: z.infer<typeof buyFenceParams>) =>
+        runGameAction('buy_fence', { action: 'buy_fence', plantId, days }, execute, confirmedSeedCost),
+      strict: true,
+    });
+
+    const claimProductionParams = z.object({
+      landId: z.number().int().describe("The user's land id"),
+      buildingId: z.number().int().describe('Village building id from list_my_lands'),
+      execute: z.boolean().default(false).describe('false=estimate only, true=prepare the transaction for the user to sign'),
+    });
+
+    const claimProduction = tool({
+      description: 'Claim village building production on one of the user\'s lands. The user signs this transaction from their own wallet.',
+      inputSchema: claimProductionParams,
+      execute: async ({ landId, buildingId, execute = false }: z.infer<typeof claimProductionParams>) =>
+        runGameAction('claim_production', { action: 'claim_production', landId, buildingId }, execute),
+      strict: true,
+    });
+
+    const stakeParams = z.object({
+      direction: z.enum(['stake', 'unstake']).describe('stake = deposit SEED, unstake = withdraw staked SEED'),
+      amount: z.string().describe('SEED amount in whole units, e.g. "100"'),
+      execute: z.boolean().default(false).describe('false=estimate only, true=prepare the transaction for the user to sign'),
+    });
+
+    const stakeSeed = tool({
+      description: 'Stake or unstake SEED in the Stake House. The user signs this transaction from their own wallet.',
+      inputSchema: stakeParams,
+      execute: async ({ direction, amount, execute = false }: z.infer<typeof stakeParams>) =>
+        runGameAction('stake_seed', { action: direction, amount: String(amount) }, execute),
+      strict: true,
+    });
+
     const agentProvider = getAgentAIProvider();
     const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
     const anthropic = createAnthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
     const google = createGoogleGenerativeAI({ apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY });
-    const systemPrompt = `You are an Neural Seed Agent. Currently you can only mint plants using SEED tokens via spend permissions. With time, you will be able to do more things.
+    const systemPrompt = `You are an Neural Seed Agent. You act on the player's behalf in Pixotchi Mini using SEED spend permissions and wallet-signed transactions.
     ${userAddress ? `User wallet: ${userAddress}` : 'User wallet not provided.'}
 
     Context about the app:
-    - Pixotchi Mini is a plant and land game. Players mint plants with SEED tokens, then grow and interact with them. There are other features (lands, buildings, staking), but those are outside your scope.
-    - Currency: SEED (ERC-20). Some features use LEAF, but you never handle LEAF.
-    - You operate on the Base network and execute transactions using an Agent Smart Account that can spend SEED via user-granted spend permissions.
+    - Pixotchi Mini is a plant and land game. Players mint plants with SEED tokens, keep them alive by buying shop and garden items before their time-of-death (TOD) runs out, protect them with Fence V2, and grow lands with buildings that produce resources.
+    - Currency: SEED (ERC-20). Some features use LEAF, but you never spend LEAF.
+    - You operate on the Base network. Purchases are paid by an Agent Smart Account that spends SEED via user-granted spend permissions.
 
     Your scope (Agent Mode):
-    - You can mint ONLY the ZEST strain (id 4) at a fixed price of 10 SEED per plant.
-    - You can mint up to 5 plants at once.
-    - You cannot mint any other strains; direct users to the Mint tab for non-ZEST mints.
-    - If the user asks for balances, stats, or guidance, direct them to the AI tab (Neural Seed Assistant) for richer help.
+    - Mint ONLY the ZEST strain (id 4) at a fixed price of 10 SEED per plant, up to 5 plants at once (mint_plants). Direct users to the Mint tab for other strains.
+    - Feed and boost plants: buy shop or garden items for up to ${AGENT_MAX_PLANTS_PER_ACTION} of the user's plants at once (buy_item). Use list_my_plants to find plants with the fewest hours left and list_items for prices.
+    - Protect plants: buy Fence V2 days for one plant (buy_fence).
+    - Claim village production on the user's lands (claim_production). Use list_my_lands to find claimable buildings.
+    - Stake or unstake SEED (stake_seed).
+    - claim_production and stake_seed are signed by the user from their own wallet; tell them a confirm button will appear in the chat.
+    - If the user asks for detailed stats or strategy, direct them to the AI tab (Neural Seed Assistant) for richer help.
 
     Safety and UX rules:
-    - Never guess prices. In agent mode, ZEST price is always 10 SEED.
-    - When the user asks to mint, first present an estimate: count × 10 SEED. Ask for explicit confirmation.
-    - After the user confirms, call mint_plants with execute=true.
+    - Never guess prices. Always use list_strains or list_items, and call every action with execute=false first to get the exact estimate.
+    - Present the estimate (what, which plants/lands, total SEED) and ask for explicit confirmation before any execute=true call.
+    - After the user confirms, call the same tool with execute=true and pass the confirmed SEED total as confirmedSeedCost where supported.
+    - Only act on plants and lands returned by list_my_plants / list_my_lands. Never act on ids the user does not own.
     - Always use the userAddress from context. If missing, ask the user to connect.
     - If a permission/allowance/time-window error occurs, clearly explain that spend permission for your agent is missing/insufficient/expired and ask the user to grant or increase it.
-    - Do not attempt any actions beyond ZEST minting.
-    - Always and VERY briefly hint at users that you will be getting more features and abilities soon.
+    - If the price changed since the estimate, show the new estimate and ask again.
     - Use 🌱 and Base emoji (🟦) when fit.`;
 
     // Enhanced prompt with context and conversation history
@@ -223,7 +434,17 @@ export async function POST(req: NextRequest) {
       enhancedPrompt = `Recent conversation:\n${historyText}\n\nCurrent request:\n${enhancedPrompt}`;
     }
 
-    const toolBundle = { list_strains: listStrains, mint_plants: mintPlants };
+    const toolBundle = {
+      list_strains: listStrains,
+      mint_plants: mintPlants,
+      list_my_plants: listMyPlants,
+      list_items: listItems,
+      list_my_lands: listMyLands,
+      buy_item: buyItem,
+      buy_fence: buyFence,
+      claim_production: claimProduction,
+      stake_seed: stakeSeed,
+    };
 
     console.log('[AGENT_CHAT] Starting generateText with:', {
       hasTools: !!toolBundle,
@@ -286,11 +507,23 @@ export async function POST(req: NextRequest) {
       })
     });
 
+    // Calls the user must sign themselves (production claims, staking) are surfaced to the chat UI
+    const pendingAction = (toolResults || [])
+      .map((tr) => tr.output)
+      .reverse()
+      .find(isPendingUserAction);
+
     return new Response(
-      JSON.stringify({ success: true, text, toolResults }),
+      JSON.stringify({
+        success: true,
+        text,
+        toolResults,
+        pendingAction: pendingAction ? { summary: pendingAction.summary, calls: pendingAction.calls } : undefined,
+      }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
   } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
     console.error('[AGENT_CHAT] Error:', {
       message: e?.message,
       stack: e?.stack,
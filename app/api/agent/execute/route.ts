@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { AGENT_ACTION_EXECUTORS, AgentActionRequest, runAgentAction } from '@/lib/agent-actions';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/agent/execute
+ * Execute a confirmed agent game action (shop/garden items, Fence V2, production claims, staking).
+ *
+ * Requires a wallet session for `userAddress`; the agent spends that wallet's SEED.
+ *
+ * Body:
+ * - userAddress: wallet that granted the SEED spend permission
+ * - request: AgentActionRequest
+ * - maxSeedCostWei: optional ceiling from the estimate the user confirmed
+ * - tool, prompt: recorded in the agent spend ledger
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { userAddress, request, maxSeedCostWei, tool, prompt } = body || {};
+
+    if (!userAddress || !isAddress(userAddress)) {
+      return NextResponse.json({ error: 'Missing or invalid userAddress' }, { status: 400 });
+    }
+    await requireSession(req, userAddress);
+
+    if (!request || typeof request.action !== 'string' || !(request.action in AGENT_ACTION_EXECUTORS)) {
+      return NextResponse.json({ error: 'Unknown agent action' }, { status: 400 });
+    }
+
+    let ceiling: bigint | null = null;
+    if (maxSeedCostWei !== undefined && maxSeedCostWei !== null) {
+      try {
+        ceiling = BigInt(maxSeedCostWei);
+      } catch {
+        return NextResponse.json({ error: 'Invalid maxSeedCostWei' }, { status: 400 });
+      }
+    }
+
+    const actionRequest = request as AgentActionRequest;
+
+    const result = await runAgentAction({
+      userAddress,
+      request: actionRequest,
+      maxSeedCostWei: ceiling,
+      tool: typeof tool === 'string' && tool ? tool : actionRequest.action,
+      prompt: typeof prompt === 'string' ? prompt : null,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error, ...(result.totals ? { totals: result.totals } : {}) }, { status: result.status });
+    }
+
+    const { quote } = result;
+    if (result.userCalls) {
+      return NextResponse.json({
+        success: true,
+        requiresUserSignature: true,
+        action: quote.action,
+        summary: quote.summary,
+        calls: result.userCalls,
+        message: `${quote.summary}: please confirm the transaction in your wallet.`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      action: quote.action,
+      summary: quote.summary,
+      seedSpent: quote.seedCost,
+      seedSpentWei: quote.seedCostWei.toString(),
+      transactionHash: result.transactionHash,
+      message: `${quote.summary} for ${quote.seedCost} SEED.`,
+    });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('[AGENT_EXECUTE] Error:', {
+      message: error?.message,
+      name: error?.name,
+      stack: error?.stack,
+    });
+
+    let errorMessage = error?.message || 'Failed to execute agent action';
+    if (errorMessage.includes('execution reverted')) {
+      errorMessage = `Transaction would fail: ${errorMessage}. This could be due to insufficient SEED balance, invalid spend permissions, or contract state issues.`;
+    } else if (errorMessage.includes('insufficient funds') || errorMessage.includes('insufficient balance')) {
+      errorMessage = 'Insufficient SEED balance to complete the action.';
+    } else if (errorMessage.includes('spend permission')) {
+      errorMessage = 'Spend permission issue: ' + errorMessage;
+    }
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
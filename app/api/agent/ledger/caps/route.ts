@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { AGENT_LEDGER_DEFAULTS, getAgentLedgerCaps, setAgentLedgerCaps } from '@/lib/agent-ledger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agent/ledger/caps?address=0x...
+ * Effective per-user agent budget caps and the server-wide maximums.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get('address');
+  if (!address || !isAddress(address)) {
+    return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+  }
+  const caps = await getAgentLedgerCaps(address);
+  return NextResponse.json({ success: true, caps, maximums: AGENT_LEDGER_DEFAULTS });
+}
+
+/**
+ * POST /api/agent/ledger/caps
+ * Body: { address, dailyCapSeed?, periodCapSeed?, periodDays? }
+ * Users can only tighten caps; values above the server maximums are clamped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, dailyCapSeed, periodCapSeed, periodDays } = body || {};
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+    }
+
+    const toPositive = (value: unknown) => {
+      if (value === undefined || value === null || value === '') return undefined;
+      const n = Number(value);
+      return Number.isFinite(n) && n > 0 ? n : NaN;
+    };
+    const next = {
+      dailyCapSeed: toPositive(dailyCapSeed),
+      periodCapSeed: toPositive(periodCapSeed),
+      periodDays: toPositive(periodDays),
+    };
+    if (Object.values(next).some((v) => Number.isNaN(v))) {
+      return NextResponse.json({ error: 'Caps must be positive numbers' }, { status: 400 });
+    }
+
+    await requireSession(request, address);
+    const caps = await setAgentLedgerCaps(address, next);
+    return NextResponse.json({ success: true, caps, maximums: AGENT_LEDGER_DEFAULTS });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Agent ledger caps error:', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Failed to update caps' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { getAgentLedgerHistory, getAgentLedgerTotals } from '@/lib/agent-ledger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agent/ledger/history?address=0x...&limit=20&cursor=<timestamp>
+ * Agent spend history (newest first) plus current budget totals for the user.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Valid address required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    const limit = Number(searchParams.get('limit') || 20);
+    const cursor = Number(searchParams.get('cursor') || 0);
+
+    const [history, totals] = await Promise.all([
+      getAgentLedgerHistory(address, { limit, before: cursor > 0 ? cursor : undefined }),
+      getAgentLedgerTotals(address),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      address: address.toLowerCase(),
+      entries: history.entries,
+      nextCursor: history.nextCursor,
+      totals,
+    });
+  } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Agent ledger history error:', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Failed to load agent ledger' }, { status: 500 });
+  }
+}
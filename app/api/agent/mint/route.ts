@@ -1,28 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { CdpClient } from '@coinbase/cdp-sdk';
 import { parseUnits, encodeFunctionData, maxUint256, createPublicClient } from 'viem';
 import { base as baseChain } from 'viem/chains';
 import { PIXOTCHI_TOKEN_ADDRESS, PIXOTCHI_NFT_ADDRESS, EVM_EVENT_SIGNATURES, EVM_TOPICS } from '@/lib/contracts';
 import { createResilientTransport } from '@/lib/rpc-transport';
-
-// Create a single CDP client instance per runtime
-let cdp: CdpClient | null = null;
-function getClient() {
-  if (!cdp) {
-    // v2 Server Wallet client loads from env automatically when no args are passed
-    // Requires: CDP_API_KEY_ID, CDP_API_KEY_SECRET, CDP_WALLET_SECRET
-    cdp = new CdpClient();
-  }
-  return cdp;
-}
-
-// Cache for agent smart account
-let agentSmartAccount: any = null;
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { AgentSpendLock, acquireAgentSpendLock, checkAgentBudget, recordAgentSpend, releaseAgentSpendLock } from '@/lib/agent-ledger';
+import { getAgentClient, getAgentSmartAccount } from '@/lib/agent-service';
 
 export async function POST(req: NextRequest) {
+  let spendLock: AgentSpendLock | null = null;
   try {
     const body = await req.json();
-    const { userAddress, count, strainId, totalSeedRequired, preparedSpendCalls } = body;
+    const { userAddress, count, strainId, totalSeedRequired, preparedSpendCalls, tool, prompt } = body;
 
     console.log('[AGENT_MINT] Request received:', {
       userAddress,
@@ -40,18 +29,28 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    const client = getClient();
-    
-    // Get or create agent smart account
-    if (!agentSmartAccount) {
-      const owner = await client.evm.getOrCreateAccount({ name: 'pixotchi-agent' });
-      agentSmartAccount = await client.evm.getOrCreateSmartAccount({
-        name: 'pixotchi-agent-sa-sp',
-        owner,
-        enableSpendPermissions: true,
-      });
+    // The agent spends from the user's allowance, so the caller must hold that wallet's session
+    await requireSession(req, String(userAddress));
+
+    const requiredSeedWei = parseUnits(
+      (typeof totalSeedRequired === 'number' ? totalSeedRequired.toFixed(6) : String(totalSeedRequired)),
+      18
+    );
+
+    const acquired = await acquireAgentSpendLock(userAddress);
+    if (!acquired.ok) {
+      return NextResponse.json({ error: acquired.error }, { status: acquired.status });
+    }
+    spendLock = acquired.lock;
+
+    const budget = await checkAgentBudget(userAddress, requiredSeedWei);
+    if (!budget.ok) {
+      return NextResponse.json({ error: budget.error, ...(budget.totals ? { totals: budget.totals } : {}) }, { status: budget.status });
     }
 
+    const client = getAgentClient();
+    const agentSmartAccount = await getAgentSmartAccount();
+
     // NOTE: preparedSpendCalls from Base Account SDK are designed to execute from USER's account
     // via spend permission. However, we're executing from AGENT account server-side with CDP.
     // This might cause issues. We'll log the calls and attempt execution, but if it fails,
@@ -129,10 +128,7 @@ export async function POST(req: NextRequest) {
         }, { status: 400 });
       }
 
-      const requiredAmount = parseUnits(
-        (typeof totalSeedRequired === 'number' ? totalSeedRequired.toFixed(6) : String(totalSeedRequired)),
-        18
-      );
+      const requiredAmount = requiredSeedWei;
       const availableAllowance = BigInt(seedPermission.permission.allowance);
 
       const now = Math.floor(Date.now() / 1000);
@@ -253,6 +249,15 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Mint transaction failed' }, { status: 500 });
     }
 
+    await recordAgentSpend({
+      address: userAddress,
+      amountWei: requiredSeedWei,
+      txHash: mintReceipt.transactionHash,
+      tool: typeof tool === 'string' && tool ? tool : 'mint_plants',
+      summary: `Mint ${count} plant${Number(count) === 1 ? '' : 's'} (strain ${strainId || 1})`,
+      prompt: typeof prompt === 'string' ? prompt : null,
+    });
+
     // Parse minted tokenIds (Transfer event from 0x0 -> agent)
     let mintedTokenIds: bigint[] = [];
     try {
@@ -372,6 +377,7 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (error: any) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
     console.error('[AGENT_MINT] Error:', {
       message: error?.message,
       name: error?.name,
@@ -397,5 +403,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ 
       error: errorMessage
     }, { status: 500 });
+  } finally {
+    if (spendLock) await releaseAgentSpendLock(spendLock);
   }
 }
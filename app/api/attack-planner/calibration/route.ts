@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getAttackCalibration } from '@/lib/attack-calibration';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const calibration = await getAttackCalibration();
+    return NextResponse.json(
+      { success: true, calibration },
+      { headers: { 'Cache-Control': 'public, max-age=60, s-maxage=300' } },
+    );
+  } catch (error) {
+    console.error('[AttackPlanner] Failed to load calibration', error);
+    return NextResponse.json({ success: false, error: 'Failed to load attack calibration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncAttackOutcomes } from '@/lib/attack-calibration';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Records recent Attack events and their pre-attack odds for the attack planner's calibration
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await syncAttackOutcomes();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[attack planner cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Attack outcome sync failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { issueNonce, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/nonce
+ * Single-use nonce for a Sign-In-With-Ethereum message (valid for 5 minutes).
+ */
+export async function GET() {
+  try {
+    const nonce = await issueNonce();
+    return NextResponse.json({ success: true, nonce });
+  } catch (error) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Error issuing sign-in nonce:', error);
+    return NextResponse.json({ success: false, error: 'Failed to issue nonce' }, { status: 500 });
+  }
+}
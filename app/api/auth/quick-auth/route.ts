@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redis } from '@/lib/redis';
+import { signInWithQuickAuth, setSessionCookie, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/quick-auth
+ * Body: { token, address } — a Farcaster Quick Auth token from the Mini App SDK and the
+ * wallet to act for, which must be a custody or verified address of the token's FID.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, address } = await request.json();
+    if (typeof token !== 'string' || !token || typeof address !== 'string') {
+      return NextResponse.json({ success: false, error: 'Token and address are required' }, { status: 400 });
+    }
+
+    const session = await signInWithQuickAuth(request, token, address);
+    // The FID now provably controls this wallet; keep the notification mapping in sync
+    if (redis && session.fid) {
+      await redis.set(`fidmap:${session.fid}`, session.address).catch(() => null);
+    }
+    const response = NextResponse.json({
+      success: true,
+      session: { address: session.address, method: session.method, fid: session.fid, expiresAt: session.expiresAt },
+    });
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Error verifying Quick Auth sign-in:', error);
+    return NextResponse.json({ success: false, error: 'Failed to verify sign-in' }, { status: 500 });
+  }
+}
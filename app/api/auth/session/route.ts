@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, destroySession, clearSessionCookie } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/session — the current wallet session, if any.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+  return NextResponse.json({
+    success: true,
+    session: session
+      ? { address: session.address, method: session.method, fid: session.fid, expiresAt: session.expiresAt }
+      : null,
+  });
+}
+
+/**
+ * DELETE /api/auth/session — sign out.
+ */
+export async function DELETE(request: NextRequest) {
+  await destroySession(request);
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { signInWithEthereum, setSessionCookie, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/auth/verify
+ * Body: { message, signature } — a SIWE message built with a nonce from /api/auth/nonce.
+ * Sets the HttpOnly session cookie on success.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { message, signature } = await request.json();
+    if (typeof message !== 'string' || typeof signature !== 'string' || !signature.startsWith('0x')) {
+      return NextResponse.json({ success: false, error: 'Message and signature are required' }, { status: 400 });
+    }
+
+    const session = await signInWithEthereum(request, message, signature);
+    const response = NextResponse.json({
+      success: true,
+      session: { address: session.address, method: session.method, expiresAt: session.expiresAt },
+    });
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    console.error('Error verifying sign-in:', error);
+    return NextResponse.json({ success: false, error: 'Failed to verify sign-in' }, { status: 500 });
+  }
+}
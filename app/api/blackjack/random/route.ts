@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicClient, keccak256, encodePacked, type Hex } from 'viem';
-import { privateKeyToAccount, signMessage } from 'viem/accounts';
+import { createPublicClient, type Hex } from 'viem';
+import { signMessage } from 'viem/accounts';
 import { base } from 'viem/chains';
 import { blackjackAbi } from '@/public/abi/blackjack-abi';
 import { LAND_CONTRACT_ADDRESS } from '@/lib/contracts';
+import { blackjackRandomnessDigest } from '@/lib/blackjack-fairness';
+import {
+    BlackjackRandomnessError,
+    checkRandomnessRateLimit,
+    getRandomnessSignerStatus,
+    hasRandomnessSigners,
+    recordRandomnessIssuance,
+    resolveRandomnessSigner,
+} from '@/lib/blackjack-randomness';
 import { redis, redisCompareAndSetJSON, redisDel, redisGetJSON } from '@/lib/redis';
 import { createResilientTransport, getRpcEndpoints } from '@/lib/rpc-transport';
 
@@ -16,16 +25,10 @@ import { createResilientTransport, getRpcEndpoints } from '@/lib/rpc-transport';
  * ANTI-CHEAT: Once randomness is issued for a (landId, nonce), the same randomness
  * is returned for all subsequent requests until the nonce is consumed onchain.
  * This prevents users from "shopping" for favorable outcomes by canceling and retrying.
+ *
+ * Signing keys, rate limiting and the issuance log live in lib/blackjack-randomness.ts.
  */
 
-// Get the signer private key from environment
-const SIGNER_PRIVATE_KEY = process.env.BLACKJACK_RANDOMNESS_SIGNER_KEY;
-
-// Rate limiting: track recent requests per address
-const recentRequests = new Map<string, { count: number; timestamp: number }>();
-const RATE_LIMIT_WINDOW_MS = 60_000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 30; // Max 30 requests per minute per address
-
 interface CachedRandomness {
     randomSeed: Hex;
     signature: string;
@@ -37,6 +40,7 @@ interface CachedRandomness {
 }
 
 const ACTION_LOCK_KEY_PREFIX = 'blackjack:action-lock:';
+// Only used when Redis isn't configured (local dev): a per-instance lock can't stop shopping across instances
 const nonceRandomnessCache = new Map<string, CachedRandomness>();
 const PHASE_NONE = 0;
 const PHASE_PLAYER_TURN = 2;
@@ -80,9 +84,9 @@ function isCachedRandomness(value: unknown): value is CachedRandomness {
 async function readActionLock(lockKey: string): Promise<{ data: CachedRandomness | null; source: 'redis' | 'memory' | 'none' }> {
     if (redis) {
         const redisLock = await redisGetJSON<CachedRandomness>(lockKey);
-        if (isCachedRandomness(redisLock)) {
-            return { data: redisLock, source: 'redis' };
-        }
+        return isCachedRandomness(redisLock)
+            ? { data: redisLock, source: 'redis' }
+            : { data: null, source: 'none' };
     }
 
     const memoryLock = nonceRandomnessCache.get(lockKey);
@@ -105,6 +109,8 @@ async function createActionLockIfAbsent(lockKey: string, payload: CachedRandomne
         if (isCachedRandomness(existing)) {
             return { created: false, data: existing, source: 'redis' };
         }
+        // Neither written nor readable: issuing without a shared lock would allow seed shopping
+        throw new BlackjackRandomnessError('Randomness lock store unavailable');
     }
 
     const existing = nonceRandomnessCache.get(lockKey);
@@ -254,42 +260,10 @@ function generateRandomSeed(): Hex {
     return `0x${Array.from(array).map(b => b.toString(16).padStart(2, '0')).join('')}` as Hex;
 }
 
-/**
- * Rate limit check
- */
-function checkRateLimit(address: string): boolean {
-    const now = Date.now();
-    const recent = recentRequests.get(address.toLowerCase());
-
-    if (!recent || (now - recent.timestamp) > RATE_LIMIT_WINDOW_MS) {
-        recentRequests.set(address.toLowerCase(), { count: 1, timestamp: now });
-        return true;
-    }
-
-    if (recent.count >= RATE_LIMIT_MAX_REQUESTS) {
-        return false;
-    }
-
-    recent.count++;
-    return true;
-}
-
-/**
- * Clean up old rate limit entries periodically
- */
-function cleanupRateLimits() {
-    const now = Date.now();
-    for (const [address, data] of recentRequests.entries()) {
-        if ((now - data.timestamp) > RATE_LIMIT_WINDOW_MS * 2) {
-            recentRequests.delete(address);
-        }
-    }
-}
-
 export async function POST(request: NextRequest) {
     try {
         // Validate environment
-        if (!SIGNER_PRIVATE_KEY) {
+        if (!hasRandomnessSigners()) {
             console.error('BLACKJACK_RANDOMNESS_SIGNER_KEY not configured');
             return NextResponse.json(
                 { error: 'Randomness service not configured' },
@@ -329,18 +303,23 @@ export async function POST(request: NextRequest) {
 
         const handIndexNum = typeof handIndex === 'number' ? handIndex : 0;
 
-        // Rate limiting by player address (if provided)
-        if (playerAddress) {
-            if (!checkRateLimit(playerAddress)) {
-                return NextResponse.json(
-                    { error: 'Rate limit exceeded. Please wait before making more requests.' },
-                    { status: 429 }
-                );
-            }
+        if (playerAddress != null && typeof playerAddress !== 'string') {
+            return NextResponse.json({ error: 'Invalid playerAddress' }, { status: 400 });
         }
 
-        // Clean up old entries
-        cleanupRateLimits();
+        // Rate limiting by client IP, plus the player address when provided. Not by land: anyone can
+        // name any landId, so a per-land budget would let a stranger lock the owner out of their game.
+        const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+                   request.headers.get('x-real-ip') ||
+                   'unknown';
+        const rateLimitSubjects = [`ip:${ip}`, ...(playerAddress ? [playerAddress] : [])];
+        const withinLimits = await Promise.all(rateLimitSubjects.map((subject) => checkRandomnessRateLimit(subject)));
+        if (withinLimits.includes(false)) {
+            return NextResponse.json(
+                { error: 'Rate limit exceeded. Please wait before making more requests.' },
+                { status: 429 }
+            );
+        }
 
         // Use the shared resilient RPC transport (same endpoint set/fallback strategy
         // as the rest of the app) instead of a single hardcoded public RPC.
@@ -403,6 +382,9 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Sign with the configured key the contract currently trusts
+        const { key: signerKey, onchainSigner } = await resolveRandomnessSigner(publicClient);
+
         // Best-effort cleanup: previous nonce lock is no longer usable after onchain increment.
         await cleanupConsumedLock(landId, currentNonce);
         const nonce = Number(currentNonce);
@@ -413,6 +395,20 @@ export async function POST(request: NextRequest) {
         let effectiveCachedData = cachedData;
         let effectiveCachedSource = cachedSource;
 
+        // Signed by a key the contract no longer trusts (rotation happened mid-turn): it would revert onchain.
+        // Only a signer actually read from the contract can prove that; on a failed read the fallback
+        // key may differ from the lock's signer, and reissuing then would hand out a second seed.
+        if (
+            effectiveCachedData &&
+            onchainSigner &&
+            effectiveCachedData.signerAddress.toLowerCase() !== onchainSigner.toLowerCase()
+        ) {
+            console.warn(`[Blackjack Random] Reissuing lock signed by rotated key ${effectiveCachedData.signerAddress} landId=${landId} nonce=${nonce}`);
+            await deleteActionLock(lockKey);
+            effectiveCachedData = null;
+            effectiveCachedSource = 'none';
+        }
+
         if (effectiveCachedData && isLockMismatch(effectiveCachedData, actionNum, handIndexNum, effectiveBettingToken)) {
             const lockedActionName = actionNameFromNum(effectiveCachedData.actionNum);
             if (!lockedActionName) {
@@ -473,26 +469,48 @@ export async function POST(request: NextRequest) {
         const randomSeed = generateRandomSeed();
 
         // Create the message hash including action and handIndex
-        const messageHash = keccak256(
-            encodePacked(
-                ['uint256', 'uint256', 'bytes32', 'uint8', 'uint8', 'address'],
-                [BigInt(landId), currentNonce, randomSeed, actionNum, handIndexNum, effectiveBettingToken as `0x${string}`]
-            )
-        );
+        const messageHash = blackjackRandomnessDigest({
+            landId: BigInt(landId),
+            nonce: currentNonce,
+            randomSeed,
+            action: actionNum,
+            handIndex: handIndexNum,
+            token: effectiveBettingToken,
+        });
 
         // Sign the message with EIP-191 prefix
-        const account = privateKeyToAccount(SIGNER_PRIVATE_KEY as `0x${string}`);
         const signature = await signMessage({
             message: { raw: messageHash },
-            privateKey: SIGNER_PRIVATE_KEY as `0x${string}`,
+            privateKey: signerKey.privateKey,
         });
 
+        // Log before locking so no seed is served unlogged; a seed that then loses the lock race
+        // below stays in the log but is never served
+        try {
+            await recordRandomnessIssuance({
+                landId,
+                nonce: currentNonce.toString(),
+                action: actionNum,
+                handIndex: handIndexNum,
+                token: effectiveBettingToken,
+                randomSeed,
+                signer: signerKey.address,
+                player: typeof playerAddress === 'string' ? playerAddress.toLowerCase() : null,
+            });
+        } catch (err) {
+            console.error(`[Blackjack Random] Failed to record issuance landId=${landId} nonce=${nonce}:`, err);
+            return NextResponse.json(
+                { error: 'Failed to record randomness issuance' },
+                { status: 503 }
+            );
+        }
+
         // ANTI-CHEAT: Lock randomness + action/hand for this (landId, nonce)
         const proposedLock: CachedRandomness = {
             randomSeed,
             signature,
             timestamp: Date.now(),
-            signerAddress: account.address,
+            signerAddress: signerKey.address,
             actionNum,   // Store locked action
             handIndex: handIndexNum,
             bettingToken: effectiveBettingToken
@@ -532,13 +550,16 @@ export async function POST(request: NextRequest) {
             nonce,
             signature,
             expiresAt,
-            signerAddress: account.address,
+            signerAddress: signerKey.address,
             bettingToken: effectiveBettingToken,
             cached: false,
             source: lockResult.source,
         });
 
     } catch (error) {
+        if (error instanceof BlackjackRandomnessError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Blackjack random API error:', error);
         return NextResponse.json(
             { error: 'Internal server error' },
@@ -551,7 +572,7 @@ export async function POST(request: NextRequest) {
  * GET endpoint to check service status and get signer address
  */
 export async function GET() {
-    if (!SIGNER_PRIVATE_KEY) {
+    if (!hasRandomnessSigners()) {
         return NextResponse.json({
             status: 'unavailable',
             message: 'Randomness service not configured',
@@ -559,14 +580,21 @@ export async function GET() {
     }
 
     try {
-        const account = privateKeyToAccount(SIGNER_PRIVATE_KEY as `0x${string}`);
+        const publicClient = createPublicClient({
+            chain: base,
+            transport: createResilientTransport(getBlackjackRpcEndpoints()),
+        });
+        const { key } = await resolveRandomnessSigner(publicClient);
         return NextResponse.json({
             status: 'available',
-            signerAddress: account.address,
+            signerAddress: key.address,
             cacheSize: nonceRandomnessCache.size, // In-memory fallback cache size
             lockStore: redis ? 'redis' : 'memory',
         });
     } catch (err) {
+        if (err instanceof BlackjackRandomnessError) {
+            return NextResponse.json({ status: 'error', message: err.message }, { status: err.status });
+        }
         return NextResponse.json({
             status: 'error',
             message: 'Invalid signer configuration',
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCasinoHistory, getCasinoTokenStats } from '@/lib/casino-history';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/casino/history?landId=123
+ * Recent Roulette rounds and Blackjack hands for a land, plus lifetime profit/loss per token.
+ * Re-indexing is limited per client IP; over the limit the stored history is returned as is.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const landId = new URL(request.url).searchParams.get('landId');
+    if (!landId || !/^\d+$/.test(landId)) {
+      return NextResponse.json({ error: 'Valid landId is required' }, { status: 400 });
+    }
+
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+               request.headers.get('x-real-ip') ||
+               'unknown';
+
+    const [history, stats] = await Promise.all([
+      getCasinoHistory(BigInt(landId), ip),
+      getCasinoTokenStats(BigInt(landId)),
+    ]);
+
+    return NextResponse.json({ success: true, ...history, stats });
+  } catch (error) {
+    console.error('Failed to load casino history', error);
+    return NextResponse.json({ error: 'Failed to load casino history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteKnowledgeChunk, getKnowledgeChunks, KnowledgeBaseError, previewKnowledgeRetrieval, saveKnowledgeChunk } from '@/lib/knowledge-base';
+import { validateAdminKey, createErrorResponse, logAdminAction } from '@/lib/auth-utils';
+
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  const error = createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+  return NextResponse.json(error.body, { status: error.status });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof KnowledgeBaseError) {
+    const e = createErrorResponse(error.message, error.status);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+  console.error(fallback, error);
+  const e = createErrorResponse(fallback, 500);
+  return NextResponse.json(e.body, { status: e.status });
+}
+
+/**
+ * GET /api/chat/ai/admin/knowledge
+ * All knowledge base chunks (built-in, overridden and admin-added).
+ * With ?q=<question>, also returns which chunks that question would retrieve.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) return unauthorized();
+  try {
+    const query = new URL(request.url).searchParams.get('q')?.trim();
+    const [chunks, preview] = await Promise.all([
+      getKnowledgeChunks(),
+      query ? previewKnowledgeRetrieval(query) : Promise.resolve(null),
+    ]);
+    return NextResponse.json({ success: true, chunks, preview });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load knowledge base');
+  }
+}
+
+/**
+ * PUT /api/chat/ai/admin/knowledge
+ * Body: { id?, title, content, source?, tags?, pinned? }; creates a chunk or replaces the one
+ * with the same id as a new version.
+ */
+export async function PUT(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('ai_knowledge_save_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const chunk = await saveKnowledgeChunk(body);
+    await logAdminAction('ai_knowledge_saved', 'valid_key', { id: chunk.id, version: chunk.version }, true);
+    return NextResponse.json({ success: true, chunk });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save knowledge chunk');
+  }
+}
+
+/**
+ * DELETE /api/chat/ai/admin/knowledge?id=<chunkId>
+ * Removes an admin chunk, or reverts a built-in chunk to the shipped text.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('ai_knowledge_delete_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      const e = createErrorResponse('Missing id', 400);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    const deleted = await deleteKnowledgeChunk(id);
+    if (!deleted) {
+      const e = createErrorResponse('Knowledge chunk not found', 404, 'NOT_FOUND');
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    await logAdminAction('ai_knowledge_deleted', 'valid_key', { id }, true);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete knowledge chunk');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminKey, createErrorResponse } from '@/lib/auth-utils';
+import { getAIBudgets, getAISpendBreakdown } from '@/lib/ai-budget';
+import { getCircuitStates } from '@/lib/ai-providers';
+import { getProviderChain } from '@/lib/ai-config';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/chat/ai/admin/spend?days=7
+ * Neural Seed spend per day, provider and model, with the failover chain, circuit breaker
+ * state and tier budgets.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    const error = createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+    return NextResponse.json(error.body, { status: error.status });
+  }
+
+  try {
+    const days = Math.min(30, Math.max(1, parseInt(new URL(request.url).searchParams.get('days') || '7') || 7));
+    const [rows, circuits] = await Promise.all([getAISpendBreakdown(days), getCircuitStates()]);
+    return NextResponse.json({
+      success: true,
+      days,
+      rows,
+      chain: getProviderChain(),
+      circuits,
+      budgets: getAIBudgets(),
+    });
+  } catch (error) {
+    console.error('Error fetching AI spend:', error);
+    const e = createErrorResponse('Failed to fetch AI spend', 500);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIConversationError, conversationToMarkdown, exportAIConversation } from '@/lib/ai-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/chat/ai/conversations/export?address=0x...&conversationId=...&format=json|markdown
+ * Downloads a full conversation transcript.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const conversationId = searchParams.get('conversationId');
+    const format = searchParams.get('format') === 'markdown' ? 'markdown' : 'json';
+    if (!address || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+    }
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    const exported = await exportAIConversation(address, conversationId);
+    const filename = `neural-seed-${conversationId}.${format === 'markdown' ? 'md' : 'json'}`;
+    const body = format === 'markdown' ? conversationToMarkdown(exported) : JSON.stringify(exported, null, 2);
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'markdown' ? 'text/markdown; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
+    if (error instanceof AIConversationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error exporting AI conversation:', error);
+    return NextResponse.json({ error: 'Failed to export conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AIConversationError,
+  createAIConversation,
+  deleteUserAIConversation,
+  listAIConversations,
+  renameAIConversation,
+} from '@/lib/ai-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AuthSessionError) {
+    return sessionErrorResponse(error);
+  }
+  if (error instanceof AIConversationError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(fallback, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+function invalidAddress() {
+  return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+}
+
+/**
+ * GET /api/chat/ai/conversations?address=0x...
+ * The wallet's Neural Seed conversations, most recent first, and the active one.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = new URL(request.url).searchParams.get('address');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    const { conversations, activeId } = await listAIConversations(address);
+    return NextResponse.json({ success: true, conversations, activeId });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load conversations');
+  }
+}
+
+/**
+ * POST /api/chat/ai/conversations
+ * Body: { address, title? }; starts a new conversation and makes it active.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { address, title } = (await request.json().catch(() => null)) || {};
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    const conversation = await createAIConversation(address, typeof title === 'string' ? title : undefined);
+    return NextResponse.json({ success: true, conversation });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create conversation');
+  }
+}
+
+/**
+ * PATCH /api/chat/ai/conversations
+ * Body: { address, conversationId, title }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { address, conversationId, title } = (await request.json().catch(() => null)) || {};
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    if (typeof conversationId !== 'string' || !conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    const conversation = await renameAIConversation(address, conversationId, title);
+    return NextResponse.json({ success: true, conversation });
+  } catch (error) {
+    return errorResponse(error, 'Failed to rename conversation');
+  }
+}
+
+/**
+ * DELETE /api/chat/ai/conversations?address=0x...&conversationId=...
+ * Deletes the conversation and all of its messages.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const conversationId = searchParams.get('conversationId');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    await deleteUserAIConversation(address, conversationId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete conversation');
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIMemoryError, clearPlayerMemory, forgetPlayerFact, getPlayerMemory, setPlayerMemoryEnabled } from '@/lib/ai-memory';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AuthSessionError) {
+    return sessionErrorResponse(error);
+  }
+  if (error instanceof AIMemoryError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(fallback, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+function invalidAddress() {
+  return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+}
+
+/**
+ * GET /api/chat/ai/memory?address=0x...
+ * What Neural Seed remembers about the wallet, and whether memory is on.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = new URL(request.url).searchParams.get('address');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    return NextResponse.json({ success: true, memory: await getPlayerMemory(address) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load memory');
+  }
+}
+
+/**
+ * PUT /api/chat/ai/memory
+ * Body: { address, enabled }; turning memory off also deletes what was remembered.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { address, enabled } = (await request.json().catch(() => null)) || {};
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be a boolean' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    return NextResponse.json({ success: true, memory: await setPlayerMemoryEnabled(address, enabled) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update memory');
+  }
+}
+
+/**
+ * DELETE /api/chat/ai/memory?address=0x...[&factId=...]
+ * Forgets one fact, or everything when no factId is given.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const factId = searchParams.get('factId');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    const memory = factId ? await forgetPlayerFact(address, factId) : await clearPlayerMemory(address);
+    return NextResponse.json({ success: true, memory });
+  } catch (error) {
+    return errorResponse(error, 'Failed to clear memory');
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAIConversationMessages, getOrCreateConversation } from '@/lib/ai-service';
+import { getAIConversation, getAIConversationMessages, getOrCreateConversation } from '@/lib/ai-service';
 import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,10 +34,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Conversations are private to the wallet that had them
+    await requireSession(request, address);
+
     let finalConversationId = conversationId;
-    
-    // If no conversationId provided, get or create one for the user
-    if (!finalConversationId) {
+
+    if (finalConversationId) {
+      if (!(await getAIConversation(address, finalConversationId))) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+    } else {
+      // If no conversationId provided, get or create one for the user
       finalConversationId = await getOrCreateConversation(address);
     }
 
@@ -50,6 +61,9 @@ export async function GET(request: NextRequest) {
       timestamp: Date.now()
     });
   } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
     console.error('Error fetching AI chat messages:', error);
     return NextResponse.json(
       { error: 'Failed to fetch AI messages' },
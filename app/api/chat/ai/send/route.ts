@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sendAIMessage, checkAIRateLimit, updateAIRateLimit, validateAIMessage } from '@/lib/ai-service';
+import { streamAIMessage, checkAIRateLimit, updateAIRateLimit, validateAIMessage } from '@/lib/ai-service';
 import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+import { checkAIBudget } from '@/lib/ai-budget';
 
 // Extend timeout for AI processing
 export const maxDuration = 60; // 60 seconds
@@ -9,7 +11,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { message, address } = body;
+    const { message, address, conversationId } = body;
 
     // Validate required fields
     if (!message || !address) {
@@ -39,6 +41,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // AI quota is per wallet, so only that wallet's session may spend it
+    const session = await requireSession(request, address);
+
     // Check rate limit
     const canSend = await checkAIRateLimit(address);
     if (!canSend) {
@@ -48,13 +53,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Daily token and cost budget for the wallet's tier
+    const budget = await checkAIBudget(address, session);
+    if (!budget.allowed) {
+      return NextResponse.json(
+        {
+          error: "You've reached today's Neural Seed limit. It resets at 00:00 UTC.",
+          code: 'AI_BUDGET_EXCEEDED',
+          tier: budget.tier,
+          usage: { tokens: budget.usage.tokens, tokensPerDay: budget.budget.tokensPerDay },
+        },
+        { status: 429 }
+      );
+    }
+
     console.log('🤖 Processing AI message...');
-    
-    // Send message to AI and get response
-    let result;
+
+    // Start the AI stream; the reply is delivered as newline-delimited events
+    let stream: ReadableStream<Uint8Array>;
     try {
-      result = await sendAIMessage(address, message);
-      console.log('✅ AI response generated successfully');
+      stream = await streamAIMessage(address, message, typeof conversationId === 'string' ? conversationId : null);
     } catch (error) {
       console.error('❌ AI message processing failed:', error);
       return NextResponse.json(
@@ -72,14 +90,19 @@ export async function POST(request: NextRequest) {
       console.warn('⚠️ AI rate limit update failed (non-critical):', error);
     }
 
-    return NextResponse.json({
-      success: true,
-      userMessage: result.userMessage,
-      aiResponse: result.aiResponse,
-      conversationId: result.userMessage.conversationId
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+        // Stop proxies from buffering the stream
+        'X-Accel-Buffering': 'no',
+      },
     });
 
   } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
     console.error('Error in AI chat endpoint:', error);
     return NextResponse.json(
       { error: 'Failed to process AI message' },
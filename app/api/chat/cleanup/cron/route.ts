@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cleanupOldData } from '@/lib/chat-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Daily prune of chat room indexes past CHAT_RETENTION_DAYS
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await cleanupOldData();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[chat cleanup cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Chat cleanup failed' }, { status: 500 });
+  }
+}
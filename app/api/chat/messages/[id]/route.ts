@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { editMessage, deleteOwnMessage, validateMessage, checkRateLimit, updateRateLimit, checkSpam, ChatServiceError } from '@/lib/chat-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AuthSessionError) {
+    return sessionErrorResponse(error);
+  }
+  if (error instanceof ChatServiceError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(fallback, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Edit your own message
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { message, address } = await request.json();
+
+    if (!message || !address) {
+      return NextResponse.json(
+        { error: 'Message and address are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidEthereumAddressFormat(address)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address format' },
+        { status: 400 }
+      );
+    }
+
+    const messageError = validateMessage(message);
+    if (messageError) {
+      return NextResponse.json(
+        { error: messageError },
+        { status: 400 }
+      );
+    }
+
+    await requireSession(request, address);
+
+    // Edits share the send rate limit and duplicate checks, otherwise editing is a way around them
+    if (!(await checkRateLimit(address))) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please wait before editing again.' },
+        { status: 429 }
+      );
+    }
+    if (await checkSpam(message, address)) {
+      return NextResponse.json(
+        { error: 'Duplicate or spam message detected' },
+        { status: 429 }
+      );
+    }
+
+    const updated = await editMessage(id, address, message);
+    await updateRateLimit(address).catch((error) => {
+      console.error('Rate limit update failed:', error);
+    });
+    return NextResponse.json({ success: true, message: updated });
+  } catch (error) {
+    return errorResponse(error, 'Failed to edit message');
+  }
+}
+
+// Delete your own message
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { address } = await request.json();
+
+    if (!address || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json(
+        { error: 'A valid wallet address is required' },
+        { status: 400 }
+      );
+    }
+
+    await requireSession(request, address);
+    const deleted = await deleteOwnMessage(id, address);
+    return NextResponse.json({ success: true, message: deleted });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete message');
+  }
+}
@@ -1,31 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecentMessages } from '@/lib/chat-service';
+import { getRoomMessages, getThreadMessages, ChatServiceError, CHAT_PAGE_MAX } from '@/lib/chat-service';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
-    
+    const beforeParam = searchParams.get('before');
+    const before = beforeParam ? Number(beforeParam) : undefined;
+    const room = searchParams.get('room');
+    const thread = searchParams.get('thread');
+
     // Validate limit
-    if (limit > 100) {
+    if (limit > CHAT_PAGE_MAX) {
       return NextResponse.json(
-        { error: 'Limit cannot exceed 100' },
+        { error: `Limit cannot exceed ${CHAT_PAGE_MAX}` },
         { status: 400 }
       );
     }
 
-    const messages = await getRecentMessages(limit);
+    if (before !== undefined && (!Number.isFinite(before) || before <= 0)) {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    if (thread) {
+      const page = await getThreadMessages(thread, { before, limit });
+      if (!page.root) {
+        return NextResponse.json(
+          { error: 'Thread not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({
+        root: page.root,
+        messages: page.messages,
+        nextCursor: page.nextCursor,
+        count: page.messages.length,
+        timestamp: Date.now()
+      });
+    }
+
+    const page = await getRoomMessages(room || 'global', { before, limit });
 
     return NextResponse.json({
-      messages,
-      count: messages.length,
+      messages: page.messages,
+      nextCursor: page.nextCursor,
+      count: page.messages.length,
       timestamp: Date.now()
     });
   } catch (error) {
+    if (error instanceof ChatServiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error fetching chat messages:', error);
     return NextResponse.json(
       { error: 'Failed to fetch messages' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAvailableRooms } from '@/lib/chat-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Rooms the wallet can post in (global plus its strain and neighborhood rooms)
+export async function GET(request: NextRequest) {
+  try {
+    const address = new URL(request.url).searchParams.get('address');
+    if (address && !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address format' },
+        { status: 400 }
+      );
+    }
+
+    const rooms = await getAvailableRooms(address);
+    return NextResponse.json({ rooms });
+  } catch (error) {
+    console.error('Error fetching chat rooms:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rooms' },
+      { status: 500 }
+    );
+  }
+}
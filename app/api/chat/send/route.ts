@@ -4,15 +4,17 @@ import {
   checkRateLimit, 
   updateRateLimit, 
   checkSpam, 
-  validateMessage 
+  validateMessage,
+  ChatServiceError
 } from '@/lib/chat-service';
 import { markMissionTask, trackDailyActivity } from '@/lib/gamification-service';
 import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { message, address } = body;
+    const { message, address, room, replyToId } = body;
 
     // Validate required fields
     if (!message || !address) {
@@ -31,7 +33,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Basic address validation (wallet connection is sufficient for public chat)
+    // Basic address validation
     if (!isValidEthereumAddressFormat(address)) {
       return NextResponse.json(
         { error: 'Invalid wallet address format' },
@@ -39,6 +41,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Messages are posted as the signed-in wallet only
+    await requireSession(request, address);
+
     // Check rate limit
     const canSend = await checkRateLimit(address);
     if (!canSend) {
@@ -62,9 +67,18 @@ export async function POST(request: NextRequest) {
     // Store the message (OnchainKit will handle names client-side)
     let chatMessage;
     try {
-      chatMessage = await storeMessage(address, message);
+      chatMessage = await storeMessage(address, message, {
+        room: typeof room === 'string' ? room : undefined,
+        replyToId: typeof replyToId === 'string' ? replyToId : null,
+      });
       console.log('✅ Message stored successfully');
     } catch (error) {
+      if (error instanceof ChatServiceError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        );
+      }
       console.error('❌ Message storage failed:', error);
       return NextResponse.json(
         { error: 'Failed to store message' },
@@ -108,6 +122,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
     console.error('Error sending chat message:', error);
     return NextResponse.json(
       { error: 'Failed to send message' },
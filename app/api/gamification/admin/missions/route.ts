@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteMissionSet, getActiveMissionSets, getMissionSets, saveMissionSet } from '@/lib/gamification-service';
+import { CLASSIC_MISSION_SET, GM_PROOF_VERIFIER_IDS, MissionSetError } from '@/lib/mission-definitions';
+import { validateAdminKey, createErrorResponse, logAdminAction } from '@/lib/auth-utils';
+
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  const error = createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+  return NextResponse.json(error.body, { status: error.status });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof MissionSetError) {
+    const e = createErrorResponse(error.message, error.status);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+  console.error(fallback, error);
+  const e = createErrorResponse(fallback, 500);
+  return NextResponse.json(e.body, { status: e.status });
+}
+
+/**
+ * GET /api/gamification/admin/missions
+ * Stored mission sets, the built-in classic set and which sets are active today.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) return unauthorized();
+  try {
+    const [sets, active] = await Promise.all([getMissionSets(), getActiveMissionSets()]);
+    return NextResponse.json({
+      success: true,
+      sets,
+      classic: CLASSIC_MISSION_SET,
+      activeDailyId: active.daily.id,
+      activeWeeklyId: active.weekly?.id ?? null,
+      verifiers: GM_PROOF_VERIFIER_IDS,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load mission sets');
+  }
+}
+
+/**
+ * PUT /api/gamification/admin/missions
+ * Body: a mission set; creates it or replaces the set with the same id.
+ */
+export async function PUT(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('gm_mission_set_save_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const set = await saveMissionSet(body);
+    await logAdminAction('gm_mission_set_saved', 'valid_key', { id: set.id, track: set.track, tasks: set.tasks.length }, true);
+    return NextResponse.json({ success: true, set });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save mission set');
+  }
+}
+
+/**
+ * DELETE /api/gamification/admin/missions?id=<setId>
+ */
+export async function DELETE(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('gm_mission_set_delete_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      const e = createErrorResponse('Missing id', 400);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    const deleted = await deleteMissionSet(id);
+    if (!deleted) {
+      const e = createErrorResponse('Mission set not found', 404, 'NOT_FOUND');
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    await logAdminAction('gm_mission_set_deleted', 'valid_key', { id }, true);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete mission set');
+  }
+}
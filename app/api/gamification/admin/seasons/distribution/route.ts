@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { approveSeasonDistribution, distributionToCsv, finalizeSeason, getSeasonDistribution, SeasonError } from '@/lib/seasons';
+import { validateAdminKey, createErrorResponse, logAdminAction } from '@/lib/auth-utils';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  const error = createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+  return NextResponse.json(error.body, { status: error.status });
+}
+
+/**
+ * GET /api/gamification/admin/seasons/distribution?id=<seasonId>[&format=csv]
+ * The drafted prize distribution, as JSON or as a CSV file for review.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) return unauthorized();
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      const e = createErrorResponse('Missing id', 400);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    const distribution = await getSeasonDistribution(id);
+    if (!distribution) {
+      const e = createErrorResponse('Season has no distribution yet', 404, 'NOT_FOUND');
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(distributionToCsv(distribution), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="season-${id}-distribution.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, distribution });
+  } catch (error) {
+    console.error('Failed to load season distribution', error);
+    const e = createErrorResponse('Failed to load season distribution', 500);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+}
+
+/**
+ * POST /api/gamification/admin/seasons/distribution
+ * Body: { id, action: 'finalize' | 'approve' }
+ * finalize snapshots an ended season now; approve lets the seasons cron send the prizes.
+ */
+export async function POST(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('gm_season_distribution_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const id = typeof body?.id === 'string' ? body.id : '';
+    const action = body?.action;
+    if (!id || (action !== 'finalize' && action !== 'approve')) {
+      const e = createErrorResponse('Body must include id and action (finalize | approve)', 400);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+
+    const distribution = action === 'finalize' ? (await finalizeSeason(id)).distribution : await approveSeasonDistribution(id);
+    await logAdminAction(`gm_season_${action}d`, 'valid_key', { id, entries: distribution.entries.length, totals: distribution.totals }, true);
+    return NextResponse.json({ success: true, distribution });
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      const e = createErrorResponse(error.message, error.status);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    console.error('Failed to update season distribution', error);
+    const e = createErrorResponse('Failed to update season distribution', 500);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSeason, getSeasonDistribution, getSeasons, saveSeason, seasonPhase, SeasonError, SEASON_BOARDS } from '@/lib/seasons';
+import { validateAdminKey, createErrorResponse, logAdminAction } from '@/lib/auth-utils';
+
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  const error = createErrorResponse('Unauthorized', 401, 'UNAUTHORIZED');
+  return NextResponse.json(error.body, { status: error.status });
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof SeasonError) {
+    const e = createErrorResponse(error.message, error.status);
+    return NextResponse.json(e.body, { status: e.status });
+  }
+  console.error(fallback, error);
+  const e = createErrorResponse(fallback, 500);
+  return NextResponse.json(e.body, { status: e.status });
+}
+
+/**
+ * GET /api/gamification/admin/seasons
+ * All seasons with their phase and distribution status.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateAdminKey(request)) return unauthorized();
+  try {
+    const seasons = await getSeasons();
+    const distributions = await Promise.all(seasons.map((s) => (s.finalizedAt ? getSeasonDistribution(s.id) : Promise.resolve(null))));
+    return NextResponse.json({
+      success: true,
+      seasons: seasons.map((s, i) => {
+        const d = distributions[i];
+        return {
+          ...s,
+          phase: seasonPhase(s),
+          distribution: d ? { status: d.status, entries: d.entries.length, totals: d.totals, failed: d.entries.filter((e) => e.status === 'failed').length, sending: d.entries.filter((e) => e.status === 'sending').length } : null,
+        };
+      }),
+      boards: SEASON_BOARDS,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load seasons');
+  }
+}
+
+/**
+ * PUT /api/gamification/admin/seasons
+ * Body: a season; creates it or replaces the unfinalized season with the same id.
+ */
+export async function PUT(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('gm_season_save_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const body = await request.json().catch(() => null);
+    const season = await saveSeason(body);
+    await logAdminAction('gm_season_saved', 'valid_key', { id: season.id, startsOn: season.startsOn, endsOn: season.endsOn, prizes: season.prizes.length }, true);
+    return NextResponse.json({ success: true, season });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save season');
+  }
+}
+
+/**
+ * DELETE /api/gamification/admin/seasons?id=<seasonId>
+ */
+export async function DELETE(request: NextRequest) {
+  if (!validateAdminKey(request)) {
+    await logAdminAction('gm_season_delete_failed', 'invalid_key', { reason: 'invalid_admin_key' }, false);
+    return unauthorized();
+  }
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      const e = createErrorResponse('Missing id', 400);
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    const deleted = await deleteSeason(id);
+    if (!deleted) {
+      const e = createErrorResponse('Season not found', 404, 'NOT_FOUND');
+      return NextResponse.json(e.body, { status: e.status });
+    }
+    await logAdminAction('gm_season_deleted', 'valid_key', { id }, true);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete season');
+  }
+}
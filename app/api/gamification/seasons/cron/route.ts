@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSeasonJobs } from '@/lib/seasons';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Finalizes ended seasons and sends prize distributions an admin has approved
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runSeasonJobs();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[seasons cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Season jobs failed' }, { status: 500 });
+  }
+}
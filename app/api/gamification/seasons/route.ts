@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getHallOfFame, getSeason, getSeasons, getSeasonStandings, seasonPhase } from '@/lib/seasons';
+import { resolvePrimaryNames } from '@/lib/ens-resolver';
+import { getGamificationDisabledMessage, isGamificationDisabled } from '@/lib/gamification-feature';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/gamification/seasons
+ * Seasons with their phase plus the hall of fame of finalized seasons.
+ *
+ * GET /api/gamification/seasons?id=<seasonId>
+ * Standings of one season: the final snapshot, or live missions/streak boards while it runs.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (isGamificationDisabled()) {
+      return NextResponse.json({ success: true, disabled: true, message: getGamificationDisabledMessage(), seasons: [], hallOfFame: [] });
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (id) {
+      const season = await getSeason(id);
+      if (!season) {
+        return NextResponse.json({ success: false, error: 'Season not found' }, { status: 404 });
+      }
+      const standings = await getSeasonStandings(season);
+      const addresses = Array.from(new Set(Object.values(standings.boards).flatMap((rows) => rows?.map((r) => r.address) ?? [])));
+      const names = addresses.length > 0 ? await resolvePrimaryNames(addresses) : new Map<string, string | null>();
+      return NextResponse.json(
+        {
+          success: true,
+          season: { ...season, phase: seasonPhase(season) },
+          ...standings,
+          names: Object.fromEntries(Array.from(names.entries()).filter(([, name]) => !!name)),
+        },
+        { headers: { 'Cache-Control': standings.final ? 'public, max-age=300, s-maxage=3600' : 'public, max-age=60, s-maxage=120' } },
+      );
+    }
+
+    const [seasons, hallOfFame] = await Promise.all([getSeasons(), getHallOfFame()]);
+    return NextResponse.json(
+      {
+        success: true,
+        seasons: seasons.map((s) => ({ ...s, phase: seasonPhase(s) })),
+        hallOfFame,
+      },
+      { headers: { 'Cache-Control': 'public, max-age=60, s-maxage=300' } },
+    );
+  } catch (error) {
+    console.error('[Seasons] Failed to load seasons', error);
+    return NextResponse.json({ success: false, error: 'Failed to load seasons' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processStreakPayouts } from '@/lib/streak-rewards';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Pays queued streak milestone rewards from the agent smart account
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processStreakPayouts();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[streak payouts cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Streak payouts failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { repairStreak, StreakActionError } from '@/lib/gamification-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { getGamificationDisabledMessage, isGamificationDisabled } from '@/lib/gamification-feature';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/gamification/streak/repair
+ * Body: { address, txHash } where txHash is the SEED payment for the repair.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isGamificationDisabled()) {
+      return NextResponse.json({ success: false, disabled: true, message: getGamificationDisabledMessage() }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { address, txHash } = body || {};
+    if (!address || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+    }
+    if (typeof txHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(txHash)) {
+      return NextResponse.json({ error: 'Payment transaction hash is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    const streak = await repairStreak(address, txHash as `0x${string}`);
+    return NextResponse.json({ success: true, streak });
+  } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
+    if (error instanceof StreakActionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in streak repair:', error);
+    return NextResponse.json({ error: 'Failed to repair streak' }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getStreak, trackDailyActivity } from '@/lib/gamification-service';
+import { getStreak, getStreakHistory, normalizeStreakIfMissed, trackDailyActivity } from '@/lib/gamification-service';
+import { getStreakRewardConfig } from '@/lib/streak-rewards';
 import { isValidEthereumAddressFormat } from '@/lib/utils';
 import { getGamificationDisabledMessage, isGamificationDisabled } from '@/lib/gamification-feature';
-
-// Segment config: Always fetch fresh user data
-export const dynamic = 'force-dynamic';
-export const fetchCache = 'force-no-store';
-export const revalidate = 0;
-
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+// Segment config: Always fetch fresh user data
+export const dynamic = 'force-dynamic';
+export const fetchCache = 'force-no-store';
+export const revalidate = 0;
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -23,14 +25,15 @@ export async function GET(request: NextRequest) {
         streak: { current: 0, best: 0, lastActive: '' },
       });
     }
-    const streak = await getStreak(address);
-    return NextResponse.json({ success: true, streak });
-  } catch (error) {
-    console.error('Error fetching streak:', error);
-    return NextResponse.json({ error: 'Failed to fetch streak' }, { status: 500 });
-  }
-}
-
+    const streak = await normalizeStreakIfMissed(address, await getStreak(address));
+    const history = await getStreakHistory(address);
+    return NextResponse.json({ success: true, streak, history, config: getStreakRewardConfig() });
+  } catch (error) {
+    console.error('Error fetching streak:', error);
+    return NextResponse.json({ error: 'Failed to fetch streak' }, { status: 500 });
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     if (isGamificationDisabled()) {
@@ -42,16 +45,20 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { address } = body || {};
-    if (!address || !isValidEthereumAddressFormat(address)) {
-      return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
-    }
-    const streak = await trackDailyActivity(address);
-    return NextResponse.json({ success: true, streak });
-  } catch (error) {
-    console.error('Error tracking activity:', error);
-    return NextResponse.json({ error: 'Failed to track activity' }, { status: 500 });
-  }
-}
-
-
+    const { address } = body || {};
+    if (!address || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+    const streak = await trackDailyActivity(address);
+    return NextResponse.json({ success: true, streak });
+  } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
+    console.error('Error tracking activity:', error);
+    return NextResponse.json({ error: 'Failed to track activity' }, { status: 500 });
+  }
+}
+
+
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { generateInviteCode } from '@/lib/invite-service';
 import { INVITE_CONFIG } from '@/lib/invite-utils';
 import { createErrorResponse } from '@/lib/auth-utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
 
 export async function POST(request: NextRequest) {
   try {
@@ -19,6 +20,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(error.body, { status: error.status });
     }
 
+    await requireSession(request, address);
+
     // Generate invite code using existing service (which has built-in rate limiting)
     const result = await generateInviteCode(address);
 
@@ -34,6 +37,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(error.body, { status: error.status });
     }
   } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
     console.error('Error in invite generation:', error);
     const errorResponse = createErrorResponse('Internal server error', 500, 'INTERNAL_ERROR');
     return NextResponse.json(errorResponse.body, { status: errorResponse.status });
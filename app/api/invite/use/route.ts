@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { markCodeAsUsed, markUserAsValidated } from '@/lib/invite-service';
 import { INVITE_CONFIG } from '@/lib/invite-utils';
 import { createErrorResponse } from '@/lib/auth-utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,6 +25,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(error.body, { status: error.status });
     }
 
+    await requireSession(request, address);
+
     // Mark invite code as used
     const useResult = await markCodeAsUsed(code, address);
 
@@ -46,6 +49,9 @@ export async function POST(request: NextRequest) {
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
     console.error('Error in invite code usage:', error);
     const errorResponse = createErrorResponse('Internal server error', 500, 'INTERNAL_ERROR');
     return NextResponse.json(errorResponse.body, { status: errorResponse.status });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMarketAlert, deleteMarketAlert, getMarketAlerts, MarketplaceError } from '@/lib/marketplace-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AuthSessionError) {
+    return sessionErrorResponse(error);
+  }
+  if (error instanceof MarketplaceError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(fallback, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+function invalidAddress() {
+  return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+}
+
+/**
+ * GET /api/marketplace/alerts?address=0x...
+ * The wallet's price alerts, armed and triggered.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = new URL(request.url).searchParams.get('address');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    return NextResponse.json({ success: true, alerts: await getMarketAlerts(address) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load alerts');
+  }
+}
+
+/**
+ * POST /api/marketplace/alerts
+ * Body: { address, side: 'ask' | 'bid', price } with price in LEAF per SEED.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { address, side, price } = (await request.json().catch(() => null)) || {};
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    await requireSession(request, address);
+
+    return NextResponse.json({ success: true, alert: await createMarketAlert(address, side, price) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create alert');
+  }
+}
+
+/**
+ * DELETE /api/marketplace/alerts?address=0x...&id=...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const address = params.get('address');
+    const id = params.get('id');
+    if (!address || !isValidEthereumAddressFormat(address)) return invalidAddress();
+    if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    await requireSession(request, address);
+
+    await deleteMarketAlert(address, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete alert');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkMarketAlerts, syncMarketplaceEvents } from '@/lib/marketplace-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Advance the marketplace index, then fire price alerts against the live book
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const sync = await syncMarketplaceEvents();
+    const alerts = await checkMarketAlerts();
+    return NextResponse.json({ success: true, sync, alerts });
+  } catch (error: any) {
+    console.error('[marketplace cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Marketplace run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketFills } from '@/lib/marketplace-service';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/marketplace/fills?address=0x...&limit=50
+ * Filled orders where the wallet was the maker or the taker, most recent first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const address = params.get('address');
+    if (!address || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json({ error: 'Valid wallet address is required' }, { status: 400 });
+    }
+    await requireSession(request, address);
+
+    const limit = Number(params.get('limit') || 50);
+    return NextResponse.json({ success: true, fills: await getMarketFills(address, Number.isFinite(limit) ? limit : 50) });
+  } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
+    console.error('Failed to load marketplace fills', error);
+    return NextResponse.json({ error: 'Failed to load fills' }, { status: 500 });
+  }
+}
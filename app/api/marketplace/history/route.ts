@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getMarketCandles,
+  getMarketSyncState,
+  getMarketTrades,
+  MARKET_CANDLE_INTERVALS,
+  type MarketCandleInterval,
+} from '@/lib/marketplace-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/marketplace/history?interval=1h&candles=48&trades=50
+ * LEAF/SEED candles and the recent trade tape from the marketplace index.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const interval = (params.get('interval') || '1h') as MarketCandleInterval;
+    if (!(interval in MARKET_CANDLE_INTERVALS)) {
+      return NextResponse.json({ error: `interval must be one of: ${Object.keys(MARKET_CANDLE_INTERVALS).join(', ')}` }, { status: 400 });
+    }
+    const candleCount = Number(params.get('candles') || 48);
+    const tradeCount = Number(params.get('trades') || 50);
+
+    const [candles, trades, sync] = await Promise.all([
+      getMarketCandles(interval, Number.isFinite(candleCount) ? candleCount : 48),
+      getMarketTrades(Number.isFinite(tradeCount) ? Math.min(tradeCount, 200) : 50),
+      getMarketSyncState(),
+    ]);
+
+    return NextResponse.json({ success: true, interval, candles, trades, syncedAt: sync?.syncedAt ?? null });
+  } catch (error) {
+    console.error('Failed to load marketplace history', error);
+    return NextResponse.json({ error: 'Failed to load marketplace history' }, { status: 500 });
+  }
+}
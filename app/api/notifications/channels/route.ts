@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import {
+  addNotificationChannel,
+  getDeliveryLog,
+  getNotificationChannels,
+  NotificationChannel,
+  removeNotificationChannel,
+  setNotificationChannelEnabled,
+} from '@/lib/notification-channels';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+// Never echo webhook secrets or full push keys back to the client
+function redact(channel: NotificationChannel) {
+  if (channel.type === 'webhook') {
+    return { ...channel, config: { url: channel.config.url, hasSecret: Boolean(channel.config.secret) } };
+  }
+  if (channel.type === 'web_push') {
+    return { ...channel, config: { endpoint: channel.config.subscription.endpoint } };
+  }
+  return channel;
+}
+
+/**
+ * GET /api/notifications/channels?address=0x...
+ * Registered delivery channels and recent delivery records for a wallet.
+ */
+export async function GET(req: NextRequest) {
+  const address = new URL(req.url).searchParams.get('address');
+  if (!address || !isAddress(address)) {
+    return NextResponse.json({ success: false, error: 'Valid address required' }, { status: 400 });
+  }
+  try {
+    await requireSession(req, address);
+  } catch (e) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    throw e;
+  }
+  const [channels, deliveries] = await Promise.all([getNotificationChannels(address), getDeliveryLog(address, 20)]);
+  return NextResponse.json({ success: true, channels: channels.map(redact), deliveries });
+}
+
+/**
+ * POST /api/notifications/channels
+ * Body: { address, channel: { type, label?, config } }
+ * Telegram channels take no config; the response carries the bot link that connects the chat.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { address, channel } = await req.json();
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ success: false, error: 'Valid address required' }, { status: 400 });
+    }
+    await requireSession(req, address);
+    const result = await addNotificationChannel(address, channel);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status ?? 400 });
+    }
+    // Email and Telegram channels stay silent until confirmed (email link / Telegram /start link)
+    return NextResponse.json({ success: true, channel: redact(result.channel), verification: result.verification });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/notifications/channels
+ * Body: { address, channelId, enabled }
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { address, channelId, enabled } = await req.json();
+    if (!address || !isAddress(address) || typeof channelId !== 'string' || typeof enabled !== 'boolean') {
+      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+    }
+    await requireSession(req, address);
+    const ok = await setNotificationChannelEnabled(address, channelId, enabled);
+    return ok
+      ? NextResponse.json({ success: true })
+      : NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/notifications/channels
+ * Body: { address, channelId }
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const { address, channelId } = await req.json();
+    if (!address || !isAddress(address) || typeof channelId !== 'string') {
+      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+    }
+    await requireSession(req, address);
+    const ok = await removeNotificationChannel(address, channelId);
+    return ok
+      ? NextResponse.json({ success: true })
+      : NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { claimChannelCooldown, deliverToChannel, getNotificationChannels } from '@/lib/notification-channels';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const TEST_COOLDOWN_SECONDS = 60;
+
+/**
+ * POST /api/notifications/channels/test
+ * Body: { address, channelId }
+ * Sends a test notification through one channel and returns the delivery record.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { address, channelId } = await req.json();
+    if (!address || !isAddress(address) || typeof channelId !== 'string') {
+      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+    }
+
+    const session = await requireSession(req, address);
+
+    const channel = (await getNotificationChannels(address)).find((c) => c.id === channelId);
+    if (!channel) {
+      return NextResponse.json({ success: false, error: 'Channel not found' }, { status: 404 });
+    }
+    if (!channel.verifiedAt) {
+      return NextResponse.json({ success: false, error: 'Confirm this channel before sending a test' }, { status: 400 });
+    }
+
+    // Abuse guard: one test per wallet per minute (re-adding a channel does not reset it)
+    if (!(await claimChannelCooldown('channel-test', session.address, TEST_COOLDOWN_SECONDS))) {
+      return NextResponse.json({ success: false, error: 'Please wait a minute before sending another test' }, { status: 429 });
+    }
+
+    const record = await deliverToChannel(address, channel, {
+      title: '🪴 Pixotchi test notification',
+      body: 'Notifications are set up. You will get plant and game reminders here.',
+      category: 'test',
+    });
+    return NextResponse.json({ success: record.status === 'delivered', record });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
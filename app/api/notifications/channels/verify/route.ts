@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CLIENT_ENV } from '@/lib/env-config';
+import { confirmChannelVerification } from '@/lib/notification-channels';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+function page(title: string, body: string, status: number = 200) {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${title}</title></head>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:28rem;margin:3rem auto;padding:0 1rem;line-height:1.5"><h1 style="font-size:1.25rem">${title}</h1>${body}</body></html>`;
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+/**
+ * GET /api/notifications/channels/verify?token=...
+ * Landing page for the confirmation email. Confirming takes a POST so link scanners that
+ * prefetch the email's links cannot opt an inbox in on their own.
+ */
+export async function GET(req: NextRequest) {
+  const token = new URL(req.url).searchParams.get('token') || '';
+  return page(
+    'Confirm Pixotchi notifications',
+    `<p>Send Pixotchi game reminders to this email address?</p>` +
+    `<form method="post"><input type="hidden" name="token" value="${escapeHtml(token)}"><button type="submit">Confirm</button></form>`,
+  );
+}
+
+/**
+ * POST /api/notifications/channels/verify
+ * Form body: token
+ */
+export async function POST(req: NextRequest) {
+  const form = await req.formData().catch(() => null);
+  const token = String(form?.get('token') || '');
+  const confirmed = await confirmChannelVerification(token, { type: 'email' });
+  if (!confirmed) {
+    return page('Link expired', '<p>This confirmation link is invalid or was already used. Add the email again in Pixotchi to get a new one.</p>', 400);
+  }
+  return page('Email confirmed', `<p>You will now get Pixotchi reminders here. <a href="${escapeHtml(CLIENT_ENV.APP_URL)}">Back to Pixotchi</a></p>`);
+}
@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { redis } from '@/lib/redis';
 import { CLIENT_ENV, SERVER_ENV } from '@/lib/env-config';
-import { getPlantsByOwnerWithRpc } from '@/lib/contracts';
+import { addressRecipient, claimNotificationThrottles, evaluateNotificationRules, fidRecipient, NotificationCandidate, NotificationCategory } from '@/lib/notification-rules';
+import { deliverToAddress, getChannelAddresses } from '@/lib/notification-channels';
 import { z } from 'zod';
-import { differenceInSeconds } from 'date-fns';
 
-// Configuration
-const THRESHOLD_SECONDS = 12 * 60 * 60; // 12 hours
-const THROTTLE_SECONDS = 6 * 60 * 60; // 6 hours cooldown between notifications
-const REDIS_KEY_PREFIX = 'notif:plant12h';
+// Configuration (thresholds and throttles live in lib/notification-rules.ts, per category)
+const REDIS_KEY_PREFIX = 'notif:rules';
 const BATCH_SIZE = 30; // Process 30 FIDs in parallel
 
 // Validation Schemas (using Zod v4 stringbool for cleaner boolean parsing)
@@ -97,44 +95,16 @@ async function publishToFids(fids: number[], title: string, body: string) {
   return { ok: res.ok, json } as const;
 }
 
-async function clearPlantEpisode(fid: number, plantId: number) {
-  try { await (redis as any)?.del?.(`${REDIS_KEY_PREFIX}:fid:${fid}:plant:${plantId}`); } catch { }
-}
-
-function shouldThrottle(fid: number, opts?: { dry?: boolean }): Promise<boolean> {
-  const key = `${REDIS_KEY_PREFIX}:fid:${fid}`;
-  return (async () => {
-    if (!redis) return false;
-    const exists = await (redis as any)?.get?.(key);
-    if (exists) return true;
-    if (!opts?.dry) await (redis as any)?.set?.(key, '1', { ex: THROTTLE_SECONDS });
-    return false;
-  })();
-}
-
-function shouldThrottlePlant(fid: number, plantId: number, opts?: { dry?: boolean }): Promise<boolean> {
-  const key = `${REDIS_KEY_PREFIX}:fid:${fid}:plant:${plantId}`;
-  return (async () => {
-    if (!redis) return false;
-    const exists = await (redis as any)?.get?.(key);
-    if (exists) return true;
-    if (!opts?.dry) await (redis as any)?.set?.(key, '1', { ex: THROTTLE_SECONDS });
-    return false;
-  })();
-}
-
 // Type for processing result
 type FidProcessResult = {
   fid: number;
   address: string | null;
-  userThrottled: boolean;
-  hasEligible: boolean;
-  dueCount: number;
-  plants: Array<{ id: number; timestamp: number; left: number; due: boolean; plantThrottled: boolean }>;
+  quiet: boolean;
+  candidates: NotificationCandidate[];
 };
 
 /**
- * Process a single FID - resolve address, get plants, check eligibility
+ * Process a single FID - resolve address, load preferences and evaluate notification rules
  */
 async function processFid(
   fid: number,
@@ -163,73 +133,11 @@ async function processFid(
   } catch { }
 
   if (!address) {
-    return { fid, address: null, userThrottled: false, hasEligible: false, dueCount: 0, plants: [] };
-  }
-
-  const plants = await getPlantsByOwnerWithRpc(address, rpcUrl);
-  const plantDebug: Array<{ id: number; timestamp: number; left: number; due: boolean; plantThrottled: boolean }> = [];
-
-  // Clear safe episodes (when plant has more than threshold time left)
-  if (!debug && !dryRun) {
-    for (const p of plants || []) {
-      const t = Number(p.timeUntilStarving ?? 0);
-      const plantDate = new Date(t * 1000);
-      const left = differenceInSeconds(plantDate, now);
-      if (left > THRESHOLD_SECONDS) {
-        await clearPlantEpisode(fid, Number(p.id));
-      }
-    }
-  }
-
-  // Find plants with 12h or less remaining
-  const due = (plants || []).filter(p => {
-    const t = Number(p.timeUntilStarving ?? 0);
-    const plantDate = new Date(t * 1000);
-    const left = differenceInSeconds(plantDate, now);
-    return left > 0 && left <= THRESHOLD_SECONDS;
-  });
-
-  // Per-user throttle: bypass in debug/dry mode
-  const userThrottled = (debug || dryRun) ? false : await shouldThrottle(fid, { dry: dryRun });
-
-  if (due.length === 0) {
-    for (const p of plants || []) {
-      const t = Number(p.timeUntilStarving ?? 0);
-      const plantDate = new Date(t * 1000);
-      const left = differenceInSeconds(plantDate, now);
-      plantDebug.push({
-        id: Number(p.id),
-        timestamp: t,
-        left,
-        due: false,
-        plantThrottled: false
-      });
-    }
-    return { fid, address, userThrottled, hasEligible: false, dueCount: 0, plants: plantDebug };
-  }
-
-  let hasAny = false;
-  for (const p of due) {
-    const pid = Number(p.id);
-    const plantThrottled = (debug || dryRun) ? false : await shouldThrottlePlant(fid, pid, { dry: dryRun });
-    if (!plantThrottled) {
-      hasAny = true;
-    }
-    const t = Number(p.timeUntilStarving ?? 0);
-    const plantDate = new Date(t * 1000);
-    const left = differenceInSeconds(plantDate, now);
-    plantDebug.push({ id: pid, timestamp: t, left, due: true, plantThrottled });
+    return { fid, address: null, quiet: false, candidates: [] };
   }
 
-  // Include non-due plants in debug output
-  for (const p of (plants || []).filter(pp => due.every(d => Number(d.id) !== Number(pp.id)))) {
-    const t = Number(p.timeUntilStarving ?? 0);
-    const plantDate = new Date(t * 1000);
-    const left = differenceInSeconds(plantDate, now);
-    plantDebug.push({ id: Number(p.id), timestamp: t, left, due: false, plantThrottled: false });
-  }
-
-  return { fid, address, userThrottled, hasEligible: hasAny, dueCount: due.length, plants: plantDebug };
+  const { quiet, candidates } = await evaluateNotificationRules(fidRecipient(fid), address, { now, rpcUrl, dryRun: debug || dryRun });
+  return { fid, address, quiet, candidates };
 }
 
 export const runtime = 'nodejs';
@@ -272,10 +180,11 @@ export async function GET(req: NextRequest) {
 
     let resolved = 0;
     let skippedNoAddress = 0;
-    let skippedNoDue = 0;
-    let skippedThrottled = 0;
-    let plantEpisodes = 0;
-    const fidsToNotify: number[] = [];
+    let skippedNothingDue = 0;
+    let skippedQuietHours = 0;
+    const sentByCategory: Partial<Record<NotificationCategory, number>> = {};
+    // Neynar publishes one message to many FIDs, so group identical messages together
+    const groups = new Map<string, { title: string; body: string; fids: number[]; candidates: Array<{ fid: number; candidate: NotificationCandidate }> }>();
     const details: FidProcessResult[] = [];
 
     // Process FIDs in parallel batches
@@ -293,16 +202,21 @@ export async function GET(req: NextRequest) {
 
           if (!r.address) {
             skippedNoAddress++;
-          } else {
-            resolved++;
-            if (r.dueCount === 0) {
-              skippedNoDue++;
-            } else if (r.userThrottled) {
-              skippedThrottled++;
-            } else if (r.hasEligible) {
-              fidsToNotify.push(r.fid);
-              plantEpisodes += r.plants.filter(p => p.due && !p.plantThrottled).length;
-            }
+            continue;
+          }
+          resolved++;
+          if (r.quiet) {
+            skippedQuietHours++;
+          } else if (r.candidates.length === 0) {
+            skippedNothingDue++;
+          }
+          for (const candidate of r.candidates) {
+            const key = `${candidate.title}\n${candidate.body}`;
+            const group = groups.get(key) || { title: candidate.title, body: candidate.body, fids: [], candidates: [] };
+            group.fids.push(r.fid);
+            group.candidates.push({ fid: r.fid, candidate });
+            groups.set(key, group);
+            sentByCategory[candidate.category] = (sentByCategory[candidate.category] || 0) + 1;
           }
         }
       }
@@ -313,37 +227,86 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    // Delivery channels (webhook, Web Push, email, Telegram) for wallets that registered them.
+    // Wallets already evaluated through their FID reuse those results (and that FID's throttles).
+    type RecipientCandidate = { recipient: string; candidate: NotificationCandidate };
+    const candidatesByAddress = new Map<string, RecipientCandidate[]>();
+    for (const d of details) {
+      if (d.address) {
+        const own = d.candidates.map((candidate) => ({ recipient: fidRecipient(d.fid), candidate }));
+        candidatesByAddress.set(d.address, [...(candidatesByAddress.get(d.address) || []), ...own]);
+      }
+    }
+    let channelDeliveries = 0;
+    let channelFailures = 0;
+    if (!targetFid) {
+      const channelAddresses = await getChannelAddresses();
+      for (let i = 0; i < channelAddresses.length; i += BATCH_SIZE) {
+        const batch = channelAddresses.slice(i, i + BATCH_SIZE);
+        await Promise.allSettled(batch.map(async (address) => {
+          let candidates = candidatesByAddress.get(address);
+          if (!candidates) {
+            const recipient = addressRecipient(address);
+            const evaluated = await evaluateNotificationRules(recipient, address, { now, rpcUrl, dryRun: debug || dryRun });
+            candidates = evaluated.candidates.map((candidate) => ({ recipient, candidate }));
+          }
+          for (const { recipient, candidate } of candidates) {
+            if (dryRun) {
+              channelDeliveries++;
+              continue;
+            }
+            const records = await deliverToAddress(address, { title: candidate.title, body: candidate.body, category: candidate.category });
+            const delivered = records.filter(r => r.status === 'delivered').length;
+            channelDeliveries += delivered;
+            channelFailures += records.filter(r => r.status === 'failed').length;
+            if (delivered > 0 && !debug) await claimNotificationThrottles(recipient, candidate);
+          }
+        }));
+      }
+    }
+
+    const totalNotifications = Array.from(groups.values()).reduce((sum, g) => sum + g.fids.length, 0);
+
     // Send notifications (unless dry run)
-    let publishResult: { ok: boolean; json?: unknown } = { ok: true };
-    if (fidsToNotify.length > 0 && !dryRun) {
-      const title = '🪴 Plant Health Alert';
-      const body = 'Your plant has under 12h left before it dies. Tap to feed it now!';
-      publishResult = await publishToFids(fidsToNotify, title, body);
-
-      if (!publishResult.ok) {
-        return NextResponse.json({ success: false, error: publishResult.json || 'publish_failed' }, { status: 500 });
+    const publishResults: Array<{ title: string; ok: boolean; json?: unknown }> = [];
+    if (groups.size > 0 && !dryRun) {
+      for (const group of groups.values()) {
+        const res = await publishToFids(group.fids, group.title, group.body);
+        publishResults.push({ title: group.title, ...res });
+        // Claim throttles only for what went out (never in debug); failed groups are retried on the next run
+        if (res.ok && !debug) {
+          await Promise.allSettled(group.candidates.map(({ fid, candidate }) => claimNotificationThrottles(fidRecipient(fid), candidate)));
+        }
+      }
+
+      const failed = publishResults.filter(r => !r.ok);
+      if (failed.length === publishResults.length) {
+        return NextResponse.json({ success: false, error: failed[0]?.json || 'publish_failed' }, { status: 500 });
       }
 
       // Log for stats
       try {
         await (redis as any)?.set?.(`${REDIS_KEY_PREFIX}:last`, Date.now());
         await (redis as any)?.incr?.(`${REDIS_KEY_PREFIX}:runs`);
-        await (redis as any)?.incrby?.(`${REDIS_KEY_PREFIX}:sent:count`, fidsToNotify.length);
+        await (redis as any)?.incrby?.(`${REDIS_KEY_PREFIX}:sent:count`, totalNotifications);
         await (redis as any)?.lpush?.(`${REDIS_KEY_PREFIX}:log`, JSON.stringify({
           ts: Date.now(),
-          sent: fidsToNotify.length,
-          eligible: plantEpisodes,
+          sent: totalNotifications,
+          byCategory: sentByCategory,
+          publishFailures: failed.length,
+          channelDeliveries,
+          channelFailures,
           resolved,
           skippedNoAddress,
-          skippedNoDue,
-          skippedThrottled,
+          skippedNothingDue,
+          skippedQuietHours,
         }));
         await (redis as any)?.ltrim?.(`${REDIS_KEY_PREFIX}:log`, 0, 99);
       } catch { }
     }
 
     const elapsedMs = Date.now() - startedAt;
-    console.log(`[plant-care cron] Completed in ${elapsedMs}ms - notified: ${fidsToNotify.length}, resolved: ${resolved}, skipped: ${skippedNoAddress + skippedNoDue + skippedThrottled}`);
+    console.log(`[plant-care cron] Completed in ${elapsedMs}ms - notifications: ${totalNotifications}, resolved: ${resolved}, skipped: ${skippedNoAddress + skippedNothingDue + skippedQuietHours}`);
 
     return NextResponse.json({
       success: true,
@@ -352,13 +315,15 @@ export async function GET(req: NextRequest) {
         totalFids: fids.length,
         resolved,
         skippedNoAddress,
-        skippedNoDue,
-        skippedThrottled,
-        eligiblePlants: plantEpisodes,
-        notified: fidsToNotify.length,
+        skippedNothingDue,
+        skippedQuietHours,
+        byCategory: sentByCategory,
+        notified: totalNotifications,
+        channelDeliveries,
+        channelFailures,
         elapsedMs,
       },
-      ...(debug ? { details, publishResult } : {}),
+      ...(debug ? { details, publishResults } : {}),
     });
   } catch (e: any) {
     console.error('[plant-care cron] Error:', e);
@@ -1,18 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { redis } from '@/lib/redis';
-
-export async function POST(req: NextRequest) {
-  try {
-    const { fid, address } = await req.json();
-    if (typeof fid !== 'number' || !address || typeof address !== 'string') {
-      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
-    }
-    if (!redis) return NextResponse.json({ success: false, error: 'Redis unavailable' }, { status: 500 });
-    await redis.set(`fidmap:${fid}`, address.toLowerCase());
-    return NextResponse.json({ success: true });
-  } catch (e: any) {
-    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
-  }
-}
-
-
+import { NextRequest, NextResponse } from 'next/server';
+import { redis } from '@/lib/redis';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+/**
+ * POST /api/notifications/map-fid
+ * Body: { fid, address } — only a Quick Auth session for that FID may link it to its wallet
+ * (Quick Auth sign-in also writes the mapping itself).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { fid, address } = await req.json();
+    if (typeof fid !== 'number' || !address || typeof address !== 'string') {
+      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+    }
+    if (!redis) return NextResponse.json({ success: false, error: 'Redis unavailable' }, { status: 500 });
+    const session = await requireSession(req, address);
+    if (session.fid !== fid) {
+      return NextResponse.json({ success: false, error: 'FID is not linked to this session' }, { status: 403 });
+    }
+    await redis.set(`fidmap:${fid}`, address.toLowerCase());
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { redis } from '@/lib/redis';
+import {
+  addressRecipient,
+  fidRecipient,
+  getNotificationPreferences,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_META,
+  saveNotificationPreferences,
+} from '@/lib/notification-rules';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const dynamic = 'force-dynamic';
+
+const categoryList = NOTIFICATION_CATEGORIES.map((id) => ({
+  id,
+  label: NOTIFICATION_CATEGORY_META[id].label,
+  description: NOTIFICATION_CATEGORY_META[id].description,
+}));
+
+/**
+ * GET /api/notifications/preferences?fid=123 | ?address=0x...
+ * Notification preferences for a Farcaster user (or a web-only wallet using delivery channels)
+ * plus the category catalog for the settings UI.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const fid = Number(searchParams.get('fid'));
+  const address = searchParams.get('address');
+  let recipient: string;
+  if (Number.isInteger(fid) && fid > 0) {
+    recipient = fidRecipient(fid);
+  } else if (address && isAddress(address)) {
+    recipient = addressRecipient(address);
+  } else {
+    return NextResponse.json({ success: false, error: 'Valid fid or address required' }, { status: 400 });
+  }
+  const preferences = await getNotificationPreferences(recipient);
+  return NextResponse.json({ success: true, preferences, categories: categoryList });
+}
+
+/**
+ * POST /api/notifications/preferences
+ * Body: { fid?, address, preferences }
+ * With a fid, the address must match the FID mapping written by /api/notifications/map-fid.
+ * Without one, preferences are stored for the wallet (delivery channels).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { fid, address, preferences } = await req.json();
+    const hasFid = fid !== undefined && fid !== null;
+    if ((hasFid && (typeof fid !== 'number' || !Number.isInteger(fid) || fid <= 0)) || typeof address !== 'string' || !isAddress(address)) {
+      return NextResponse.json({ success: false, error: 'Invalid payload' }, { status: 400 });
+    }
+    if (!redis) return NextResponse.json({ success: false, error: 'Redis unavailable' }, { status: 500 });
+
+    await requireSession(req, address);
+
+    if (hasFid) {
+      const mapped = await redis.get(`fidmap:${fid}`);
+      if (!mapped || String(mapped).toLowerCase() !== address.toLowerCase()) {
+        return NextResponse.json({ success: false, error: 'FID is not linked to this wallet' }, { status: 403 });
+      }
+    }
+
+    const recipient = hasFid ? fidRecipient(fid) : addressRecipient(address);
+    const result = await saveNotificationPreferences(recipient, preferences);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, preferences: result.preferences });
+  } catch (e: any) {
+    if (e instanceof AuthSessionError) return sessionErrorResponse(e);
+    return NextResponse.json({ success: false, error: e?.message || 'failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { SERVER_ENV } from '@/lib/env-config';
+import { confirmChannelVerification, deliverToChannel } from '@/lib/notification-channels';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function hasValidSecret(req: NextRequest): boolean {
+  const expected = SERVER_ENV.TELEGRAM_WEBHOOK_SECRET;
+  const received = req.headers.get('x-telegram-bot-api-secret-token');
+  if (!expected || !received) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * POST /api/notifications/telegram
+ * Telegram bot webhook. `/start <token>` from a private chat connects that chat to the wallet
+ * that created the token, so only the chat's owner can opt it in.
+ */
+export async function POST(req: NextRequest) {
+  if (!hasValidSecret(req)) {
+    return NextResponse.json({ ok: false }, { status: 401 });
+  }
+
+  const update = await req.json().catch(() => null);
+  const message = update?.message;
+  const match = typeof message?.text === 'string' ? /^\/start\s+([\w-]+)$/.exec(message.text.trim()) : null;
+  // Acknowledge everything else so Telegram does not redeliver it
+  if (!match || message?.chat?.type !== 'private' || message?.chat?.id === undefined) {
+    return NextResponse.json({ ok: true });
+  }
+
+  const confirmed = await confirmChannelVerification(match[1], { type: 'telegram', chatId: String(message.chat.id) });
+  if (confirmed) {
+    await deliverToChannel(confirmed.address, confirmed.channel, {
+      title: '🪴 Pixotchi connected',
+      body: 'You will get plant and game reminders in this chat.',
+      category: 'test',
+    });
+  }
+  return NextResponse.json({ ok: true });
+}
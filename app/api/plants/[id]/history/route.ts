@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enrollOwnedPlant, getPlantHistory } from '@/lib/plant-history';
+import { isValidEthereumAddressFormat } from '@/lib/utils';
+import { requireSession, AuthSessionError, sessionErrorResponse } from '@/lib/auth-session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid plant id' }, { status: 400 });
+  }
+
+  try {
+    const history = await getPlantHistory(Number(id));
+    if (!history) {
+      return NextResponse.json({ success: false, error: 'Plant not found' }, { status: 404 });
+    }
+    return NextResponse.json(
+      { success: true, history },
+      { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=60' } },
+    );
+  } catch (error) {
+    console.error('[PlantHistory] Failed to build plant history', error);
+    return NextResponse.json({ success: false, error: 'Failed to load plant history' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/plants/[id]/history
+ * Body: { address } — the plant's owner, with a wallet session, enrolls it in hourly snapshots.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) {
+    return NextResponse.json({ success: false, error: 'Invalid plant id' }, { status: 400 });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const address = body?.address;
+    if (typeof address !== 'string' || !isValidEthereumAddressFormat(address)) {
+      return NextResponse.json({ success: false, error: 'Valid wallet address is required' }, { status: 400 });
+    }
+    const session = await requireSession(req, address);
+
+    const result = await enrollOwnedPlant(Number(id), session.address);
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? NextResponse.json({ success: false, error: 'Plant not found' }, { status: 404 })
+        : NextResponse.json({ success: false, error: 'Only the owner can track this plant' }, { status: 403 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthSessionError) {
+      return sessionErrorResponse(error);
+    }
+    console.error('[PlantHistory] Failed to enroll plant', error);
+    return NextResponse.json({ success: false, error: 'Failed to track plant' }, { status: 500 });
+  }
+}
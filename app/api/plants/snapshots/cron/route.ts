@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { snapshotTrackedPlants } from '@/lib/plant-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Verify Vercel cron authorization
+function verifyVercelCron(req: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
+
+// Hourly snapshot of every plant its owner enrolled in the last 30 days
+export async function GET(req: NextRequest) {
+  if (!verifyVercelCron(req)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await snapshotTrackedPlants();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[plant-snapshots cron] failed', error);
+    return NextResponse.json({ success: false, error: error?.message || 'Snapshot run failed' }, { status: 500 });
+  }
+}
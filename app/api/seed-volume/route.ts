@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
+import { SEED_PAIR_ADDRESS } from '@/lib/contracts';
 
-const SEED_PAIR_ADDRESS = '0xaa6a81a7df94dab346e2d677225cad47220540c5';
-const DEXSCREENER_API = `https://api.dexscreener.com/latest/dex/pairs/base/${SEED_PAIR_ADDRESS}`;
+const DEXSCREENER_API = `https://api.dexscreener.com/latest/dex/pairs/base/${SEED_PAIR_ADDRESS.toLowerCase()}`;
 
 // Cache duration for volume data (5 minutes)
 const CACHE_DURATION = 5 * 60 * 1000;
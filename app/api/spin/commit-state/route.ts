@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { redis } from "@/lib/redis";
+import { requireSession, AuthSessionError, sessionErrorResponse } from "@/lib/auth-session";
 
 const KEY_PREFIX = "spin:commit";
 const EXPIRY_SECONDS = 60 * 60 * 48; // 48 hours
@@ -50,6 +51,13 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ success: false, error: "Invalid block" }, { status: 400 });
   }
 
+  try {
+    await requireSession(req, address);
+  } catch (error) {
+    if (error instanceof AuthSessionError) return sessionErrorResponse(error);
+    throw error;
+  }
+
   try {
     const key = buildKey(address, plantId);
     await redis.set(key, String(block), { ex: EXPIRY_SECONDS });
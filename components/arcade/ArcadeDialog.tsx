@@ -17,6 +17,7 @@ import { useSmartWallet } from "@/lib/smart-wallet-context";
 import { SponsoredBadge } from "@/components/paymaster-toggle";
 import { keccak256, encodePacked, toHex, hexToBytes, parseAbiItem, RpcRequestError } from "viem";
 import { useIsSolanaWallet, SolanaNotSupported } from "@/components/solana";
+import { sessionFetch } from "@/lib/session-client";
 
 type ArcadeDialogProps = {
   open: boolean;
@@ -244,7 +245,7 @@ export default function ArcadeDialog({ open, onOpenChange, plant }: ArcadeDialog
       if (!address || !plant || Number.isNaN(block) || block <= 0) return;
       setLastSeenCommitBlock((prev) => (prev !== null ? Math.max(prev, block) : block));
       try {
-        await fetch("/api/spin/commit-state", {
+        await sessionFetch("/api/spin/commit-state", {
           method: "POST",
           headers: { "content-type": "application/json" },
           body: JSON.stringify({ address, plantId: plant.id, block }),
@@ -0,0 +1,106 @@
+"use client";
+
+import React from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import PlantImage from "@/components/PlantImage";
+import { useAttackPlans } from "@/hooks/useAttackPlans";
+import { formatScore } from "@/lib/utils";
+import type { AttackPlan } from "@/lib/attack-planner";
+import type { Plant } from "@/lib/types";
+
+const formatClock = (unixSeconds: number) =>
+  new Date(unixSeconds * 1000).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+export const formatSignedPts = (score: number) => `${score >= 0 ? "+" : "-"}${formatScore(Math.abs(score))}`;
+
+export function AttackPlanSummary({ plan }: { plan: AttackPlan }) {
+  return (
+    <div className="text-xs text-muted-foreground">
+      {Math.round(plan.winProbability * 100)}% win · +{formatScore(plan.expectedGain)} / -{formatScore(plan.expectedLoss)} PTS ·{" "}
+      <span className={plan.expectedValue >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+        EV {formatSignedPts(plan.expectedValue)}
+      </span>
+    </div>
+  );
+}
+
+interface AttackPlannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  myPlants: Plant[];
+  targets: Plant[];
+  onSelect: (attackerId: number, targetId: number) => void;
+}
+
+/**
+ * Best targets across the whole leaderboard for each of the user's plants, ranked by expected PTS.
+ */
+export default function AttackPlannerDialog({ open, onOpenChange, myPlants, targets, onSelect }: AttackPlannerDialogProps) {
+  const { plans, calibration, isLoading } = useAttackPlans(myPlants, targets, open);
+  const attackers = myPlants.filter((p) => plans.has(p.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Attack planner</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="text-xs text-muted-foreground bg-muted/40 border rounded-md p-2">
+            Odds and PTS at stake come from the contract&apos;s attack formula
+            {calibration.sampleSize > 0 ? `, calibrated on ${calibration.sampleSize} verified attacks` : ""}.
+            {calibration.recentAttackerWinRate !== null && (
+              <> Attackers won {Math.round(calibration.recentAttackerWinRate * 100)}% of the last {calibration.recentAttacks} attacks.</>
+            )}
+          </div>
+
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : attackers.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                None of your plants can attack right now. Each plant can attack once every 30 minutes.
+              </div>
+            ) : (
+              attackers.map((attacker) => {
+                const best = (plans.get(attacker.id) ?? []).slice(0, 3);
+                return (
+                  <div key={attacker.id} className="rounded-md border p-2 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <PlantImage selectedPlant={attacker as any} width={28} height={28} />
+                      <div className="text-sm">
+                        <div className="font-medium">{attacker.name || `Plant #${attacker.id}`}</div>
+                        <div className="text-xs text-muted-foreground">Lvl {attacker.level} · {formatScore(attacker.score)} PTS</div>
+                      </div>
+                    </div>
+                    {best.map((plan) => {
+                      const target = targets.find((t) => t.id === plan.targetId);
+                      return (
+                        <div key={plan.targetId} className="flex items-center justify-between gap-2 border-t pt-2">
+                          <div className="min-w-0">
+                            <div className="text-sm truncate">
+                              {target?.name || `Plant #${plan.targetId}`} <span className="text-xs text-muted-foreground">Lvl {target?.level}</span>
+                            </div>
+                            <AttackPlanSummary plan={plan} />
+                            <div className="text-[10px] text-muted-foreground">
+                              Attacker rests until {formatClock(plan.attackerReadyAt)} · target shielded until {formatClock(plan.targetShieldedUntil)}
+                            </div>
+                          </div>
+                          <Button size="sm" variant="outline" onClick={() => onSelect(attacker.id, plan.targetId)}>
+                            Attack
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -32,6 +32,7 @@ import SponsoredTransaction from "@/components/transactions/sponsored-transactio
 import ApproveTransaction from "@/components/transactions/approve-transaction";
 import CasinoDialog from "@/components/transactions/CasinoDialog";
 import BlackjackDialog from "@/components/transactions/BlackjackDialog";
+import CasinoHistoryDialog from "@/components/transactions/CasinoHistoryDialog";
 import { toast } from "react-hot-toast";
 import { useWalletClient, useAccount, useBalance } from "wagmi";
 import { useTokenMetadata } from "@/hooks/useTokenMetadata";
@@ -48,6 +49,9 @@ type TokenStatsRow = {
   games: bigint;
 };
 
+const formatNet = ({ wagered, won }: TokenStatsRow, decimals: number) =>
+  won >= wagered ? `+${formatTokenAmount(won - wagered, decimals)}` : `-${formatTokenAmount(wagered - won, decimals)}`;
+
 type CasinoGameToken = {
   address: string;
   rouletteConfig: CasinoTokenConfig | null;
@@ -108,6 +112,7 @@ export default function CasinoPanel({ landId, onSpinComplete }: CasinoPanelProps
   const [error, setError] = useState<string | null>(null);
   const [casinoOpen, setCasinoOpen] = useState(false);
   const [blackjackOpen, setBlackjackOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   const selectedTokenEntry = useMemo(
     () => supportedTokens.find((entry) => entry.address.toLowerCase() === selectedToken?.toLowerCase()) ?? null,
@@ -444,6 +449,7 @@ export default function CasinoPanel({ landId, onSpinComplete }: CasinoPanelProps
               <span>Games: {stats.games.toString()}</span>
               <span>Wagered: {formatTokenAmount(stats.wagered, selectedTokenDecimals)}</span>
               <span>Won: {formatTokenAmount(stats.won, selectedTokenDecimals)}</span>
+              <span>Net: {formatNet(stats, selectedTokenDecimals)}</span>
             </div>
           )}
           {process.env.NEXT_PUBLIC_BLACKJACK_ENABLED !== "false" && bjStats && (
@@ -452,6 +458,7 @@ export default function CasinoPanel({ landId, onSpinComplete }: CasinoPanelProps
               <span>Games: {bjStats.games.toString()}</span>
               <span>Wagered: {formatTokenAmount(bjStats.wagered, selectedTokenDecimals)}</span>
               <span>Won: {formatTokenAmount(bjStats.won, selectedTokenDecimals)}</span>
+              <span>Net: {formatNet(bjStats, selectedTokenDecimals)}</span>
             </div>
           )}
         </div>
@@ -476,6 +483,10 @@ export default function CasinoPanel({ landId, onSpinComplete }: CasinoPanelProps
         )}
       </div>
 
+      <Button variant="outline" className="h-8 px-3 text-xs" onClick={() => setHistoryOpen(true)}>
+        📜 History &amp; fairness
+      </Button>
+
       {hasActiveRouletteGame && (
         <p className="text-xs text-muted-foreground">
           Active Roulette game locked to {activeRouletteSymbol || activeRouletteEntry?.address.slice(0, 6)} until revealed.
@@ -515,6 +526,12 @@ export default function CasinoPanel({ landId, onSpinComplete }: CasinoPanelProps
         onGameComplete={handleSpinComplete}
         selectedToken={selectedToken}
       />
+
+      <CasinoHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        landId={landId}
+      />
     </div>
   );
 }
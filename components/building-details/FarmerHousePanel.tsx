@@ -10,6 +10,8 @@ import { toast } from 'react-hot-toast';
 import { usePublicClient } from 'wagmi';
 import { parseUnits } from 'viem';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
+import { getQuestSlotStatus } from '@/lib/land-batch-planner';
 
 interface FarmerHousePanelProps {
   landId: bigint;
@@ -77,17 +79,7 @@ export default function FarmerHousePanel({ landId, farmerHouseLevel, onQuestUpda
     if (typeof liveBlock === 'bigint' && liveBlock > BigInt(0)) setCurrentBlock(liveBlock);
   }, [liveBlock]);
 
-  const statusOf = (s: import('@/lib/contracts').QuestSlot): string => {
-    // Until we know the current block, avoid guessing to prevent huge time estimates
-    if (currentBlock === BigInt(0)) return 'Loading';
-    const now = currentBlock;
-    if (s.coolDownBlock !== BigInt(0) && now < s.coolDownBlock) return 'Cooldown';
-    if (s.startBlock === BigInt(0)) return 'Available';
-    if (now >= s.startBlock && now <= s.endBlock) return 'In progress';
-    if (now > s.endBlock && s.pseudoRndBlock === BigInt(0)) return 'Ready to commit';
-    if (s.pseudoRndBlock !== BigInt(0)) return 'Committed';
-    return 'Available';
-  };
+  const statusOf = (s: import('@/lib/contracts').QuestSlot) => getQuestSlotStatus(s, currentBlock);
 
   const progressPct = (s: import('@/lib/contracts').QuestSlot) => {
     if (s.startBlock === BigInt(0)) return 0;
@@ -221,7 +213,7 @@ export default function FarmerHousePanel({ landId, farmerHouseLevel, onQuestUpda
                             if (txHash) {
                               payload.proof = { txHash };
                             }
-                            fetch('/api/gamification/missions', {
+                            sessionFetch('/api/gamification/missions', {
                               method: 'POST',
                               headers: { 'Content-Type': 'application/json' },
                               body: JSON.stringify(payload)
@@ -8,6 +8,7 @@ import BuildingClaimTransaction from '@/components/transactions/building-claim-t
 import { toast } from 'react-hot-toast';
 import { StandardContainer } from '@/components/ui/pixel-container';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 interface ProductionPanelProps {
   building: BuildingData;
@@ -81,7 +82,7 @@ export default function ProductionPanel({ building, landId, onClaimSuccess }: Pr
                   if (txHash) {
                     payload.proof = { txHash };
                   }
-                  fetch('/api/gamification/missions', {
+                  sessionFetch('/api/gamification/missions', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(payload)
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAccount } from 'wagmi';
+import { ToggleGroup } from '@/components/ui/toggle-group';
+import SmartWalletTransaction from '@/components/transactions/smart-wallet-transaction';
+import { useSmartWallet } from '@/lib/smart-wallet-context';
+import { Plant } from '@/lib/types';
+import { formatDuration, formatScore } from '@/lib/utils';
+import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
+import {
+  isWarehouseEligible,
+  planWarehouseBatch,
+  planWarehouseDistribution,
+  WAREHOUSE_STRATEGIES,
+  type WarehouseStrategy,
+} from '@/lib/warehouse-planner';
+
+interface WarehouseDistributionProps {
+  landId: bigint;
+  plants: Plant[];
+  warehousePoints?: bigint;
+  warehouseLifetime?: bigint;
+  onApplySuccess: () => void;
+}
+
+export default function WarehouseDistribution({
+  landId,
+  plants,
+  warehousePoints,
+  warehouseLifetime,
+  onApplySuccess,
+}: WarehouseDistributionProps) {
+  const { address } = useAccount();
+  const { isSmartWallet } = useSmartWallet();
+  const [strategy, setStrategy] = useState<WarehouseStrategy>('equalize');
+  const [focusPlantId, setFocusPlantId] = useState<number | null>(null);
+  const [showPlan, setShowPlan] = useState(false);
+  // Re-mount the transaction button after each batch so it resets
+  const [txKey, setTxKey] = useState(0);
+
+  const points = typeof warehousePoints === 'bigint' ? warehousePoints : BigInt(0);
+  const lifetime = typeof warehouseLifetime === 'bigint' ? warehouseLifetime : BigInt(0);
+  const eligiblePlants = useMemo(() => plants.filter((p) => isWarehouseEligible(p)), [plants]);
+
+  const allocations = useMemo(
+    () => planWarehouseDistribution({ plants, points, lifetime, strategy, focusPlantId }),
+    [plants, points, lifetime, strategy, focusPlantId]
+  );
+
+  // Large plans go out in several gas-bounded batches; allocations are ordered most urgent first
+  const { batch, calls, totalBatches } = useMemo(() => planWarehouseBatch(landId, allocations), [allocations, landId]);
+
+  if (eligiblePlants.length < 2 || (points === BigInt(0) && lifetime === BigInt(0))) return null;
+
+  const plantName = (id: number) => plants.find((p) => p.id === id)?.name || `Plant #${id}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border">
+      <h4 className="font-semibold text-sm text-center">Distribute Across Plants</h4>
+      <ToggleGroup
+        value={strategy}
+        onValueChange={(v) => setStrategy(v as WarehouseStrategy)}
+        options={WAREHOUSE_STRATEGIES.map(({ value, label }) => ({ value, label }))}
+        className="w-full"
+      />
+      <p className="text-xs text-muted-foreground text-center">
+        {WAREHOUSE_STRATEGIES.find((s) => s.value === strategy)?.description}
+      </p>
+
+      {strategy === 'focus_pts' && (
+        <select
+          className="w-full h-9 rounded-md border border-border bg-background px-2 text-sm"
+          value={focusPlantId ?? ''}
+          onChange={(e) => setFocusPlantId(e.target.value ? Number(e.target.value) : null)}
+        >
+          <option value="">Highest score plant</option>
+          {eligiblePlants.map((p) => (
+            <option key={p.id} value={p.id}>{p.name || `Plant #${p.id}`} (#{p.id})</option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">
+          {allocations.length} plant{allocations.length === 1 ? '' : 's'} • {calls.length} call{calls.length === 1 ? '' : 's'}
+        </span>
+        <button type="button" className="underline text-muted-foreground" onClick={() => setShowPlan((v) => !v)}>
+          {showPlan ? 'Hide plan' : 'Show plan'}
+        </button>
+      </div>
+
+      {showPlan && (
+        <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border text-xs">
+          {allocations.map((a) => (
+            <div key={a.plantId} className="flex items-center justify-between gap-2 px-2 py-1.5">
+              <span className="truncate">{plantName(a.plantId)}</span>
+              <span className="whitespace-nowrap text-muted-foreground">
+                {a.points > BigInt(0) && <>+{formatScore(Number(a.points))} PTS </>}
+                {a.lifetime > BigInt(0) && <>+{formatDuration(Number(a.lifetime))} → {formatDuration(Math.max(0, a.projectedTod - now))}</>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalBatches > 1 && (
+        <p className="text-xs text-muted-foreground text-center">
+          Large plan: this batch covers the {batch.length} most urgent plants; the rest is re-planned after it lands.
+        </p>
+      )}
+
+      {!isSmartWallet ? (
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <Lock className="w-3 h-3" />
+          Batch distribution needs a smart wallet
+        </div>
+      ) : (
+        <SmartWalletTransaction
+          key={txKey}
+          calls={calls}
+          buttonText={`Distribute to ${batch.length} plants`}
+          buttonClassName="w-full h-9 text-sm"
+          disabled={calls.length === 0}
+          onSuccess={(tx) => {
+            toast.success(`Warehouse distributed to ${batch.length} plants`);
+            setTxKey((k) => k + 1);
+            onApplySuccess();
+            try { window.dispatchEvent(new Event('buildings:refresh')); } catch {}
+            try {
+              const payload: Record<string, unknown> = { address, taskId: 's3_apply_resources' };
+              const txHash = extractTransactionHash(tx);
+              if (txHash) {
+                payload.proof = { txHash };
+              }
+              sessionFetch('/api/gamification/missions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload)
+              });
+            } catch {}
+          }}
+          onError={(e) => toast.error(`Distribution failed: ${e?.message || e}`)}
+        />
+      )}
+    </div>
+  );
+}
@@ -9,10 +9,12 @@ import { getPlantsByOwner } from '@/lib/contracts';
 import PlantImage from '@/components/PlantImage';
 import { ChevronDown } from 'lucide-react';
 import WarehouseApplyTransaction from '@/components/transactions/warehouse-apply-transaction';
+import WarehouseDistribution from './WarehouseDistribution';
 import { toast } from 'react-hot-toast';
 import CountdownTimer from '@/components/countdown-timer';
 import { Plant } from '@/lib/types';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 interface WarehousePanelProps {
   landId: bigint;
@@ -188,7 +190,7 @@ export default function WarehousePanel({
               if (txHash) {
                 payload.proof = { txHash };
               }
-              fetch('/api/gamification/missions', {
+              sessionFetch('/api/gamification/missions', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(payload)
@@ -239,7 +241,7 @@ export default function WarehousePanel({
               if (txHash) {
                 payload.proof = { txHash };
               }
-              fetch('/api/gamification/missions', {
+              sessionFetch('/api/gamification/missions', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(payload)
@@ -250,6 +252,14 @@ export default function WarehousePanel({
         />
       </div>
       <p className="text-xs text-muted-foreground text-center">PTS up to 4 decimals. TOD input is minutes; converted to seconds onchain.</p>
+
+      <WarehouseDistribution
+        landId={landId}
+        plants={plants}
+        warehousePoints={warehousePoints}
+        warehouseLifetime={warehouseLifetime}
+        onApplySuccess={onApplySuccess}
+      />
     </div>
   );
 }
@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup } from '@/components/ui/toggle-group';
+import { getAllGardenItems, getAllShopItems } from '@/lib/contracts';
+import type { AutopilotConfig, AutopilotLogEntry, AutopilotRule } from '@/lib/autopilot-service';
+import { sessionFetch } from '@/lib/session-client';
+
+type ItemOption = { kind: 'shop' | 'garden'; id: string; name: string };
+
+const EMPTY_CONFIG: AutopilotConfig = { enabled: false, dryRun: true, rules: [], updatedAt: 0 };
+
+const describeRule = (rule: AutopilotRule, items: ItemOption[]) => {
+  if (rule.type === 'feed_below') {
+    const item = items.find((i) => i.kind === rule.itemKind && i.id === rule.itemId);
+    const scope = rule.plantIds && rule.plantIds.length > 0 ? `plants ${rule.plantIds.map((id) => `#${id}`).join(', ')}` : 'any plant';
+    return `Buy ${item?.name || `${rule.itemKind} item ${rule.itemId}`} when ${scope} drops below ${rule.thresholdHours}h`;
+  }
+  return `Keep Fence V2 on plant #${rule.plantId} (renew ${rule.days}d when under ${rule.renewBelowHours}h)`;
+};
+
+export default function AgentAutopilotPanel() {
+  const { address } = useAccount();
+  const [config, setConfig] = useState<AutopilotConfig>(EMPTY_CONFIG);
+  const [log, setLog] = useState<AutopilotLogEntry[]>([]);
+  const [items, setItems] = useState<ItemOption[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+
+  const [ruleType, setRuleType] = useState<'feed_below' | 'keep_fence'>('feed_below');
+  const [itemKey, setItemKey] = useState('');
+  const [thresholdHours, setThresholdHours] = useState('6');
+  const [plantIdsInput, setPlantIdsInput] = useState('');
+  const [fenceDays, setFenceDays] = useState('3');
+
+  const refresh = async () => {
+    if (!address) return;
+    try {
+      const data = await sessionFetch(`/api/agent/autopilot?address=${address}&limit=20`).then(r => r.json()).catch(() => null);
+      if (data?.config) setConfig(data.config);
+      setLog(Array.isArray(data?.log) ? data.log : []);
+    } catch {}
+  };
+
+  useEffect(() => { refresh(); }, [address]);
+
+  useEffect(() => {
+    if (!expanded || items.length > 0) return;
+    (async () => {
+      try {
+        const [shop, garden] = await Promise.all([getAllShopItems(), getAllGardenItems()]);
+        setItems([
+          ...shop.map((i) => ({ kind: 'shop' as const, id: String(i.id), name: i.name })),
+          ...garden.map((i) => ({ kind: 'garden' as const, id: String(i.id), name: i.name })),
+        ]);
+      } catch {}
+    })();
+  }, [expanded, items.length]);
+
+  const save = async (next: AutopilotConfig) => {
+    if (!address) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await sessionFetch('/api/agent/autopilot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address, enabled: next.enabled, dryRun: next.dryRun, rules: next.rules }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.success) {
+        setError(data?.error || 'Failed to save autopilot rules');
+        return;
+      }
+      setConfig(data.config);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const parsePlantIds = () =>
+    plantIdsInput
+      .split(/[\s,]+/)
+      .map((s) => s.replace('#', '').trim())
+      .filter(Boolean)
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n >= 0);
+
+  const addRule = async () => {
+    const plantIds = parsePlantIds();
+    let rule: AutopilotRule;
+    if (ruleType === 'feed_below') {
+      const item = items.find((i) => `${i.kind}:${i.id}` === itemKey);
+      if (!item) { setError('Pick an item to buy'); return; }
+      rule = {
+        id: '',
+        type: 'feed_below',
+        enabled: true,
+        thresholdHours: Number(thresholdHours) || 6,
+        itemKind: item.kind,
+        itemId: item.id,
+        ...(plantIds.length > 0 ? { plantIds } : {}),
+      };
+    } else {
+      if (plantIds.length !== 1) { setError('Enter exactly one plant id for a fence rule'); return; }
+      rule = { id: '', type: 'keep_fence', enabled: true, plantId: plantIds[0], days: Number(fenceDays) || 3, renewBelowHours: 12 };
+    }
+    await save({ ...config, rules: [...config.rules, rule] });
+    setPlantIdsInput('');
+  };
+
+  const runPreview = async () => {
+    if (!address) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await sessionFetch('/api/agent/autopilot/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address }),
+      }).then(r => r.json()).catch(() => null);
+      if (!data?.success) setError(data?.error || 'Preview failed');
+      setLog(Array.isArray(data?.log) ? data.log : log);
+      setShowLog(true);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!address) return null;
+
+  const activeRules = config.rules.filter((r) => r.enabled).length;
+
+  return (
+    <div className="px-3 mt-2">
+      <div className="rounded-md border border-border bg-muted/40 px-2 py-2 text-xs text-muted-foreground">
+        <div className="flex items-center justify-between gap-2">
+          <div className="truncate">
+            <span className="text-foreground">Autopilot:</span>{' '}
+            {config.enabled
+              ? `${activeRules} rule${activeRules === 1 ? '' : 's'} active${config.dryRun ? ' (dry run)' : ''}`
+              : 'off'}
+          </div>
+          <div className="flex items-center gap-1">
+            <Button size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact" disabled={busy}
+              onClick={() => save({ ...config, enabled: !config.enabled })}>
+              {config.enabled ? 'Turn off' : 'Turn on'}
+            </Button>
+            <Button size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact" onClick={() => setExpanded(v => !v)}>
+              {expanded ? 'Hide' : 'Rules'}
+            </Button>
+          </div>
+        </div>
+
+        {expanded && (
+          <div className="mt-2 border-t border-border pt-2 space-y-2">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={config.dryRun} disabled={busy}
+                onChange={(e) => save({ ...config, dryRun: e.target.checked })} />
+              <span>Dry run (log what would happen, spend nothing)</span>
+            </label>
+
+            {config.rules.length > 0 ? (
+              <ul className="space-y-1">
+                {config.rules.map((rule) => (
+                  <li key={rule.id} className="flex items-center justify-between gap-2">
+                    <span className={rule.enabled ? 'text-foreground' : 'line-through'}>{describeRule(rule, items)}</span>
+                    <span className="flex items-center gap-2 whitespace-nowrap">
+                      <button type="button" className="underline" disabled={busy}
+                        onClick={() => save({ ...config, rules: config.rules.map((r) => r.id === rule.id ? { ...r, enabled: !r.enabled } : r) })}>
+                        {rule.enabled ? 'Pause' : 'Resume'}
+                      </button>
+                      <button type="button" className="underline" disabled={busy}
+                        onClick={() => save({ ...config, rules: config.rules.filter((r) => r.id !== rule.id) })}>
+                        Remove
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div>No rules yet.</div>
+            )}
+
+            <div className="space-y-1">
+              <ToggleGroup
+                value={ruleType}
+                onValueChange={(v) => setRuleType(v as any)}
+                options={[
+                  { value: 'feed_below', label: 'Feed' },
+                  { value: 'keep_fence', label: 'Fence' },
+                ]}
+              />
+              {ruleType === 'feed_below' ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <select value={itemKey} onChange={(e) => setItemKey(e.target.value)} className="h-8 rounded-md border border-border bg-background px-2 text-xs">
+                    <option value="">Item…</option>
+                    {items.map((i) => (
+                      <option key={`${i.kind}:${i.id}`} value={`${i.kind}:${i.id}`}>{i.name} ({i.kind})</option>
+                    ))}
+                  </select>
+                  <Input value={thresholdHours} onChange={(e) => setThresholdHours(e.target.value)} placeholder="Below hours" className="h-8 w-24 text-xs" />
+                  <Input value={plantIdsInput} onChange={(e) => setPlantIdsInput(e.target.value)} placeholder="Plant ids (blank = all)" className="h-8 w-40 text-xs" />
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input value={plantIdsInput} onChange={(e) => setPlantIdsInput(e.target.value)} placeholder="Plant id" className="h-8 w-24 text-xs" />
+                  <Input value={fenceDays} onChange={(e) => setFenceDays(e.target.value)} placeholder="Days" className="h-8 w-20 text-xs" />
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                <Button size="sm" className="px-2 py-0.5 text-xs leading-none btn-compact" disabled={busy} onClick={addRule}>Add rule</Button>
+                <Button size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact" disabled={busy || config.rules.length === 0} onClick={runPreview}>Preview</Button>
+              </div>
+            </div>
+
+            {error && <div className="text-red-600 dark:text-red-400">{error}</div>}
+
+            {log.length > 0 && (
+              <div>
+                <button type="button" className="underline" onClick={() => setShowLog(v => !v)}>
+                  {showLog ? 'Hide log' : `Show log (${log.length})`}
+                </button>
+                {showLog && (
+                  <ul className="mt-1 space-y-0.5">
+                    {log.map((entry) => (
+                      <li key={entry.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          {new Date(entry.timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {entry.status.replace('_', ' ')} · {entry.message}
+                        </span>
+                        <span className="whitespace-nowrap">
+                          {entry.txHash ? (
+                            <a href={`https://basescan.org/tx/${entry.txHash}`} target="_blank" rel="noopener noreferrer" className="underline">
+                              {entry.seedCost} SEED
+                            </a>
+                          ) : (
+                            <>{entry.seedCost} SEED</>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
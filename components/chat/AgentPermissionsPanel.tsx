@@ -10,6 +10,7 @@ import { PIXOTCHI_TOKEN_ADDRESS } from '@/lib/contracts';
 import { createPublicClient, parseUnits } from 'viem';
 import { base as baseChain } from 'viem/chains';
 import { createResilientTransport } from '@/lib/rpc-transport';
+import { sessionFetch } from '@/lib/session-client';
 
 type PermissionSummary = { 
   token?: string; 
@@ -20,6 +21,23 @@ type PermissionSummary = {
   permissionHash?: string;
 };
 
+type LedgerEntry = {
+  id: string;
+  amount: string;
+  txHash: string | null;
+  tool: string;
+  summary: string;
+  timestamp: number;
+};
+
+type LedgerTotals = {
+  spentToday: string;
+  dailyCapSeed: number;
+  spentPeriod: string;
+  periodCapSeed: number;
+  periodDays: number;
+};
+
 export default function AgentPermissionsPanel() {
   const { address } = useAccount();
   const [loading, setLoading] = useState(false);
@@ -30,6 +48,9 @@ export default function AgentPermissionsPanel() {
   const [remaining, setRemaining] = useState<bigint | null>(null);
   const [periodSeconds, setPeriodSeconds] = useState<number | null>(null);
   const [allowanceInput, setAllowanceInput] = useState<string>('');
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [ledgerTotals, setLedgerTotals] = useState<LedgerTotals | null>(null);
+  const [showLedger, setShowLedger] = useState(false);
   
   // Minimal ERC-20 ABI for decimals
   const erc20Abi = [{
@@ -54,6 +75,9 @@ export default function AgentPermissionsPanel() {
     if (!address) return;
     setLoading(true);
     try {
+      const ledger = await sessionFetch(`/api/agent/ledger/history?address=${address}&limit=10`).then(r => r.json()).catch(() => null);
+      setLedgerEntries(Array.isArray(ledger?.entries) ? ledger.entries : []);
+      setLedgerTotals(ledger?.totals || null);
       const conf = await fetch('/api/agent/config').then(r => r.json()).catch(() => null);
       setAgentReady(Boolean(conf?.agentConfigured));
       const wallet = await fetch('/api/agent/wallet', { method: 'GET' }).then(r => r.json()).catch(() => null);
@@ -115,6 +139,11 @@ export default function AgentPermissionsPanel() {
     return `${h}h ${m}m ${sec}s`;
   })();
 
+  const formatSeedAmount = (value: string | number) => {
+    const n = Number(value);
+    return Number.isFinite(n) ? n.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0';
+  };
+
   const allowanceDisplay = summary?.allowanceFormatted
     ? `${summary.allowanceFormatted} ${summary.tokenSymbol || 'SEED'}/day`
     : `0 ${summary?.tokenSymbol || 'SEED'}/day`;
@@ -175,6 +204,44 @@ export default function AgentPermissionsPanel() {
           </div>
         </div>
 
+        {ledgerTotals && (
+          <div className="mt-2 border-t border-border pt-2 text-xs text-muted-foreground">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-foreground">
+                  Spent {formatSeedAmount(ledgerTotals.spentPeriod)} of {formatSeedAmount(ledgerTotals.periodCapSeed)} SEED this period ({ledgerTotals.periodDays}d)
+                </span>
+                <span>Today: {formatSeedAmount(ledgerTotals.spentToday)} / {formatSeedAmount(ledgerTotals.dailyCapSeed)} SEED</span>
+              </div>
+              {ledgerEntries.length > 0 && (
+                <button type="button" className="underline" onClick={() => setShowLedger(v => !v)}>
+                  {showLedger ? 'Hide actions' : `Show actions (${ledgerEntries.length})`}
+                </button>
+              )}
+            </div>
+            {showLedger && (
+              <ul className="mt-1 space-y-0.5">
+                {ledgerEntries.map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      {new Date(entry.timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {entry.summary}
+                    </span>
+                    <span className="whitespace-nowrap">
+                      {entry.txHash ? (
+                        <a href={`https://basescan.org/tx/${entry.txHash}`} target="_blank" rel="noopener noreferrer" className="underline">
+                          {formatSeedAmount(entry.amount)} SEED
+                        </a>
+                      ) : (
+                        <>{formatSeedAmount(entry.amount)} SEED</>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {!summary && agentReady && (
           <div className="mt-2 flex items-center gap-2">
             <Input
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { AIConversation } from '@/lib/types';
+import { sessionFetch } from '@/lib/session-client';
+import { useChat } from './chat-context';
+import AIMemoryPanel from './ai-memory-panel';
+
+const compactButton = 'px-2 py-0.5 text-xs leading-none btn-compact';
+
+/** Neural Seed conversation picker with new, rename, delete and export actions. */
+export default function AIConversationsBar() {
+  const { chatAddress, conversationId, setConversationId, isSending } = useChat();
+  const [conversations, setConversations] = useState<AIConversation[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState('');
+  const [showMemory, setShowMemory] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!chatAddress) return;
+    try {
+      const data = await sessionFetch(`/api/chat/ai/conversations?address=${chatAddress}`).then(r => r.json());
+      setConversations(Array.isArray(data?.conversations) ? data.conversations : []);
+    } catch {}
+  }, [chatAddress]);
+
+  // Reload after every exchange so new conversations and auto-titles show up
+  useEffect(() => {
+    if (!isSending) refresh();
+  }, [refresh, isSending, conversationId]);
+
+  const run = async (action: () => Promise<Response>, onSuccess?: (data: any) => void) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await action();
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.success) {
+        setError(data?.error || 'Something went wrong');
+        return;
+      }
+      onSuccess?.(data);
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!chatAddress) return null;
+
+  const current = conversations.find((c) => c.id === conversationId) ?? null;
+
+  const create = () =>
+    run(
+      () => sessionFetch('/api/chat/ai/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: chatAddress }),
+      }),
+      (data) => setConversationId(data.conversation.id)
+    );
+
+  const rename = () =>
+    run(
+      () => sessionFetch('/api/chat/ai/conversations', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: chatAddress, conversationId, title }),
+      }),
+      () => setRenaming(false)
+    );
+
+  const remove = () => {
+    if (!current || !window.confirm(`Delete "${current.title}"? This can't be undone.`)) return;
+    run(
+      () => sessionFetch(`/api/chat/ai/conversations?address=${chatAddress}&conversationId=${current.id}`, { method: 'DELETE' }),
+      () => setConversationId(null)
+    );
+  };
+
+  const exportConversation = async (format: 'json' | 'markdown') => {
+    if (!current) return;
+    setError(null);
+    const res = await sessionFetch(`/api/chat/ai/conversations/export?address=${chatAddress}&conversationId=${current.id}&format=${format}`);
+    if (!res.ok) {
+      setError('Failed to export conversation');
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `neural-seed-${current.id}.${format === 'markdown' ? 'md' : 'json'}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="px-3 mt-2">
+      <div className="rounded-md border border-border bg-muted/40 px-2 py-2 text-xs text-muted-foreground space-y-2">
+        {renaming ? (
+          <div className="flex items-center gap-1">
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={60} className="h-7 text-xs" autoFocus />
+            <Button size="sm" variant="outline" className={compactButton} disabled={busy || !title.trim()} onClick={rename}>Save</Button>
+            <Button size="sm" variant="outline" className={compactButton} onClick={() => setRenaming(false)}>Cancel</Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            <select
+              className="min-w-0 flex-1 rounded-md border border-border bg-background px-1 py-1 text-xs text-foreground"
+              value={conversationId ?? ''}
+              disabled={busy || isSending}
+              onChange={(e) => setConversationId(e.target.value || null)}
+            >
+              {!current && <option value="">{conversationId ? 'Current conversation' : 'New conversation'}</option>}
+              {conversations.map((c) => (
+                <option key={c.id} value={c.id}>{c.title}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" className={compactButton} disabled={busy || isSending} onClick={create}>New</Button>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          {current && !renaming && (
+            <>
+              <button type="button" className="underline" disabled={busy} onClick={() => { setTitle(current.title); setRenaming(true); }}>Rename</button>
+              <button type="button" className="underline" disabled={busy || isSending} onClick={remove}>Delete</button>
+              <button type="button" className="underline" onClick={() => exportConversation('markdown')}>Export .md</button>
+              <button type="button" className="underline" onClick={() => exportConversation('json')}>Export .json</button>
+            </>
+          )}
+          <button type="button" className="underline ml-auto" onClick={() => setShowMemory(v => !v)}>
+            {showMemory ? 'Hide memory' : 'Memory'}
+          </button>
+        </div>
+        {showMemory && <AIMemoryPanel address={chatAddress} />}
+        {error && <div className="text-destructive">{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { AIMemoryCategory, AIPlayerMemory } from '@/lib/types';
+import { sessionFetch } from '@/lib/session-client';
+
+const CATEGORY_LABELS: Record<AIMemoryCategory, string> = {
+  strain: 'Strain',
+  timezone: 'Timezone',
+  goal: 'Goal',
+  preference: 'Preference',
+  other: 'Note',
+};
+
+const EMPTY_MEMORY: AIPlayerMemory = { enabled: false, facts: [], updatedAt: 0 };
+
+/** Opt-in toggle and list of what Neural Seed remembers about the connected player. */
+export default function AIMemoryPanel({ address }: { address: string }) {
+  const [memory, setMemory] = useState<AIPlayerMemory>(EMPTY_MEMORY);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+    sessionFetch(`/api/chat/ai/memory?address=${address}`)
+      .then(r => r.json())
+      .then((data) => {
+        if (cancelled) return;
+        if (data?.memory) setMemory(data.memory);
+        setLoaded(true);
+      })
+      .catch(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, [address]);
+
+  const update = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await sessionFetch(url, init);
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.success) {
+        setError(data?.error || 'Failed to update memory');
+        return;
+      }
+      setMemory(data.memory);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setEnabled = (enabled: boolean) =>
+    update('/api/chat/ai/memory', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address, enabled }),
+    });
+
+  const forget = (factId?: string) =>
+    update(`/api/chat/ai/memory?address=${address}${factId ? `&factId=${encodeURIComponent(factId)}` : ''}`, { method: 'DELETE' });
+
+  if (!loaded) return null;
+
+  return (
+    <div className="rounded-md border border-border bg-muted/40 px-2 py-2 text-xs text-muted-foreground space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <span className="text-foreground">Neural Seed memory:</span> {memory.enabled ? 'on' : 'off'}
+        </div>
+        <Button size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact" disabled={busy}
+          onClick={() => setEnabled(!memory.enabled)}>
+          {memory.enabled ? 'Turn off' : 'Turn on'}
+        </Button>
+      </div>
+      {!memory.enabled ? (
+        <div>When on, Neural Seed remembers things you tell it (your favourite strain, timezone, goals) across conversations. Turning it off forgets everything.</div>
+      ) : memory.facts.length > 0 ? (
+        <>
+          <ul className="space-y-1">
+            {memory.facts.map((fact) => (
+              <li key={fact.id} className="flex items-center justify-between gap-2">
+                <span><span className="text-foreground">{CATEGORY_LABELS[fact.category]}:</span> {fact.text}</span>
+                <button type="button" className="underline whitespace-nowrap" disabled={busy} onClick={() => forget(fact.id)}>
+                  Forget
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button type="button" className="underline" disabled={busy} onClick={() => forget()}>
+            Clear all
+          </button>
+        </>
+      ) : (
+        <div>Nothing remembered yet.</div>
+      )}
+      {error && <div className="text-destructive">{error}</div>}
+    </div>
+  );
+}
@@ -2,12 +2,12 @@
 
 import { Bot } from "lucide-react";
 
-export default function AITypingIndicator() {
+export default function AITypingIndicator({ label }: { label?: string | null }) {
   return (
     <div className="flex items-center gap-2 text-muted-foreground">
       <div className="flex items-center gap-2 bg-muted rounded-lg px-3 py-2">
         <Bot className="w-4 h-4" />
-        <span className="text-sm">Neural Seed is typing</span>
+        <span className="text-sm">{label || 'Neural Seed is typing'}</span>
         <div className="flex gap-1">
           <div className="w-1 h-1 bg-current rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
           <div className="w-1 h-1 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
@@ -1,16 +1,50 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react';
-import { AIChatMessage, ChatMessage, ChatMode } from '@/lib/types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode, useRef } from 'react';
+import { AIChatMessage, AIStreamEvent, ChatMessage, ChatMode } from '@/lib/types';
 import { useAccount } from 'wagmi';
 import toast from 'react-hot-toast';
 import { PIXOTCHI_TOKEN_ADDRESS } from '@/lib/contracts';
 import { PLANT_STRAINS } from '@/lib/constants';
+import { ChatRoom, GLOBAL_ROOM, guildRoomId, normalizeGuildSlug, parseRoomId } from '@/lib/chat-rooms';
 import { useIsSolanaWallet, useSolanaWallet } from '@/components/solana';
+import { sessionFetch } from '@/lib/session-client';
 
 // Combined message type for simplicity in the context
 type AnyChatMessage = ChatMessage | AIChatMessage;
 
+// Shown while Neural Seed waits on a tool call
+const AI_TOOL_LABELS: Record<string, string> = {
+  get_player_overview: 'Reviewing your account',
+  get_plant_details: 'Checking your plants',
+  get_land_buildings: 'Checking your lands',
+  get_fence_quote: 'Getting a fence quote',
+  get_marketplace_orders: 'Reading the marketplace',
+  get_stake_info: 'Checking your stake',
+  get_leaderboard_rank: 'Looking up rankings',
+  remember_player_fact: 'Saving to memory',
+};
+
+// Read a newline-delimited JSON stream, calling onEvent for every complete line
+async function readAIStream(body: ReadableStream<Uint8Array>, onEvent: (event: AIStreamEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (; ;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        onEvent(JSON.parse(line) as AIStreamEvent);
+      } catch { }
+    }
+    if (done) break;
+  }
+}
+
 interface ChatContextState {
   messages: AnyChatMessage[];
   loading: boolean;
@@ -19,13 +53,52 @@ interface ChatContextState {
   setMode: (mode: ChatMode) => void;
   sendMessage: (message: string) => Promise<void>;
   isSending: boolean;
+  /** Wallet the chat acts for (EVM or the Solana bridge's twin) */
+  chatAddress: string | undefined;
   conversationId: string | null;
   setConversationId: (id: string | null) => void;
   isAITyping: boolean;
+  /** What Neural Seed is looking up right now, while it calls tools */
+  aiToolStatus: string | null;
   unreadCount: number;
   markAsRead: () => void;
+  // Public chat rooms, threads and history
+  room: string;
+  rooms: ChatRoom[];
+  setRoom: (room: string) => void;
+  joinGuild: (name: string) => boolean;
+  replyTo: ChatMessage | null;
+  setReplyTo: (message: ChatMessage | null) => void;
+  editingMessage: ChatMessage | null;
+  setEditingMessage: (message: ChatMessage | null) => void;
+  editMessage: (messageId: string, text: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  thread: { root: ChatMessage; replies: ChatMessage[] } | null;
+  openThread: (rootId: string) => Promise<void>;
+  closeThread: () => void;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  loadOlder: () => Promise<void>;
 }
 
+const GUILDS_STORAGE_KEY = 'chat-guilds';
+
+// Merge a fresh page into the loaded history without dropping older pages
+function mergeById<T extends { id: string; timestamp: number }>(existing: T[], incoming: T[]): T[] {
+  const byId = new Map(existing.map((m) => [m.id, m]));
+  incoming.forEach((m) => byId.set(m.id, m));
+  return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const readJoinedGuilds = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GUILDS_STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((id) => parseRoomId(String(id))?.kind === 'guild') : [];
+  } catch {
+    return [];
+  }
+};
+
 const ChatContext = createContext<ChatContextState | undefined>(undefined);
 
 export function ChatProvider({ children }: { children: ReactNode }) {
@@ -40,6 +113,16 @@ export function ChatProvider({ children }: { children: ReactNode }) {
   const [mode, setModeState] = useState<ChatMode>('public');
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [isAITyping, setIsAITyping] = useState(false);
+  const [aiToolStatus, setAIToolStatus] = useState<string | null>(null);
+  const [room, setRoomState] = useState<string>(GLOBAL_ROOM);
+  const [memberRooms, setMemberRooms] = useState<ChatRoom[]>([]);
+  const [joinedGuilds, setJoinedGuilds] = useState<string[]>([]);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [thread, setThread] = useState<{ root: ChatMessage; replies: ChatMessage[] } | null>(null);
+  const [olderCursor, setOlderCursor] = useState<number | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const roomRef = useRef<string>(GLOBAL_ROOM);
 
   // Cache messages per mode so switching tabs doesn't bleed content across modes
   const messageCacheRef = useRef<{ public: AnyChatMessage[]; ai: AnyChatMessage[]; agent: AnyChatMessage[] }>({ public: [], ai: [], agent: [] });
@@ -92,6 +175,69 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     modeRef.current = mode;
   }, [mode]);
 
+  // Restore the last public room and the guilds joined on this device
+  useEffect(() => {
+    const savedRoom = localStorage.getItem('chat-room');
+    if (savedRoom && parseRoomId(savedRoom)) {
+      roomRef.current = savedRoom;
+      setRoomState(savedRoom);
+    }
+    setJoinedGuilds(readJoinedGuilds());
+  }, []);
+
+  // Strain and neighborhood rooms depend on the wallet's plants and lands
+  useEffect(() => {
+    if (!chatAddress) {
+      setMemberRooms([]);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/chat/rooms?address=${chatAddress}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.rooms)) setMemberRooms(data.rooms);
+      })
+      .catch(() => { });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatAddress]);
+
+  const rooms = useMemo(() => {
+    const ids = [GLOBAL_ROOM, ...memberRooms.map((r) => r.id), ...joinedGuilds];
+    // Keep the current room listed even if the wallet no longer qualifies (it can still read it)
+    if (!ids.includes(room)) ids.push(room);
+    return Array.from(new Set(ids))
+      .map((id) => parseRoomId(id))
+      .filter((r): r is ChatRoom => Boolean(r));
+  }, [memberRooms, joinedGuilds, room]);
+
+  const setRoom = useCallback((next: string) => {
+    if (!parseRoomId(next) || next === roomRef.current) return;
+    roomRef.current = next;
+    localStorage.setItem('chat-room', next);
+    setRoomState(next);
+    setReplyTo(null);
+    setEditingMessage(null);
+    setThread(null);
+    setOlderCursor(null);
+    messageCacheRef.current.public = [];
+    if (modeRef.current === 'public') setMessages([]);
+  }, []);
+
+  const joinGuild = useCallback((name: string) => {
+    const slug = normalizeGuildSlug(name);
+    if (!slug) return false;
+    const id = guildRoomId(slug);
+    setJoinedGuilds((prev) => {
+      const next = prev.includes(id) ? prev : [...prev, id];
+      try { localStorage.setItem(GUILDS_STORAGE_KEY, JSON.stringify(next)); } catch { }
+      return next;
+    });
+    setRoom(id);
+    return true;
+  }, [setRoom]);
+
   // Persist agent-mode messages to localStorage
   useEffect(() => {
     try {
@@ -165,16 +311,25 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
     try {
       if (requestedMode === 'public') {
-        // Fetch public messages using the API endpoint like the original
-        const response = await fetch('/api/chat/messages?limit=50');
+        // Latest page of the current room; older pages are loaded on demand and kept across polls
+        const requestedRoom = roomRef.current;
+        const response = await fetch(`/api/chat/messages?limit=50&room=${encodeURIComponent(requestedRoom)}`);
         if (!response.ok) {
           throw new Error('Failed to fetch messages');
         }
         const data = await response.json();
-        if (modeRef.current !== requestedMode) return; // ignore stale result after tab switch
-        const next = data.messages || [];
-        setMessages(next);
-        messageCacheRef.current.public = next;
+        // ignore stale result after tab or room switch
+        if (modeRef.current !== requestedMode || roomRef.current !== requestedRoom) return;
+        const page: ChatMessage[] = data.messages || [];
+        setMessages(prev => {
+          const next = mergeById(prev, page);
+          messageCacheRef.current.public = next;
+          return next;
+        });
+        setThread(prev => prev
+          ? { ...prev, replies: mergeById(prev.replies, page.filter(m => m.threadId === prev.root.id)) }
+          : prev);
+        if (showLoading) setOlderCursor(data.nextCursor ?? null);
       } else if (requestedMode === 'ai' && chatAddress) {
         // Fetch AI messages using the API endpoint like the original
         const params = new URLSearchParams({
@@ -186,7 +341,12 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           params.append('conversationId', conversationId);
         }
 
-        const response = await fetch(`/api/chat/ai/messages?${params}`);
+        const response = await sessionFetch(`/api/chat/ai/messages?${params}`);
+        if (response.status === 404 && conversationId) {
+          // The conversation was deleted or expired; fall back to the active one
+          setConversationId(null);
+          return;
+        }
         if (!response.ok) {
           throw new Error('Failed to fetch AI messages');
         }
@@ -211,7 +371,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     } finally {
       if (showLoading) setLoading(false);
     }
-  }, [mode, conversationId, chatAddress]);
+  }, [mode, room, conversationId, chatAddress]);
 
   // Original behavior: set up polling regardless of dialog visibility
   useEffect(() => {
@@ -240,6 +400,108 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     }
   }, [mode, chatAddress, fetchHistory]);
 
+  const loadOlder = useCallback(async () => {
+    if (olderCursor === null || loadingOlder) return;
+    const requestedRoom = roomRef.current;
+    setLoadingOlder(true);
+    try {
+      const response = await fetch(
+        `/api/chat/messages?limit=50&room=${encodeURIComponent(requestedRoom)}&before=${olderCursor}`
+      );
+      if (!response.ok) {
+        throw new Error('Failed to load older messages');
+      }
+      const data = await response.json();
+      if (modeRef.current !== 'public' || roomRef.current !== requestedRoom) return;
+      setMessages(prev => {
+        const next = mergeById(prev, (data.messages || []) as AnyChatMessage[]);
+        messageCacheRef.current.public = next;
+        return next;
+      });
+      setOlderCursor(data.nextCursor ?? null);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load older messages');
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [olderCursor, loadingOlder]);
+
+  const openThread = useCallback(async (rootId: string) => {
+    try {
+      const response = await fetch(`/api/chat/messages?thread=${encodeURIComponent(rootId)}&limit=100`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load thread');
+      }
+      setThread({ root: data.root, replies: data.messages || [] });
+      setReplyTo(null);
+      setEditingMessage(null);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load thread');
+    }
+  }, []);
+
+  const closeThread = useCallback(() => {
+    setThread(null);
+    setReplyTo(null);
+  }, []);
+
+  // Apply an edited or deleted message to the room history and the open thread
+  const applyUpdatedMessage = useCallback((updated: ChatMessage) => {
+    setMessages(prev => {
+      const next = prev.map(m => (m.id === updated.id ? updated : m));
+      if (modeRef.current === 'public') messageCacheRef.current.public = next;
+      return next;
+    });
+    setThread(prev => {
+      if (!prev) return prev;
+      if (prev.root.id === updated.id) return { ...prev, root: updated };
+      return { ...prev, replies: prev.replies.map(m => (m.id === updated.id ? updated : m)) };
+    });
+  }, []);
+
+  const editMessage = useCallback(async (messageId: string, text: string) => {
+    if (!chatAddress || !text.trim()) return;
+    setIsSending(true);
+    try {
+      const response = await sessionFetch(`/api/chat/messages/${messageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: text, address: chatAddress }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to edit message');
+      }
+      applyUpdatedMessage(data.message);
+      setEditingMessage(null);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to edit message');
+    } finally {
+      setIsSending(false);
+    }
+  }, [chatAddress, applyUpdatedMessage]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!chatAddress) return;
+    try {
+      const response = await sessionFetch(`/api/chat/messages/${messageId}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: chatAddress }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete message');
+      }
+      applyUpdatedMessage(data.message);
+      if (editingMessage?.id === messageId) setEditingMessage(null);
+      if (replyTo?.id === messageId) setReplyTo(null);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to delete message');
+    }
+  }, [chatAddress, applyUpdatedMessage, editingMessage, replyTo]);
+
   const sendMessage = async (messageText: string) => {
     if (!chatAddress || !messageText.trim()) return;
 
@@ -260,7 +522,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     const optimisticId = `optimistic-${Date.now()}`;
     const optimisticUserMessage: AnyChatMessage = mode === 'ai'
       ? { id: optimisticId, address: chatAddress, message: messageText, timestamp: Date.now(), type: 'user', model: '', displayName: 'You', conversationId: conversationId || '' }
-      : { id: optimisticId, address: chatAddress, message: messageText, timestamp: Date.now(), displayName: 'You' };
+      : { id: optimisticId, address: chatAddress, message: messageText, timestamp: Date.now(), displayName: 'You', room: roomRef.current };
 
     setMessages(prev => {
       const next = [...prev, optimisticUserMessage];
@@ -345,7 +607,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           }
         } catch { }
 
-        const response = await fetch('/api/agent/chat', {
+        const response = await sessionFetch('/api/agent/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -362,21 +624,80 @@ export function ChatProvider({ children }: { children: ReactNode }) {
         }
         const data = await response.json();
         const replyText = typeof data?.text === 'string' ? data.text : (data?.success ? 'Done.' : '');
-        const agentReply: AnyChatMessage = { id: `agent-${Date.now()}`, address, message: replyText, timestamp: Date.now(), displayName: 'Agent' } as any;
+        const agentReply: AnyChatMessage = {
+          id: `agent-${Date.now()}`,
+          address,
+          message: replyText,
+          timestamp: Date.now(),
+          displayName: 'Agent',
+          // Wallet-signed actions (production claims, staking) prepared by the agent
+          ...(data?.pendingAction ? { pendingAction: data.pendingAction } : {}),
+        } as any;
         setMessages(prev => {
           const next = [...prev, agentReply];
           messageCacheRef.current.agent = next;
           try { localStorage.setItem('agent-chat-history', JSON.stringify(next)); } catch { }
           return next;
         });
-      } else {
-        const response = await fetch(endpoint, {
+      } else if (mode === 'ai') {
+        const response = await sessionFetch(endpoint, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ message: messageText, address: chatAddress, conversationId }),
           signal
         });
 
+        if (!response.ok || !response.body) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to send message');
+        }
+
+        // Render the reply as it streams in, then swap in the stored message
+        const streamingId = `streaming-${Date.now()}`;
+        await readAIStream(response.body, (event) => {
+          if (event.type === 'start') {
+            if (!conversationId) setConversationId(event.userMessage.conversationId);
+            setMessages(prev => [...prev.filter(m => m.id !== optimisticId), event.userMessage]);
+          } else if (event.type === 'tool') {
+            setAIToolStatus(AI_TOOL_LABELS[event.name] ?? 'Looking that up');
+          } else if (event.type === 'delta') {
+            setIsAITyping(false);
+            setAIToolStatus(null);
+            setMessages(prev => {
+              const existing = prev.find(m => m.id === streamingId);
+              if (!existing) {
+                const placeholder: AIChatMessage = {
+                  id: streamingId,
+                  conversationId: conversationId || '',
+                  address: chatAddress,
+                  message: event.text,
+                  timestamp: Date.now(),
+                  type: 'assistant',
+                  model: '',
+                  displayName: 'Neural Seed',
+                };
+                return [...prev, placeholder];
+              }
+              return prev.map(m => (m.id === streamingId ? { ...m, message: m.message + event.text } : m));
+            });
+          } else {
+            setMessages(prev => [...prev.filter(m => m.id !== streamingId), event.aiResponse]);
+          }
+        });
+      } else {
+        const response = await sessionFetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            message: messageText,
+            address: chatAddress,
+            // Public chat only; in a thread view, plain messages reply to the thread root
+            room: roomRef.current,
+            replyToId: replyTo?.id ?? thread?.root.id ?? null,
+          }),
+          signal
+        });
+
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.error || 'Failed to send message');
@@ -384,18 +705,13 @@ export function ChatProvider({ children }: { children: ReactNode }) {
 
         const data = await response.json();
 
-        if (mode === 'ai') {
-          const { userMessage, aiResponse } = data;
-          if (!conversationId) {
-            setConversationId(userMessage.conversationId);
-          }
-          // Replace optimistic user message and add AI response
-          setMessages(prev => [...prev.filter(m => m.id !== optimisticId), userMessage, aiResponse]);
-        } else {
-          // For public chat, add the returned message
-          const newMessage = data.message;
-          setMessages(prev => [...prev.filter(m => m.id !== optimisticId), newMessage]);
-        }
+        // For public chat, add the returned message
+        const newMessage: ChatMessage = data.message;
+        setMessages(prev => [...prev.filter(m => m.id !== optimisticId), newMessage]);
+        setThread(prev => (prev && newMessage.threadId === prev.root.id
+          ? { ...prev, replies: mergeById(prev.replies, [newMessage]) }
+          : prev));
+        setReplyTo(null);
       }
 
     } catch (err: any) {
@@ -412,6 +728,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsSending(false);
       if (mode === 'ai' || mode === 'agent') setIsAITyping(false);
+      setAIToolStatus(null);
     }
   };
 
@@ -423,11 +740,29 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     setMode,
     sendMessage,
     isSending,
+    chatAddress: chatAddress ?? undefined,
     conversationId,
     setConversationId,
     isAITyping,
+    aiToolStatus,
     unreadCount,
-    markAsRead
+    markAsRead,
+    room,
+    rooms,
+    setRoom,
+    joinGuild,
+    replyTo,
+    setReplyTo,
+    editingMessage,
+    setEditingMessage,
+    editMessage,
+    deleteMessage,
+    thread,
+    openThread,
+    closeThread,
+    hasOlder: olderCursor !== null,
+    loadingOlder,
+    loadOlder
   };
 
   return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
@@ -6,9 +6,11 @@ import { useChat } from './chat-context';
 import ChatMessages from './chat-messages';
 import ChatInput from './chat-input';
 import AITypingIndicator from './ai-typing-indicator';
+import AIConversationsBar from './ai-conversations-bar';
 import { ToggleGroup } from '@/components/ui/toggle-group';
 import Image from 'next/image';
 import AgentPermissionsPanel from './AgentPermissionsPanel';
+import AgentAutopilotPanel from './AgentAutopilotPanel';
 import { useSmartWallet } from '@/lib/smart-wallet-context';
 import { useFrameContext } from '@/lib/frame-context';
 import { useTransactions } from 'ethereum-identity-kit';
@@ -21,7 +23,7 @@ interface ChatDialogProps {
 }
 
 function ChatDialogContent({ txModalOpen }: { txModalOpen: boolean }) {
-  const { mode, setMode, isAITyping } = useChat();
+  const { mode, setMode, isAITyping, aiToolStatus } = useChat();
   const { isSmartWallet } = useSmartWallet();
   const fc = useFrameContext();
   const isInMiniApp = Boolean(fc?.isInMiniApp);
@@ -69,12 +71,14 @@ function ChatDialogContent({ txModalOpen }: { txModalOpen: boolean }) {
               ? 'Agent is not available in Mini App.'
               : (!isSmartWallet
                 ? 'Agent requires a smart wallet.'
-                : 'Neural Seed Agent can mint plants using your spend permission.'))
+                : 'Neural Seed Agent can mint, feed and protect plants using your spend permission.'))
             : 'Chat with the community or get help from Neural Seed AI assistant.'}
         </DialogDescription>
+        {mode === 'ai' && <AIConversationsBar />}
         {mode === 'agent' && isSmartWallet && !isInMiniApp && (
           <div className="mt-2">
             <AgentPermissionsPanel />
+            <AgentAutopilotPanel />
           </div>
         )}
       </DialogHeader>
@@ -85,7 +89,7 @@ function ChatDialogContent({ txModalOpen }: { txModalOpen: boolean }) {
 
       <DialogFooter className="border-t border-border pt-3">
         <div className="w-full space-y-2">
-          {isAITyping && <AITypingIndicator />}
+          {(isAITyping || aiToolStatus) && <AITypingIndicator label={aiToolStatus} />}
           <ChatInput />
         </div>
       </DialogFooter>
@@ -1,16 +1,24 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useChat } from './chat-context';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Bot, Loader2 } from 'lucide-react';
+import { Send, Bot, Loader2, X } from 'lucide-react';
 import { useBalances } from '@/lib/balance-context';
 import { parseUnits } from 'viem';
 
 export default function ChatInput() {
-  const { sendMessage, isSending, mode } = useChat();
+  const { sendMessage, isSending, mode, replyTo, setReplyTo, editingMessage, setEditingMessage, editMessage, thread } = useChat();
   const [message, setMessage] = useState('');
+  const isPublic = mode === 'public';
+  const editing = isPublic ? editingMessage : null;
+  const replying = isPublic && !editing ? replyTo : null;
+
+  // Editing loads the message into the input; cancelling clears it again
+  useEffect(() => {
+    setMessage(editingMessage ? editingMessage.message : '');
+  }, [editingMessage]);
   const { seedBalance, loading: balanceLoading } = useBalances();
   
   const isAIMode = mode === 'ai';
@@ -19,14 +27,26 @@ export default function ChatInput() {
 
   const handleSend = async () => {
     if (!message.trim()) return;
+    if (editing) {
+      await editMessage(editing.id, message.trim());
+      return;
+    }
     await sendMessage(message.trim());
     setMessage('');
   };
 
+  const cancelContext = () => {
+    if (editing) setEditingMessage(null);
+    else setReplyTo(null);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && (editing || replying)) {
+      e.preventDefault();
+      cancelContext();
     }
   };
 
@@ -37,12 +57,27 @@ export default function ChatInput() {
           SEED balance insufficient for Agent tasks. (Minimum 10 needed, Visit Swap)
         </div>
       )}
+      {(editing || replying) && (
+        <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-2 py-1 text-xs" role="status">
+          <span className="truncate">
+            {editing ? 'Editing message' : <>Replying to <span className="font-semibold">{replying!.displayName}</span>: {replying!.message}</>}
+          </span>
+          <button
+            type="button"
+            onClick={cancelContext}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={editing ? 'Cancel edit' : 'Cancel reply'}
+          >
+            <X className="w-3 h-3" aria-hidden="true" />
+          </button>
+        </div>
+      )}
       <div className="flex items-center gap-2">
       <Input
         value={message}
         onChange={(e) => setMessage(e.target.value)}
-        onKeyPress={handleKeyPress}
-        placeholder={mode === 'agent' ? (insufficientForAgent ? "SEED balance insufficient (min 10). Visit Swap." : "Ask the agent to mint plants...") : (isAIMode ? "Ask about Pixotchi..." : "Type a message...")}
+        onKeyDown={handleKeyPress}
+        placeholder={mode === 'agent' ? (insufficientForAgent ? "SEED balance insufficient (min 10). Visit Swap." : "Ask the agent to mint plants...") : (isAIMode ? "Ask about Pixotchi..." : (thread ? "Reply in thread..." : "Type a message..."))}
         disabled={isSending || insufficientForAgent}
         className="flex-1"
         maxLength={mode === 'agent' ? 200 : (isAIMode ? 300 : 200)}
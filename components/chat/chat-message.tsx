@@ -5,9 +5,13 @@ import { ChatMessage, AIChatMessage } from "@/lib/types";
 import { differenceInSeconds, differenceInMinutes, differenceInHours, differenceInDays, differenceInWeeks, differenceInMonths, differenceInYears } from "date-fns";
 import { useAccount } from "wagmi";
 import { usePrimaryName } from "@/components/hooks/usePrimaryName";
-import { Bot, User, CheckCircle2 } from "lucide-react";
+import { Bot, User, CheckCircle2, Reply, Pencil, Trash2, MessagesSquare } from "lucide-react";
 import { cn } from "@/lib/utils";
 import ChatProfileDialog from "./chat-profile-dialog";
+import { useChat } from "./chat-context";
+import UniversalTransaction from "@/components/transactions/universal-transaction";
+import toast from "react-hot-toast";
+import { sessionFetch } from "@/lib/session-client";
 
 // Function to format AI messages with bold syntax **text**
 function formatAIMessage(text: string) {
@@ -58,26 +62,35 @@ interface ChatMessageProps {
   isAIMode?: boolean;
   'aria-setsize'?: number;
   'aria-posinset'?: number;
+  /** Rendered inside a thread view, where the replies link is redundant */
+  inThread?: boolean;
 }
 
+const ACTION_CLASS = "inline-flex items-center gap-1 text-[10px] opacity-70 hover:opacity-100 focus-visible:outline-none focus-visible:underline";
+
 export default function ChatMessageComponent({
   message,
   isAIMode = false,
   'aria-setsize': ariaSetsize,
-  'aria-posinset': ariaPosinset
+  'aria-posinset': ariaPosinset,
+  inThread = false
 }: ChatMessageProps) {
   const { address } = useAccount();
+  const { setReplyTo, setEditingMessage, deleteMessage, openThread } = useChat();
   
   const isAIMessage = isAIMode && (('type' in message && message.type === 'assistant') || (message as any).displayName === 'Agent');
   const isUserAIMessage = isAIMode && (('type' in message && message.type === 'user') || (message as any).displayName === 'You');
   const isOwnPublicMessage = !isAIMode && address?.toLowerCase() === message.address.toLowerCase();
   
   const { name } = usePrimaryName(message.address);
+  const pendingAction = (message as any).pendingAction as
+    | { summary: string; calls: Array<{ to: `0x${string}`; data: `0x${string}`; value: string }> }
+    | undefined;
   const [profileOpen, setProfileOpen] = useState(false);
 
   const trackProfileVisit = useCallback(() => {
     if (!address) return;
-    fetch('/api/gamification/missions', {
+    sessionFetch('/api/gamification/missions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ address, taskId: 's2_visit_profile' })
@@ -98,7 +111,13 @@ export default function ChatMessageComponent({
   const bgColor = isAIMessage ? 'bg-blue-100 dark:bg-blue-900/30' :
                   isOwnPublicMessage || isUserAIMessage ? 'bg-primary text-primary-foreground' :
                   'bg-muted';
-  const canOpenProfile = !isAIMessage && !isUserAIMessage && !isOwnPublicMessage;
+  // Your own profile also holds your Neural Seed memory settings
+  const isOwnMessage = isOwnPublicMessage || isUserAIMessage;
+  const canOpenProfile = !isAIMessage;
+
+  // Room messages (not AI, not optimistic) support replies, threads and author edits
+  const publicMessage = !isAIMode && 'room' in message && !message.id.startsWith('optimistic-') ? message : null;
+  const isDeleted = Boolean(publicMessage?.deletedAt);
 
   const displayNameNode = (
     <span className="text-xs font-semibold">
@@ -111,7 +130,7 @@ export default function ChatMessageComponent({
       type="button"
       onClick={() => {
         setProfileOpen(true);
-        trackProfileVisit();
+        if (!isOwnMessage) trackProfileVisit();
       }}
       className="inline-flex items-center justify-center px-2 py-0.5 text-[10px] leading-none whitespace-nowrap rounded-md bg-primary text-primary-foreground hover:bg-primary/90 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 btn-compact"
       aria-label={`Open profile for ${displayName}`}
@@ -148,9 +167,73 @@ export default function ChatMessageComponent({
             </span>
           </div>
           
+          {publicMessage?.replyTo && (
+            <div className="mb-1 border-l-2 border-current/40 pl-2 text-xs opacity-80">
+              <span className="font-semibold">{publicMessage.replyTo.displayName}</span>{" "}
+              {publicMessage.replyTo.excerpt || <em>Message deleted</em>}
+            </div>
+          )}
+
           <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
-            {isAIMessage ? formatAIMessage(message.message) : message.message}
+            {isDeleted ? (
+              <em className="opacity-70">Message deleted</em>
+            ) : isAIMessage ? formatAIMessage(message.message) : message.message}
+            {publicMessage?.editedAt && !isDeleted && (
+              <span className="ml-1 text-[10px] opacity-70">(edited)</span>
+            )}
           </div>
+
+          {isAIMessage && 'sources' in message && message.sources && message.sources.length > 0 && (
+            <div className="mt-1 text-[11px] opacity-70">
+              Sources: {message.sources.map((s) => s.title).join(' · ')}
+            </div>
+          )}
+
+          {publicMessage && !isDeleted && (
+            <div className="mt-1 flex flex-wrap items-center gap-3">
+              <button type="button" className={ACTION_CLASS} onClick={() => setReplyTo(publicMessage)} aria-label={`Reply to ${displayName}`}>
+                <Reply className="w-3 h-3" aria-hidden="true" />
+                Reply
+              </button>
+              {!inThread && !publicMessage.threadId && (publicMessage.replyCount ?? 0) > 0 && (
+                <button type="button" className={ACTION_CLASS} onClick={() => openThread(publicMessage.id)}>
+                  <MessagesSquare className="w-3 h-3" aria-hidden="true" />
+                  {publicMessage.replyCount} {publicMessage.replyCount === 1 ? 'reply' : 'replies'}
+                </button>
+              )}
+              {!inThread && publicMessage.threadId && (
+                <button type="button" className={ACTION_CLASS} onClick={() => openThread(publicMessage.threadId!)}>
+                  <MessagesSquare className="w-3 h-3" aria-hidden="true" />
+                  View thread
+                </button>
+              )}
+              {isOwnPublicMessage && (
+                <>
+                  <button type="button" className={ACTION_CLASS} onClick={() => setEditingMessage(publicMessage)} aria-label="Edit message">
+                    <Pencil className="w-3 h-3" aria-hidden="true" />
+                    Edit
+                  </button>
+                  <button type="button" className={ACTION_CLASS} onClick={() => deleteMessage(publicMessage.id)} aria-label="Delete message">
+                    <Trash2 className="w-3 h-3" aria-hidden="true" />
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {isAIMessage && pendingAction && (
+            <div className="mt-2 space-y-1">
+              <p className="text-xs text-muted-foreground">{pendingAction.summary}</p>
+              <UniversalTransaction
+                calls={pendingAction.calls.map((c) => ({ to: c.to, data: c.data, value: BigInt(c.value || 0) })) as any}
+                buttonText="Confirm in wallet"
+                buttonClassName="w-full"
+                onSuccess={() => toast.success('Transaction confirmed')}
+                onError={(error) => toast.error(error?.message || 'Transaction failed')}
+              />
+            </div>
+          )}
           
         </div>
       </div>
@@ -1,18 +1,83 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback } from "react";
+import React, { useRef, useEffect, useLayoutEffect, useState, useCallback } from "react";
 import ChatMessageComponent from "./chat-message";
 import { useChat } from "./chat-context";
 import { BaseExpandedLoadingPageLoader } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2 } from "lucide-react";
 import Image from "next/image";
 
 const SCROLL_THRESHOLD = 56;
 
+function RoomSwitcher() {
+  const { room, rooms, setRoom, joinGuild } = useChat();
+  const [joining, setJoining] = useState(false);
+  const [guildName, setGuildName] = useState("");
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (joinGuild(guildName)) {
+      setGuildName("");
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-border px-4 py-2 space-y-2">
+      <div className="flex flex-wrap gap-1" role="tablist" aria-label="Chat rooms">
+        {rooms.map((r) => (
+          <Button
+            key={r.id}
+            size="sm"
+            variant={r.id === room ? "default" : "outline"}
+            className="px-2 py-0.5 text-xs leading-none btn-compact"
+            role="tab"
+            aria-selected={r.id === room}
+            onClick={() => setRoom(r.id)}
+          >
+            {r.label}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          className="px-2 py-0.5 text-xs leading-none btn-compact"
+          onClick={() => setJoining((v) => !v)}
+          aria-expanded={joining}
+        >
+          + Guild
+        </Button>
+      </div>
+      {joining && (
+        <form onSubmit={handleJoin} className="flex items-center gap-2">
+          <Input
+            value={guildName}
+            onChange={(e) => setGuildName(e.target.value)}
+            placeholder="Guild name (letters, numbers, dashes)"
+            className="h-8 text-xs"
+            maxLength={24}
+            aria-label="Guild room name"
+          />
+          <Button type="submit" size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact">
+            Join
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
 export default function ChatMessages() {
-  const { messages, loading, mode } = useChat();
+  const { messages: roomMessages, loading, mode, thread, closeThread, hasOlder, loadingOlder, loadOlder } = useChat();
   const isAssistantMode = mode === 'ai' || mode === 'agent';
+  const threadView = mode === 'public' && thread ? thread : null;
+  const messages = threadView ? [threadView.root, ...threadView.replies] : roomMessages;
   const containerRef = useRef<HTMLDivElement>(null);
   const [stickToBottom, setStickToBottom] = useState(true);
+  // Distance from the bottom before older history was prepended, so the view doesn't jump
+  const restoreOffsetRef = useRef<number | null>(null);
 
   const handleScroll = useCallback(() => {
     const node = containerRef.current;
@@ -27,11 +92,43 @@ export default function ChatMessages() {
     node.scrollTop = node.scrollHeight;
   }, [messages, stickToBottom]);
 
+  useLayoutEffect(() => {
+    const node = containerRef.current;
+    if (!node || restoreOffsetRef.current === null || loadingOlder) return;
+    node.scrollTop = node.scrollHeight - restoreOffsetRef.current;
+    restoreOffsetRef.current = null;
+  }, [messages, loadingOlder]);
+
+  const handleLoadOlder = useCallback(() => {
+    const node = containerRef.current;
+    if (node) restoreOffsetRef.current = node.scrollHeight - node.scrollTop;
+    loadOlder();
+  }, [loadOlder]);
+
+  const header = mode === 'public' ? (
+    threadView ? (
+      <div className="border-b border-border px-4 py-2 flex items-center gap-2">
+        <Button size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact" onClick={closeThread}>
+          <ArrowLeft className="w-3 h-3 mr-1" aria-hidden="true" />
+          Back
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Thread · {threadView.replies.length} {threadView.replies.length === 1 ? 'reply' : 'replies'}
+        </span>
+      </div>
+    ) : (
+      <RoomSwitcher />
+    )
+  ) : null;
+
   if (loading && messages.length === 0) {
     return (
-      <div ref={containerRef} className="h-full overflow-y-auto" onScroll={handleScroll}>
-        <div className="flex items-center justify-center h-full">
-          <BaseExpandedLoadingPageLoader text="Loading messages..." />
+      <div className="h-full flex flex-col">
+        {header}
+        <div ref={containerRef} className="flex-1 overflow-y-auto" onScroll={handleScroll}>
+          <div className="flex items-center justify-center h-full">
+            <BaseExpandedLoadingPageLoader text="Loading messages..." />
+          </div>
         </div>
       </div>
     );
@@ -39,62 +136,83 @@ export default function ChatMessages() {
 
   if (messages.length === 0) {
     return (
-      <div ref={containerRef} className="h-full overflow-y-auto" onScroll={handleScroll}>
-        <div className="flex flex-col items-center justify-center h-full text-center p-4">
-          <div className="mb-4">
-            {isAssistantMode ? (
-              <Image 
-                src="/icons/neuralseed.png" 
-                alt="Neural Seed" 
-                width={48} 
-                height={48} 
-                className="opacity-60"
-              />
-            ) : (
-              <Image 
-                src="/icons/chat.svg" 
-                alt="Chat" 
-                width={48} 
-                height={48} 
-                className="opacity-60"
-              />
-            )}
+      <div className="h-full flex flex-col">
+        {header}
+        <div ref={containerRef} className="flex-1 overflow-y-auto" onScroll={handleScroll}>
+          <div className="flex flex-col items-center justify-center h-full text-center p-4">
+            <div className="mb-4">
+              {isAssistantMode ? (
+                <Image 
+                  src="/icons/neuralseed.png" 
+                  alt="Neural Seed" 
+                  width={48} 
+                  height={48} 
+                  className="opacity-60"
+                />
+              ) : (
+                <Image 
+                  src="/icons/chat.svg" 
+                  alt="Chat" 
+                  width={48} 
+                  height={48} 
+                  className="opacity-60"
+                />
+              )}
+            </div>
+            <h3 className="font-semibold text-foreground mb-1">
+              {isAssistantMode ? 'Ask the Neural Seed Agent or Assistant!' : 'Welcome to the chat!'}
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              {isAssistantMode 
+                ? 'I can help with minting, game mechanics, your stats, and more.' 
+                : 'Be the first to start the conversation!'}
+            </p>
           </div>
-          <h3 className="font-semibold text-foreground mb-1">
-            {isAssistantMode ? 'Ask the Neural Seed Agent or Assistant!' : 'Welcome to the chat!'}
-          </h3>
-          <p className="text-sm text-muted-foreground">
-            {isAssistantMode 
-              ? 'I can help with minting, game mechanics, your stats, and more.' 
-              : 'Be the first to start the conversation!'}
-          </p>
         </div>
       </div>
     );
   }
 
   return (
-    <div
-      ref={containerRef}
-      onScroll={handleScroll}
-      className="h-full overflow-y-auto"
-    >
+    <div className="h-full flex flex-col">
+      {header}
       <div
-        className="p-4 space-y-4"
-        role="log"
-        aria-label={`${isAssistantMode ? 'Assistant conversation' : 'Chat'} messages`}
-        aria-live={isAssistantMode ? "polite" : "off"}
-        aria-atomic="false"
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto"
       >
-        {messages.map((message, index) => (
-          <ChatMessageComponent
-            key={message.id}
-            message={message}
-            isAIMode={isAssistantMode}
-            aria-setsize={messages.length}
-            aria-posinset={index + 1}
-          />
-        ))}
+        {mode === 'public' && !threadView && hasOlder && (
+          <div className="flex justify-center pt-3">
+            <Button
+              size="sm"
+              variant="outline"
+              className="px-2 py-0.5 text-xs leading-none btn-compact"
+              onClick={handleLoadOlder}
+              disabled={loadingOlder}
+            >
+              {loadingOlder && <Loader2 className="w-3 h-3 mr-1 animate-spin" aria-hidden="true" />}
+              Load older messages
+            </Button>
+          </div>
+        )}
+        <div
+          className="p-4 space-y-4"
+          role="log"
+          aria-label={`${isAssistantMode ? 'Assistant conversation' : 'Chat'} messages`}
+          aria-live={isAssistantMode ? "polite" : "off"}
+          aria-atomic="false"
+        >
+          {messages.map((message, index) => (
+            <ChatMessageComponent
+              key={message.id}
+              message={message}
+              isAIMode={isAssistantMode}
+              aria-setsize={messages.length}
+              aria-posinset={index + 1}
+              inThread={Boolean(threadView)}
+            />
+          ))}
+        </div>
       </div>
     </div>
   );
@@ -4,6 +4,8 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import PlantProfileDialog from "@/components/plant-profile-dialog";
 import type { Plant } from "@/lib/types";
 import { getPlantsByOwner } from "@/lib/contracts";
+import { useChat } from "./chat-context";
+import AIMemoryPanel from "./ai-memory-panel";
 
 interface ChatProfileDialogProps {
   address: string;
@@ -23,6 +25,7 @@ export default function ChatProfileDialog({
   open,
   onOpenChange,
 }: ChatProfileDialogProps) {
+  const { chatAddress } = useChat();
   const cacheRef = useRef<Map<string, PlantCache>>(new Map());
   const [plant, setPlant] = useState<Plant | null>(null);
   const [loading, setLoading] = useState(false);
@@ -31,6 +34,7 @@ export default function ChatProfileDialog({
   const fetchPendingRef = useRef<string | null>(null);
 
   const normalisedAddress = useMemo(() => address?.toLowerCase() ?? "", [address]);
+  const isOwnProfile = Boolean(chatAddress && chatAddress.toLowerCase() === normalisedAddress);
 
   useEffect(() => {
     if (!open || !normalisedAddress) {
@@ -107,7 +111,9 @@ export default function ChatProfileDialog({
       walletAddressOverride={normalisedAddress}
       primaryPlantLoading={loading}
       walletNameOverride={null}
-    />
+    >
+      {isOwnProfile && <AIMemoryPanel address={normalisedAddress} />}
+    </PlantProfileDialog>
   );
 }
 
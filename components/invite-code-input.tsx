@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { sessionFetch } from '@/lib/session-client';
 
 interface InviteCodeInputProps {
   onValidated: (code: string) => void;
@@ -87,7 +88,7 @@ export default function InviteCodeInput({
 
   const markCodeAsUsed = async (inviteCode: string, userAddress: string) => {
     try {
-      await fetch('/api/invite/use', {
+      await sessionFetch('/api/invite/use', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
@@ -20,6 +20,7 @@ import {
 import { toast } from 'react-hot-toast';
 import { formatInviteUrl } from '@/lib/invite-utils';
 import { InviteStats } from '@/lib/types';
+import { sessionFetch } from '@/lib/session-client';
 
 interface InviteDashboardProps {
   open: boolean;
@@ -62,7 +63,7 @@ export default function InviteDashboard({ open, onOpenChange }: InviteDashboardP
 
   const generateMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch('/api/invite/generate', {
+      const response = await sessionFetch('/api/invite/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ address }),
@@ -27,6 +27,7 @@ import { useIsSolanaWallet, SolanaNotSupported } from '@/components/solana';
 import SolanaBridgeButton from '@/components/transactions/solana-bridge-button';
 import { formatWsol } from '@/lib/solana-quote';
 import { useEthModeSafe } from '@/lib/eth-mode-context';
+import { sessionFetch } from '@/lib/session-client';
 
 interface ItemDetailsPanelProps {
   selectedItem: ShopItem | GardenItem | null;
@@ -643,7 +644,7 @@ export default function ItemDetailsPanel({
                       if (txHash) {
                         payload.proof = { txHash };
                       }
-                      fetch('/api/gamification/missions', {
+                      sessionFetch('/api/gamification/missions', {
                         method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify(payload)
@@ -667,7 +668,7 @@ export default function ItemDetailsPanel({
                       if (txHash) {
                         payload.proof = { txHash };
                       }
-                      fetch('/api/gamification/missions', {
+                      sessionFetch('/api/gamification/missions', {
                         method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify(payload)
@@ -694,7 +695,7 @@ export default function ItemDetailsPanel({
                         if (txHash) {
                           payload.proof = { txHash };
                         }
-                        const res = await fetch('/api/gamification/missions', {
+                        const res = await sessionFetch('/api/gamification/missions', {
                           method: 'POST',
                           headers: { 'Content-Type': 'application/json' },
                           body: JSON.stringify(payload)
@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import toast from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup } from "@/components/ui/toggle-group";
+import { CLIENT_ENV } from "@/lib/env-config";
+import { StandardContainer } from "./ui/pixel-container";
+import type { DeliveryRecord, NotificationChannelType } from "@/lib/notification-channels";
+import { sessionFetch } from "@/lib/session-client";
+
+type ChannelSummary = {
+  id: string;
+  type: NotificationChannelType;
+  label?: string;
+  enabled: boolean;
+  verifiedAt: number | null;
+  disabledReason?: string;
+  config: Record<string, any>;
+};
+
+type FormType = "email" | "telegram" | "webhook";
+
+const TYPE_LABELS: Record<NotificationChannelType, string> = {
+  web_push: "Browser push",
+  email: "Email",
+  telegram: "Telegram",
+  webhook: "Webhook",
+};
+
+const describe = (channel: ChannelSummary) => {
+  switch (channel.type) {
+    case "email": return channel.config.email;
+    case "telegram": return channel.config.chatId ? `Chat ${channel.config.chatId}` : "Not connected yet";
+    case "webhook": return channel.config.url;
+    case "web_push": return channel.label || "This browser";
+  }
+};
+
+// VAPID keys are base64url; PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+};
+
+/**
+ * Delivery channels (browser push, email, Telegram, webhook) registered per wallet address.
+ */
+export default function NotificationChannels() {
+  const { address } = useAccount();
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [formType, setFormType] = useState<FormType>("email");
+  const [value, setValue] = useState("");
+  const [secret, setSecret] = useState("");
+
+  const pushSupported = typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && Boolean(CLIENT_ENV.VAPID_PUBLIC_KEY);
+
+  const refresh = async () => {
+    if (!address) return;
+    try {
+      const data = await sessionFetch(`/api/notifications/channels?address=${address}`).then(r => r.json());
+      if (data?.success) {
+        setChannels(data.channels || []);
+        setDeliveries(data.deliveries || []);
+      }
+    } catch {}
+  };
+
+  useEffect(() => { refresh(); }, [address]);
+
+  if (!address) return null;
+
+  const register = async (channel: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      const res = await sessionFetch("/api/notifications/channels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address, channel }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.success) {
+        toast.error(data?.error || "Failed to add channel");
+        return false;
+      }
+      if (data.verification?.type === "telegram") {
+        // The bot connects the chat when it receives /start <token>
+        window.open(data.verification.link, "_blank", "noopener,noreferrer");
+        toast.success("Press Start in Telegram to connect the chat");
+      } else if (data.verification?.type === "email") {
+        toast.success(`Check ${data.verification.sentTo} for a confirmation link`);
+      } else {
+        toast.success(`${TYPE_LABELS[data.channel.type as NotificationChannelType]} added`);
+      }
+      await refresh();
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addFromForm = async () => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    const config =
+      formType === "email" ? { email: trimmed }
+        : { url: trimmed, ...(secret.trim() ? { secret: secret.trim() } : {}) };
+    if (await register({ type: formType, config })) {
+      setValue("");
+      setSecret("");
+    }
+  };
+
+  const enablePush = async () => {
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        toast.error("Notifications are blocked in this browser");
+        return;
+      }
+      const registration = await navigator.serviceWorker.register("/push-sw.js");
+      await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(CLIENT_ENV.VAPID_PUBLIC_KEY),
+        }));
+      await register({ type: "web_push", label: navigator.userAgent.includes("Mobile") ? "Mobile browser" : "Desktop browser", config: { subscription: subscription.toJSON() } });
+    } catch (error) {
+      console.warn("Failed to enable push notifications:", error);
+      toast.error("Could not enable browser notifications");
+    }
+  };
+
+  const mutate = async (method: "PATCH" | "DELETE", body: Record<string, unknown>) => {
+    setBusy(true);
+    try {
+      await sessionFetch("/api/notifications/channels", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address, ...body }),
+      });
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendTest = async (channelId: string) => {
+    setBusy(true);
+    try {
+      const res = await sessionFetch("/api/notifications/channels/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address, channelId }),
+      });
+      const data = await res.json().catch(() => null);
+      if (data?.success) toast.success("Test notification sent");
+      else toast.error(data?.record?.error || data?.error || "Test failed");
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const lastDelivery = (channelId: string) => deliveries.find((d) => d.channelId === channelId);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">
+        Delivery Channels
+      </h3>
+      <StandardContainer className="p-4 space-y-3 rounded-md border bg-card">
+        {channels.length === 0 ? (
+          <span className="text-xs text-muted-foreground">
+            Get reminders outside Farcaster by adding a channel.
+          </span>
+        ) : (
+          <ul className="space-y-2">
+            {channels.map((channel) => {
+              const last = lastDelivery(channel.id);
+              return (
+                <li key={channel.id} className="flex items-start justify-between gap-2">
+                  <span className="flex flex-col min-w-0">
+                    <span className="text-xs font-medium">{TYPE_LABELS[channel.type]}</span>
+                    <span className="text-xs text-muted-foreground truncate">{describe(channel)}</span>
+                    {!channel.verifiedAt && (
+                      <span className="text-xs text-amber-600 dark:text-amber-400">Awaiting confirmation</span>
+                    )}
+                    {channel.disabledReason && (
+                      <span className="text-xs text-red-600 dark:text-red-400 truncate">{channel.disabledReason}</span>
+                    )}
+                    {last && (
+                      <span className="text-xs text-muted-foreground">
+                        Last: {last.status}{last.attempts > 1 ? ` after ${last.attempts} tries` : ""} · {new Date(last.timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-2 whitespace-nowrap text-xs">
+                    <button type="button" className="underline" disabled={busy || !channel.enabled || !channel.verifiedAt} onClick={() => sendTest(channel.id)}>Test</button>
+                    <button type="button" className="underline" disabled={busy} onClick={() => mutate("PATCH", { channelId: channel.id, enabled: !channel.enabled })}>
+                      {channel.enabled ? "Pause" : "Resume"}
+                    </button>
+                    <button type="button" className="underline" disabled={busy} onClick={() => mutate("DELETE", { channelId: channel.id })}>Remove</button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="space-y-2 pt-2 border-t border-border">
+          {pushSupported && (
+            <Button size="sm" variant="outline" className="w-full" disabled={busy} onClick={enablePush}>
+              Enable browser notifications
+            </Button>
+          )}
+          <ToggleGroup
+            value={formType}
+            onValueChange={(v) => { setFormType(v as FormType); setValue(""); }}
+            options={[
+              { value: "email", label: "Email" },
+              { value: "telegram", label: "Telegram" },
+              { value: "webhook", label: "Webhook" },
+            ]}
+          />
+          {formType === "telegram" ? (
+            CLIENT_ENV.TELEGRAM_BOT_USERNAME ? (
+              <Button size="sm" variant="outline" className="w-full" disabled={busy} onClick={() => register({ type: "telegram" })}>
+                Connect @{CLIENT_ENV.TELEGRAM_BOT_USERNAME}
+              </Button>
+            ) : (
+              <span className="block text-xs text-muted-foreground">Telegram reminders are not available yet.</span>
+            )
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={formType === "email" ? "you@example.com" : "https://..."}
+                className="h-8 text-xs"
+              />
+              <Button size="sm" className="px-2 py-0.5 text-xs leading-none btn-compact" disabled={busy || !value.trim()} onClick={addFromForm}>
+                Add
+              </Button>
+            </div>
+          )}
+          {formType === "webhook" && (
+            <Input
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder="Signing secret (optional)"
+              className="h-8 text-xs"
+            />
+          )}
+        </div>
+      </StandardContainer>
+    </div>
+  );
+}
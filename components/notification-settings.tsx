@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import toast from "react-hot-toast";
+import { useFrameContext } from "@/lib/frame-context";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { StandardContainer } from "./ui/pixel-container";
+import { Skeleton } from "./ui/skeleton";
+import type { NotificationCategory, NotificationPreferences } from "@/lib/notification-rules";
+import { sessionFetch } from "@/lib/session-client";
+
+type CategoryInfo = { id: NotificationCategory; label: string; description: string };
+
+const THRESHOLD_OPTIONS = [24, 12, 6, 3, 1];
+const MAX_THRESHOLDS = 3;
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const browserTimezone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/**
+ * Notification preferences, keyed by FID inside the Mini App and by wallet address elsewhere
+ * (web-only players receive them through the delivery channels below).
+ */
+export default function NotificationSettings() {
+  const { address } = useAccount();
+  const fc = useFrameContext();
+  const fid = typeof fc?.context === "object" ? (fc?.context as any)?.user?.fid as number | undefined : undefined;
+
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [categories, setCategories] = useState<CategoryInfo[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  const query = fid ? `fid=${fid}` : address ? `address=${address}` : null;
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await fetch(`/api/notifications/preferences?${query}`).then(r => r.json());
+        if (cancelled || !data?.success) return;
+        const loaded: NotificationPreferences = data.preferences;
+        // First visit: default quiet hours to the device timezone
+        if (!loaded.updatedAt) loaded.quietHours = { ...loaded.quietHours, timezone: browserTimezone() };
+        setPrefs(loaded);
+        setCategories(data.categories || []);
+      } catch {}
+    })();
+    return () => { cancelled = true; };
+  }, [query]);
+
+  if (!query) return null;
+
+  const update = (next: Partial<NotificationPreferences>) => {
+    if (!prefs) return;
+    setPrefs({ ...prefs, ...next });
+    setDirty(true);
+  };
+
+  const toggleThreshold = (hours: number) => {
+    if (!prefs) return;
+    const current = prefs.plantThresholdsHours;
+    if (current.includes(hours)) {
+      if (current.length === 1) return; // keep at least one threshold
+      update({ plantThresholdsHours: current.filter(h => h !== hours) });
+    } else if (current.length < MAX_THRESHOLDS) {
+      update({ plantThresholdsHours: [...current, hours].sort((a, b) => b - a) });
+    } else {
+      toast.error(`Pick up to ${MAX_THRESHOLDS} thresholds`);
+    }
+  };
+
+  const save = async () => {
+    if (!prefs || !address) return;
+    setSaving(true);
+    try {
+      const res = await sessionFetch("/api/notifications/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(fid ? { fid } : {}),
+          address,
+          preferences: {
+            categories: prefs.categories,
+            plantThresholdsHours: prefs.plantThresholdsHours,
+            stakingRewardsMin: prefs.stakingRewardsMin,
+            quietHours: prefs.quietHours,
+          },
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.success) {
+        toast.error(data?.error || "Failed to save notification settings");
+        return;
+      }
+      setPrefs(data.preferences);
+      setDirty(false);
+      toast.success("Notification settings saved");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">
+        Notifications
+      </h3>
+      <StandardContainer className="p-4 space-y-3 rounded-md border bg-card">
+        {!prefs ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="space-y-2">
+              {categories.map((cat) => (
+                <label key={cat.id} className="flex items-start justify-between gap-3">
+                  <span className="flex flex-col">
+                    <span className="text-xs font-medium">{cat.label}</span>
+                    <span className="text-xs text-muted-foreground">{cat.description}</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={Boolean(prefs.categories[cat.id])}
+                    onChange={(e) => update({ categories: { ...prefs.categories, [cat.id]: e.target.checked } })}
+                  />
+                </label>
+              ))}
+            </div>
+
+            {prefs.categories.plant_care && (
+              <div className="space-y-1 pt-2 border-t border-border">
+                <span className="text-xs font-medium">Plant alerts when under</span>
+                <div className="flex flex-wrap gap-1">
+                  {THRESHOLD_OPTIONS.map((h) => (
+                    <Button
+                      key={h}
+                      size="sm"
+                      variant={prefs.plantThresholdsHours.includes(h) ? "default" : "outline"}
+                      className="px-2 py-0.5 text-xs leading-none btn-compact"
+                      onClick={() => toggleThreshold(h)}
+                    >
+                      {h}h
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {prefs.categories.staking_rewards && (
+              <div className="flex items-center justify-between gap-2 pt-2 border-t border-border">
+                <span className="text-xs font-medium">Min. staking rewards (LEAF)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={String(prefs.stakingRewardsMin)}
+                  onChange={(e) => update({ stakingRewardsMin: Math.max(0, Number(e.target.value) || 0) })}
+                  className="h-8 w-24 text-xs"
+                />
+              </div>
+            )}
+
+            <div className="space-y-1 pt-2 border-t border-border">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium">Quiet hours</span>
+                <input
+                  type="checkbox"
+                  checked={prefs.quietHours.enabled}
+                  onChange={(e) => update({ quietHours: { ...prefs.quietHours, enabled: e.target.checked, timezone: browserTimezone() } })}
+                />
+              </label>
+              {prefs.quietHours.enabled && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <select
+                    value={prefs.quietHours.startHour}
+                    onChange={(e) => update({ quietHours: { ...prefs.quietHours, startHour: Number(e.target.value) } })}
+                    className="h-8 rounded-md border border-border bg-background px-2"
+                  >
+                    {HOURS.map((h) => <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>)}
+                  </select>
+                  <span>to</span>
+                  <select
+                    value={prefs.quietHours.endHour}
+                    onChange={(e) => update({ quietHours: { ...prefs.quietHours, endHour: Number(e.target.value) } })}
+                    className="h-8 rounded-md border border-border bg-background px-2"
+                  >
+                    {HOURS.map((h) => <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>)}
+                  </select>
+                  <span className="text-muted-foreground">{prefs.quietHours.timezone}</span>
+                </div>
+              )}
+            </div>
+
+            <Button size="sm" className="w-full" disabled={!dirty || saving || !address} onClick={save}>
+              {saving ? "Saving..." : "Save notification settings"}
+            </Button>
+          </>
+        )}
+      </StandardContainer>
+    </div>
+  );
+}
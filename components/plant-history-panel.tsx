@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatScoreShort, formatDuration } from '@/lib/utils';
+import type { PlantHistory } from '@/lib/plant-history';
+
+type ChartPoint = { t: number; v: number };
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 72;
+
+function LineChart({ points, stroke, formatValue }: { points: ChartPoint[]; stroke: string; formatValue: (v: number) => string }) {
+  if (points.length < 2) {
+    return <div className="text-xs text-muted-foreground">Not enough snapshots yet — check back in a few hours.</div>;
+  }
+  const minT = points[0].t;
+  const maxT = points[points.length - 1].t;
+  const values = points.map((p) => p.v);
+  const minV = Math.min(...values);
+  const maxV = Math.max(...values);
+  const spanT = Math.max(maxT - minT, 1);
+  const spanV = Math.max(maxV - minV, 1e-9);
+  const path = points
+    .map((p) => {
+      const x = ((p.t - minT) / spanT) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((p.v - minV) / spanV) * (CHART_HEIGHT - 4) - 2;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-16" preserveAspectRatio="none">
+        <polyline points={path} fill="none" stroke={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{new Date(minT).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+        <span>
+          {formatValue(minV)} – {formatValue(maxV)}
+        </span>
+        <span>{new Date(maxT).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+      </div>
+    </div>
+  );
+}
+
+const Stat = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex flex-col">
+    <span className="font-semibold">{value}</span>
+    <span className="text-[10px] text-muted-foreground uppercase">{label}</span>
+  </div>
+);
+
+/**
+ * Lifetime charts and counters for a single plant, from /api/plants/[id]/history.
+ * When the viewer owns the plant (`ownerAddress`), opening the panel keeps it enrolled in the
+ * hourly snapshots; this is best-effort and only succeeds with an existing wallet session.
+ */
+export default function PlantHistoryPanel({ plantId, enabled, ownerAddress = null }: { plantId: number; enabled: boolean; ownerAddress?: string | null }) {
+  useEffect(() => {
+    if (!enabled || !ownerAddress) return;
+    fetch(`/api/plants/${plantId}/history`, {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address: ownerAddress }),
+    }).catch(() => {});
+  }, [enabled, ownerAddress, plantId]);
+
+  const { data: history, isLoading, isError } = useQuery({
+    queryKey: ['plantHistory', plantId],
+    queryFn: async (): Promise<PlantHistory | null> => {
+      const res = await fetch(`/api/plants/${plantId}/history`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to load plant history');
+      return json.history;
+    },
+    enabled,
+    staleTime: 60_000,
+  });
+
+  const scorePoints = useMemo(
+    () => (history?.snapshots ?? []).map((s) => ({ t: s.t, v: s.score })),
+    [history?.snapshots]
+  );
+  const todPoints = useMemo(
+    () => (history?.snapshots ?? []).map((s) => ({ t: s.t, v: Math.max(0, s.timeUntilStarving - Math.floor(s.t / 1000)) })),
+    [history?.snapshots]
+  );
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+  if (isError || !history) {
+    return <div className="text-xs text-muted-foreground">History is unavailable right now.</div>;
+  }
+
+  const { stats, renames } = history;
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-muted-foreground">PTS</span>
+        <LineChart points={scorePoints} stroke="hsl(var(--primary))" formatValue={formatScoreShort} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold text-muted-foreground">Time of death runway</span>
+        <LineChart points={todPoints} stroke="#ef4444" formatValue={(v) => formatDuration(Math.round(v))} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Stat label="Attacks" value={`${stats.attacksGiven} (${stats.attacksGivenWon} won)`} />
+        <Stat label="Attacked" value={`${stats.attacksReceived} (${stats.attacksReceivedLost} lost)`} />
+        <Stat label="Kills" value={stats.kills} />
+        <Stat label="PTS won" value={formatScoreShort(stats.pointsFromAttacks)} />
+        <Stat label="PTS lost" value={formatScoreShort(stats.pointsLostToAttacks)} />
+        <Stat label="Items used" value={stats.itemsConsumed + stats.shopPurchases} />
+      </div>
+      {stats.killedBy && (
+        <div className="text-xs text-red-600 dark:text-red-400">Killed by {stats.killedBy}</div>
+      )}
+      {history.eventsTruncated && (
+        <div className="text-[10px] text-muted-foreground">Counters cover the {history.events.length} most recent events.</div>
+      )}
+
+      {renames.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-semibold text-muted-foreground">Renames</span>
+          <ul className="space-y-0.5 text-xs">
+            {renames.slice(-5).reverse().map((r) => (
+              <li key={r.t}>
+                {new Date(r.t).toLocaleDateString()} · {r.from || 'unnamed'} → {r.to || 'unnamed'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import Image from 'next/image';
 import PlantImage from '@/components/PlantImage';
+import PlantHistoryPanel from '@/components/plant-history-panel';
 import { getUserGameStats } from '@/lib/user-stats-service';
 import { getStakeInfo } from '@/lib/contracts';
 import { formatEthShort, formatTokenAmount, formatAddress } from '@/lib/utils';
@@ -33,6 +34,7 @@ import { Avatar } from '@coinbase/onchainkit/identity';
 import { base } from 'viem/chains';
 import { formatDistanceToNow } from 'date-fns';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { sessionFetch } from '@/lib/session-client';
 
 type TwitterMediaLite = { type?: string | null; url?: string | null };
 type TwitterPostLite = {
@@ -64,6 +66,8 @@ interface PlantProfileDialogProps {
   walletAddressOverride?: string | null;
   walletNameOverride?: string | null;
   primaryPlantLoading?: boolean;
+  /** Extra sections shown at the bottom of the profile (e.g. the viewer's own settings) */
+  children?: React.ReactNode;
 }
 
 interface OwnerStats {
@@ -139,6 +143,7 @@ export default function PlantProfileDialog({
   walletAddressOverride = null,
   walletNameOverride = null,
   primaryPlantLoading = false,
+  children,
 }: PlantProfileDialogProps) {
   const [otherDialogOpen, setOtherDialogOpen] = useState(false);
   const [postsDialogOpen, setPostsDialogOpen] = useState(false);
@@ -436,7 +441,7 @@ export default function PlantProfileDialog({
   const postFollowMissionProgress = useCallback(async (): Promise<boolean> => {
     if (!connectedAddress) return false;
     try {
-      const response = await fetch('/api/gamification/missions', {
+      const response = await sessionFetch('/api/gamification/missions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ address: connectedAddress, taskId: 's2_follow_player' })
@@ -726,6 +731,17 @@ export default function PlantProfileDialog({
                 )}
               </div>
 
+              {!isWalletVariant && hasPlant && plant && (
+                <div className="mb-4 flex flex-col gap-2.5">
+                  <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">History</span>
+                  <PlantHistoryPanel
+                    plantId={plant.id}
+                    enabled={open}
+                    ownerAddress={connectedAddress && plant.owner?.toLowerCase() === connectedAddress.toLowerCase() ? connectedAddress : null}
+                  />
+                </div>
+              )}
+
               <>
                 <div className="space-y-2.5 mb-4">
                   <div className="flex items-center justify-between gap-2">
@@ -824,6 +840,9 @@ export default function PlantProfileDialog({
                     </div>
                   )}
 
+                {children && (
+                  <div className="pt-4 border-t border-border">{children}</div>
+                )}
               </>
             </div>
           </div>
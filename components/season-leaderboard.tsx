@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BaseExpandedLoadingPageLoader } from "@/components/ui/loading";
+import { formatAddress } from "@/lib/utils";
+import type { GmSeason, GmSeasonBoard, GmSeasonPhase, GmSeasonStanding } from "@/lib/gamification-types";
+
+export type SeasonSummary = GmSeason & { phase: GmSeasonPhase };
+
+export type HallOfFameEntry = {
+  season: GmSeason;
+  winners: Partial<Record<GmSeasonBoard, GmSeasonStanding[]>>;
+};
+
+const BOARD_META: Record<GmSeasonBoard, { title: string; icon: string; unit: string }> = {
+  missions: { title: 'Rocks', icon: '/icons/Volcanic_Rock.svg', unit: 'Rocks' },
+  streaks: { title: 'Streak', icon: '/icons/pts.svg', unit: 'days' },
+  plants: { title: 'Plants', icon: '/icons/pts.svg', unit: 'PTS' },
+  lands: { title: 'Lands', icon: '/icons/pts.svg', unit: 'XP' },
+  stake: { title: 'Stake', icon: '/PixotchiKit/COIN.svg', unit: 'SEED' },
+};
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+function StandingName({ row, names }: { row: GmSeasonStanding; names: Record<string, string> }) {
+  const owner = names[row.address] || formatAddress(row.address);
+  return (
+    <div className="flex-1 min-w-0">
+      <h4 className="font-semibold text-base truncate pr-6">{row.label || owner}</h4>
+      {row.label && <span className="text-xs text-muted-foreground font-mono">{owner}</span>}
+    </div>
+  );
+}
+
+/** One board of a season: the frozen final standings, or live standings while it runs. */
+export function SeasonStandingsList({
+  seasonId,
+  board,
+  address,
+  renderRank,
+}: {
+  seasonId: string;
+  board: GmSeasonBoard;
+  address?: string | null;
+  renderRank: (rank: number) => React.ReactNode;
+}) {
+  const [data, setData] = useState<{ final: boolean; boards: Partial<Record<GmSeasonBoard, GmSeasonStanding[]>>; names: Record<string, string>; takenAt?: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    setError(null);
+    fetch(`/api/gamification/seasons?id=${encodeURIComponent(seasonId)}`)
+      .then(async (res) => {
+        const payload = await res.json().catch(() => null);
+        if (!res.ok || !payload?.success) throw new Error(payload?.error || 'Failed to load season');
+        if (!cancelled) setData({ final: !!payload.final, boards: payload.boards || {}, names: payload.names || {}, takenAt: payload.takenAt });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err?.message || 'Failed to load season');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [seasonId]);
+
+  if (error) {
+    return <div className="text-center py-8 text-muted-foreground">{error}</div>;
+  }
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <BaseExpandedLoadingPageLoader text="Loading season standings..." />
+      </div>
+    );
+  }
+
+  const rows = data.boards[board];
+  const meta = BOARD_META[board];
+  if (!rows) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        {meta.title} standings are captured when the season ends.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 divide-y divide-border -mx-4 px-4">
+      <p className="text-xs text-muted-foreground pb-2">
+        {data.final && data.takenAt ? `Final standings, frozen ${new Date(data.takenAt).toLocaleDateString()}` : 'Live season standings'}
+      </p>
+      {rows.length === 0 && <div className="text-center py-8 text-muted-foreground">No entries this season.</div>}
+      {rows.map((row) => {
+        const isCurrentUser = !!address && row.address === address.toLowerCase();
+        return (
+          <div key={`${row.rank}-${row.address}-${row.tokenId ?? ''}`} className={`py-3 ${isCurrentUser ? 'bg-primary/5 -mx-6 px-6 rounded-lg' : ''}`}>
+            <div className="flex items-center space-x-2">
+              <div className="flex items-center justify-center w-8">{renderRank(row.rank)}</div>
+              <StandingName row={row} names={data.names} />
+              <div className="flex items-center space-x-1 text-right">
+                <Image src={meta.icon} alt={meta.unit} width={16} height={16} />
+                <span className="text-base font-bold">{formatValue(row.value)}</span>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Podiums of every finalized season. */
+export function SeasonHallOfFame({ entries }: { entries: HallOfFameEntry[] }) {
+  if (entries.length === 0) return null;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hall of Fame</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.map(({ season, winners }) => (
+          <div key={season.id} className="space-y-2">
+            <div className="flex items-baseline justify-between">
+              <span className="font-semibold">{season.title}</span>
+              <span className="text-xs text-muted-foreground">{season.startsOn} → {season.endsOn}</span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {(Object.keys(BOARD_META) as GmSeasonBoard[]).map((board) => {
+                const podium = winners[board] ?? [];
+                if (podium.length === 0) return null;
+                return (
+                  <div key={board} className="rounded-lg bg-muted/50 p-2">
+                    <div className="text-xs text-muted-foreground mb-1">{BOARD_META[board].title}</div>
+                    {podium.map((row) => (
+                      <div key={row.rank} className="flex items-center justify-between text-sm gap-2">
+                        <span className="truncate">
+                          {row.rank}. {row.label || formatAddress(row.address)}
+                        </span>
+                        <span className="font-medium shrink-0">{formatValue(row.value)} {BOARD_META[board].unit}</span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
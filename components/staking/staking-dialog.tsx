@@ -19,6 +19,7 @@ import { formatUnits, parseUnits } from "viem";
 import { RefreshCw } from "lucide-react";
 import { ToggleGroup } from "@/components/ui/toggle-group";
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 type StakingDialogProps = {
   open: boolean;
@@ -452,7 +453,7 @@ export default function StakingDialog({ open, onOpenChange }: StakingDialogProps
                        if (txHash) {
                          payload.proof = { txHash };
                        }
-                       fetch('/api/gamification/missions', {
+                       sessionFetch('/api/gamification/missions', {
                          method: 'POST',
                          headers: { 'Content-Type': 'application/json' },
                          body: JSON.stringify(payload)
@@ -492,7 +493,7 @@ export default function StakingDialog({ open, onOpenChange }: StakingDialogProps
                   if (txHash) {
                     payload.proof = { txHash };
                   }
-                  fetch('/api/gamification/missions', {
+                  sessionFetch('/api/gamification/missions', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(payload)
@@ -19,6 +19,7 @@ import packageJson from '@/package.json';
 import { useSmartWallet } from "@/lib/smart-wallet-context";
 import { useFrameContext } from "@/lib/frame-context";
 import { useTabVisibility } from "@/lib/tab-visibility-context";
+import { sessionFetch } from "@/lib/session-client";
 
 const InfoCard = ({
   icon,
@@ -175,7 +176,7 @@ export default function AboutTab() {
 
     setGenerating(true);
     try {
-      const response = await fetch('/api/invite/generate', {
+      const response = await sessionFetch('/api/invite/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ address }),
@@ -1,13 +1,15 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { useAccount } from "wagmi";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { BaseExpandedLoadingPageLoader } from "@/components/ui/loading";
 import { useTabVisibility } from "@/lib/tab-visibility-context";
 import { useSmartWallet } from "@/lib/smart-wallet-context";
-import { getAllActivity, getMyActivity } from "@/lib/activity-service";
+import { getActivityPage } from "@/lib/activity-service";
+import type { ActivityEventType, ActivityFeedFilters } from "@/lib/activity-feed";
 import { ActivityEvent, ItemConsumedEvent, BundledItemConsumedEvent, ShopItem, GardenItem } from "@/lib/types";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Terminal, User, Globe } from "lucide-react";
@@ -39,8 +41,30 @@ import { useIsSolanaWallet, useTwinAddress } from "@/components/solana";
 type ActivityView = "all" | "my";
 type ItemMap = { [key: string]: string };
 type ProcessedActivityEvent = Exclude<ActivityEvent, ItemConsumedEvent> | BundledItemConsumedEvent;
-
-const ITEMS_PER_PAGE = 12;
+type TypeGroup = "attacks" | "plants" | "lands" | "casino";
+type TimeRange = "24h" | "7d" | "30d" | "all";
+
+const TYPE_GROUPS: { id: TypeGroup; label: string; types: ActivityEventType[] }[] = [
+  { id: "attacks", label: "Attacks", types: ["Attack", "Killed"] },
+  { id: "plants", label: "Plants", types: ["Mint", "Played", "ItemConsumed", "ShopItemPurchased"] },
+  {
+    id: "lands",
+    label: "Lands",
+    types: [
+      "LandTransferEvent", "LandMintedEvent", "LandNameChangedEvent",
+      "VillageUpgradedWithLeafEvent", "VillageSpeedUpWithSeedEvent", "TownUpgradedWithLeafEvent", "TownSpeedUpWithSeedEvent",
+      "QuestStartedEvent", "QuestFinalizedEvent", "VillageProductionClaimedEvent",
+    ],
+  },
+  { id: "casino", label: "Casino", types: ["CasinoBuiltEvent", "RouletteSpinResultEvent", "BlackjackResultEvent"] },
+];
+
+const TIME_RANGES: { id: TimeRange; label: string; seconds: number | null }[] = [
+  { id: "24h", label: "24h", seconds: 24 * 60 * 60 },
+  { id: "7d", label: "7d", seconds: 7 * 24 * 60 * 60 },
+  { id: "30d", label: "30d", seconds: 30 * 24 * 60 * 60 },
+  { id: "all", label: "All", seconds: null },
+];
 
 export default function ActivityTab() {
   const { address, isConnected } = useAccount();
@@ -51,17 +75,25 @@ export default function ActivityTab() {
   const isVisible = isTabVisible('activity');
   const myAddress = isSolana ? twinAddress : address;
   const isWalletConnected = isConnected || (isSolana && !!twinAddress);
-  const [allActivities, setAllActivities] = useState<ProcessedActivityEvent[]>([]);
+  const [rawActivities, setRawActivities] = useState<ActivityEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fallbackSource, setFallbackSource] = useState(false);
   const [view, setView] = useState<ActivityView>("all");
+  const [typeGroups, setTypeGroups] = useState<TypeGroup[]>([]);
+  const [timeRange, setTimeRange] = useState<TimeRange>("24h");
+  const [plantIdInput, setPlantIdInput] = useState("");
+  const [landIdInput, setLandIdInput] = useState("");
+  const [idFilters, setIdFilters] = useState<{ plantId?: string; landId?: string }>({});
   const [shopItemMap, setShopItemMap] = useState<ItemMap>({});
   const [gardenItemMap, setGardenItemMap] = useState<ItemMap>({});
-  const [currentPage, setCurrentPage] = useState(1);
-  const { shopItems, gardenItems, isLoading: catalogsLoading } = useItemCatalogs();
+  const { shopItems, gardenItems } = useItemCatalogs();
 
-  // Request deduplication ref to prevent multiple simultaneous calls
-  const fetchActivitiesPendingRef = useRef<string | null>(null);
+  // Bumped on every reset so responses for stale filters are dropped
+  const requestGenerationRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
   const bundleItemConsumedEvents = (activities: ActivityEvent[]): ProcessedActivityEvent[] => {
     const bundledMap = new Map<string, BundledItemConsumedEvent>();
@@ -102,77 +134,89 @@ export default function ActivityTab() {
     return allProcessedEvents;
   };
 
-  const fetchActivities = useCallback(async () => {
-    // Create a unique key for this fetch based on parameters
-    const fetchKey = `${view}-${myAddress || 'all'}-${shopItems.length}-${gardenItems.length}`;
+  useEffect(() => {
+    const newShopItemMap: ItemMap = {};
+    shopItems.forEach((item: ShopItem) => {
+      newShopItemMap[item.id] = item.name;
+    });
+    setShopItemMap(newShopItemMap);
 
-    // Prevent duplicate calls with the same parameters
-    if (fetchActivitiesPendingRef.current === fetchKey) {
+    const newGardenItemMap: ItemMap = {};
+    gardenItems.forEach((item: GardenItem) => {
+      newGardenItemMap[item.id] = item.name;
+    });
+    setGardenItemMap(newGardenItemMap);
+  }, [shopItems, gardenItems]);
+
+  const buildFilters = useCallback((): ActivityFeedFilters | null => {
+    if (view === "my" && !myAddress) return null;
+    const range = TIME_RANGES.find(r => r.id === timeRange);
+    return {
+      types: TYPE_GROUPS.filter(g => typeGroups.includes(g.id)).flatMap(g => g.types),
+      ...idFilters,
+      ...(view === "my" && myAddress ? { address: myAddress } : {}),
+      ...(range?.seconds ? { from: Math.floor(Date.now() / 1000) - range.seconds } : {}),
+    };
+  }, [view, myAddress, typeGroups, timeRange, idFilters]);
+
+  const fetchActivities = useCallback(async () => {
+    const generation = ++requestGenerationRef.current;
+    const filters = buildFilters();
+    // In 'my' view but address not ready - UI will show appropriate message
+    if (!filters) {
+      setRawActivities([]);
+      setNextCursor(null);
+      setLoading(false);
       return;
     }
 
-    fetchActivitiesPendingRef.current = fetchKey;
-
+    setLoading(true);
+    setError(null);
     try {
-      // Only show full page loader on initial load
-      if (allActivities.length === 0) {
-        setLoading(true);
-      }
-      setError(null);
-
-      const newShopItemMap: ItemMap = {};
-      shopItems.forEach((item: ShopItem) => {
-        newShopItemMap[item.id] = item.name;
-      });
-      setShopItemMap(newShopItemMap);
-
-      const newGardenItemMap: ItemMap = {};
-      gardenItems.forEach((item: GardenItem) => {
-        newGardenItemMap[item.id] = item.name;
-      });
-      setGardenItemMap(newGardenItemMap);
-
-      let recentActivities: ActivityEvent[] = [];
-
-      if (view === "my") {
-        // In 'my' view but address not ready - exit early, UI will show appropriate message
-        if (!myAddress) {
-          if (fetchActivitiesPendingRef.current === fetchKey) {
-            setLoading(false);
-            fetchActivitiesPendingRef.current = null;
-          }
-          return;
-        }
-        recentActivities = await getMyActivity(myAddress);
-      } else {
-        recentActivities = await getAllActivity();
-      }
-
-      // Only update if parameters haven't changed during the fetch
-      if (fetchActivitiesPendingRef.current === fetchKey) {
-        const processedActivities = bundleItemConsumedEvents(recentActivities);
-        setAllActivities(processedActivities);
-        setCurrentPage(1); // Reset to first page when activities change
-      }
+      const page = await getActivityPage(filters);
+      if (generation !== requestGenerationRef.current) return;
+      setRawActivities(page.events);
+      setNextCursor(page.nextCursor);
+      setFallbackSource(page.source === "onchain");
     } catch (err) {
       console.error(err);
-      // Only set error if parameters haven't changed
-      if (fetchActivitiesPendingRef.current === fetchKey) {
+      if (generation === requestGenerationRef.current) {
         setError("Failed to load activities. Please try again later.");
       }
     } finally {
-      // Clear pending flag only if parameters haven't changed
-      if (fetchActivitiesPendingRef.current === fetchKey) {
+      if (generation === requestGenerationRef.current) {
         setLoading(false);
-        fetchActivitiesPendingRef.current = null;
       }
     }
-  }, [view, myAddress, shopItems, gardenItems]);
+  }, [buildFilters]);
+
+  const loadMore = useCallback(async () => {
+    const filters = buildFilters();
+    if (!filters || !nextCursor || loadingMore) return;
+    const generation = requestGenerationRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await getActivityPage(filters, nextCursor);
+      if (generation !== requestGenerationRef.current) return;
+      setRawActivities(prev => {
+        const known = new Set(prev.map(a => a.id));
+        return [...prev, ...page.events.filter(a => !known.has(a.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildFilters, nextCursor, loadingMore]);
 
   // Note: Removed auto-reset effect that caused race condition when switching to 'my' view
   // The UI now handles missing wallet/address gracefully in renderContent()
 
+  // Filters changed: start over from the newest page
   useEffect(() => {
+    setRawActivities([]);
+    setNextCursor(null);
     fetchActivities();
   }, [fetchActivities]);
 
@@ -184,6 +228,33 @@ export default function ActivityTab() {
     }
   }, [isVisible, fetchActivities]);
 
+  // Infinite scroll: fetch the next page once the sentinel below the list comes into view
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !nextCursor) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(e => e.isIntersecting)) loadMore();
+    }, { rootMargin: "200px" });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const toggleTypeGroup = (group: TypeGroup) => {
+    setTypeGroups(prev => prev.includes(group) ? prev.filter(g => g !== group) : [...prev, group]);
+  };
+
+  const applyIdFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const plantId = plantIdInput.replace("#", "").trim();
+    const landId = landIdInput.replace("#", "").trim();
+    setIdFilters({
+      ...(/^\d+$/.test(plantId) ? { plantId } : {}),
+      ...(/^\d+$/.test(landId) ? { landId } : {}),
+    });
+  };
+
+  const allActivities = useMemo(() => bundleItemConsumedEvents(rawActivities), [rawActivities]);
+
   const renderActivity = (activity: ProcessedActivityEvent) => {
     switch (activity.__typename) {
       case "Attack":
@@ -231,13 +302,6 @@ export default function ActivityTab() {
     }
   };
 
-  // Calculate pagination values
-  const totalItems = allActivities.length;
-  const totalPages = Math.ceil(totalItems / ITEMS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-  const endIndex = startIndex + ITEMS_PER_PAGE;
-  const currentActivities = allActivities.slice(startIndex, endIndex);
-
   const renderContent = () => {
     // Only block render if we have NO data at all
     // If we have data, we show it (Activity API maintains state) and update silently
@@ -267,45 +331,28 @@ export default function ActivityTab() {
       );
     }
 
-    if (totalItems === 0) {
+    if (allActivities.length === 0) {
       return (
         <div className="text-center py-8 text-muted-foreground">
-          <p>No recent {view === 'my' ? 'personal' : ''} activity found in the last 24 hours.</p>
+          <p>No {view === 'my' ? 'personal ' : ''}activity found for these filters.</p>
         </div>
       );
     }
 
     return (
       <div className="space-y-4">
+        {fallbackSource && (
+          <p className="text-xs text-muted-foreground">
+            Activity indexer is catching up; showing recent plant events read directly from the chain.
+          </p>
+        )}
         <div className="space-y-2 divide-y -mx-4 px-4">
-          {currentActivities.map(renderActivity)}
+          {allActivities.map(renderActivity)}
         </div>
 
-        {totalPages > 1 && (
-          <div className="flex justify-center items-center pt-4">
-            <div className="flex space-x-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                disabled={currentPage === 1}
-              >
-                Back
-              </Button>
-              <span className="flex items-center px-3 text-sm">
-                Page {currentPage} of {totalPages}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                disabled={currentPage === totalPages}
-              >
-                Next
-              </Button>
-            </div>
-          </div>
-        )}
+        <div ref={sentinelRef} className="flex justify-center py-2 text-xs text-muted-foreground">
+          {loadingMore ? "Loading more..." : nextCursor ? "" : "You've reached the end."}
+        </div>
       </div>
     );
   };
@@ -315,7 +362,7 @@ export default function ActivityTab() {
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
-            <CardTitle>Activity (Last 24h)</CardTitle>
+            <CardTitle>Activity</CardTitle>
             <ToggleGroup
               value={view}
               onValueChange={(v) => setView(v as 'all' | 'my')}
@@ -325,6 +372,50 @@ export default function ActivityTab() {
               ]}
             />
           </div>
+          <div className="flex flex-wrap items-center gap-1 pt-2">
+            {TYPE_GROUPS.map(group => (
+              <Button
+                key={group.id}
+                size="sm"
+                variant={typeGroups.includes(group.id) ? "default" : "outline"}
+                className="px-2 py-0.5 text-xs leading-none btn-compact"
+                onClick={() => toggleTypeGroup(group.id)}
+              >
+                {group.label}
+              </Button>
+            ))}
+            <span className="mx-1 h-4 w-px bg-border" />
+            {TIME_RANGES.map(range => (
+              <Button
+                key={range.id}
+                size="sm"
+                variant={timeRange === range.id ? "default" : "outline"}
+                className="px-2 py-0.5 text-xs leading-none btn-compact"
+                onClick={() => setTimeRange(range.id)}
+              >
+                {range.label}
+              </Button>
+            ))}
+          </div>
+          <form onSubmit={applyIdFilters} className="flex items-center gap-2 pt-2">
+            <Input
+              value={plantIdInput}
+              onChange={(e) => setPlantIdInput(e.target.value)}
+              placeholder="Plant #"
+              inputMode="numeric"
+              className="h-8 text-xs"
+            />
+            <Input
+              value={landIdInput}
+              onChange={(e) => setLandIdInput(e.target.value)}
+              placeholder="Land #"
+              inputMode="numeric"
+              className="h-8 text-xs"
+            />
+            <Button type="submit" size="sm" variant="outline" className="px-2 py-0.5 text-xs leading-none btn-compact">
+              Filter
+            </Button>
+          </form>
         </CardHeader>
         <CardContent>
           {renderContent()}
@@ -26,6 +26,7 @@ import { LandMapModal } from "@/components/map/land-map-modal";
 import { useLandMap } from "@/hooks/useLandMap";
 import { useIsSolanaWallet, SolanaNotSupported } from "@/components/solana";
 import BatchClaimCard from "@/components/transactions/batch-claim-card";
+import BatchLandActionsCard from "@/components/transactions/batch-land-actions-card";
 
 import { useTabVisibility } from "@/lib/tab-visibility-context";
 import { useSmartWallet } from "@/lib/smart-wallet-context";
@@ -474,6 +475,17 @@ export default function LandsView() {
         />
       )}
 
+      {/* Upgrade / speed up / quest every land at once - only for multi-land owners */}
+      {lands.length > 1 && (
+        <BatchLandActionsCard
+          lands={lands}
+          onSuccess={() => {
+            fetchBuildingData();
+            fetchApprovalStatus();
+          }}
+        />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* StatusBar replaces BalanceCard globally under header */}
 
@@ -18,8 +18,6 @@ import AttackTransaction from "@/components/transactions/attack-transaction";
 import KillTransaction from "@/components/transactions/kill-transaction";
 import ReviveTransaction from "@/components/transactions/revive-transaction";
 import toast from "react-hot-toast";
-import PixotchiNFT from "@/public/abi/PixotchiNFT.json";
-import { decodeEventLog } from "viem";
 import { usePaymaster } from "@/lib/paymaster-context";
 import { useSmartWallet } from "@/lib/smart-wallet-context";
 import { SponsoredBadge } from "@/components/paymaster-toggle";
@@ -31,6 +29,11 @@ import { base } from "viem/chains";
 import { useIsSolanaWallet, useTwinAddress, SolanaNotSupported } from "@/components/solana";
 import SolanaBridgeButton from "@/components/transactions/solana-bridge-button";
 import { CLIENT_ENV } from "@/lib/env-config";
+import { canAttackWith as canAttackWithRules, parseAttackOutcome, type AttackOutcome } from "@/lib/attack-planner";
+import AttackPlannerDialog, { AttackPlanSummary } from "@/components/attack-planner-dialog";
+import { useAttackPlans } from "@/hooks/useAttackPlans";
+import { sessionFetch } from "@/lib/session-client";
+import { SeasonHallOfFame, SeasonStandingsList, type HallOfFameEntry, type SeasonSummary } from "@/components/season-leaderboard";
 
 type LeaderboardPlant = Plant & {
   rank: number;
@@ -99,8 +102,13 @@ export default function LeaderboardTab() {
   const [filterMode, setFilterMode] = useState<'all' | 'attackable' | 'dead'>('all');
   const [showOnlyMyPlants, setShowOnlyMyPlants] = useState(false);
   const publicClient = usePublicClient();
-  const [boardType, setBoardType] = useState<'plants' | 'lands' | 'stake' | 'rocks'>('plants');
+  const [boardType, setBoardType] = useState<'plants' | 'lands' | 'stake' | 'rocks' | 'streaks'>('plants');
+  // '' shows the live boards; otherwise the standings of that season
+  const [selectedSeasonId, setSelectedSeasonId] = useState('');
+  const [seasons, setSeasons] = useState<SeasonSummary[]>([]);
+  const [hallOfFame, setHallOfFame] = useState<HallOfFameEntry[]>([]);
   const [profileDialogOpen, setProfileDialogOpen] = useState(false);
+  const [plannerOpen, setPlannerOpen] = useState(false);
   const [selectedPlantForProfile, setSelectedPlantForProfile] = useState<LeaderboardPlant | null>(null);
 
   // Kill cooldown state (1 kill per hour per wallet)
@@ -144,23 +152,19 @@ export default function LeaderboardTab() {
   const fetchLeaderboardDataPendingRef = useRef<boolean>(false);
   const fetchMyPlantsPendingRef = useRef<string | null>(null);
 
+  const toastAttackOutcome = (outcome: AttackOutcome) => {
+    const scoresWon = Number(outcome.scoresWon) / 1e12;
+    toast.success(`${outcome.won ? 'WON' : 'LOST'} ${scoresWon.toLocaleString(undefined, { maximumFractionDigits: 2 })} PTS`, { id: 'attack-result' });
+  };
+
   const showAttackOutcomeFromHash = useCallback(async (hash?: string | null) => {
     if (!hash || !publicClient) return;
     try {
       const receipt = await publicClient.getTransactionReceipt({ hash: hash as `0x${string}` });
-      const abi = (PixotchiNFT as any).abi || PixotchiNFT;
-      for (const log of receipt.logs) {
-        try {
-          const decoded: any = decodeEventLog({ abi, data: log.data as `0x${string}`, topics: log.topics as any });
-          if (decoded.eventName === 'Attack') {
-            const attacker = Number(decoded.args.attacker);
-            const winner = Number(decoded.args.winner);
-            const scoresWon = Number(decoded.args.scoresWon) / 1e12;
-            const didWin = attacker === winner;
-            toast.success(`${didWin ? 'WON' : 'LOST'} ${scoresWon.toLocaleString(undefined, { maximumFractionDigits: 2 })} PTS`, { id: 'attack-result' });
-            return;
-          }
-        } catch (e) { }
+      const outcome = parseAttackOutcome(receipt.logs);
+      if (outcome) {
+        toastAttackOutcome(outcome);
+        return;
       }
       // Fallback
       toast.success('Attack confirmed', { id: 'attack-result' });
@@ -170,23 +174,10 @@ export default function LeaderboardTab() {
   }, [publicClient]);
 
   const showAttackOutcomeFromLogs = (logs: any[]) => {
-    try {
-      const abi = (PixotchiNFT as any).abi || PixotchiNFT;
-      for (const log of logs) {
-        try {
-          const decoded: any = decodeEventLog({ abi, data: log.data as `0x${string}`, topics: log.topics as any });
-          if (decoded.eventName === 'Attack') {
-            const attacker = Number(decoded.args.attacker);
-            const winner = Number(decoded.args.winner);
-            const scoresWon = Number(decoded.args.scoresWon) / 1e12;
-            const didWin = attacker === winner;
-            toast.success(`${didWin ? 'WON' : 'LOST'} ${scoresWon.toLocaleString(undefined, { maximumFractionDigits: 2 })} PTS`, { id: 'attack-result' });
-            return true;
-          }
-        } catch (e) { }
-      }
-    } catch { }
-    return false;
+    const outcome = parseAttackOutcome(logs);
+    if (!outcome) return false;
+    toastAttackOutcome(outcome);
+    return true;
   };
 
   const fetchLeaderboardData = useCallback(async () => {
@@ -360,6 +351,24 @@ export default function LeaderboardTab() {
     }
   }, []);
 
+  useEffect(() => {
+    if (gamificationDisabled) return;
+    fetch('/api/gamification/seasons')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((payload) => {
+        if (!payload || payload.disabled) return;
+        const list: SeasonSummary[] = Array.isArray(payload.seasons) ? payload.seasons : [];
+        setSeasons(list.filter((s) => s.phase !== 'scheduled'));
+        setHallOfFame(Array.isArray(payload.hallOfFame) ? payload.hallOfFame : []);
+      })
+      .catch((err) => console.warn('Failed to load seasons:', err));
+  }, [gamificationDisabled]);
+
+  // Streaks only exist as a season board
+  useEffect(() => {
+    if (!selectedSeasonId && boardType === 'streaks') setBoardType('rocks');
+  }, [selectedSeasonId, boardType]);
+
   // Fetch stake data when switching to stake tab
   useEffect(() => {
     if (boardType === 'stake') {
@@ -498,33 +507,27 @@ export default function LeaderboardTab() {
   };
 
   // Eligibility checks (client-side guardrails based on app rules)
-  const isDead = (p: { status: number }) => p.status === 4;
-  const nowSec = () => Math.floor(Date.now() / 1000);
-  const attackerCooldownOver = (attacker: Plant) => {
-    const last = Number(attacker.lastAttackUsed || '0');
-    return nowSec() >= last + 30 * 60; // 30 minutes
-  };
-  const targetCooldownOver = (target: LeaderboardPlant) => {
-    const last = Number(target.lastAttacked || '0');
-    return nowSec() >= last + 60 * 60; // 60 minutes
-  };
-  const canAttackWith = (attacker: Plant, target: LeaderboardPlant) => {
-    if (!attacker || !target) return false;
-    if (isDead(attacker) || isDead(target)) return false;
-    if (attacker.id === target.id) return false;
-    if (attacker.level >= target.level) return false;
-    if (!attackerCooldownOver(attacker)) return false;
-    if (!targetCooldownOver(target)) return false;
-    if (hasActiveFence(target)) return false;
-    return true;
-  };
+  const canAttackWith = (attacker: Plant, target: LeaderboardPlant) => canAttackWithRules(attacker, target);
   const eligibleAttackers = (target: LeaderboardPlant): Plant[] => myPlants.filter((p) => canAttackWith(p, target));
 
+  // Expected outcome for each eligible attacker against the target in the attack dialog
+  const dialogAttackers = attackDialogOpen && targetPlant ? eligibleAttackers(targetPlant) : [];
+  const { plans: dialogPlans } = useAttackPlans(dialogAttackers, targetPlant ? [targetPlant] : [], attackDialogOpen && dialogAttackers.length > 0);
+
+  const openAttackFromPlanner = (attackerId: number, targetId: number) => {
+    const target = plants.find((p) => p.id === targetId);
+    if (!target) return;
+    setPlannerOpen(false);
+    setTargetPlant(target);
+    setSelectedAttackerId(attackerId);
+    setAttackDialogOpen(true);
+  };
+
   const handlePlantImageClick = (plant: LeaderboardPlant) => {
     setSelectedPlantForProfile(plant);
     setProfileDialogOpen(true);
     if (!address) return;
-    fetch('/api/gamification/missions', {
+    sessionFetch('/api/gamification/missions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ address, taskId: 's2_visit_profile' })
@@ -815,9 +818,26 @@ export default function LeaderboardTab() {
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
-            <CardTitle>
-              Ranking
-            </CardTitle>
+            <div className="flex items-center gap-2">
+              <CardTitle>
+                Ranking
+              </CardTitle>
+              {seasons.length > 0 && (
+                <select
+                  value={selectedSeasonId}
+                  onChange={(e) => setSelectedSeasonId(e.target.value)}
+                  className="h-8 rounded-md border border-border bg-background px-2 text-xs"
+                  aria-label="Season"
+                >
+                  <option value="">Live</option>
+                  {seasons.map((season) => (
+                    <option key={season.id} value={season.id}>
+                      {season.title}{season.phase === 'active' ? ' (current)' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
             <ToggleGroup
               value={boardType}
               onValueChange={(v) => setBoardType((v as any) || 'plants')}
@@ -826,10 +846,11 @@ export default function LeaderboardTab() {
                 { value: 'lands', label: 'Lands' },
                 { value: 'stake', label: 'Stake' },
                 { value: 'rocks', label: 'Rocks' },
+                ...(selectedSeasonId ? [{ value: 'streaks', label: 'Streaks' }] : []),
               ]}
             />
           </div>
-          {boardType === 'plants' && (
+          {boardType === 'plants' && !selectedSeasonId && (
             <div className="mt-2 flex items-center justify-between gap-2 flex-wrap">
               <ToggleGroup
                 value={filterMode}
@@ -847,6 +868,11 @@ export default function LeaderboardTab() {
                   { value: 'dead', label: 'Dead' },
                 ]}
               />
+              {address && myPlants.length > 0 && !isSolana && (
+                <Button size="sm" variant="outline" onClick={() => setPlannerOpen(true)}>
+                  <Sword className="w-4 h-4 mr-1" /> Planner
+                </Button>
+              )}
               {address && myPlants.length > 0 && (filterMode === 'all' || filterMode === 'dead') && (
                 <label className="flex items-center gap-2 cursor-pointer text-sm">
                   <input
@@ -865,7 +891,18 @@ export default function LeaderboardTab() {
           )}
         </CardHeader>
         <CardContent>
-          {boardType === 'plants' ? (
+          {selectedSeasonId ? (
+            <SeasonStandingsList
+              seasonId={selectedSeasonId}
+              board={boardType === 'rocks' ? 'missions' : boardType}
+              address={address}
+              renderRank={(rank) => (
+                <div className={`flex items-center ${getRankColor(rank)}`}>
+                  {rank <= 3 ? getRankIcon(rank) : <span className="text-sm font-semibold">#{rank}</span>}
+                </div>
+              )}
+            />
+          ) : boardType === 'plants' ? (
             renderContent()
           ) : boardType === 'lands' ? (
             loading && totalLandItems === 0 ? (
@@ -1132,6 +1169,16 @@ export default function LeaderboardTab() {
         </CardContent>
       </Card>
 
+      <SeasonHallOfFame entries={hallOfFame} />
+
+      <AttackPlannerDialog
+        open={plannerOpen}
+        onOpenChange={setPlannerOpen}
+        myPlants={myPlants}
+        targets={plants}
+        onSelect={openAttackFromPlanner}
+      />
+
       {/* Attack dialog */}
       <Dialog open={attackDialogOpen} onOpenChange={setAttackDialogOpen}>
         <DialogContent>
@@ -1175,6 +1222,7 @@ export default function LeaderboardTab() {
                     <div className="text-sm">
                       <div className="font-medium">{p.name || `Plant #${p.id}`}</div>
                       <div className="text-xs text-muted-foreground">Lvl {p.level}</div>
+                      {dialogPlans.get(p.id)?.[0] && <AttackPlanSummary plan={dialogPlans.get(p.id)![0]} />}
                     </div>
                   </div>
                 </label>
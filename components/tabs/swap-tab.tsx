@@ -17,6 +17,7 @@ import type { LifecycleStatus } from '@coinbase/onchainkit/swap';
 import { PIXOTCHI_TOKEN_ADDRESS, USDC_ADDRESS, JESSE_TOKEN_ADDRESS, CREATOR_TOKEN_ADDRESS } from '@/lib/contracts';
 import TradingViewWidget from './TradingViewWidget';
 import type { TransactionReceipt } from 'viem';
+import { sessionFetch } from '@/lib/session-client';
 
 export default function SwapTab() {
   const { address } = useAccount();
@@ -138,7 +139,7 @@ export default function SwapTab() {
         taskId: 's1_make_swap',
         proof: { txHash: hash },
       };
-      fetch('/api/gamification/missions', {
+      sessionFetch('/api/gamification/missions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
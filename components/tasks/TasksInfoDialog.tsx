@@ -1,20 +1,111 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { useAccount } from "wagmi";
 import Image from "next/image";
 import { CLIENT_ENV } from "@/lib/env-config";
+import { isTaskComplete, missionSetMaxPoints } from "@/lib/mission-definitions";
+import type { GmMissionDay, GmMissionSet, GmStreak, GmStreakEvent, GmStreakRewardConfig } from "@/lib/gamification-types";
+import { erc20Abi, parseUnits } from "viem";
+import { toast } from "react-hot-toast";
+import SponsoredTransaction from "@/components/transactions/sponsored-transaction";
+import { PIXOTCHI_TOKEN_ADDRESS } from "@/lib/contracts";
+import { extractTransactionHash } from "@/lib/transaction-utils";
+import { sessionFetch } from "@/lib/session-client";
+
+const STREAK_EVENT_LABELS: Record<GmStreakEvent['type'], string> = {
+  freeze_used: 'Freeze used',
+  freeze_earned: 'Freeze earned',
+  freeze_bought: 'Freeze bought',
+  broken: 'Streak broken',
+  repaired: 'Streak repaired',
+  milestone: 'Milestone reward',
+};
+
+// Pays SEED to the streak payment address, then hands the tx hash to the freeze/repair route
+function StreakPurchase({ action, price, config, address, onDone }: {
+  action: 'freeze' | 'repair';
+  price: string;
+  config: GmStreakRewardConfig;
+  address: string;
+  onDone: (streak: GmStreak) => void;
+}) {
+  const calls = useMemo(() => [{
+    address: PIXOTCHI_TOKEN_ADDRESS as `0x${string}`,
+    abi: erc20Abi,
+    functionName: 'transfer',
+    args: [config.paymentAddress as `0x${string}`, parseUnits(price, 18)],
+  }], [config.paymentAddress, price]);
+
+  const handleSuccess = useCallback(async (tx: any) => {
+    const txHash = extractTransactionHash(tx);
+    if (!txHash) return;
+    try {
+      const res = await sessionFetch(`/api/gamification/streak/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address, txHash }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || 'Request failed');
+      onDone(data.streak);
+      toast.success(action === 'freeze' ? 'Streak freeze added' : 'Streak repaired');
+    } catch (error: any) {
+      toast.error(error?.message || 'Could not apply the payment');
+    }
+  }, [action, address, onDone]);
+
+  return (
+    <SponsoredTransaction
+      calls={calls as any}
+      buttonText={action === 'freeze' ? `Buy freeze (${price} SEED)` : `Repair streak (${price} SEED)`}
+      buttonClassName="w-full h-8 text-xs"
+      onSuccess={handleSuccess}
+      hideStatus
+    />
+  );
+}
+
+function MissionSections({ set, progress }: { set: GmMissionSet; progress: GmMissionDay | null }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {set.sections.map((section, index) => (
+        <div key={section.key}>
+          <div className="font-medium">Section {index + 1} - {section.title} ({section.points} Rocks)</div>
+          <ul className="list-disc pl-5 text-muted-foreground text-xs space-y-1 mt-1">
+            {set.tasks.filter((task) => task.section === section.key).map((task) => {
+              const done = !!progress && isTaskComplete(progress, task);
+              const count = progress?.progress[task.id] ?? 0;
+              return (
+                <li key={task.id} className="flex items-center gap-2">
+                  <span className={`inline-block w-2 h-2 rounded-full ${done ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> {task.label}
+                  {task.requiredCount > 1 && !done && <span className="text-[10px]">({Math.min(count, task.requiredCount)}/{task.requiredCount})</span>}
+                  {task.points > 0 && <span className="text-[10px]">+{task.points}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function TasksInfoDialog() {
   const { address } = useAccount();
   const gamificationDisabled = CLIENT_ENV.GAMIFICATION_DISABLED;
   const gamificationDisabledMessage = CLIENT_ENV.GAMIFICATION_DISABLED_MESSAGE;
   const [open, setOpen] = useState(false);
-  const [missionDay, setMissionDay] = useState<any | null>(null);
+  const [missionDay, setMissionDay] = useState<GmMissionDay | null>(null);
+  const [missionSet, setMissionSet] = useState<GmMissionSet | null>(null);
+  const [weeklyDay, setWeeklyDay] = useState<GmMissionDay | null>(null);
+  const [weeklySet, setWeeklySet] = useState<GmMissionSet | null>(null);
   const [missionPts, setMissionPts] = useState<number>(0);
   const [missionTotal, setMissionTotal] = useState<number>(0);
-  const [streak, setStreak] = useState<{ current: number; best: number } | null>(null);
+  const [streak, setStreak] = useState<GmStreak | null>(null);
+  const [streakHistory, setStreakHistory] = useState<GmStreakEvent[]>([]);
+  const [streakConfig, setStreakConfig] = useState<GmStreakRewardConfig | null>(null);
   const [serverDisabledMessage, setServerDisabledMessage] = useState<string | null>(null);
   const effectiveDisabled = gamificationDisabled || !!serverDisabledMessage;
   const effectiveDisabledMessage = serverDisabledMessage || gamificationDisabledMessage;
@@ -40,7 +131,9 @@ export default function TasksInfoDialog() {
             setServerDisabledMessage(typeof s?.message === 'string' ? s.message : gamificationDisabledMessage);
             return;
           }
-          setStreak({ current: s.streak.current, best: s.streak.best });
+          setStreak(s.streak);
+          setStreakHistory(Array.isArray(s.history) ? s.history : []);
+          setStreakConfig(s.config || null);
         }
 
         // Fetch missions data
@@ -52,6 +145,9 @@ export default function TasksInfoDialog() {
             return;
           }
           setMissionDay(m.day || null);
+          setMissionSet(m.set || null);
+          setWeeklyDay(m.weekly || null);
+          setWeeklySet(m.weeklySet || null);
           setMissionPts(m.day?.pts ?? 0);
           setMissionTotal(typeof m.total === 'number' && Number.isFinite(m.total) ? m.total : 0);
         }
@@ -65,7 +161,7 @@ export default function TasksInfoDialog() {
         <DialogHeader>
           <DialogTitle>Farmer's Tasks</DialogTitle>
           <DialogDescription>
-            Earn up to 100 Rock per day by completing 4 sections. Daily reset at 00:00 UTC.
+            Earn up to {missionSet ? missionSetMaxPoints(missionSet) : 100} Rock per day by completing {missionSet?.sections.length ?? 4} sections. Daily reset at 00:00 UTC.
           </DialogDescription>
         </DialogHeader>
 
@@ -87,7 +183,7 @@ export default function TasksInfoDialog() {
                   </svg>
                 </div>
                 <p className="text-xl font-bold">{streak?.current ?? 0}</p>
-                <p className="text-[10px] text-muted-foreground">Best: {streak?.best ?? 0}</p>
+                <p className="text-[10px] text-muted-foreground">Best: {streak?.best ?? 0} · Freezes: {streak?.freezes ?? 0}</p>
               </div>
 
               {/* Today's Rock */}
@@ -96,49 +192,51 @@ export default function TasksInfoDialog() {
                   <span className="text-xs text-muted-foreground">Today</span>
                   <Image src="/icons/Volcanic_Rock.svg" alt="Rock" width={16} height={16} />
                 </div>
-                <p className="text-xl font-bold">{missionPts} / 100</p>
+                <p className="text-xl font-bold">{missionPts} / {missionSet ? missionSetMaxPoints(missionSet) : 100}</p>
                 <p className="text-[10px] text-muted-foreground">Lifetime: {missionTotal}</p>
               </div>
             </div>
 
-            {/* Task Sections */}
-            <div className="space-y-3 text-sm">
-              <div>
-                <div className="font-medium">Section 1 - General (30 Rocks)</div>
-                <ul className="list-disc pl-5 text-muted-foreground text-xs space-y-1 mt-1">
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s1?.makeSwap ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Make a SEED swap</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s1?.stakeSeed ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Stake SEED</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s1?.claimStake ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Claim stake rewards</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s1?.placeOrder ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Place a SEED/LEAF order</li>
-                </ul>
-              </div>
-              <div>
-                <div className="font-medium">Section 2 - Social (20 Rocks)</div>
-                <ul className="list-disc pl-5 text-muted-foreground text-xs space-y-1 mt-1">
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s2?.followPlayer ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Follow a player</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s2?.chatMessage ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Send a message in public chat</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s2?.visitProfile ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Visit a profile</li>
-                </ul>
+            {/* Streak freezes, repair and milestones */}
+            {address && streakConfig && (
+              <div className="mb-4 space-y-2">
+                {streak?.repairable && streak.repairable.until > Date.now() && (
+                  <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-2 space-y-2">
+                    <p className="text-xs">Your {streak.repairable.streak}-day streak broke. Repair it before {new Date(streak.repairable.until).toUTCString().slice(5, 22)} UTC.</p>
+                    <StreakPurchase action="repair" price={streakConfig.repairPriceSeed} config={streakConfig} address={address} onDone={setStreak} />
+                  </div>
+                )}
+                {(streak?.freezes ?? 0) < streakConfig.maxFreezes && (
+                  <StreakPurchase action="freeze" price={streakConfig.freezePriceSeed} config={streakConfig} address={address} onDone={setStreak} />
+                )}
+                <p className="text-[10px] text-muted-foreground">
+                  Freezes cover missed days automatically (max {streakConfig.maxFreezes}); finishing all daily tasks earns one.
+                  {streakConfig.milestones.length > 0 && ` Rewards at ${streakConfig.milestones.map((m) => `${m.days}`).join(' / ')} days.`}
+                </p>
+                {streakHistory.length > 0 && (
+                  <ul className="text-[10px] text-muted-foreground space-y-0.5">
+                    {streakHistory.slice(0, 5).map((event) => (
+                      <li key={`${event.type}-${event.at}-${event.day}`}>
+                        {event.day}: {STREAK_EVENT_LABELS[event.type] ?? event.type}{event.detail ? ` (${event.detail})` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
-              <div>
-                <div className="font-medium">Section 3 - Land (25 Rocks)</div>
-                <ul className="list-disc pl-5 text-muted-foreground text-xs space-y-1 mt-1">
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s3?.applyResources ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Apply resources/production to a plant</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s3?.sendQuest ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Send a farmer on a quest</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s3?.claimProduction ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Claim production from any building</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s3?.playCasinoGame ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Play a casino game (roulette/blackjack)</li>
-                </ul>
-              </div>
-              <div>
-                <div className="font-medium">Section 4 - Plant (25 Rocks)</div>
-                <ul className="list-disc pl-5 text-muted-foreground text-xs space-y-1 mt-1">
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s4?.buy10 ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Buy at least 10 elements</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s4?.buyShield ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Buy a shield/fence</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s4?.collectStar ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Collect a star by killing a plant</li>
-                  <li className="flex items-center gap-2"><span className={`inline-block w-2 h-2 rounded-full ${missionDay?.s4?.playArcade ? 'bg-green-500' : 'bg-muted-foreground/40'}`}></span> Play an arcade game (Box or Spin)</li>
-                </ul>
+            )}
+
+            {/* Task Sections */}
+            {missionSet && <MissionSections set={missionSet} progress={missionDay} />}
+
+            {weeklySet && (
+              <div className="mt-4 pt-3 border-t">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-sm">{weeklySet.title} (this week)</span>
+                  <span className="text-xs text-muted-foreground">{weeklyDay?.pts ?? 0} / {missionSetMaxPoints(weeklySet)}</span>
+                </div>
+                <MissionSections set={weeklySet} progress={weeklyDay} />
               </div>
-            </div>
+            )}
           </>
         )}
       </DialogContent>
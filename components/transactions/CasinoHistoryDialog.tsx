@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup } from '@/components/ui/toggle-group';
+import PlayingCard from '@/components/ui/PlayingCard';
+import { useTokenMetadata } from '@/hooks/useTokenMetadata';
+import { formatAddress, formatTokenAmount } from '@/lib/utils';
+import { verifyBlackjackHand, BLACKJACK_DEAL_ACTION, type BlackjackHandVerification } from '@/lib/blackjack-fairness';
+import { BET_TYPE_NAMES, RED_NUMBERS, type CasinoBetType } from '@/public/abi/casino-abi';
+import { BlackjackAction, getResultText } from '@/public/abi/blackjack-abi';
+import type { BlackjackHandRecord, CasinoHistory, CasinoTokenResult, CasinoTokenStats, RouletteRound } from '@/lib/casino-history';
+
+type CasinoGame = 'roulette' | 'blackjack';
+
+const ACTION_NAMES: Record<number, string> = {
+  [BLACKJACK_DEAL_ACTION]: 'Deal',
+  [BlackjackAction.HIT]: 'Hit',
+  [BlackjackAction.STAND]: 'Stand',
+  [BlackjackAction.DOUBLE]: 'Double',
+  [BlackjackAction.SPLIT]: 'Split',
+  [BlackjackAction.SURRENDER]: 'Surrender',
+};
+
+const txLink = (hash: string) => `https://basescan.org/tx/${hash}`;
+
+function formatTime(ts: number): string {
+  return new Date(ts * 1000).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function TokenAmount({ amount, token, signed = false }: { amount: string; token: string; signed?: boolean }) {
+  const { symbol, decimals } = useTokenMetadata(token);
+  const value = BigInt(amount);
+  const abs = value < BigInt(0) ? -value : value;
+  const sign = signed ? (value > BigInt(0) ? '+' : value < BigInt(0) ? '-' : '') : '';
+  return <span>{sign}{formatTokenAmount(abs, decimals ?? 18)} {symbol || formatAddress(token)}</span>;
+}
+
+function NetStat({ label, result, token }: { label: string; result: CasinoTokenResult; token: string }) {
+  const net = BigInt(result.net);
+  return (
+    <div className="flex flex-wrap justify-between gap-2">
+      <span className="text-muted-foreground">{label} • {result.games} games</span>
+      <span className={net >= BigInt(0) ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+        <TokenAmount amount={result.net} token={token} signed />
+      </span>
+    </div>
+  );
+}
+
+function StatusLabel({ status }: { status: RouletteRound['status'] }) {
+  if (status === 'pending') return <span className="text-amber-600">Pending</span>;
+  if (status === 'expired') return <span className="text-muted-foreground">Expired</span>;
+  return null;
+}
+
+function RouletteRow({ round }: { round: RouletteRound }) {
+  const color = round.winningNumber === null ? '' : round.winningNumber === 0 ? 'bg-green-600' : RED_NUMBERS.includes(round.winningNumber) ? 'bg-red-600' : 'bg-gray-800';
+  return (
+    <div className="p-2 space-y-1 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {round.winningNumber !== null && (
+            <span className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-white font-bold ${color}`}>{round.winningNumber}</span>
+          )}
+          <StatusLabel status={round.status} />
+          {round.status === 'settled' && (
+            <span className={round.won ? 'text-green-600 font-medium' : 'text-muted-foreground'}>{round.won ? 'Won' : 'Lost'}</span>
+          )}
+        </div>
+        <span className="text-muted-foreground">{formatTime(round.placedAt)}</span>
+      </div>
+      <div className="flex flex-wrap justify-between gap-2">
+        <span>Bet <TokenAmount amount={round.wagered} token={round.token} /></span>
+        {round.status === 'settled' && <span>Paid <TokenAmount amount={round.payout} token={round.token} /></span>}
+      </div>
+      <div className="text-muted-foreground">
+        {round.bets.map((bet) => (
+          <span key={bet.betIndex} className="mr-2">
+            {BET_TYPE_NAMES[bet.betType as CasinoBetType] ?? `Bet ${bet.betType}`}
+            {bet.betNumbers && bet.betNumbers.length > 0 && bet.betNumbers.length <= 6 ? ` (${bet.betNumbers.join(', ')})` : ''}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-3 text-muted-foreground">
+        <a href={txLink(round.placeTx)} target="_blank" rel="noopener noreferrer" className="underline">Bet tx</a>
+        {round.settleTx && <a href={txLink(round.settleTx)} target="_blank" rel="noopener noreferrer" className="underline">Spin tx</a>}
+      </div>
+    </div>
+  );
+}
+
+const Check = ({ ok, children }: { ok: boolean; children: React.ReactNode }) => (
+  <div className="flex items-start gap-1.5">
+    {ok ? <CheckCircle2 className="w-3.5 h-3.5 text-green-600 shrink-0 mt-0.5" /> : <XCircle className="w-3.5 h-3.5 text-red-600 shrink-0 mt-0.5" />}
+    <span>{children}</span>
+  </div>
+);
+
+function VerificationView({ verification }: { verification: BlackjackHandVerification }) {
+  const { totals, result } = verification;
+  const totalOk = (t: { logged: number | null; recomputed: number } | null) => !t || t.logged === null || t.logged === t.recomputed;
+  return (
+    <div className="space-y-1.5 rounded-md border border-border bg-muted/30 p-2 text-[11px]">
+      <div className={`font-medium ${verification.verified ? 'text-green-600' : 'text-red-600'}`}>
+        {verification.verified ? 'Hand verified' : 'Verification failed'}
+      </div>
+      <div className="text-muted-foreground">Randomness signer: {verification.signer ? formatAddress(verification.signer) : 'unavailable'}</div>
+      {verification.seeds.map((seed) => (
+        <Check key={`${seed.txHash}-${seed.nonce}`} ok={seed.signatureValid}>
+          {ACTION_NAMES[seed.action] ?? `Action ${seed.action}`}{seed.handIndex > 0 ? ` (hand ${seed.handIndex + 1})` : ''} • nonce {seed.nonce.toString()} • seed {seed.randomSeed.slice(0, 10)}… signed by {seed.recoveredSigner ? formatAddress(seed.recoveredSigner) : 'unknown'}
+          {!seed.signatureValid && seed.expectedSigner && <> (expected {formatAddress(seed.expectedSigner)})</>}
+        </Check>
+      ))}
+      {verification.seeds.length === 0 && <Check ok={false}>No signed seeds found in this hand&apos;s transactions</Check>}
+      {verification.unmatchedTxs.length > 0 && (
+        <div className="text-muted-foreground">{verification.unmatchedTxs.length} transaction(s) carried no signed seed</div>
+      )}
+      <Check ok={verification.noncesSequential}>Nonces are consecutive</Check>
+      <Check ok={totalOk(totals.player) && totalOk(totals.split) && totalOk(totals.dealer)}>
+        Totals from cards: you {totals.player.recomputed}{totals.split ? ` / ${totals.split.recomputed}` : ''}, dealer {totals.dealer.recomputed}
+      </Check>
+      {result.expected !== null ? (
+        <Check ok={result.expected === result.logged}>
+          Expected result {getResultText(result.expected) || '—'}, contract reported {result.logged !== null ? getResultText(result.logged) || '—' : '—'}
+        </Check>
+      ) : (
+        <div className="text-muted-foreground">Split hands settle under one result code, so only their totals are checked.</div>
+      )}
+      <div className="text-muted-foreground">Cards are drawn onchain from these seeds; a valid signature shows each seed came from the game's randomness signer for exactly this action and nonce.</div>
+    </div>
+  );
+}
+
+function BlackjackRow({ hand, landId }: { hand: BlackjackHandRecord; landId: bigint }) {
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<BlackjackHandVerification | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+
+  const verify = async () => {
+    setVerifying(true);
+    setVerifyError(null);
+    try {
+      setVerification(await verifyBlackjackHand(landId, hand));
+    } catch (e: any) {
+      setVerifyError(e?.message || 'Could not load the hand\'s transactions');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="p-2 space-y-1.5 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <StatusLabel status={hand.status} />
+          {hand.result !== null && <span className="font-medium">{getResultText(hand.result)}</span>}
+        </div>
+        <span className="text-muted-foreground">{formatTime(hand.startedAt)}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground mr-1">You</span>
+          {hand.playerCards.map((card, i) => <PlayingCard key={`p${i}`} value={card} small />)}
+          {hand.splitCards.length > 0 && <span className="mx-1 text-muted-foreground">|</span>}
+          {hand.splitCards.map((card, i) => <PlayingCard key={`s${i}`} value={card} small />)}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground mr-1">Dealer</span>
+          {hand.dealerCards.map((card, i) => <PlayingCard key={`d${i}`} value={card} small />)}
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-between gap-2">
+        <span>Bet <TokenAmount amount={hand.bet} token={hand.token} /></span>
+        {hand.status === 'settled' && <span>Paid <TokenAmount amount={hand.payout} token={hand.token} /></span>}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-3 text-muted-foreground">
+          {hand.txs.map((tx, i) => (
+            <a key={tx} href={txLink(tx)} target="_blank" rel="noopener noreferrer" className="underline">tx {i + 1}</a>
+          ))}
+        </div>
+        {hand.status === 'settled' && !verification && (
+          <Button variant="outline" className="h-7 px-2 text-xs" onClick={verify} disabled={verifying}>
+            {verifying ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Verify'}
+          </Button>
+        )}
+      </div>
+      {verifyError && <div className="text-[11px] text-destructive">{verifyError}</div>}
+      {verification && <VerificationView verification={verification} />}
+    </div>
+  );
+}
+
+/**
+ * Recent Roulette rounds and Blackjack hands for a land, lifetime profit/loss per token, and a
+ * per-hand check of Blackjack's signed randomness.
+ */
+export default function CasinoHistoryDialog({
+  open,
+  onOpenChange,
+  landId,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  landId: bigint;
+}) {
+  const [game, setGame] = useState<CasinoGame>('roulette');
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['casinoHistory', landId.toString()],
+    queryFn: async (): Promise<CasinoHistory & { stats: CasinoTokenStats[] }> => {
+      const res = await fetch(`/api/casino/history?landId=${landId.toString()}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to load casino history');
+      return json;
+    },
+    enabled: open,
+    staleTime: 30_000,
+  });
+
+  const rounds = game === 'roulette' ? data?.roulette ?? [] : data?.blackjack ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Casino History</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : isError || !data ? (
+            <div className="text-xs text-muted-foreground text-center py-6">Casino history is unavailable right now.</div>
+          ) : (
+            <>
+              {data.stats.length > 0 && (
+                <div className="space-y-1 rounded-lg border border-border bg-card p-2 text-xs">
+                  <div className="font-medium">Lifetime profit / loss</div>
+                  {data.stats.map((row) => (
+                    <div key={row.token} className="space-y-0.5">
+                      {row.roulette && <NetStat label="Roulette" result={row.roulette} token={row.token} />}
+                      {row.blackjack && <NetStat label="Blackjack" result={row.blackjack} token={row.token} />}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <ToggleGroup
+                value={game}
+                onValueChange={(v) => setGame(v as CasinoGame)}
+                options={[
+                  { value: 'roulette', label: 'Roulette' },
+                  { value: 'blackjack', label: 'Blackjack' },
+                ]}
+                className="w-full"
+              />
+
+              <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-border bg-card divide-y divide-border">
+                {rounds.length === 0 ? (
+                  <div className="text-xs text-muted-foreground text-center py-6">No recent games</div>
+                ) : game === 'roulette' ? (
+                  data.roulette.map((round) => <RouletteRow key={round.id} round={round} />)
+                ) : (
+                  data.blackjack.map((hand) => <BlackjackRow key={hand.id} hand={hand} landId={landId} />)
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,7 @@ import { formatUnits, parseUnits, erc20Abi } from 'viem';
 import { Button } from '@/components/ui/button';
 import { useAccount } from 'wagmi';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 interface BatchClaimCardProps {
   lands: Land[];
@@ -326,7 +327,7 @@ export default function BatchClaimCard({ lands, onSuccess }: BatchClaimCardProps
                   if (txHash) {
                     payload.proof = { txHash };
                   }
-                  fetch('/api/gamification/missions', {
+                  sessionFetch('/api/gamification/missions', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(payload)
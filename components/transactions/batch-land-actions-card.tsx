@@ -0,0 +1,412 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2, AlertTriangle, Lock } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAccount } from 'wagmi';
+import { Land } from '@/lib/types';
+import { formatTokenAmount } from '@/lib/utils';
+import {
+  checkLandSpeedUpApproval,
+  checkLeafTokenApproval,
+  getLandBuildingsBatch,
+  getQuestSlotsBatch,
+  getReadClient,
+  simulateBatchCalls,
+  type LandBuildingsBatchResult,
+  type QuestSlot,
+} from '@/lib/contracts';
+import {
+  collectLandBatchItems,
+  LAND_BATCH_ACTIONS,
+  planLandBatch,
+  type LandBatchAction,
+  type LandBatchItem,
+} from '@/lib/land-batch-planner';
+import { ToggleGroup } from '@/components/ui/toggle-group';
+import SmartWalletTransaction from './smart-wallet-transaction';
+import { useSmartWallet } from '@/lib/smart-wallet-context';
+import { useBalances } from '@/lib/balance-context';
+import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
+
+interface BatchLandActionsCardProps {
+  lands: Land[];
+  onSuccess?: () => void;
+}
+
+interface LandScan {
+  buildings: LandBuildingsBatchResult[];
+  questSlots: Map<string, QuestSlot[]>;
+  currentBlock: bigint;
+  leafAllowance: bigint;
+  pixotchiAllowance: bigint;
+}
+
+const isUserRejection = (e: any) => {
+  const msg = String(e?.message || e || '').toLowerCase();
+  return e?.code === 4001 || e?.cause?.code === 4001 || e?.name === 'UserRejectedRequestError' || msg.includes('user rejected');
+};
+
+const itemCost = (item: LandBatchItem) => {
+  if (item.leafCost > BigInt(0)) return `${formatTokenAmount(item.leafCost)} LEAF`;
+  if (item.pixotchiCost > BigInt(0)) return `${formatTokenAmount(item.pixotchiCost)} PIXOTCHI`;
+  return 'Gas only';
+};
+
+export default function BatchLandActionsCard({ lands, onSuccess }: BatchLandActionsCardProps) {
+  const [action, setAction] = useState<LandBatchAction>('upgrade');
+  const [questDifficulty, setQuestDifficulty] = useState(0);
+  const [scan, setScan] = useState<LandScan | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Items left out after a failed simulation or transaction, keyed by item key → reason
+  const [failures, setFailures] = useState<Map<string, string>>(new Map());
+  const [measuredGas, setMeasuredGas] = useState<Map<string, bigint>>(new Map());
+  const [simulating, setSimulating] = useState(false);
+  const [showPlan, setShowPlan] = useState(false);
+  const [completedThisSession, setCompletedThisSession] = useState(0);
+  // Key to force re-mount of Transaction component after each batch (resets button state)
+  const [txKey, setTxKey] = useState(0);
+  const { isSmartWallet } = useSmartWallet();
+  const { leafBalance, pixotchiBalance } = useBalances();
+  const { address } = useAccount();
+
+  const landIdsHash = useMemo(() =>
+    lands.map(l => l.tokenId.toString()).sort().join(','),
+    [lands]
+  );
+
+  const landName = useCallback((landId: bigint) => {
+    const land = lands.find(l => l.tokenId === landId);
+    return land?.name ? `${land.name} (#${landId})` : `Land #${landId}`;
+  }, [lands]);
+
+  const scanLands = useCallback(async () => {
+    if (lands.length === 0 || !address) return;
+
+    setLoading(true);
+    try {
+      const landIds = lands.map(l => l.tokenId);
+      const [buildings, questSlots, currentBlock, leafAllowance, pixotchiAllowance] = await Promise.all([
+        getLandBuildingsBatch(landIds),
+        getQuestSlotsBatch(landIds),
+        getReadClient().getBlockNumber(),
+        checkLeafTokenApproval(address),
+        checkLandSpeedUpApproval(address),
+      ]);
+      setScan({ buildings, questSlots, currentBlock, leafAllowance, pixotchiAllowance });
+    } catch (error) {
+      console.error("Failed to scan lands for batch actions:", error);
+    } finally {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [landIdsHash, address]);
+
+  useEffect(() => {
+    scanLands();
+    setFailures(new Map());
+    setCompletedThisSession(0);
+    setTxKey(0);
+  }, [scanLands]);
+
+  useEffect(() => {
+    const handler = () => scanLands();
+    window.addEventListener('buildings:refresh', handler);
+    return () => window.removeEventListener('buildings:refresh', handler);
+  }, [scanLands]);
+
+  const items = useMemo(() => {
+    if (!scan) return [];
+    return collectLandBatchItems({
+      action,
+      buildings: scan.buildings,
+      questSlots: scan.questSlots,
+      currentBlock: scan.currentBlock,
+      questDifficulty,
+    });
+  }, [scan, action, questDifficulty]);
+
+  const plan = useMemo(() => planLandBatch({
+    items: items.filter(item => !failures.has(item.key)),
+    leafBalance,
+    pixotchiBalance,
+    leafAllowance: scan?.leafAllowance ?? BigInt(0),
+    pixotchiAllowance: scan?.pixotchiAllowance ?? BigInt(0),
+    measuredGas,
+  }), [items, failures, leafBalance, pixotchiBalance, scan, measuredGas]);
+
+  const batchSignature = useMemo(() =>
+    `${plan.approvalCount}|${plan.batch.map(item => item.key).join(',')}`,
+    [plan]
+  );
+
+  // Pre-flight the next batch so a land whose call would revert is dropped (and reported)
+  // instead of failing the whole batch
+  useEffect(() => {
+    if (!address || !isSmartWallet || plan.batch.length === 0) return;
+    let cancelled = false;
+    setSimulating(true);
+    simulateBatchCalls(address, plan.calls)
+      .then((results) => {
+        if (cancelled || !results) return;
+        const failed = new Map<string, string>();
+        const gas = new Map<string, bigint>();
+        plan.batch.forEach((item, index) => {
+          const result = results[plan.approvalCount + index];
+          if (!result) return;
+          if (result.status === 'failure') failed.set(item.key, result.error || 'Would revert');
+          else gas.set(item.key, result.gasUsed);
+        });
+        if (gas.size > 0) setMeasuredGas(prev => new Map([...prev, ...gas]));
+        if (failed.size > 0) setFailures(prev => new Map([...prev, ...failed]));
+      })
+      .finally(() => {
+        if (!cancelled) setSimulating(false);
+      });
+    return () => {
+      cancelled = true;
+      setSimulating(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [batchSignature, address, isSmartWallet]);
+
+  // Per-land report of everything that won't be (or wasn't) sent
+  const problemsByLand = useMemo(() => {
+    const byLand = new Map<string, { landId: bigint; lines: string[] }>();
+    const add = (item: LandBatchItem, reason: string) => {
+      const key = item.landId.toString();
+      const entry = byLand.get(key) ?? { landId: item.landId, lines: [] };
+      entry.lines.push(`${item.label}: ${reason}`);
+      byLand.set(key, entry);
+    };
+    items.forEach(item => {
+      const reason = failures.get(item.key);
+      if (reason) add(item, reason);
+    });
+    plan.skipped.forEach(({ item, reason }) => add(item, reason));
+    return [...byLand.values()];
+  }, [items, failures, plan.skipped]);
+
+  const batchByLand = useMemo(() => {
+    const byLand = new Map<string, { landId: bigint; items: LandBatchItem[] }>();
+    plan.batch.forEach(item => {
+      const key = item.landId.toString();
+      const entry = byLand.get(key) ?? { landId: item.landId, items: [] };
+      entry.items.push(item);
+      byLand.set(key, entry);
+    });
+    return [...byLand.values()];
+  }, [plan.batch]);
+
+  const handleSuccess = (tx: any) => {
+    const sent = plan.batch;
+    const landCount = new Set(sent.map(item => item.landId.toString())).size;
+    setCompletedThisSession(n => n + sent.length);
+    setTxKey(k => k + 1);
+    toast.success(`${LAND_BATCH_ACTIONS.find(a => a.value === action)?.label} sent for ${sent.length} item${sent.length === 1 ? '' : 's'} on ${landCount} land${landCount === 1 ? '' : 's'}`);
+
+    scanLands();
+    if (onSuccess) onSuccess();
+    window.dispatchEvent(new Event('balances:refresh'));
+    window.dispatchEvent(new Event('buildings:refresh'));
+
+    if (sent.some(item => item.call.functionName === 'questStart')) {
+      try {
+        const payload: Record<string, unknown> = { address, taskId: 's3_send_quest' };
+        const txHash = extractTransactionHash(tx);
+        if (txHash) {
+          payload.proof = { txHash };
+        }
+        sessionFetch('/api/gamification/missions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload)
+        });
+      } catch { }
+    }
+  };
+
+  const handleError = (e: any) => {
+    if (isUserRejection(e)) {
+      toast.error('Batch cancelled');
+      return;
+    }
+    // Batches are atomic, so every land in it failed with the same reason
+    const reason = `Batch failed: ${e?.shortMessage || e?.message || 'unknown error'}`.slice(0, 160);
+    setFailures(prev => new Map([...prev, ...plan.batch.map(item => [item.key, reason] as const)]));
+    toast.error('Batch failed; affected lands are listed below');
+  };
+
+  if (lands.length < 2) return null;
+
+  if (loading && !scan) {
+    return (
+      <Card className="rounded-2xl border-dashed">
+        <CardContent className="py-6 flex justify-center items-center text-muted-foreground gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm">Scanning buildings and quests...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!scan) return null;
+
+  const hasQuestStarts = items.some(item => item.call.functionName === 'questStart');
+
+  return (
+    <Card className="rounded-2xl">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex justify-between items-center pb-2 border-b border-border/50">
+          <span className="font-semibold">All Lands</span>
+          <div className="flex items-center gap-2 text-xs">
+            {completedThisSession > 0 && (
+              <span className="text-green-700 dark:text-green-400 font-medium">
+                ✓ {completedThisSession} done
+              </span>
+            )}
+            <span className="text-muted-foreground">{lands.length} lands</span>
+          </div>
+        </div>
+
+        <ToggleGroup
+          value={action}
+          onValueChange={(v) => { if (v) setAction(v as LandBatchAction); }}
+          options={LAND_BATCH_ACTIONS.map(({ value, label }) => ({ value, label }))}
+          className="w-full"
+        />
+        <p className="text-xs text-muted-foreground text-center">
+          {LAND_BATCH_ACTIONS.find(a => a.value === action)?.description}
+        </p>
+
+        {action === 'quest' && hasQuestStarts && (
+          <ToggleGroup
+            value={String(questDifficulty)}
+            onValueChange={(v) => setQuestDifficulty(Number(v || 0))}
+            options={[
+              { value: '0', label: <span>Easy <span className="text-xs text-muted-foreground">(3h)</span></span> },
+              { value: '1', label: <span>Med <span className="text-xs text-muted-foreground">(6h)</span></span> },
+              { value: '2', label: <span>Hard <span className="text-xs text-muted-foreground">(12h)</span></span> },
+            ]}
+            className="w-full"
+          />
+        )}
+
+        {items.length === 0 ? (
+          <p className="text-sm text-center text-muted-foreground py-2">
+            {action === 'upgrade' ? 'No idle buildings to upgrade.' : action === 'speedup' ? 'No upgrades running.' : 'No quest slots need attention.'}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">This batch:</span>
+                <span className="font-semibold">
+                  {plan.batch.length} item{plan.batch.length === 1 ? '' : 's'} on {batchByLand.length} land{batchByLand.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              {(plan.leafCost > BigInt(0) || plan.pixotchiCost > BigInt(0)) && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Cost:</span>
+                  <span className="font-mono text-primary font-semibold">
+                    {plan.leafCost > BigInt(0) && `${formatTokenAmount(plan.leafCost)} LEAF`}
+                    {plan.leafCost > BigInt(0) && plan.pixotchiCost > BigInt(0) && ' + '}
+                    {plan.pixotchiCost > BigInt(0) && `${formatTokenAmount(plan.pixotchiCost)} PIXOTCHI`}
+                  </span>
+                </div>
+              )}
+              {plan.approvalCount > 0 && (
+                <p className="text-xs text-muted-foreground">Includes approving exactly this amount for the land contract.</p>
+              )}
+            </div>
+
+            {plan.totalBatches > 1 && (
+              <div className="p-2 bg-blue-500/10 border border-blue-500/20 rounded-lg">
+                <div className="flex items-center gap-2 text-blue-700 dark:text-blue-400 text-xs">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                  <span>
+                    Split into {plan.totalBatches} batches to stay under the gas limit.
+                    Total: {plan.totalLeafCost > BigInt(0) ? `${formatTokenAmount(plan.totalLeafCost)} LEAF` : ''}
+                    {plan.totalPixotchiCost > BigInt(0) ? `${formatTokenAmount(plan.totalPixotchiCost)} PIXOTCHI` : ''}
+                    {plan.totalLeafCost === BigInt(0) && plan.totalPixotchiCost === BigInt(0) ? 'gas only' : ''}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end text-xs">
+              <button type="button" className="underline text-muted-foreground" onClick={() => setShowPlan(v => !v)}>
+                {showPlan ? 'Hide items' : 'Show items'}
+              </button>
+            </div>
+            {showPlan && (
+              <div className="max-h-56 overflow-y-auto rounded-md border border-border divide-y divide-border text-xs">
+                {batchByLand.map(({ landId, items: landItems }) => (
+                  <div key={landId.toString()} className="px-2 py-1.5 space-y-0.5">
+                    <div className="font-medium">{landName(landId)}</div>
+                    {landItems.map(item => (
+                      <div key={item.key} className="flex items-center justify-between gap-2 text-muted-foreground">
+                        <span className="truncate">{item.label}</span>
+                        <span className="whitespace-nowrap font-mono">{itemCost(item)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {problemsByLand.length > 0 && (
+          <div className="p-2 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-1 text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-value">
+                {problemsByLand.length} land{problemsByLand.length === 1 ? '' : 's'} left out
+              </span>
+              {failures.size > 0 && (
+                <button type="button" className="underline text-muted-foreground" onClick={() => setFailures(new Map())}>
+                  Retry failed
+                </button>
+              )}
+            </div>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {problemsByLand.map(({ landId, lines }) => (
+                <div key={landId.toString()}>
+                  <span className="font-medium">{landName(landId)}</span>
+                  {lines.map(line => (
+                    <div key={line} className="text-muted-foreground break-words">{line}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {plan.batch.length > 0 && (
+          !isSmartWallet ? (
+            <div className="p-3 bg-primary/10 border border-primary/20 rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-primary font-bold text-xs">
+                <Lock className="w-3 h-3" />
+                Smart Wallet Required
+              </div>
+            </div>
+          ) : (
+            <SmartWalletTransaction
+              key={txKey}
+              calls={plan.calls}
+              buttonText={simulating
+                ? 'Checking batch...'
+                : `${LAND_BATCH_ACTIONS.find(a => a.value === action)?.label} ${plan.totalBatches > 1 ? `Batch (${plan.batch.length})` : `All (${plan.batch.length})`}`}
+              buttonClassName="w-full font-bold h-9 text-sm"
+              disabled={simulating || loading}
+              onSuccess={handleSuccess}
+              onError={handleError}
+            />
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
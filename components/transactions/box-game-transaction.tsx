@@ -9,6 +9,7 @@ import { toast } from 'react-hot-toast';
 import { formatDuration, formatScore } from '@/lib/utils';
 import { useAccount } from 'wagmi';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 const BOX_GAME_ABI = [
   {
@@ -91,7 +92,7 @@ export default function BoxGameTransaction({
     const txHash = extractTransactionHash(tx);
     if (address && txHash) {
       try {
-        fetch('/api/gamification/missions', {
+        sessionFetch('/api/gamification/missions', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -13,6 +13,7 @@ import { decodeEventLog, formatUnits } from "viem";
 import type { LifecycleStatus } from "@coinbase/onchainkit/transaction";
 import { extractTransactionHash } from "@/lib/transaction-utils";
 import { useAccount } from "wagmi";
+import { sessionFetch } from "@/lib/session-client";
 
 interface CasinoTransactionProps {
     mode: "placeBets" | "reveal";
@@ -130,7 +131,7 @@ export default function CasinoTransaction({
                 const txHash = extractTransactionHash(receipts[0]);
                 if (txHash) {
                     try {
-                        fetch("/api/gamification/missions", {
+                        sessionFetch("/api/gamification/missions", {
                             method: "POST",
                             headers: { "Content-Type": "application/json" },
                             body: JSON.stringify({
@@ -5,6 +5,7 @@ import SponsoredTransaction from "./sponsored-transaction";
 import { PIXOTCHI_NFT_ADDRESS } from "@/lib/contracts";
 import { useAccount } from "wagmi";
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 const PIXOTCHI_NFT_ABI = [
   {
@@ -56,7 +57,7 @@ export default function KillTransaction({
     const txHash = extractTransactionHash(tx);
     if (address && txHash) {
       try {
-        fetch('/api/gamification/missions', {
+        sessionFetch('/api/gamification/missions', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -8,8 +8,10 @@ import { useAccount } from "wagmi";
 import { landAbi } from "@/public/abi/pixotchi-v3-abi";
 import { PIXOTCHI_TOKEN_ADDRESS, LAND_CONTRACT_ADDRESS, LEAF_CONTRACT_ADDRESS, ERC20_APPROVE_ABI, getTokenBalance, getLeafBalance, getReadClient, getSeedAllowanceForLand, getLeafAllowanceForLand } from '@/lib/contracts';
 import SponsoredTransaction from "@/components/transactions/sponsored-transaction";
+import MarketplaceHistory from "@/components/transactions/marketplace-history";
 import { toast } from "react-hot-toast";
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 type OrderView = {
   id: bigint;
@@ -350,7 +352,7 @@ export default function MarketplaceDialog({ open, onOpenChange, landId }: { open
     if (txHash) {
       payload.proof = { txHash };
     }
-    fetch('/api/gamification/missions', {
+    sessionFetch('/api/gamification/missions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload)
@@ -859,6 +861,9 @@ export default function MarketplaceDialog({ open, onOpenChange, landId }: { open
               </div>
             </div>
 
+            {/* Price history, fills and alerts */}
+            <MarketplaceHistory address={address} enabled={open} />
+
           </div>
         </div>
       </DialogContent>
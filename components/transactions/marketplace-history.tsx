@@ -0,0 +1,282 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup } from '@/components/ui/toggle-group';
+import { sessionFetch } from '@/lib/session-client';
+import { formatAddress } from '@/lib/utils';
+import type { MarketAlert, MarketAlertSide, MarketCandle, MarketCandleInterval, MarketFill, MarketTrade } from '@/lib/marketplace-service';
+
+const INTERVAL_OPTIONS: { value: MarketCandleInterval; label: string }[] = [
+  { value: '1h', label: '1H' },
+  { value: '4h', label: '4H' },
+  { value: '1d', label: '1D' },
+];
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 96;
+
+type HistoryView = 'trades' | 'fills' | 'alerts';
+
+function formatPrice(n: number): string {
+  if (!Number.isFinite(n) || n <= 0) return '—';
+  if (n >= 1000) return Math.round(n).toLocaleString();
+  if (n >= 1) return n.toFixed(2).replace(/\.?0+$/, '');
+  return n.toPrecision(3);
+}
+
+function formatAmount(wei: string): string {
+  const n = Number(wei) / 1e18;
+  if (n >= 1e6) return `${Math.round(n / 1e6)}M`;
+  if (n >= 1e3) return `${Math.round(n / 1e3)}K`;
+  return n >= 1 ? Math.round(n).toString() : n.toPrecision(3);
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts * 1000).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function CandleChart({ candles }: { candles: MarketCandle[] }) {
+  if (!candles.some((c) => c.trades > 0)) {
+    return <div className="py-6 text-center text-xs text-muted-foreground">No fills in this range yet.</div>;
+  }
+  const minV = Math.min(...candles.map((c) => c.low));
+  const maxV = Math.max(...candles.map((c) => c.high));
+  const spanV = Math.max(maxV - minV, maxV * 0.01, 1e-9);
+  const slot = CHART_WIDTH / candles.length;
+  const bodyWidth = Math.max(slot * 0.6, 1);
+  const y = (v: number) => CHART_HEIGHT - ((v - minV) / spanV) * (CHART_HEIGHT - 4) - 2;
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24" preserveAspectRatio="none">
+        {candles.map((c, i) => {
+          const x = i * slot + slot / 2;
+          const up = c.close >= c.open;
+          // Empty buckets carry the previous close forward as a flat tick
+          const color = c.trades === 0 ? 'hsl(var(--muted-foreground))' : up ? '#16a34a' : '#dc2626';
+          const top = y(Math.max(c.open, c.close));
+          const bottom = y(Math.min(c.open, c.close));
+          return (
+            <g key={c.t}>
+              <line x1={x} x2={x} y1={y(c.high)} y2={y(c.low)} stroke={color} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              <rect x={x - bodyWidth / 2} y={top} width={bodyWidth} height={Math.max(bottom - top, 1)} fill={color} opacity={c.trades === 0 ? 0.4 : 1} />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{formatTime(candles[0].t)}</span>
+        <span>{formatPrice(minV)} – {formatPrice(maxV)} LEAF/SEED</span>
+        <span>{formatTime(candles[candles.length - 1].t)}</span>
+      </div>
+    </div>
+  );
+}
+
+function TradeRow({ trade, role }: { trade: MarketTrade; role?: MarketFill['role'] }) {
+  return (
+    <div className="flex items-center justify-between gap-2 px-2 py-1.5 text-xs">
+      <span className={trade.side === 'buy' ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+        {trade.side === 'buy' ? 'Buy' : 'Sell'} LEAF{role ? ` • ${role}` : ''}
+      </span>
+      <span>{formatPrice(trade.price)}</span>
+      <span className="text-muted-foreground">{formatAmount(trade.leaf)} LEAF / {formatAmount(trade.seed)} SEED</span>
+      <span className="text-muted-foreground whitespace-nowrap">{formatTime(trade.timestamp)}</span>
+    </div>
+  );
+}
+
+/**
+ * Price chart, trade tape, the wallet's own fills and price alerts for the LEAF/SEED marketplace.
+ */
+export default function MarketplaceHistory({ address, enabled }: { address?: string; enabled: boolean }) {
+  const queryClient = useQueryClient();
+  const [interval, setInterval] = useState<MarketCandleInterval>('1h');
+  const [view, setView] = useState<HistoryView>('trades');
+  const [alertSide, setAlertSide] = useState<MarketAlertSide>('ask');
+  const [alertPrice, setAlertPrice] = useState('');
+  const [savingAlert, setSavingAlert] = useState(false);
+
+  const { data: history, isLoading, isError } = useQuery({
+    queryKey: ['marketplaceHistory', interval],
+    queryFn: async (): Promise<{ candles: MarketCandle[]; trades: MarketTrade[]; syncedAt: number | null }> => {
+      const res = await fetch(`/api/marketplace/history?interval=${interval}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to load marketplace history');
+      return json;
+    },
+    enabled,
+    staleTime: 60_000,
+  });
+
+  const { data: fills, isLoading: fillsLoading } = useQuery({
+    queryKey: ['marketplaceFills', address],
+    queryFn: async (): Promise<MarketFill[]> => {
+      const res = await sessionFetch(`/api/marketplace/fills?address=${address}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to load fills');
+      return json.fills;
+    },
+    enabled: enabled && !!address && view === 'fills',
+    staleTime: 60_000,
+  });
+
+  const { data: alerts } = useQuery({
+    queryKey: ['marketplaceAlerts', address],
+    queryFn: async (): Promise<MarketAlert[]> => {
+      const res = await sessionFetch(`/api/marketplace/alerts?address=${address}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to load alerts');
+      return json.alerts;
+    },
+    enabled: enabled && !!address && view === 'alerts',
+  });
+
+  const refreshAlerts = () => queryClient.invalidateQueries({ queryKey: ['marketplaceAlerts', address] });
+
+  const createAlert = async () => {
+    const price = Number(alertPrice);
+    if (!address || !Number.isFinite(price) || price <= 0) {
+      toast.error('Enter a price above 0');
+      return;
+    }
+    setSavingAlert(true);
+    try {
+      const res = await sessionFetch('/api/marketplace/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address, side: alertSide, price }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.success) throw new Error(json?.error || 'Failed to create alert');
+      setAlertPrice('');
+      toast.success('Alert set');
+      refreshAlerts();
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to create alert');
+    } finally {
+      setSavingAlert(false);
+    }
+  };
+
+  const deleteAlert = async (id: string) => {
+    try {
+      const res = await sessionFetch(`/api/marketplace/alerts?address=${address}&id=${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete alert');
+      refreshAlerts();
+    } catch (e: any) {
+      toast.error(e?.message || 'Failed to delete alert');
+    }
+  };
+
+  const lastPrice = history?.trades[0]?.price;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex items-center justify-between">
+        <span>Price{lastPrice ? ` • ${formatPrice(lastPrice)} LEAF/SEED` : ''}</span>
+        <ToggleGroup
+          value={interval}
+          onValueChange={(v) => setInterval(v as MarketCandleInterval)}
+          options={INTERVAL_OPTIONS}
+        />
+      </div>
+      <div className="rounded-lg border border-border bg-card p-2">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : isError || !history ? (
+          <div className="py-6 text-center text-xs text-muted-foreground">Market history is unavailable right now.</div>
+        ) : (
+          <CandleChart candles={history.candles} />
+        )}
+      </div>
+
+      <div className="flex items-center gap-1 text-xs">
+        <Button variant={view === 'trades' ? 'default' : 'outline'} className="h-8 px-3" onClick={() => setView('trades')}>Trades</Button>
+        {address && (
+          <>
+            <Button variant={view === 'fills' ? 'default' : 'outline'} className="h-8 px-3" onClick={() => setView('fills')}>My Fills</Button>
+            <Button variant={view === 'alerts' ? 'default' : 'outline'} className="h-8 px-3" onClick={() => setView('alerts')}>Alerts</Button>
+          </>
+        )}
+      </div>
+
+      {view === 'trades' && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-border bg-card divide-y divide-border">
+          {(history?.trades ?? []).length === 0 ? (
+            <div className="py-6 text-center text-xs text-muted-foreground">No trades yet</div>
+          ) : (
+            history!.trades.map((t) => <TradeRow key={`${t.orderId}-${t.txHash}`} trade={t} />)
+          )}
+        </div>
+      )}
+
+      {view === 'fills' && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-border bg-card divide-y divide-border">
+          {fillsLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (fills ?? []).length === 0 ? (
+            <div className="py-6 text-center text-xs text-muted-foreground">None of your orders have filled yet</div>
+          ) : (
+            fills!.map((f) => (
+              <div key={`${f.orderId}-${f.txHash}`}>
+                <TradeRow trade={f} role={f.role} />
+                <div className="px-2 pb-1.5 text-[10px] text-muted-foreground">
+                  Order #{f.orderId} • with {formatAddress(f.role === 'maker' ? f.taker : f.maker)}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {view === 'alerts' && (
+        <div className="space-y-2 rounded-lg border border-border bg-card p-2">
+          <div className="flex items-center gap-2">
+            <ToggleGroup
+              value={alertSide}
+              onValueChange={(v) => setAlertSide(v as MarketAlertSide)}
+              options={[
+                { value: 'ask', label: 'Ask ≤' },
+                { value: 'bid', label: 'Bid ≥' },
+              ]}
+            />
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              placeholder="LEAF per SEED"
+              value={alertPrice}
+              onChange={(e) => setAlertPrice(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <Button className="h-8 px-3 text-xs" disabled={savingAlert || !alertPrice} onClick={createAlert}>Add</Button>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Ask alerts fire when someone lists LEAF at or below your price; bid alerts when someone offers at or above it. Each alert fires once.
+          </p>
+          {(alerts ?? []).map((a) => (
+            <div key={a.id} className="flex items-center justify-between text-xs">
+              <span>
+                {a.side === 'ask' ? 'Ask ≤' : 'Bid ≥'} {formatPrice(a.price)}
+                {a.triggeredAt && (
+                  <span className="text-muted-foreground"> • hit {formatPrice(a.triggeredPrice ?? 0)} on {formatTime(Math.floor(a.triggeredAt / 1000))}</span>
+                )}
+              </span>
+              <button type="button" className="underline text-muted-foreground" onClick={() => deleteAlert(a.id)}>Remove</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {history?.syncedAt && (
+        <p className="text-[10px] text-muted-foreground text-right">Indexed {formatTime(Math.floor(history.syncedAt / 1000))}</p>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import type { LifecycleStatus } from "@coinbase/onchainkit/transaction";
 import { formatDuration, formatScore, formatTokenAmount } from "@/lib/utils";
 import { useAccount } from "wagmi";
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 const FUNCTION_MAP = {
   commit: "spinGameV2Commit",
@@ -110,7 +111,7 @@ export default function SpinGameTransaction({
         const txHash = extractTransactionHash(receipts[0]);
         if (txHash) {
           try {
-            fetch('/api/gamification/missions', {
+            sessionFetch('/api/gamification/missions', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
@@ -15,6 +15,7 @@ import type { TransactionCall } from '@/lib/types';
 import { useAccount } from 'wagmi';
 import { normalizeTransactionReceipt } from '@/lib/transaction-utils';
 import { getBuilderCapabilities, transformCallsWithBuilderCode } from '@/lib/builder-code';
+import { sessionFetch } from '@/lib/session-client';
 
 interface SponsoredTransactionProps {
   calls: TransactionCall[];
@@ -58,7 +59,7 @@ export default function SponsoredTransaction({
     try { window.dispatchEvent(new Event('balances:refresh')); } catch { }
     // Gamification: track daily activity (non-blocking)
     if (address) {
-      fetch('/api/gamification/streak', {
+      sessionFetch('/api/gamification/streak', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ address })
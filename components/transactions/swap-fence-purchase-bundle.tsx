@@ -5,6 +5,7 @@ import { useAccount } from 'wagmi';
 import SmartWalletTransaction from './smart-wallet-transaction';
 import { PIXOTCHI_TOKEN_ADDRESS, PIXOTCHI_NFT_ADDRESS, UNISWAP_ROUTER_ADDRESS, WETH_ADDRESS } from '@/lib/contracts';
 import { extractTransactionHash } from '@/lib/transaction-utils';
+import { sessionFetch } from '@/lib/session-client';
 
 // UniswapV2 Router ABI for swapExactETHForTokens
 const UNISWAP_ROUTER_ABI = [
@@ -142,7 +143,7 @@ export default function SwapFencePurchaseBundle({
                     if (txHash) {
                         payload.proof = { txHash };
                     }
-                    const res = await fetch('/api/gamification/missions', {
+                    const res = await sessionFetch('/api/gamification/missions', {
                         method: 'POST',
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify(payload)
@@ -52,6 +52,8 @@ import { useWallets as useSolanaPrivyWallets } from "@privy-io/react-auth/solana
 import { isSolanaEnabled } from "@/lib/solana-constants";
 import { useEthMode } from "@/lib/eth-mode-context";
 import { AirdropClaimCard } from "@/components/airdrop-claim-card";
+import NotificationSettings from "./notification-settings";
+import NotificationChannels from "./notification-channels";
 
 // Compact ETH Mode toggle row for Connection card
 const EthModeToggleRow = () => {
@@ -800,6 +802,10 @@ export function WalletProfile({ open, onOpenChange }: WalletProfileProps) {
               {/* Balances (consolidated) */}
               <BalanceCard variant="wallet-profile" />
 
+              {/* Notification preferences (by FID in the Mini App, by wallet elsewhere) and delivery channels */}
+              <NotificationSettings />
+              <NotificationChannels />
+
               {/* Actions */}
               <div className="pt-4 border-t border-border">
                 <div className="grid gap-2 mb-3">
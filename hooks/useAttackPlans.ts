@@ -0,0 +1,52 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getAttackOdds } from "@/lib/contracts";
+import {
+  DEFAULT_ATTACK_CALIBRATION,
+  candidatePairs,
+  rankAttackTargets,
+  type AttackCalibration,
+  type AttackPlan,
+} from "@/lib/attack-planner";
+import type { Plant } from "@/lib/types";
+
+export function useAttackCalibration(enabled: boolean = true) {
+  const query = useQuery<AttackCalibration>({
+    queryKey: ["attack-calibration"],
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    enabled,
+    queryFn: async () => {
+      const res = await fetch("/api/attack-planner/calibration");
+      const json = await res.json().catch(() => null);
+      return json?.success ? json.calibration : DEFAULT_ATTACK_CALIBRATION;
+    },
+  });
+  return query.data ?? DEFAULT_ATTACK_CALIBRATION;
+}
+
+/**
+ * Ranked attack plans per attacker (best expected PTS first) against the given targets.
+ * Contract odds are read in one multicall for the candidate pairs only.
+ */
+export function useAttackPlans(myPlants: Plant[], targets: Plant[], enabled: boolean) {
+  const calibration = useAttackCalibration(enabled);
+  const pairs = enabled ? candidatePairs(myPlants, targets) : [];
+  const pairKey = pairs.map((p) => `${p.fromId}:${p.toId}`).join(",");
+
+  const query = useQuery<Map<number, AttackPlan[]>>({
+    queryKey: ["attack-plans", pairKey, calibration.updatedAt],
+    staleTime: 1000 * 30,
+    enabled: enabled && pairs.length > 0,
+    queryFn: async () => {
+      const odds = await getAttackOdds(pairs);
+      return rankAttackTargets(myPlants, targets, odds, calibration);
+    },
+  });
+
+  return {
+    plans: query.data ?? new Map<number, AttackPlan[]>(),
+    calibration,
+    isLoading: query.isLoading && pairs.length > 0,
+  };
+}
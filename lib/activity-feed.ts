@@ -0,0 +1,242 @@
+import { ActivityEvent } from './types';
+import { dedupePlayedEvents, sortActivitiesDesc } from './activity-service';
+import { getOnchainActivity, recordOnchainServed } from './activity-indexer';
+import { getLandsByOwner, getPlantsByOwner } from './contracts';
+
+// Server-side activity feed: merges every Ponder event table into a single timestamp-ordered
+// stream with cursor pagination, so history is no longer capped at 100 items / 24h.
+
+const API_URL = process.env.NEXT_PUBLIC_PONDER_API_URL || 'https://api.mini.pixotchi.tech/graphql';
+
+export const ACTIVITY_PAGE_DEFAULT = 25;
+export const ACTIVITY_PAGE_MAX = 100;
+
+export type ActivityEventType = ActivityEvent['__typename'];
+
+type ActivitySource = {
+  type: ActivityEventType;
+  collection: string;
+  fields: string;
+  plantFields?: string[];
+  landFields?: string[];
+  addressFields?: string[];
+};
+
+const ACTIVITY_SOURCES: ActivitySource[] = [
+  { type: 'Attack', collection: 'attacks', fields: 'attacker winner loser attackerName winnerName loserName scoresWon', plantFields: ['attacker', 'winner', 'loser'] },
+  { type: 'Killed', collection: 'killeds', fields: 'nftId deadId winnerName loserName reward', plantFields: ['nftId', 'deadId'] },
+  { type: 'Mint', collection: 'mints', fields: 'nftId', plantFields: ['nftId'] },
+  { type: 'Played', collection: 'playeds', fields: 'nftId nftName gameName points timeExtension timeAdded leafAmount rewardIndex player', plantFields: ['nftId'], addressFields: ['player'] },
+  { type: 'ItemConsumed', collection: 'itemConsumeds', fields: 'nftId nftName giver itemId', plantFields: ['nftId'] },
+  { type: 'ShopItemPurchased', collection: 'shopItemPurchaseds', fields: 'nftId nftName giver itemId', plantFields: ['nftId'] },
+  { type: 'LandTransferEvent', collection: 'landTransferEvents', fields: 'from to tokenId blockHeight', landFields: ['tokenId'], addressFields: ['from', 'to'] },
+  { type: 'LandMintedEvent', collection: 'landMintedEvents', fields: 'to tokenId mintPrice blockHeight', landFields: ['tokenId'], addressFields: ['to'] },
+  { type: 'LandNameChangedEvent', collection: 'landNameChangedEvents', fields: 'tokenId name blockHeight', landFields: ['tokenId'] },
+  { type: 'VillageUpgradedWithLeafEvent', collection: 'villageUpgradedWithLeafEvents', fields: 'landId buildingId upgradeCost xp blockHeight', landFields: ['landId'] },
+  { type: 'VillageSpeedUpWithSeedEvent', collection: 'villageSpeedUpWithSeedEvents', fields: 'landId buildingId speedUpCost xp blockHeight', landFields: ['landId'] },
+  { type: 'TownUpgradedWithLeafEvent', collection: 'townUpgradedWithLeafEvents', fields: 'landId buildingId upgradeCost xp blockHeight', landFields: ['landId'] },
+  { type: 'TownSpeedUpWithSeedEvent', collection: 'townSpeedUpWithSeedEvents', fields: 'landId buildingId speedUpCost xp blockHeight', landFields: ['landId'] },
+  { type: 'QuestStartedEvent', collection: 'questStartedEvents', fields: 'landId farmerSlotId difficulty startBlock endBlock blockHeight', landFields: ['landId'] },
+  { type: 'QuestFinalizedEvent', collection: 'questFinalizedEvents', fields: 'landId farmerSlotId player rewardType amount blockHeight', landFields: ['landId'], addressFields: ['player'] },
+  { type: 'VillageProductionClaimedEvent', collection: 'villageProductionClaimedEvents', fields: 'landId buildingId blockHeight', landFields: ['landId'] },
+  { type: 'CasinoBuiltEvent', collection: 'casinoBuiltEvents', fields: 'landId builder token cost blockHeight', landFields: ['landId'], addressFields: ['builder'] },
+  { type: 'RouletteSpinResultEvent', collection: 'rouletteSpinResultEvents', fields: 'landId player winningNumber won payout bettingToken blockHeight', landFields: ['landId'], addressFields: ['player'] },
+  { type: 'BlackjackResultEvent', collection: 'blackjackResultEvents', fields: 'landId player result playerFinalValue dealerFinalValue payout bettingToken blockHeight', landFields: ['landId'], addressFields: ['player'] },
+];
+
+export const ACTIVITY_EVENT_TYPES: ActivityEventType[] = ACTIVITY_SOURCES.map((s) => s.type);
+
+export type ActivityFeedFilters = {
+  types?: ActivityEventType[];
+  plantId?: string;
+  landId?: string;
+  address?: string;
+  /** Unix seconds, inclusive */
+  from?: number;
+  /** Unix seconds, inclusive */
+  to?: number;
+};
+
+export type ActivityFeedPage = {
+  events: ActivityEvent[];
+  nextCursor: string | null;
+  source: 'ponder' | 'onchain';
+};
+
+// Position in the merged stream: everything strictly older than `t`, plus events at `t`
+// that were not already returned (several events often share a block timestamp).
+type FeedCursor = { t: string; ids: string[] };
+
+export function encodeActivityCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeActivityCursor(raw: string | null | undefined): FeedCursor | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof parsed?.t !== 'string' || !/^\d+$/.test(parsed.t) || !Array.isArray(parsed.ids)) return null;
+    return { t: parsed.t, ids: parsed.ids.filter((id: unknown) => typeof id === 'string').slice(0, ACTIVITY_PAGE_MAX) };
+  } catch {
+    return null;
+  }
+}
+
+type Ownership = { plantIds: string[]; landIds: string[]; address: string };
+
+async function resolveOwnership(address: string): Promise<Ownership> {
+  const [plants, lands] = await Promise.all([
+    getPlantsByOwner(address).catch(() => []),
+    getLandsByOwner(address).catch(() => []),
+  ]);
+  return {
+    plantIds: plants.map((p) => String(p.id)),
+    landIds: lands.map((l) => l.tokenId.toString()),
+    address: address.toLowerCase(),
+  };
+}
+
+// Sources that can possibly match the filters; a plant filter rules out land-only tables and so on
+function selectSources(filters: ActivityFeedFilters, owner: Ownership | null): ActivitySource[] {
+  return ACTIVITY_SOURCES.filter((s) => {
+    if (filters.types && filters.types.length > 0 && !filters.types.includes(s.type)) return false;
+    if (filters.plantId && !s.plantFields) return false;
+    if (filters.landId && !s.landFields) return false;
+    if (owner) {
+      const byPlant = s.plantFields && owner.plantIds.length > 0;
+      const byLand = s.landFields && owner.landIds.length > 0;
+      if (!byPlant && !byLand && !s.addressFields) return false;
+    }
+    return true;
+  });
+}
+
+function buildWhere(source: ActivitySource, filters: ActivityFeedFilters, owner: Ownership | null, hasBefore: boolean): string {
+  const clauses: string[] = [];
+  if (hasBefore) clauses.push('{ timestamp_lte: $before }');
+  if (filters.from !== undefined) clauses.push('{ timestamp_gte: $from }');
+  if (filters.plantId) clauses.push(`{ OR: [${source.plantFields!.map((f) => `{ ${f}: $plantId }`).join(', ')}] }`);
+  if (filters.landId) clauses.push(`{ OR: [${source.landFields!.map((f) => `{ ${f}: $landId }`).join(', ')}] }`);
+  if (owner) {
+    const any: string[] = [];
+    if (owner.plantIds.length > 0) source.plantFields?.forEach((f) => any.push(`{ ${f}_in: $ownedPlantIds }`));
+    if (owner.landIds.length > 0) source.landFields?.forEach((f) => any.push(`{ ${f}_in: $ownedLandIds }`));
+    source.addressFields?.forEach((f) => any.push(`{ ${f}: $address }`));
+    clauses.push(`{ OR: [${any.join(', ')}] }`);
+  }
+  return clauses.length > 0 ? `, where: { AND: [${clauses.join(', ')}] }` : '';
+}
+
+function compareActivityDesc(a: ActivityEvent, b: ActivityEvent) {
+  return sortActivitiesDesc(a, b) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+function paginate(events: ActivityEvent[], cursor: FeedCursor | null, limit: number): { page: ActivityEvent[]; nextCursor: string | null } {
+  const seen = new Set(cursor?.ids ?? []);
+  const remaining = cursor ? events.filter((e) => !(e.timestamp === cursor.t && seen.has(e.id))) : events;
+  const page = remaining.slice(0, limit);
+  if (remaining.length <= limit || page.length === 0) return { page, nextCursor: null };
+
+  const last = page[page.length - 1].timestamp;
+  const idsAtLast = page.filter((e) => e.timestamp === last).map((e) => e.id);
+  // Continuing a run of same-timestamp events from the previous page
+  const carried = cursor && cursor.t === last ? cursor.ids : [];
+  return { page, nextCursor: encodeActivityCursor({ t: last, ids: [...carried, ...idsAtLast] }) };
+}
+
+async function queryPonder(filters: ActivityFeedFilters, owner: Ownership | null, cursor: FeedCursor | null, limit: number): Promise<ActivityFeedPage> {
+  const sources = selectSources(filters, owner);
+  if (sources.length === 0) return { events: [], nextCursor: null, source: 'ponder' };
+
+  const beforeCandidates = [cursor ? BigInt(cursor.t) : null, filters.to !== undefined ? BigInt(filters.to) : null]
+    .filter((v): v is bigint => v !== null);
+  const before = beforeCandidates.length > 0 ? beforeCandidates.reduce((a, b) => (a < b ? a : b)) : null;
+
+  const variables: Record<string, unknown> = {};
+  const defs: string[] = [];
+  const declare = (name: string, type: string, value: unknown) => {
+    defs.push(`$${name}: ${type}`);
+    variables[name] = value;
+  };
+  if (before !== null) declare('before', 'BigInt', before.toString());
+  if (filters.from !== undefined) declare('from', 'BigInt', String(filters.from));
+  if (filters.plantId) declare('plantId', 'BigInt', filters.plantId);
+  if (filters.landId) declare('landId', 'BigInt', filters.landId);
+  if (owner) {
+    if (owner.plantIds.length > 0 && sources.some((s) => s.plantFields)) declare('ownedPlantIds', '[BigInt!]', owner.plantIds);
+    if (owner.landIds.length > 0 && sources.some((s) => s.landFields)) declare('ownedLandIds', '[BigInt!]', owner.landIds);
+    if (sources.some((s) => s.addressFields)) declare('address', 'String', owner.address);
+  }
+
+  // Over-fetch by the ids already served at the cursor timestamp so ties can't starve a page
+  const perSource = limit + (cursor?.ids.length ?? 0) + 1;
+  const body = sources.map((s) => `
+    ${s.collection}(orderBy: "timestamp", orderDirection: "desc", limit: ${perSource}${buildWhere(s, filters, owner, before !== null)}) {
+      items { __typename id timestamp ${s.fields} }
+    }`).join('');
+  const query = `query ActivityFeed${defs.length > 0 ? `(${defs.join(', ')})` : ''} {${body}\n}`;
+
+  const response = await fetch(API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+    cache: 'no-store',
+  });
+  if (!response.ok) {
+    throw new Error(`GraphQL request failed: ${response.statusText}`);
+  }
+  const json = await response.json();
+  if (json.errors) {
+    console.error('GraphQL Errors:', json.errors);
+    throw new Error('Error fetching activity feed');
+  }
+
+  const merged: ActivityEvent[] = sources.flatMap((s) => json.data?.[s.collection]?.items || []);
+  const deduped = dedupePlayedEvents(merged).sort(compareActivityDesc);
+  const { page, nextCursor } = paginate(deduped, cursor, limit);
+  return { events: page, nextCursor, source: 'ponder' };
+}
+
+// Same filtering over the log-based snapshot; it only covers recent plant events
+async function queryOnchain(filters: ActivityFeedFilters, owner: Ownership | null, cursor: FeedCursor | null, limit: number): Promise<ActivityFeedPage> {
+  const sources = selectSources(filters, owner);
+  const snapshot = await getOnchainActivity();
+  await recordOnchainServed(snapshot);
+  const { events } = snapshot;
+  const ownedPlants = new Set(owner?.plantIds ?? []);
+
+  const matches = events.filter((e) => {
+    const source = sources.find((s) => s.type === e.__typename);
+    if (!source) return false;
+    const ts = Number(e.timestamp);
+    if (filters.from !== undefined && ts < filters.from) return false;
+    if (filters.to !== undefined && ts > filters.to) return false;
+    const plantValues = (source.plantFields ?? []).map((f) => String((e as any)[f]));
+    if (filters.plantId && !plantValues.includes(filters.plantId)) return false;
+    if (owner && !plantValues.some((v) => ownedPlants.has(v))) return false;
+    return true;
+  });
+
+  const { page, nextCursor } = paginate(dedupePlayedEvents(matches).sort(compareActivityDesc), cursor, limit);
+  return { events: page, nextCursor, source: 'onchain' };
+}
+
+/**
+ * One page of the merged activity stream, newest first. Falls back to events rebuilt from
+ * contract logs when the indexer is unavailable.
+ */
+export async function getActivityFeed(
+  filters: ActivityFeedFilters,
+  options: { cursor?: string | null; limit?: number } = {}
+): Promise<ActivityFeedPage> {
+  const cursor = decodeActivityCursor(options.cursor);
+  const limit = Math.min(Math.max(1, options.limit ?? ACTIVITY_PAGE_DEFAULT), ACTIVITY_PAGE_MAX);
+  const owner = filters.address ? await resolveOwnership(filters.address) : null;
+
+  try {
+    return await queryPonder(filters, owner, cursor, limit);
+  } catch (error) {
+    console.error('[ActivityFeed] Ponder query failed, serving onchain fallback:', error);
+    return queryOnchain(filters, owner, cursor, limit);
+  }
+}
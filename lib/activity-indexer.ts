@@ -0,0 +1,199 @@
+import { parseAbiItem, type Log } from 'viem';
+import { getReadClient, getPlantsInfoExtended, PIXOTCHI_NFT_ADDRESS } from './contracts';
+import { redisGetJSON, redisSetJSON } from './redis';
+import type { ActivityEvent } from './types';
+
+// Fallback activity source used when the Ponder GraphQL API is unavailable.
+// Rebuilds recent plant events straight from PixotchiNFT logs.
+
+const BLOCK_WINDOW = BigInt(process.env.ACTIVITY_FALLBACK_BLOCK_WINDOW || 43_200); // ~24h of Base blocks
+const CHUNK_SIZE = BigInt(process.env.ACTIVITY_FALLBACK_CHUNK_SIZE || 5_000);
+const CACHE_TTL_SECONDS = Number(process.env.ACTIVITY_FALLBACK_CACHE_TTL || 60);
+const MAX_EVENTS = 500;
+// Base produces a block every 2s, so timestamps can be derived from the head block
+const BASE_BLOCK_TIME_SECONDS = BigInt(2);
+const NAME_LOOKUP_BATCH = 100;
+const ONE = BigInt(1);
+
+const CACHE_KEY = 'activity:onchain:recent';
+const SERVED_KEY = 'activity:onchain:served';
+
+const NFT_EVENTS = [
+  parseAbiItem('event Attack(uint256 attacker, uint256 winner, uint256 loser, uint256 scoresWon)'),
+  parseAbiItem('event Killed(uint256 nftId, uint256 deadId, string loserName, uint256 reward, address killer, string winnerName)'),
+  parseAbiItem('event Mint(address to, uint256 strain, uint256 id)'),
+  parseAbiItem('event Played(uint256 indexed id, uint256 points, uint256 timeExtension, string gameName)'),
+  parseAbiItem('event PlayedV2(uint256 indexed id, int256 points, int256 timeExtension, string gameName)'),
+  parseAbiItem('event ItemConsumed(uint256 nftId, address giver, uint256 itemId)'),
+] as const;
+
+type NftEventLog = Log<bigint, number, false, undefined, true, typeof NFT_EVENTS>;
+
+export type OnchainActivitySnapshot = {
+  events: ActivityEvent[];
+  fromBlock: string;
+  toBlock: string;
+  generatedAt: number;
+};
+
+export type OnchainServedInfo = {
+  at: number;
+  events: number;
+  toBlock: string;
+};
+
+async function fetchLogsChunked(fromBlock: bigint, toBlock: bigint): Promise<NftEventLog[]> {
+  const client = getReadClient();
+  const logs: NftEventLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
+    const end = start + CHUNK_SIZE - ONE > toBlock ? toBlock : start + CHUNK_SIZE - ONE;
+    const chunk = await client.getLogs({
+      address: PIXOTCHI_NFT_ADDRESS,
+      events: NFT_EVENTS,
+      fromBlock: start,
+      toBlock: end,
+      strict: true,
+    }) as NftEventLog[];
+    logs.push(...chunk);
+  }
+  return logs;
+}
+
+function toActivityEvent(log: NftEventLog, timestamp: string): ActivityEvent | null {
+  const id = `${log.transactionHash}-${log.logIndex}`;
+  switch (log.eventName) {
+    case 'Attack':
+      return {
+        __typename: 'Attack',
+        id,
+        timestamp,
+        attacker: log.args.attacker.toString(),
+        winner: log.args.winner.toString(),
+        loser: log.args.loser.toString(),
+        scoresWon: log.args.scoresWon.toString(),
+        attackerName: '',
+        winnerName: '',
+        loserName: '',
+      };
+    case 'Killed':
+      return {
+        __typename: 'Killed',
+        id,
+        timestamp,
+        nftId: log.args.nftId.toString(),
+        deadId: log.args.deadId.toString(),
+        killer: log.args.killer,
+        winnerName: log.args.winnerName,
+        loserName: log.args.loserName,
+        reward: log.args.reward.toString(),
+      };
+    case 'Mint':
+      return { __typename: 'Mint', id, timestamp, nftId: log.args.id.toString() };
+    case 'Played':
+    case 'PlayedV2':
+      return {
+        __typename: 'Played',
+        id,
+        timestamp,
+        nftId: log.args.id.toString(),
+        nftName: '',
+        points: log.args.points.toString(),
+        timeExtension: log.args.timeExtension.toString(),
+        gameName: log.args.gameName,
+      };
+    case 'ItemConsumed':
+      return {
+        __typename: 'ItemConsumed',
+        id,
+        timestamp,
+        nftId: log.args.nftId.toString(),
+        nftName: '',
+        giver: log.args.giver,
+        itemId: log.args.itemId.toString(),
+      };
+    default:
+      return null;
+  }
+}
+
+// Logs only carry token ids; resolve names in batches. Burned plants stay unnamed and
+// the renderers fall back to "Plant #id".
+async function fillPlantNames(events: ActivityEvent[]): Promise<void> {
+  const ids = new Set<number>();
+  for (const e of events) {
+    if (e.__typename === 'Attack') [e.attacker, e.winner, e.loser].forEach(id => ids.add(Number(id)));
+    if (e.__typename === 'Played' || e.__typename === 'ItemConsumed') ids.add(Number(e.nftId));
+  }
+
+  const names = new Map<string, string>();
+  const all = Array.from(ids);
+  for (let i = 0; i < all.length; i += NAME_LOOKUP_BATCH) {
+    try {
+      const plants = await getPlantsInfoExtended(all.slice(i, i + NAME_LOOKUP_BATCH));
+      plants.forEach(p => names.set(String(p.id), p.name));
+    } catch (error) {
+      console.warn('[activity-indexer] plant name lookup failed:', error);
+    }
+  }
+
+  for (const e of events) {
+    if (e.__typename === 'Attack') {
+      e.attackerName = names.get(e.attacker) || '';
+      e.winnerName = names.get(e.winner) || '';
+      e.loserName = names.get(e.loser) || '';
+    } else if (e.__typename === 'Played' || e.__typename === 'ItemConsumed') {
+      e.nftName = names.get(e.nftId) || '';
+    }
+  }
+}
+
+export async function buildOnchainActivity(): Promise<OnchainActivitySnapshot> {
+  const client = getReadClient();
+  const head = await client.getBlock();
+  const toBlock: bigint = head.number;
+  const fromBlock = toBlock > BLOCK_WINDOW ? toBlock - BLOCK_WINDOW : BigInt(0);
+
+  const logs = await fetchLogsChunked(fromBlock, toBlock);
+  const events: ActivityEvent[] = [];
+  for (const log of logs) {
+    const timestamp = (head.timestamp - (toBlock - log.blockNumber) * BASE_BLOCK_TIME_SECONDS).toString();
+    const event = toActivityEvent(log, timestamp);
+    if (event) events.push(event);
+  }
+
+  events.sort((a, b) => Number(b.timestamp) - Number(a.timestamp));
+  const recent = events.slice(0, MAX_EVENTS);
+  await fillPlantNames(recent);
+
+  return {
+    events: recent,
+    fromBlock: fromBlock.toString(),
+    toBlock: toBlock.toString(),
+    generatedAt: Date.now(),
+  };
+}
+
+/**
+ * Recent plant activity rebuilt from contract logs, cached briefly in Redis so a Ponder
+ * outage doesn't turn every activity tab load into a getLogs sweep.
+ */
+export async function getOnchainActivity(): Promise<OnchainActivitySnapshot> {
+  const cached = await redisGetJSON<OnchainActivitySnapshot>(CACHE_KEY);
+  if (cached) return cached;
+
+  const snapshot = await buildOnchainActivity();
+  await redisSetJSON(CACHE_KEY, snapshot, CACHE_TTL_SECONDS);
+  return snapshot;
+}
+
+export async function recordOnchainServed(snapshot: OnchainActivitySnapshot): Promise<void> {
+  await redisSetJSON<OnchainServedInfo>(SERVED_KEY, {
+    at: Date.now(),
+    events: snapshot.events.length,
+    toBlock: snapshot.toBlock,
+  }, 24 * 60 * 60);
+}
+
+export async function getOnchainServedInfo(): Promise<OnchainServedInfo | null> {
+  return redisGetJSON<OnchainServedInfo>(SERVED_KEY);
+}
@@ -1,19 +1,5 @@
 import { ActivityEvent, PlayedEvent } from './types';
-import { getPlantsByOwner, getLandsByOwner } from './contracts';
-
-// Updated to use unified indexer endpoint
-const API_URL = process.env.NEXT_PUBLIC_PONDER_API_URL || 'https://api.mini.pixotchi.tech/graphql';
-
-// Filter activities to last 24 hours
-function filterLast24Hours(activities: ActivityEvent[]): ActivityEvent[] {
-  const now = Math.floor(Date.now() / 1000); // Current timestamp in seconds
-  const twentyFourHoursAgo = now - (24 * 60 * 60); // 24 hours ago in seconds
-
-  return activities.filter(activity => {
-    const activityTimestamp = Number(activity.timestamp);
-    return activityTimestamp >= twentyFourHoursAgo;
-  });
-}
+import type { ActivityFeedFilters, ActivityFeedPage } from './activity-feed';
 
 function getPlayedRewardWeight(event: PlayedEvent): number {
   const pointsDelta = Number(event.points ?? '0');
@@ -28,7 +14,7 @@ function getPlayedRewardWeight(event: PlayedEvent): number {
   return weight;
 }
 
-function dedupePlayedEvents(activities: ActivityEvent[]): ActivityEvent[] {
+export function dedupePlayedEvents(activities: ActivityEvent[]): ActivityEvent[] {
   const result: ActivityEvent[] = [];
   const seen = new Map<string, { index: number; weight: number }>();
 
@@ -57,618 +43,30 @@ function dedupePlayedEvents(activities: ActivityEvent[]): ActivityEvent[] {
   return result;
 }
 
-const GET_ALL_ACTIVITY_QUERY = `
-  query GetAllActivity {
-    attacks(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        attacker
-        winner
-        loser
-        attackerName
-        winnerName
-        loserName
-        scoresWon
-      }
-    }
-    killeds(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-        deadId
-        winnerName
-        loserName
-        reward
-      }
-    }
-    mints(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-      }
-    }
-    playeds(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        nftName
-        gameName
-        points
-        timeExtension
-        timeAdded
-        leafAmount
-        rewardIndex
-        player
-      }
-    }
-    itemConsumeds(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        nftName
-        giver
-        itemId
-      }
-    }
-    shopItemPurchaseds(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        nftName
-        giver
-        itemId
-      }
-    }
-    landTransferEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        from
-        to
-        tokenId
-        blockHeight
-      }
-    }
-    landMintedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        to
-        tokenId
-        mintPrice
-        blockHeight
-      }
-    }
-    landNameChangedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        tokenId
-        name
-        blockHeight
-      }
-    }
-    villageUpgradedWithLeafEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        upgradeCost
-        xp
-        blockHeight
-      }
-    }
-    villageSpeedUpWithSeedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        speedUpCost
-        xp
-        blockHeight
-      }
-    }
-    townUpgradedWithLeafEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        upgradeCost
-        xp
-        blockHeight
-      }
-    }
-    townSpeedUpWithSeedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        speedUpCost
-        xp
-        blockHeight
-      }
-    }
-    questStartedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        farmerSlotId
-        difficulty
-        startBlock
-        endBlock
-        blockHeight
-      }
-    }
-    questFinalizedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        farmerSlotId
-        player
-        rewardType
-        amount
-        blockHeight
-      }
-    }
-    villageProductionClaimedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        blockHeight
-      }
-    }
-    casinoBuiltEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        builder
-        token
-        cost
-        blockHeight
-      }
-    }
-    rouletteSpinResultEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        player
-        winningNumber
-        won
-        payout
-        bettingToken
-        blockHeight
-      }
-    }
-    blackjackResultEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        player
-        result
-        playerFinalValue
-        dealerFinalValue
-        payout
-        bettingToken
-        blockHeight
-      }
-    }
-  }
-`;
-
-const GET_MY_ACTIVITY_QUERY = `
-  query GetMyActivity($plantIds: [BigInt!], $landIds: [BigInt!], $playerAddress: String!) {
-    attacks(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { OR: [{ attacker_in: $plantIds }, { loser_in: $plantIds }]}) {
-      items {
-        __typename
-        id
-        timestamp
-        attacker
-        winner
-        loser
-        attackerName
-        winnerName
-        loserName
-        scoresWon
-      }
-    }
-    killeds(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { OR: [{ nftId_in: $plantIds }, { deadId_in: $plantIds }]}) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-        deadId
-        winnerName
-        loserName
-        reward
-      }
-    }
-    mints(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { nftId_in: $plantIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-      }
-    }
-    playeds(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { nftId_in: $plantIds }) {
-        items {
-        __typename
-        id
-        timestamp
-        nftId
-        nftName
-        gameName
-        points
-        timeExtension
-        timeAdded
-        leafAmount
-        rewardIndex
-        player
-      }
-    }
-    itemConsumeds(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { nftId_in: $plantIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-        nftName
-        giver
-        itemId
-      }
-    }
-    shopItemPurchaseds(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { nftId_in: $plantIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        nftId
-        nftName
-        giver
-        itemId
-      }
-    }
-    landTransferEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { OR: [{ from: $playerAddress }, { to: $playerAddress }]}) {
-      items {
-        __typename
-        id
-        timestamp
-        from
-        to
-        tokenId
-        blockHeight
-      }
-    }
-    landMintedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { to: $playerAddress }) {
-      items {
-        __typename
-        id
-        timestamp
-        to
-        tokenId
-        mintPrice
-        blockHeight
-      }
-    }
-    landNameChangedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { tokenId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        tokenId
-        name
-        blockHeight
-      }
-    }
-    villageUpgradedWithLeafEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        upgradeCost
-        xp
-        blockHeight
-      }
-    }
-    villageSpeedUpWithSeedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        speedUpCost
-        xp
-        blockHeight
-      }
-    }
-    townUpgradedWithLeafEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        upgradeCost
-        xp
-        blockHeight
-      }
-    }
-    townSpeedUpWithSeedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        speedUpCost
-        xp
-        blockHeight
-      }
-    }
-    questStartedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        farmerSlotId
-        difficulty
-        startBlock
-        endBlock
-        blockHeight
-      }
-    }
-    questFinalizedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { player: $playerAddress }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        farmerSlotId
-        player
-        rewardType
-        amount
-        blockHeight
-      }
-    }
-    villageProductionClaimedEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { landId_in: $landIds }) {
-      items {
-        __typename
-        id
-        timestamp
-        landId
-        buildingId
-        blockHeight
-      }
-    }
-    casinoBuiltEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { builder: $playerAddress }) {
-        items {
-          __typename
-          id
-          timestamp
-          landId
-          builder
-          token
-          cost
-          blockHeight
-        }
-      }
-      rouletteSpinResultEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { player: $playerAddress }) {
-        items {
-          __typename
-          id
-          timestamp
-          landId
-          player
-          winningNumber
-          won
-          payout
-          bettingToken
-          blockHeight
-        }
-      }
-      blackjackResultEvents(orderBy: "timestamp", orderDirection: "desc", limit: 100, where: { player: $playerAddress }) {
-        items {
-          __typename
-          id
-          timestamp
-          landId
-          player
-          result
-          playerFinalValue
-          dealerFinalValue
-          payout
-          bettingToken
-          blockHeight
-        }
-      }
-  }
-`;
-
-
-export async function getAllActivity(): Promise<ActivityEvent[]> {
-  try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query: GET_ALL_ACTIVITY_QUERY }),
-      next: { revalidate: 60 } // Revalidate every 60 seconds
-    });
-
-    if (!response.ok) {
-      throw new Error(`GraphQL request failed: ${response.statusText}`);
-    }
-
-    const json = await response.json();
-
-    if (json.errors) {
-      console.error('GraphQL Errors:', json.errors);
-      throw new Error('Error fetching activity data');
-    }
-
-    const { data } = json;
-
-    const allActivities: ActivityEvent[] = [
-      ...(data.attacks?.items || []),
-      ...(data.killeds?.items || []),
-      ...(data.mints?.items || []),
-      ...(data.playeds?.items || []),
-      ...(data.itemConsumeds?.items || []),
-      ...(data.shopItemPurchaseds?.items || []),
-      ...(data.landTransferEvents?.items || []),
-      ...(data.landMintedEvents?.items || []),
-      ...(data.landNameChangedEvents?.items || []),
-      ...(data.villageUpgradedWithLeafEvents?.items || []),
-      ...(data.villageSpeedUpWithSeedEvents?.items || []),
-      ...(data.townUpgradedWithLeafEvents?.items || []),
-      ...(data.townSpeedUpWithSeedEvents?.items || []),
-      ...(data.questStartedEvents?.items || []),
-      ...(data.questFinalizedEvents?.items || []),
-      ...(data.villageProductionClaimedEvents?.items || []),
-      ...(data.casinoBuiltEvents?.items || []),
-      ...(data.rouletteSpinResultEvents?.items || []),
-      ...(data.blackjackResultEvents?.items || []),
-    ];
-
-    const deduped = dedupePlayedEvents(allActivities);
-
-    // Sort all activities by timestamp in descending order safely
-    deduped.sort((a, b) => {
-      const timeA = Number(a.timestamp);
-      const timeB = Number(b.timestamp);
-      if (isNaN(timeA) && isNaN(timeB)) return 0;
-      if (isNaN(timeA)) return 1;
-      if (isNaN(timeB)) return -1;
-      return timeB - timeA;
-    });
-
-    // Filter to last 24 hours and return all activities
-    return filterLast24Hours(deduped);
-
-  } catch (error) {
-    console.error('Failed to fetch recent activity:', error);
-    return []; // Return an empty array on error
-  }
+// Newest first; events without a parseable timestamp sink to the bottom
+export function sortActivitiesDesc(a: ActivityEvent, b: ActivityEvent): number {
+  const timeA = Number(a.timestamp);
+  const timeB = Number(b.timestamp);
+  if (isNaN(timeA) && isNaN(timeB)) return 0;
+  if (isNaN(timeA)) return 1;
+  if (isNaN(timeB)) return -1;
+  return timeB - timeA;
 }
 
-export async function getMyActivity(address: string): Promise<ActivityEvent[]> {
-  const userPlants = await getPlantsByOwner(address);
-  const plantIds = userPlants.map(p => p.id);
-
-  const userLands = await getLandsByOwner(address);
-  const landIds = userLands.map(l => l.tokenId.toString());
-
-  if (plantIds.length === 0 && landIds.length === 0) {
-    return [];
-  }
-
-  try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: GET_MY_ACTIVITY_QUERY,
-        variables: {
-          plantIds,
-          landIds,
-          playerAddress: address
-        }
-      }),
-      next: { revalidate: 60 }
-    });
-
-    if (!response.ok) {
-      throw new Error(`GraphQL request failed: ${response.statusText}`);
-    }
-
-    const json = await response.json();
-
-    if (json.errors) {
-      console.error('GraphQL Errors:', json.errors);
-      throw new Error('Error fetching personal activity data');
-    }
-
-    const { data } = json;
-
-    const myActivities: ActivityEvent[] = [
-      ...(data.attacks?.items || []),
-      ...(data.killeds?.items || []),
-      ...(data.mints?.items || []),
-      ...(data.playeds?.items || []),
-      ...(data.itemConsumeds?.items || []),
-      ...(data.shopItemPurchaseds?.items || []),
-      ...(data.landTransferEvents?.items || []),
-      ...(data.landMintedEvents?.items || []),
-      ...(data.landNameChangedEvents?.items || []),
-      ...(data.villageUpgradedWithLeafEvents?.items || []),
-      ...(data.villageSpeedUpWithSeedEvents?.items || []),
-      ...(data.townUpgradedWithLeafEvents?.items || []),
-      ...(data.townSpeedUpWithSeedEvents?.items || []),
-      ...(data.questStartedEvents?.items || []),
-      ...(data.questFinalizedEvents?.items || []),
-      ...(data.villageProductionClaimedEvents?.items || []),
-      ...(data.casinoBuiltEvents?.items || []),
-      ...(data.rouletteSpinResultEvents?.items || []),
-      ...(data.blackjackResultEvents?.items || []),
-    ];
-
-    const deduped = dedupePlayedEvents(myActivities);
-
-    // Sort all activities by timestamp in descending order safely
-    deduped.sort((a, b) => {
-      const timeA = Number(a.timestamp);
-      const timeB = Number(b.timestamp);
-      if (isNaN(timeA) && isNaN(timeB)) return 0;
-      if (isNaN(timeA)) return 1;
-      if (isNaN(timeB)) return -1;
-      return timeB - timeA;
-    });
-
-    return filterLast24Hours(deduped);
-
-  } catch (error) {
-    console.error('Failed to fetch personal activity:', error);
-    return [];
+export async function getActivityPage(filters: ActivityFeedFilters, cursor?: string | null): Promise<ActivityFeedPage> {
+  const params = new URLSearchParams();
+  if (filters.types && filters.types.length > 0) params.set('types', filters.types.join(','));
+  if (filters.plantId) params.set('plantId', filters.plantId);
+  if (filters.landId) params.set('landId', filters.landId);
+  if (filters.address) params.set('address', filters.address);
+  if (filters.from !== undefined) params.set('from', String(filters.from));
+  if (filters.to !== undefined) params.set('to', String(filters.to));
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`/api/activity?${params.toString()}`);
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) {
+    throw new Error(json?.error || `Activity request failed: ${response.statusText}`);
   }
-} 
\ No newline at end of file
+  return { events: json.events || [], nextCursor: json.nextCursor ?? null, source: json.source };
+}
@@ -0,0 +1,411 @@
+import { encodeFunctionData, erc20Abi, formatUnits, maxUint256, parseUnits } from 'viem';
+import {
+  PIXOTCHI_NFT_ADDRESS,
+  PIXOTCHI_TOKEN_ADDRESS,
+  LAND_CONTRACT_ADDRESS,
+  FENCE_V2_EXTENSION_ADDRESS,
+  STAKE_CONTRACT_ADDRESS,
+  getAllShopItems,
+  getAllGardenItems,
+  getFenceV2Config,
+  quoteFenceV2,
+  buildFenceV2PurchaseCall,
+  getStakeAllowance,
+  getStakeInfo,
+  getPlantsByOwner,
+  getLandsByOwner,
+} from './contracts';
+import { landAbi } from '@/public/abi/pixotchi-v3-abi';
+import { VILLAGE_BUILDING_NAMES } from './constants';
+import {
+  AgentCall,
+  buildAgentSeedApproveCall,
+  pullSeedWithSpendPermission,
+  sendAgentCalls,
+} from './agent-service';
+import {
+  AgentLedgerTotals,
+  acquireAgentSpendLock,
+  checkAgentBudget,
+  recordAgentSpend,
+  releaseAgentSpendLock,
+} from './agent-ledger';
+
+/**
+ * Game actions the Neural Seed agent can perform beyond minting.
+ *
+ * Actions with executor `agent` are paid with SEED pulled through the user's spend
+ * permission and sent from the agent smart account (the contracts accept purchases for
+ * any plant). Actions with executor `user` credit `msg.sender` on-chain (staking, land
+ * production), so the agent prepares the calls and the user signs them in the chat.
+ */
+
+export type AgentActionName =
+  | 'buy_shop_item'
+  | 'buy_garden_item'
+  | 'buy_fence'
+  | 'claim_production'
+  | 'stake'
+  | 'unstake';
+
+export type AgentActionRequest =
+  | { action: 'buy_shop_item'; plantIds: number[]; itemId: string }
+  | { action: 'buy_garden_item'; plantIds: number[]; itemId: string }
+  | { action: 'buy_fence'; plantId: number; days: number }
+  | { action: 'claim_production'; landId: number; buildingId: number }
+  | { action: 'stake'; amount: string }
+  | { action: 'unstake'; amount: string };
+
+export type AgentActionExecutor = 'agent' | 'user';
+
+export type AgentActionQuote = {
+  action: AgentActionName;
+  executor: AgentActionExecutor;
+  seedCostWei: bigint;
+  seedCost: string;
+  summary: string;
+  error?: string;
+};
+
+// Serializable call shape handed to the client for user-signed actions
+export type AgentUserCall = { to: `0x${string}`; data: `0x${string}`; value: string };
+
+export const AGENT_MAX_PLANTS_PER_ACTION = 10;
+
+export const AGENT_ACTION_EXECUTORS: Record<AgentActionName, AgentActionExecutor> = {
+  buy_shop_item: 'agent',
+  buy_garden_item: 'agent',
+  buy_fence: 'agent',
+  claim_production: 'user',
+  stake: 'user',
+  unstake: 'user',
+};
+
+const SHOP_BUY_ABI = [{
+  type: 'function',
+  name: 'shopBuyItem',
+  stateMutability: 'nonpayable',
+  inputs: [
+    { name: 'plantId', type: 'uint256' },
+    { name: 'itemId', type: 'uint256' },
+  ],
+  outputs: [],
+}] as const;
+
+const GARDEN_BUY_ABI = [{
+  type: 'function',
+  name: 'buyAccessory',
+  stateMutability: 'nonpayable',
+  inputs: [
+    { name: 'plantId', type: 'uint256' },
+    { name: 'itemId', type: 'uint256' },
+  ],
+  outputs: [],
+}] as const;
+
+// Only the Stake House entry points the agent prepares for the user to sign
+const STAKE_ABI = [
+  {
+    type: 'function',
+    name: 'stake',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'withdraw',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [],
+  },
+] as const;
+
+const formatSeed = (wei: bigint): string => {
+  const value = Number(formatUnits(wei, 18));
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+};
+
+const errorQuote = (action: AgentActionName, error: string): AgentActionQuote => ({
+  action,
+  executor: AGENT_ACTION_EXECUTORS[action],
+  seedCostWei: BigInt(0),
+  seedCost: '0',
+  summary: error,
+  error,
+});
+
+const toUserCall = (to: `0x${string}`, data: `0x${string}`): AgentUserCall => ({ to, data, value: '0' });
+
+// Shop items go through shopBuyItem, garden items through buyAccessory; both take (plantId, itemId)
+const encodeItemPurchase = (action: 'buy_shop_item' | 'buy_garden_item', plantId: number, itemId: string): `0x${string}` => {
+  const args = [BigInt(plantId), BigInt(itemId)] as const;
+  return action === 'buy_shop_item'
+    ? encodeFunctionData({ abi: SHOP_BUY_ABI, functionName: 'shopBuyItem', args })
+    : encodeFunctionData({ abi: GARDEN_BUY_ABI, functionName: 'buyAccessory', args });
+};
+
+/**
+ * Make sure every plant in the request belongs to the user. The agent spends the user's SEED,
+ * so it must never be steered into feeding someone else's plants.
+ */
+async function validatePlantOwnership(userAddress: string, plantIds: number[]): Promise<string | null> {
+  if (plantIds.length === 0) return 'No plants selected.';
+  if (plantIds.length > AGENT_MAX_PLANTS_PER_ACTION) {
+    return `At most ${AGENT_MAX_PLANTS_PER_ACTION} plants per action.`;
+  }
+  const owned = await getPlantsByOwner(userAddress);
+  const ownedIds = new Set(owned.map((p) => p.id));
+  const foreign = plantIds.filter((id) => !ownedIds.has(id));
+  if (foreign.length > 0) {
+    return `Plant${foreign.length > 1 ? 's' : ''} ${foreign.map((id) => `#${id}`).join(', ')} not owned by this wallet.`;
+  }
+  return null;
+}
+
+/**
+ * Price an action and validate it against the user's current assets.
+ */
+export async function quoteAgentAction(userAddress: string, request: AgentActionRequest): Promise<AgentActionQuote> {
+  const executor = AGENT_ACTION_EXECUTORS[request.action];
+
+  switch (request.action) {
+    case 'buy_shop_item':
+    case 'buy_garden_item': {
+      const plantIds = Array.from(new Set(request.plantIds.map(Number)));
+      const ownershipError = await validatePlantOwnership(userAddress, plantIds);
+      if (ownershipError) return errorQuote(request.action, ownershipError);
+
+      const items = request.action === 'buy_shop_item' ? await getAllShopItems() : await getAllGardenItems();
+      const item = items.find((i) => String(i.id) === String(request.itemId));
+      if (!item) return errorQuote(request.action, `Unknown item id ${request.itemId}.`);
+
+      const unit = BigInt(item.price || 0);
+      const total = unit * BigInt(plantIds.length);
+      return {
+        action: request.action,
+        executor,
+        seedCostWei: total,
+        seedCost: formatSeed(total),
+        summary: `Buy ${item.name} for ${plantIds.length} plant${plantIds.length > 1 ? 's' : ''} (${plantIds.map((id) => `#${id}`).join(', ')})`,
+      };
+    }
+    case 'buy_fence': {
+      const ownershipError = await validatePlantOwnership(userAddress, [request.plantId]);
+      if (ownershipError) return errorQuote(request.action, ownershipError);
+
+      const config = await getFenceV2Config();
+      const days = Math.floor(Number(request.days));
+      if (config && (days < config.minDurationDays || (config.maxDurationDays > 0 && days > config.maxDurationDays))) {
+        return errorQuote(request.action, `Fence duration must be between ${config.minDurationDays} and ${config.maxDurationDays} days.`);
+      }
+      const total = await quoteFenceV2(days);
+      if (total <= BigInt(0)) return errorQuote(request.action, 'Unable to quote Fence V2 right now.');
+      return {
+        action: request.action,
+        executor,
+        seedCostWei: total,
+        seedCost: formatSeed(total),
+        summary: `Buy ${days} day${days === 1 ? '' : 's'} of Fence V2 for plant #${request.plantId}`,
+      };
+    }
+    case 'claim_production': {
+      const lands = await getLandsByOwner(userAddress);
+      if (!lands.some((l) => Number(l.tokenId) === Number(request.landId))) {
+        return errorQuote(request.action, `Land #${request.landId} not owned by this wallet.`);
+      }
+      const buildingName = VILLAGE_BUILDING_NAMES[request.buildingId as keyof typeof VILLAGE_BUILDING_NAMES];
+      if (!buildingName) return errorQuote(request.action, `Building ${request.buildingId} does not produce resources.`);
+      return {
+        action: request.action,
+        executor,
+        seedCostWei: BigInt(0),
+        seedCost: '0',
+        summary: `Claim ${buildingName} production on land #${request.landId}`,
+      };
+    }
+    case 'stake':
+    case 'unstake': {
+      let amountWei: bigint;
+      try {
+        amountWei = parseUnits(String(request.amount || '0'), 18);
+      } catch {
+        return errorQuote(request.action, 'Invalid SEED amount.');
+      }
+      if (amountWei <= BigInt(0)) return errorQuote(request.action, 'Amount must be greater than zero.');
+      if (request.action === 'unstake') {
+        const info = await getStakeInfo(userAddress);
+        if (!info || info.staked < amountWei) {
+          return errorQuote(request.action, `Only ${formatSeed(info?.staked ?? BigInt(0))} SEED is staked.`);
+        }
+      }
+      return {
+        action: request.action,
+        executor,
+        // Staking moves SEED from the user's own wallet; nothing is pulled via spend permission
+        seedCostWei: BigInt(0),
+        seedCost: '0',
+        summary: `${request.action === 'stake' ? 'Stake' : 'Unstake'} ${formatSeed(amountWei)} SEED`,
+      };
+    }
+  }
+}
+
+/**
+ * Calls executed by the agent smart account after SEED has been pulled.
+ */
+export function buildAgentExecutedCalls(request: AgentActionRequest): Array<{ call: AgentCall; approveFor: `0x${string}` }> {
+  switch (request.action) {
+    case 'buy_shop_item':
+    case 'buy_garden_item': {
+      const plantIds = Array.from(new Set(request.plantIds.map(Number)));
+      return plantIds.map((plantId) => ({
+        approveFor: PIXOTCHI_NFT_ADDRESS,
+        call: {
+          to: PIXOTCHI_NFT_ADDRESS,
+          value: BigInt(0),
+          data: encodeItemPurchase(request.action, plantId, request.itemId),
+        },
+      }));
+    }
+    case 'buy_fence': {
+      const fence = buildFenceV2PurchaseCall(request.plantId, Math.floor(Number(request.days)));
+      return [{
+        approveFor: FENCE_V2_EXTENSION_ADDRESS,
+        call: {
+          to: fence.address,
+          value: BigInt(0),
+          data: encodeFunctionData({ abi: fence.abi, functionName: fence.functionName, args: fence.args }),
+        },
+      }];
+    }
+    default:
+      throw new Error(`Action ${request.action} is not executed by the agent`);
+  }
+}
+
+/**
+ * Calls the user signs from their own wallet for actions that credit `msg.sender`.
+ */
+export async function buildUserSignedCalls(userAddress: string, request: AgentActionRequest): Promise<AgentUserCall[]> {
+  switch (request.action) {
+    case 'claim_production':
+      return [{
+        to: LAND_CONTRACT_ADDRESS,
+        data: encodeFunctionData({
+          abi: landAbi,
+          functionName: 'villageClaimProduction',
+          args: [BigInt(request.landId), request.buildingId],
+        }),
+        value: '0',
+      }];
+    case 'stake': {
+      const calls: AgentUserCall[] = [];
+      const amountWei = parseUnits(String(request.amount), 18);
+      const allowance = await getStakeAllowance(userAddress).catch(() => BigInt(0));
+      if (allowance < amountWei) {
+        calls.push(toUserCall(PIXOTCHI_TOKEN_ADDRESS, encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [STAKE_CONTRACT_ADDRESS, maxUint256] })));
+      }
+      calls.push(toUserCall(STAKE_CONTRACT_ADDRESS, encodeFunctionData({ abi: STAKE_ABI, functionName: 'stake', args: [amountWei] })));
+      return calls;
+    }
+    case 'unstake':
+      return [toUserCall(STAKE_CONTRACT_ADDRESS, encodeFunctionData({ abi: STAKE_ABI, functionName: 'withdraw', args: [parseUnits(String(request.amount), 18)] }))];
+    default:
+      throw new Error(`Action ${request.action} is executed by the agent`);
+  }
+}
+
+export type AgentActionRunResult =
+  | {
+      ok: true;
+      quote: AgentActionQuote;
+      transactionHash?: string;
+      userCalls?: AgentUserCall[];
+    }
+  | { ok: false; status: number; error: string; quote?: AgentActionQuote; totals?: AgentLedgerTotals };
+
+/**
+ * Quote, budget-check and execute an action for a user.
+ * Agent-executed actions pull SEED through the spend permission and are recorded in the ledger;
+ * user-signed actions return the calls for the user's wallet.
+ */
+export async function runAgentAction(input: {
+  userAddress: string;
+  request: AgentActionRequest;
+  maxSeedCostWei?: bigint | null;
+  tool: string;
+  prompt?: string | null;
+}): Promise<AgentActionRunResult> {
+  const { userAddress, request, maxSeedCostWei, tool, prompt } = input;
+
+  const quote = await quoteAgentAction(userAddress, request);
+  if (quote.error) return { ok: false, status: 400, error: quote.error, quote };
+
+  if (maxSeedCostWei != null && quote.seedCostWei > maxSeedCostWei) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Price changed since the estimate (now ${quote.seedCost} SEED). Please confirm again.`,
+      quote,
+    };
+  }
+
+  if (quote.executor === 'user') {
+    return { ok: true, quote, userCalls: await buildUserSignedCalls(userAddress, request) };
+  }
+
+  const acquired = await acquireAgentSpendLock(userAddress);
+  if (!acquired.ok) {
+    return { ok: false, status: acquired.status, error: acquired.error, quote };
+  }
+  const { lock } = acquired;
+
+  try {
+    const budget = await checkAgentBudget(userAddress, quote.seedCostWei);
+    if (!budget.ok) {
+      return { ok: false, status: budget.status, error: budget.error, quote, totals: budget.totals };
+    }
+
+    const spend = await pullSeedWithSpendPermission(userAddress, quote.seedCostWei);
+    if (!spend.ok) {
+      return { ok: false, status: spend.status, error: spend.error, quote };
+    }
+
+    const actionCalls = buildAgentExecutedCalls(request);
+    const spenders = Array.from(new Set(actionCalls.map((c) => c.approveFor)));
+    const calls: AgentCall[] = [
+      ...spenders.map((spender) => buildAgentSeedApproveCall(spender)),
+      ...actionCalls.map((c) => c.call),
+    ];
+
+    let transactionHash: string;
+    try {
+      transactionHash = await sendAgentCalls(calls);
+    } catch (sendError) {
+      // SEED already moved to the agent account; keep the ledger truthful
+      await recordAgentSpend({
+        address: userAddress,
+        amountWei: spend.spentWei,
+        txHash: null,
+        tool,
+        summary: `Failed: ${quote.summary}`,
+        prompt,
+      });
+      throw sendError;
+    }
+
+    await recordAgentSpend({
+      address: userAddress,
+      amountWei: spend.spentWei,
+      txHash: transactionHash,
+      tool,
+      summary: quote.summary,
+      prompt,
+    });
+
+    return { ok: true, quote, transactionHash };
+  } finally {
+    await releaseAgentSpendLock(lock);
+  }
+}
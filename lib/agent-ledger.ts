@@ -0,0 +1,284 @@
+import { formatUnits, parseUnits } from 'viem';
+import { nanoid } from 'nanoid';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { PIXOTCHI_TOKEN_ADDRESS } from './contracts';
+
+/**
+ * Budget ledger for the Neural Seed agent smart account.
+ * Every SEED spend the agent makes on behalf of a user is recorded here, and
+ * per-user daily / rolling-period caps are enforced on top of the on-chain allowance.
+ */
+
+export type AgentLedgerEntry = {
+  id: string;
+  address: string;
+  amountWei: string;
+  amount: string;
+  token: 'SEED';
+  tokenAddress: string;
+  txHash: string | null;
+  tool: string;
+  summary: string;
+  promptExcerpt: string;
+  timestamp: number;
+};
+
+export type AgentLedgerCaps = {
+  dailyCapSeed: number;
+  periodCapSeed: number;
+  periodDays: number;
+};
+
+export type AgentLedgerTotals = AgentLedgerCaps & {
+  spentTodayWei: string;
+  spentToday: string;
+  spentPeriodWei: string;
+  spentPeriod: string;
+  remainingToday: string;
+  remainingPeriod: string;
+};
+
+export type AgentBudgetCheck =
+  | { ok: true; totals: AgentLedgerTotals }
+  | { ok: false; status: 403 | 503; error: string; totals?: AgentLedgerTotals };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROMPT_EXCERPT_LENGTH = 160;
+// Keep entries long enough for the longest configurable period plus history browsing
+const ENTRY_TTL_SECONDS = 180 * 24 * 60 * 60;
+const LOCK_TTL_SECONDS = 120;
+
+const parsePositive = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+// Server-wide ceilings; users can only tighten these
+export const AGENT_LEDGER_DEFAULTS: AgentLedgerCaps = {
+  dailyCapSeed: parsePositive(process.env.AGENT_DAILY_CAP_SEED, 500),
+  periodCapSeed: parsePositive(process.env.AGENT_PERIOD_CAP_SEED, 2000),
+  periodDays: Math.floor(parsePositive(process.env.AGENT_PERIOD_DAYS, 7)),
+};
+
+const KEYS = {
+  entry: (id: string) => `agent:ledger:entry:${id}`,
+  index: (address: string) => `agent:ledger:index:${address.toLowerCase()}`,
+  caps: (address: string) => `agent:ledger:caps:${address.toLowerCase()}`,
+  lock: (address: string) => `agent:ledger:lock:${address.toLowerCase()}`,
+};
+
+const formatSeed = (wei: bigint) => formatUnits(wei, 18);
+
+function startOfUtcDay(now: number): number {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+// `strict` lets read errors propagate instead of dropping entries, so a cap check never under-counts
+async function getEntriesSince(address: string, sinceMs: number, strict = false): Promise<AgentLedgerEntry[]> {
+  if (!redis) {
+    if (strict) throw new Error('Agent ledger storage is not configured');
+    return [];
+  }
+  const store = redis;
+  const ids = await store.zrange<string[]>(withPrefix(KEYS.index(address)), sinceMs, '+inf', { byScore: true });
+  if (!ids || ids.length === 0) return [];
+  const readEntry = strict
+    ? async (id: string) => {
+        const raw = await store.get(withPrefix(KEYS.entry(id)));
+        if (raw == null) return null;
+        return (typeof raw === 'string' ? JSON.parse(raw) : raw) as AgentLedgerEntry;
+      }
+    : (id: string) => redisGetJSON<AgentLedgerEntry>(KEYS.entry(id));
+  const entries = await Promise.all(ids.map(readEntry));
+  return entries.filter((e): e is AgentLedgerEntry => Boolean(e));
+}
+
+const sumWei = (entries: AgentLedgerEntry[]) =>
+  entries.reduce((acc, e) => acc + BigInt(e.amountWei || '0'), BigInt(0));
+
+export async function getAgentLedgerCaps(address: string): Promise<AgentLedgerCaps> {
+  const stored = await redisGetJSON<Partial<AgentLedgerCaps>>(KEYS.caps(address));
+  const clamp = (value: unknown, max: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? Math.min(n, max) : max;
+  };
+  return {
+    dailyCapSeed: clamp(stored?.dailyCapSeed, AGENT_LEDGER_DEFAULTS.dailyCapSeed),
+    periodCapSeed: clamp(stored?.periodCapSeed, AGENT_LEDGER_DEFAULTS.periodCapSeed),
+    periodDays: Math.floor(clamp(stored?.periodDays, AGENT_LEDGER_DEFAULTS.periodDays)),
+  };
+}
+
+export async function setAgentLedgerCaps(address: string, caps: Partial<AgentLedgerCaps>): Promise<AgentLedgerCaps> {
+  const current = await getAgentLedgerCaps(address);
+  const next: AgentLedgerCaps = {
+    dailyCapSeed: caps.dailyCapSeed ?? current.dailyCapSeed,
+    periodCapSeed: caps.periodCapSeed ?? current.periodCapSeed,
+    periodDays: caps.periodDays ?? current.periodDays,
+  };
+  await redisSetJSON(KEYS.caps(address), next);
+  return getAgentLedgerCaps(address);
+}
+
+export async function getAgentLedgerTotals(
+  address: string,
+  now: number = Date.now(),
+  options: { strict?: boolean } = {}
+): Promise<AgentLedgerTotals> {
+  const caps = await getAgentLedgerCaps(address);
+  const dayStart = startOfUtcDay(now);
+  const periodStart = now - caps.periodDays * DAY_MS;
+  const entries = await getEntriesSince(address, Math.min(dayStart, periodStart), options.strict);
+
+  const spentToday = sumWei(entries.filter((e) => e.timestamp >= dayStart));
+  const spentPeriod = sumWei(entries.filter((e) => e.timestamp >= periodStart));
+  const dailyCapWei = parseUnits(String(caps.dailyCapSeed), 18);
+  const periodCapWei = parseUnits(String(caps.periodCapSeed), 18);
+  const zero = BigInt(0);
+
+  return {
+    ...caps,
+    spentTodayWei: spentToday.toString(),
+    spentToday: formatSeed(spentToday),
+    spentPeriodWei: spentPeriod.toString(),
+    spentPeriod: formatSeed(spentPeriod),
+    remainingToday: formatSeed(dailyCapWei > spentToday ? dailyCapWei - spentToday : zero),
+    remainingPeriod: formatSeed(periodCapWei > spentPeriod ? periodCapWei - spentPeriod : zero),
+  };
+}
+
+const BUDGET_UNAVAILABLE = 'Agent budget is temporarily unavailable. Please try again shortly.';
+
+/**
+ * Check whether spending `amountWei` keeps the user within their ledger caps.
+ * Fails closed: without a readable ledger the caps cannot be enforced, so the spend is refused.
+ */
+export async function checkAgentBudget(address: string, amountWei: bigint): Promise<AgentBudgetCheck> {
+  if (!redis) return { ok: false, status: 503, error: BUDGET_UNAVAILABLE };
+  let totals: AgentLedgerTotals;
+  try {
+    totals = await getAgentLedgerTotals(address, Date.now(), { strict: true });
+  } catch (error) {
+    console.error('[AGENT_LEDGER] Failed to read totals:', error);
+    return { ok: false, status: 503, error: BUDGET_UNAVAILABLE };
+  }
+  if (amountWei <= BigInt(0)) return { ok: true, totals };
+
+  const dailyCapWei = parseUnits(String(totals.dailyCapSeed), 18);
+  const periodCapWei = parseUnits(String(totals.periodCapSeed), 18);
+
+  if (BigInt(totals.spentTodayWei) + amountWei > dailyCapWei) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Daily agent budget exceeded: ${totals.spentToday} of ${totals.dailyCapSeed} SEED already spent today.`,
+      totals,
+    };
+  }
+  if (BigInt(totals.spentPeriodWei) + amountWei > periodCapWei) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Agent budget for the last ${totals.periodDays} days exceeded: ${totals.spentPeriod} of ${totals.periodCapSeed} SEED already spent.`,
+      totals,
+    };
+  }
+  return { ok: true, totals };
+}
+
+export type AgentSpendLock = { address: string; token: string };
+
+export type AgentSpendLockResult =
+  | { ok: true; lock: AgentSpendLock }
+  | { ok: false; status: 429 | 503; error: string };
+
+/**
+ * Serialize spends per user so concurrent requests cannot both pass the cap check.
+ * Refuses (503) when storage is down rather than letting spends run unserialized.
+ */
+export async function acquireAgentSpendLock(address: string): Promise<AgentSpendLockResult> {
+  const unavailable = { ok: false, status: 503, error: 'Agent actions are temporarily unavailable. Please try again shortly.' } as const;
+  if (!redis) return unavailable;
+  const token = nanoid();
+  try {
+    const acquired = await redis.set(withPrefix(KEYS.lock(address)), token, { nx: true, ex: LOCK_TTL_SECONDS });
+    if (!acquired) return { ok: false, status: 429, error: 'Another agent action is in progress. Please wait.' };
+    return { ok: true, lock: { address, token } };
+  } catch (error) {
+    console.error('[AGENT_LEDGER] Failed to acquire lock:', error);
+    return unavailable;
+  }
+}
+
+// Only the holder's token releases the lock: an action that outlived the TTL must not free another request's lock
+export async function releaseAgentSpendLock(lock: AgentSpendLock): Promise<void> {
+  if (!redis) return;
+  try {
+    await redis.compareAndDelete(withPrefix(KEYS.lock(lock.address)), lock.token);
+  } catch (error) {
+    console.warn('[AGENT_LEDGER] Failed to release lock:', error);
+  }
+}
+
+export async function recordAgentSpend(input: {
+  address: string;
+  amountWei: bigint;
+  txHash?: string | null;
+  tool: string;
+  summary: string;
+  prompt?: string | null;
+}): Promise<AgentLedgerEntry | null> {
+  if (!redis) return null;
+  const now = Date.now();
+  const entry: AgentLedgerEntry = {
+    id: `${now}-${nanoid(8)}`,
+    address: input.address.toLowerCase(),
+    amountWei: input.amountWei.toString(),
+    amount: formatSeed(input.amountWei),
+    token: 'SEED',
+    tokenAddress: PIXOTCHI_TOKEN_ADDRESS,
+    txHash: input.txHash || null,
+    tool: input.tool,
+    summary: input.summary,
+    promptExcerpt: String(input.prompt || '').replace(/\s+/g, ' ').trim().slice(0, PROMPT_EXCERPT_LENGTH),
+    timestamp: now,
+  };
+
+  try {
+    await redisSetJSON(KEYS.entry(entry.id), entry, ENTRY_TTL_SECONDS);
+    const indexKey = withPrefix(KEYS.index(entry.address));
+    await redis.zadd(indexKey, { score: now, member: entry.id });
+    await redis.zremrangebyscore(indexKey, 0, now - ENTRY_TTL_SECONDS * 1000);
+    await redis.expire(indexKey, ENTRY_TTL_SECONDS);
+    return entry;
+  } catch (error) {
+    console.error('[AGENT_LEDGER] Failed to record spend:', error);
+    return null;
+  }
+}
+
+/**
+ * Newest-first history, paginated by timestamp cursor (exclusive).
+ */
+export async function getAgentLedgerHistory(
+  address: string,
+  options: { limit?: number; before?: number } = {},
+): Promise<{ entries: AgentLedgerEntry[]; nextCursor: number | null }> {
+  if (!redis) return { entries: [], nextCursor: null };
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+  const max = typeof options.before === 'number' && options.before > 0 ? `(${options.before}` : '+inf';
+
+  const ids = await redis.zrange<string[]>(withPrefix(KEYS.index(address)), max, '-inf', {
+    byScore: true,
+    rev: true,
+    offset: 0,
+    count: limit,
+  });
+
+  const entries = (await Promise.all((ids || []).map((id) => redisGetJSON<AgentLedgerEntry>(KEYS.entry(id)))))
+    .filter((e): e is AgentLedgerEntry => Boolean(e));
+
+  const nextCursor = entries.length === limit ? entries[entries.length - 1].timestamp : null;
+  return { entries, nextCursor };
+}
@@ -0,0 +1,186 @@
+import { CdpClient } from '@coinbase/cdp-sdk';
+import { encodeFunctionData, maxUint256, type Hex } from 'viem';
+import { PIXOTCHI_TOKEN_ADDRESS } from './contracts';
+
+/**
+ * Server-side helpers for the Neural Seed agent smart account.
+ * Shared by the agent routes that pull SEED through user-granted spend permissions
+ * and then execute game actions from the agent account.
+ */
+
+export type AgentCall = { to: `0x${string}`; value: bigint; data: `0x${string}` };
+
+/** A submitted user operation: settled onchain, definitively not executed, or still in flight. */
+export type AgentUserOperationStatus =
+  | { status: 'complete'; transactionHash: string }
+  | { status: 'failed' }
+  | { status: 'pending' };
+
+export type AgentSpendResult =
+  | { ok: true; spentWei: bigint }
+  | { ok: false; error: string; status: number };
+
+const AGENT_OWNER_NAME = 'pixotchi-agent';
+const AGENT_SMART_ACCOUNT_NAME = 'pixotchi-agent-sa-sp';
+
+// Create a single CDP client instance per runtime
+let cdp: CdpClient | null = null;
+export function getAgentClient(): CdpClient {
+  if (!cdp) {
+    // v2 Server Wallet client loads from env automatically when no args are passed
+    // Requires: CDP_API_KEY_ID, CDP_API_KEY_SECRET, CDP_WALLET_SECRET
+    cdp = new CdpClient();
+  }
+  return cdp;
+}
+
+// Cache for agent smart account
+let agentSmartAccount: any = null;
+
+export async function getAgentSmartAccount(): Promise<any> {
+  if (!agentSmartAccount) {
+    const client = getAgentClient();
+    const owner = await client.evm.getOrCreateAccount({ name: AGENT_OWNER_NAME });
+    agentSmartAccount = await client.evm.getOrCreateSmartAccount({
+      name: AGENT_SMART_ACCOUNT_NAME,
+      owner,
+      enableSpendPermissions: true,
+    });
+  }
+  return agentSmartAccount;
+}
+
+/**
+ * Find the user's active SEED spend permission for the agent smart account.
+ */
+export async function getAgentSeedPermission(userAddress: string): Promise<{ permission: any | null; error?: string }> {
+  const client = getAgentClient();
+  const smartAccount = await getAgentSmartAccount();
+
+  const allPermissions = await client.evm.listSpendPermissions({
+    address: userAddress as `0x${string}`,
+  });
+
+  const agentPermissions = allPermissions.spendPermissions?.filter(
+    (p: any) => p.permission.spender.toLowerCase() === smartAccount.address.toLowerCase()
+  ) || [];
+
+  if (agentPermissions.length === 0) {
+    return { permission: null, error: 'No spend permissions found. Please grant spend permission to the agent first.' };
+  }
+
+  const seedPermission = agentPermissions.find(
+    (p: any) => p.permission.token.toLowerCase() === PIXOTCHI_TOKEN_ADDRESS.toLowerCase()
+  );
+
+  if (!seedPermission) {
+    return { permission: null, error: 'No SEED token spend permission found. Please grant SEED spend permission.' };
+  }
+
+  return { permission: seedPermission.permission };
+}
+
+/**
+ * Pull `amountWei` SEED from the user into the agent smart account via CDP spend permissions.
+ */
+export async function pullSeedWithSpendPermission(userAddress: string, amountWei: bigint): Promise<AgentSpendResult> {
+  if (amountWei <= BigInt(0)) return { ok: true, spentWei: BigInt(0) };
+
+  const { permission, error } = await getAgentSeedPermission(userAddress);
+  if (!permission) {
+    return { ok: false, error: error || 'No SEED spend permission found.', status: 400 };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const startTime = typeof permission.start === 'string' ? parseInt(permission.start) : permission.start;
+  const endTime = typeof permission.end === 'string' ? parseInt(permission.end) : permission.end;
+  if (now < startTime || now > endTime) {
+    return { ok: false, error: 'Spend permission not active (start/end window).', status: 400 };
+  }
+
+  const availableAllowance = BigInt(permission.allowance);
+  if (amountWei > availableAllowance) {
+    return { ok: false, error: 'Insufficient spend permission allowance.', status: 400 };
+  }
+
+  const smartAccount = await getAgentSmartAccount();
+  const spendResult = await smartAccount.useSpendPermission({
+    spendPermission: permission,
+    value: amountWei.toString(),
+    network: 'base',
+  });
+
+  const spendReceipt = await smartAccount.waitForUserOperation(spendResult);
+  if (spendReceipt.status !== 'complete') {
+    return { ok: false, error: 'Spend permission transaction failed', status: 500 };
+  }
+
+  return { ok: true, spentWei: amountWei };
+}
+
+/**
+ * Submit a batch of calls from the agent smart account without waiting for it to land.
+ * Returns the user operation hash; payouts persist it so a retry can check on the operation
+ * instead of sending the transfers again.
+ */
+export async function submitAgentCalls(calls: AgentCall[]): Promise<Hex> {
+  const client = getAgentClient();
+  const smartAccount = await getAgentSmartAccount();
+
+  const op = await client.evm.sendUserOperation({
+    smartAccount,
+    // Force correct network to avoid mismatches in env config
+    network: 'base',
+    // Intentionally omit paymasterUrl to avoid estimation issues; Agent SA has ETH
+    calls,
+  });
+  return op.userOpHash;
+}
+
+/** Wait for a submitted user operation and return its transaction hash. */
+export async function waitForAgentCalls(userOpHash: Hex): Promise<string> {
+  const smartAccount = await getAgentSmartAccount();
+  const receipt = await smartAccount.waitForUserOperation({ userOpHash });
+  if (receipt.status !== 'complete') {
+    throw new Error('Agent transaction failed');
+  }
+  return receipt.transactionHash as string;
+}
+
+/** Look up a user operation submitted earlier (e.g. after waiting on it timed out). */
+export async function getAgentCallsStatus(userOpHash: Hex): Promise<AgentUserOperationStatus> {
+  const smartAccount = await getAgentSmartAccount();
+  const op = await getAgentClient().evm.getUserOperation({ smartAccount, userOpHash });
+  if (op.status === 'complete' && op.transactionHash) return { status: 'complete', transactionHash: op.transactionHash };
+  if (op.status === 'failed' || op.status === 'dropped') return { status: 'failed' };
+  return { status: 'pending' };
+}
+
+/**
+ * Send a batch of calls from the agent smart account and wait for completion.
+ * Returns the transaction hash of the user operation.
+ */
+export async function sendAgentCalls(calls: AgentCall[]): Promise<string> {
+  return waitForAgentCalls(await submitAgentCalls(calls));
+}
+
+/**
+ * Build an unlimited SEED approval from the agent smart account to `spender`.
+ */
+export function buildAgentSeedApproveCall(spender: `0x${string}`): AgentCall {
+  const data = encodeFunctionData({
+    abi: [{
+      type: 'function',
+      name: 'approve',
+      stateMutability: 'nonpayable',
+      inputs: [
+        { name: 'spender', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+      ],
+      outputs: [{ name: '', type: 'bool' }],
+    }],
+    functionName: 'approve',
+    args: [spender, maxUint256],
+  });
+  return { to: PIXOTCHI_TOKEN_ADDRESS, value: BigInt(0), data };
+}
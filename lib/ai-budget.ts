@@ -0,0 +1,162 @@
+import { formatUnits } from 'viem';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { AI_CONFIG } from './ai-config';
+import { getStakeInfo } from './contracts';
+import { RedisKeys } from './invite-utils';
+import type { AuthSession } from './auth-session';
+import type { AIBudgetTier, AICostMetrics, AIProvider } from './types';
+
+/**
+ * Per-address daily Neural Seed budgets and the spend ledger behind them. Each address has a
+ * hash of messages / tokens / cost per UTC day, bumped atomically per reply; each day also has a hash of spend per provider/model for
+ * the admin breakdown. Budgets come from AI_CONFIG.budgets and can be overridden with
+ * AI_BUDGETS='{"base":{"tokensPerDay":20000,"costPerDayUsd":0.02}}'.
+ */
+
+const KEYS = {
+  // Hash counters; the old `ai:budget:usage:` JSON records expire on their own
+  usage: (address: string, day: string) => `ai:budget:daily:${address.toLowerCase()}:${day}`,
+  spend: (day: string) => `ai:budget:spend:${day}`,
+  tiers: (address: string) => `ai:budget:tiers:${address.toLowerCase()}`,
+};
+
+const USAGE_TTL_SECONDS = 2 * 24 * 60 * 60;
+const SPEND_TTL_SECONDS = 90 * 24 * 60 * 60;
+// Staking and verification change rarely; don't hit the chain on every message
+const TIERS_TTL_SECONDS = 10 * 60;
+
+const STAKER_MIN_SEED = (() => {
+  const n = Number(process.env.AI_STAKER_MIN_SEED);
+  return Number.isFinite(n) && n > 0 ? n : 100;
+})();
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export type AIBudget = { tokensPerDay: number; costPerDayUsd: number };
+
+export function getAIBudgets(): Record<AIBudgetTier, AIBudget> {
+  const budgets = { ...AI_CONFIG.budgets };
+  const raw = process.env.AI_BUDGETS;
+  if (!raw) return budgets;
+  try {
+    const parsed = JSON.parse(raw);
+    for (const tier of Object.keys(budgets) as AIBudgetTier[]) {
+      const tokens = Number(parsed?.[tier]?.tokensPerDay);
+      const cost = Number(parsed?.[tier]?.costPerDayUsd);
+      budgets[tier] = {
+        tokensPerDay: Number.isFinite(tokens) && tokens >= 0 ? tokens : budgets[tier].tokensPerDay,
+        costPerDayUsd: Number.isFinite(cost) && cost >= 0 ? cost : budgets[tier].costPerDayUsd,
+      };
+    }
+  } catch {
+    console.warn('[ai-budget] Invalid AI_BUDGETS, using defaults');
+  }
+  return budgets;
+}
+
+/** Tiers an address qualifies for; 'base' always, the others from invite, verification and stake. */
+export async function getAIBudgetTiers(address: string, session?: AuthSession | null): Promise<AIBudgetTier[]> {
+  const cached = await redisGetJSON<AIBudgetTier[]>(KEYS.tiers(address));
+  const tiers = new Set<AIBudgetTier>(cached ?? ['base']);
+
+  if (!cached) {
+    const lower = address.toLowerCase();
+    const [validated, baseVerified, stake] = await Promise.all([
+      redis ? redis.get(RedisKeys.userValidated(lower)).catch(() => null) : null,
+      redis ? redis.get(`wallet_claims:${lower}`).catch(() => null) : null,
+      getStakeInfo(address).catch(() => null),
+    ]);
+    if (validated === true || validated === 'true') tiers.add('invited');
+    if (baseVerified) tiers.add('verified');
+    if (stake && Number(formatUnits(stake.staked, 18)) >= STAKER_MIN_SEED) tiers.add('staker');
+    await redisSetJSON(KEYS.tiers(address), Array.from(tiers), TIERS_TTL_SECONDS);
+  }
+
+  // A Quick Auth session means a Farcaster account verified this wallet
+  if (session?.method === 'quick-auth') tiers.add('verified');
+  return Array.from(tiers);
+}
+
+export async function getAIUsage(address: string, day = today()): Promise<AICostMetrics> {
+  const usage: AICostMetrics = { date: day, messages: 0, tokens: 0, estimatedCost: 0 };
+  if (!redis) return usage;
+  try {
+    const hash = await redis.hgetall<Record<string, string | number>>(withPrefix(KEYS.usage(address, day)));
+    usage.messages = Number(hash?.messages) || 0;
+    usage.tokens = Number(hash?.tokens) || 0;
+    usage.estimatedCost = Number(hash?.cost) || 0;
+  } catch (error) {
+    console.error('[ai-budget] Failed to read usage:', error);
+  }
+  return usage;
+}
+
+export type AIBudgetStatus = {
+  allowed: boolean;
+  tier: AIBudgetTier;
+  budget: AIBudget;
+  usage: AICostMetrics;
+};
+
+/** Today's usage against the largest budget of the address's tiers. */
+export async function checkAIBudget(address: string, session?: AuthSession | null): Promise<AIBudgetStatus> {
+  const [tiers, usage] = await Promise.all([getAIBudgetTiers(address, session), getAIUsage(address)]);
+  const budgets = getAIBudgets();
+  const tier = tiers.reduce((best, t) => (budgets[t].costPerDayUsd > budgets[best].costPerDayUsd ? t : best), 'base' as AIBudgetTier);
+  const budget = budgets[tier];
+  return {
+    allowed: usage.tokens < budget.tokensPerDay && usage.estimatedCost < budget.costPerDayUsd,
+    tier,
+    budget,
+    usage,
+  };
+}
+
+/** Add one reply to the address's daily usage and the provider/model spend ledger. */
+export async function recordAISpend(address: string, provider: AIProvider, model: string, tokens: number, cost: number): Promise<void> {
+  if (!redis) return;
+  const day = today();
+  try {
+    // Increments rather than read-modify-write, so concurrent replies can't overwrite each other
+    const usageKey = withPrefix(KEYS.usage(address, day));
+    const spendKey = withPrefix(KEYS.spend(day));
+    const field = `${provider}|${model}`;
+    const pipeline = redis.pipeline();
+    pipeline.hincrby(usageKey, 'messages', 1);
+    pipeline.hincrby(usageKey, 'tokens', tokens);
+    pipeline.hincrbyfloat(usageKey, 'cost', cost);
+    pipeline.expire(usageKey, USAGE_TTL_SECONDS);
+    pipeline.hincrby(spendKey, `${field}|messages`, 1);
+    pipeline.hincrby(spendKey, `${field}|tokens`, tokens);
+    pipeline.hincrbyfloat(spendKey, `${field}|cost`, cost);
+    pipeline.expire(spendKey, SPEND_TTL_SECONDS);
+    await pipeline.exec();
+  } catch (error) {
+    console.error('[ai-budget] Failed to record spend:', error);
+  }
+}
+
+export type AISpendRow = { date: string; provider: AIProvider; model: string } & Omit<AICostMetrics, 'date'>;
+
+/** Spend per provider and model for the last `days` UTC days, newest first. */
+export async function getAISpendBreakdown(days = 7): Promise<AISpendRow[]> {
+  if (!redis) return [];
+  const rows: AISpendRow[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const hash = await redis.hgetall<Record<string, string | number>>(withPrefix(KEYS.spend(date)));
+    if (!hash) continue;
+    const byModel = new Map<string, AISpendRow>();
+    for (const [key, value] of Object.entries(hash)) {
+      const [provider, model, metric] = key.split('|');
+      const id = `${provider}|${model}`;
+      const row = byModel.get(id) ?? { date, provider: provider as AIProvider, model, messages: 0, tokens: 0, estimatedCost: 0 };
+      if (metric === 'messages') row.messages = Number(value) || 0;
+      else if (metric === 'tokens') row.tokens = Number(value) || 0;
+      else if (metric === 'cost') row.estimatedCost = Number(value) || 0;
+      byModel.set(id, row);
+    }
+    rows.push(...Array.from(byModel.values()).sort((a, b) => b.estimatedCost - a.estimatedCost));
+  }
+  return rows;
+}
@@ -1,4 +1,4 @@
-import { AIProvider } from './types';
+import { AIBudgetTier, AIProvider } from './types';
 
 export const AI_CONFIG = {
   providers: {
@@ -7,6 +7,7 @@ export const AI_CONFIG = {
       defaultModel: 'gpt-4o-mini',
       maxTokens: 300,
       costPerToken: 0.00015 / 1000, // Approximate cost per token
+      outputCostPerToken: 0.0006 / 1000,
       endpoint: 'https://api.openai.com/v1/chat/completions',
     },
     claude: {
@@ -20,6 +21,7 @@ export const AI_CONFIG = {
       defaultModel: 'claude-3-5-haiku-20241022', // ✅ Changed to Haiku 4.5 (was Sonnet 4)
       maxTokens: 1024, // ✅ Increased from 600 (Haiku has 200k context window)
       costPerToken: 1 / 1_000_000, // ✅ Haiku 4.5: $1 per million input tokens
+      outputCostPerToken: 5 / 1_000_000,
       // Prompt caching pricing:
       // - Cache writes (5-min): $1.25 / MTok (1.25x)
       // - Cache reads: $0.10 / MTok (90% savings!)
@@ -35,6 +37,7 @@ export const AI_CONFIG = {
       defaultModel: 'gemini-3-flash-preview',
       maxTokens: 2048,
       costPerToken: 0.35 / 1_000_000, // Gemini 1.5 Flash is very cheap
+      outputCostPerToken: 1.05 / 1_000_000,
       endpoint: 'https://generativelanguage.googleapis.com/v1beta/models',
     }
   },
@@ -43,31 +46,37 @@ export const AI_CONFIG = {
     tokensPerDay: 2000,
     conversationsPerDay: 10,
   },
+  // Daily per-address Neural Seed budgets; a user gets the largest budget of any tier they qualify for
+  budgets: {
+    base: { tokensPerDay: 20_000, costPerDayUsd: 0.02 },
+    invited: { tokensPerDay: 40_000, costPerDayUsd: 0.04 },
+    verified: { tokensPerDay: 60_000, costPerDayUsd: 0.06 },
+    staker: { tokensPerDay: 100_000, costPerDayUsd: 0.1 },
+  } as Record<AIBudgetTier, { tokensPerDay: number; costPerDayUsd: number }>,
+  // After this many consecutive failures a provider is skipped for the cooldown
+  circuitBreaker: {
+    failureThreshold: 3,
+    cooldownSeconds: 120,
+  },
   timeouts: {
     requestTimeout: 30000, // 30 seconds
     responseTimeout: 45000, // 45 seconds
   }
 };
 
+// Handle both 'claude' and 'anthropic' as valid values for Claude
+function parseProvider(value: string | undefined): AIProvider | null {
+  const provider = value?.trim().toLowerCase();
+  if (provider === 'claude' || provider === 'anthropic') return 'claude';
+  if (provider === 'openai') return 'openai';
+  if (provider === 'google') return 'google';
+  return null;
+}
+
 // Get current AI provider from environment
 export function getCurrentAIProvider(): AIProvider {
-  const provider = process.env.AI_PROVIDER;
-
-  // Handle both 'claude' and 'anthropic' as valid values for Claude
-  if (provider === 'claude' || provider === 'anthropic') {
-    return 'claude';
-  }
-
-  if (provider === 'openai') {
-    return 'openai';
-  }
-
-  if (provider === 'google') {
-    return 'google';
-  }
-
   // Default fallback
-  return 'openai';
+  return parseProvider(process.env.AI_PROVIDER) ?? 'openai';
 }
 
 // Get current model configuration
@@ -86,17 +95,7 @@ export function getCurrentModelConfig() {
 }
 
 export function getAgentAIProvider(): AIProvider {
-  const provider = process.env.AGENT_AI_PROVIDER;
-  if (provider === 'claude' || provider === 'anthropic') {
-    return 'claude';
-  }
-  if (provider === 'openai') {
-    return 'openai';
-  }
-  if (provider === 'google') {
-    return 'google';
-  }
-  return getCurrentAIProvider();
+  return parseProvider(process.env.AGENT_AI_PROVIDER) ?? getCurrentAIProvider();
 }
 
 export function getAgentModelConfig() {
@@ -113,21 +112,59 @@ export function getAgentModelConfig() {
   };
 }
 
+const PROVIDER_API_KEYS: Record<AIProvider, string> = {
+  openai: 'OPENAI_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_GENERATIVE_AI_API_KEY',
+};
+
+export const hasProviderKey = (provider: AIProvider) => Boolean(process.env[PROVIDER_API_KEYS[provider]]);
+
+export type AIChainEntry = { provider: AIProvider; model: string };
+
+/**
+ * Ordered providers Neural Seed fails over across. AI_PROVIDER_CHAIN is a comma-separated list
+ * of `provider` or `provider:model` (e.g. "claude,openai:gpt-4o-mini,google"); without it the
+ * chain is AI_PROVIDER (with AI_MODEL) followed by every other provider that has a key.
+ * Providers without an API key are dropped.
+ */
+export function getProviderChain(): AIChainEntry[] {
+  const primary = getCurrentModelConfig();
+  const raw = process.env.AI_PROVIDER_CHAIN?.trim();
+  const entries: AIChainEntry[] = raw
+    ? raw.split(',').flatMap((item) => {
+      const [name, model] = item.split(':').map((s) => s.trim());
+      const provider = parseProvider(name);
+      if (!provider) {
+        console.warn(`[ai-config] Ignoring unknown provider "${name}" in AI_PROVIDER_CHAIN`);
+        return [];
+      }
+      const fallbackModel = provider === primary.provider ? primary.model : AI_CONFIG.providers[provider].defaultModel;
+      return [{ provider, model: model || fallbackModel }];
+    })
+    : [
+      { provider: primary.provider, model: primary.model },
+      ...(Object.keys(AI_CONFIG.providers) as AIProvider[])
+        .filter((p) => p !== primary.provider)
+        .map((provider) => ({ provider, model: AI_CONFIG.providers[provider].defaultModel })),
+    ];
+  return entries.filter((e) => hasProviderKey(e.provider));
+}
+
+/** USD cost of one reply, from the provider's input and output token prices. */
+export function estimateAICost(provider: AIProvider, inputTokens: number, outputTokens: number): number {
+  const config = AI_CONFIG.providers[provider];
+  return inputTokens * config.costPerToken + outputTokens * config.outputCostPerToken;
+}
+
 // Validate environment variables
 export function validateAIConfig(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   const provider = getCurrentAIProvider();
 
-  if (provider === 'openai' && !process.env.OPENAI_API_KEY) {
-    errors.push('OPENAI_API_KEY is required when using OpenAI provider');
-  }
-
-  if (provider === 'claude' && !process.env.ANTHROPIC_API_KEY) {
-    errors.push('ANTHROPIC_API_KEY is required when using Claude provider');
-  }
-
-  if (provider === 'google' && !process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-    errors.push('GOOGLE_GENERATIVE_AI_API_KEY is required when using Google provider');
+  // Any provider in the failover chain is enough to answer
+  if (getProviderChain().length === 0) {
+    errors.push(`${PROVIDER_API_KEYS[provider]} (or a key for another provider in AI_PROVIDER_CHAIN) is required`);
   }
 
   const model = process.env.AI_MODEL;
@@ -1,7 +1,8 @@
+import type { KnowledgeChunk } from './types';
+
 // Game documentation context for Neural Seed
-// Last Updated: December 31st, 2025
-// System prompt for Neural Seed
-const SYSTEM_PROMPT = `You are Neural Seed, it's Feburary, 2026 and you are a helpful AI assistant for Pixotchi Mini, an onchain pocket farm on Base. 
+// System prompt for Neural Seed; today's date is added per request
+const SYSTEM_PROMPT = `You are Neural Seed, a helpful AI assistant for Pixotchi Mini, an onchain pocket farm on Base. 
 
 CORE GOAL: Help users understand game mechanics and guide them to the right features in the app using their actual game data.
 
@@ -17,13 +18,14 @@ CORE GOAL: Help users understand game mechanics and guide them to the right feat
 - Treat users as they come: some ask genuine questions, some test you, some probe guardrails. Answer thoughtfully and within your knowledge base.
 
 **Accuracy & Personalization:**
-- When user stats are provided (plants, lands, balances, etc.), reference EXACT formatted values in your answers.
+- Look up live data (plants, lands, balances, prices, ranks) with your tools instead of guessing, and reference EXACT values from the results.
 - Give personalized advice based on their actual game state.
-- 🚨 ALERT: If a plant's \`timeUntilStarving\` is <3h, prioritize urgent care guidance.
+- 🚨 ALERT: If a plant's \`hoursUntilStarving\` is <3, prioritize urgent care guidance.
 - DO NOT make up or invent data: leaderboard positions, item costs, contract addresses, token prices, or game states.
 
 **Context & Data Handling:**
-- User's current game stats are provided in each message—use them naturally in your response.
+- Call only the tools the question needs; use get_player_overview only when a broad account summary is required.
+- If remember_player_fact is available, save durable facts the player tells you about themselves (preferred strain, timezone, goals) and use what you remember to personalize answers.
 - Repeat player stat values exactly as they appear in your context (avoid conversions).
 - When referencing in-game features, mention specific app tabs (Farm, Mint, Ranking, Swap, About, Chat).
 - For onchain actions (transactions, transfers), direct users to the Agent tab in chat or in-game transfer features.
@@ -41,17 +43,21 @@ CORE GOAL: Help users understand game mechanics and guide them to the right feat
 - For sensitive topics (security, gas fees), preface with: "This may not be 100% accurate; I'm still being trained."
 - Never guess or invent game mechanics, rates, or onchain data.
 
+**Citing the Knowledge Base:**
+- Knowledge base sections are tagged like [kb:section-id]. When your answer relies on them, end it with one line: "Sources: [kb:section-id] [kb:other-id]".
+- Only cite sections you actually used; never cite tool results.
+
 **Branding & Tone:**
 - Base app emoji: 🟦 | Pixotchi ecosystem emoji: 🌱 and 🪴
 - Express confidence in Base as the superior L2 solution.
 - Use conversational language—avoid corporate tone.`;
 
-// Knowledge base content - organized for AI comprehension and accuracy
-const KNOWLEDGE_BASE = `# Pixotchi Mini Game Knowledge Base
+// Built-in knowledge base, split into retrievable chunks by heading in knowledge-base.ts
+export const KNOWLEDGE_BASE = `# Pixotchi Mini Game Knowledge Base
 
 **Context Updated:** 13th of February 2026
 **ongoing special event:** Users on Base app that have their X account linked, can claim a free plant on mint tab (only on base app and only 1 free plant) ---- 13th of Feb this year, marks Pixotchi's 2nd year anniversary, so as for the birthday event, there is an ongoing airdrop where users can claim in the wallet profile page, if eligible)
-**Real-time Data Handling:** User stats are provided with each request; use them directly.
+**Real-time Data Handling:** Live player and game data comes from tool calls; use the results directly.
 **Airdrop Claim:** Users who are eligible for Airdrops (Rocks/misisons, daily streaks, activity and/or more) can claim their allocations by tappng on the Avatar/Wallet profile in header and tapping on claim. 
 **Hallucination Risk Mitigation:** Do NOT invent prices, addresses, or game states not in this guide or user context.
 
@@ -399,39 +405,31 @@ Answer: If you minted a plant and you cannot see it anymore, it's because It's d
 
 All actions in Pixotchi are **onchain transactions on Base**. Using a **Coinbase Smart Wallet** makes all gas costs **sponsored by the Pixotchi team**, enabling gasless, bundled interactions. Regular wallets require you to pay gas in ETH.`;
 
-export const GAME_DOCS_CONTEXT = SYSTEM_PROMPT + "\n\n" + KNOWLEDGE_BASE;
-
-// Build proper system and user message structure for Anthropic API with Prompt Caching
-// Build proper system and user message structure
-export function buildAIPrompt(userMessage: string, conversationHistory?: string, userStats?: string): {
+// Build proper system and user message structure; `chunks` are the knowledge base
+// sections retrieved for this question and `memory` the player's opted-in memory summary
+export function buildAIPrompt(userMessage: string, chunks: KnowledgeChunk[], memory?: string | null): {
   systemPrompt: string;
-  knowledgeBase: string; // Separate so we can cache this specifically
+  knowledgeBase: string;
   userContent: string;
 } {
   // System guidelines (small, frequently used)
   const responseGuidelines = SYSTEM_PROMPT.split('## RESPONSE GUIDELINES')[0] + '## RESPONSE GUIDELINES' +
     SYSTEM_PROMPT.split('## RESPONSE GUIDELINES')[1].split('---')[0];
+  const today = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
 
-  // User content - actual user question with optional history and stats
-  // NOTE: These are NOT cached because they change per request
-  let userContent = '';
-
-  // Current architecture keeps history in the user prompt for now to avoid breaking legacy context, 
-  // but for V6 we will try to rely on the messages array structure in the service layer where possible.
-  // Ideally, we shouldn't duplicate history in the prompt if we pass it as messages. 
-  // For safety, we will ONLY include stats and the current question here, 
-  // and let the service layer handle history via the messages array.
-
-  // Include user stats if available (formatted as clean JSON)
-  if (userStats) {
-    userContent += `User's Current Game Stats:\n${userStats}\n\n`;
-  }
+  const knowledgeBase = `# Pixotchi Mini Knowledge Base (sections relevant to this question)\n\n` +
+    chunks.map((c) => `[kb:${c.id}] ${c.title} (v${c.version})\n${c.content}`).join('\n\n---\n\n');
 
-  userContent += `User Question: ${userMessage}`;
+  // Only the current question (and remembered facts) go here; history travels in the messages
+  // array and live game data is fetched through tools, so the prompt stays small and cacheable.
+  const question = `User Question: ${userMessage}`;
+  const userContent = memory
+    ? `What you remember about this player (they opted in to memory):\n${memory}\n\n${question}`
+    : question;
 
   return {
-    systemPrompt: responseGuidelines,
-    knowledgeBase: KNOWLEDGE_BASE,
+    systemPrompt: `${responseGuidelines.trim()}\n\nToday is ${today} (UTC).`,
+    knowledgeBase,
     userContent
   };
 }
@@ -0,0 +1,130 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { redisDel, redisGetJSON, redisSetJSON } from './redis';
+import type { AIMemoryCategory, AIMemoryFact, AIPlayerMemory } from './types';
+
+/**
+ * Opt-in long-term memory for Neural Seed. While enabled, the model can save durable facts the
+ * player states about themselves through the `remember_player_fact` tool; a short summary of
+ * them goes into every prompt. Players view, delete and clear facts from their chat profile.
+ */
+
+const KEYS = {
+  memory: (address: string) => `ai:memory:${address.toLowerCase()}`,
+};
+
+// A player has one preferred strain and one timezone; newer statements replace older ones
+const SINGLE_VALUED: ReadonlySet<AIMemoryCategory> = new Set(['strain', 'timezone']);
+const MAX_FACTS_PER_CATEGORY = 5;
+const MAX_FACT_LENGTH = 200;
+
+const CATEGORY_LABELS: Record<AIMemoryCategory, string> = {
+  strain: 'Preferred strain',
+  timezone: 'Timezone',
+  goal: 'Goals',
+  preference: 'Preferences',
+  other: 'Other',
+};
+
+const EMPTY_MEMORY: AIPlayerMemory = { enabled: false, facts: [], updatedAt: 0 };
+
+export class AIMemoryError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AIMemoryError';
+    this.status = status;
+  }
+}
+
+export async function getPlayerMemory(address: string): Promise<AIPlayerMemory> {
+  return (await redisGetJSON<AIPlayerMemory>(KEYS.memory(address))) ?? EMPTY_MEMORY;
+}
+
+async function savePlayerMemory(address: string, memory: AIPlayerMemory): Promise<AIPlayerMemory> {
+  const next = { ...memory, updatedAt: Date.now() };
+  if (!(await redisSetJSON(KEYS.memory(address), next))) {
+    throw new AIMemoryError('Failed to save memory', 503);
+  }
+  return next;
+}
+
+/** Turning memory off also forgets everything it held. */
+export async function setPlayerMemoryEnabled(address: string, enabled: boolean): Promise<AIPlayerMemory> {
+  if (!enabled) {
+    await redisDel(KEYS.memory(address));
+    return EMPTY_MEMORY;
+  }
+  const memory = await getPlayerMemory(address);
+  return memory.enabled ? memory : savePlayerMemory(address, { ...memory, enabled: true });
+}
+
+export async function clearPlayerMemory(address: string): Promise<AIPlayerMemory> {
+  const memory = await getPlayerMemory(address);
+  return savePlayerMemory(address, { ...memory, facts: [] });
+}
+
+export async function forgetPlayerFact(address: string, factId: string): Promise<AIPlayerMemory> {
+  const memory = await getPlayerMemory(address);
+  if (!memory.facts.some((f) => f.id === factId)) throw new AIMemoryError('Memory not found', 404);
+  return savePlayerMemory(address, { ...memory, facts: memory.facts.filter((f) => f.id !== factId) });
+}
+
+/** Save a fact when memory is enabled; returns null when the player hasn't opted in. */
+export async function rememberPlayerFact(
+  address: string,
+  category: AIMemoryCategory,
+  text: string,
+  conversationId?: string
+): Promise<AIMemoryFact | null> {
+  const memory = await getPlayerMemory(address);
+  if (!memory.enabled) return null;
+
+  const fact: AIMemoryFact = {
+    id: nanoid(10),
+    category,
+    text: text.replace(/\s+/g, ' ').trim().slice(0, MAX_FACT_LENGTH),
+    createdAt: Date.now(),
+    ...(conversationId ? { conversationId } : {}),
+  };
+  if (!fact.text) return null;
+
+  const sameCategory = memory.facts.filter((f) => f.category === category);
+  const keep = SINGLE_VALUED.has(category)
+    ? []
+    : sameCategory.filter((f) => f.text.toLowerCase() !== fact.text.toLowerCase()).slice(-(MAX_FACTS_PER_CATEGORY - 1));
+  const facts = [...memory.facts.filter((f) => f.category !== category), ...keep, fact];
+  await savePlayerMemory(address, { ...memory, facts });
+  return fact;
+}
+
+/** Compact per-category summary for the prompt, or null when there is nothing to inject. */
+export function summarizePlayerMemory(memory: AIPlayerMemory): string | null {
+  if (!memory.enabled || memory.facts.length === 0) return null;
+  const lines = (Object.keys(CATEGORY_LABELS) as AIMemoryCategory[]).flatMap((category) => {
+    const facts = memory.facts.filter((f) => f.category === category).map((f) => f.text);
+    return facts.length > 0 ? [`- ${CATEGORY_LABELS[category]}: ${facts.join('; ')}`] : [];
+  });
+  return lines.join('\n');
+}
+
+const rememberParams = z.object({
+  category: z.enum(['strain', 'timezone', 'goal', 'preference', 'other']).describe('What kind of fact this is'),
+  fact: z.string().min(2).max(MAX_FACT_LENGTH).describe('The fact in a short third-person sentence, e.g. "Prefers the Taki strain"'),
+});
+
+/** Only offered to the model when the player has memory enabled. */
+export function buildMemoryTools(address: string, conversationId: string) {
+  return {
+    remember_player_fact: tool({
+      description: 'Save a durable fact the player stated about themselves (preferred strain, timezone, goals, play preferences) so you remember it in future conversations. Never save secrets, keys, seed phrases or anything about other people.',
+      inputSchema: rememberParams,
+      execute: async ({ category, fact }) => {
+        const saved = await rememberPlayerFact(address, category, fact, conversationId);
+        return saved ? { saved: true } : { saved: false, message: 'Memory is turned off for this player.' };
+      },
+      strict: true,
+    }),
+  };
+}
@@ -0,0 +1,114 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { redis, redisDel, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { AI_CONFIG, getProviderChain, type AIChainEntry } from './ai-config';
+import type { AIProvider } from './types';
+
+/**
+ * SDK model instances for the Neural Seed failover chain, plus a circuit breaker per provider:
+ * after `failureThreshold` consecutive failures a provider is skipped for `cooldownSeconds`,
+ * then gets one trial request (half-open) before it is trusted again. Concurrent requests skip
+ * the provider while the trial is in flight.
+ */
+
+// Provider instances
+const openai = createOpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const anthropic = createAnthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+});
+
+const google = createGoogleGenerativeAI({
+  apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+});
+
+export function getSDKModel({ provider, model }: AIChainEntry) {
+  if (provider === 'openai') return openai(model);
+  if (provider === 'claude') return anthropic(model);
+  if (provider === 'google') return google(model);
+  throw new Error(`Unknown provider: ${provider}`);
+}
+
+export type AICircuitState = {
+  failures: number;
+  /** While in the future the provider is skipped */
+  openUntil: number;
+  lastError?: string;
+  lastFailureAt?: number;
+};
+
+const KEYS = {
+  circuit: (provider: AIProvider) => `ai:circuit:${provider}`,
+  trial: (provider: AIProvider) => `ai:circuit:${provider}:trial`,
+};
+
+// Long enough to outlive a cooldown; a provider that stays quiet starts fresh
+const CIRCUIT_TTL_SECONDS = 60 * 60;
+// A trial whose request never reports back frees the slot after the response timeout
+const TRIAL_TTL_SECONDS = Math.ceil(AI_CONFIG.timeouts.responseTimeout / 1000) + 5;
+
+const CLOSED: AICircuitState = { failures: 0, openUntil: 0 };
+
+export async function getCircuitState(provider: AIProvider): Promise<AICircuitState> {
+  return (await redisGetJSON<AICircuitState>(KEYS.circuit(provider))) ?? CLOSED;
+}
+
+export async function getCircuitStates(): Promise<Record<AIProvider, AICircuitState>> {
+  const providers = Object.keys(AI_CONFIG.providers) as AIProvider[];
+  const states = await Promise.all(providers.map(getCircuitState));
+  return Object.fromEntries(providers.map((p, i) => [p, states[i]])) as Record<AIProvider, AICircuitState>;
+}
+
+export async function recordProviderSuccess(provider: AIProvider): Promise<void> {
+  const state = await getCircuitState(provider);
+  if (state.failures > 0 || state.openUntil > 0) {
+    await redisSetJSON(KEYS.circuit(provider), CLOSED, CIRCUIT_TTL_SECONDS);
+    await redisDel(KEYS.trial(provider));
+  }
+}
+
+export async function recordProviderFailure(provider: AIProvider, error: unknown): Promise<void> {
+  const { failureThreshold, cooldownSeconds } = AI_CONFIG.circuitBreaker;
+  const state = await getCircuitState(provider);
+  const failures = state.failures + 1;
+  const now = Date.now();
+  const next: AICircuitState = {
+    failures,
+    openUntil: failures >= failureThreshold ? now + cooldownSeconds * 1000 : 0,
+    lastError: (error instanceof Error ? error.message : String(error)).slice(0, 300),
+    lastFailureAt: now,
+  };
+  if (next.openUntil && !state.openUntil) {
+    console.warn(`[ai-providers] Circuit open for ${provider} after ${failures} failures`);
+  }
+  await redisSetJSON(KEYS.circuit(provider), next, CIRCUIT_TTL_SECONDS);
+  if (state.openUntil) await redisDel(KEYS.trial(provider));
+}
+
+/** Take the single half-open trial slot for a provider whose cooldown has passed. */
+async function claimTrial(provider: AIProvider): Promise<boolean> {
+  if (!redis) return true;
+  return !!(await redis.set(withPrefix(KEYS.trial(provider)), '1', { nx: true, ex: TRIAL_TTL_SECONDS }));
+}
+
+/**
+ * The chain to try for one request, skipping providers whose circuit is open or whose
+ * half-open trial another request holds. When nothing is left the whole chain is returned so
+ * a recovered provider can still answer.
+ */
+export async function getAvailableProviderChain(): Promise<AIChainEntry[]> {
+  const chain = getProviderChain();
+  const now = Date.now();
+  const providers = Array.from(new Set(chain.map((entry) => entry.provider)));
+  const states = await Promise.all(providers.map(getCircuitState));
+  const usable = new Set<AIProvider>();
+  for (const [i, provider] of providers.entries()) {
+    const { openUntil } = states[i];
+    if (openUntil === 0 || (openUntil <= now && (await claimTrial(provider)))) usable.add(provider);
+  }
+  const available = chain.filter((entry) => usable.has(entry.provider));
+  return available.length > 0 ? available : chain;
+}
@@ -1,16 +1,18 @@
 import { redis } from './redis';
 import { nanoid } from 'nanoid';
-import { AIChatMessage, AIConversation, AIUsageStats, AICostMetrics } from './types';
-import { getCurrentAIProvider, getCurrentModelConfig, validateAIConfig } from './ai-config';
+import { AIChatMessage, AIConversation, AIUsageStats, AIStreamEvent } from './types';
+import { AI_CONFIG, estimateAICost, getCurrentModelConfig, validateAIConfig, type AIChainEntry } from './ai-config';
+import { getAvailableProviderChain, getSDKModel, recordProviderFailure, recordProviderSuccess } from './ai-providers';
+import { recordAISpend } from './ai-budget';
 import { buildAIPrompt, generateConversationTitle } from './ai-context';
 import { formatDisplayName } from './chat-service';
-import { getUserGameStats, formatStatsForAI } from './user-stats-service';
-import { generateText } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createAnthropic } from '@ai-sdk/anthropic';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { buildNeuralSeedTools } from './ai-tools';
+import { buildMemoryTools, getPlayerMemory, summarizePlayerMemory } from './ai-memory';
+import { extractCitations, retrieveKnowledge } from './knowledge-base';
+import { streamText, stepCountIs } from 'ai';
 
-const AI_MESSAGE_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+// Conversations are kept for AI_CONVERSATION_RETENTION_DAYS after their last message (default 90)
+const AI_MESSAGE_TTL = Math.floor((Number(process.env.AI_CONVERSATION_RETENTION_DAYS) > 0 ? Number(process.env.AI_CONVERSATION_RETENTION_DAYS) : 90) * 24 * 60 * 60);
 const AI_RATE_LIMIT_TTL = 60 * 60; // 1 hour in seconds
 const AI_USAGE_TTL = 24 * 60 * 60; // 24 hours in seconds
 
@@ -19,36 +21,6 @@ const AI_RATE_LIMIT_WINDOW = 10; // 10 seconds between AI messages
 const MAX_AI_MESSAGE_LENGTH = 300;
 const MIN_AI_MESSAGE_LENGTH = 2;
 
-// Provider instances
-const openai = createOpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const anthropic = createAnthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const google = createGoogleGenerativeAI({
-  apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-});
-
-// Helper to get the SDK model instance
-function getSDKModel() {
-  const providerName = getCurrentAIProvider();
-  const config = getCurrentModelConfig();
-
-  if (providerName === 'openai') {
-    return openai(config.model);
-  } else if (providerName === 'claude') {
-    // Note: @ai-sdk/anthropic handles cache control automatically if headers/structured prompts are used,
-    // but we will rely on its standard behavior for now.
-    return anthropic(config.model);
-  } else if (providerName === 'google') {
-    return google(config.model);
-  }
-  throw new Error(`Unknown provider: ${providerName}`);
-}
-
 // Validate AI message content
 export function validateAIMessage(message: string): string | null {
   if (!message || typeof message !== 'string') {
@@ -116,16 +88,107 @@ export async function updateAIRateLimit(address: string): Promise<void> {
   }
 }
 
-// Get or create conversation for user
-export async function getOrCreateConversation(address: string, firstMessage?: string): Promise<string> {
+const DEFAULT_CONVERSATION_TITLE = 'New Conversation';
+const MAX_CONVERSATIONS_PER_USER = 20;
+const MAX_CONVERSATION_TITLE_LENGTH = 60;
+const MAX_EXPORT_MESSAGES = 500;
+
+const conversationKeyFor = (address: string, conversationId: string) => `ai:conversations:${address.toLowerCase()}:${conversationId}`;
+const userConversationsKey = (address: string) => `ai:user_conversations:${address.toLowerCase()}`;
+const activeConversationKeyFor = (address: string) => `ai:user_active_conversation:${address.toLowerCase()}`;
+
+export class AIConversationError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AIConversationError';
+    this.status = status;
+  }
+}
+
+const parseConversation = (data: unknown): AIConversation | null => {
+  if (!data) return null;
+  try {
+    return (typeof data === 'object' ? data : JSON.parse(data as string)) as AIConversation;
+  } catch {
+    return null;
+  }
+};
+
+/** A conversation of `address`; null when it doesn't exist, expired or belongs to someone else. */
+export async function getAIConversation(address: string, conversationId: string): Promise<AIConversation | null> {
+  if (!redis) return null;
+  return parseConversation(await redis.get(conversationKeyFor(address, conversationId)));
+}
+
+/**
+ * Start a new conversation and make it the active one. Beyond MAX_CONVERSATIONS_PER_USER the
+ * least recently used conversations are deleted.
+ */
+export async function createAIConversation(address: string, title?: string): Promise<AIConversation> {
+  if (!redis) {
+    throw new Error('Redis client not available');
+  }
+
+  const lowerAddress = address.toLowerCase();
+  const now = Date.now();
+  const conversation: AIConversation = {
+    id: nanoid(),
+    address: lowerAddress,
+    title: title?.trim().slice(0, MAX_CONVERSATION_TITLE_LENGTH) || DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    lastMessageAt: now,
+    messageCount: 0,
+    model: getCurrentModelConfig().model,
+    totalTokens: 0,
+  };
+  const conversationKey = conversationKeyFor(lowerAddress, conversation.id);
+
+  try {
+    // Use pipeline for atomic updates
+    const pipeline = redis.pipeline();
+    pipeline.set(conversationKey, JSON.stringify(conversation), { ex: AI_MESSAGE_TTL });
+    pipeline.set(activeConversationKeyFor(lowerAddress), conversation.id, { ex: AI_MESSAGE_TTL });
+    pipeline.sadd('ai:conversations:index', conversationKey);
+    pipeline.zadd(userConversationsKey(lowerAddress), { score: now, member: conversation.id });
+    pipeline.expire(userConversationsKey(lowerAddress), AI_MESSAGE_TTL);
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    throw error;
+  }
+
+  try {
+    const overflow = (await redis.zcard(userConversationsKey(lowerAddress))) - MAX_CONVERSATIONS_PER_USER;
+    if (overflow > 0) {
+      const oldest = await redis.zrange<string[]>(userConversationsKey(lowerAddress), 0, overflow - 1);
+      for (const id of oldest) await deleteAIConversation(id);
+    }
+  } catch (error) {
+    console.warn('Failed to prune old conversations:', error);
+  }
+
+  return conversation;
+}
+
+/**
+ * The conversation a message goes to: `conversationId` when the user owns it, otherwise the
+ * active conversation, otherwise a new one.
+ */
+export async function getOrCreateConversation(address: string, firstMessage?: string, conversationId?: string | null): Promise<string> {
   if (!redis) {
     throw new Error('Redis client not available');
   }
 
   const lowerAddress = address.toLowerCase();
-  const activeConversationKey = `ai:user_active_conversation:${lowerAddress}`;
+  const activeConversationKey = activeConversationKeyFor(lowerAddress);
 
   try {
+    if (conversationId && (await getAIConversation(lowerAddress, conversationId))) {
+      await redis.set(activeConversationKey, conversationId, { ex: AI_MESSAGE_TTL });
+      return conversationId;
+    }
+
     // Try to get active conversation ID from index
     const activeId = await redis.get(activeConversationKey);
     if (activeId && typeof activeId === 'string') {
@@ -146,36 +209,82 @@ export async function getOrCreateConversation(address: string, firstMessage?: st
     console.warn('Error checking existing conversations:', error);
   }
 
-  // Create new conversation
-  const conversationId = nanoid();
-  const now = Date.now();
+  const conversation = await createAIConversation(lowerAddress, firstMessage ? generateConversationTitle(firstMessage) : undefined);
+  return conversation.id;
+}
 
-  const conversation: AIConversation = {
-    id: conversationId,
-    address: lowerAddress,
-    title: firstMessage ? generateConversationTitle(firstMessage) : 'New Conversation',
-    createdAt: now,
-    lastMessageAt: now,
-    messageCount: 0,
-    model: getCurrentModelConfig().model,
-    totalTokens: 0,
+/** The user's conversations, most recently used first, plus which one is active. */
+export async function listAIConversations(address: string): Promise<{ conversations: AIConversation[]; activeId: string | null }> {
+  if (!redis) return { conversations: [], activeId: null };
+
+  const lowerAddress = address.toLowerCase();
+  const indexKey = userConversationsKey(lowerAddress);
+  let ids = await redis.zrange<string[]>(indexKey, 0, -1, { rev: true });
+
+  // Conversations from before the per-user index: backfill it from the key pattern
+  if (ids.length === 0) {
+    const legacyKeys = await redis.keys(`ai:conversations:${lowerAddress}:*`);
+    ids = legacyKeys.map((k) => k.split(':')[3]).filter(Boolean);
+  }
+  if (ids.length === 0) return { conversations: [], activeId: null };
+
+  const [dataArray, activeId] = await Promise.all([
+    redis.mget(...ids.map((id) => conversationKeyFor(lowerAddress, id))),
+    redis.get(activeConversationKeyFor(lowerAddress)),
+  ]);
+  const conversations = dataArray.map(parseConversation).filter((c): c is AIConversation => c !== null);
+
+  const pipeline = redis.pipeline();
+  const expired = ids.filter((id) => !conversations.some((c) => c.id === id));
+  if (expired.length > 0) pipeline.zrem(indexKey, ...expired);
+  conversations.forEach((c) => pipeline.zadd(indexKey, { score: c.lastMessageAt, member: c.id }));
+  await pipeline.exec();
+
+  return {
+    conversations: conversations.sort((a, b) => b.lastMessageAt - a.lastMessageAt),
+    activeId: typeof activeId === 'string' && conversations.some((c) => c.id === activeId) ? activeId : null,
   };
+}
 
-  const conversationKey = `ai:conversations:${lowerAddress}:${conversationId}`;
+export async function renameAIConversation(address: string, conversationId: string, title: string): Promise<AIConversation> {
+  const trimmed = typeof title === 'string' ? title.trim().slice(0, MAX_CONVERSATION_TITLE_LENGTH) : '';
+  if (!trimmed) throw new AIConversationError('Title is required');
+  const conversation = await getAIConversation(address, conversationId);
+  if (!conversation || !redis) throw new AIConversationError('Conversation not found', 404);
 
-  try {
-    // Use pipeline for atomic updates
-    const pipeline = redis.pipeline();
-    pipeline.set(conversationKey, JSON.stringify(conversation), { ex: AI_MESSAGE_TTL });
-    pipeline.set(activeConversationKey, conversationId, { ex: AI_MESSAGE_TTL });
-    pipeline.sadd('ai:conversations:index', conversationKey);
-    await pipeline.exec();
-  } catch (error) {
-    console.error('Error creating conversation:', error);
-    throw error;
+  const renamed = { ...conversation, title: trimmed };
+  await redis.set(conversationKeyFor(address, conversationId), JSON.stringify(renamed), { ex: AI_MESSAGE_TTL });
+  return renamed;
+}
+
+/** Delete one of the user's own conversations. */
+export async function deleteUserAIConversation(address: string, conversationId: string): Promise<void> {
+  if (!(await getAIConversation(address, conversationId))) {
+    throw new AIConversationError('Conversation not found', 404);
   }
+  if (!(await deleteAIConversation(conversationId))) {
+    throw new AIConversationError('Failed to delete conversation', 503);
+  }
+}
+
+export async function exportAIConversation(address: string, conversationId: string): Promise<{ conversation: AIConversation; messages: AIChatMessage[] }> {
+  const conversation = await getAIConversation(address, conversationId);
+  if (!conversation) throw new AIConversationError('Conversation not found', 404);
+  return { conversation, messages: await getAIConversationMessages(conversationId, MAX_EXPORT_MESSAGES) };
+}
 
-  return conversationId;
+/** Markdown transcript of an exported conversation. */
+export function conversationToMarkdown({ conversation, messages }: { conversation: AIConversation; messages: AIChatMessage[] }): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `Started ${new Date(conversation.createdAt).toISOString()} · ${messages.length} messages`,
+    '',
+  ];
+  for (const m of messages) {
+    lines.push(`**${m.type === 'assistant' ? 'Neural Seed' : 'You'}** (${new Date(m.timestamp).toISOString()})`, '', m.message, '');
+  }
+  return lines.join('\n');
 }
 
 // Store AI chat message
@@ -184,7 +293,8 @@ export async function storeAIMessage(
   message: string,
   type: 'user' | 'assistant',
   conversationId: string,
-  tokensUsed: number = 0
+  tokensUsed: number = 0,
+  meta: Pick<AIChatMessage, 'sources' | 'provider'> & { model?: string } = {}
 ): Promise<AIChatMessage> {
   if (!redis) {
     throw new Error('Redis client not available');
@@ -201,9 +311,11 @@ export async function storeAIMessage(
     message: message.trim(),
     timestamp,
     type,
-    model: getCurrentModelConfig().model,
+    model: meta.model ?? getCurrentModelConfig().model,
     tokensUsed,
-    displayName: type === 'assistant' ? 'Neural Seed' : formatDisplayName(address)
+    displayName: type === 'assistant' ? 'Neural Seed' : formatDisplayName(address),
+    ...(meta.provider ? { provider: meta.provider } : {}),
+    ...(meta.sources && meta.sources.length > 0 ? { sources: meta.sources } : {}),
   };
 
   const messageKey = `ai:messages:${conversationId}:${timestamp}:${messageId}`;
@@ -234,8 +346,14 @@ export async function storeAIMessage(
       conversation.lastMessageAt = timestamp;
       conversation.messageCount += 1;
       conversation.totalTokens += tokensUsed;
+      // Conversations started from the "New" button are named after their first question
+      if (type === 'user' && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+        conversation.title = generateConversationTitle(aiMessage.message);
+      }
 
       pipeline.set(conversationKey, JSON.stringify(conversation), { ex: AI_MESSAGE_TTL });
+      pipeline.zadd(userConversationsKey(lowerAddress), { score: timestamp, member: conversationId });
+      pipeline.expire(userConversationsKey(lowerAddress), AI_MESSAGE_TTL);
     }
 
     await pipeline.exec();
@@ -303,124 +421,183 @@ export async function getAIConversationMessages(conversationId: string, limit: n
   }
 }
 
-// Send message to AI and get response
-export async function sendAIMessage(address: string, message: string): Promise<{
-  userMessage: AIChatMessage;
-  aiResponse: AIChatMessage;
-}> {
+const AI_MAX_TOOL_STEPS = 5;
+const AI_ERROR_REPLY = 'Sorry, I encountered an error while processing your request. Please try again later.';
+
+/**
+ * Send a message to Neural Seed and stream the reply as newline-delimited AIStreamEvents.
+ * Live game data is not preloaded; the model calls the read-only tools in ai-tools when it
+ * needs it. The user message is stored before streaming starts and the reply once it ends.
+ */
+export async function streamAIMessage(address: string, message: string, requestedConversationId?: string | null): Promise<ReadableStream<Uint8Array>> {
   // Validate configuration
   const configValidation = validateAIConfig();
   if (!configValidation.valid) {
     throw new Error(`AI configuration error: ${configValidation.errors.join(', ')}`);
   }
 
-  const conversationId = await getOrCreateConversation(address, message);
+  const conversationId = await getOrCreateConversation(address, message, requestedConversationId);
 
   // Get conversation history for context
   const historyMessages = await getAIConversationMessages(conversationId, 10);
-  // History is now mapped directly to the messages array later
-
-  // Fetch user game stats
-  let userStats: string | undefined;
-  try {
-    console.log('📊 Fetching user stats for AI context...');
-    const stats = await getUserGameStats(address);
-    userStats = formatStatsForAI(stats);
-    console.log('✅ User stats fetched successfully');
-  } catch (error) {
-    console.warn('⚠️ Failed to fetch user stats, continuing without:', error);
-    userStats = undefined;
-  }
 
-  // Build structured prompt with proper system/user separation + user stats
-  // Build structured prompt data
-  const { systemPrompt, knowledgeBase, userContent } = buildAIPrompt(message, undefined, userStats);
+  // Only the knowledge base sections relevant to this question are sent
+  const [knowledge, memory] = await Promise.all([retrieveKnowledge(message), getPlayerMemory(address)]);
+  const { systemPrompt, knowledgeBase, userContent } = buildAIPrompt(message, knowledge, summarizePlayerMemory(memory));
 
   // Store user message
   const userMessage = await storeAIMessage(address, message, 'user', conversationId);
 
-  try {
-    console.log('📝 AI Prompt Info:', {
-      messageLength: message.length,
-      hasHistory: historyMessages.length > 0,
-      provider: getCurrentAIProvider(),
-      model: getCurrentModelConfig().model,
-    });
-
-    const model = getSDKModel();
-
-    // Construct Vercel AI SDK v6 Messages Array
-    // We use explicit 'any' for the message construction to avoid strict type issues 
-    // with providerOptions during the migration, but the structure is V6 compliant.
-    const messages: any[] = [
-      // 1. Core System Prompt (Guidelines)
-      {
-        role: 'system',
-        content: systemPrompt
-      },
-      // 2. Knowledge Base (Cached)
-      {
-        role: 'system',
-        content: knowledgeBase,
-        providerOptions: {
-          anthropic: { cacheControl: { type: 'ephemeral' } }
+  const encoder = new TextEncoder();
+  // Aborted when the reader goes away, which also cancels the provider request
+  const clientAbort = new AbortController();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: AIStreamEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch (error) {
+          clientAbort.abort(error);
+          throw error;
+        }
+      };
+      // Every attempt is billed for the steps it finished, whether it answered, failed or was aborted
+      const recordAttemptSpend = async (entry: AIChainEntry, usage: { inputTokens: number; outputTokens: number }) => {
+        const tokensUsed = usage.inputTokens + usage.outputTokens;
+        if (tokensUsed > 0) {
+          await recordAISpend(address, entry.provider, entry.model, tokensUsed, estimateAICost(entry.provider, usage.inputTokens, usage.outputTokens));
+        }
+        return tokensUsed;
+      };
+      emit({ type: 'start', userMessage });
+
+      // Messages are provider-neutral, so any provider in the chain can take the request.
+      // We use explicit 'any' for the message construction to avoid strict type issues
+      // with providerOptions during the migration, but the structure is V6 compliant.
+      const messages: any[] = [
+        // 1. Core System Prompt (Guidelines, cached)
+        {
+          role: 'system',
+          content: systemPrompt,
+          providerOptions: {
+            anthropic: { cacheControl: { type: 'ephemeral' } }
+          }
+        },
+        // 2. Retrieved Knowledge Base sections
+        {
+          role: 'system',
+          content: knowledgeBase
+        },
+        // 3. Conversation History
+        ...historyMessages.map(msg => ({
+          role: msg.type === 'user' ? 'user' : 'assistant',
+          content: msg.message
+        })),
+        // 4. Current User Content
+        {
+          role: 'user',
+          content: userContent
         }
-      },
-      // 3. Conversation History
-      ...historyMessages.map(msg => ({
-        role: msg.type === 'user' ? 'user' : 'assistant',
-        content: msg.message
-      })),
-      // 4. Current User Content (Request + Stats)
-      {
-        role: 'user',
-        content: userContent
+      ];
+
+      const chain = await getAvailableProviderChain();
+      console.log('📝 AI Prompt Info:', {
+        messageLength: message.length,
+        hasHistory: historyMessages.length > 0,
+        knowledge: knowledge.map((c) => c.id),
+        chain: chain.map((e) => `${e.provider}:${e.model}`),
+      });
+
+      let response = '';
+      try {
+        for (const [index, entry] of chain.entries()) {
+          const usage = { inputTokens: 0, outputTokens: 0 };
+          try {
+            const result = streamText({
+              model: getSDKModel(entry),
+              messages,
+              tools: {
+                ...buildNeuralSeedTools(address),
+                ...(memory.enabled ? buildMemoryTools(address, conversationId) : {}),
+              },
+              // Let the model answer after the tool results come back
+              stopWhen: stepCountIs(AI_MAX_TOOL_STEPS),
+              // Fail over instead of retrying a struggling provider
+              maxRetries: index < chain.length - 1 ? 0 : 2,
+              abortSignal: AbortSignal.any([AbortSignal.timeout(AI_CONFIG.timeouts.responseTimeout), clientAbort.signal]),
+            });
+
+            for await (const part of result.fullStream) {
+              if (part.type === 'text-delta') {
+                response += part.text;
+                emit({ type: 'delta', text: part.text });
+              } else if (part.type === 'tool-call') {
+                emit({ type: 'tool', name: part.toolName });
+              } else if (part.type === 'finish-step') {
+                usage.inputTokens += part.usage.inputTokens || 0;
+                usage.outputTokens += part.usage.outputTokens || 0;
+              } else if (part.type === 'error') {
+                throw part.error;
+              } else if (part.type === 'abort') {
+                throw clientAbort.signal.aborted ? clientAbort.signal.reason : new Error('AI response timed out');
+              }
+            }
+
+            const tokensUsed = await recordAttemptSpend(entry, usage);
+
+            console.log('✅ AI Response Streamed:', {
+              provider: entry.provider,
+              model: entry.model,
+              responseLength: response.length,
+              tokensUsed,
+            });
+
+            await recordProviderSuccess(entry.provider);
+            const { text, sources } = extractCitations(response, knowledge);
+            const aiResponse = await storeAIMessage(address, text || AI_ERROR_REPLY, 'assistant', conversationId, tokensUsed, {
+              sources,
+              provider: entry.provider,
+              model: entry.model,
+            });
+            await trackAIUsage(address, tokensUsed);
+            emit({ type: 'done', aiResponse });
+            return;
+          } catch (error) {
+            await recordAttemptSpend(entry, usage);
+            // The client hanging up says nothing about the provider's health
+            if (clientAbort.signal.aborted) throw error;
+            await recordProviderFailure(entry.provider, error);
+            console.error('AI Provider Error:', {
+              provider: entry.provider,
+              model: entry.model,
+              error: error instanceof Error ? error.message : String(error),
+              address: address.slice(0, 6) + '...'
+            });
+            // Once text has reached the user another provider can't take over mid-reply
+            if (response) throw error;
+          }
+        }
+        throw new Error('No AI provider could answer');
+      } catch {
+        if (clientAbort.signal.aborted) {
+          console.log('AI stream closed by the client', { address: address.slice(0, 6) + '...' });
+          return;
+        }
+        // Store error response
+        try {
+          const aiResponse = await storeAIMessage(address, AI_ERROR_REPLY, 'assistant', conversationId);
+          emit({ type: 'error', aiResponse });
+        } catch (storeError) {
+          console.error('Failed to store AI error response:', storeError);
+        }
+      } finally {
+        if (!clientAbort.signal.aborted) controller.close();
       }
-    ];
-
-    // Use Vercel AI SDK generateText with messages array
-    const result = await generateText({
-      model,
-      messages,
-      // Note: we do NOT use 'system' or 'prompt' top-level properties here anymore, 
-      // everything is in the 'messages' array for full control.
-    });
-
-    const response = result.text;
-    // AI SDK v5 uses inputTokens and outputTokens instead of promptTokens and completionTokens
-    const tokensUsed = (result.usage.inputTokens || 0) + (result.usage.outputTokens || 0);
-
-    console.log('✅ AI Response Received:', {
-      responseLength: response.length,
-      tokensUsed,
-      responsePreview: response.substring(0, 100) + (response.length > 100 ? '...' : ''),
-    });
-
-    // Store AI response
-    const aiResponse = await storeAIMessage(address, response, 'assistant', conversationId, tokensUsed);
-
-    // Track usage
-    await trackAIUsage(address, tokensUsed);
-
-    return { userMessage, aiResponse };
-  } catch (error) {
-    console.error('AI Provider Error:', {
-      provider: getCurrentAIProvider(),
-      model: getCurrentModelConfig().model,
-      error: error instanceof Error ? error.message : String(error),
-      address: address.slice(0, 6) + '...'
-    });
-
-    // Store error response
-    const errorResponse = await storeAIMessage(
-      address,
-      'Sorry, I encountered an error while processing your request. Please try again later.',
-      'assistant',
-      conversationId
-    );
-
-    return { userMessage, aiResponse: errorResponse };
-  }
+    },
+    cancel(reason) {
+      clientAbort.abort(reason);
+    },
+  });
 }
 
 // Track AI usage
@@ -606,6 +783,7 @@ export async function deleteAIConversation(conversationId: string): Promise<bool
         if (parts.length >= 3) {
           const address = parts[2];
           pipeline.del(`ai:user_active_conversation:${address}`);
+          pipeline.zrem(userConversationsKey(address), conversationId);
         }
       }
     }
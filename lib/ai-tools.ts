@@ -0,0 +1,216 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { formatUnits } from 'viem';
+import { TOWN_BUILDING_NAMES, VILLAGE_BUILDING_NAMES } from './constants';
+import {
+  getAliveTokenIds,
+  getFenceV2Config,
+  getLandBuildingsBatch,
+  getLandLeaderboard,
+  getLandsByOwner,
+  getMarketplaceActiveOrders,
+  getPlantsByOwner,
+  getPlantsInfoExtended,
+  getStakeInfo,
+  quoteFenceV2,
+} from './contracts';
+import { getStakeLeaderboard } from './stake-leaderboard-service';
+import { getLeaderboards, getMissionScore } from './gamification-service';
+import { getUserGameStats, formatStatsForAI } from './user-stats-service';
+import type { Plant } from './types';
+
+/**
+ * Read-only tools Neural Seed can call for live game data. Nothing here signs or sends
+ * transactions; onchain actions stay with the Agent.
+ */
+
+const formatToken = (wei: bigint) => Number(formatUnits(wei, 18)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const hoursUntil = (unixSeconds: number) =>
+  Math.max(0, Math.round(((unixSeconds - Math.floor(Date.now() / 1000)) / 3600) * 10) / 10);
+
+function describePlant(p: Plant) {
+  return {
+    id: p.id,
+    name: p.name || `Plant #${p.id}`,
+    status: p.statusStr,
+    level: p.level,
+    pts: p.score / 1e12,
+    stars: p.stars,
+    strain: p.strain,
+    hoursUntilStarving: hoursUntil(p.timeUntilStarving),
+    fenceActive: Boolean(p.fenceV2?.isActive),
+    fenceHoursLeft: p.fenceV2?.isActive ? hoursUntil(Number(p.fenceV2.activeUntil || 0)) : 0,
+  };
+}
+
+const buildingName = (names: Record<number, string>, id: number) => names[id] || `Building ${id}`;
+
+const reasonParams = z.object({
+  reason: z.string().optional().describe('Why the data is needed'),
+});
+
+export function buildNeuralSeedTools(address: string) {
+  // The full stats snapshot is heavy (many RPC reads), so it is fetched at most once per turn
+  let statsPromise: Promise<string> | null = null;
+  const getStatsSnapshot = () => {
+    statsPromise ??= getUserGameStats(address).then(formatStatsForAI);
+    return statsPromise;
+  };
+
+  const plantDetailsParams = z.object({
+    plantId: z.number().int().positive().optional().describe("A plant id; omit for all of the user's plants"),
+  });
+
+  const landBuildingsParams = z.object({
+    landId: z.number().int().nonnegative().optional().describe("A land id; omit for all of the user's lands"),
+  });
+
+  const fenceQuoteParams = z.object({
+    days: z.number().int().positive().describe('Fence duration in days'),
+  });
+
+  const orderBookParams = z.object({
+    side: z.enum(['all', 'selling_seed', 'selling_leaf']).default('all').describe('Which orders to list'),
+  });
+
+  const rankParams = z.object({
+    board: z.enum(['plants', 'lands', 'stake', 'rocks']).describe('Leaderboard to look up'),
+  });
+
+  return {
+    get_player_overview: tool({
+      description: "Full snapshot of the user's account: balances, plants, lands, staking, streaks and missions. Slow; prefer the specific tools when they answer the question.",
+      inputSchema: reasonParams,
+      execute: async () => ({ stats: await getStatsSnapshot() }),
+      strict: true,
+    }),
+
+    get_plant_details: tool({
+      description: "Live details of the user's plants (or any plant by id): level, PTS, stars, hours until starving and fence status.",
+      inputSchema: plantDetailsParams,
+      execute: async ({ plantId }) => {
+        if (plantId) {
+          const [plant] = await getPlantsInfoExtended([plantId]);
+          return plant ? describePlant(plant) : { error: true, message: `Plant #${plantId} not found.` };
+        }
+        const plants = await getPlantsByOwner(address);
+        return plants.map(describePlant).sort((a, b) => a.hoursUntilStarving - b.hoursUntilStarving);
+      },
+      strict: true,
+    }),
+
+    get_land_buildings: tool({
+      description: "The user's lands with village and town buildings: levels and production waiting to be claimed.",
+      inputSchema: landBuildingsParams,
+      execute: async ({ landId }) => {
+        const lands = (await getLandsByOwner(address)).filter((l) => landId === undefined || Number(l.tokenId) === landId);
+        if (lands.length === 0) return { error: true, message: landId === undefined ? 'User owns no lands.' : `User does not own land #${landId}.` };
+        const buildings = await getLandBuildingsBatch(lands.map((l) => l.tokenId));
+        return lands.map((land) => {
+          const entry = buildings.find((b) => b.landId === land.tokenId);
+          return {
+            landId: Number(land.tokenId),
+            name: land.name,
+            experience: formatToken(land.experiencePoints),
+            village: (entry?.villageBuildings || []).map((b: any) => ({
+              name: buildingName(VILLAGE_BUILDING_NAMES, Number(b.id)),
+              level: Number(b.level ?? 0),
+              claimablePoints: formatToken(BigInt(b.accumulatedPoints ?? 0)),
+              claimableLifetime: String(b.accumulatedLifetime ?? 0),
+            })),
+            town: (entry?.townBuildings || []).map((b: any) => ({
+              name: buildingName(TOWN_BUILDING_NAMES, Number(b.id)),
+              level: Number(b.level ?? 0),
+            })),
+          };
+        });
+      },
+      strict: true,
+    }),
+
+    get_fence_quote: tool({
+      description: 'Exact SEED price of a Fence V2 (attack protection) for a number of days, with the allowed duration range.',
+      inputSchema: fenceQuoteParams,
+      execute: async ({ days }) => {
+        const config = await getFenceV2Config();
+        if (!config) return { error: true, message: 'Fence pricing is unavailable right now.' };
+        if (days < config.minDurationDays || days > config.maxDurationDays) {
+          return { error: true, message: `Fence duration must be ${config.minDurationDays}-${config.maxDurationDays} days.` };
+        }
+        const price = await quoteFenceV2(days);
+        return { days, priceSeed: formatToken(price), pricePerDaySeed: formatToken(config.pricePerDay) };
+      },
+      strict: true,
+    }),
+
+    get_marketplace_orders: tool({
+      description: 'Open SEED/LEAF orders on the land marketplace, best price first. LEAF can only be traded here.',
+      inputSchema: orderBookParams,
+      execute: async ({ side = 'all' }) => {
+        const orders = await getMarketplaceActiveOrders();
+        const rows = orders
+          .filter((o) => side === 'all' || (side === 'selling_seed' ? o.sellToken === 0 : o.sellToken === 1))
+          .map((o) => {
+            const sellsSeed = o.sellToken === 0;
+            const seed = Number(formatUnits(sellsSeed ? o.amount : o.amountAsk, 18));
+            const leaf = Number(formatUnits(sellsSeed ? o.amountAsk : o.amount, 18));
+            return {
+              orderId: o.id.toString(),
+              selling: sellsSeed ? 'SEED' : 'LEAF',
+              amount: formatToken(o.amount),
+              asking: `${formatToken(o.amountAsk)} ${sellsSeed ? 'LEAF' : 'SEED'}`,
+              leafPerSeed: seed > 0 ? Math.round((leaf / seed) * 100) / 100 : null,
+              isMine: o.seller.toLowerCase() === address.toLowerCase(),
+            };
+          })
+          // Cheapest first: least LEAF per SEED when buying SEED, most LEAF per SEED when buying LEAF
+          .sort((a, b) => a.selling.localeCompare(b.selling)
+            || (a.selling === 'SEED' ? (a.leafPerSeed ?? 0) - (b.leafPerSeed ?? 0) : (b.leafPerSeed ?? 0) - (a.leafPerSeed ?? 0)));
+        return { count: rows.length, orders: rows.slice(0, 15) };
+      },
+      strict: true,
+    }),
+
+    get_stake_info: tool({
+      description: "The user's staked SEED and claimable LEAF rewards.",
+      inputSchema: reasonParams,
+      execute: async () => {
+        const stake = await getStakeInfo(address);
+        return stake ? { stakedSeed: formatToken(stake.staked), claimableLeaf: formatToken(stake.rewards) } : { stakedSeed: '0', claimableLeaf: '0' };
+      },
+      strict: true,
+    }),
+
+    get_leaderboard_rank: tool({
+      description: "The user's position on a leaderboard: plants (best plant by PTS), lands (XP), stake (staked SEED) or rocks (missions).",
+      inputSchema: rankParams,
+      execute: async ({ board }) => {
+        const me = address.toLowerCase();
+        if (board === 'plants') {
+          const plants = (await getPlantsInfoExtended(await getAliveTokenIds())).filter((p) => p.status !== 4).sort((a, b) => b.score - a.score);
+          const index = plants.findIndex((p) => p.owner.toLowerCase() === me);
+          return index < 0
+            ? { ranked: false, total: plants.length }
+            : { ranked: true, rank: index + 1, total: plants.length, plant: plants[index].name || `Plant #${plants[index].id}`, pts: plants[index].score / 1e12 };
+        }
+        if (board === 'lands') {
+          const lands = (await getLandLeaderboard()).sort((a, b) => (b.experiencePoints > a.experiencePoints ? 1 : b.experiencePoints < a.experiencePoints ? -1 : 0));
+          const index = lands.findIndex((l) => l.owner.toLowerCase() === me);
+          return index < 0
+            ? { ranked: false, total: lands.length }
+            : { ranked: true, rank: index + 1, total: lands.length, land: lands[index].name, experience: formatToken(lands[index].experiencePoints) };
+        }
+        if (board === 'stake') {
+          const stakers = await getStakeLeaderboard();
+          const entry = stakers.find((s) => s.address.toLowerCase() === me);
+          return entry ? { ranked: true, rank: entry.rank, total: stakers.length, stakedSeed: formatToken(entry.stakedAmount) } : { ranked: false, total: stakers.length };
+        }
+        const [{ missionTop }, rocks] = await Promise.all([getLeaderboards(), getMissionScore(address)]);
+        const index = missionTop.findIndex((e) => e.address.toLowerCase() === me);
+        return index < 0 ? { ranked: false, rocks, note: `Outside the top ${missionTop.length}` } : { ranked: true, rank: index + 1, rocks };
+      },
+      strict: true,
+    }),
+  };
+}
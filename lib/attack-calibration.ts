@@ -0,0 +1,180 @@
+import { parseAbiItem, type Log } from 'viem';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { getAttackOdds, getPlantScoresAt, getReadClient, PIXOTCHI_NFT_ADDRESS } from './contracts';
+import { getActivityFeed } from './activity-feed';
+import { AttackCalibration, DEFAULT_ATTACK_CALIBRATION } from './attack-planner';
+
+/**
+ * Calibrates the attack planner against reality. The attack cron reads every Attack event from
+ * the NFT contract's logs (so no one chooses which outcomes count) and re-reads the contract odds
+ * and the loser's score at the block before each attack. The odds factor is still clamped, since
+ * a run of lopsided attacks in a small sample shouldn't swing every plan.
+ */
+
+const OUTCOMES_MAX = 500;
+const MIN_SAMPLES = 20;
+const CALIBRATION_TTL_SECONDS = 10 * 60;
+const RECENT_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+const ODDS_FACTOR_MIN = 0.5;
+const ODDS_FACTOR_MAX = 1.5;
+// Blocks scanned per cron run (~5.5h of Base blocks); a longer gap is skipped, not backfilled
+const SYNC_MAX_BLOCKS = BigInt(10_000);
+const CHUNK_SIZE = BigInt(5_000);
+// Each outcome costs two archive reads, so a busy run only records the most recent attacks
+const OUTCOMES_PER_RUN = 100;
+const ONE = BigInt(1);
+
+const ATTACK_EVENT = parseAbiItem('event Attack(uint256 attacker, uint256 winner, uint256 loser, uint256 scoresWon)');
+type AttackLog = Log<bigint, number, false, typeof ATTACK_EVENT, true>;
+
+const KEYS = {
+  outcomes: 'attack-planner:outcomes',
+  seen: (eventId: string) => `attack-planner:seen:${eventId.toLowerCase()}`,
+  cursor: 'attack-planner:cursor',
+  calibration: 'attack-planner:calibration',
+};
+
+export type VerifiedAttackOutcome = {
+  txHash: string;
+  attacker: number;
+  target: number;
+  won: boolean;
+  scoresWon: string;
+  loserScoreBefore: string;
+  pct: number;
+  odds: number;
+  recordedAt: number;
+};
+
+export type AttackSyncResult = { fromBlock: string; toBlock: string; attacks: number; recorded: number; unavailable: number };
+
+async function fetchAttackLogs(fromBlock: bigint, toBlock: bigint): Promise<AttackLog[]> {
+  const client = getReadClient();
+  const logs: AttackLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
+    const end = start + CHUNK_SIZE - ONE > toBlock ? toBlock : start + CHUNK_SIZE - ONE;
+    const chunk = await client.getLogs({ address: PIXOTCHI_NFT_ADDRESS, event: ATTACK_EVENT, fromBlock: start, toBlock: end, strict: true });
+    logs.push(...(chunk as AttackLog[]));
+  }
+  return logs;
+}
+
+// The odds and the loser's score before the attack; null when the RPC can't serve that block
+async function toOutcome(log: AttackLog): Promise<VerifiedAttackOutcome | null> {
+  const attacker = Number(log.args.attacker);
+  const winner = Number(log.args.winner);
+  const loser = Number(log.args.loser);
+  const won = attacker === winner;
+  const target = won ? loser : winner;
+  const before = log.blockNumber - ONE;
+  const [odds] = await getAttackOdds([{ fromId: attacker, toId: target }], before).catch(() => [null]);
+  const [loserScore] = await getPlantScoresAt([loser], before).catch(() => [null]);
+  if (!odds || loserScore === null || loserScore === undefined) return null;
+
+  return {
+    txHash: log.transactionHash.toLowerCase(),
+    attacker,
+    target,
+    won,
+    scoresWon: log.args.scoresWon.toString(),
+    loserScoreBefore: loserScore.toString(),
+    pct: odds.pct,
+    odds: odds.odds,
+    recordedAt: Date.now(),
+  };
+}
+
+/** Record the Attack events mined since the last run. Called from the attack planner cron. */
+export async function syncAttackOutcomes(): Promise<AttackSyncResult> {
+  if (!redis) throw new Error('Storage unavailable');
+
+  const head = await getReadClient().getBlockNumber();
+  const cursor = await redisGetJSON<string>(KEYS.cursor);
+  const oldest = head > SYNC_MAX_BLOCKS ? head - SYNC_MAX_BLOCKS : BigInt(0);
+  const fromBlock = cursor && BigInt(cursor) + ONE > oldest ? BigInt(cursor) + ONE : oldest;
+  const result: AttackSyncResult = { fromBlock: fromBlock.toString(), toBlock: head.toString(), attacks: 0, recorded: 0, unavailable: 0 };
+  if (fromBlock > head) return result;
+
+  const logs = await fetchAttackLogs(fromBlock, head);
+  result.attacks = logs.length;
+  for (const log of logs.slice(-OUTCOMES_PER_RUN)) {
+    const outcome = await toOutcome(log);
+    if (!outcome) {
+      result.unavailable++;
+      continue;
+    }
+    // Marked only once the outcome is complete, so an RPC hiccup doesn't burn the event
+    const eventId = `${log.transactionHash}-${log.logIndex}`;
+    const fresh = await redis.set(withPrefix(KEYS.seen(eventId)), '1', { nx: true, ex: 30 * 24 * 60 * 60 });
+    if (!fresh) continue;
+    const key = withPrefix(KEYS.outcomes);
+    await redis.lpush(key, JSON.stringify(outcome));
+    await redis.ltrim(key, 0, OUTCOMES_MAX - 1);
+    result.recorded++;
+  }
+
+  await redisSetJSON(KEYS.cursor, head.toString());
+  return result;
+}
+
+async function readOutcomes(): Promise<VerifiedAttackOutcome[]> {
+  if (!redis) return [];
+  const raw = ((await redis.lrange(withPrefix(KEYS.outcomes), 0, OUTCOMES_MAX - 1)) || []) as unknown[];
+  return raw.map((r) => (typeof r === 'string' ? JSON.parse(r) : r) as VerifiedAttackOutcome);
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+async function recentAttackStats(): Promise<{ attacks: number; attackerWinRate: number | null }> {
+  try {
+    const { events } = await getActivityFeed(
+      { types: ['Attack'], from: Math.floor(Date.now() / 1000) - RECENT_WINDOW_SECONDS },
+      { limit: 100 },
+    );
+    const attacks = events.filter((e) => e.__typename === 'Attack');
+    if (attacks.length === 0) return { attacks: 0, attackerWinRate: null };
+    const wins = attacks.filter((e) => e.__typename === 'Attack' && e.attacker === e.winner).length;
+    return { attacks: attacks.length, attackerWinRate: wins / attacks.length };
+  } catch {
+    return { attacks: 0, attackerWinRate: null };
+  }
+}
+
+export async function getAttackCalibration(): Promise<AttackCalibration> {
+  const cached = await redisGetJSON<AttackCalibration>(KEYS.calibration);
+  if (cached) return cached;
+
+  const [outcomes, recent] = await Promise.all([readOutcomes().catch(() => []), recentAttackStats()]);
+
+  let oddsFactor = DEFAULT_ATTACK_CALIBRATION.oddsFactor;
+  let stealFactor = DEFAULT_ATTACK_CALIBRATION.stealFactor;
+  if (outcomes.length >= MIN_SAMPLES) {
+    const predicted = outcomes.reduce((sum, o) => sum + o.odds / 100, 0);
+    const observed = outcomes.filter((o) => o.won).length;
+    if (predicted > 0) oddsFactor = Math.min(ODDS_FACTOR_MAX, Math.max(ODDS_FACTOR_MIN, observed / predicted));
+
+    const ratios = outcomes
+      .map((o) => {
+        const expected = (Number(o.loserScoreBefore) * o.pct) / 100;
+        return expected > 0 ? Number(o.scoresWon) / expected : null;
+      })
+      .filter((r): r is number => r !== null && Number.isFinite(r));
+    stealFactor = median(ratios) ?? stealFactor;
+  }
+
+  const calibration: AttackCalibration = {
+    oddsFactor,
+    stealFactor,
+    sampleSize: outcomes.length,
+    recentAttackerWinRate: recent.attackerWinRate,
+    recentAttacks: recent.attacks,
+    updatedAt: Date.now(),
+  };
+  await redisSetJSON(KEYS.calibration, calibration, CALIBRATION_TTL_SECONDS);
+  return calibration;
+}
@@ -0,0 +1,161 @@
+import { decodeEventLog } from 'viem';
+import PixotchiNFT from '@/public/abi/PixotchiNFT.json';
+import { getFenceStatus } from './utils';
+import type { AttackOdds } from './contracts';
+import type { Plant } from './types';
+
+/**
+ * Attack planning shared by the leaderboard UI and the calibration API: eligibility rules,
+ * expected outcome from the contract's `onAttack` odds, and target ranking.
+ */
+
+export const ATTACKER_COOLDOWN_SECONDS = 30 * 60;
+export const TARGET_COOLDOWN_SECONDS = 60 * 60;
+// onAttack is queried for this many of the highest-scoring eligible targets per attacker
+export const PLANNER_TARGETS_PER_ATTACKER = 20;
+
+export type AttackCalibration = {
+  /** Observed / predicted win rate over verified outcomes (1 = contract odds are accurate) */
+  oddsFactor: number;
+  /** Observed scoresWon / (pct% of loser score) over verified outcomes */
+  stealFactor: number;
+  sampleSize: number;
+  /** Share of attacks won by the attacker across the indexer's recent Attack events */
+  recentAttackerWinRate: number | null;
+  recentAttacks: number;
+  updatedAt: number;
+};
+
+export const DEFAULT_ATTACK_CALIBRATION: AttackCalibration = {
+  oddsFactor: 1,
+  stealFactor: 1,
+  sampleSize: 0,
+  recentAttackerWinRate: null,
+  recentAttacks: 0,
+  updatedAt: 0,
+};
+
+export type AttackPlan = {
+  attackerId: number;
+  targetId: number;
+  winProbability: number;
+  /** Score units (1e12 = 1 PTS) */
+  expectedGain: number;
+  expectedLoss: number;
+  expectedValue: number;
+  pct: number;
+  odds: number;
+  /** Unix seconds when the attacker can attack again if it attacks now */
+  attackerReadyAt: number;
+  /** Unix seconds until which the target is shielded from everyone after this attack */
+  targetShieldedUntil: number;
+};
+
+export type AttackOutcome = { attacker: number; winner: number; loser: number; scoresWon: bigint; won: boolean };
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+export const isPlantDead = (p: { status: number }) => p.status === 4;
+
+export const attackerCooldownOver = (attacker: Plant, now: number = nowSec()) =>
+  now >= Number(attacker.lastAttackUsed || '0') + ATTACKER_COOLDOWN_SECONDS;
+
+export const targetCooldownOver = (target: Plant, now: number = nowSec()) =>
+  now >= Number(target.lastAttacked || '0') + TARGET_COOLDOWN_SECONDS;
+
+// Client-side guardrails based on app rules; the contract's canAttack has the final word
+export const canAttackWith = (attacker: Plant, target: Plant, now: number = nowSec()) => {
+  if (!attacker || !target) return false;
+  if (isPlantDead(attacker) || isPlantDead(target)) return false;
+  if (attacker.id === target.id) return false;
+  if (attacker.level >= target.level) return false;
+  if (!attackerCooldownOver(attacker, now)) return false;
+  if (!targetCooldownOver(target, now)) return false;
+  if (getFenceStatus(target).hasActiveFence) return false;
+  return true;
+};
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+export function planAttack(
+  attacker: Plant,
+  target: Plant,
+  odds: AttackOdds,
+  calibration: AttackCalibration = DEFAULT_ATTACK_CALIBRATION,
+  now: number = nowSec()
+): AttackPlan {
+  const winProbability = clamp01((odds.odds / 100) * calibration.oddsFactor);
+  const share = (odds.pct / 100) * calibration.stealFactor;
+  const expectedGain = target.score * share;
+  const expectedLoss = attacker.score * share;
+  return {
+    attackerId: attacker.id,
+    targetId: target.id,
+    winProbability,
+    expectedGain,
+    expectedLoss,
+    expectedValue: winProbability * expectedGain - (1 - winProbability) * expectedLoss,
+    pct: odds.pct,
+    odds: odds.odds,
+    attackerReadyAt: now + ATTACKER_COOLDOWN_SECONDS,
+    targetShieldedUntil: now + TARGET_COOLDOWN_SECONDS,
+  };
+}
+
+/** Candidate (attacker, target) pairs worth an onAttack read: eligible targets with the most PTS at stake. */
+export function candidatePairs(myPlants: Plant[], targets: Plant[], now: number = nowSec()): Array<{ fromId: number; toId: number }> {
+  const myIds = new Set(myPlants.map((p) => p.id));
+  const pairs: Array<{ fromId: number; toId: number }> = [];
+  for (const attacker of myPlants) {
+    targets
+      .filter((t) => !myIds.has(t.id) && canAttackWith(attacker, t, now))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, PLANNER_TARGETS_PER_ATTACKER)
+      .forEach((t) => pairs.push({ fromId: attacker.id, toId: t.id }));
+  }
+  return pairs;
+}
+
+/** Best targets per attacker by expected PTS, dropping pairs the contract says can't attack. */
+export function rankAttackTargets(
+  myPlants: Plant[],
+  targets: Plant[],
+  odds: Array<AttackOdds | null>,
+  calibration: AttackCalibration = DEFAULT_ATTACK_CALIBRATION,
+  now: number = nowSec()
+): Map<number, AttackPlan[]> {
+  const byId = new Map<number, Plant>([...targets, ...myPlants].map((p) => [p.id, p]));
+  const ranked = new Map<number, AttackPlan[]>();
+  for (const o of odds) {
+    if (!o || !o.canAttack) continue;
+    const attacker = byId.get(o.fromId);
+    const target = byId.get(o.toId);
+    if (!attacker || !target) continue;
+    const plans = ranked.get(o.fromId) ?? [];
+    plans.push(planAttack(attacker, target, o, calibration, now));
+    ranked.set(o.fromId, plans);
+  }
+  ranked.forEach((plans) => plans.sort((a, b) => b.expectedValue - a.expectedValue));
+  return ranked;
+}
+
+export function parseAttackOutcome(logs: Array<{ data: string; topics: readonly string[] }>): AttackOutcome | null {
+  const abi = (PixotchiNFT as any).abi || PixotchiNFT;
+  for (const log of logs) {
+    try {
+      const decoded: any = decodeEventLog({ abi, data: log.data as `0x${string}`, topics: log.topics as any });
+      if (decoded.eventName === 'Attack') {
+        const attacker = Number(decoded.args.attacker);
+        const winner = Number(decoded.args.winner);
+        return {
+          attacker,
+          winner,
+          loser: Number(decoded.args.loser),
+          scoresWon: BigInt(decoded.args.scoresWon),
+          won: attacker === winner,
+        };
+      }
+    } catch { }
+  }
+  return null;
+}
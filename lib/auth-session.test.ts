@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { createSiweMessage } from 'viem/siwe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_URL = 'https://mini.pixotchi.tech';
+  process.env.AUTH_ALLOWED_HOSTS = 'beta.mini.pixotchi.tech';
+});
+
+import { redis, redisSetJSON } from './redis';
+import { MemoryStore } from './kv-store-memory';
+import { AuthSessionError, requireSession, SESSION_COOKIE, signInWithEthereum } from './auth-session';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+const SESSION_ID = 'test-session';
+
+function request(method: string, headers: Record<string, string> = {}) {
+  return new NextRequest('https://mini.pixotchi.tech/api/agent/execute', {
+    method,
+    headers: { host: 'mini.pixotchi.tech', cookie: `${SESSION_COOKIE}=${SESSION_ID}`, ...headers },
+  });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<AuthSessionError> {
+  const error = await promise.then(() => null, (e) => e);
+  expect(error).toBeInstanceOf(AuthSessionError);
+  return error;
+}
+
+beforeEach(async () => {
+  (redis as MemoryStore).flushAll();
+  const now = Date.now();
+  await redisSetJSON(`auth:session:${SESSION_ID}`, {
+    id: SESSION_ID, address: ADDRESS, method: 'siwe', fid: null, issuedAt: now, expiresAt: now + 60_000,
+  }, 60);
+});
+
+describe('requireSession', () => {
+  it('accepts writes from the app and its configured hosts', async () => {
+    expect((await requireSession(request('POST', { origin: 'https://mini.pixotchi.tech' }), ADDRESS)).address).toBe(ADDRESS);
+    expect((await requireSession(request('POST', { origin: 'https://beta.mini.pixotchi.tech' }), ADDRESS)).address).toBe(ADDRESS);
+    // Server-to-server calls send no Origin
+    expect((await requireSession(request('POST'), ADDRESS)).address).toBe(ADDRESS);
+  });
+
+  it('rejects writes from other sites even with a valid cookie', async () => {
+    for (const headers of <Record<string, string>[]>[
+      { origin: 'https://evil.example', 'content-type': 'text/plain' },
+      { origin: 'null' },
+      { 'sec-fetch-site': 'cross-site' },
+    ]) {
+      expect((await rejection(requireSession(request('POST', headers), ADDRESS))).code).toBe('CROSS_SITE_REQUEST');
+    }
+  });
+
+  it('leaves reads to the cookie alone', async () => {
+    expect((await requireSession(request('GET', { origin: 'https://evil.example' }), ADDRESS)).address).toBe(ADDRESS);
+  });
+});
+
+describe('signInWithEthereum', () => {
+  it('binds the message domain to configured hosts, not forwarded headers', async () => {
+    const message = createSiweMessage({
+      address: ADDRESS,
+      chainId: 8453,
+      domain: 'evil.example',
+      nonce: 'abcdefgh12345678',
+      uri: 'https://evil.example',
+      version: '1',
+      issuedAt: new Date(),
+    });
+    const spoofed = new NextRequest('https://mini.pixotchi.tech/api/auth/verify', {
+      method: 'POST',
+      headers: { host: 'mini.pixotchi.tech', origin: 'https://mini.pixotchi.tech', 'x-forwarded-host': 'evil.example' },
+    });
+    expect((await rejection(signInWithEthereum(spoofed, message, '0x'))).message).toBe('Sign-in message was issued for a different site');
+  });
+});
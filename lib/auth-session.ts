@@ -0,0 +1,311 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { isAddress } from 'viem';
+import { base } from 'viem/chains';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { createClient as createQuickAuthClient } from '@farcaster/quick-auth';
+import { redis, redisDel, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { getReadClient } from './contracts';
+import { createErrorResponse } from './auth-utils';
+
+/**
+ * Wallet sessions for address-scoped API routes.
+ *
+ * A wallet proves control once, either with a Sign-In-With-Ethereum message (EOAs, ERC-1271
+ * smart accounts and ERC-6492 counterfactual accounts, all via viem's verifySiweMessage) or,
+ * inside a Mini App, with a Farcaster Quick Auth token for an FID that has verified the address.
+ * The server then keeps an opaque session id in an HttpOnly cookie; routes call
+ * `requireSession(request, address)` instead of trusting the `address` in the request.
+ *
+ * The cookie is SameSite=None so it also reaches the API from Mini App frames, which means the
+ * browser attaches it to cross-site requests too. Sign-ins and session-authenticated writes are
+ * therefore only accepted from the app's own origin (NEXT_PUBLIC_URL or AUTH_ALLOWED_HOSTS).
+ */
+
+const parsePositive = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const SESSION_COOKIE = 'pixotchi_session';
+const SESSION_TTL_SECONDS = Math.floor(parsePositive(process.env.AUTH_SESSION_TTL_HOURS, 24 * 7) * 60 * 60);
+const NONCE_TTL_SECONDS = 5 * 60;
+const SIWE_MAX_AGE_MS = 10 * 60 * 1000;
+const FID_ADDRESSES_TTL_SECONDS = 10 * 60;
+
+const KEYS = {
+  nonce: (nonce: string) => `auth:nonce:${nonce}`,
+  session: (id: string) => `auth:session:${id}`,
+  fidAddresses: (fid: number) => `auth:fid-addresses:${fid}`,
+};
+
+export type AuthMethod = 'siwe' | 'quick-auth';
+
+export type AuthSession = {
+  id: string;
+  /** Lowercased wallet address the session acts for */
+  address: string;
+  method: AuthMethod;
+  fid: number | null;
+  issuedAt: number;
+  expiresAt: number;
+};
+
+export type AuthSessionErrorCode =
+  | 'SESSION_REQUIRED'
+  | 'SESSION_ADDRESS_MISMATCH'
+  | 'INVALID_SIGN_IN'
+  | 'SESSIONS_UNAVAILABLE'
+  | 'CROSS_SITE_REQUEST';
+
+export class AuthSessionError extends Error {
+  status: number;
+  code: AuthSessionErrorCode;
+  constructor(message: string, status: number, code: AuthSessionErrorCode) {
+    super(message);
+    this.name = 'AuthSessionError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function sessionErrorResponse(error: AuthSessionError): NextResponse {
+  const { body, status } = createErrorResponse(error.message, error.status, error.code);
+  return NextResponse.json(body, { status });
+}
+
+const invalidSignIn = (message: string) => new AuthSessionError(message, 401, 'INVALID_SIGN_IN');
+
+function requireRedis() {
+  if (!redis) {
+    throw new AuthSessionError('Sign-in is temporarily unavailable', 503, 'SESSIONS_UNAVAILABLE');
+  }
+  return redis;
+}
+
+// Hosts the app is served from: the configured app URL and AUTH_ALLOWED_HOSTS. Request headers are
+// client-controlled, so the serving host only counts outside production (local dev).
+function allowedHosts(request: NextRequest): string[] {
+  const hosts = new Set<string>();
+  try {
+    if (process.env.NEXT_PUBLIC_URL) hosts.add(new URL(process.env.NEXT_PUBLIC_URL).host.toLowerCase());
+  } catch { }
+  for (const host of (process.env.AUTH_ALLOWED_HOSTS || '').split(',')) {
+    if (host.trim()) hosts.add(host.trim().toLowerCase());
+  }
+  if (process.env.NODE_ENV !== 'production') {
+    const requestHost = request.headers.get('host');
+    if (requestHost) hosts.add(requestHost.toLowerCase());
+  }
+  return Array.from(hosts);
+}
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Reject state-changing requests sent by another site. Browsers always send Origin on cross-site
+ * POSTs (including text/plain "simple" requests); a request without one is either same-origin from an
+ * older browser or server-to-server, and neither carries a victim's cookie.
+ */
+function assertAppOrigin(request: NextRequest): void {
+  if (SAFE_METHODS.has(request.method)) return;
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    if (request.headers.get('sec-fetch-site') === 'cross-site') {
+      throw new AuthSessionError('Request did not come from this app', 403, 'CROSS_SITE_REQUEST');
+    }
+    return;
+  }
+  let host: string | null = null;
+  try {
+    host = new URL(origin).host.toLowerCase();
+  } catch { }
+  if (!host || !allowedHosts(request).includes(host)) {
+    throw new AuthSessionError('Request did not come from this app', 403, 'CROSS_SITE_REQUEST');
+  }
+}
+
+export async function issueNonce(): Promise<string> {
+  requireRedis();
+  const nonce = generateSiweNonce();
+  const stored = await redisSetJSON(KEYS.nonce(nonce), { issuedAt: Date.now() }, NONCE_TTL_SECONDS);
+  if (!stored) {
+    throw new AuthSessionError('Sign-in is temporarily unavailable', 503, 'SESSIONS_UNAVAILABLE');
+  }
+  return nonce;
+}
+
+// Nonces are single use: only the request that deletes the key may use it
+async function consumeNonce(nonce: string): Promise<boolean> {
+  const client = requireRedis();
+  return (await client.del(withPrefix(KEYS.nonce(nonce)))) === 1;
+}
+
+async function createSession(address: string, method: AuthMethod, fid: number | null, maxExpiresAt?: number): Promise<AuthSession> {
+  requireRedis();
+  const now = Date.now();
+  const expiresAt = Math.min(now + SESSION_TTL_SECONDS * 1000, maxExpiresAt ?? Number.POSITIVE_INFINITY);
+  const session: AuthSession = {
+    id: randomBytes(32).toString('base64url'),
+    address: address.toLowerCase(),
+    method,
+    fid,
+    issuedAt: now,
+    expiresAt,
+  };
+  const ttl = Math.max(1, Math.ceil((expiresAt - now) / 1000));
+  if (!(await redisSetJSON(KEYS.session(session.id), session, ttl))) {
+    throw new AuthSessionError('Sign-in is temporarily unavailable', 503, 'SESSIONS_UNAVAILABLE');
+  }
+  return session;
+}
+
+/** Verify a signed SIWE message for Base issued by this app and open a session for its address. */
+export async function signInWithEthereum(request: NextRequest, message: string, signature: string): Promise<AuthSession> {
+  assertAppOrigin(request);
+  let parsed: ReturnType<typeof parseSiweMessage>;
+  try {
+    parsed = parseSiweMessage(message);
+  } catch {
+    throw invalidSignIn('Malformed sign-in message');
+  }
+  const { address, domain, nonce, chainId, issuedAt } = parsed;
+
+  if (!address || !isAddress(address) || !domain || !nonce) {
+    throw invalidSignIn('Malformed sign-in message');
+  }
+  if (!allowedHosts(request).includes(domain.toLowerCase())) {
+    throw invalidSignIn('Sign-in message was issued for a different site');
+  }
+  if (chainId !== base.id) {
+    throw invalidSignIn('Sign-in message must be for Base');
+  }
+  if (!issuedAt || Date.now() - issuedAt.getTime() > SIWE_MAX_AGE_MS) {
+    throw invalidSignIn('Sign-in message has expired');
+  }
+  if (!(await consumeNonce(nonce))) {
+    throw invalidSignIn('Sign-in nonce is invalid or was already used');
+  }
+
+  // Covers EOAs, deployed smart accounts (ERC-1271) and undeployed ones (ERC-6492)
+  let valid = false;
+  try {
+    valid = await getReadClient().verifySiweMessage({
+      message,
+      signature: signature as `0x${string}`,
+      domain,
+      nonce,
+    });
+  } catch (error) {
+    console.warn('[auth-session] SIWE verification failed', error);
+  }
+  if (!valid) {
+    throw invalidSignIn('Signature does not match the sign-in message');
+  }
+
+  return createSession(address, 'siwe', null);
+}
+
+// Custody and verified Ethereum addresses of an FID, from Neynar
+async function getFidAddresses(fid: number): Promise<string[]> {
+  const cached = await redisGetJSON<string[]>(KEYS.fidAddresses(fid));
+  if (cached) return cached;
+
+  const apiKey = process.env.NEYNAR_API_KEY;
+  if (!apiKey) {
+    throw new AuthSessionError('Farcaster sign-in is not configured', 503, 'SESSIONS_UNAVAILABLE');
+  }
+  const response = await fetch(`https://api.neynar.com/v2/farcaster/user/bulk?fids=${fid}`, {
+    headers: { 'x-api-key': apiKey },
+    signal: AbortSignal.timeout(5000),
+  });
+  if (!response.ok) {
+    throw new AuthSessionError('Could not look up Farcaster account', 502, 'SESSIONS_UNAVAILABLE');
+  }
+  const data = await response.json();
+  const user = data?.users?.[0];
+  const addresses: string[] = [
+    user?.custody_address,
+    ...(user?.verified_addresses?.eth_addresses ?? []),
+  ]
+    .filter((a): a is string => typeof a === 'string' && isAddress(a))
+    .map((a) => a.toLowerCase());
+
+  await redisSetJSON(KEYS.fidAddresses(fid), addresses, FID_ADDRESSES_TTL_SECONDS);
+  return addresses;
+}
+
+/** Verify a Farcaster Quick Auth token and open a session for one of the FID's verified addresses. */
+export async function signInWithQuickAuth(request: NextRequest, token: string, address: string): Promise<AuthSession> {
+  assertAppOrigin(request);
+  if (!isAddress(address)) {
+    throw invalidSignIn('Valid wallet address is required');
+  }
+
+  let fid: number | null = null;
+  let expiresAt: number | undefined;
+  for (const host of allowedHosts(request)) {
+    try {
+      const payload = await createQuickAuthClient().verifyJwt({ token, domain: host.split(':')[0] });
+      fid = Number(payload.sub);
+      expiresAt = typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+      break;
+    } catch { }
+  }
+  if (!fid || !Number.isInteger(fid)) {
+    throw invalidSignIn('Farcaster token is invalid or expired');
+  }
+
+  const addresses = await getFidAddresses(fid);
+  if (!addresses.includes(address.toLowerCase())) {
+    throw new AuthSessionError('This wallet is not verified on your Farcaster account', 403, 'INVALID_SIGN_IN');
+  }
+
+  return createSession(address, 'quick-auth', fid, expiresAt);
+}
+
+export async function getSession(request: NextRequest): Promise<AuthSession | null> {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return null;
+  const session = await redisGetJSON<AuthSession>(KEYS.session(id));
+  if (!session || session.expiresAt <= Date.now()) return null;
+  return session;
+}
+
+/**
+ * The caller's session, optionally checked against the address the request acts for.
+ * Throws AuthSessionError (401 without a session, 403 for a different wallet or, on writes,
+ * a request from another site).
+ */
+export async function requireSession(request: NextRequest, address?: string | null): Promise<AuthSession> {
+  assertAppOrigin(request);
+  const session = await getSession(request);
+  if (!session) {
+    throw new AuthSessionError('Sign in with your wallet to continue', 401, 'SESSION_REQUIRED');
+  }
+  if (address && session.address !== address.toLowerCase()) {
+    throw new AuthSessionError('Signed in with a different wallet', 403, 'SESSION_ADDRESS_MISMATCH');
+  }
+  return session;
+}
+
+export async function destroySession(request: NextRequest): Promise<void> {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (id) await redisDel(KEYS.session(id));
+}
+
+// SameSite=None so the cookie is also sent when the app is embedded in a Mini App frame
+export function setSessionCookie(response: NextResponse, session: AuthSession): void {
+  const secure = process.env.NODE_ENV === 'production';
+  response.cookies.set(SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    secure,
+    sameSite: secure ? 'none' : 'lax',
+    path: '/',
+    maxAge: Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000)),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
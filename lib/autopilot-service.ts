@@ -0,0 +1,327 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { getPlantsByOwner, getPlantsByOwnerWithRpc } from './contracts';
+import { AGENT_MAX_PLANTS_PER_ACTION, AgentActionRequest, quoteAgentAction, runAgentAction } from './agent-actions';
+import type { Plant } from './types';
+
+/**
+ * Plant-care autopilot: opt-in rules evaluated by the autopilot cron (/api/agent/autopilot/cron) and executed
+ * through the agent smart account under the user's SEED spend permission.
+ */
+
+const FeedBelowRuleSchema = z.object({
+  id: z.string().optional(),
+  type: z.literal('feed_below'),
+  enabled: z.boolean().default(true),
+  thresholdHours: z.number().min(1).max(72),
+  itemKind: z.enum(['shop', 'garden']),
+  itemId: z.string().min(1),
+  // Empty = every plant owned by the user
+  plantIds: z.array(z.number().int().nonnegative()).max(100).optional(),
+});
+
+const KeepFenceRuleSchema = z.object({
+  id: z.string().optional(),
+  type: z.literal('keep_fence'),
+  enabled: z.boolean().default(true),
+  plantId: z.number().int().nonnegative(),
+  days: z.number().int().min(1).max(30),
+  renewBelowHours: z.number().min(1).max(72).default(12),
+});
+
+export const AutopilotRuleSchema = z.discriminatedUnion('type', [FeedBelowRuleSchema, KeepFenceRuleSchema]);
+
+export const AutopilotConfigSchema = z.object({
+  enabled: z.boolean(),
+  dryRun: z.boolean().default(false),
+  rules: z.array(AutopilotRuleSchema).max(10),
+});
+
+export type AutopilotRule = z.infer<typeof AutopilotRuleSchema> & { id: string };
+
+export type AutopilotConfig = {
+  enabled: boolean;
+  dryRun: boolean;
+  rules: AutopilotRule[];
+  updatedAt: number;
+};
+
+export type AutopilotLogEntry = {
+  id: string;
+  ruleId: string;
+  ruleType: AutopilotRule['type'];
+  timestamp: number;
+  mode: 'live' | 'dry_run';
+  status: 'executed' | 'would_execute' | 'failed';
+  plantIds: number[];
+  seedCost: string;
+  txHash: string | null;
+  message: string;
+};
+
+export type AutopilotRunSummary = {
+  address: string;
+  evaluated: number;
+  executed: number;
+  wouldExecute: number;
+  failed: number;
+};
+
+const LOG_MAX_ENTRIES = 100;
+const LOG_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Do not act on the same plant/rule again until the chain has caught up with the last action
+const RULE_COOLDOWN_SECONDS = 60 * 60;
+
+const KEYS = {
+  config: (address: string) => `autopilot:config:${address.toLowerCase()}`,
+  users: 'autopilot:users',
+  log: (address: string) => `autopilot:log:${address.toLowerCase()}`,
+  cooldown: (address: string, ruleId: string, plantId: number) =>
+    `autopilot:cooldown:${address.toLowerCase()}:${ruleId}:${plantId}`,
+};
+
+export async function getAutopilotConfig(address: string): Promise<AutopilotConfig> {
+  const stored = await redisGetJSON<AutopilotConfig>(KEYS.config(address));
+  return stored ?? { enabled: false, dryRun: false, rules: [], updatedAt: 0 };
+}
+
+export async function saveAutopilotConfig(address: string, input: unknown): Promise<{ success: true; config: AutopilotConfig } | { success: false; error: string }> {
+  const parsed = AutopilotConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ') };
+  }
+
+  const config: AutopilotConfig = {
+    enabled: parsed.data.enabled,
+    dryRun: parsed.data.dryRun,
+    rules: parsed.data.rules.map((rule) => ({ ...rule, id: rule.id || nanoid(10) })),
+    updatedAt: Date.now(),
+  };
+
+  const ok = await redisSetJSON(KEYS.config(address), config);
+  if (!ok) return { success: false, error: 'Storage unavailable' };
+
+  if (redis) {
+    if (config.enabled && config.rules.some((r) => r.enabled)) {
+      await redis.sadd(withPrefix(KEYS.users), address.toLowerCase());
+    } else {
+      await redis.srem(withPrefix(KEYS.users), address.toLowerCase());
+    }
+  }
+
+  return { success: true, config };
+}
+
+export async function getAutopilotLog(address: string, limit: number = 50): Promise<AutopilotLogEntry[]> {
+  if (!redis) return [];
+  try {
+    const raw = (await redis.lrange(withPrefix(KEYS.log(address)), 0, Math.min(limit, LOG_MAX_ENTRIES) - 1)) as unknown[];
+    return raw
+      .map((item) => (typeof item === 'string' ? JSON.parse(item) : item) as AutopilotLogEntry)
+      .filter(Boolean);
+  } catch (error) {
+    console.error('[AUTOPILOT] Failed to read log:', error);
+    return [];
+  }
+}
+
+async function appendLog(address: string, entry: Omit<AutopilotLogEntry, 'id' | 'timestamp'>): Promise<void> {
+  if (!redis) return;
+  const full: AutopilotLogEntry = { ...entry, id: nanoid(10), timestamp: Date.now() };
+  try {
+    const key = withPrefix(KEYS.log(address));
+    await redis.lpush(key, JSON.stringify(full));
+    await redis.ltrim(key, 0, LOG_MAX_ENTRIES - 1);
+    await redis.expire(key, LOG_TTL_SECONDS);
+  } catch (error) {
+    console.error('[AUTOPILOT] Failed to append log:', error);
+  }
+}
+
+async function isOnCooldown(address: string, ruleId: string, plantId: number): Promise<boolean> {
+  if (!redis) return false;
+  const exists = await redis.get(withPrefix(KEYS.cooldown(address, ruleId, plantId)));
+  return Boolean(exists);
+}
+
+async function setCooldown(address: string, ruleId: string, plantId: number): Promise<void> {
+  if (!redis) return;
+  await redis.set(withPrefix(KEYS.cooldown(address, ruleId, plantId)), '1', { ex: RULE_COOLDOWN_SECONDS });
+}
+
+const secondsLeft = (plant: Plant, nowSec: number) => Number(plant.timeUntilStarving ?? 0) - nowSec;
+
+/**
+ * Work out which action (if any) a rule wants to take right now.
+ */
+async function planRule(address: string, rule: AutopilotRule, plants: Plant[], nowSec: number): Promise<{ request: AgentActionRequest; plantIds: number[] } | null> {
+  const alive = plants.filter((p) => p.status !== 4 && secondsLeft(p, nowSec) > 0);
+
+  if (rule.type === 'feed_below') {
+    const scope = rule.plantIds && rule.plantIds.length > 0 ? new Set(rule.plantIds) : null;
+    const candidates = alive
+      .filter((p) => !scope || scope.has(p.id))
+      .filter((p) => secondsLeft(p, nowSec) <= rule.thresholdHours * 3600)
+      .sort((a, b) => secondsLeft(a, nowSec) - secondsLeft(b, nowSec));
+
+    const due: number[] = [];
+    for (const plant of candidates) {
+      if (due.length >= AGENT_MAX_PLANTS_PER_ACTION) break;
+      if (!(await isOnCooldown(address, rule.id, plant.id))) due.push(plant.id);
+    }
+    if (due.length === 0) return null;
+
+    return {
+      request: { action: rule.itemKind === 'garden' ? 'buy_garden_item' : 'buy_shop_item', itemId: rule.itemId, plantIds: due },
+      plantIds: due,
+    };
+  }
+
+  const plant = alive.find((p) => p.id === rule.plantId);
+  if (!plant) return null;
+  const activeUntil = Number(plant.fenceV2?.activeUntil ?? 0);
+  const fenceLeft = activeUntil > nowSec ? activeUntil - nowSec : 0;
+  if (fenceLeft > rule.renewBelowHours * 3600) return null;
+  if (await isOnCooldown(address, rule.id, plant.id)) return null;
+
+  return { request: { action: 'buy_fence', plantId: plant.id, days: rule.days }, plantIds: [plant.id] };
+}
+
+/**
+ * Evaluate and (unless in dry-run) execute every enabled rule for a user.
+ */
+export async function runAutopilotForAddress(
+  address: string,
+  options: { dryRun?: boolean; rpcUrl?: string } = {},
+): Promise<AutopilotRunSummary> {
+  const summary: AutopilotRunSummary = { address: address.toLowerCase(), evaluated: 0, executed: 0, wouldExecute: 0, failed: 0 };
+  const config = await getAutopilotConfig(address);
+  if (!config.enabled) return summary;
+
+  const rules = config.rules.filter((r) => r.enabled);
+  if (rules.length === 0) return summary;
+
+  const dryRun = Boolean(options.dryRun || config.dryRun);
+  const plants = options.rpcUrl
+    ? await getPlantsByOwnerWithRpc(address, options.rpcUrl)
+    : await getPlantsByOwner(address);
+  const nowSec = Math.floor(Date.now() / 1000);
+
+  for (const rule of rules) {
+    summary.evaluated++;
+    try {
+      const plan = await planRule(address, rule, plants, nowSec);
+      if (!plan) continue;
+
+      if (dryRun) {
+        const quote = await quoteAgentAction(address, plan.request);
+        await appendLog(address, {
+          ruleId: rule.id,
+          ruleType: rule.type,
+          mode: 'dry_run',
+          status: quote.error ? 'failed' : 'would_execute',
+          plantIds: plan.plantIds,
+          seedCost: quote.seedCost,
+          txHash: null,
+          message: quote.error || quote.summary,
+        });
+        if (quote.error) summary.failed++;
+        else summary.wouldExecute++;
+        continue;
+      }
+
+      const result = await runAgentAction({
+        userAddress: address,
+        request: plan.request,
+        tool: `autopilot:${rule.type}`,
+        prompt: `Autopilot rule ${rule.id}`,
+      });
+
+      // Back off either way so a failing rule does not retry every cron tick
+      await Promise.all(plan.plantIds.map((plantId) => setCooldown(address, rule.id, plantId)));
+
+      if (result.ok) {
+        summary.executed++;
+        await appendLog(address, {
+          ruleId: rule.id,
+          ruleType: rule.type,
+          mode: 'live',
+          status: 'executed',
+          plantIds: plan.plantIds,
+          seedCost: result.quote.seedCost,
+          txHash: result.transactionHash || null,
+          message: result.quote.summary,
+        });
+      } else {
+        summary.failed++;
+        await appendLog(address, {
+          ruleId: rule.id,
+          ruleType: rule.type,
+          mode: 'live',
+          status: 'failed',
+          plantIds: plan.plantIds,
+          seedCost: result.quote?.seedCost || '0',
+          txHash: null,
+          message: result.error,
+        });
+      }
+    } catch (error: any) {
+      summary.failed++;
+      console.error('[AUTOPILOT] Rule failed:', { address, ruleId: rule.id, error: error?.message || error });
+      await appendLog(address, {
+        ruleId: rule.id,
+        ruleType: rule.type,
+        mode: dryRun ? 'dry_run' : 'live',
+        status: 'failed',
+        plantIds: [],
+        seedCost: '0',
+        txHash: null,
+        message: error?.message || 'Autopilot rule failed',
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Run autopilot for every opted-in user until `deadline` (epoch ms). Called from the autopilot cron;
+ * users not reached before the deadline are counted in `skipped` and picked up on a later run.
+ */
+export async function runAutopilotForAllUsers(options: { dryRun?: boolean; rpcUrl?: string; deadline?: number } = {}): Promise<{
+  users: number;
+  executed: number;
+  wouldExecute: number;
+  failed: number;
+  skipped: number;
+}> {
+  if (!redis) return { users: 0, executed: 0, wouldExecute: 0, failed: 0, skipped: 0 };
+  const users = ((await redis.smembers(withPrefix(KEYS.users))) || []) as string[];
+  const totals = { users: users.length, executed: 0, wouldExecute: 0, failed: 0, skipped: 0 };
+
+  // Random order so a run that hits the deadline doesn't always leave out the same users
+  for (let i = users.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [users[i], users[j]] = [users[j], users[i]];
+  }
+
+  // Sequential on purpose: each live action waits for user operations and holds the per-user spend lock
+  for (const [index, address] of users.entries()) {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      totals.skipped = users.length - index;
+      break;
+    }
+    try {
+      const result = await runAutopilotForAddress(address, options);
+      totals.executed += result.executed;
+      totals.wouldExecute += result.wouldExecute;
+      totals.failed += result.failed;
+    } catch (error) {
+      totals.failed++;
+      console.error('[AUTOPILOT] User run failed:', { address, error });
+    }
+  }
+
+  return totals;
+}
@@ -0,0 +1,86 @@
+/**
+ * Gas limits for smart-wallet batch transactions, shared by the batch cards and
+ * /api/admin/batch-limits (which measures the per-call numbers below against a real account).
+ */
+
+// Base per-transaction gas limits
+// Pre-Fusaka: 25,000,000 gas per transaction
+// Post-Fusaka (EIP-7825, ~Jan 2026): 16,777,216 gas (2^24)
+// See: https://docs.base.org/chain/gas-limit
+export const PRE_FUSAKA_TX_GAS_LIMIT = BigInt(25_000_000);
+export const POST_FUSAKA_TX_GAS_LIMIT = BigInt(16_777_216); // 2^24
+
+// Use the post-Fusaka limit since it's the current constraint on mainnet
+export const PER_TX_GAS_LIMIT = POST_FUSAKA_TX_GAS_LIMIT;
+
+// Coinbase Smart Wallet bundler adds ~21k base + ~5k per call
+export const SMART_WALLET_OVERHEAD_BASE = BigInt(21_000);
+export const SMART_WALLET_OVERHEAD_PER_CALL = BigInt(5_000);
+
+// Only fill this share of the per-tx limit; simulation and gas price drift eat the rest
+export const BATCH_GAS_HEADROOM_PERCENT = BigInt(80);
+
+// Hard cap on calls per batch regardless of gas (RPC simulation times out first); see batch-claim-card
+export const MAX_BATCH_CALLS = Number(process.env.NEXT_PUBLIC_BATCH_CLAIM_MAX_SIZE || 150);
+
+// Per-call gas used when a batch can't be simulated. villageClaimProduction was measured at ~78.7k;
+// the rest are rounded up from single-call receipts and can be re-measured with
+// /api/admin/batch-limits?action=<upgrade|speedup|quest>
+export const ESTIMATED_GAS_PER_CALL: Record<string, bigint> = {
+  approve: BigInt(50_000),
+  transfer: BigInt(50_000),
+  villageClaimProduction: BigInt(80_000),
+  villageUpgradeWithLeaf: BigInt(120_000),
+  townUpgradeWithLeaf: BigInt(120_000),
+  villageSpeedUpWithSeed: BigInt(110_000),
+  townSpeedUpWithSeed: BigInt(110_000),
+  questStart: BigInt(130_000),
+  questCommit: BigInt(70_000),
+  questFinalize: BigInt(160_000),
+  // Warehouse assigns are not measurable through /api/admin/batch-limits yet; both write the
+  // plant and the land's warehouse balance, so these sit well above a pair of SSTOREs
+  wareHouseAssignPlantPoints: BigInt(90_000),
+  wareHouseAssignLifeTime: BigInt(90_000),
+};
+
+const DEFAULT_GAS_PER_CALL = BigInt(150_000);
+
+export const estimateCallGas = (functionName: string): bigint =>
+  ESTIMATED_GAS_PER_CALL[functionName] ?? DEFAULT_GAS_PER_CALL;
+
+/** Gas a batch may spend on its calls once the bundler overhead for `callCount` calls is taken out */
+export const batchGasBudget = (callCount: number): bigint =>
+  (PER_TX_GAS_LIMIT * BATCH_GAS_HEADROOM_PERCENT) / BigInt(100)
+  - SMART_WALLET_OVERHEAD_BASE
+  - SMART_WALLET_OVERHEAD_PER_CALL * BigInt(callCount);
+
+/**
+ * Split items into consecutive batches that stay under the gas budget and MAX_BATCH_CALLS.
+ * `reserved` is gas and call count already taken in every batch (e.g. an approve prepended to each).
+ * An item too large for an empty batch still gets a batch of its own.
+ */
+export function chunkByGas<T>(
+  items: T[],
+  gasOf: (item: T) => bigint,
+  reserved: { gas?: bigint; calls?: number } = {},
+): T[][] {
+  const reservedGas = reserved.gas ?? BigInt(0);
+  const reservedCalls = reserved.calls ?? 0;
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let gas = reservedGas;
+
+  for (const item of items) {
+    const itemGas = gasOf(item);
+    const calls = reservedCalls + current.length + 1;
+    if (current.length > 0 && (gas + itemGas > batchGasBudget(calls) || calls > MAX_BATCH_CALLS)) {
+      chunks.push(current);
+      current = [];
+      gas = reservedGas;
+    }
+    current.push(item);
+    gas += itemGas;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,209 @@
+import { decodeFunctionData, encodePacked, keccak256, recoverMessageAddress, toFunctionSelector, type Hex } from 'viem';
+import { blackjackGetRandomnessSigner, getReadClient, LAND_CONTRACT_ADDRESS } from './contracts';
+import { blackjackAbi, BlackjackAction, BlackjackResult, calculateHandValue } from '@/public/abi/blackjack-abi';
+import type { BlackjackHandRecord } from './casino-history';
+
+/**
+ * Provable-fairness checks for a finished Blackjack hand.
+ *
+ * Every deal and action carries a seed from /api/blackjack/random, signed (EIP-191) over
+ * `keccak256(landId, nonce, seed, action, handIndex, token)`. The seeds are read back out of the
+ * hand's transaction calldata — matched by selector, so smart-wallet batches decode the same way
+ * as direct calls — and each signature is recovered and compared with the randomness signer the
+ * contract trusted at that transaction's block, so hands from before a key rotation still verify.
+ * Cards are drawn onchain from those seeds, so the outcome check recomputes the totals and the
+ * result from the cards the contract logged.
+ */
+
+/** Action number signed for the initial deal */
+export const BLACKJACK_DEAL_ACTION = 255;
+
+const RANDOM_FUNCTIONS = ['blackjackDealWithRandom', 'blackjackDealWithRandomForToken', 'blackjackActionWithRandom'] as const;
+
+const RANDOM_SELECTORS = RANDOM_FUNCTIONS.map((name) => {
+  const item = blackjackAbi.find((entry: any) => entry.type === 'function' && entry.name === name) as any;
+  return toFunctionSelector(item).slice(2).toLowerCase();
+});
+
+export type BlackjackRandomnessMessage = {
+  landId: bigint;
+  nonce: bigint;
+  randomSeed: Hex;
+  action: number;
+  handIndex: number;
+  token: string;
+};
+
+/** The digest the randomness signer signs; shared with /api/blackjack/random */
+export function blackjackRandomnessDigest({ landId, nonce, randomSeed, action, handIndex, token }: BlackjackRandomnessMessage): Hex {
+  return keccak256(
+    encodePacked(
+      ['uint256', 'uint256', 'bytes32', 'uint8', 'uint8', 'address'],
+      [landId, nonce, randomSeed, action, handIndex, token as `0x${string}`]
+    )
+  );
+}
+
+export type BlackjackSeedCommit = {
+  txHash: string;
+  functionName: (typeof RANDOM_FUNCTIONS)[number];
+  nonce: bigint;
+  randomSeed: Hex;
+  signature: Hex;
+  action: number;
+  handIndex: number;
+  /** Only present on blackjackDealWithRandomForToken; other calls sign the hand's token */
+  token: string | null;
+};
+
+/** Every signed-randomness call for `landId` in a transaction's calldata */
+export function extractSeedCommits(txHash: string, input: Hex, landId: bigint): BlackjackSeedCommit[] {
+  const hex = input.toLowerCase();
+  const commits: BlackjackSeedCommit[] = [];
+  for (const selector of RANDOM_SELECTORS) {
+    for (let at = hex.indexOf(selector, 2); at !== -1; at = hex.indexOf(selector, at + 1)) {
+      // Calls inside a batch are byte aligned; anything else is a coincidental match
+      if ((at - 2) % 2 !== 0) continue;
+      try {
+        const { functionName, args } = decodeFunctionData({ abi: blackjackAbi, data: `0x${hex.slice(at)}` as Hex }) as { functionName: string; args: readonly any[] };
+        if (BigInt(args[0]) !== landId) continue;
+        if (functionName === 'blackjackActionWithRandom') {
+          commits.push({ txHash, functionName, handIndex: Number(args[1]), action: Number(args[2]), randomSeed: args[3], nonce: BigInt(args[4]), signature: args[5], token: null });
+        } else if (functionName === 'blackjackDealWithRandomForToken') {
+          commits.push({ txHash, functionName, handIndex: 0, action: BLACKJACK_DEAL_ACTION, token: String(args[2]), randomSeed: args[3], nonce: BigInt(args[4]), signature: args[5] });
+        } else if (functionName === 'blackjackDealWithRandom') {
+          commits.push({ txHash, functionName, handIndex: 0, action: BLACKJACK_DEAL_ACTION, randomSeed: args[2], nonce: BigInt(args[3]), signature: args[4], token: null });
+        }
+      } catch {
+        // Not a decodable call at this offset
+      }
+    }
+  }
+  return commits;
+}
+
+const isNatural = (cards: number[]) => cards.length === 2 && calculateHandValue(cards) === 21;
+
+/**
+ * The result the contract should report for the logged cards. Split hands settle as two hands
+ * under a single result code, so only their totals are checked (returns null).
+ */
+export function expectedBlackjackResult(hand: Pick<BlackjackHandRecord, 'playerCards' | 'splitCards' | 'dealerCards' | 'actions'>): BlackjackResult | null {
+  if (hand.splitCards.length > 0) return null;
+  if (hand.actions.some((a) => a.action === BlackjackAction.SURRENDER)) return BlackjackResult.SURRENDERED;
+
+  const player = calculateHandValue(hand.playerCards);
+  const dealer = calculateHandValue(hand.dealerCards);
+  if (player > 21) return BlackjackResult.PLAYER_BUST;
+  if (isNatural(hand.playerCards) && isNatural(hand.dealerCards)) return BlackjackResult.PUSH;
+  if (isNatural(hand.playerCards)) return BlackjackResult.PLAYER_BLACKJACK;
+  if (isNatural(hand.dealerCards)) return BlackjackResult.DEALER_BLACKJACK;
+  if (dealer > 21 || player > dealer) return BlackjackResult.PLAYER_WIN;
+  if (player < dealer) return BlackjackResult.DEALER_WIN;
+  return BlackjackResult.PUSH;
+}
+
+export type VerifiedSeed = BlackjackSeedCommit & {
+  /** Contract signer at the transaction's block */
+  expectedSigner: string | null;
+  recoveredSigner: string | null;
+  signatureValid: boolean;
+};
+
+export type BlackjackHandVerification = {
+  /** Contract signer now; seeds are checked against the signer at their own block */
+  signer: string | null;
+  seeds: VerifiedSeed[];
+  /** Transactions of the hand with no signed-randomness call in them (e.g. legacy commit/reveal) */
+  unmatchedTxs: string[];
+  /** Nonces increase by one per seed, so no seed was skipped or replayed */
+  noncesSequential: boolean;
+  totals: {
+    player: { logged: number | null; recomputed: number };
+    split: { logged: number | null; recomputed: number } | null;
+    dealer: { logged: number | null; recomputed: number };
+  };
+  result: { logged: number | null; expected: BlackjackResult | null };
+  verified: boolean;
+};
+
+async function signerAtBlock(blockNumber: bigint | null): Promise<string | null> {
+  if (blockNumber === null) return null;
+  try {
+    return await getReadClient().readContract({
+      address: LAND_CONTRACT_ADDRESS,
+      abi: blackjackAbi,
+      functionName: 'blackjackGetRandomnessSigner',
+      args: [],
+      blockNumber,
+    }) as string;
+  } catch {
+    // RPC without historical state
+    return null;
+  }
+}
+
+/** Re-check a settled hand from its transactions */
+export async function verifyBlackjackHand(landId: bigint, hand: BlackjackHandRecord): Promise<BlackjackHandVerification> {
+  const client = getReadClient();
+  const currentSigner = await blackjackGetRandomnessSigner();
+
+  const seeds: VerifiedSeed[] = [];
+  const unmatchedTxs: string[] = [];
+  for (const txHash of hand.txs) {
+    const tx = await client.getTransaction({ hash: txHash as Hex });
+    const commits = extractSeedCommits(txHash, tx.input, landId);
+    if (commits.length === 0) unmatchedTxs.push(txHash);
+    const expectedSigner = commits.length > 0 ? (await signerAtBlock(tx.blockNumber)) ?? currentSigner : null;
+    for (const commit of commits) {
+      let recoveredSigner: string | null = null;
+      try {
+        recoveredSigner = await recoverMessageAddress({
+          message: {
+            raw: blackjackRandomnessDigest({
+              landId,
+              nonce: commit.nonce,
+              randomSeed: commit.randomSeed,
+              action: commit.action,
+              handIndex: commit.handIndex,
+              token: commit.token ?? hand.token,
+            }),
+          },
+          signature: commit.signature,
+        });
+      } catch {
+        // Malformed signature
+      }
+      seeds.push({
+        ...commit,
+        expectedSigner,
+        recoveredSigner,
+        signatureValid: !!recoveredSigner && !!expectedSigner && recoveredSigner.toLowerCase() === expectedSigner.toLowerCase(),
+      });
+    }
+  }
+
+  const noncesSequential = seeds.every((seed, i) => i === 0 || seed.nonce === seeds[i - 1].nonce + BigInt(1));
+  const totals = {
+    player: { logged: hand.playerValue, recomputed: calculateHandValue(hand.playerCards) },
+    split: hand.splitCards.length > 0 ? { logged: hand.splitValue, recomputed: calculateHandValue(hand.splitCards) } : null,
+    dealer: { logged: hand.dealerValue, recomputed: calculateHandValue(hand.dealerCards) },
+  };
+  const expected = expectedBlackjackResult(hand);
+  const totalsMatch = [totals.player, totals.split, totals.dealer].every((t) => !t || t.logged === null || t.logged === t.recomputed);
+
+  return {
+    signer: currentSigner,
+    seeds,
+    unmatchedTxs,
+    noncesSequential,
+    totals,
+    result: { logged: hand.result, expected },
+    verified:
+      seeds.length > 0 &&
+      seeds.every((seed) => seed.signatureValid) &&
+      noncesSequential &&
+      totalsMatch &&
+      (expected === null || expected === hand.result),
+  };
+}
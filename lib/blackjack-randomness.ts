@@ -0,0 +1,218 @@
+import { keccak256, type Hex, type PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { blackjackAbi } from '@/public/abi/blackjack-abi';
+import { LAND_CONTRACT_ADDRESS } from './contracts';
+import { redis, withPrefix } from './redis';
+
+/**
+ * Signer keys, rate limiting and the issuance log behind /api/blackjack/random.
+ *
+ * Keys come from BLACKJACK_RANDOMNESS_SIGNER_KEY (primary) and BLACKJACK_RANDOMNESS_SIGNER_KEYS
+ * (comma-separated, each optionally `key@<ISO date>` to retire it at that time). The service signs
+ * with whichever configured key the contract currently trusts, so a rotation is: add the new key,
+ * point the contract at it, then retire or remove the old key once the overlap has passed.
+ */
+
+const ONCHAIN_SIGNER_CACHE_MS = 60 * 1000;
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+const RATE_LIMIT_MAX_REQUESTS = 30; // Max 30 requests per minute per subject (player or IP)
+const ISSUANCE_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+const KEYS = {
+  rateLimit: (subject: string, window: number) => `blackjack:ratelimit:${subject.toLowerCase()}:${window}`,
+  issuance: (landId: string) => `blackjack:issuance:${landId}`,
+};
+
+export class BlackjackRandomnessError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 503) {
+    super(message);
+    this.name = 'BlackjackRandomnessError';
+    this.status = status;
+  }
+}
+
+export type RandomnessSignerKey = {
+  address: `0x${string}`;
+  privateKey: Hex;
+  /** Unix ms after which the key is never used; null for no end */
+  retireAt: number | null;
+  primary: boolean;
+};
+
+export type RandomnessSignerStatus = {
+  address: string;
+  primary: boolean;
+  retireAt: number | null;
+  retired: boolean;
+  trustedOnchain: boolean;
+};
+
+function parseSignerKey(entry: string, primary: boolean): RandomnessSignerKey | null {
+  const [rawKey, rawRetireAt] = entry.trim().split('@');
+  if (!rawKey) return null;
+  try {
+    const privateKey = (rawKey.startsWith('0x') ? rawKey : `0x${rawKey}`) as Hex;
+    const retireAt = rawRetireAt ? Date.parse(rawRetireAt) : null;
+    if (retireAt !== null && Number.isNaN(retireAt)) {
+      console.error(`[Blackjack Random] Ignoring signer key with invalid retire date "${rawRetireAt}"`);
+      return null;
+    }
+    return { address: privateKeyToAccount(privateKey).address, privateKey, retireAt, primary };
+  } catch {
+    console.error('[Blackjack Random] Ignoring invalid signer key in configuration');
+    return null;
+  }
+}
+
+const signerKeys: RandomnessSignerKey[] = (() => {
+  const keys = [
+    ...(process.env.BLACKJACK_RANDOMNESS_SIGNER_KEY ? [parseSignerKey(process.env.BLACKJACK_RANDOMNESS_SIGNER_KEY, true)] : []),
+    ...(process.env.BLACKJACK_RANDOMNESS_SIGNER_KEYS || '').split(',').filter((s) => s.trim()).map((s) => parseSignerKey(s, false)),
+  ].filter((key): key is RandomnessSignerKey => key !== null);
+  const seen = new Set<string>();
+  return keys.filter((key) => {
+    const address = key.address.toLowerCase();
+    if (seen.has(address)) return false;
+    seen.add(address);
+    return true;
+  });
+})();
+
+export const hasRandomnessSigners = () => signerKeys.length > 0;
+
+const isRetired = (key: RandomnessSignerKey, now: number) => key.retireAt !== null && now >= key.retireAt;
+
+// Only contract reads are needed, which keeps callers free to pass a client for any Base chain config
+type SignerReadClient = Pick<PublicClient, 'readContract'>;
+
+let onchainSignerCache: { address: string; fetchedAt: number } | null = null;
+
+async function readOnchainSigner(publicClient: SignerReadClient): Promise<string | null> {
+  if (onchainSignerCache && Date.now() - onchainSignerCache.fetchedAt < ONCHAIN_SIGNER_CACHE_MS) {
+    return onchainSignerCache.address;
+  }
+  try {
+    const address = await publicClient.readContract({
+      address: LAND_CONTRACT_ADDRESS as `0x${string}`,
+      abi: blackjackAbi,
+      functionName: 'blackjackGetRandomnessSigner',
+      args: [],
+    }) as string;
+    onchainSignerCache = { address, fetchedAt: Date.now() };
+    return address;
+  } catch (error) {
+    console.warn('[Blackjack Random] Failed to read onchain randomness signer:', error);
+    return null;
+  }
+}
+
+/**
+ * The key to sign with: the unretired key matching the contract's signer. When the contract can't
+ * be read, the primary key (or the first unretired one) is used rather than failing every deal.
+ */
+export async function resolveRandomnessSigner(publicClient: SignerReadClient): Promise<{ key: RandomnessSignerKey; onchainSigner: string | null }> {
+  const now = Date.now();
+  const usable = signerKeys.filter((key) => !isRetired(key, now));
+  if (usable.length === 0) {
+    throw new BlackjackRandomnessError('Randomness service not configured');
+  }
+
+  const onchainSigner = await readOnchainSigner(publicClient);
+  if (!onchainSigner) {
+    return { key: usable.find((key) => key.primary) ?? usable[0], onchainSigner };
+  }
+
+  const key = usable.find((k) => k.address.toLowerCase() === onchainSigner.toLowerCase());
+  if (!key) {
+    console.error(`[Blackjack Random] No configured signer key matches onchain signer ${onchainSigner}`);
+    throw new BlackjackRandomnessError('Randomness signer mismatch');
+  }
+  return { key, onchainSigner };
+}
+
+export async function getRandomnessSignerStatus(publicClient: SignerReadClient): Promise<{ onchainSigner: string | null; keys: RandomnessSignerStatus[] }> {
+  const now = Date.now();
+  const onchainSigner = await readOnchainSigner(publicClient);
+  return {
+    onchainSigner,
+    keys: signerKeys.map((key) => ({
+      address: key.address,
+      primary: key.primary,
+      retireAt: key.retireAt,
+      retired: isRetired(key, now),
+      trustedOnchain: !!onchainSigner && key.address.toLowerCase() === onchainSigner.toLowerCase(),
+    })),
+  };
+}
+
+// Fallback when Redis isn't configured (local dev); resets on every cold start
+const memoryRateLimits = new Map<string, { count: number; timestamp: number }>();
+
+/**
+ * Fixed one-minute window per subject (a player address or `ip:<addr>`), shared
+ * across instances through Redis
+ */
+export async function checkRandomnessRateLimit(subject: string): Promise<boolean> {
+  if (redis) {
+    const window = Math.floor(Date.now() / 1000 / RATE_LIMIT_WINDOW_SECONDS);
+    const key = withPrefix(KEYS.rateLimit(subject, window));
+    try {
+      const count = await redis.incr(key);
+      if (count === 1) await redis.expire(key, RATE_LIMIT_WINDOW_SECONDS * 2);
+      return count <= RATE_LIMIT_MAX_REQUESTS;
+    } catch (error) {
+      console.error('[Blackjack Random] Rate limit check failed:', error);
+      return true; // Allow on error; the action lock still prevents seed shopping
+    }
+  }
+
+  const now = Date.now();
+  for (const [addr, data] of memoryRateLimits.entries()) {
+    if (now - data.timestamp > RATE_LIMIT_WINDOW_SECONDS * 2000) memoryRateLimits.delete(addr);
+  }
+  const recent = memoryRateLimits.get(subject.toLowerCase());
+  if (!recent || now - recent.timestamp > RATE_LIMIT_WINDOW_SECONDS * 1000) {
+    memoryRateLimits.set(subject.toLowerCase(), { count: 1, timestamp: now });
+    return true;
+  }
+  recent.count++;
+  return recent.count <= RATE_LIMIT_MAX_REQUESTS;
+}
+
+export type RandomnessIssuance = {
+  landId: string;
+  nonce: string;
+  action: number;
+  handIndex: number;
+  token: string;
+  /** keccak256 of the seed; the seed itself only becomes public once it is used onchain */
+  seedHash: Hex;
+  signer: string;
+  player: string | null;
+  issuedAt: number;
+};
+
+/**
+ * Append one seed to the land's log before it is locked and served; only new randomness is logged,
+ * not cache hits. Throws when the write fails so the seed is never served unlogged.
+ */
+export async function recordRandomnessIssuance(entry: Omit<RandomnessIssuance, 'seedHash' | 'issuedAt'> & { randomSeed: Hex }): Promise<void> {
+  if (!redis) return;
+  const { randomSeed, ...rest } = entry;
+  const record: RandomnessIssuance = { ...rest, seedHash: keccak256(randomSeed), issuedAt: Date.now() };
+  const key = withPrefix(KEYS.issuance(entry.landId));
+  await redis.rpush(key, JSON.stringify(record));
+  await redis.expire(key, ISSUANCE_TTL_SECONDS);
+}
+
+/** Most recent issuances for a land, newest first */
+export async function getRandomnessIssuance(landId: string, limit: number = 100): Promise<{ total: number; entries: RandomnessIssuance[] }> {
+  if (!redis) return { total: 0, entries: [] };
+  const key = withPrefix(KEYS.issuance(landId));
+  const total = await redis.llen(key);
+  const raw = (await redis.lrange(key, -Math.max(1, limit), -1)) as unknown[];
+  const entries = raw.map((entry) => (typeof entry === 'string' ? JSON.parse(entry) : entry) as RandomnessIssuance);
+  return { total, entries: entries.reverse() };
+}
@@ -0,0 +1,422 @@
+import { pad, parseEventLogs, toEventSelector, toHex, type Log } from 'viem';
+import {
+  blackjackGetStatsByToken,
+  casinoGetBetDetails,
+  casinoGetStatsByToken,
+  casinoGetSupportedTokens,
+  getReadClient,
+  LAND_CONTRACT_ADDRESS,
+  retryWithBackoff,
+} from './contracts';
+import { casinoAbi } from '@/public/abi/casino-abi';
+import { blackjackAbi } from '@/public/abi/blackjack-abi';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+
+/**
+ * Per-land Roulette and Blackjack history rebuilt from the land contract's game events.
+ *
+ * The contract only keeps the active game (and lifetime totals per token), so finished games are
+ * indexed here on demand: the first read of a land scans back CASINO_HISTORY_BLOCK_WINDOW blocks,
+ * later reads only scan from the land's cursor. Both games allow one open round per land, so
+ * events are folded into the latest pending round in log order. A first sync costs up to
+ * BLOCK_WINDOW / CHUNK_SIZE getLogs calls, so each client IP only gets SYNC_BUDGET_PER_WINDOW syncs
+ * per window; past that, reads are served from the stored index.
+ */
+
+const BLOCK_WINDOW = BigInt(process.env.CASINO_HISTORY_BLOCK_WINDOW || 302_400); // ~7 days of Base blocks
+const CHUNK_SIZE = BigInt(process.env.CASINO_HISTORY_CHUNK_SIZE || 10_000);
+// Base produces a block every 2s, so timestamps can be derived from the head block
+const BASE_BLOCK_TIME_SECONDS = BigInt(2);
+const ONE = BigInt(1);
+
+const SYNC_STALE_MS = 30 * 1000;
+const SYNC_LOCK_TTL_SECONDS = 120;
+const MAX_ROUNDS_PER_GAME = 100;
+const HISTORY_TTL_SECONDS = 90 * 24 * 60 * 60;
+const SYNC_BUDGET_PER_WINDOW = Number(process.env.CASINO_HISTORY_SYNCS_PER_MINUTE || 10);
+const SYNC_BUDGET_WINDOW_SECONDS = 60;
+
+const KEYS = {
+  history: (landId: string) => `casino:history:${landId}`,
+  lock: (landId: string) => `casino:history:lock:${landId}`,
+  syncBudget: (ip: string, window: number) => `casino:history:syncs:${ip}:${window}`,
+};
+
+const ROULETTE_EVENT_NAMES = ['RouletteBetPlaced', 'RouletteSpinResult', 'RouletteBetExpired'];
+const BLACKJACK_EVENT_NAMES = [
+  'BlackjackBetPlaced',
+  'BlackjackDealt',
+  'BlackjackHit',
+  'BlackjackSplit',
+  'BlackjackInsurance',
+  'BlackjackActionRequested',
+  'BlackjackDealerHit',
+  'BlackjackResult',
+  'BlackjackGameComplete',
+  'BlackjackExpired',
+];
+
+const GAME_EVENTS = [
+  ...casinoAbi.filter((item: any) => item.type === 'event' && ROULETTE_EVENT_NAMES.includes(item.name)),
+  ...blackjackAbi.filter((item: any) => item.type === 'event' && BLACKJACK_EVENT_NAMES.includes(item.name)),
+] as any[];
+const GAME_EVENT_TOPICS = GAME_EVENTS.map((event) => toEventSelector(event));
+
+type GameEventLog = { eventName: string; args: Record<string, any>; blockNumber: bigint; transactionHash: `0x${string}` };
+
+export type CasinoRoundStatus = 'pending' | 'settled' | 'expired';
+
+export type RouletteBetRecord = {
+  betIndex: number;
+  betType: number;
+  amount: string;
+  /** Only known while the round is still open (casinoGetBetDetails) */
+  betNumbers?: number[];
+};
+
+export type RouletteRound = {
+  id: string;
+  player: string;
+  token: string;
+  bets: RouletteBetRecord[];
+  wagered: string;
+  payout: string;
+  winningNumber: number | null;
+  won: boolean | null;
+  status: CasinoRoundStatus;
+  revealBlock: number;
+  placedAt: number;
+  settledAt: number | null;
+  placeTx: string;
+  settleTx: string | null;
+};
+
+export type BlackjackHandRecord = {
+  id: string;
+  player: string;
+  token: string;
+  bet: string;
+  payout: string;
+  /** BlackjackResult enum value once settled */
+  result: number | null;
+  status: CasinoRoundStatus;
+  playerCards: number[];
+  splitCards: number[];
+  dealerCards: number[];
+  playerValue: number | null;
+  splitValue: number | null;
+  dealerValue: number | null;
+  insurance: { amount: string; won: boolean } | null;
+  actions: { action: number; handIndex: number }[];
+  /** Every transaction that touched the hand, oldest first; each carries one signed seed */
+  txs: string[];
+  startedAt: number;
+  settledAt: number | null;
+};
+
+type LandCasinoHistory = {
+  block: string;
+  syncedAt: number;
+  roulette: RouletteRound[];
+  blackjack: BlackjackHandRecord[];
+};
+
+export type CasinoTokenResult = { wagered: string; won: string; games: string; net: string };
+
+export type CasinoTokenStats = {
+  token: string;
+  roulette: CasinoTokenResult | null;
+  blackjack: (CasinoTokenResult & { blackjacks: string }) | null;
+};
+
+export type CasinoHistory = {
+  roulette: RouletteRound[];
+  blackjack: BlackjackHandRecord[];
+  syncedAt: number | null;
+};
+
+async function fetchLandLogs(landId: bigint, fromBlock: bigint, toBlock: bigint): Promise<GameEventLog[]> {
+  const client = getReadClient();
+  const landTopic = pad(toHex(landId));
+  const logs: GameEventLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
+    const end = start + CHUNK_SIZE - ONE > toBlock ? toBlock : start + CHUNK_SIZE - ONE;
+    // Raw getLogs so every game event can be matched on the indexed landId in one request
+    const raw = await retryWithBackoff(() => client.request({
+      method: 'eth_getLogs',
+      params: [{
+        address: LAND_CONTRACT_ADDRESS,
+        fromBlock: toHex(start),
+        toBlock: toHex(end),
+        topics: [GAME_EVENT_TOPICS, landTopic],
+      }],
+    }));
+    const parsed = parseEventLogs({
+      abi: GAME_EVENTS,
+      logs: (raw as any[]).map((log) => ({ ...log, blockNumber: BigInt(log.blockNumber), logIndex: Number(log.logIndex) })) as Log[],
+      strict: true,
+    }) as unknown as GameEventLog[];
+    logs.push(...parsed);
+  }
+  return logs;
+}
+
+const addTx = (hand: BlackjackHandRecord, txHash: string) => {
+  if (!hand.txs.includes(txHash)) hand.txs.push(txHash);
+};
+
+const openRound = <T extends { status: CasinoRoundStatus }>(rounds: T[]): T | undefined =>
+  rounds[0]?.status === 'pending' ? rounds[0] : undefined;
+
+function applyLog(history: LandCasinoHistory, log: GameEventLog, timestamp: number): void {
+  const { args } = log;
+  const tx = log.transactionHash;
+
+  if (log.eventName === 'RouletteBetPlaced') {
+    let round = openRound(history.roulette);
+    // A new placement transaction always starts a new round; an older pending one was never revealed
+    if (round && round.placeTx !== tx) {
+      round.status = 'expired';
+      round = undefined;
+    }
+    if (!round) {
+      round = {
+        id: tx,
+        player: String(args.player).toLowerCase(),
+        token: String(args.bettingToken),
+        bets: [],
+        wagered: '0',
+        payout: '0',
+        winningNumber: null,
+        won: null,
+        status: 'pending',
+        revealBlock: Number(args.revealBlock),
+        placedAt: timestamp,
+        settledAt: null,
+        placeTx: tx,
+        settleTx: null,
+      };
+      history.roulette.unshift(round);
+    }
+    if (round.bets.some((bet) => bet.betIndex === Number(args.betIndex))) return;
+    round.bets.push({ betIndex: Number(args.betIndex), betType: Number(args.betType), amount: BigInt(args.amount).toString() });
+    round.wagered = (BigInt(round.wagered) + BigInt(args.amount)).toString();
+    return;
+  }
+
+  if (log.eventName === 'RouletteSpinResult' || log.eventName === 'RouletteBetExpired') {
+    const round = openRound(history.roulette);
+    if (!round) return;
+    round.settledAt = timestamp;
+    round.settleTx = tx;
+    if (log.eventName === 'RouletteBetExpired') {
+      round.status = 'expired';
+      return;
+    }
+    round.status = 'settled';
+    round.winningNumber = Number(args.winningNumber);
+    round.won = Boolean(args.won);
+    round.payout = BigInt(args.payout).toString();
+    return;
+  }
+
+  let hand = openRound(history.blackjack);
+  if (log.eventName === 'BlackjackBetPlaced' || (log.eventName === 'BlackjackDealt' && !hand)) {
+    // A bet in a new transaction means the previous hand was never played out
+    if (hand && !hand.txs.includes(tx)) {
+      hand.status = 'expired';
+      hand = undefined;
+    }
+    if (!hand) {
+      hand = {
+        id: tx,
+        player: String(args.player).toLowerCase(),
+        token: args.bettingToken ? String(args.bettingToken) : '',
+        bet: args.amount !== undefined ? BigInt(args.amount).toString() : '0',
+        payout: '0',
+        result: null,
+        status: 'pending',
+        playerCards: [],
+        splitCards: [],
+        dealerCards: [],
+        playerValue: null,
+        splitValue: null,
+        dealerValue: null,
+        insurance: null,
+        actions: [],
+        txs: [],
+        startedAt: timestamp,
+        settledAt: null,
+      };
+      history.blackjack.unshift(hand);
+    }
+  }
+  // Hands that started before the indexed window are left out
+  if (!hand) return;
+  addTx(hand, tx);
+
+  switch (log.eventName) {
+    case 'BlackjackDealt':
+      hand.playerCards = [Number(args.playerCard1), Number(args.playerCard2)];
+      hand.dealerCards = [Number(args.dealerUpCard)];
+      hand.playerValue = Number(args.playerHandValue);
+      break;
+    case 'BlackjackHit':
+      if (Number(args.handIndex) === 1) hand.splitCards.push(Number(args.newCard));
+      else hand.playerCards.push(Number(args.newCard));
+      break;
+    case 'BlackjackSplit':
+      hand.splitCards = [hand.playerCards[1], Number(args.hand2Card)].filter((c) => c !== undefined);
+      hand.playerCards = [hand.playerCards[0], Number(args.hand1Card)].filter((c) => c !== undefined);
+      break;
+    case 'BlackjackInsurance':
+      hand.insurance = { amount: BigInt(args.insuranceAmount).toString(), won: Boolean(args.won) };
+      break;
+    case 'BlackjackActionRequested':
+      hand.actions.push({ action: Number(args.action), handIndex: Number(args.handIndex) });
+      break;
+    case 'BlackjackDealerHit':
+      hand.dealerCards.push(Number(args.newCard));
+      break;
+    case 'BlackjackResult':
+      // Superseded by BlackjackGameComplete when both are emitted
+      if (hand.result === null) {
+        hand.result = Number(args.result);
+        hand.playerValue = Number(args.playerFinalValue);
+        hand.dealerValue = Number(args.dealerFinalValue);
+        hand.payout = BigInt(args.payout).toString();
+        hand.token ||= String(args.bettingToken);
+      }
+      hand.status = 'settled';
+      hand.settledAt = timestamp;
+      break;
+    case 'BlackjackGameComplete':
+      hand.result = Number(args.result);
+      hand.playerCards = (args.playerCards as number[]).map(Number);
+      hand.splitCards = (args.splitCards as number[]).map(Number);
+      hand.dealerCards = (args.dealerCards as number[]).map(Number);
+      hand.playerValue = Number(args.playerFinalValue);
+      hand.splitValue = hand.splitCards.length > 0 ? Number(args.splitFinalValue) : null;
+      hand.dealerValue = Number(args.dealerFinalValue);
+      hand.payout = BigInt(args.payout).toString();
+      hand.token ||= String(args.bettingToken);
+      hand.status = 'settled';
+      hand.settledAt = timestamp;
+      break;
+    case 'BlackjackExpired':
+      hand.token ||= String(args.bettingToken);
+      hand.status = 'expired';
+      hand.settledAt = timestamp;
+      break;
+  }
+}
+
+// Bet numbers aren't in the events and the contract forgets them after the reveal, so read them while the round is open
+async function fillOpenRouletteNumbers(landId: bigint, history: LandCasinoHistory): Promise<void> {
+  const round = openRound(history.roulette);
+  if (!round) return;
+  await Promise.all(round.bets.filter((bet) => !bet.betNumbers).map(async (bet) => {
+    const details = await casinoGetBetDetails(landId, bet.betIndex);
+    if (details) bet.betNumbers = details.betNumbers.map(Number);
+  }));
+}
+
+/**
+ * Index the land's game events from its cursor up to the head. Returns the stored history, or
+ * null when another request holds the land's sync lock.
+ */
+export async function syncCasinoHistory(landId: bigint): Promise<LandCasinoHistory | null> {
+  if (!redis) return null;
+  const id = landId.toString();
+  const acquired = await redis.set(withPrefix(KEYS.lock(id)), '1', { nx: true, ex: SYNC_LOCK_TTL_SECONDS });
+  if (!acquired) return null;
+
+  try {
+    const head = await getReadClient().getBlock();
+    const windowStart = head.number > BLOCK_WINDOW ? head.number - BLOCK_WINDOW : BigInt(0);
+    const history = (await redisGetJSON<LandCasinoHistory>(KEYS.history(id))) ?? { block: '', syncedAt: 0, roulette: [], blackjack: [] };
+    // Lands that went quiet for longer than the window skip the gap rather than scanning it
+    const fromBlock = history.block && BigInt(history.block) + ONE > windowStart ? BigInt(history.block) + ONE : windowStart;
+
+    if (fromBlock <= head.number) {
+      const logs = await fetchLandLogs(landId, fromBlock, head.number);
+      for (const log of logs) {
+        const timestamp = Number(head.timestamp - (head.number - log.blockNumber) * BASE_BLOCK_TIME_SECONDS);
+        applyLog(history, log, timestamp);
+      }
+      await fillOpenRouletteNumbers(landId, history);
+    }
+
+    history.roulette = history.roulette.slice(0, MAX_ROUNDS_PER_GAME);
+    history.blackjack = history.blackjack.slice(0, MAX_ROUNDS_PER_GAME);
+    history.block = head.number.toString();
+    history.syncedAt = Date.now();
+    await redisSetJSON(KEYS.history(id), history, HISTORY_TTL_SECONDS);
+    return history;
+  } finally {
+    await redis.del(withPrefix(KEYS.lock(id)));
+  }
+}
+
+/** Takes one sync from the client's per-minute budget; fails open when Redis errors */
+async function takeSyncBudget(clientIp: string): Promise<boolean> {
+  if (!redis) return true;
+  const window = Math.floor(Date.now() / 1000 / SYNC_BUDGET_WINDOW_SECONDS);
+  const key = withPrefix(KEYS.syncBudget(clientIp, window));
+  try {
+    const count = await redis.incr(key);
+    if (count === 1) await redis.expire(key, SYNC_BUDGET_WINDOW_SECONDS * 2);
+    return count <= SYNC_BUDGET_PER_WINDOW;
+  } catch (error) {
+    console.warn('[casino history] sync budget check failed', error);
+    return true;
+  }
+}
+
+/**
+ * Most recent rounds first; syncs first when the land's index is more than a few seconds old and
+ * `clientIp` still has sync budget, otherwise returns what is stored (check `syncedAt`).
+ */
+export async function getCasinoHistory(landId: bigint, clientIp: string): Promise<CasinoHistory> {
+  let history = await redisGetJSON<LandCasinoHistory>(KEYS.history(landId.toString()));
+  if ((!history || Date.now() - history.syncedAt > SYNC_STALE_MS) && (await takeSyncBudget(clientIp))) {
+    try {
+      history = (await syncCasinoHistory(landId)) ?? history;
+    } catch (error) {
+      console.warn('[casino history] sync failed', error);
+    }
+  }
+  return {
+    roulette: history?.roulette ?? [],
+    blackjack: history?.blackjack ?? [],
+    syncedAt: history?.syncedAt ?? null,
+  };
+}
+
+const toResult = (wagered: bigint, won: bigint, games: bigint): CasinoTokenResult => ({
+  wagered: wagered.toString(),
+  won: won.toString(),
+  games: games.toString(),
+  net: (won - wagered).toString(),
+});
+
+/** Lifetime profit/loss per betting token from the contract's own counters, tokens never played omitted */
+export async function getCasinoTokenStats(landId: bigint): Promise<CasinoTokenStats[]> {
+  const tokens = await casinoGetSupportedTokens();
+  const rows = await Promise.all(tokens.map(async (token): Promise<CasinoTokenStats> => {
+    const [roulette, blackjack] = await Promise.all([
+      casinoGetStatsByToken(landId, token),
+      blackjackGetStatsByToken(landId, token),
+    ]);
+    return {
+      token,
+      roulette: roulette && roulette.gamesPlayed > BigInt(0)
+        ? toResult(roulette.totalWagered, roulette.totalWon, roulette.gamesPlayed)
+        : null,
+      blackjack: blackjack && blackjack.gamesPlayed > BigInt(0)
+        ? { ...toResult(blackjack.totalWagered, blackjack.totalWon, blackjack.gamesPlayed), blackjacks: blackjack.blackjacksHit.toString() }
+        : null,
+    };
+  }));
+  return rows.filter((row) => row.roulette || row.blackjack);
+}
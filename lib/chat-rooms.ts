@@ -0,0 +1,69 @@
+import { PLANT_STRAINS_BY_ID } from './constants';
+import { getCoordinateFromTokenId } from './land-utils';
+
+/**
+ * Public chat room ids, shared by the chat API and the room switcher.
+ *
+ * - `global`                 everyone
+ * - `strain:<id>`            holders of a live plant of that strain
+ * - `hood:<x>_<y>`           land owners in a NEIGHBORHOOD_SIZE x NEIGHBORHOOD_SIZE block of the land map
+ * - `guild:<slug>`           open rooms joined by name (there is no onchain guild membership yet)
+ */
+
+export const GLOBAL_ROOM = 'global';
+export const NEIGHBORHOOD_SIZE = 16;
+
+export type ChatRoomKind = 'global' | 'strain' | 'hood' | 'guild';
+
+export type ChatRoom = {
+  id: string;
+  kind: ChatRoomKind;
+  label: string;
+};
+
+const GUILD_SLUG = /^[a-z0-9][a-z0-9-]{1,23}$/;
+const HOOD_ID = /^hood:(-?\d+)_(-?\d+)$/;
+const STRAIN_ID = /^strain:(\d+)$/;
+
+export const strainRoomId = (strain: number) => `strain:${strain}`;
+
+export const hoodRoomId = (hood: { x: number; y: number }) => `hood:${hood.x}_${hood.y}`;
+
+export const guildRoomId = (slug: string) => `guild:${slug}`;
+
+export function neighborhoodOfLand(tokenId: number): { x: number; y: number } {
+  const coord = getCoordinateFromTokenId(tokenId);
+  return { x: Math.floor(coord.x / NEIGHBORHOOD_SIZE), y: Math.floor(coord.y / NEIGHBORHOOD_SIZE) };
+}
+
+/** Lowercase, dash-separated guild slug, or null if the name can't make a valid one. */
+export function normalizeGuildSlug(name: string): string | null {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return GUILD_SLUG.test(slug) ? slug : null;
+}
+
+export function parseRoomId(id: string): ChatRoom | null {
+  if (id === GLOBAL_ROOM) return { id, kind: 'global', label: 'Global' };
+
+  const strain = STRAIN_ID.exec(id);
+  if (strain) {
+    const info = PLANT_STRAINS_BY_ID[Number(strain[1])];
+    return info ? { id, kind: 'strain', label: `${info.name} growers` } : null;
+  }
+
+  const hood = HOOD_ID.exec(id);
+  if (hood) {
+    return { id, kind: 'hood', label: `Neighborhood ${hood[1]},${hood[2]}` };
+  }
+
+  if (id.startsWith('guild:')) {
+    const slug = id.slice('guild:'.length);
+    return GUILD_SLUG.test(slug) ? { id, kind: 'guild', label: `Guild ${slug}` } : null;
+  }
+
+  return null;
+}
@@ -1,18 +1,70 @@
-import { redis } from './redis';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
 import { nanoid } from 'nanoid';
-import { ChatMessage, ChatRateLimit, ChatStats, AdminChatMessage } from './types';
+import { ChatMessage, ChatRateLimit, ChatStats, AdminChatMessage, ChatReplyPreview } from './types';
 import { resolvePrimaryName } from './ens-resolver';
 import { ADDRESS_TRUNCATION } from './constants';
-
-const CHAT_MESSAGE_TTL = 24 * 60 * 60; // 24 hours in seconds
+import { getLandsByOwner, getPlantsByOwner } from './contracts';
+import {
+  ChatRoom,
+  GLOBAL_ROOM,
+  hoodRoomId,
+  neighborhoodOfLand,
+  parseRoomId,
+  strainRoomId,
+} from './chat-rooms';
+
+/**
+ * Public chat storage. Each message is a JSON key; rooms and reply threads are sorted sets
+ * of message ids scored by timestamp, so history reads are range queries rather than key scans.
+ * Messages are kept for CHAT_RETENTION_DAYS and the cleanup cron prunes the indexes.
+ */
+
+const parsePositive = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export const CHAT_RETENTION_DAYS = parsePositive(process.env.CHAT_RETENTION_DAYS, 30);
+const CHAT_RETENTION_MS = CHAT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
 const RATE_LIMIT_TTL = 60 * 60; // 1 hour in seconds
 const SPAM_DETECTION_TTL = 30; // 30 seconds for duplicate message detection
+const MEMBERSHIP_CACHE_TTL = 5 * 60;
+
+export const CHAT_PAGE_DEFAULT = 50;
+export const CHAT_PAGE_MAX = 100;
+const ADMIN_MESSAGE_LIMIT = 200;
+const REPLY_EXCERPT_LENGTH = 80;
+const DELETE_BATCH = 500;
 
 // Rate limiting configuration
 const RATE_LIMIT_WINDOW = 3; // seconds between messages
 const MAX_MESSAGE_LENGTH = 200;
 const MIN_MESSAGE_LENGTH = 1;
 
+const KEYS = {
+  message: (id: string) => `chat:message:${id}`,
+  room: (room: string) => `chat:room:${room}`,
+  thread: (rootId: string) => `chat:thread:${rootId}`,
+  // room id -> timestamp of its latest message
+  rooms: 'chat:rooms',
+  membership: (address: string) => `chat:membership:${address.toLowerCase()}`,
+};
+
+export class ChatServiceError extends Error {
+  status: number;
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ChatServiceError';
+    this.status = status;
+  }
+}
+
+export type ChatPage = {
+  messages: ChatMessage[];
+  /** Pass as `before` to load older messages; null when the retention window is exhausted */
+  nextCursor: number | null;
+};
+
 // Helper function to create message hash for spam detection
 function createMessageHash(message: string): string {
   // Simple hash function for message content
@@ -24,14 +76,96 @@ export function formatDisplayName(address: string): string {
   return `${address.slice(0, ADDRESS_TRUNCATION.prefix)}...${address.slice(-ADDRESS_TRUNCATION.suffix)}`;
 }
 
-// Store a new chat message
-export async function storeMessage(address: string, message: string): Promise<ChatMessage> {
+// Remaining retention for a message, used as the TTL of its key so Redis expires it on its own
+const remainingTtlSeconds = (message: ChatMessage, now: number = Date.now()) =>
+  Math.max(60, Math.ceil((message.timestamp + CHAT_RETENTION_MS - now) / 1000));
+
+const excerptOf = (text: string) =>
+  text.length > REPLY_EXCERPT_LENGTH ? `${text.slice(0, REPLY_EXCERPT_LENGTH - 1)}…` : text;
+
+async function getMessage(id: string): Promise<ChatMessage | null> {
+  return redisGetJSON<ChatMessage>(KEYS.message(id));
+}
+
+async function saveMessage(message: ChatMessage): Promise<void> {
+  const ok = await redisSetJSON(KEYS.message(message.id), message, remainingTtlSeconds(message));
+  if (!ok) throw new ChatServiceError('Failed to store message', 500);
+}
+
+// Rooms an address may post in beyond global and guilds: strains of its live plants and its lands' neighborhoods
+async function getMemberRoomIds(address: string): Promise<string[]> {
+  const cached = await redisGetJSON<string[]>(KEYS.membership(address));
+  if (cached) return cached;
+
+  const [plants, lands] = await Promise.all([
+    getPlantsByOwner(address).catch(() => []),
+    getLandsByOwner(address).catch(() => []),
+  ]);
+  const ids = new Set<string>();
+  plants.filter((p) => p.status !== 4).forEach((p) => ids.add(strainRoomId(p.strain)));
+  lands.forEach((l) => ids.add(hoodRoomId(neighborhoodOfLand(Number(l.tokenId)))));
+
+  const rooms = Array.from(ids).filter((id) => parseRoomId(id));
+  // Empty results are not cached so a failed RPC read doesn't lock the wallet out for minutes
+  if (rooms.length > 0) await redisSetJSON(KEYS.membership(address), rooms, MEMBERSHIP_CACHE_TTL);
+  return rooms;
+}
+
+/** Global plus the strain and neighborhood rooms the wallet qualifies for. */
+export async function getAvailableRooms(address?: string | null): Promise<ChatRoom[]> {
+  const ids = address ? await getMemberRoomIds(address) : [];
+  return [GLOBAL_ROOM, ...ids.sort()]
+    .map((id) => parseRoomId(id))
+    .filter((room): room is ChatRoom => Boolean(room));
+}
+
+async function assertCanPost(address: string, room: ChatRoom): Promise<void> {
+  if (room.kind === 'global' || room.kind === 'guild') return;
+  const memberRooms = await getMemberRoomIds(address);
+  if (!memberRooms.includes(room.id)) {
+    throw new ChatServiceError(
+      room.kind === 'strain'
+        ? 'Only holders of a live plant of this strain can post here'
+        : 'Only land owners in this neighborhood can post here',
+      403,
+    );
+  }
+}
+
+export function resolveRoom(roomId: string | null | undefined): ChatRoom {
+  const room = parseRoomId(roomId || GLOBAL_ROOM);
+  if (!room) throw new ChatServiceError('Unknown chat room', 400);
+  return room;
+}
+
+// Store a new chat message, optionally as a reply to another message in the same room
+export async function storeMessage(
+  address: string,
+  message: string,
+  options: { room?: string; replyToId?: string | null } = {},
+): Promise<ChatMessage> {
   if (!redis) {
     throw new Error('Redis client not available');
   }
 
-  const messageId = nanoid();
-  const timestamp = Date.now();
+  const room = resolveRoom(options.room);
+  await assertCanPost(address, room);
+
+  let replyTo: ChatReplyPreview | null = null;
+  let threadId: string | null = null;
+  if (options.replyToId) {
+    const parent = await getMessage(options.replyToId);
+    if (!parent || parent.deletedAt || parent.room !== room.id) {
+      throw new ChatServiceError('The message you replied to is no longer available', 404);
+    }
+    threadId = parent.threadId || parent.id;
+    replyTo = {
+      id: parent.id,
+      address: parent.address,
+      displayName: parent.displayName,
+      excerpt: excerptOf(parent.message),
+    };
+  }
 
   let displayName = formatDisplayName(address);
   try {
@@ -44,74 +178,135 @@ export async function storeMessage(address: string, message: string): Promise<Ch
   }
 
   const chatMessage: ChatMessage = {
-    id: messageId,
+    id: nanoid(),
     address: address.toLowerCase(),
     message: message.trim(),
-    timestamp,
+    timestamp: Date.now(),
     displayName,
+    room: room.id,
+    threadId,
+    replyTo,
   };
 
-  // Store message with TTL
-  const messageKey = `chat:messages:${timestamp}:${messageId}`;
-  await redis.set(messageKey, JSON.stringify(chatMessage), { ex: CHAT_MESSAGE_TTL });
-
-  // Skip stats update to avoid potential hanging
-  console.log('📊 Skipping stats update to avoid hanging');
+  await saveMessage(chatMessage);
+  await Promise.all([
+    redis.zadd(withPrefix(KEYS.room(room.id)), { score: chatMessage.timestamp, member: chatMessage.id }),
+    redis.zadd(withPrefix(KEYS.rooms), { score: chatMessage.timestamp, member: room.id }),
+    threadId
+      ? redis.zadd(withPrefix(KEYS.thread(threadId)), { score: chatMessage.timestamp, member: chatMessage.id })
+      : Promise.resolve(null),
+  ]);
+
+  if (threadId) {
+    await refreshReplyCount(threadId);
+  }
 
   return chatMessage;
 }
 
-// Get recent messages (last 24 hours)
-export async function getRecentMessages(limit: number = 50): Promise<ChatMessage[]> {
-  if (!redis) {
-    return [];
+async function refreshReplyCount(rootId: string): Promise<void> {
+  if (!redis) return;
+  try {
+    const [root, count] = await Promise.all([getMessage(rootId), redis.zcard(withPrefix(KEYS.thread(rootId)))]);
+    if (!root) return;
+    await saveMessage({ ...root, replyCount: count });
+  } catch (error) {
+    console.warn('Failed to refresh chat reply count', { rootId, error });
   }
+}
 
-  const keys = await redis.keys('chat:messages:*');
+// Reply previews are snapshots; refresh them so edits and deletes of the parent show up
+async function refreshReplyPreviews(messages: ChatMessage[]): Promise<ChatMessage[]> {
+  const parentIds = Array.from(new Set(messages.map((m) => m.replyTo?.id).filter((id): id is string => Boolean(id))));
+  if (parentIds.length === 0) return messages;
+  const parents = new Map<string, ChatMessage | null>();
+  await Promise.all(parentIds.map(async (id) => parents.set(id, await getMessage(id))));
+
+  return messages.map((m) => {
+    if (!m.replyTo) return m;
+    const parent = parents.get(m.replyTo.id);
+    if (!parent) return m;
+    return {
+      ...m,
+      replyTo: { ...m.replyTo, excerpt: parent.deletedAt ? '' : excerptOf(parent.message) },
+    };
+  });
+}
 
-  if (keys.length === 0) return [];
+// Newest-first ids from a timestamp-scored index, paginated by an exclusive timestamp cursor
+async function readIndexPage(key: string, before: number | undefined, limit: number): Promise<ChatPage> {
+  if (!redis) return { messages: [], nextCursor: null };
+  const min = Date.now() - CHAT_RETENTION_MS;
+  const max = typeof before === 'number' && before > 0 ? `(${before}` : '+inf';
 
-  // Sort keys by timestamp (descending)
-  keys.sort((a, b) => {
-    const timestampA = parseInt(a.split(':')[2]);
-    const timestampB = parseInt(b.split(':')[2]);
-    return timestampB - timestampA;
-  });
+  const ids = (await (redis as any).zrange(withPrefix(key), max, min, {
+    byScore: true,
+    rev: true,
+    offset: 0,
+    count: limit,
+  })) as string[] | null;
 
-  // Get the most recent messages using simple redis.get() calls (like invite system)
-  const recentKeys = keys.slice(0, limit);
-  const messages: ChatMessage[] = [];
-
-  for (const key of recentKeys) {
-    try {
-      const data = await redis.get(key);
-      if (data) {
-        let message;
-        if (typeof data === 'object' && data !== null) {
-          message = data;
-        } else if (typeof data === 'string') {
-          message = JSON.parse(data);
-        } else {
-          const dataString = String(data);
-          message = JSON.parse(dataString);
-        }
-
-        if (!message.displayName) {
-          const resolved = await resolvePrimaryName(message.address);
-          if (resolved) {
-            message.displayName = resolved;
-          }
-        }
-
-        messages.push(message);
-      }
-    } catch (error) {
-      console.error('Error parsing chat message:', error);
-    }
+  const messages = (await Promise.all((ids || []).map((id) => getMessage(id))))
+    .filter((m): m is ChatMessage => Boolean(m));
+
+  const nextCursor = (ids || []).length === limit && messages.length > 0
+    ? messages[messages.length - 1].timestamp
+    : null;
+
+  return {
+    // ascending for display
+    messages: (await refreshReplyPreviews(messages)).reverse(),
+    nextCursor,
+  };
+}
+
+const clampLimit = (limit?: number) => Math.min(Math.max(Math.floor(limit ?? CHAT_PAGE_DEFAULT), 1), CHAT_PAGE_MAX);
+
+// A page of a room's history (oldest first), older pages via `before`
+export async function getRoomMessages(
+  roomId: string,
+  options: { before?: number; limit?: number } = {},
+): Promise<ChatPage> {
+  const room = resolveRoom(roomId);
+  return readIndexPage(KEYS.room(room.id), options.before, clampLimit(options.limit));
+}
+
+// The root message of a thread and a page of its replies (oldest first)
+export async function getThreadMessages(
+  rootId: string,
+  options: { before?: number; limit?: number } = {},
+): Promise<ChatPage & { root: ChatMessage | null }> {
+  const root = await getMessage(rootId);
+  if (!root) return { root: null, messages: [], nextCursor: null };
+  const page = await readIndexPage(KEYS.thread(root.id), options.before, clampLimit(options.limit));
+  return { root, ...page };
+}
+
+async function getOwnMessage(messageId: string, address: string): Promise<ChatMessage> {
+  const message = await getMessage(messageId);
+  if (!message || message.deletedAt) {
+    throw new ChatServiceError('Message not found', 404);
   }
+  if (message.address !== address.toLowerCase()) {
+    throw new ChatServiceError('You can only change your own messages', 403);
+  }
+  return message;
+}
 
-  // Sort by timestamp (ascending for display)
-  return messages.sort((a, b) => a.timestamp - b.timestamp);
+// Edit a message's text (author only)
+export async function editMessage(messageId: string, address: string, text: string): Promise<ChatMessage> {
+  const message = await getOwnMessage(messageId, address);
+  const updated: ChatMessage = { ...message, message: text.trim(), editedAt: Date.now() };
+  await saveMessage(updated);
+  return updated;
+}
+
+// Delete a message (author only). The entry stays as a placeholder so its replies keep their context.
+export async function deleteOwnMessage(messageId: string, address: string): Promise<ChatMessage> {
+  const message = await getOwnMessage(messageId, address);
+  const updated: ChatMessage = { ...message, message: '', deletedAt: Date.now() };
+  await saveMessage(updated);
+  return updated;
 }
 
 // Check rate limit for a user
@@ -254,118 +449,98 @@ export function validateMessage(message: string): string | null {
   return null;
 }
 
+async function listRooms(): Promise<string[]> {
+  if (!redis) return [];
+  return ((await redis.zrange(withPrefix(KEYS.rooms), 0, -1)) as unknown[]).map(String);
+}
+
+async function deleteKeys(keys: string[]): Promise<void> {
+  if (!redis) return;
+  for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+    const batch = keys.slice(i, i + DELETE_BATCH);
+    if (batch.length > 0) await redis.del(...batch);
+  }
+}
+
 // Get chat statistics
 export async function getChatStats(): Promise<ChatStats> {
+  const empty: ChatStats = {
+    totalMessages: 0,
+    activeUsers: 0,
+    messagesLast24h: 0,
+    activeRooms: 0,
+    retentionDays: CHAT_RETENTION_DAYS,
+  };
   if (!redis) {
-    return {
-      totalMessages: 0,
-      activeUsers: 0,
-      messagesLast24h: 0
-    };
+    return empty;
   }
 
-  const keys = await redis.keys('chat:messages:*');
   const now = Date.now();
   const oneDayAgo = now - (24 * 60 * 60 * 1000);
+  const retentionStart = now - CHAT_RETENTION_MS;
+  const rooms = await listRooms();
+
+  let totalMessages = 0;
+  let activeRooms = 0;
+  const recentIds: string[] = [];
+
+  for (const room of rooms) {
+    const key = withPrefix(KEYS.room(room));
+    const [total, recent] = await Promise.all([
+      redis.zcount(key, retentionStart, '+inf'),
+      (redis as any).zrange(key, oneDayAgo, '+inf', { byScore: true }) as Promise<string[] | null>,
+    ]);
+    totalMessages += total;
+    recentIds.push(...(recent || []));
+    if ((recent || []).length > 0) activeRooms++;
+  }
 
-  // Count messages from last 24h
-  let messagesLast24h = 0;
+  // Get user addresses for unique count
   const uniqueUsers = new Set<string>();
-
-  for (const key of keys) {
-    const timestamp = parseInt(key.split(':')[2]);
-    if (timestamp >= oneDayAgo) {
-      messagesLast24h++;
-
-      // Get user address for unique count
-      try {
-        const messageData = await redis.get(key);
-        if (messageData) {
-          let message;
-          if (typeof messageData === 'object' && messageData !== null) {
-            message = messageData;
-          } else if (typeof messageData === 'string') {
-            message = JSON.parse(messageData);
-          } else {
-            const dataString = String(messageData);
-            message = JSON.parse(dataString);
-          }
-          uniqueUsers.add(message.address);
-        }
-      } catch (error) {
-        console.error('Error parsing message for stats:', error);
-      }
-    }
-  }
+  const recentMessages = await Promise.all(recentIds.slice(-ADMIN_MESSAGE_LIMIT * 5).map((id) => getMessage(id)));
+  recentMessages.forEach((m) => m && uniqueUsers.add(m.address));
 
   return {
-    totalMessages: keys.length,
+    ...empty,
+    totalMessages,
     activeUsers: uniqueUsers.size,
-    messagesLast24h
+    messagesLast24h: recentIds.length,
+    activeRooms,
   };
 }
 
-// Admin functions
+// Admin functions: latest messages across all rooms, newest first
 export async function getAllMessagesForAdmin(): Promise<AdminChatMessage[]> {
   if (!redis) {
     return [];
   }
 
-  const keys = await redis.keys('chat:messages:*');
-
-  if (keys.length === 0) return [];
-
-  // Sort keys by timestamp (descending)
-  keys.sort((a, b) => {
-    const timestampA = parseInt(a.split(':')[2]);
-    const timestampB = parseInt(b.split(':')[2]);
-    return timestampB - timestampA;
-  });
+  const rooms = await listRooms();
+  const pages = await Promise.all(rooms.map((room) => readIndexPage(KEYS.room(room), undefined, ADMIN_MESSAGE_LIMIT)));
 
-  const messages: AdminChatMessage[] = [];
-
-  for (const key of keys) {
-    try {
-      const data = await redis.get(key);
-      if (!data) continue;
-
-      let message: AdminChatMessage;
-      if (typeof data === 'object' && data !== null) {
-        message = data as AdminChatMessage;
-      } else if (typeof data === 'string') {
-        message = JSON.parse(data) as AdminChatMessage;
-      } else {
-        const dataString = String(data);
-        message = JSON.parse(dataString) as AdminChatMessage;
-      }
-
-      if (!message.displayName) {
-        const resolved = await resolvePrimaryName(message.address);
-        if (resolved) {
-          message.displayName = resolved;
-        }
-      }
-
-      messages.push(message);
-    } catch (error) {
-      console.error('Error parsing admin chat message:', error);
-    }
-  }
-
-  return messages;
+  return pages
+    .flatMap((page) => page.messages)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, ADMIN_MESSAGE_LIMIT);
 }
 
-// Delete a specific message
-export async function deleteMessage(messageId: string, timestamp: number): Promise<boolean> {
+// Remove a message outright (moderation); the timestamp is accepted for older admin clients
+export async function deleteMessage(messageId: string, _timestamp?: number): Promise<boolean> {
   if (!redis) {
     return false;
   }
 
-  const keys = await redis.keys(`chat:messages:${timestamp}:${messageId}`);
-
-  if (keys.length === 0) return false;
+  const message = await getMessage(messageId);
+  if (!message) return false;
 
-  await redis.del(keys[0]);
+  await Promise.all([
+    redis.del(withPrefix(KEYS.message(messageId))),
+    redis.zrem(withPrefix(KEYS.room(message.room)), messageId),
+    message.threadId ? redis.zrem(withPrefix(KEYS.thread(message.threadId)), messageId) : Promise.resolve(0),
+  ]);
+  if (message.threadId) {
+    await refreshReplyCount(message.threadId);
+  }
   return true;
 }
 
@@ -375,41 +550,48 @@ export async function deleteAllMessages(): Promise<number> {
     return 0;
   }
 
-  const keys = await redis.keys('chat:messages:*');
-
-  if (keys.length === 0) return 0;
-
-  await redis.del(...keys);
-
-  // Reset stats
-  await redis.del('chat:stats:total');
+  const rooms = await listRooms();
+  let deleted = 0;
+
+  for (const room of rooms) {
+    const roomKey = withPrefix(KEYS.room(room));
+    const ids = ((await redis.zrange(roomKey, 0, -1)) as unknown[]).map(String);
+    await deleteKeys([
+      ...ids.map((id) => withPrefix(KEYS.message(id))),
+      ...ids.map((id) => withPrefix(KEYS.thread(id))),
+      roomKey,
+    ]);
+    deleted += ids.length;
+  }
 
-  return keys.length;
+  await redis.del(withPrefix(KEYS.rooms));
+  return deleted;
 }
 
-// Clean up old data (called periodically)
-export async function cleanupOldData(): Promise<void> {
+// Drop messages past the retention window from the room and thread indexes (called by the cleanup cron)
+export async function cleanupOldData(): Promise<{ rooms: number; removed: number }> {
   if (!redis) {
-    return;
+    return { rooms: 0, removed: 0 };
   }
 
-  const now = Date.now();
-  const oneDayAgo = now - (24 * 60 * 60 * 1000);
-
-  // Clean old messages
-  const messageKeys = await redis.keys('chat:messages:*');
-  const oldMessageKeys = messageKeys.filter(key => {
-    const timestamp = parseInt(key.split(':')[2]);
-    return timestamp < oneDayAgo;
-  });
-
-  if (oldMessageKeys.length > 0) {
-    await redis.del(...oldMessageKeys);
+  const cutoff = Date.now() - CHAT_RETENTION_MS;
+  const rooms = await listRooms();
+  let removed = 0;
+
+  for (const room of rooms) {
+    const roomKey = withPrefix(KEYS.room(room));
+    const expired = ((await (redis as any).zrange(roomKey, '-inf', cutoff, { byScore: true })) as string[] | null) || [];
+    if (expired.length > 0) {
+      await deleteKeys([
+        ...expired.map((id) => withPrefix(KEYS.message(id))),
+        ...expired.map((id) => withPrefix(KEYS.thread(id))),
+      ]);
+      await redis.zremrangebyscore(roomKey, '-inf', cutoff);
+      removed += expired.length;
+    }
   }
 
-  // Clean old spam tracking
-  const spamKeys = await redis.keys('chat:spam:*');
-  if (spamKeys.length > 0) {
-    await redis.del(...spamKeys);
-  }
-}
\ No newline at end of file
+  // Rooms with no message inside the window
+  await redis.zremrangebyscore(withPrefix(KEYS.rooms), '-inf', cutoff);
+  return { rooms: rooms.length, removed };
+}
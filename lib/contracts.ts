@@ -1,6 +1,7 @@
 import { createPublicClient, createWalletClient, custom, WalletClient, getAddress, parseUnits, formatUnits, PublicClient, encodeFunctionData } from 'viem';
 import { base, baseSepolia } from 'viem/chains';
-import { Plant, ShopItem, Strain, GardenItem, Land, FenceV2State } from './types';
+import { simulateCalls } from 'viem/actions';
+import { Plant, ShopItem, Strain, GardenItem, Land, FenceV2State, TransactionCall } from './types';
 import { appendBuilderSuffix } from './builder-code';
 import UniswapAbi from '@/public/abi/Uniswap.json';
 import { landAbi } from '../public/abi/pixotchi-v3-abi';
@@ -22,6 +23,7 @@ export const CRYPTICPOET_TOKEN_ADDRESS = getAddress('0x787b7B7117848C1F9Fc79A8Fa
 export const JESSE_TOKEN_ADDRESS = getAddress('0x50f88fe97f72cd3e75b9eb4f747f59bceba80d59');
 export const BATCH_ROUTER_ADDRESS = CLIENT_ENV.BATCH_ROUTER_ADDRESS ? getAddress(CLIENT_ENV.BATCH_ROUTER_ADDRESS) : undefined as unknown as `0x${string}`;
 export const UNISWAP_ROUTER_ADDRESS = getAddress('0x327Df1E6de05895d2ab08513aaDD9313Fe505d86'); // BaseSwap Router (Uniswap V2 Fork)
+export const SEED_PAIR_ADDRESS = getAddress('0xaa6a81a7df94dab346e2d677225cad47220540c5'); // SEED liquidity pair
 export const WETH_ADDRESS = getAddress('0x4200000000000000000000000000000000000006');
 export const FENCE_V2_EXTENSION_ADDRESS = PIXOTCHI_NFT_ADDRESS;
 
@@ -2013,16 +2015,89 @@ export const getQuestSlotsByLandId = async (landId: bigint): Promise<QuestSlot[]
       args: [landId],
     });
     // Ensure array of normalized objects
-    return (slots as any[]).map((s: any) => ({
-      difficulty: Number(s.difficulty ?? s[0] ?? 0),
-      startBlock: BigInt(s.startBlock ?? s[1] ?? 0),
-      endBlock: BigInt(s.endBlock ?? s[2] ?? 0),
-      pseudoRndBlock: BigInt(s.pseudoRndBlock ?? s[3] ?? 0),
-      coolDownBlock: BigInt(s.coolDownBlock ?? s[4] ?? 0),
-    })) as QuestSlot[];
+    return (slots as any[]).map(normalizeQuestSlot);
   });
 };
 
+const normalizeQuestSlot = (s: any): QuestSlot => ({
+  difficulty: Number(s.difficulty ?? s[0] ?? 0),
+  startBlock: BigInt(s.startBlock ?? s[1] ?? 0),
+  endBlock: BigInt(s.endBlock ?? s[2] ?? 0),
+  pseudoRndBlock: BigInt(s.pseudoRndBlock ?? s[3] ?? 0),
+  coolDownBlock: BigInt(s.coolDownBlock ?? s[4] ?? 0),
+});
+
+/** Quest slots for many lands via multicall; lands whose read fails get an empty list */
+export const getQuestSlotsBatch = async (
+  landIds: bigint[],
+  options: { chunkSize?: number } = {},
+): Promise<Map<string, QuestSlot[]>> => {
+  const result = new Map<string, QuestSlot[]>();
+  if (landIds.length === 0) return result;
+
+  const { chunkSize = 30 } = options;
+  const readClient = getReadClient();
+
+  for (let i = 0; i < landIds.length; i += chunkSize) {
+    const chunk = landIds.slice(i, i + chunkSize);
+    const chunkResults = await retryWithBackoff(async () => {
+      return readClient.multicall({
+        allowFailure: true,
+        contracts: chunk.map((landId) => ({
+          address: LAND_CONTRACT_ADDRESS,
+          abi: landAbi,
+          functionName: 'questGetByLandId' as const,
+          args: [landId],
+        })),
+      });
+    });
+
+    chunk.forEach((landId, index) => {
+      const entry = chunkResults[index];
+      const slots = Array.isArray(entry?.result) ? (entry.result as any[]).map(normalizeQuestSlot) : [];
+      result.set(landId.toString(), slots);
+    });
+  }
+
+  return result;
+};
+
+export type SimulatedCallResult = {
+  status: 'success' | 'failure';
+  gasUsed: bigint;
+  error?: string;
+};
+
+/**
+ * Simulate a batch of calls in order from `account` (eth_simulateV1), so each call sees the
+ * effects of the ones before it (e.g. an approve). Returns null when the RPC can't simulate.
+ */
+export const simulateBatchCalls = async (
+  account: `0x${string}`,
+  calls: TransactionCall[],
+): Promise<SimulatedCallResult[] | null> => {
+  if (calls.length === 0) return [];
+  const readClient = getReadClient();
+  try {
+    const { results } = await simulateCalls(readClient, {
+      account,
+      calls: calls.map((call) => ({
+        to: call.address,
+        data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }),
+        value: call.value,
+      })),
+    });
+    return results.map((r) => ({
+      status: r.status,
+      gasUsed: r.gasUsed,
+      error: r.status === 'failure' ? ((r.error as any)?.shortMessage || r.error?.message) : undefined,
+    }));
+  } catch (error) {
+    console.warn('Batch simulation unavailable:', error);
+    return null;
+  }
+};
+
 // Village Building Upgrade Functions
 export const upgradeVillageWithLeaf = async (walletClient: WalletClient, landId: bigint, buildingId: number): Promise<string> => {
   if (!walletClient.account) throw new Error('No account connected');
@@ -2206,6 +2281,30 @@ export const getLandLeaderboard = async (): Promise<LandLeaderboardEntry[]> => {
   });
 };
 
+// Open SEED/LEAF orders on the land marketplace (sellToken 0 = selling SEED, 1 = selling LEAF)
+export type MarketplaceOrder = { id: bigint; seller: string; sellToken: number; amount: bigint; amountAsk: bigint };
+
+export const getMarketplaceActiveOrders = async (): Promise<MarketplaceOrder[]> => {
+  const readClient = getReadClient();
+  return retryWithBackoff(async () => {
+    const orders = await readClient.readContract({
+      address: LAND_CONTRACT_ADDRESS,
+      abi: landAbi,
+      functionName: 'marketPlaceGetActiveOrders',
+    }) as any[];
+
+    return (orders || [])
+      .filter((o: any) => Boolean(o.isActive))
+      .map((o: any) => ({
+        id: BigInt(o.id),
+        seller: String(o.seller),
+        sellToken: Number(o.sellToken),
+        amount: BigInt(o.amount),
+        amountAsk: BigInt(o.amountAsk),
+      }));
+  });
+};
+
 // -------------------- ROUTER-BASED BULK TRANSFER --------------------
 
 export const routerBatchTransfer = async (
@@ -2310,6 +2409,81 @@ export const getKillCooldown = async (walletAddress: string): Promise<{ canKill:
   }
 };
 
+// -------------------- ATTACK ODDS --------------------
+
+// The NFT contract exposes its attack formula as a view: `pct` of the loser's score changes hands,
+// the attacker wins with `odds`% probability.
+export const ATTACK_ODDS_ABI = [
+  {
+    inputs: [{ name: 'fromId', type: 'uint256' }, { name: 'toId', type: 'uint256' }],
+    name: 'onAttack',
+    outputs: [
+      { name: 'pct', type: 'uint256' },
+      { name: 'odds', type: 'uint256' },
+      { name: 'canAttack', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'plantId', type: 'uint256' }],
+    name: 'getPlantScore',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export type AttackOdds = { fromId: number; toId: number; pct: number; odds: number; canAttack: boolean };
+
+const ATTACK_ODDS_BATCH = 150;
+
+export const getAttackOdds = async (
+  pairs: Array<{ fromId: number; toId: number }>,
+  blockNumber?: bigint
+): Promise<Array<AttackOdds | null>> => {
+  const readClient = getReadClient();
+  const out: Array<AttackOdds | null> = [];
+  for (let i = 0; i < pairs.length; i += ATTACK_ODDS_BATCH) {
+    const batch = pairs.slice(i, i + ATTACK_ODDS_BATCH);
+    const results = await retryWithBackoff(async () => readClient.multicall({
+      contracts: batch.map(({ fromId, toId }) => ({
+        address: PIXOTCHI_NFT_ADDRESS,
+        abi: ATTACK_ODDS_ABI,
+        functionName: 'onAttack',
+        args: [BigInt(fromId), BigInt(toId)],
+      })),
+      allowFailure: true,
+      ...(blockNumber !== undefined ? { blockNumber } : {}),
+    })) as any[];
+    results.forEach((res, idx) => {
+      if (res?.status !== 'success') {
+        out.push(null);
+        return;
+      }
+      const [pct, odds, canAttack] = res.result as [bigint, bigint, boolean];
+      out.push({ ...batch[idx], pct: Number(pct), odds: Number(odds), canAttack });
+    });
+  }
+  return out;
+};
+
+// Historical scores need an archive-capable RPC; callers treat failures as "unknown"
+export const getPlantScoresAt = async (plantIds: number[], blockNumber: bigint): Promise<Array<bigint | null>> => {
+  const readClient = getReadClient();
+  const results = await readClient.multicall({
+    contracts: plantIds.map((id) => ({
+      address: PIXOTCHI_NFT_ADDRESS,
+      abi: ATTACK_ODDS_ABI,
+      functionName: 'getPlantScore',
+      args: [BigInt(id)],
+    })),
+    allowFailure: true,
+    blockNumber,
+  }) as any[];
+  return results.map((res) => (res?.status === 'success' ? (res.result as bigint) : null));
+};
+
 // -------------------- CASINO (ROULETTE) HELPERS - MULTI-BET VERSION --------------------
 
 import { casinoAbi, CasinoBetType } from '@/public/abi/casino-abi';
@@ -2505,6 +2679,50 @@ export const casinoGetActiveBet = async (landId: bigint): Promise<CasinoActiveBe
   }
 };
 
+/** Active Roulette games for many lands via multicall; lands whose read fails are left out */
+export const casinoGetActiveBetsBatch = async (
+  landIds: bigint[],
+  options: { chunkSize?: number } = {},
+): Promise<Map<string, CasinoActiveBet>> => {
+  const result = new Map<string, CasinoActiveBet>();
+  if (landIds.length === 0) return result;
+
+  const { chunkSize = 30 } = options;
+  const readClient = getReadClient();
+
+  for (let i = 0; i < landIds.length; i += chunkSize) {
+    const chunk = landIds.slice(i, i + chunkSize);
+    const chunkResults = await retryWithBackoff(async () => {
+      return readClient.multicall({
+        allowFailure: true,
+        contracts: chunk.map((landId) => ({
+          address: LAND_CONTRACT_ADDRESS,
+          abi: casinoAbi,
+          functionName: 'casinoGetActiveBet' as const,
+          args: [landId],
+        })),
+      });
+    });
+
+    chunk.forEach((landId, index) => {
+      const entry = chunkResults[index];
+      if (entry?.status !== 'success') return;
+      const bet = entry.result as unknown as [boolean, bigint, bigint, bigint, string, boolean, boolean];
+      result.set(landId.toString(), {
+        isActive: bet[0],
+        numBets: bet[1],
+        totalBetAmount: bet[2],
+        revealBlock: bet[3],
+        player: bet[4],
+        canReveal: bet[5],
+        isExpired: bet[6],
+      });
+    });
+  }
+
+  return result;
+};
+
 export const casinoGetActiveBetV2 = async (landId: bigint): Promise<CasinoActiveBetV2 | null> => {
   const readClient = getReadClient();
   try {
@@ -57,6 +57,10 @@ export const CLIENT_ENV = {
   SOLANA_TWIN_ADAPTER_TESTNET: process.env.NEXT_PUBLIC_SOLANA_TWIN_ADAPTER_TESTNET || '',
   // Optional: Custom Solana RPC (uses public endpoint if not set)
   SOLANA_RPC_URL: process.env.NEXT_PUBLIC_SOLANA_RPC_URL || '',
+
+  // Notification channels: Web Push VAPID public key and Telegram bot handle shown in settings
+  VAPID_PUBLIC_KEY: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '',
+  TELEGRAM_BOT_USERNAME: process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME || '',
 } as const;
 
 // RPC configuration with fallback handling
@@ -115,6 +119,18 @@ export const SERVER_ENV = {
   NEYNAR_API_KEY: process.env.NEYNAR_API_KEY,
   NEYNAR_APP_ID: process.env.NEYNAR_APP_ID,
   MEMORY_API_KEY: process.env.MEMORY_API_KEY,
+
+  // Notification delivery channels (web-only players)
+  VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+  VAPID_SUBJECT: process.env.VAPID_SUBJECT || 'mailto:team@pixotchi.tech',
+  SMTP_HOST: process.env.SMTP_HOST,
+  SMTP_PORT: Number(process.env.SMTP_PORT || '587'),
+  SMTP_USER: process.env.SMTP_USER,
+  SMTP_PASS: process.env.SMTP_PASS,
+  SMTP_FROM: process.env.SMTP_FROM,
+  TELEGRAM_BOT_TOKEN: process.env.TELEGRAM_BOT_TOKEN,
+  // Sent by Telegram as X-Telegram-Bot-Api-Secret-Token on webhook updates (set with setWebhook)
+  TELEGRAM_WEBHOOK_SECRET: process.env.TELEGRAM_WEBHOOK_SECRET,
 } as const;
 
 // Validation function to ensure sensitive data isn't exposed
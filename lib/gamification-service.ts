@@ -1,19 +1,50 @@
 import { redis, redisGetJSON, redisSetJSON, redisKeys, redisDel, withPrefix, redisCompareAndSetJSON, redisScanKeys } from '@/lib/redis';
 import { getTodayDateString } from '@/lib/invite-utils';
-import type { GmDay, GmLeaderEntry, GmMissionDay, GmProgressProof, GmSectionKey, GmStreak, GmTaskId } from './gamification-types';
+import { parseUnits, type Hex } from 'viem';
+import type {
+  GmDay,
+  GmLeaderEntry,
+  GmMissionDay,
+  GmMissionSet,
+  GmProgressProof,
+  GmStreak,
+  GmStreakEvent,
+  GmStreakRepair,
+  GmTaskDefinition,
+  GmTaskId,
+  GmTrack,
+} from './gamification-types';
 import { isGamificationDisabled } from './gamification-feature';
+import {
+  applyTaskProgress,
+  CLASSIC_MISSION_SET,
+  CLASSIC_MISSION_SET_ID,
+  createEmptyProgress,
+  MissionSetError,
+  selectActiveSet,
+  validateMissionSet,
+  weekStartOf,
+} from './mission-definitions';
+import { claimProofHash, releaseProofHash, verifySeedPayment } from './mission-proofs';
+import { enqueueStreakPayout, getStreakRewardConfig, isStreakRewardEligible } from './streak-rewards';
+import { recordSeasonMissionPoints, recordSeasonStreak } from './seasons';
 
 const PX = 'pixotchi:gm:';
+const STREAK_HISTORY_LIMIT = 50;
 
 const keys = {
   streak: (address: string) => `${PX}streak:${address.toLowerCase()}`,
   streakLeaderboard: (yyyymm: string) => `${PX}streak:leaderboard:${yyyymm}`,
+  streakHistory: (address: string) => `${PX}streak:history:${address.toLowerCase()}`,
   missions: (address: string, day: GmDay) => `${PX}missions:${address.toLowerCase()}:${day}`,
+  weeklyMissions: (address: string, weekStart: GmDay) => `${PX}missions:weekly:${address.toLowerCase()}:${weekStart}`,
   missionsLeaderboard: (yyyymm: string) => `${PX}missions:leaderboard:${yyyymm}`,
   proof: (address: string, day: GmDay, taskId: string) => `${PX}missions:proof:${address.toLowerCase()}:${day}:${taskId}`,
   todayActiveSet: (day: GmDay) => `${PX}streak:activity:${day}`,
   idemp: (address: string, rewardId: string) => `${PX}idemp:${address.toLowerCase()}:${rewardId}`,
   adminLastReset: `${PX}admin:lastResetAt`,
+  // Outside missions:* so resetting mission progress keeps the definitions
+  missionSets: `${PX}mission-sets`,
 };
 
 function toMonth(day: GmDay): string {
@@ -26,105 +57,137 @@ function isCombinedMonth(month?: string | null): boolean {
   return normalized === 'all' || normalized === 'combined' || normalized === 'lifetime';
 }
 
-function createInitialMissionDay(day: GmDay): GmMissionDay {
-  return {
-    date: day,
-    s1: { makeSwap: false, stakeSeed: false, claimStake: false, placeOrder: false, done: false },
-    s2: { followPlayer: false, chatMessage: false, visitProfile: false, done: false },
-    s3: { applyResources: false, sendQuest: false, claimProduction: false, playCasinoGame: false, done: false },
-    s4: { buy10: false, buyElementsCount: 0, buyShield: false, collectStar: false, playArcade: false, done: false },
-    pts: 0,
-  };
-}
-
-function hydrateMissionDay(data: any, day: GmDay): GmMissionDay {
-  if (!data) return createInitialMissionDay(day);
-  const normalizeNumber = (value: unknown, fallback = 0) =>
-    typeof value === 'number' && Number.isFinite(value) ? value : fallback;
-  const normalizeBoolean = (value: unknown) => Boolean(value);
+// Stored days from before mission sets were data: fixed s1..s4 flags for the classic set
+const LEGACY_CLASSIC_FIELDS: Array<[GmTaskId, (data: any) => unknown]> = [
+  ['s1_make_swap', (d) => d?.s1?.makeSwap ?? d?.s4?.makeSwap],
+  ['s1_stake_seed', (d) => d?.s1?.stakeSeed],
+  ['s1_claim_stake', (d) => d?.s1?.claimStake ?? d?.s3?.claimStake],
+  ['s1_place_order', (d) => d?.s1?.placeOrder ?? d?.s3?.placeOrder],
+  ['s2_follow_player', (d) => d?.s2?.followPlayer],
+  ['s2_chat_message', (d) => d?.s2?.chatMessage],
+  ['s2_visit_profile', (d) => d?.s2?.visitProfile],
+  ['s3_apply_resources', (d) => d?.s3?.applyResources ?? d?.s2?.applyResources],
+  ['s3_send_quest', (d) => d?.s3?.sendQuest],
+  ['s3_claim_production', (d) => d?.s3?.claimProduction ?? d?.s1?.claimProduction],
+  ['s3_play_casino_game', (d) => d?.s3?.playCasinoGame],
+  ['s4_buy_shield', (d) => d?.s4?.buyShield ?? d?.s1?.buyShield],
+  ['s4_collect_star', (d) => d?.s4?.collectStar],
+  ['s4_play_arcade', (d) => d?.s4?.playArcade],
+];
+
+const normalizeNumber = (value: unknown, fallback = 0) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+function hydrateLegacyMissionDay(data: any, day: GmDay): GmMissionDay {
+  const mission = createEmptyProgress(CLASSIC_MISSION_SET, typeof data?.date === 'string' ? data.date : day);
+  for (const [taskId, read] of LEGACY_CLASSIC_FIELDS) {
+    if (read(data)) mission.progress[taskId] = 1;
+  }
   const legacyBuyElementsCount = Math.max(
     0,
-    Math.floor(normalizeNumber(data?.s1?.buyElementsCount, normalizeBoolean(data?.s1?.buy5) ? 5 : 0)),
+    Math.floor(normalizeNumber(data?.s1?.buyElementsCount, data?.s1?.buy5 ? 5 : 0)),
   );
   const buyElementsCount = Math.max(
     0,
     Math.floor(normalizeNumber(data?.s4?.buyElementsCount, legacyBuyElementsCount)),
   );
+  const elements = data?.s4?.buy10 ? Math.max(10, buyElementsCount) : buyElementsCount;
+  if (elements > 0) mission.progress.s4_buy10_elements = elements;
+  for (const section of CLASSIC_MISSION_SET.sections) {
+    if (data?.[section.key]?.done) mission.sectionsDone[section.key] = true;
+  }
+  mission.pts = Math.min(100, Math.max(0, normalizeNumber(data?.pts)));
+  mission.completedAt = typeof data?.completedAt === 'number' ? data.completedAt : undefined;
+  return mission;
+}
 
+function hydrateMissionDay(data: any, day: GmDay, set: GmMissionSet): GmMissionDay {
+  if (!data) return createEmptyProgress(set, day);
+  if (!data.progress || typeof data.progress !== 'object') return hydrateLegacyMissionDay(data, day);
+
+  const progress: Record<GmTaskId, number> = {};
+  for (const [taskId, value] of Object.entries(data.progress)) {
+    const count = Math.max(0, Math.floor(normalizeNumber(value)));
+    if (count > 0) progress[taskId] = count;
+  }
+  const sectionsDone: Record<string, boolean> = {};
+  for (const [key, value] of Object.entries(data.sectionsDone || {})) {
+    if (value) sectionsDone[key] = true;
+  }
   return {
-    date: typeof data?.date === 'string' ? data.date : day,
-    s1: {
-      makeSwap: normalizeBoolean(data?.s1?.makeSwap ?? data?.s4?.makeSwap),
-      stakeSeed: normalizeBoolean(data?.s1?.stakeSeed),
-      claimStake: normalizeBoolean(data?.s1?.claimStake ?? data?.s3?.claimStake),
-      placeOrder: normalizeBoolean(data?.s1?.placeOrder ?? data?.s3?.placeOrder),
-      done: normalizeBoolean(data?.s1?.done),
-    },
-    s2: {
-      followPlayer: normalizeBoolean(data?.s2?.followPlayer),
-      chatMessage: normalizeBoolean(data?.s2?.chatMessage),
-      visitProfile: normalizeBoolean(data?.s2?.visitProfile),
-      done: normalizeBoolean(data?.s2?.done),
-    },
-    s3: {
-      applyResources: normalizeBoolean(data?.s3?.applyResources ?? data?.s2?.applyResources),
-      sendQuest: normalizeBoolean(data?.s3?.sendQuest),
-      claimProduction: normalizeBoolean(data?.s3?.claimProduction ?? data?.s1?.claimProduction),
-      playCasinoGame: normalizeBoolean(data?.s3?.playCasinoGame),
-      done: normalizeBoolean(data?.s3?.done),
-    },
-    s4: {
-      buy10: normalizeBoolean(data?.s4?.buy10) || buyElementsCount >= 10,
-      buyElementsCount,
-      buyShield: normalizeBoolean(data?.s4?.buyShield ?? data?.s1?.buyShield),
-      collectStar: normalizeBoolean(data?.s4?.collectStar),
-      playArcade: normalizeBoolean(data?.s4?.playArcade),
-      done: normalizeBoolean(data?.s4?.done),
-    },
-    pts: Math.min(100, Math.max(0, normalizeNumber(data?.pts))),
-    completedAt: typeof data?.completedAt === 'number' ? data.completedAt : undefined,
+    date: typeof data.date === 'string' ? data.date : day,
+    track: data.track === 'weekly' ? 'weekly' : 'daily',
+    setId: typeof data.setId === 'string' ? data.setId : set.id,
+    progress,
+    sectionsDone,
+    pts: Math.max(0, normalizeNumber(data.pts)),
+    completedAt: typeof data.completedAt === 'number' ? data.completedAt : undefined,
   };
 }
 
-function applyMissionTaskProgress(m: GmMissionDay, taskId: GmTaskId, count: number): void {
-  switch (taskId) {
-    case 's1_make_swap':
-      m.s1.makeSwap = true; break;
-    case 's1_stake_seed':
-      m.s1.stakeSeed = true; break;
-    case 's1_claim_stake':
-      m.s1.claimStake = true; break;
-    case 's1_place_order':
-      m.s1.placeOrder = true; break;
-    case 's2_follow_player':
-      m.s2.followPlayer = true; break;
-    case 's2_chat_message':
-      m.s2.chatMessage = true; break;
-    case 's2_visit_profile':
-      m.s2.visitProfile = true; break;
-    case 's3_apply_resources':
-      m.s3.applyResources = true; break;
-    case 's3_send_quest':
-      m.s3.sendQuest = true; break;
-    case 's3_claim_production':
-      m.s3.claimProduction = true; break;
-    case 's3_play_casino_game':
-      m.s3.playCasinoGame = true; break;
-    case 's4_buy10_elements': {
-      const prev = m.s4.buyElementsCount || 0;
-      const increment = Number.isFinite(count) ? Math.max(1, Math.floor(count)) : 1;
-      const next = prev + increment;
-      m.s4.buyElementsCount = next;
-      if (next >= 10) m.s4.buy10 = true;
-      break;
-    }
-    case 's4_buy_shield':
-      m.s4.buyShield = true; break;
-    case 's4_collect_star':
-      m.s4.collectStar = true; break;
-    case 's4_play_arcade':
-      m.s4.playArcade = true; break;
+// -------------------- Mission set definitions --------------------
+
+export async function getMissionSets(): Promise<GmMissionSet[]> {
+  const sets = await redisGetJSON<GmMissionSet[]>(keys.missionSets);
+  return Array.isArray(sets) ? sets : [];
+}
+
+export async function saveMissionSet(input: unknown): Promise<GmMissionSet> {
+  const set = validateMissionSet(input);
+  const sets = await getMissionSets();
+  const next = [...sets.filter((s) => s.id !== set.id), set].sort((a, b) => a.id.localeCompare(b.id));
+  if (!(await redisSetJSON(keys.missionSets, next))) {
+    throw new MissionSetError('Failed to save mission set', 503);
   }
+  return set;
+}
+
+export async function deleteMissionSet(id: string): Promise<boolean> {
+  const sets = await getMissionSets();
+  const next = sets.filter((s) => s.id !== id);
+  if (next.length === sets.length) return false;
+  if (!(await redisSetJSON(keys.missionSets, next))) {
+    throw new MissionSetError('Failed to delete mission set', 503);
+  }
+  return true;
+}
+
+export async function getActiveMissionSets(day?: GmDay): Promise<{ daily: GmMissionSet; weekly: GmMissionSet | null }> {
+  const d = day || getTodayDateString();
+  const sets = await getMissionSets();
+  return {
+    daily: selectActiveSet(sets, 'daily', d) ?? CLASSIC_MISSION_SET,
+    weekly: selectActiveSet(sets, 'weekly', d),
+  };
+}
+
+/**
+ * Definition of a task in today's daily or this week's weekly set. When both sets have it,
+ * the one requiring a proof wins so a proof-free daily task can't credit a verified weekly one.
+ */
+export async function findActiveTask(taskId: GmTaskId, day?: GmDay): Promise<GmTaskDefinition | null> {
+  const { daily, weekly } = await getActiveMissionSets(day);
+  const matches = [daily, weekly].flatMap((set) => set?.tasks.filter((t) => t.id === taskId) ?? []);
+  return matches.find((t) => t.verifier) ?? matches[0] ?? null;
+}
+
+/**
+ * Start (UTC ms) of the shortest active period that counts `taskId`: today when the daily set
+ * has it, otherwise this week. Proof transactions mined before it can't credit the task.
+ */
+export async function getTaskPeriodStart(taskId: GmTaskId, day?: GmDay): Promise<number> {
+  const d = day || getTodayDateString();
+  const { daily } = await getActiveMissionSets(d);
+  const period = daily.tasks.some((t) => t.id === taskId) ? d : weekStartOf(d);
+  return Date.parse(`${period}T00:00:00Z`);
+}
+
+// A period keeps the set it started with, so editing or rotating sets never rewrites progress mid-period
+async function resolveMissionSet(stored: any, fallback: GmMissionSet): Promise<GmMissionSet> {
+  const setId = stored ? (typeof stored.setId === 'string' ? stored.setId : CLASSIC_MISSION_SET_ID) : fallback.id;
+  if (setId === fallback.id) return fallback;
+  if (setId === CLASSIC_MISSION_SET_ID) return CLASSIC_MISSION_SET;
+  return (await getMissionSets()).find((s) => s.id === setId) ?? fallback;
 }
 
 export async function getStreak(address: string): Promise<GmStreak> {
@@ -133,32 +196,120 @@ export async function getStreak(address: string): Promise<GmStreak> {
   return { current: 0, best: 0, lastActive: '' };
 }
 
-/**
- * Normalize a streak on read: if the user has missed at least one full UTC day
- * since lastActive, their current streak should be 0 while preserving best.
- * This persists the normalized value so subsequent reads are consistent.
- */
-export async function normalizeStreakIfMissed(address: string, s: GmStreak): Promise<GmStreak> {
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A freeze must be paid for by a transaction from the last hour
+const STREAK_PAYMENT_MAX_AGE_MS = 60 * 60 * 1000;
+
+function shiftDay(day: GmDay, days: number): GmDay {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: GmDay, to: GmDay) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+async function recordStreakEvents(address: string, events: GmStreakEvent[]): Promise<void> {
+  if (!redis || events.length === 0) return;
   try {
-    const day = getTodayDateString();
-    if (!s?.lastActive || s.lastActive === day) return s;
+    const key = withPrefix(keys.streakHistory(address));
+    await (redis as any).lpush(key, ...events.map((e) => JSON.stringify(e)));
+    await (redis as any).ltrim(key, 0, STREAK_HISTORY_LIMIT - 1);
+  } catch (error) {
+    console.warn('Failed to record streak history:', error);
+  }
+}
 
-    const yesterday = new Date(day);
-    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-    const ystr = yesterday.toISOString().slice(0, 10);
+/** Most recent streak events first: freezes used/earned/bought, breaks, repairs and milestones. */
+export async function getStreakHistory(address: string, limit: number = 20): Promise<GmStreakEvent[]> {
+  if (!redis) return [];
+  const raw = (await (redis as any).lrange(withPrefix(keys.streakHistory(address)), 0, Math.max(0, limit - 1))) || [];
+  return (raw as any[])
+    .map((entry) => {
+      if (typeof entry !== 'string') return entry as GmStreakEvent;
+      try {
+        return JSON.parse(entry) as GmStreakEvent;
+      } catch {
+        return null;
+      }
+    })
+    .filter((e): e is GmStreakEvent => !!e && typeof e.type === 'string');
+}
+
+/**
+ * Settle the days missed since lastActive. Each missed day spends a freeze while there are
+ * enough to cover the whole gap; otherwise the streak breaks (freezes are kept). A break after
+ * a single missed day stays repairable until 24h after the missed day ended.
+ */
+function settleMissedDays(s: GmStreak, today: GmDay): { streak: GmStreak; events: GmStreakEvent[] } {
+  const now = Date.now();
+  let streak = s;
+  if (streak.repairable && streak.repairable.until <= now) {
+    streak = { ...streak, repairable: null };
+  }
+  if (!streak.lastActive || !streak.current) return { streak, events: [] };
+
+  const missed = daysBetween(streak.lastActive, today) - 1;
+  if (missed <= 0) return { streak, events: [] };
+
+  const freezes = streak.freezes || 0;
+  if (freezes >= missed) {
+    const events: GmStreakEvent[] = Array.from({ length: missed }, (_, i) => ({
+      type: 'freeze_used',
+      day: shiftDay(streak.lastActive as GmDay, i + 1),
+      at: now,
+      streak: streak.current,
+    }));
+    return { streak: { ...streak, freezes: freezes - missed, lastActive: shiftDay(today, -1) }, events };
+  }
 
-    const missed = s.lastActive !== ystr; // not yesterday → at least one day gap
-    if (!missed) return s;
+  const brokeAt = Date.parse(`${shiftDay(streak.lastActive, 2)}T00:00:00Z`);
+  const repairable: GmStreakRepair | null = missed === 1 && brokeAt + DAY_MS > now
+    ? { streak: streak.current, lastActive: streak.lastActive, runStartedOn: streak.runStartedOn, until: brokeAt + DAY_MS }
+    : null;
+  return {
+    streak: { current: 0, best: streak.best || 0, lastActive: streak.lastActive, freezes, repairable },
+    events: [{ type: 'broken', day: shiftDay(streak.lastActive, 1), at: now, streak: 0, detail: String(streak.current) }],
+  };
+}
 
-    const updated: GmStreak = { current: 0, best: s.best || 0, lastActive: s.lastActive };
-    await redisSetJSON(keys.streak(address), updated);
-    return updated;
+/**
+ * Normalize a streak on read: spend freezes on missed UTC days, or reset `current` to 0
+ * (keeping best) when there aren't enough. Persists the result so reads stay consistent.
+ */
+export async function normalizeStreakIfMissed(address: string, s: GmStreak): Promise<GmStreak> {
+  try {
+    const { streak, events } = settleMissedDays(s, getTodayDateString());
+    if (streak === s) return s;
+    await redisSetJSON(keys.streak(address), streak);
+    await recordStreakEvents(address, events);
+    return streak;
   } catch (error) {
     console.warn('Failed to normalize streak:', error);
     return s; // Return original on error
   }
 }
 
+// Queue the reward for a milestone the streak just reached, once per run
+async function maybeRewardMilestone(address: string, s: GmStreak, day: GmDay): Promise<GmStreakEvent | null> {
+  const milestone = getStreakRewardConfig().milestones.find((m) => m.days === s.current);
+  if (!milestone || !redis) return null;
+  if (!(await isStreakRewardEligible(address))) {
+    return { type: 'milestone', day, at: Date.now(), streak: s.current, detail: 'Rewards need a living plant or a land' };
+  }
+  const runStartedOn = s.runStartedOn || shiftDay(day, 1 - s.current);
+  const claimed = await redis.set(withPrefix(keys.idemp(address, `streak-${milestone.days}-${runStartedOn}`)), '1', { nx: true });
+  if (!claimed) return null;
+  const payout = await enqueueStreakPayout(address, milestone, runStartedOn);
+  return {
+    type: 'milestone',
+    day,
+    at: Date.now(),
+    streak: s.current,
+    detail: payout ? `${milestone.seed} SEED${Number(milestone.leaf) > 0 ? ` + ${milestone.leaf} LEAF` : ''}` : undefined,
+  };
+}
+
 export async function trackDailyActivity(address: string): Promise<GmStreak> {
   if (isGamificationDisabled()) {
     return getStreak(address);
@@ -166,19 +317,35 @@ export async function trackDailyActivity(address: string): Promise<GmStreak> {
 
   const day = getTodayDateString();
   const k = keys.streak(address);
-  const s = (await redisGetJSON<GmStreak>(k)) || { current: 0, best: 0, lastActive: '' };
-  if (s.lastActive === day) return s; // already counted today
-
-  // Determine if consecutive (yesterday)
-  const yesterday = new Date(day);
-  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-  const ystr = yesterday.toISOString().slice(0, 10);
+  const stored = (await redisGetJSON<GmStreak>(k)) || { current: 0, best: 0, lastActive: '' };
+  const { streak: s, events } = settleMissedDays(stored, day);
+  if (s.lastActive === day) {
+    if (s !== stored) {
+      await redisSetJSON(k, s);
+      await recordStreakEvents(address, events);
+    }
+    return s; // already counted today
+  }
 
-  const consecutive = s.lastActive === ystr;
+  // Consecutive if yesterday was active (or covered by freezes just now)
+  const consecutive = s.current > 0 && s.lastActive === shiftDay(day, -1);
   const current = consecutive ? (s.current || 0) + 1 : 1;
   const best = Math.max(s.best || 0, current);
-  const updated: GmStreak = { current, best, lastActive: day };
+  const updated: GmStreak = {
+    ...s,
+    current,
+    best,
+    lastActive: day,
+    runStartedOn: consecutive ? s.runStartedOn || shiftDay(day, 1 - current) : day,
+  };
   await redisSetJSON(k, updated);
+
+  const milestone = await maybeRewardMilestone(address, updated, day).catch((error) => {
+    console.warn('Failed to queue streak milestone reward:', error);
+    return null;
+  });
+  await recordStreakEvents(address, milestone ? [...events, milestone] : events);
+
   // Add to activity set for analytics (best-effort, non-blocking)
   Promise.resolve().then(async () => {
     try {
@@ -191,6 +358,7 @@ export async function trackDailyActivity(address: string): Promise<GmStreak> {
   Promise.resolve().then(async () => {
     try {
       await (redis as any)?.zadd?.(withPrefix(keys.streakLeaderboard(toMonth(day))), { score: current, member: address.toLowerCase() });
+      await recordSeasonStreak(address, day, current);
     } catch (error) {
       console.warn('Failed to update streak leaderboard:', error);
     }
@@ -198,70 +366,156 @@ export async function trackDailyActivity(address: string): Promise<GmStreak> {
   return updated;
 }
 
-export async function getMissionDay(address: string, day?: GmDay): Promise<GmMissionDay> {
-  const d = day || getTodayDateString();
-  const k = keys.missions(address, d);
-  const data = await redisGetJSON<GmMissionDay>(k);
-  if (data) return hydrateMissionDay(data, d);
-  const init = createInitialMissionDay(d);
-  await redisSetJSON(k, init);
-  return init;
+export class StreakActionError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'StreakActionError';
+    this.status = status;
+  }
 }
 
-function sectionCompleteS1(s1: GmMissionDay['s1']): boolean {
-  return s1.makeSwap && s1.stakeSeed && s1.claimStake && s1.placeOrder;
+async function addStreakFreeze(address: string, event: GmStreakEvent['type'], txHash?: string): Promise<GmStreak> {
+  const { maxFreezes } = getStreakRewardConfig();
+  const s = await normalizeStreakIfMissed(address, await getStreak(address));
+  if ((s.freezes || 0) >= maxFreezes) {
+    throw new StreakActionError(`You already hold the maximum of ${maxFreezes} streak freezes`, 409);
+  }
+  const updated: GmStreak = { ...s, freezes: (s.freezes || 0) + 1 };
+  await redisSetJSON(keys.streak(address), updated);
+  await recordStreakEvents(address, [{ type: event, day: getTodayDateString(), at: Date.now(), streak: updated.current, txHash }]);
+  return updated;
 }
-function sectionCompleteS2(s2: GmMissionDay['s2']): boolean {
-  return s2.followPlayer && s2.chatMessage && s2.visitProfile;
+
+/** Buy a streak freeze with a SEED payment transaction. */
+export async function buyStreakFreeze(address: string, txHash: Hex): Promise<GmStreak> {
+  const { freezePriceSeed, paymentAddress, maxFreezes } = getStreakRewardConfig();
+  const current = await getStreak(address);
+  if ((current.freezes || 0) >= maxFreezes) {
+    throw new StreakActionError(`You already hold the maximum of ${maxFreezes} streak freezes`, 409);
+  }
+  await claimStreakPayment(address, txHash, freezePriceSeed, paymentAddress, 'streak_freeze', Date.now() - STREAK_PAYMENT_MAX_AGE_MS);
+  try {
+    return await addStreakFreeze(address, 'freeze_bought', txHash);
+  } catch (error) {
+    // A concurrent purchase may have hit the cap since the check above; the payment stays usable
+    await releaseProofHash(txHash).catch((releaseError) => console.warn('Failed to release freeze payment:', releaseError));
+    throw error;
+  }
+}
+
+/** Restore a streak that broke after one missed day, within 24h of the break, for SEED. */
+export async function repairStreak(address: string, txHash: Hex): Promise<GmStreak> {
+  const { repairPriceSeed, paymentAddress } = getStreakRewardConfig();
+  const today = getTodayDateString();
+  const s = await normalizeStreakIfMissed(address, await getStreak(address));
+  const repair = s.repairable;
+  if (!repair || repair.until <= Date.now()) {
+    throw new StreakActionError('There is no streak to repair', 409);
+  }
+  // Only a payment made after the streak broke can repair it
+  await claimStreakPayment(address, txHash, repairPriceSeed, paymentAddress, 'streak_repair', repair.until - DAY_MS);
+
+  // Bridge the missed day; activity already counted today extends the restored run
+  const activeToday = s.lastActive === today;
+  const current = repair.streak + (activeToday ? 1 : 0);
+  const updated: GmStreak = {
+    ...s,
+    current,
+    best: Math.max(s.best || 0, current),
+    lastActive: activeToday ? today : shiftDay(today, -1),
+    runStartedOn: repair.runStartedOn || shiftDay(repair.lastActive, 1 - repair.streak),
+    repairable: null,
+  };
+  if (!(await redisSetJSON(keys.streak(address), updated))) {
+    await releaseProofHash(txHash).catch((releaseError) => console.warn('Failed to release repair payment:', releaseError));
+    throw new StreakActionError('Could not save the repaired streak, try again shortly', 503);
+  }
+  await recordStreakEvents(address, [{ type: 'repaired', day: shiftDay(repair.lastActive, 1), at: Date.now(), streak: current, txHash }]);
+  await recordSeasonStreak(address, today, current).catch((error) => console.warn('Failed to update season streak:', error));
+  return updated;
 }
-function sectionCompleteS3(s3: GmMissionDay['s3']): boolean {
-  return s3.applyResources && s3.sendQuest && s3.claimProduction && s3.playCasinoGame;
+
+async function claimStreakPayment(address: string, txHash: Hex, priceSeed: string, receiver: string, purpose: string, notBefore: number): Promise<void> {
+  let paid = false;
+  try {
+    paid = await verifySeedPayment(address, txHash, receiver, parseUnits(priceSeed, 18), notBefore);
+  } catch (error) {
+    console.warn(`Failed to verify ${purpose} payment:`, error);
+    throw new StreakActionError('Could not verify the payment, try again shortly', 503);
+  }
+  if (!paid) {
+    throw new StreakActionError(`No recent payment of ${priceSeed} SEED was found in that transaction`, 403);
+  }
+  if (!(await claimProofHash(txHash, purpose, address))) {
+    throw new StreakActionError('That payment was already used', 409);
+  }
 }
-function sectionCompleteS4(s4: GmMissionDay['s4']): boolean {
-  return s4.buy10 && s4.buyShield && s4.collectStar && s4.playArcade;
+
+function missionKey(address: string, track: GmTrack, day: GmDay): string {
+  return track === 'weekly' ? keys.weeklyMissions(address, weekStartOf(day)) : keys.missions(address, day);
 }
 
-function awardPoints(m: GmMissionDay): number {
-  let award = 0;
-  if (!m.s1.done && sectionCompleteS1(m.s1)) { m.s1.done = true; award += 30; }
-  if (!m.s2.done && sectionCompleteS2(m.s2)) { m.s2.done = true; award += 20; }
-  if (!m.s3.done && sectionCompleteS3(m.s3)) { m.s3.done = true; award += 25; }
-  if (!m.s4.done && sectionCompleteS4(m.s4)) { m.s4.done = true; award += 25; }
-  const before = m.pts;
-  m.pts = Math.min(100, m.pts + award);
-  if (m.pts === 100 && !m.completedAt) m.completedAt = Date.now();
-  return m.pts - before;
+async function loadMission(address: string, track: GmTrack, day: GmDay, activeSet: GmMissionSet) {
+  const period = track === 'weekly' ? weekStartOf(day) : day;
+  const data = await redisGetJSON<any>(missionKey(address, track, day));
+  const set = await resolveMissionSet(data, activeSet);
+  return { set, mission: hydrateMissionDay(data, period, set) };
 }
 
-export async function markMissionTask(address: string, taskId: GmTaskId, proof?: GmProgressProof, count: number = 1): Promise<GmMissionDay> {
-  const d = getTodayDateString();
-  if (isGamificationDisabled()) {
-    const existing = await redisGetJSON<GmMissionDay>(keys.missions(address, d));
-    return hydrateMissionDay(existing, d);
-  }
+export async function getMissionDay(address: string, day?: GmDay): Promise<GmMissionDay> {
+  const d = day || getTodayDateString();
+  const { daily } = await getActiveMissionSets(d);
+  return (await loadMission(address, 'daily', d, daily)).mission;
+}
 
-  const k = keys.missions(address, d);
-  const safeCount = Number.isFinite(count) && count > 0 ? Math.min(1000, Math.floor(count)) : 1;
+/** Today's daily and this week's weekly progress, each with the set definition it follows. */
+export async function getMissionOverview(address: string, day?: GmDay): Promise<{
+  day: GmMissionDay;
+  set: GmMissionSet;
+  weekly: GmMissionDay | null;
+  weeklySet: GmMissionSet | null;
+}> {
+  const d = day || getTodayDateString();
+  const active = await getActiveMissionSets(d);
+  const [daily, weekly] = await Promise.all([
+    loadMission(address, 'daily', d, active.daily),
+    active.weekly ? loadMission(address, 'weekly', d, active.weekly) : Promise.resolve(null),
+  ]);
+  return { day: daily.mission, set: daily.set, weekly: weekly?.mission ?? null, weeklySet: weekly?.set ?? null };
+}
+
+function creditMissionLeaderboard(address: string, day: GmDay, gained: number): void {
+  if (gained <= 0) return;
+  Promise.resolve().then(async () => {
+    try {
+      await (redis as any)?.zincrby?.(withPrefix(keys.missionsLeaderboard(toMonth(day))), gained, address.toLowerCase());
+      await recordSeasonMissionPoints(address, day, gained);
+    } catch (error) {
+      console.warn('Failed to update missions leaderboard:', error);
+    }
+  });
+}
+
+async function updateMission(
+  address: string,
+  track: GmTrack,
+  day: GmDay,
+  activeSet: GmMissionSet,
+  taskId: GmTaskId,
+  count: number,
+): Promise<{ mission: GmMissionDay; gained: number; applied: boolean; completed: boolean }> {
+  const k = missionKey(address, track, day);
+  const period = track === 'weekly' ? weekStartOf(day) : day;
   const redisClient = redis;
 
   if (!redisClient) {
-    const fallback = await getMissionDay(address, d);
-    applyMissionTaskProgress(fallback, taskId, safeCount);
-    const awarded = awardPoints(fallback);
-    await redisSetJSON(k, fallback);
-    if (proof && (proof.txHash || proof.meta)) {
-      await redisSetJSON(keys.proof(address, d, taskId), proof);
-    }
-    if (awarded > 0) {
-      Promise.resolve().then(async () => {
-        try {
-          await (redis as any)?.zincrby?.(withPrefix(keys.missionsLeaderboard(toMonth(d))), awarded, address.toLowerCase());
-        } catch (error) {
-          console.warn('Failed to update missions leaderboard:', error);
-        }
-      });
-    }
-    return fallback;
+    const { set, mission } = await loadMission(address, track, day, activeSet);
+    if (!set.tasks.some((t) => t.id === taskId)) return { mission, gained: 0, applied: false, completed: false };
+    const wasCompleted = !!mission.completedAt;
+    const gained = applyTaskProgress(mission, set, taskId, count);
+    await redisSetJSON(k, mission);
+    return { mission, gained, applied: true, completed: !wasCompleted && !!mission.completedAt };
   }
 
   const prefixedKey = withPrefix(k);
@@ -288,31 +542,20 @@ export async function markMissionTask(address: string, taskId: GmTaskId, proof?:
         }
       }
 
-      const mission = hydrateMissionDay(parsed, d);
-      applyMissionTaskProgress(mission, taskId, safeCount);
-      const gained = awardPoints(mission);
+      const set = await resolveMissionSet(parsed, activeSet);
+      const mission = hydrateMissionDay(parsed, period, set);
+      if (!set.tasks.some((t) => t.id === taskId)) {
+        return { mission, gained: 0, applied: false, completed: false };
+      }
+      const wasCompleted = !!mission.completedAt;
+      const gained = applyTaskProgress(mission, set, taskId, count);
       const nextRaw = JSON.stringify(mission);
 
       const setSuccess = await redisCompareAndSetJSON(k, typeof raw === 'string' ? raw : null, nextRaw);
       if (!setSuccess) {
         continue;
       }
-
-      if (proof && (proof.txHash || proof.meta)) {
-        await redisSetJSON(keys.proof(address, d, taskId), proof);
-      }
-
-      if (gained > 0) {
-        Promise.resolve().then(async () => {
-          try {
-            await (redis as any)?.zincrby?.(withPrefix(keys.missionsLeaderboard(toMonth(d))), gained, address.toLowerCase());
-          } catch (error) {
-            console.warn('Failed to update missions leaderboard:', error);
-          }
-        });
-      }
-
-      return mission;
+      return { mission, gained, applied: true, completed: !wasCompleted && !!mission.completedAt };
     } catch (error) {
       lastError = error;
     }
@@ -321,6 +564,38 @@ export async function markMissionTask(address: string, taskId: GmTaskId, proof?:
   throw new Error(`Failed to update mission progress after retries${lastError ? `: ${String(lastError)}` : ''}`);
 }
 
+/**
+ * Record progress on a task in today's daily set and, when it has the task too, this week's
+ * weekly set. Tasks outside both sets are ignored. Returns the daily progress.
+ */
+export async function markMissionTask(address: string, taskId: GmTaskId, proof?: GmProgressProof, count: number = 1): Promise<GmMissionDay> {
+  const d = getTodayDateString();
+  const active = await getActiveMissionSets(d);
+  if (isGamificationDisabled()) {
+    return (await loadMission(address, 'daily', d, active.daily)).mission;
+  }
+
+  const safeCount = Number.isFinite(count) && count > 0 ? Math.min(1000, Math.floor(count)) : 1;
+  const [daily, weekly] = await Promise.all([
+    updateMission(address, 'daily', d, active.daily, taskId, safeCount),
+    active.weekly ? updateMission(address, 'weekly', d, active.weekly, taskId, safeCount) : Promise.resolve(null),
+  ]);
+
+  if ((daily.applied || weekly?.applied) && proof && (proof.txHash || proof.meta)) {
+    await redisSetJSON(keys.proof(address, d, taskId), proof);
+  }
+  creditMissionLeaderboard(address, d, daily.gained + (weekly?.gained ?? 0));
+
+  // Finishing the whole daily set earns a streak freeze (ignored once at the cap)
+  if (daily.completed) {
+    await addStreakFreeze(address, 'freeze_earned').catch((error) => {
+      if (!(error instanceof StreakActionError)) console.warn('Failed to grant streak freeze:', error);
+    });
+  }
+
+  return daily.mission;
+}
+
 async function getCombinedMissionLeaderboard(limit: number = 50): Promise<GmLeaderEntry[]> {
   if (!redis) return [];
   const totals = new Map<string, number>();
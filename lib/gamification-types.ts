@@ -1,6 +1,9 @@
 export type GmDay = string; // YYYY-MM-DD UTC
 
-export type GmTaskId =
+/** Task ids come from mission set definitions; the built-in "classic" set uses the ids below. */
+export type GmTaskId = string;
+
+export type GmBuiltinTaskId =
   | 's1_make_swap'
   | 's1_stake_seed'
   | 's1_claim_stake'
@@ -17,39 +20,63 @@ export type GmTaskId =
   | 's4_collect_star'
   | 's4_play_arcade';
 
-export type GmSectionKey = 's1' | 's2' | 's3' | 's4';
+/** On-chain proof checks a task can require (see lib/mission-proofs.ts). */
+export type GmProofVerifierId =
+  | 'swap_into_seed'
+  | 'stake_seed'
+  | 'claim_stake_rewards'
+  | 'create_market_order'
+  | 'apply_warehouse'
+  | 'start_quest'
+  | 'claim_production'
+  | 'casino_game'
+  | 'buy_garden_items'
+  | 'buy_shield'
+  | 'kill_plant'
+  | 'play_arcade';
+
+export type GmTrack = 'daily' | 'weekly';
+
+export type GmSectionKey = string;
+
+export type GmSectionDefinition = {
+  key: GmSectionKey;
+  title: string;
+  /** Awarded once every task in the section is complete */
+  points: number;
+};
+
+export type GmTaskDefinition = {
+  id: GmTaskId;
+  section: GmSectionKey;
+  label: string;
+  /** Awarded when the task itself completes, on top of the section award */
+  points: number;
+  requiredCount: number;
+  verifier: GmProofVerifierId | null;
+};
 
+export type GmMissionSet = {
+  id: string;
+  track: GmTrack;
+  title: string;
+  sections: GmSectionDefinition[];
+  tasks: GmTaskDefinition[];
+  /** Inclusive UTC day range the set is active in; open-ended when null */
+  startsOn: GmDay | null;
+  endsOn: GmDay | null;
+  updatedAt: number;
+};
+
+/** Progress on one mission set for one period (a day, or the Monday a week starts on). */
 export type GmMissionDay = {
   date: GmDay;
-  s1: {
-    makeSwap: boolean;
-    stakeSeed: boolean;
-    claimStake: boolean;
-    placeOrder: boolean;
-    done: boolean;
-  };
-  s2: {
-    followPlayer: boolean;
-    chatMessage: boolean;
-    visitProfile: boolean;
-    done: boolean;
-  };
-  s3: {
-    applyResources: boolean;
-    sendQuest: boolean;
-    claimProduction: boolean;
-    playCasinoGame: boolean;
-    done: boolean;
-  };
-  s4: {
-    buy10: boolean;
-    buyElementsCount: number;
-    buyShield: boolean;
-    collectStar: boolean;
-    playArcade: boolean;
-    done: boolean;
-  };
-  pts: number; // 0..100
+  track: GmTrack;
+  setId: string;
+  /** Count recorded per task id */
+  progress: Record<GmTaskId, number>;
+  sectionsDone: Record<GmSectionKey, boolean>;
+  pts: number;
   completedAt?: number;
 };
 
@@ -57,6 +84,65 @@ export type GmStreak = {
   current: number;
   best: number;
   lastActive: GmDay | '';
+  /** Streak freezes held; one is spent automatically for each missed day */
+  freezes?: number;
+  /** First day of the current run; milestone rewards are paid once per run */
+  runStartedOn?: GmDay;
+  /** A streak that broke after a single missed day and can still be repaired for SEED */
+  repairable?: GmStreakRepair | null;
+};
+
+export type GmStreakRepair = {
+  streak: number;
+  lastActive: GmDay;
+  runStartedOn?: GmDay;
+  /** Epoch ms; 24h after the streak broke (end of the missed day) */
+  until: number;
+};
+
+export type GmStreakEventType = 'freeze_used' | 'freeze_earned' | 'freeze_bought' | 'broken' | 'repaired' | 'milestone';
+
+export type GmStreakEvent = {
+  type: GmStreakEventType;
+  /** UTC day the event applies to (the missed day for freeze_used) */
+  day: GmDay;
+  at: number;
+  /** Streak length after the event */
+  streak: number;
+  txHash?: string;
+  detail?: string;
+};
+
+export type GmStreakMilestone = {
+  days: number;
+  /** Decimal token amounts */
+  seed: string;
+  leaf: string;
+};
+
+export type GmStreakRewardConfig = {
+  milestones: GmStreakMilestone[];
+  freezePriceSeed: string;
+  repairPriceSeed: string;
+  maxFreezes: number;
+  /** Where freeze and repair payments are sent (SEED is burned by default) */
+  paymentAddress: string;
+};
+
+export type GmStreakPayout = {
+  id: string;
+  address: string;
+  milestone: number;
+  seed: string;
+  leaf: string;
+  /** sending: submitted (or about to be) and awaiting confirmation; never re-sent blindly */
+  status: 'queued' | 'sending' | 'sent' | 'failed';
+  attempts: number;
+  createdAt: number;
+  sentAt?: number;
+  userOpHash?: string;
+  txHash?: string;
+  error?: string;
 };
 
 export type GmProgressProof = {
@@ -66,3 +152,68 @@ export type GmProgressProof = {
 
 export type GmLeaderEntry = { address: string; value: number };
 
+
+export type GmSeasonBoard = 'missions' | 'streaks' | 'plants' | 'lands' | 'stake';
+
+export type GmSeasonPrize = {
+  board: GmSeasonBoard;
+  /** Inclusive rank range, 1-based */
+  fromRank: number;
+  toRank: number;
+  /** Decimal token amounts per rank in the range */
+  seed: string;
+  leaf: string;
+};
+
+export type GmSeason = {
+  id: string;
+  title: string;
+  /** Inclusive UTC day range */
+  startsOn: GmDay;
+  endsOn: GmDay;
+  prizes: GmSeasonPrize[];
+  updatedAt: number;
+  /** Set once the final standings have been snapshotted */
+  finalizedAt?: number | null;
+};
+
+export type GmSeasonPhase = 'scheduled' | 'active' | 'ended' | 'finalized';
+
+export type GmSeasonStanding = {
+  rank: number;
+  /** Wallet the standing (and any prize) belongs to */
+  address: string;
+  value: number;
+  /** Plant or land name where the board ranks tokens */
+  label?: string;
+  tokenId?: number;
+};
+
+export type GmSeasonSnapshot = {
+  seasonId: string;
+  takenAt: number;
+  boards: Record<GmSeasonBoard, GmSeasonStanding[]>;
+};
+
+export type GmSeasonPayoutEntry = {
+  board: GmSeasonBoard;
+  rank: number;
+  address: string;
+  seed: string;
+  leaf: string;
+  /** sending: submitted in a user operation that hasn't been confirmed; approval never re-sends it */
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  userOpHash?: string;
+  txHash?: string;
+  error?: string;
+};
+
+export type GmSeasonDistribution = {
+  seasonId: string;
+  createdAt: number;
+  /** draft: awaiting review; approved: the payout job may send pending entries */
+  status: 'draft' | 'approved' | 'completed';
+  approvedAt?: number;
+  totals: { seed: string; leaf: string };
+  entries: GmSeasonPayoutEntry[];
+};
@@ -0,0 +1,247 @@
+import { redisGetJSON, redisSetJSON } from './redis';
+import { KNOWLEDGE_BASE } from './ai-context';
+import type { KnowledgeChunk, KnowledgeCitation } from './types';
+
+/**
+ * Neural Seed's knowledge base as retrievable chunks. The shipped guide in ai-context is split
+ * into built-in chunks by heading; admins add chunks or override built-in ones by id, and
+ * each question only gets the pinned chunks plus the best BM25 matches.
+ */
+
+const KEYS = {
+  chunks: 'pixotchi:ai:knowledge:chunks',
+};
+
+const ID_RE = /^[a-z0-9][a-z0-9_-]{1,63}$/;
+const MAX_CONTENT_LENGTH = 8000;
+const DEFAULT_RETRIEVE_LIMIT = 4;
+
+// Intro notes and the "what I can't verify" guardrails go with every question
+const PINNED_BUILTIN_IDS = new Set(['overview', 'section-9-known-limitations-deferral-points']);
+
+export class KnowledgeBaseError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'KnowledgeBaseError';
+    this.status = status;
+  }
+}
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+
+const stripSeparators = (text: string) => text.replace(/^\s*---\s*$/gm, '').trim();
+
+/** Split the static guide at `##` headings, and sections with `###` subsections at those too. */
+function splitBuiltinGuide(guide: string): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  const add = (id: string, title: string, content: string) => {
+    const body = stripSeparators(content);
+    if (!body) return;
+    chunks.push({
+      id,
+      title,
+      content: body,
+      source: 'builtin',
+      version: 1,
+      tags: [],
+      pinned: PINNED_BUILTIN_IDS.has(id),
+      updatedAt: 0,
+    });
+  };
+
+  const [intro, ...sections] = guide.split(/^## /m);
+  add('overview', 'Overview', intro.replace(/^# .*$/m, ''));
+
+  for (const section of sections) {
+    const newline = section.indexOf('\n');
+    const heading = section.slice(0, newline).trim();
+    // Subsection ids keep only the "SECTION n" part of the heading so they stay short
+    const sectionKey = slugify(heading.split(':')[0]);
+    const [lead, ...subsections] = section.slice(newline + 1).split(/^### /m);
+    add(slugify(heading), heading, lead);
+    for (const sub of subsections) {
+      const subNewline = sub.indexOf('\n');
+      const subHeading = sub.slice(0, subNewline).trim();
+      add(`${sectionKey}-${slugify(subHeading)}`, `${heading} › ${subHeading}`, sub.slice(subNewline + 1));
+    }
+  }
+  return chunks;
+}
+
+export const BUILTIN_KNOWLEDGE_CHUNKS: KnowledgeChunk[] = splitBuiltinGuide(KNOWLEDGE_BASE);
+
+async function getStoredChunks(): Promise<KnowledgeChunk[]> {
+  const chunks = await redisGetJSON<KnowledgeChunk[]>(KEYS.chunks);
+  return Array.isArray(chunks) ? chunks : [];
+}
+
+/** Built-in chunks with admin overrides applied, followed by admin-only chunks. */
+export async function getKnowledgeChunks(): Promise<Array<KnowledgeChunk & { overridesBuiltin: boolean }>> {
+  const stored = await getStoredChunks();
+  const byId = new Map(stored.map((c) => [c.id, c]));
+  const builtinIds = new Set(BUILTIN_KNOWLEDGE_CHUNKS.map((c) => c.id));
+  return [
+    ...BUILTIN_KNOWLEDGE_CHUNKS.map((c) => ({ ...(byId.get(c.id) ?? c), overridesBuiltin: byId.has(c.id) })),
+    ...stored.filter((c) => !builtinIds.has(c.id)).map((c) => ({ ...c, overridesBuiltin: false })),
+  ];
+}
+
+/** Normalize an admin-submitted chunk, throwing KnowledgeBaseError on anything unusable. */
+function validateChunk(input: any): Pick<KnowledgeChunk, 'id' | 'title' | 'content' | 'source' | 'tags' | 'pinned'> {
+  const title = typeof input?.title === 'string' ? input.title.trim().slice(0, 120) : '';
+  if (!title) throw new KnowledgeBaseError('A chunk needs a title');
+  const id = typeof input?.id === 'string' && input.id.trim() ? input.id.trim() : slugify(title);
+  if (!ID_RE.test(id)) throw new KnowledgeBaseError('Chunk id must be 2-64 lowercase letters, digits, "-" or "_"');
+  const content = typeof input?.content === 'string' ? input.content.trim() : '';
+  if (!content) throw new KnowledgeBaseError('A chunk needs content');
+  if (content.length > MAX_CONTENT_LENGTH) {
+    throw new KnowledgeBaseError(`Content is limited to ${MAX_CONTENT_LENGTH} characters; split it into several chunks`);
+  }
+  const tags: string[] = Array.isArray(input?.tags)
+    ? input.tags.filter((t: unknown): t is string => typeof t === 'string' && !!t.trim()).map((t: string) => t.trim().toLowerCase().slice(0, 32)).slice(0, 12)
+    : [];
+  const source = typeof input?.source === 'string' && input.source.trim() ? input.source.trim().slice(0, 120) : 'admin';
+  return { id, title, content, source, tags, pinned: input?.pinned === true };
+}
+
+/** Create a chunk or replace the one with the same id (built-in ones included), bumping its version. */
+export async function saveKnowledgeChunk(input: unknown): Promise<KnowledgeChunk> {
+  const fields = validateChunk(input);
+  const current = (await getKnowledgeChunks()).find((c) => c.id === fields.id);
+  const chunk: KnowledgeChunk = { ...fields, version: (current?.version ?? 0) + 1, updatedAt: Date.now() };
+
+  const stored = await getStoredChunks();
+  const next = [...stored.filter((c) => c.id !== chunk.id), chunk].sort((a, b) => a.id.localeCompare(b.id));
+  if (!(await redisSetJSON(KEYS.chunks, next))) {
+    throw new KnowledgeBaseError('Failed to save knowledge chunk', 503);
+  }
+  return chunk;
+}
+
+/** Delete an admin chunk; for a built-in id this drops the override and restores the shipped text. */
+export async function deleteKnowledgeChunk(id: string): Promise<boolean> {
+  const stored = await getStoredChunks();
+  const next = stored.filter((c) => c.id !== id);
+  if (next.length === stored.length) return false;
+  if (!(await redisSetJSON(KEYS.chunks, next))) {
+    throw new KnowledgeBaseError('Failed to delete knowledge chunk', 503);
+  }
+  return true;
+}
+
+// ---- BM25 retrieval ----
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where', 'which', 'why', 'with', 'you', 'your',
+]);
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Titles and tags say what a chunk is about, so they count more than body text
+const TITLE_WEIGHT = 3;
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}$]+/gu) || [])
+    .map((t) => (t.length > 4 && t.endsWith('s') ? t.slice(0, -1) : t))
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+type Bm25Index = {
+  fingerprint: string;
+  docs: Array<{ chunk: KnowledgeChunk; terms: Map<string, number>; length: number }>;
+  docFreq: Map<string, number>;
+  avgLength: number;
+};
+
+let cachedIndex: Bm25Index | null = null;
+
+function buildIndex(chunks: KnowledgeChunk[]): Bm25Index {
+  const fingerprint = chunks.map((c) => `${c.id}@${c.version}:${c.updatedAt}`).join('|');
+  if (cachedIndex?.fingerprint === fingerprint) return cachedIndex;
+
+  const docFreq = new Map<string, number>();
+  const docs = chunks.map((chunk) => {
+    const terms = new Map<string, number>();
+    const heading = tokenize(`${chunk.title} ${chunk.tags.join(' ')}`);
+    const body = tokenize(chunk.content);
+    for (const t of heading) terms.set(t, (terms.get(t) || 0) + TITLE_WEIGHT);
+    for (const t of body) terms.set(t, (terms.get(t) || 0) + 1);
+    terms.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    return { chunk, terms, length: heading.length * TITLE_WEIGHT + body.length };
+  });
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+  cachedIndex = { fingerprint, docs, docFreq, avgLength };
+  return cachedIndex;
+}
+
+function rank(index: Bm25Index, query: string): Array<{ chunk: KnowledgeChunk; score: number }> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const n = index.docs.length;
+  return index.docs
+    .map(({ chunk, terms, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = terms.get(term);
+        if (!tf) continue;
+        const df = index.docFreq.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / index.avgLength)));
+      }
+      return { chunk, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Chunks to send with a question: every pinned chunk plus the `limit` best matches.
+ * Falls back to the built-in chunks when Redis is unavailable.
+ */
+export async function retrieveKnowledge(query: string, limit = DEFAULT_RETRIEVE_LIMIT): Promise<KnowledgeChunk[]> {
+  let chunks: KnowledgeChunk[];
+  try {
+    chunks = (await getKnowledgeChunks()).map(({ overridesBuiltin, ...chunk }) => chunk);
+  } catch (error) {
+    console.warn('[knowledge-base] Falling back to built-in chunks:', error);
+    chunks = BUILTIN_KNOWLEDGE_CHUNKS;
+  }
+  const pinned = chunks.filter((c) => c.pinned);
+  const matches = rank(buildIndex(chunks.filter((c) => !c.pinned)), query).slice(0, limit).map((r) => r.chunk);
+  return [...pinned, ...matches];
+}
+
+/** Admin preview of what a question would retrieve, with scores. */
+export async function previewKnowledgeRetrieval(query: string, limit = DEFAULT_RETRIEVE_LIMIT) {
+  const chunks = (await getKnowledgeChunks()).map(({ overridesBuiltin, ...chunk }) => chunk);
+  return {
+    pinned: chunks.filter((c) => c.pinned).map((c) => c.id),
+    matches: rank(buildIndex(chunks.filter((c) => !c.pinned)), query)
+      .slice(0, limit)
+      .map((r) => ({ id: r.chunk.id, title: r.chunk.title, score: Math.round(r.score * 100) / 100 })),
+  };
+}
+
+// ---- Citations ----
+
+const CITATION_RE = /\[kb:([a-z0-9_-]+)\]/g;
+const SOURCES_LINE_RE = /\n*\s*Sources?:\s*(\[kb:[a-z0-9_-]+\][\s,]*)+\s*$/i;
+
+/**
+ * Pull `[kb:<id>]` citations (the tags buildAIPrompt puts on each chunk) out of a reply. The trailing "Sources:" line is removed from the
+ * text; only ids that were actually retrieved for this question are kept.
+ */
+export function extractCitations(reply: string, retrieved: KnowledgeChunk[]): { text: string; sources: KnowledgeCitation[] } {
+  const ids = new Set(Array.from(reply.matchAll(CITATION_RE), (m) => m[1]));
+  const sources = retrieved
+    .filter((c) => ids.has(c.id))
+    .map(({ id, title, version, source }) => ({ id, title, version, source }));
+  const text = reply.replace(SOURCES_LINE_RE, '').replace(/[ \t]*\[kb:[a-z0-9_-]+\]/g, '').trim();
+  return { text, sources };
+}
@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { KVStore } from './kv-store';
+
+/**
+ * Behaviour every KVStore driver must share, written against the Upstash SDK's replies (see
+ * lib/kv-store.ts). Driver test files call this with a factory (only invoked when the suite
+ * runs); keys live under a random namespace that is cleared before each test, so it can run
+ * against a shared Redis.
+ */
+export function describeKVStoreContract(name: string, createStore: () => KVStore) {
+  describe(`${name} KVStore contract`, () => {
+    let store: KVStore;
+    const ns = `kv-contract:${Math.random().toString(36).slice(2)}:`;
+    const k = (key: string) => `${ns}${key}`;
+
+    async function clear() {
+      const keys = await store.keys(`${ns}*`);
+      if (keys.length) await store.del(...keys);
+    }
+    beforeAll(() => {
+      store = createStore();
+    });
+    beforeEach(clear);
+    afterAll(clear);
+
+    it('round-trips strings and JSON values', async () => {
+      await store.set(k('s'), 'plain text');
+      await store.set(k('o'), { a: 1, b: ['x'] });
+      await store.set(k('n'), 42);
+      expect(await store.get(k('s'))).toBe('plain text');
+      expect(await store.get(k('o'))).toEqual({ a: 1, b: ['x'] });
+      expect(await store.get(k('n'))).toBe(42);
+      expect(await store.get(k('missing'))).toBeNull();
+      expect(await store.mget(k('s'), k('missing'))).toEqual(['plain text', null]);
+    });
+
+    it('keeps numeric strings that would lose precision as strings', async () => {
+      await store.set(k('big'), '123456789012345678901234567890');
+      expect(await store.get(k('big'))).toBe('123456789012345678901234567890');
+    });
+
+    it('honours set options and expiry', async () => {
+      expect(await store.set(k('nx'), 'a', { nx: true })).toBe('OK');
+      expect(await store.set(k('nx'), 'b', { nx: true })).toBeNull();
+      expect(await store.set(k('xx'), 'a', { xx: true })).toBeNull();
+      expect(await store.get(k('nx'))).toBe('a');
+
+      await store.set(k('ex'), 'v', { ex: 100 });
+      const ttl = await store.ttl(k('ex'));
+      expect(ttl).toBeGreaterThan(90);
+      expect(ttl).toBeLessThanOrEqual(100);
+      expect(await store.ttl(k('nx'))).toBe(-1);
+      expect(await store.ttl(k('missing'))).toBe(-2);
+      expect(await store.persist(k('ex'))).toBe(1);
+      expect(await store.ttl(k('ex'))).toBe(-1);
+      expect(await store.expire(k('missing'), 10)).toBe(0);
+    });
+
+    it('expires keys', async () => {
+      await store.set(k('short'), 'v', { px: 20 });
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(await store.get(k('short'))).toBeNull();
+      expect(await store.exists(k('short'))).toBe(0);
+    });
+
+    it('counts, deletes and types keys', async () => {
+      expect(await store.incr(k('c'))).toBe(1);
+      expect(await store.incrby(k('c'), 4)).toBe(5);
+      await store.hset(k('h'), { f: 1 });
+      expect(await store.type(k('c'))).toBe('string');
+      expect(await store.type(k('h'))).toBe('hash');
+      expect(await store.type(k('missing'))).toBe('none');
+      expect(await store.exists(k('c'), k('h'), k('missing'))).toBe(2);
+      expect(await store.del(k('c'), k('missing'))).toBe(1);
+    });
+
+    it('rejects commands against the wrong type', async () => {
+      await store.set(k('s'), 'text');
+      await expect(store.lpush(k('s'), 'x')).rejects.toThrow(/WRONGTYPE/);
+    });
+
+    it('finds keys with keys and scan', async () => {
+      await store.set(k('scan:a'), 1);
+      await store.set(k('scan:b'), 2);
+      await store.set(k('other'), 3);
+      expect((await store.keys(k('scan:*'))).sort()).toEqual([k('scan:a'), k('scan:b')]);
+
+      const found: string[] = [];
+      let cursor: string | number = 0;
+      do {
+        const [next, keys]: [string, string[]] = await store.scan(cursor, { match: k('scan:*'), count: 1 });
+        found.push(...keys);
+        cursor = next;
+      } while (String(cursor) !== '0');
+      expect(Array.from(new Set(found)).sort()).toEqual([k('scan:a'), k('scan:b')]);
+    });
+
+    it('stores hashes', async () => {
+      expect(await store.hgetall(k('h'))).toBeNull();
+      expect(await store.hset(k('h'), { name: 'seed', count: 2, meta: { x: 1 } })).toBe(3);
+      expect(await store.hget(k('h'), 'name')).toBe('seed');
+      expect(await store.hget(k('h'), 'missing')).toBeNull();
+      expect(await store.hincrby(k('h'), 'count', 3)).toBe(5);
+      expect(await store.hincrbyfloat(k('h'), 'ratio', 0.5)).toBe(0.5);
+      expect(await store.hgetall(k('h'))).toEqual({ name: 'seed', count: 5, meta: { x: 1 }, ratio: 0.5 });
+      expect(await store.hdel(k('h'), 'name', 'missing')).toBe(1);
+    });
+
+    it('stores lists', async () => {
+      expect(await store.rpush(k('l'), 'b', 'c')).toBe(2);
+      expect(await store.lpush(k('l'), 'a')).toBe(3);
+      expect(await store.lrange(k('l'), 0, -1)).toEqual(['a', 'b', 'c']);
+      expect(await store.lindex(k('l'), -1)).toBe('c');
+      expect(await store.llen(k('l'))).toBe(3);
+      expect(await store.ltrim(k('l'), 0, 1)).toBe('OK');
+      expect(await store.lrange(k('l'), 0, -1)).toEqual(['a', 'b']);
+      expect(await store.lrem(k('l'), 0, 'a')).toBe(1);
+      expect(await store.lpop(k('l'))).toBe('b');
+      expect(await store.lpop(k('l'))).toBeNull();
+      expect(await store.exists(k('l'))).toBe(0);
+    });
+
+    it('stores sets', async () => {
+      expect(await store.sadd(k('set'), 'a', 'b', 'a')).toBe(2);
+      expect(await store.sismember(k('set'), 'a')).toBe(1);
+      expect(await store.sismember(k('set'), 'z')).toBe(0);
+      expect(await store.scard(k('set'))).toBe(2);
+      expect(await store.srem(k('set'), 'a')).toBe(1);
+      expect(await store.smembers(k('set'))).toEqual(['b']);
+    });
+
+    it('stores sorted sets', async () => {
+      expect(await store.zadd(k('z'), { score: 1, member: 'a' }, { score: 3, member: 'c' }, { score: 2, member: 'b' })).toBe(3);
+      expect(await store.zadd(k('z'), { nx: true }, { score: 10, member: 'a' })).toBe(0);
+      expect(await store.zadd(k('z'), { gt: true, ch: true }, { score: 5, member: 'a' })).toBe(1);
+      expect(await store.zscore(k('z'), 'a')).toBe(5);
+      expect(await store.zscore(k('z'), 'missing')).toBeNull();
+      expect(await store.zincrby(k('z'), 2, 'b')).toBe(4);
+
+      expect(await store.zrange(k('z'), 0, -1)).toEqual(['c', 'b', 'a']);
+      expect(await store.zrange(k('z'), 0, 0, { rev: true })).toEqual(['a']);
+      expect(await store.zrange(k('z'), 0, -1, { withScores: true })).toEqual(['c', 3, 'b', 4, 'a', 5]);
+      expect(await store.zrange(k('z'), '(3', '+inf', { byScore: true })).toEqual(['b', 'a']);
+      expect(await store.zrange(k('z'), '+inf', '-inf', { byScore: true, rev: true, offset: 1, count: 1 })).toEqual(['b']);
+
+      expect(await store.zcard(k('z'))).toBe(3);
+      expect(await store.zcount(k('z'), 4, '+inf')).toBe(2);
+      expect(await store.zremrangebyscore(k('z'), '-inf', 3)).toBe(1);
+      expect(await store.zrem(k('z'), 'a', 'missing')).toBe(1);
+      expect(await store.zrange(k('z'), 0, -1)).toEqual(['b']);
+    });
+
+    it('compares and sets atomically', async () => {
+      expect(await store.compareAndSet(k('cas'), null, 'v1')).toBe(true);
+      expect(await store.compareAndSet(k('cas'), null, 'v2')).toBe(false);
+      expect(await store.compareAndSet(k('cas'), 'stale', 'v2')).toBe(false);
+      expect(await store.compareAndSet(k('cas'), 'v1', 'v2')).toBe(true);
+      expect(await store.get(k('cas'))).toBe('v2');
+    });
+
+    it('compares and deletes atomically', async () => {
+      await store.set(k('lock'), 'token-a');
+      expect(await store.compareAndDelete(k('lock'), 'token-b')).toBe(false);
+      expect(await store.get(k('lock'))).toBe('token-a');
+      expect(await store.compareAndDelete(k('lock'), 'token-a')).toBe(true);
+      expect(await store.exists(k('lock'))).toBe(0);
+      expect(await store.compareAndDelete(k('lock'), 'token-a')).toBe(false);
+    });
+
+    it('runs pipelines in order', async () => {
+      const replies = await store
+        .pipeline()
+        .set(k('p'), 'v')
+        .incrby(k('pc'), 2)
+        .hset(k('ph'), { f: 'x' })
+        .rpush(k('pl'), 'a', 'b')
+        .zadd(k('pz'), { score: 1, member: 'm' })
+        .expire(k('p'), 60)
+        .del(k('missing'))
+        .exec();
+      expect(replies).toEqual(['OK', 2, 1, 2, 1, 1, 0]);
+      expect(await store.get(k('p'))).toBe('v');
+      expect(await store.pipeline().exec()).toEqual([]);
+    });
+
+    it('reports a failing pipeline command', async () => {
+      await store.set(k('s'), 'text');
+      await expect(store.pipeline().hset(k('s'), { f: 1 }).exec()).rejects.toThrow(/WRONGTYPE/);
+    });
+  });
+}
@@ -0,0 +1,4 @@
+import { describeKVStoreContract } from './kv-store-contract';
+import { MemoryStore } from './kv-store-memory';
+
+describeKVStoreContract('memory', () => new MemoryStore());
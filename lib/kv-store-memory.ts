@@ -0,0 +1,459 @@
+import { COMPARE_AND_SET_NIL, CommandStore, type Command, type RawReply } from './kv-store';
+
+/**
+ * In-process storage driver for local dev and tests. It interprets the same Redis commands the
+ * TCP driver sends and answers the way a Redis server would, so everything above the command
+ * layer behaves identically. Keys expire lazily on access. Data lives for the life of the
+ * process (shared across hot reloads) and is not shared between processes.
+ */
+
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'list'; value: string[]; expiresAt?: number }
+  | { type: 'set'; value: Set<string>; expiresAt?: number }
+  | { type: 'zset'; value: Map<string, number>; expiresAt?: number }
+  | { type: 'hash'; value: Map<string, string>; expiresAt?: number };
+
+type EntryType = Entry['type'];
+type EntryOf<T extends EntryType> = Extract<Entry, { type: T }>;
+
+class ReplyError extends Error { }
+
+const WRONGTYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+const NOT_INTEGER = 'ERR value is not an integer or out of range';
+const SYNTAX = 'ERR syntax error';
+
+function toInt(value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isInteger(n)) throw new ReplyError(NOT_INTEGER);
+  return n;
+}
+
+function toFloat(value: string | undefined): number {
+  const n = value === '+inf' || value === 'inf' ? Infinity : value === '-inf' ? -Infinity : Number(value);
+  if (value === undefined || Number.isNaN(n)) throw new ReplyError('ERR value is not a valid float');
+  return n;
+}
+
+const formatScore = (n: number) => (n === Infinity ? 'inf' : n === -Infinity ? '-inf' : String(n));
+
+/** Parse a ZRANGE/ZCOUNT score bound: n, (n, -inf, +inf */
+function parseBound(raw: string): { value: number; exclusive: boolean } {
+  const exclusive = raw.startsWith('(');
+  return { value: toFloat(exclusive ? raw.slice(1) : raw), exclusive };
+}
+
+const inRange = (score: number, min: { value: number; exclusive: boolean }, max: { value: number; exclusive: boolean }) =>
+  (min.exclusive ? score > min.value : score >= min.value) && (max.exclusive ? score < max.value : score <= max.value);
+
+/** Clamp Redis-style (possibly negative) start/stop indexes to a slice range */
+function sliceRange(length: number, startRaw: string, stopRaw: string): [number, number] {
+  let start = toInt(startRaw);
+  let stop = toInt(stopRaw);
+  if (start < 0) start = Math.max(0, length + start);
+  if (stop < 0) stop = length + stop;
+  return [start, Math.min(stop, length - 1) + 1];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\' && i + 1 < pattern.length) source += `\\${pattern[++i]}`;
+    else if (c === '*') source += '.*';
+    else if (c === '?') source += '.';
+    else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) source += '\\[';
+      else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += `[${body.startsWith('^') ? `^${body.slice(1)}` : body}]`;
+        i = end;
+      }
+    } else source += c.replace(/[.+^${}()|\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+const sortedMembers = (zset: Map<string, number>) =>
+  Array.from(zset.entries()).sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+
+export class MemoryStore extends CommandStore {
+  readonly driver = 'memory' as const;
+  private data = new Map<string, Entry>();
+
+  /** Drop every key (for tests) */
+  flushAll(): void {
+    this.data.clear();
+  }
+
+  protected async send(command: Command): Promise<RawReply> {
+    return this.execute(command);
+  }
+
+  protected async sendMany(commands: Command[]): Promise<(RawReply | Error)[]> {
+    return commands.map((command) => {
+      try {
+        return this.execute(command);
+      } catch (error) {
+        return error as Error;
+      }
+    });
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string): Promise<boolean> {
+    const current = this.lookup(key);
+    const matches = expected == null || expected === COMPARE_AND_SET_NIL
+      ? current === undefined
+      : current?.type === 'string' && current.value === expected;
+    if (matches) this.data.set(key, { type: 'string', value });
+    return matches;
+  }
+
+  async compareAndDelete(key: string, expected: string): Promise<boolean> {
+    const current = this.lookup(key);
+    const matches = current?.type === 'string' && current.value === expected;
+    if (matches) this.data.delete(key);
+    return matches;
+  }
+
+  private lookup(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private read<T extends EntryType>(key: string, type: T): EntryOf<T> | undefined {
+    const entry = this.lookup(key);
+    if (entry && entry.type !== type) throw new ReplyError(WRONGTYPE);
+    return entry as EntryOf<T> | undefined;
+  }
+
+  /** Existing entry of `type`, or a new empty one stored under `key` */
+  private write<T extends EntryType>(key: string, type: T): EntryOf<T> {
+    const existing = this.read(key, type);
+    if (existing) return existing;
+    const empty = {
+      string: () => '',
+      list: () => [],
+      set: () => new Set<string>(),
+      zset: () => new Map<string, number>(),
+      hash: () => new Map<string, string>(),
+    }[type]();
+    const entry = { type, value: empty } as EntryOf<T>;
+    this.data.set(key, entry);
+    return entry;
+  }
+
+  // Containers that become empty disappear, as in Redis
+  private dropIfEmpty(key: string, entry: Entry) {
+    const size = entry.type === 'string' ? 1 : entry.type === 'list' ? entry.value.length : entry.value.size;
+    if (size === 0) this.data.delete(key);
+  }
+
+  private liveKeys(): string[] {
+    return Array.from(this.data.keys()).filter((key) => this.lookup(key) !== undefined);
+  }
+
+  private incrementBy(key: string, amount: number): number {
+    const entry = this.write(key, 'string');
+    const next = (entry.value === '' ? 0 : toInt(entry.value)) + amount;
+    entry.value = String(next);
+    return next;
+  }
+
+  private execute([name, ...args]: Command): RawReply {
+    const cmd = name.toUpperCase();
+    const key = args[0];
+    const now = Date.now();
+
+    switch (cmd) {
+      case 'PING':
+        return 'PONG';
+
+      // ---- strings & keys ----
+      case 'GET':
+        return this.read(key, 'string')?.value ?? null;
+      case 'MGET':
+        return args.map((k) => {
+          const entry = this.lookup(k);
+          return entry?.type === 'string' ? entry.value : null;
+        });
+      case 'SET': {
+        const flags = args.slice(2).map((f) => f.toUpperCase());
+        const existing = this.lookup(key);
+        if (flags.includes('NX') && existing) return null;
+        if (flags.includes('XX') && !existing) return null;
+        let expiresAt: number | undefined;
+        const ex = flags.indexOf('EX');
+        const px = flags.indexOf('PX');
+        if (ex !== -1) expiresAt = now + toInt(args[2 + ex + 1]) * 1000;
+        else if (px !== -1) expiresAt = now + toInt(args[2 + px + 1]);
+        else if (flags.includes('KEEPTTL')) expiresAt = existing?.expiresAt;
+        this.data.set(key, { type: 'string', value: args[1], expiresAt });
+        return 'OK';
+      }
+      case 'SETEX':
+        this.data.set(key, { type: 'string', value: args[2], expiresAt: now + toInt(args[1]) * 1000 });
+        return 'OK';
+      case 'DEL':
+        return args.filter((k) => this.lookup(k) !== undefined && this.data.delete(k)).length;
+      case 'EXISTS':
+        return args.filter((k) => this.lookup(k) !== undefined).length;
+      case 'TYPE':
+        return this.lookup(key)?.type ?? 'none';
+      case 'KEYS': {
+        const re = globToRegExp(key);
+        return this.liveKeys().filter((k) => re.test(k));
+      }
+      case 'SCAN': {
+        // The cursor is an offset into the sorted key list; keys added mid-scan may be missed
+        const cursor = toInt(args[0]);
+        let match: RegExp | null = null;
+        let count = 10;
+        let type: string | null = null;
+        for (let i = 1; i < args.length; i += 2) {
+          const opt = args[i].toUpperCase();
+          if (opt === 'MATCH') match = globToRegExp(args[i + 1]);
+          else if (opt === 'COUNT') count = toInt(args[i + 1]);
+          else if (opt === 'TYPE') type = args[i + 1].toLowerCase();
+          else throw new ReplyError(SYNTAX);
+        }
+        const all = this.liveKeys().sort();
+        const page = all.slice(cursor, cursor + count);
+        const next = cursor + count >= all.length ? 0 : cursor + count;
+        return [
+          String(next),
+          page.filter((k) => (!match || match.test(k)) && (!type || this.lookup(k)?.type === type)),
+        ];
+      }
+      case 'INCR':
+        return this.incrementBy(key, 1);
+      case 'INCRBY':
+        return this.incrementBy(key, toInt(args[1]));
+      case 'EXPIRE': {
+        const entry = this.lookup(key);
+        if (!entry) return 0;
+        entry.expiresAt = now + toInt(args[1]) * 1000;
+        return 1;
+      }
+      case 'TTL': {
+        const entry = this.lookup(key);
+        if (!entry) return -2;
+        return entry.expiresAt === undefined ? -1 : Math.ceil((entry.expiresAt - now) / 1000);
+      }
+      case 'PERSIST': {
+        const entry = this.lookup(key);
+        if (!entry || entry.expiresAt === undefined) return 0;
+        entry.expiresAt = undefined;
+        return 1;
+      }
+
+      // ---- hashes ----
+      case 'HGET':
+        return this.read(key, 'hash')?.value.get(args[1]) ?? null;
+      case 'HSET': {
+        if (args.length < 3 || args.length % 2 === 0) throw new ReplyError(SYNTAX);
+        const hash = this.write(key, 'hash').value;
+        let added = 0;
+        for (let i = 1; i < args.length; i += 2) {
+          if (!hash.has(args[i])) added++;
+          hash.set(args[i], args[i + 1]);
+        }
+        return added;
+      }
+      case 'HDEL': {
+        const entry = this.read(key, 'hash');
+        if (!entry) return 0;
+        const removed = args.slice(1).filter((f) => entry.value.delete(f)).length;
+        this.dropIfEmpty(key, entry);
+        return removed;
+      }
+      case 'HGETALL':
+        return Array.from(this.read(key, 'hash')?.value.entries() ?? []).flat();
+      case 'HINCRBY': {
+        const hash = this.write(key, 'hash').value;
+        const next = toInt(hash.get(args[1]) ?? '0') + toInt(args[2]);
+        hash.set(args[1], String(next));
+        return next;
+      }
+      case 'HINCRBYFLOAT': {
+        const hash = this.write(key, 'hash').value;
+        const next = toFloat(hash.get(args[1]) ?? '0') + toFloat(args[2]);
+        hash.set(args[1], String(next));
+        return String(next);
+      }
+
+      // ---- lists ----
+      case 'LPUSH':
+      case 'RPUSH': {
+        const list = this.write(key, 'list').value;
+        if (cmd === 'LPUSH') list.unshift(...args.slice(1).reverse());
+        else list.push(...args.slice(1));
+        return list.length;
+      }
+      case 'LPOP': {
+        const entry = this.read(key, 'list');
+        if (!entry) return null;
+        const value = entry.value.shift() ?? null;
+        this.dropIfEmpty(key, entry);
+        return value;
+      }
+      case 'LRANGE': {
+        const list = this.read(key, 'list')?.value ?? [];
+        const [start, end] = sliceRange(list.length, args[1], args[2]);
+        return list.slice(start, end);
+      }
+      case 'LINDEX': {
+        const list = this.read(key, 'list')?.value ?? [];
+        const index = toInt(args[1]);
+        return list[index < 0 ? list.length + index : index] ?? null;
+      }
+      case 'LLEN':
+        return this.read(key, 'list')?.value.length ?? 0;
+      case 'LTRIM': {
+        const entry = this.read(key, 'list');
+        if (!entry) return 'OK';
+        const [start, end] = sliceRange(entry.value.length, args[1], args[2]);
+        entry.value = entry.value.slice(start, end);
+        this.dropIfEmpty(key, entry);
+        return 'OK';
+      }
+      case 'LREM': {
+        const entry = this.read(key, 'list');
+        if (!entry) return 0;
+        const count = toInt(args[1]);
+        const limit = count === 0 ? Infinity : Math.abs(count);
+        const order = count < 0 ? [...entry.value.keys()].reverse() : [...entry.value.keys()];
+        const drop = new Set<number>();
+        for (const i of order) {
+          if (drop.size >= limit) break;
+          if (entry.value[i] === args[2]) drop.add(i);
+        }
+        entry.value = entry.value.filter((_, i) => !drop.has(i));
+        this.dropIfEmpty(key, entry);
+        return drop.size;
+      }
+
+      // ---- sets ----
+      case 'SADD': {
+        const set = this.write(key, 'set').value;
+        return args.slice(1).filter((m) => !set.has(m) && set.add(m)).length;
+      }
+      case 'SREM': {
+        const entry = this.read(key, 'set');
+        if (!entry) return 0;
+        const removed = args.slice(1).filter((m) => entry.value.delete(m)).length;
+        this.dropIfEmpty(key, entry);
+        return removed;
+      }
+      case 'SMEMBERS':
+        return Array.from(this.read(key, 'set')?.value ?? []);
+      case 'SISMEMBER':
+        return this.read(key, 'set')?.value.has(args[1]) ? 1 : 0;
+      case 'SCARD':
+        return this.read(key, 'set')?.value.size ?? 0;
+
+      // ---- sorted sets ----
+      case 'ZADD': {
+        let i = 1;
+        const flags = new Set<string>();
+        while (i < args.length && ['NX', 'XX', 'GT', 'LT', 'CH', 'INCR'].includes(args[i].toUpperCase())) {
+          flags.add(args[i++].toUpperCase());
+        }
+        const pairs = args.slice(i);
+        if (pairs.length === 0 || pairs.length % 2 !== 0) throw new ReplyError(SYNTAX);
+        const entry = this.write(key, 'zset');
+        const zset = entry.value;
+        let added = 0;
+        let changed = 0;
+        let last: number | null = null;
+        for (let p = 0; p < pairs.length; p += 2) {
+          const member = pairs[p + 1];
+          const current = zset.get(member);
+          let score = toFloat(pairs[p]);
+          if (flags.has('INCR')) score += current ?? 0;
+          if (current === undefined ? flags.has('XX') : flags.has('NX')) continue;
+          if (current !== undefined && ((flags.has('GT') && score <= current) || (flags.has('LT') && score >= current))) continue;
+          if (current === undefined) added++;
+          else if (current !== score) changed++;
+          zset.set(member, score);
+          last = score;
+        }
+        this.dropIfEmpty(key, entry);
+        if (flags.has('INCR')) return last === null ? null : formatScore(last);
+        return flags.has('CH') ? added + changed : added;
+      }
+      case 'ZINCRBY': {
+        const zset = this.write(key, 'zset').value;
+        const next = (zset.get(args[2]) ?? 0) + toFloat(args[1]);
+        zset.set(args[2], next);
+        return formatScore(next);
+      }
+      case 'ZSCORE': {
+        const score = this.read(key, 'zset')?.value.get(args[1]);
+        return score === undefined ? null : formatScore(score);
+      }
+      case 'ZRANGE': {
+        const flags = args.slice(3).map((f) => f.toUpperCase());
+        const byScore = flags.includes('BYSCORE');
+        const rev = flags.includes('REV');
+        const withScores = flags.includes('WITHSCORES');
+        const limitAt = flags.indexOf('LIMIT');
+        let entries = sortedMembers(this.read(key, 'zset')?.value ?? new Map());
+        if (rev) entries.reverse();
+        if (byScore) {
+          // With REV the first bound is the maximum
+          const [minRaw, maxRaw] = rev ? [args[2], args[1]] : [args[1], args[2]];
+          const min = parseBound(minRaw);
+          const max = parseBound(maxRaw);
+          entries = entries.filter(([, score]) => inRange(score, min, max));
+        } else {
+          const [start, end] = sliceRange(entries.length, args[1], args[2]);
+          entries = entries.slice(start, end);
+        }
+        if (limitAt !== -1) {
+          const offset = toInt(args[3 + limitAt + 1]);
+          const count = toInt(args[3 + limitAt + 2]);
+          entries = entries.slice(offset, count < 0 ? undefined : offset + count);
+        }
+        return withScores ? entries.flatMap(([member, score]) => [member, formatScore(score)]) : entries.map(([member]) => member);
+      }
+      case 'ZREM': {
+        const entry = this.read(key, 'zset');
+        if (!entry) return 0;
+        const removed = args.slice(1).filter((m) => entry.value.delete(m)).length;
+        this.dropIfEmpty(key, entry);
+        return removed;
+      }
+      case 'ZREMRANGEBYSCORE': {
+        const entry = this.read(key, 'zset');
+        if (!entry) return 0;
+        const min = parseBound(args[1]);
+        const max = parseBound(args[2]);
+        let removed = 0;
+        for (const [member, score] of Array.from(entry.value.entries())) {
+          if (inRange(score, min, max)) {
+            entry.value.delete(member);
+            removed++;
+          }
+        }
+        this.dropIfEmpty(key, entry);
+        return removed;
+      }
+      case 'ZCARD':
+        return this.read(key, 'zset')?.value.size ?? 0;
+      case 'ZCOUNT': {
+        const min = parseBound(args[1]);
+        const max = parseBound(args[2]);
+        return Array.from(this.read(key, 'zset')?.value.values() ?? []).filter((s) => inRange(s, min, max)).length;
+      }
+
+      default:
+        throw new ReplyError(`ERR unknown command '${name}' for the memory storage driver`);
+    }
+  }
+}
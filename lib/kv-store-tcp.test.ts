@@ -0,0 +1,85 @@
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { describeKVStoreContract } from './kv-store-contract';
+import { RedisTcpStore } from './kv-store-tcp';
+
+// The full contract needs a real server, e.g. TEST_REDIS_URL=redis://127.0.0.1:6379/15
+const TEST_REDIS_URL = process.env.TEST_REDIS_URL;
+
+describe.skipIf(!TEST_REDIS_URL)('TEST_REDIS_URL', () => {
+  describeKVStoreContract('redis', () => new RedisTcpStore(TEST_REDIS_URL!));
+});
+
+/**
+ * Just enough of a Redis server: PING answers, `GET slow` answers late and `GET hang` never. Like
+ * Redis it replies in order, so nothing after a hung command on that connection is answered either.
+ */
+function fakeRedis(lateReplyMs: number) {
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let pending = '';
+    let hung = false;
+    socket.on('data', (chunk) => {
+      pending += chunk.toString('utf8');
+      // Every command is a RESP array of bulk strings: *n, then $len/value pairs
+      for (;;) {
+        const lines = pending.split('\r\n');
+        const count = Number(lines[0]?.slice(1));
+        if (!lines[0]?.startsWith('*') || lines.length < 1 + count * 2 + 1) break;
+        const args = Array.from({ length: count }, (_, i) => lines[2 + i * 2]);
+        pending = lines.slice(1 + count * 2).join('\r\n');
+        const [command, key] = args;
+        if (hung) continue;
+        if (command === 'GET' && key === 'hang') hung = true;
+        else if (command === 'PING') socket.write('+PONG\r\n');
+        else if (command === 'GET' && key === 'slow') setTimeout(() => socket.writable && socket.write('$4\r\nlate\r\n'), lateReplyMs);
+      }
+    });
+  });
+  return {
+    server,
+    listen: () => new Promise<string>((resolve) => server.listen(0, '127.0.0.1', () => resolve(`redis://127.0.0.1:${(server.address() as AddressInfo).port}`))),
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+    connections: () => sockets.size,
+  };
+}
+
+describe('RedisTcpStore command timeout', () => {
+  const fake = fakeRedis(80);
+  let url: string;
+  let server: Server;
+
+  beforeAll(async () => {
+    url = await fake.listen();
+    server = fake.server;
+  });
+  afterAll(() => fake.close());
+
+  it('fails a command that gets no reply', async () => {
+    const store = new RedisTcpStore(url, { commandTimeoutMs: 30 });
+    expect(await store.ping()).toBe('PONG');
+    await expect(store.get('hang')).rejects.toThrow('Redis command timed out after 30ms');
+  });
+
+  it('fails everything in flight on that connection and reconnects for the next command', async () => {
+    const store = new RedisTcpStore(url, { commandTimeoutMs: 30 });
+    const results = await Promise.allSettled([store.get('hang'), store.ping()]);
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(await store.ping()).toBe('PONG');
+  });
+
+  it('never hands a late reply to a later command', async () => {
+    const store = new RedisTcpStore(url, { commandTimeoutMs: 30 });
+    await expect(store.get('slow')).rejects.toThrow('timed out');
+    expect(await store.ping()).toBe('PONG');
+    // Past the point the dropped connection would have delivered the late reply
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await store.ping()).toBe('PONG');
+    expect(server.listening).toBe(true);
+  });
+});
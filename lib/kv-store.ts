@@ -0,0 +1,356 @@
+import type { Redis } from '@upstash/redis';
+
+/**
+ * Key-value storage interface behind `redis` in lib/redis.ts, covering the Redis commands the
+ * app actually uses. Three drivers implement it:
+ *
+ * - upstash: the Upstash REST SDK (production)
+ * - redis:   a plain TCP Redis server (lib/kv-store-tcp.ts)
+ * - memory:  an in-process store with TTLs for local dev and tests (lib/kv-store-memory.ts)
+ *
+ * Replies follow the Upstash SDK so callers behave the same on every driver: stored strings
+ * that look like JSON come back parsed, `hgetall` returns an object (null when empty),
+ * `zrange(..., { withScores: true })` a flat [member, score, ...] list and `scan` a
+ * [cursor, keys] pair.
+ */
+
+export type KVDriver = 'upstash' | 'redis' | 'memory';
+
+export type SetOptions = { ex?: number; px?: number; nx?: boolean; xx?: boolean; keepTtl?: boolean };
+export type ScanOptions = { match?: string; count?: number; type?: string };
+export type ScoreMember = { score: number; member: string | number };
+export type ZAddOptions = { nx?: boolean; xx?: boolean; gt?: boolean; lt?: boolean; ch?: boolean };
+export type ZRangeOptions = { byScore?: boolean; rev?: boolean; offset?: number; count?: number; withScores?: boolean };
+/** A score bound: a number, '-inf'/'+inf', or '(n' for an exclusive bound */
+export type ScoreBound = number | string;
+
+export interface KVStore {
+  readonly driver: KVDriver;
+  ping(): Promise<string>;
+
+  get<T = unknown>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, opts?: SetOptions): Promise<'OK' | null>;
+  setex(key: string, seconds: number, value: unknown): Promise<'OK'>;
+  mget<T extends unknown[] = unknown[]>(...keys: string[]): Promise<T>;
+  del(...keys: string[]): Promise<number>;
+  exists(...keys: string[]): Promise<number>;
+  type(key: string): Promise<string>;
+  keys(pattern: string): Promise<string[]>;
+  scan(cursor: string | number, opts?: ScanOptions): Promise<[string, string[]]>;
+  incr(key: string): Promise<number>;
+  incrby(key: string, amount: number): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  ttl(key: string): Promise<number>;
+  persist(key: string): Promise<number>;
+
+  hget<T = unknown>(key: string, field: string): Promise<T | null>;
+  hset(key: string, values: Record<string, unknown>): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+  hgetall<T extends Record<string, unknown> = Record<string, unknown>>(key: string): Promise<T | null>;
+  hincrby(key: string, field: string, amount: number): Promise<number>;
+  hincrbyfloat(key: string, field: string, amount: number): Promise<number>;
+
+  lpush(key: string, ...values: unknown[]): Promise<number>;
+  rpush(key: string, ...values: unknown[]): Promise<number>;
+  lpop<T = string>(key: string): Promise<T | null>;
+  lrange<T = string>(key: string, start: number, stop: number): Promise<T[]>;
+  lindex<T = string>(key: string, index: number): Promise<T | null>;
+  llen(key: string): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<'OK'>;
+  lrem(key: string, count: number, value: unknown): Promise<number>;
+
+  sadd(key: string, ...members: unknown[]): Promise<number>;
+  srem(key: string, ...members: unknown[]): Promise<number>;
+  smembers<T extends unknown[] = string[]>(key: string): Promise<T>;
+  sismember(key: string, member: unknown): Promise<number>;
+  scard(key: string): Promise<number>;
+
+  zadd(key: string, ...args: [ZAddOptions | ScoreMember, ...ScoreMember[]]): Promise<number | null>;
+  zincrby(key: string, increment: number, member: string | number): Promise<number>;
+  zscore(key: string, member: string | number): Promise<number | null>;
+  zrange<T extends unknown[] = unknown[]>(key: string, start: ScoreBound, stop: ScoreBound, opts?: ZRangeOptions): Promise<T>;
+  zrem(key: string, ...members: (string | number)[]): Promise<number>;
+  zremrangebyscore(key: string, min: ScoreBound, max: ScoreBound): Promise<number>;
+  zcard(key: string): Promise<number>;
+  zcount(key: string, min: ScoreBound, max: ScoreBound): Promise<number>;
+
+  /**
+   * Atomically replace the string at `key` when it currently equals `expected`; with
+   * `expected` null, only when the key doesn't exist.
+   */
+  compareAndSet(key: string, expected: string | null, value: string): Promise<boolean>;
+
+  /** Atomically delete the string at `key` only when it currently equals `expected` */
+  compareAndDelete(key: string, expected: string): Promise<boolean>;
+
+  pipeline(): KVPipeline;
+}
+
+/** Write commands queued and sent together; `exec` resolves to their replies in order. */
+export interface KVPipeline {
+  set(key: string, value: unknown, opts?: SetOptions): KVPipeline;
+  del(...keys: string[]): KVPipeline;
+  incrby(key: string, amount: number): KVPipeline;
+  expire(key: string, seconds: number): KVPipeline;
+  hset(key: string, values: Record<string, unknown>): KVPipeline;
+  hincrby(key: string, field: string, amount: number): KVPipeline;
+  hincrbyfloat(key: string, field: string, amount: number): KVPipeline;
+  lpush(key: string, ...values: unknown[]): KVPipeline;
+  rpush(key: string, ...values: unknown[]): KVPipeline;
+  ltrim(key: string, start: number, stop: number): KVPipeline;
+  sadd(key: string, ...members: unknown[]): KVPipeline;
+  srem(key: string, ...members: unknown[]): KVPipeline;
+  zadd(key: string, ...args: [ZAddOptions | ScoreMember, ...ScoreMember[]]): KVPipeline;
+  zrem(key: string, ...members: (string | number)[]): KVPipeline;
+  exec<T extends unknown[] = unknown[]>(): Promise<T>;
+}
+
+export const COMPARE_AND_SET_SCRIPT = `
+local key = KEYS[1]
+local expected = ARGV[1]
+local value = ARGV[2]
+
+if expected == "__nil__" then
+  if redis.call("EXISTS", key) == 0 then
+    redis.call("SET", key, value)
+    return 1
+  else
+    return 0
+  end
+end
+
+local current = redis.call("GET", key)
+if current == expected then
+  redis.call("SET", key, value)
+  return 1
+end
+return 0
+`;
+
+export const COMPARE_AND_SET_NIL = '__nil__';
+
+export const COMPARE_AND_DELETE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/** The Upstash SDK already speaks this interface; it only lacks compareAndSet/compareAndDelete. */
+export function createUpstashStore(client: Redis): KVStore {
+  return Object.assign(client, {
+    driver: 'upstash' as const,
+    compareAndSet: async (key: string, expected: string | null, value: string) =>
+      Number(await client.eval(COMPARE_AND_SET_SCRIPT, [key], [expected ?? COMPARE_AND_SET_NIL, value])) === 1,
+    compareAndDelete: async (key: string, expected: string) =>
+      Number(await client.eval(COMPARE_AND_DELETE_SCRIPT, [key], [expected])) === 1,
+  }) as KVStore;
+}
+
+// ---- Shared command layer for the TCP and memory drivers ----
+
+/** A RESP2 reply: bulk/simple string, integer, nil or array */
+export type RawReply = string | number | null | RawReply[];
+export type Command = string[];
+
+type Shape = (reply: RawReply) => unknown;
+
+// Same rules as the Upstash SDK: values are stored as-is when strings, JSON otherwise
+const serialize = (value: unknown): string => (typeof value === 'string' ? value : JSON.stringify(value));
+
+// ...and parsed back when they look like JSON (numbers only when that doesn't lose precision)
+function parseRecursive(value: RawReply): unknown {
+  const parsed = Array.isArray(value)
+    ? value.map((v) => {
+      try {
+        return parseRecursive(v);
+      } catch {
+        return v;
+      }
+    })
+    : JSON.parse(value as string);
+  if (typeof parsed === 'number' && parsed.toString() !== value) return value;
+  return parsed;
+}
+
+export function deserialize(reply: RawReply): unknown {
+  try {
+    return parseRecursive(reply);
+  } catch {
+    return reply;
+  }
+}
+
+const asNumber: Shape = (reply) => Number(reply);
+const asNullableNumber: Shape = (reply) => (reply == null ? null : Number(reply));
+const asRaw: Shape = (reply) => reply;
+const asHash: Shape = (reply) => {
+  const flat = (reply as RawReply[] | null) ?? [];
+  if (flat.length === 0) return null;
+  const hash: Record<string, unknown> = {};
+  for (let i = 0; i < flat.length; i += 2) hash[String(flat[i])] = deserialize(flat[i + 1]);
+  return hash;
+};
+
+const bound = (value: ScoreBound) => (typeof value === 'number' ? String(value) : value);
+
+function setCommand(key: string, value: unknown, opts: SetOptions = {}): Command {
+  const command = ['SET', key, serialize(value)];
+  if (opts.ex) command.push('EX', String(opts.ex));
+  if (opts.px) command.push('PX', String(opts.px));
+  if (opts.nx) command.push('NX');
+  if (opts.xx) command.push('XX');
+  if (opts.keepTtl) command.push('KEEPTTL');
+  return command;
+}
+
+function zaddCommand(key: string, args: [ZAddOptions | ScoreMember, ...ScoreMember[]]): Command {
+  const command = ['ZADD', key];
+  const [first, ...rest] = args;
+  const members = 'score' in first ? [first as ScoreMember, ...rest] : rest;
+  if (!('score' in first)) {
+    const opts = first as ZAddOptions;
+    if (opts.nx) command.push('NX');
+    if (opts.xx) command.push('XX');
+    if (opts.gt) command.push('GT');
+    if (opts.lt) command.push('LT');
+    if (opts.ch) command.push('CH');
+  }
+  for (const { score, member } of members) command.push(String(score), serialize(member));
+  return command;
+}
+
+function zrangeCommand(key: string, start: ScoreBound, stop: ScoreBound, opts: ZRangeOptions = {}): Command {
+  const command = ['ZRANGE', key, bound(start), bound(stop)];
+  if (opts.byScore) command.push('BYSCORE');
+  if (opts.rev) command.push('REV');
+  if (opts.offset !== undefined || opts.count !== undefined) {
+    command.push('LIMIT', String(opts.offset ?? 0), String(opts.count ?? -1));
+  }
+  if (opts.withScores) command.push('WITHSCORES');
+  return command;
+}
+
+const hsetCommand = (key: string, values: Record<string, unknown>): Command =>
+  ['HSET', key, ...Object.entries(values).flatMap(([field, value]) => [field, serialize(value)])];
+
+/**
+ * KVStore over a raw command transport. Drivers implement `send`/`sendMany` (and
+ * compareAndSet/compareAndDelete, which each does atomically in its own way).
+ */
+export abstract class CommandStore implements KVStore {
+  abstract readonly driver: KVDriver;
+  /** Run one command; error replies reject */
+  protected abstract send(command: Command): Promise<RawReply>;
+  /** Run several commands back to back; error replies come back as Error values */
+  protected abstract sendMany(commands: Command[]): Promise<(RawReply | Error)[]>;
+  abstract compareAndSet(key: string, expected: string | null, value: string): Promise<boolean>;
+  abstract compareAndDelete(key: string, expected: string): Promise<boolean>;
+
+  private async run<T>(command: Command, shape: Shape = deserialize): Promise<T> {
+    return shape(await this.send(command)) as T;
+  }
+
+  /** Used by CommandPipeline */
+  async execMany(commands: [Command, Shape][]): Promise<unknown[]> {
+    if (commands.length === 0) return [];
+    const replies = await this.sendMany(commands.map(([command]) => command));
+    return replies.map((reply, i) => {
+      if (reply instanceof Error) {
+        throw new Error(`Command #${i + 1} (${commands[i][0][0]}) in pipeline failed: ${reply.message}`);
+      }
+      return commands[i][1](reply);
+    });
+  }
+
+  ping() { return this.run<string>(['PING'], asRaw); }
+
+  get<T = unknown>(key: string) { return this.run<T | null>(['GET', key]); }
+  set(key: string, value: unknown, opts?: SetOptions) { return this.run<'OK' | null>(setCommand(key, value, opts), asRaw); }
+  setex(key: string, seconds: number, value: unknown) { return this.run<'OK'>(['SETEX', key, String(seconds), serialize(value)], asRaw); }
+  mget<T extends unknown[] = unknown[]>(...keys: string[]) { return this.run<T>(['MGET', ...keys]); }
+  del(...keys: string[]) { return this.run<number>(['DEL', ...keys], asNumber); }
+  exists(...keys: string[]) { return this.run<number>(['EXISTS', ...keys], asNumber); }
+  type(key: string) { return this.run<string>(['TYPE', key], asRaw); }
+  keys(pattern: string) { return this.run<string[]>(['KEYS', pattern], asRaw); }
+  async scan(cursor: string | number, opts: ScanOptions = {}): Promise<[string, string[]]> {
+    const command = ['SCAN', String(cursor)];
+    if (opts.match) command.push('MATCH', opts.match);
+    if (opts.count) command.push('COUNT', String(opts.count));
+    if (opts.type) command.push('TYPE', opts.type);
+    const [next, keys] = (await this.send(command)) as [string, string[]];
+    return [String(next), keys];
+  }
+  incr(key: string) { return this.run<number>(['INCR', key], asNumber); }
+  incrby(key: string, amount: number) { return this.run<number>(['INCRBY', key, String(amount)], asNumber); }
+  expire(key: string, seconds: number) { return this.run<number>(['EXPIRE', key, String(seconds)], asNumber); }
+  ttl(key: string) { return this.run<number>(['TTL', key], asNumber); }
+  persist(key: string) { return this.run<number>(['PERSIST', key], asNumber); }
+
+  hget<T = unknown>(key: string, field: string) { return this.run<T | null>(['HGET', key, field]); }
+  hset(key: string, values: Record<string, unknown>) { return this.run<number>(hsetCommand(key, values), asNumber); }
+  hdel(key: string, ...fields: string[]) { return this.run<number>(['HDEL', key, ...fields], asNumber); }
+  hgetall<T extends Record<string, unknown> = Record<string, unknown>>(key: string) { return this.run<T | null>(['HGETALL', key], asHash); }
+  hincrby(key: string, field: string, amount: number) { return this.run<number>(['HINCRBY', key, field, String(amount)], asNumber); }
+  hincrbyfloat(key: string, field: string, amount: number) { return this.run<number>(['HINCRBYFLOAT', key, field, String(amount)], asNumber); }
+
+  lpush(key: string, ...values: unknown[]) { return this.run<number>(['LPUSH', key, ...values.map(serialize)], asNumber); }
+  rpush(key: string, ...values: unknown[]) { return this.run<number>(['RPUSH', key, ...values.map(serialize)], asNumber); }
+  lpop<T = string>(key: string) { return this.run<T | null>(['LPOP', key]); }
+  lrange<T = string>(key: string, start: number, stop: number) { return this.run<T[]>(['LRANGE', key, String(start), String(stop)]); }
+  lindex<T = string>(key: string, index: number) { return this.run<T | null>(['LINDEX', key, String(index)]); }
+  llen(key: string) { return this.run<number>(['LLEN', key], asNumber); }
+  ltrim(key: string, start: number, stop: number) { return this.run<'OK'>(['LTRIM', key, String(start), String(stop)], asRaw); }
+  lrem(key: string, count: number, value: unknown) { return this.run<number>(['LREM', key, String(count), serialize(value)], asNumber); }
+
+  sadd(key: string, ...members: unknown[]) { return this.run<number>(['SADD', key, ...members.map(serialize)], asNumber); }
+  srem(key: string, ...members: unknown[]) { return this.run<number>(['SREM', key, ...members.map(serialize)], asNumber); }
+  smembers<T extends unknown[] = string[]>(key: string) { return this.run<T>(['SMEMBERS', key]); }
+  sismember(key: string, member: unknown) { return this.run<number>(['SISMEMBER', key, serialize(member)], asNumber); }
+  scard(key: string) { return this.run<number>(['SCARD', key], asNumber); }
+
+  zadd(key: string, ...args: [ZAddOptions | ScoreMember, ...ScoreMember[]]) { return this.run<number | null>(zaddCommand(key, args), asNullableNumber); }
+  zincrby(key: string, increment: number, member: string | number) { return this.run<number>(['ZINCRBY', key, String(increment), String(member)], asNumber); }
+  zscore(key: string, member: string | number) { return this.run<number | null>(['ZSCORE', key, String(member)], asNullableNumber); }
+  zrange<T extends unknown[] = unknown[]>(key: string, start: ScoreBound, stop: ScoreBound, opts?: ZRangeOptions) { return this.run<T>(zrangeCommand(key, start, stop, opts)); }
+  zrem(key: string, ...members: (string | number)[]) { return this.run<number>(['ZREM', key, ...members.map(String)], asNumber); }
+  zremrangebyscore(key: string, min: ScoreBound, max: ScoreBound) { return this.run<number>(['ZREMRANGEBYSCORE', key, bound(min), bound(max)], asNumber); }
+  zcard(key: string) { return this.run<number>(['ZCARD', key], asNumber); }
+  zcount(key: string, min: ScoreBound, max: ScoreBound) { return this.run<number>(['ZCOUNT', key, bound(min), bound(max)], asNumber); }
+
+  pipeline(): KVPipeline {
+    return new CommandPipeline(this);
+  }
+}
+
+class CommandPipeline implements KVPipeline {
+  private commands: [Command, Shape][] = [];
+
+  constructor(private store: CommandStore) { }
+
+  private push(command: Command, shape: Shape = asNumber): KVPipeline {
+    this.commands.push([command, shape]);
+    return this;
+  }
+
+  set(key: string, value: unknown, opts?: SetOptions) { return this.push(setCommand(key, value, opts), asRaw); }
+  del(...keys: string[]) { return this.push(['DEL', ...keys]); }
+  incrby(key: string, amount: number) { return this.push(['INCRBY', key, String(amount)]); }
+  expire(key: string, seconds: number) { return this.push(['EXPIRE', key, String(seconds)]); }
+  hset(key: string, values: Record<string, unknown>) { return this.push(hsetCommand(key, values)); }
+  hincrby(key: string, field: string, amount: number) { return this.push(['HINCRBY', key, field, String(amount)]); }
+  hincrbyfloat(key: string, field: string, amount: number) { return this.push(['HINCRBYFLOAT', key, field, String(amount)]); }
+  lpush(key: string, ...values: unknown[]) { return this.push(['LPUSH', key, ...values.map(serialize)]); }
+  rpush(key: string, ...values: unknown[]) { return this.push(['RPUSH', key, ...values.map(serialize)]); }
+  ltrim(key: string, start: number, stop: number) { return this.push(['LTRIM', key, String(start), String(stop)], asRaw); }
+  sadd(key: string, ...members: unknown[]) { return this.push(['SADD', key, ...members.map(serialize)]); }
+  srem(key: string, ...members: unknown[]) { return this.push(['SREM', key, ...members.map(serialize)]); }
+  zadd(key: string, ...args: [ZAddOptions | ScoreMember, ...ScoreMember[]]) { return this.push(zaddCommand(key, args), asNullableNumber); }
+  zrem(key: string, ...members: (string | number)[]) { return this.push(['ZREM', key, ...members.map(String)]); }
+
+  async exec<T extends unknown[] = unknown[]>(): Promise<T> {
+    const commands = this.commands;
+    this.commands = [];
+    return (await this.store.execMany(commands)) as T;
+  }
+}
@@ -0,0 +1,256 @@
+import { erc20Abi } from 'viem';
+import { CREATOR_TOKEN_ADDRESS, LAND_CONTRACT_ADDRESS, LEAF_CONTRACT_ADDRESS, type LandBuildingsBatchResult, type QuestSlot } from './contracts';
+import { landAbi } from '@/public/abi/pixotchi-v3-abi';
+import { QUEST_DIFFICULTIES, TOWN_BUILDING_NAMES, VILLAGE_BUILDING_NAMES } from './constants';
+import { chunkByGas, estimateCallGas } from './batch-limits';
+import type { TransactionCall } from './types';
+
+/**
+ * Plans the same building or quest action across every owned land so it can go out in a few
+ * smart-wallet batches instead of one transaction per land.
+ *
+ * Actions:
+ * - upgrade: villageUpgradeWithLeaf / townUpgradeWithLeaf on every built, idle building below max level
+ * - speedup: villageSpeedUpWithSeed / townSpeedUpWithSeed on every building still upgrading (paid in PIXOTCHI)
+ * - quest:   questStart / questCommit / questFinalize on every Farmer House slot that is ready for its next step
+ */
+
+export type LandBatchAction = 'upgrade' | 'speedup' | 'quest';
+
+export const LAND_BATCH_ACTIONS: { value: LandBatchAction; label: string; description: string }[] = [
+  { value: 'upgrade', label: 'Upgrade', description: 'Start an upgrade on every idle building (LEAF)' },
+  { value: 'speedup', label: 'Speed up', description: 'Finish every running upgrade now (PIXOTCHI)' },
+  { value: 'quest', label: 'Quests', description: 'Send, return and open every Farmer House slot' },
+];
+
+// Town buildings that are prebuilt or built through their own flow (Stake House, Warehouse, Casino, Barracks)
+const NON_UPGRADEABLE_TOWN_BUILDINGS = new Set([1, 3, 6, 8]);
+const FARMER_HOUSE_ID = 7;
+const MAX_QUEST_SLOTS = 3;
+
+export type QuestSlotStatus = 'Loading' | 'Cooldown' | 'Available' | 'In progress' | 'Ready to commit' | 'Committed';
+
+export function getQuestSlotStatus(slot: QuestSlot, currentBlock: bigint): QuestSlotStatus {
+  // Until we know the current block, avoid guessing to prevent huge time estimates
+  if (currentBlock === BigInt(0)) return 'Loading';
+  if (slot.coolDownBlock !== BigInt(0) && currentBlock < slot.coolDownBlock) return 'Cooldown';
+  if (slot.startBlock === BigInt(0)) return 'Available';
+  if (currentBlock >= slot.startBlock && currentBlock <= slot.endBlock) return 'In progress';
+  if (currentBlock > slot.endBlock && slot.pseudoRndBlock === BigInt(0)) return 'Ready to commit';
+  if (slot.pseudoRndBlock !== BigInt(0)) return 'Committed';
+  return 'Available';
+}
+
+export type LandBatchItem = {
+  /** Stable across rescans: land, building/slot and function */
+  key: string;
+  landId: bigint;
+  action: LandBatchAction;
+  label: string;
+  call: TransactionCall;
+  leafCost: bigint;
+  pixotchiCost: bigint;
+};
+
+export type LandBatchInput = {
+  action: LandBatchAction;
+  buildings: LandBuildingsBatchResult[];
+  questSlots?: Map<string, QuestSlot[]>;
+  currentBlock: bigint;
+  /** Difficulty for newly started quests (0 easy, 1 medium, 2 hard) */
+  questDifficulty?: number;
+};
+
+const landCall = (functionName: string, args: unknown[]): TransactionCall => ({
+  address: LAND_CONTRACT_ADDRESS,
+  abi: landAbi,
+  functionName,
+  args: args as any[],
+});
+
+const buildingName = (type: 'village' | 'town', id: number) => {
+  const names: Record<number, string> = type === 'village' ? VILLAGE_BUILDING_NAMES : TOWN_BUILDING_NAMES;
+  return names[id] ?? `${type === 'village' ? 'Village' : 'Town'} Building ${id}`;
+};
+
+export function collectLandBatchItems({
+  action,
+  buildings,
+  questSlots,
+  currentBlock,
+  questDifficulty = 0,
+}: LandBatchInput): LandBatchItem[] {
+  const items: LandBatchItem[] = [];
+
+  for (const { landId, villageBuildings, townBuildings } of buildings) {
+    if (action === 'quest') {
+      const farmerHouse = townBuildings.find((b: any) => Number(b.id) === FARMER_HOUSE_ID);
+      const level = Number(farmerHouse?.level ?? 0);
+      if (level === 0) continue;
+      const slots = (questSlots?.get(landId.toString()) ?? []).slice(0, Math.min(level, MAX_QUEST_SLOTS));
+      slots.forEach((slot, index) => {
+        const status = getQuestSlotStatus(slot, currentBlock);
+        const slotId = BigInt(index);
+        const base = { landId, action, leafCost: BigInt(0), pixotchiCost: BigInt(0) };
+        if (status === 'Available') {
+          const difficulty = QUEST_DIFFICULTIES[questDifficulty as keyof typeof QUEST_DIFFICULTIES] ?? 'Easy';
+          items.push({
+            ...base,
+            key: `${landId}:quest:${index}:start`,
+            label: `Slot ${index + 1}: start ${difficulty}`,
+            call: landCall('questStart', [landId, BigInt(questDifficulty), slotId]),
+          });
+        } else if (status === 'Ready to commit') {
+          items.push({
+            ...base,
+            key: `${landId}:quest:${index}:commit`,
+            label: `Slot ${index + 1}: return`,
+            call: landCall('questCommit', [landId, slotId]),
+          });
+        } else if (status === 'Committed') {
+          items.push({
+            ...base,
+            key: `${landId}:quest:${index}:finalize`,
+            label: `Slot ${index + 1}: open loot bag`,
+            call: landCall('questFinalize', [landId, slotId]),
+          });
+        }
+      });
+      continue;
+    }
+
+    const entries = [
+      ...villageBuildings.map((b: any) => ({ type: 'village' as const, b })),
+      ...townBuildings
+        .filter((b: any) => !NON_UPGRADEABLE_TOWN_BUILDINGS.has(Number(b.id)))
+        .map((b: any) => ({ type: 'town' as const, b })),
+    ];
+
+    for (const { type, b } of entries) {
+      const id = Number(b.id);
+      const level = Number(b.level);
+      const name = buildingName(type, id);
+      const upgrading = Boolean(b.isUpgrading) && BigInt(b.blockHeightUntilUpgradeDone ?? 0) > currentBlock;
+
+      if (action === 'upgrade') {
+        // Level 0 buildings are constructed from their own panel (e.g. townBuildMarketPlace)
+        if (level === 0 || level >= Number(b.maxLevel) || upgrading) continue;
+        items.push({
+          key: `${landId}:${type}:${id}:upgrade`,
+          landId,
+          action,
+          label: `${name} → L${level + 1}`,
+          call: landCall(type === 'village' ? 'villageUpgradeWithLeaf' : 'townUpgradeWithLeaf', [landId, id]),
+          leafCost: BigInt(b.levelUpgradeCostLeaf ?? 0),
+          pixotchiCost: BigInt(0),
+        });
+      } else if (upgrading) {
+        items.push({
+          key: `${landId}:${type}:${id}:speedup`,
+          landId,
+          action,
+          label: `${name} → L${level + 1} now`,
+          call: landCall(type === 'village' ? 'villageSpeedUpWithSeed' : 'townSpeedUpWithSeed', [landId, id]),
+          leafCost: BigInt(0),
+          pixotchiCost: BigInt(b.levelUpgradeCostSeedInstant ?? 0),
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+export type SkippedLandBatchItem = { item: LandBatchItem; reason: string };
+
+export type LandBatchPlan = {
+  /** Items sent in the next transaction */
+  batch: LandBatchItem[];
+  /** Approvals (when needed) followed by one call per batch item */
+  calls: TransactionCall[];
+  approvalCount: number;
+  totalBatches: number;
+  /** Items left out of every batch, with the reason shown next to their land */
+  skipped: SkippedLandBatchItem[];
+  leafCost: bigint;
+  pixotchiCost: bigint;
+  /** Cost of everything plannable, across all batches */
+  totalLeafCost: bigint;
+  totalPixotchiCost: bigint;
+};
+
+export type LandBatchPlanInput = {
+  items: LandBatchItem[];
+  leafBalance: bigint;
+  pixotchiBalance: bigint;
+  leafAllowance: bigint;
+  pixotchiAllowance: bigint;
+  /** Gas measured by simulating a previous batch, keyed by item key */
+  measuredGas?: Map<string, bigint>;
+};
+
+const sum = (items: LandBatchItem[], cost: (item: LandBatchItem) => bigint) =>
+  items.reduce((acc, item) => acc + cost(item), BigInt(0));
+
+const approveCall = (token: `0x${string}`, amount: bigint): TransactionCall => ({
+  address: token,
+  abi: erc20Abi,
+  functionName: 'approve',
+  args: [LAND_CONTRACT_ADDRESS, amount],
+});
+
+export function planLandBatch({
+  items,
+  leafBalance,
+  pixotchiBalance,
+  leafAllowance,
+  pixotchiAllowance,
+  measuredGas,
+}: LandBatchPlanInput): LandBatchPlan {
+  // Items are taken in order while the wallet can still pay for them
+  const skipped: SkippedLandBatchItem[] = [];
+  const affordable: LandBatchItem[] = [];
+  let leafLeft = leafBalance;
+  let pixotchiLeft = pixotchiBalance;
+  for (const item of items) {
+    if (item.leafCost > leafLeft) {
+      skipped.push({ item, reason: 'Not enough LEAF' });
+    } else if (item.pixotchiCost > pixotchiLeft) {
+      skipped.push({ item, reason: 'Not enough PIXOTCHI' });
+    } else {
+      affordable.push(item);
+      leafLeft -= item.leafCost;
+      pixotchiLeft -= item.pixotchiCost;
+    }
+  }
+
+  const needsLeaf = affordable.some((item) => item.leafCost > BigInt(0));
+  const needsPixotchi = affordable.some((item) => item.pixotchiCost > BigInt(0));
+  const reservedCalls = (needsLeaf ? 1 : 0) + (needsPixotchi ? 1 : 0);
+  const chunks = chunkByGas(
+    affordable,
+    (item) => measuredGas?.get(item.key) ?? estimateCallGas(item.call.functionName),
+    { gas: estimateCallGas('approve') * BigInt(reservedCalls), calls: reservedCalls },
+  );
+
+  const batch = chunks[0] ?? [];
+  const leafCost = sum(batch, (item) => item.leafCost);
+  const pixotchiCost = sum(batch, (item) => item.pixotchiCost);
+  // Approve exactly what this batch spends, and only when the standing allowance doesn't cover it
+  const approvals = [
+    ...(leafCost > leafAllowance ? [approveCall(LEAF_CONTRACT_ADDRESS, leafCost)] : []),
+    ...(pixotchiCost > pixotchiAllowance ? [approveCall(CREATOR_TOKEN_ADDRESS, pixotchiCost)] : []),
+  ];
+
+  return {
+    batch,
+    calls: [...approvals, ...batch.map((item) => item.call)],
+    approvalCount: approvals.length,
+    totalBatches: chunks.length,
+    skipped,
+    leafCost,
+    pixotchiCost,
+    totalLeafCost: sum(affordable, (item) => item.leafCost),
+    totalPixotchiCost: sum(affordable, (item) => item.pixotchiCost),
+  };
+}
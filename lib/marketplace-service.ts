@@ -0,0 +1,453 @@
+import { nanoid } from 'nanoid';
+import { parseAbiItem, type Log } from 'viem';
+import { getMarketplaceActiveOrders, getReadClient, LAND_CONTRACT_ADDRESS, retryWithBackoff, type MarketplaceOrder } from './contracts';
+import { landAbi } from '@/public/abi/pixotchi-v3-abi';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { deliverToAddress } from './notification-channels';
+import { CLIENT_ENV } from './env-config';
+
+/**
+ * LEAF/SEED marketplace history indexed from the land contract's OrderCreated / OrderTaken /
+ * OrderCancelled logs. The contract only exposes the live book, so fills, candles and the trade
+ * tape are rebuilt here and kept in Redis. Only the marketplace cron advances the index (read routes
+ * never hit getLogs) and checks price alerts against the live book.
+ *
+ * Orders are always filled whole (OrderTaken carries no amount), so a fill is the full order.
+ * Prices are LEAF per SEED, matching the marketplace dialog.
+ */
+
+const CHUNK_SIZE = BigInt(5_000);
+const MAX_BLOCKS_PER_SYNC = BigInt(process.env.MARKETPLACE_SYNC_MAX_BLOCKS || 200_000);
+// First sync starts here, or ~30 days back when unset
+const START_BLOCK = process.env.MARKETPLACE_INDEX_START_BLOCK ? BigInt(process.env.MARKETPLACE_INDEX_START_BLOCK) : null;
+const DEFAULT_BACKFILL_BLOCKS = BigInt(30 * 24 * 60 * 30);
+// Base produces a block every 2s, so timestamps can be derived from the head block
+const BASE_BLOCK_TIME_SECONDS = BigInt(2);
+const ONE = BigInt(1);
+
+const SYNC_LOCK_TTL_SECONDS = 300;
+const MAX_TRADES = 5_000;
+const MAX_USER_FILLS = 200;
+const MAX_ALERTS_PER_USER = 10;
+const ORDER_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+const KEYS = {
+  cursor: 'market:cursor',
+  lock: 'market:sync:lock',
+  order: (id: string) => `market:order:${id}`,
+  trades: 'market:trades',
+  fills: (address: string) => `market:fills:${address.toLowerCase()}`,
+  alerts: (address: string) => `market:alerts:${address.toLowerCase()}`,
+  alertAddresses: 'market:alerts:addresses',
+};
+
+const MARKET_EVENTS = [
+  parseAbiItem('event OrderCreated(uint256 orderId, address seller, uint8 sellToken, uint256 amount, uint256 amountAsk)'),
+  parseAbiItem('event OrderTaken(uint256 orderId, address buyer)'),
+  parseAbiItem('event OrderCancelled(uint256 orderId, address seller)'),
+] as const;
+
+type MarketEventLog = Log<bigint, number, false, undefined, true, typeof MARKET_EVENTS>;
+
+export class MarketplaceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'MarketplaceError';
+    this.status = status;
+  }
+}
+
+export type MarketOrderRecord = {
+  id: string;
+  seller: string;
+  /** 0 = sells SEED (bid), 1 = sells LEAF (ask) */
+  sellToken: number;
+  amount: string;
+  amountAsk: string;
+  status: 'open' | 'filled' | 'cancelled';
+  createdAt?: number;
+  closedAt?: number;
+  buyer?: string;
+};
+
+export type MarketTrade = {
+  orderId: string;
+  /** Taker side on LEAF: an ask taken is a 'buy', a bid taken is a 'sell' */
+  side: 'buy' | 'sell';
+  price: number;
+  leaf: string;
+  seed: string;
+  maker: string;
+  taker: string;
+  timestamp: number;
+  block: number;
+  txHash: string;
+};
+
+export type MarketFill = MarketTrade & { role: 'maker' | 'taker' };
+
+export type MarketCandleInterval = '1h' | '4h' | '1d';
+
+export const MARKET_CANDLE_INTERVALS: Record<MarketCandleInterval, number> = {
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+export type MarketCandle = {
+  /** Bucket start, unix seconds */
+  t: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volumeLeaf: number;
+  volumeSeed: number;
+  trades: number;
+};
+
+export type MarketSyncState = {
+  block: string;
+  syncedAt: number;
+};
+
+export type MarketAlertSide = 'ask' | 'bid';
+
+export type MarketAlert = {
+  id: string;
+  /** ask: fires when the best ask drops to `price` or below; bid: when the best bid reaches `price` or above */
+  side: MarketAlertSide;
+  price: number;
+  createdAt: number;
+  triggeredAt?: number;
+  triggeredPrice?: number;
+};
+
+const toNumber = (wei: string) => Number(wei) / 1e18;
+
+/** LEAF and SEED legs of an order, whichever way round it was listed */
+function orderLegs(order: Pick<MarketOrderRecord, 'sellToken' | 'amount' | 'amountAsk'>): { leaf: string; seed: string } {
+  return order.sellToken === 1
+    ? { leaf: order.amount, seed: order.amountAsk }
+    : { leaf: order.amountAsk, seed: order.amount };
+}
+
+export function orderPriceLeafPerSeed(order: Pick<MarketOrderRecord, 'sellToken' | 'amount' | 'amountAsk'>): number {
+  const { leaf, seed } = orderLegs(order);
+  const seedAmount = toNumber(seed);
+  return seedAmount === 0 ? 0 : toNumber(leaf) / seedAmount;
+}
+
+async function fetchLogsChunked(fromBlock: bigint, toBlock: bigint): Promise<MarketEventLog[]> {
+  const client = getReadClient();
+  const logs: MarketEventLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += CHUNK_SIZE) {
+    const end = start + CHUNK_SIZE - ONE > toBlock ? toBlock : start + CHUNK_SIZE - ONE;
+    const chunk = await retryWithBackoff(() => client.getLogs({
+      address: LAND_CONTRACT_ADDRESS,
+      events: MARKET_EVENTS,
+      fromBlock: start,
+      toBlock: end,
+      strict: true,
+    })) as MarketEventLog[];
+    logs.push(...chunk);
+  }
+  return logs;
+}
+
+// Orders created before the index started: the contract still returns them once closed
+async function loadInactiveOrders(): Promise<Map<string, MarketOrderRecord>> {
+  const orders = await retryWithBackoff(() => getReadClient().readContract({
+    address: LAND_CONTRACT_ADDRESS,
+    abi: landAbi,
+    functionName: 'marketPlaceGetInactiveOrders',
+  })) as any[];
+  const byId = new Map<string, MarketOrderRecord>();
+  for (const o of orders || []) {
+    byId.set(String(o.id), {
+      id: String(o.id),
+      seller: String(o.seller).toLowerCase(),
+      sellToken: Number(o.sellToken),
+      amount: BigInt(o.amount).toString(),
+      amountAsk: BigInt(o.amountAsk).toString(),
+      status: 'open',
+    });
+  }
+  return byId;
+}
+
+async function pushCapped(key: string, value: unknown, max: number): Promise<void> {
+  if (!redis) return;
+  await redis.lpush(withPrefix(key), JSON.stringify(value));
+  await redis.ltrim(withPrefix(key), 0, max - 1);
+}
+
+async function readList<T>(key: string, limit: number): Promise<T[]> {
+  if (!redis) return [];
+  const raw = (await redis.lrange(withPrefix(key), 0, limit - 1)) as unknown[];
+  return raw.map((entry) => (typeof entry === 'string' ? JSON.parse(entry) : entry) as T);
+}
+
+/**
+ * Index marketplace logs from the cursor up to the head (at most MAX_BLOCKS_PER_SYNC per call).
+ * Replaying a range is harmless: a trade is only recorded when its order goes from open to closed.
+ */
+export async function syncMarketplaceEvents(): Promise<{ fromBlock: string; toBlock: string; events: number; trades: number } | null> {
+  if (!redis) return null;
+  const acquired = await redis.set(withPrefix(KEYS.lock), '1', { nx: true, ex: SYNC_LOCK_TTL_SECONDS });
+  if (!acquired) return null;
+
+  try {
+    const client = getReadClient();
+    const head = await client.getBlock();
+    const cursor = await redisGetJSON<MarketSyncState>(KEYS.cursor);
+    const fromBlock = cursor
+      ? BigInt(cursor.block) + ONE
+      : START_BLOCK ?? (head.number > DEFAULT_BACKFILL_BLOCKS ? head.number - DEFAULT_BACKFILL_BLOCKS : BigInt(0));
+    const toBlock = head.number - fromBlock > MAX_BLOCKS_PER_SYNC ? fromBlock + MAX_BLOCKS_PER_SYNC - ONE : head.number;
+
+    let trades = 0;
+    let events = 0;
+    if (fromBlock <= toBlock) {
+      const logs = await fetchLogsChunked(fromBlock, toBlock);
+      events = logs.length;
+      let inactive: Map<string, MarketOrderRecord> | null = null;
+
+      for (const log of logs) {
+        const orderId = log.args.orderId.toString();
+        const timestamp = Number(head.timestamp - (head.number - log.blockNumber) * BASE_BLOCK_TIME_SECONDS);
+
+        if (log.eventName === 'OrderCreated') {
+          const existing = await redisGetJSON<MarketOrderRecord>(KEYS.order(orderId));
+          if (existing) continue;
+          await redisSetJSON(KEYS.order(orderId), {
+            id: orderId,
+            seller: log.args.seller.toLowerCase(),
+            sellToken: Number(log.args.sellToken),
+            amount: log.args.amount.toString(),
+            amountAsk: log.args.amountAsk.toString(),
+            status: 'open',
+            createdAt: timestamp,
+          } satisfies MarketOrderRecord, ORDER_TTL_SECONDS);
+          continue;
+        }
+
+        let order = await redisGetJSON<MarketOrderRecord>(KEYS.order(orderId));
+        if (!order) {
+          inactive ??= await loadInactiveOrders().catch((error) => {
+            console.warn('[marketplace] inactive order lookup failed', error);
+            return new Map<string, MarketOrderRecord>();
+          });
+          order = inactive.get(orderId) ?? null;
+          if (!order) continue;
+        }
+        if (order.status !== 'open') continue;
+
+        if (log.eventName === 'OrderCancelled') {
+          await redisSetJSON(KEYS.order(orderId), { ...order, status: 'cancelled', closedAt: timestamp }, ORDER_TTL_SECONDS);
+          continue;
+        }
+
+        const taker = log.args.buyer.toLowerCase();
+        const trade: MarketTrade = {
+          orderId,
+          side: order.sellToken === 1 ? 'buy' : 'sell',
+          price: orderPriceLeafPerSeed(order),
+          ...orderLegs(order),
+          maker: order.seller,
+          taker,
+          timestamp,
+          block: Number(log.blockNumber),
+          txHash: log.transactionHash,
+        };
+        await redisSetJSON(KEYS.order(orderId), { ...order, status: 'filled', closedAt: timestamp, buyer: taker }, ORDER_TTL_SECONDS);
+        await pushCapped(KEYS.trades, trade, MAX_TRADES);
+        await pushCapped(KEYS.fills(order.seller), { ...trade, role: 'maker' } satisfies MarketFill, MAX_USER_FILLS);
+        await pushCapped(KEYS.fills(taker), { ...trade, role: 'taker' } satisfies MarketFill, MAX_USER_FILLS);
+        trades++;
+      }
+    }
+
+    // Written even when there was nothing new, so readers see a fresh syncedAt
+    const indexedTo = fromBlock <= toBlock ? toBlock : fromBlock - ONE;
+    await redisSetJSON(KEYS.cursor, { block: indexedTo.toString(), syncedAt: Date.now() } satisfies MarketSyncState);
+
+    return { fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), events, trades };
+  } finally {
+    await redis.del(withPrefix(KEYS.lock));
+  }
+}
+
+export async function getMarketSyncState(): Promise<MarketSyncState | null> {
+  return redisGetJSON<MarketSyncState>(KEYS.cursor);
+}
+
+/** Most recent trades first */
+export async function getMarketTrades(limit: number = 50): Promise<MarketTrade[]> {
+  return readList<MarketTrade>(KEYS.trades, Math.min(Math.max(limit, 1), MAX_TRADES));
+}
+
+/** Fills where the address was the maker or the taker, most recent first */
+export async function getMarketFills(address: string, limit: number = 50): Promise<MarketFill[]> {
+  return readList<MarketFill>(KEYS.fills(address), Math.min(Math.max(limit, 1), MAX_USER_FILLS));
+}
+
+/**
+ * OHLC candles over the last `limit` buckets. Buckets without trades repeat the previous close
+ * with zero volume so the chart has no holes; nothing is returned before the first trade.
+ */
+export function buildMarketCandles(trades: MarketTrade[], interval: MarketCandleInterval, limit: number, now: number = Math.floor(Date.now() / 1000)): MarketCandle[] {
+  const size = MARKET_CANDLE_INTERVALS[interval];
+  const lastBucket = Math.floor(now / size) * size;
+  const firstBucket = lastBucket - (limit - 1) * size;
+  const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+
+  // Close of the last trade before the window seeds the first candles
+  let previousClose: number | null = null;
+  const buckets = new Map<number, MarketCandle>();
+  for (const trade of sorted) {
+    if (trade.price <= 0) continue;
+    const t = Math.floor(trade.timestamp / size) * size;
+    if (t < firstBucket) {
+      previousClose = trade.price;
+      continue;
+    }
+    const candle = buckets.get(t);
+    if (!candle) {
+      buckets.set(t, {
+        t,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volumeLeaf: toNumber(trade.leaf),
+        volumeSeed: toNumber(trade.seed),
+        trades: 1,
+      });
+    } else {
+      candle.high = Math.max(candle.high, trade.price);
+      candle.low = Math.min(candle.low, trade.price);
+      candle.close = trade.price;
+      candle.volumeLeaf += toNumber(trade.leaf);
+      candle.volumeSeed += toNumber(trade.seed);
+      candle.trades++;
+    }
+  }
+
+  const candles: MarketCandle[] = [];
+  for (let t = firstBucket; t <= lastBucket; t += size) {
+    const candle = buckets.get(t);
+    if (candle) {
+      candles.push(candle);
+      previousClose = candle.close;
+    } else if (previousClose !== null) {
+      candles.push({ t, open: previousClose, high: previousClose, low: previousClose, close: previousClose, volumeLeaf: 0, volumeSeed: 0, trades: 0 });
+    }
+  }
+  return candles;
+}
+
+export async function getMarketCandles(interval: MarketCandleInterval, limit: number = 48): Promise<MarketCandle[]> {
+  return buildMarketCandles(await getMarketTrades(MAX_TRADES), interval, Math.min(Math.max(limit, 1), 200));
+}
+
+// -------------------- Price alerts --------------------
+
+export async function getMarketAlerts(address: string): Promise<MarketAlert[]> {
+  return (await redisGetJSON<MarketAlert[]>(KEYS.alerts(address))) ?? [];
+}
+
+async function saveMarketAlerts(address: string, alerts: MarketAlert[]): Promise<void> {
+  if (!redis) throw new MarketplaceError('Alerts are unavailable right now', 503);
+  await redisSetJSON(KEYS.alerts(address), alerts);
+  if (alerts.some((a) => !a.triggeredAt)) {
+    await redis.sadd(withPrefix(KEYS.alertAddresses), address.toLowerCase());
+  } else {
+    await redis.srem(withPrefix(KEYS.alertAddresses), address.toLowerCase());
+  }
+}
+
+export async function createMarketAlert(address: string, side: unknown, price: unknown): Promise<MarketAlert> {
+  if (side !== 'ask' && side !== 'bid') throw new MarketplaceError("side must be 'ask' or 'bid'");
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+    throw new MarketplaceError('price must be a positive number (LEAF per SEED)');
+  }
+  const alerts = await getMarketAlerts(address);
+  if (alerts.length >= MAX_ALERTS_PER_USER) {
+    throw new MarketplaceError(`You can keep up to ${MAX_ALERTS_PER_USER} alerts; delete one first`);
+  }
+  const alert: MarketAlert = { id: nanoid(), side, price, createdAt: Date.now() };
+  await saveMarketAlerts(address, [...alerts, alert]);
+  return alert;
+}
+
+export async function deleteMarketAlert(address: string, alertId: string): Promise<void> {
+  const alerts = await getMarketAlerts(address);
+  const remaining = alerts.filter((a) => a.id !== alertId);
+  if (remaining.length === alerts.length) throw new MarketplaceError('Alert not found', 404);
+  await saveMarketAlerts(address, remaining);
+}
+
+export function bestBookPrices(orders: MarketplaceOrder[]): { bestAsk: number | null; bestBid: number | null } {
+  let bestAsk: number | null = null;
+  let bestBid: number | null = null;
+  for (const order of orders) {
+    const price = orderPriceLeafPerSeed({ sellToken: order.sellToken, amount: order.amount.toString(), amountAsk: order.amountAsk.toString() });
+    if (price <= 0) continue;
+    if (order.sellToken === 1) bestAsk = bestAsk === null ? price : Math.min(bestAsk, price);
+    else bestBid = bestBid === null ? price : Math.max(bestBid, price);
+  }
+  return { bestAsk, bestBid };
+}
+
+const formatPrice = (price: number) => price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+/**
+ * Fire every armed alert whose side of the live book has crossed its price. Alerts are one-shot:
+ * they stay listed as triggered until the player deletes them or sets a new one.
+ */
+export async function checkMarketAlerts(now: number = Date.now()): Promise<{ checked: number; triggered: number }> {
+  if (!redis) return { checked: 0, triggered: 0 };
+  const addresses = ((await redis.smembers(withPrefix(KEYS.alertAddresses))) as string[]) || [];
+  if (addresses.length === 0) return { checked: 0, triggered: 0 };
+
+  const { bestAsk, bestBid } = bestBookPrices(await getMarketplaceActiveOrders());
+  let triggered = 0;
+
+  for (const address of addresses) {
+    try {
+      const alerts = await getMarketAlerts(address);
+      const fired: MarketAlert[] = [];
+      const updated = alerts.map((alert) => {
+        if (alert.triggeredAt) return alert;
+        const hit = alert.side === 'ask'
+          ? bestAsk !== null && bestAsk <= alert.price
+          : bestBid !== null && bestBid >= alert.price;
+        if (!hit) return alert;
+        const next = { ...alert, triggeredAt: now, triggeredPrice: (alert.side === 'ask' ? bestAsk : bestBid)! };
+        fired.push(next);
+        return next;
+      });
+      if (fired.length === 0) continue;
+
+      await saveMarketAlerts(address, updated);
+      triggered += fired.length;
+      for (const alert of fired) {
+        await deliverToAddress(address, {
+          title: alert.side === 'ask' ? '📉 Marketplace ask alert' : '📈 Marketplace bid alert',
+          body: alert.side === 'ask'
+            ? `Best ask (sell LEAF) is now ${formatPrice(alert.triggeredPrice!)} LEAF/SEED, at or below your ${formatPrice(alert.price)}.`
+            : `Best bid (sell SEED) is now ${formatPrice(alert.triggeredPrice!)} LEAF/SEED, at or above your ${formatPrice(alert.price)}.`,
+          targetUrl: CLIENT_ENV.APP_URL,
+          category: 'marketplace',
+        });
+      }
+    } catch (error) {
+      console.warn('[marketplace] alert check failed for', address, error);
+    }
+  }
+
+  return { checked: addresses.length, triggered };
+}
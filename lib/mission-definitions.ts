@@ -0,0 +1,220 @@
+import type {
+  GmDay,
+  GmMissionDay,
+  GmMissionSet,
+  GmProofVerifierId,
+  GmSectionDefinition,
+  GmTaskDefinition,
+  GmTrack,
+} from './gamification-types';
+
+/**
+ * Mission set definitions shared by the missions API, the admin editor and the tasks dialog.
+ *
+ * A set belongs to the daily or weekly track and is active over an optional UTC day range.
+ * When several sets of a track are active on the same day they rotate: one per day for the
+ * daily track, one per week for the weekly track. With no active daily set the built-in
+ * `classic` set applies; the weekly track is simply empty.
+ */
+
+export const GM_PROOF_VERIFIER_IDS: readonly GmProofVerifierId[] = [
+  'swap_into_seed',
+  'stake_seed',
+  'claim_stake_rewards',
+  'create_market_order',
+  'apply_warehouse',
+  'start_quest',
+  'claim_production',
+  'casino_game',
+  'buy_garden_items',
+  'buy_shield',
+  'kill_plant',
+  'play_arcade',
+];
+
+export const CLASSIC_MISSION_SET_ID = 'classic';
+
+const classicTask = (
+  id: string,
+  section: string,
+  label: string,
+  verifier: GmProofVerifierId | null,
+  requiredCount = 1
+): GmTaskDefinition => ({ id, section, label, points: 0, requiredCount, verifier });
+
+/** The original four-section daily missions (100 Rocks). */
+export const CLASSIC_MISSION_SET: GmMissionSet = {
+  id: CLASSIC_MISSION_SET_ID,
+  track: 'daily',
+  title: "Farmer's Tasks",
+  sections: [
+    { key: 's1', title: 'General', points: 30 },
+    { key: 's2', title: 'Social', points: 20 },
+    { key: 's3', title: 'Land', points: 25 },
+    { key: 's4', title: 'Plant', points: 25 },
+  ],
+  tasks: [
+    classicTask('s1_make_swap', 's1', 'Make a SEED swap', 'swap_into_seed'),
+    classicTask('s1_stake_seed', 's1', 'Stake SEED', 'stake_seed'),
+    classicTask('s1_claim_stake', 's1', 'Claim stake rewards', 'claim_stake_rewards'),
+    classicTask('s1_place_order', 's1', 'Place a SEED/LEAF order', 'create_market_order'),
+    classicTask('s2_follow_player', 's2', 'Follow a player', null),
+    classicTask('s2_chat_message', 's2', 'Send a message in public chat', null),
+    classicTask('s2_visit_profile', 's2', 'Visit a profile', null),
+    classicTask('s3_apply_resources', 's3', 'Apply resources/production to a plant', 'apply_warehouse'),
+    classicTask('s3_send_quest', 's3', 'Send a farmer on a quest', 'start_quest'),
+    classicTask('s3_claim_production', 's3', 'Claim production from any building', 'claim_production'),
+    classicTask('s3_play_casino_game', 's3', 'Play a casino game (roulette/blackjack)', 'casino_game'),
+    classicTask('s4_buy10_elements', 's4', 'Buy at least 10 elements', 'buy_garden_items', 10),
+    classicTask('s4_buy_shield', 's4', 'Buy a shield/fence', 'buy_shield'),
+    classicTask('s4_collect_star', 's4', 'Collect a star by killing a plant', 'kill_plant'),
+    classicTask('s4_play_arcade', 's4', 'Play an arcade game (Box or Spin)', 'play_arcade'),
+  ],
+  startsOn: null,
+  endsOn: null,
+  updatedAt: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const ID_RE = /^[a-z0-9][a-z0-9_-]{1,47}$/;
+
+const dayNumber = (day: GmDay) => Math.floor(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+
+/** Monday (UTC) of the week containing `day`. */
+export function weekStartOf(day: GmDay): GmDay {
+  const date = new Date(`${day}T00:00:00Z`);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().slice(0, 10);
+}
+
+export const isMissionSetActive = (set: GmMissionSet, day: GmDay) =>
+  (!set.startsOn || set.startsOn <= day) && (!set.endsOn || day <= set.endsOn);
+
+/** The set a track uses on `day`, rotating between overlapping sets. */
+export function selectActiveSet(sets: GmMissionSet[], track: GmTrack, day: GmDay): GmMissionSet | null {
+  const active = sets
+    .filter((s) => s.track === track && isMissionSetActive(s, day))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  if (active.length === 0) return track === 'daily' ? CLASSIC_MISSION_SET : null;
+  const period = track === 'daily' ? dayNumber(day) : Math.floor(dayNumber(weekStartOf(day)) / 7);
+  return active[((period % active.length) + active.length) % active.length];
+}
+
+export const missionSetMaxPoints = (set: GmMissionSet) =>
+  set.sections.reduce((sum, s) => sum + s.points, 0) + set.tasks.reduce((sum, t) => sum + t.points, 0);
+
+export const isTaskComplete = (day: GmMissionDay, task: GmTaskDefinition) =>
+  (day.progress[task.id] || 0) >= task.requiredCount;
+
+export function createEmptyProgress(set: GmMissionSet, date: GmDay): GmMissionDay {
+  return { date, track: set.track, setId: set.id, progress: {}, sectionsDone: {}, pts: 0 };
+}
+
+/**
+ * Record `count` more of a task and award any task/section points that became due.
+ * Returns the points gained; a task outside the set leaves the progress untouched.
+ */
+export function applyTaskProgress(day: GmMissionDay, set: GmMissionSet, taskId: string, count: number): number {
+  const task = set.tasks.find((t) => t.id === taskId);
+  if (!task) return 0;
+
+  const wasComplete = isTaskComplete(day, task);
+  const increment = Number.isFinite(count) ? Math.max(1, Math.floor(count)) : 1;
+  day.progress[task.id] = (day.progress[task.id] || 0) + increment;
+
+  let award = !wasComplete && isTaskComplete(day, task) ? task.points : 0;
+  for (const section of set.sections) {
+    if (day.sectionsDone[section.key]) continue;
+    const sectionTasks = set.tasks.filter((t) => t.section === section.key);
+    if (sectionTasks.length > 0 && sectionTasks.every((t) => isTaskComplete(day, t))) {
+      day.sectionsDone[section.key] = true;
+      award += section.points;
+    }
+  }
+
+  const max = missionSetMaxPoints(set);
+  const before = day.pts;
+  day.pts = Math.min(max, day.pts + award);
+  if (day.pts >= max && !day.completedAt) day.completedAt = Date.now();
+  return day.pts - before;
+}
+
+export class MissionSetError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'MissionSetError';
+    this.status = status;
+  }
+}
+
+const nonNegativeInt = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+const optionalDay = (value: unknown, field: string): GmDay | null => {
+  if (value == null || value === '') return null;
+  if (typeof value !== 'string' || !DAY_RE.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new MissionSetError(`${field} must be a YYYY-MM-DD date`);
+  }
+  return value;
+};
+
+/** Normalize an admin-submitted set, throwing MissionSetError on anything unusable. */
+export function validateMissionSet(input: any): GmMissionSet {
+  const id = typeof input?.id === 'string' ? input.id.trim() : '';
+  if (!ID_RE.test(id)) {
+    throw new MissionSetError('Set id must be 2-48 lowercase letters, digits, "-" or "_"');
+  }
+  if (id === CLASSIC_MISSION_SET_ID) {
+    throw new MissionSetError('The classic set is built in; create a new set instead');
+  }
+  const track: GmTrack = input?.track === 'weekly' ? 'weekly' : 'daily';
+  const title = typeof input?.title === 'string' && input.title.trim() ? input.title.trim().slice(0, 80) : id;
+
+  const sections: GmSectionDefinition[] = Array.isArray(input?.sections)
+    ? input.sections.map((s: any, i: number) => {
+      const key = typeof s?.key === 'string' ? s.key.trim() : '';
+      if (!ID_RE.test(key)) throw new MissionSetError(`Section ${i + 1} needs a key like "s1"`);
+      return {
+        key,
+        title: typeof s?.title === 'string' && s.title.trim() ? s.title.trim().slice(0, 60) : key,
+        points: nonNegativeInt(s?.points, 0),
+      };
+    })
+    : [];
+  if (sections.length === 0) throw new MissionSetError('A set needs at least one section');
+  const sectionKeys = new Set(sections.map((s) => s.key));
+  if (sectionKeys.size !== sections.length) throw new MissionSetError('Section keys must be unique');
+
+  const tasks: GmTaskDefinition[] = Array.isArray(input?.tasks)
+    ? input.tasks.map((t: any, i: number) => {
+      const taskId = typeof t?.id === 'string' ? t.id.trim() : '';
+      if (!ID_RE.test(taskId)) throw new MissionSetError(`Task ${i + 1} needs an id like "s1_make_swap"`);
+      if (!sectionKeys.has(t?.section)) throw new MissionSetError(`Task ${taskId} refers to an unknown section`);
+      const verifier = t?.verifier ? String(t.verifier) : null;
+      if (verifier && !GM_PROOF_VERIFIER_IDS.includes(verifier as GmProofVerifierId)) {
+        throw new MissionSetError(`Task ${taskId} uses an unknown verifier "${verifier}"`);
+      }
+      return {
+        id: taskId,
+        section: t.section,
+        label: typeof t?.label === 'string' && t.label.trim() ? t.label.trim().slice(0, 120) : taskId,
+        points: nonNegativeInt(t?.points, 0),
+        requiredCount: Math.max(1, nonNegativeInt(t?.requiredCount, 1)),
+        verifier: verifier as GmProofVerifierId | null,
+      };
+    })
+    : [];
+  if (tasks.length === 0) throw new MissionSetError('A set needs at least one task');
+  if (new Set(tasks.map((t) => t.id)).size !== tasks.length) throw new MissionSetError('Task ids must be unique');
+
+  const startsOn = optionalDay(input?.startsOn, 'startsOn');
+  const endsOn = optionalDay(input?.endsOn, 'endsOn');
+  if (startsOn && endsOn && endsOn < startsOn) throw new MissionSetError('endsOn must not be before startsOn');
+
+  return { id, track, title, sections, tasks, startsOn, endsOn, updatedAt: Date.now() };
+}
@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, encodeFunctionData, parseAbi, parseAbiItem, type AbiEvent, type Hex } from 'viem';
+import {
+  LAND_CONTRACT_ADDRESS,
+  PIXOTCHI_NFT_ADDRESS,
+  PIXOTCHI_TOKEN_ADDRESS,
+  SEED_PAIR_ADDRESS,
+  STAKE_CONTRACT_ADDRESS,
+  UNISWAP_ROUTER_ADDRESS,
+} from './contracts';
+import type { GmProofVerifierId } from './gamification-types';
+import {
+  claimProofHash,
+  MISSION_PROOF_VERIFIERS,
+  releaseProofHash,
+  verifyReceipt,
+  type MissionProofContext,
+  type ProofReceipt,
+} from './mission-proofs';
+
+const PLAYER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const BUNDLER = '0x3333333333333333333333333333333333333333';
+const AGGREGATOR = '0x4444444444444444444444444444444444444444';
+
+const EVENTS = {
+  Transfer: parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)'),
+  TokensStaked: parseAbiItem('event TokensStaked(address indexed staker, uint256 amount)'),
+  RewardsClaimed: parseAbiItem('event RewardsClaimed(address indexed staker, uint256 rewardAmount)'),
+  OrderCreated: parseAbiItem('event OrderCreated(uint256 orderId, address seller, uint8 sellToken, uint256 amount, uint256 amountAsk)'),
+  WareHouseLifetimeAssigned: parseAbiItem('event WareHouseLifetimeAssigned(uint256 indexed landId, uint256 indexed plantId, uint256 lifetime, uint256 newLifetime)'),
+  WareHousePlantPointsAssigned: parseAbiItem('event WareHousePlantPointsAssigned(uint256 indexed landId, uint256 indexed plantId, uint256 addedPoints, uint256 newPlantPoints)'),
+  QuestStarted: parseAbiItem('event QuestStarted(uint256 indexed landId, uint256 indexed farmerSlotId, uint8 difficulty, uint256 startBlock, uint256 endBlock)'),
+  VillageProductionClaimed: parseAbiItem('event VillageProductionClaimed(uint256 indexed landId, uint8 indexed buildingId)'),
+  RouletteBetPlaced: parseAbiItem('event RouletteBetPlaced(uint256 indexed landId, address indexed player, uint8 betType, uint256 amount, uint256 betIndex, uint256 revealBlock, address bettingToken)'),
+  RouletteSpinResult: parseAbiItem('event RouletteSpinResult(uint256 indexed landId, address indexed player, uint8 winningNumber, bool won, uint256 payout, address bettingToken)'),
+  BlackjackResult: parseAbiItem('event BlackjackResult(uint256 indexed landId, address indexed player, uint8 result, uint8 playerFinalValue, uint8 dealerFinalValue, uint256 payout, address bettingToken)'),
+  ItemConsumed: parseAbiItem('event ItemConsumed(uint256 nftId, address giver, uint256 itemId)'),
+  ShopItemPurchased: parseAbiItem('event ShopItemPurchased(uint256 indexed nftId, address indexed buyer, uint256 indexed itemId)'),
+  Killed: parseAbiItem('event Killed(uint256 nftId, uint256 deadId, string loserName, uint256 reward, address killer, string winnerName)'),
+  Played: parseAbiItem('event Played(uint256 indexed id, uint256 points, uint256 timeExtension, string gameName)'),
+  PlayedV2: parseAbiItem('event PlayedV2(uint256 indexed id, int256 points, int256 timeExtension, string gameName)'),
+} satisfies Record<string, AbiEvent>;
+
+type Log = ProofReceipt['logs'][number];
+
+/** Encode a log the way the contract would emit it. */
+function eventLog<E extends keyof typeof EVENTS>(address: `0x${string}`, name: E, args: Record<string, unknown>): Log {
+  const event: AbiEvent = EVENTS[name];
+  const topics = encodeEventTopics({ abi: [event], eventName: event.name, args } as any) as [Hex, ...Hex[]];
+  const data = event.inputs.filter((i) => !i.indexed);
+  return { address, topics, data: encodeAbiParameters(data, data.map((i) => args[i.name!])) };
+}
+
+const seedTransfer = (from: string, to: string, value = BigInt(10) ** BigInt(18)) =>
+  eventLog(PIXOTCHI_TOKEN_ADDRESS, 'Transfer', { from, to, value });
+
+const FENCE_CALLDATA = encodeFunctionData({
+  abi: parseAbi(['function fenceV2Purchase(uint256 plantId, uint256 durationDays)']),
+  functionName: 'fenceV2Purchase',
+  args: [BigInt(7), BigInt(3)],
+});
+
+type Fixture = {
+  logs: Log[];
+  from?: `0x${string}`;
+  /** `${contract}:${tokenId}` → owner */
+  owners?: Record<string, string>;
+  input?: Hex;
+};
+
+function context({ logs, from = BUNDLER, owners = {}, input = '0x' }: Fixture, extra: Partial<MissionProofContext> = {}): MissionProofContext {
+  return {
+    address: PLAYER,
+    receipt: { status: 'success', from, logs },
+    getInput: async () => input,
+    ownerOf: async (contract, tokenId) => owners[`${contract}:${tokenId}`] ?? null,
+    getBlockTimestamp: async () => 1_700_000_000,
+    ...extra,
+  };
+}
+
+const ownedLand = { [`${LAND_CONTRACT_ADDRESS}:5`]: PLAYER, [`${LAND_CONTRACT_ADDRESS}:6`]: OTHER };
+const ownedPlant = { [`${PIXOTCHI_NFT_ADDRESS}:42`]: PLAYER, [`${PIXOTCHI_NFT_ADDRESS}:43`]: OTHER };
+
+/** A receipt each verifier credits (with the expected count) and one it must reject. */
+const FIXTURES: Record<GmProofVerifierId, { valid: Fixture; count: number; invalid: Fixture }> = {
+  swap_into_seed: {
+    valid: { logs: [seedTransfer(SEED_PAIR_ADDRESS, PLAYER)] },
+    count: 1,
+    invalid: { logs: [seedTransfer(OTHER, PLAYER)] },
+  },
+  stake_seed: {
+    valid: { logs: [seedTransfer(PLAYER, STAKE_CONTRACT_ADDRESS), eventLog(STAKE_CONTRACT_ADDRESS, 'TokensStaked', { staker: PLAYER, amount: BigInt(1) })] },
+    count: 1,
+    invalid: { logs: [eventLog(STAKE_CONTRACT_ADDRESS, 'TokensStaked', { staker: OTHER, amount: BigInt(1) })] },
+  },
+  claim_stake_rewards: {
+    valid: { logs: [eventLog(STAKE_CONTRACT_ADDRESS, 'RewardsClaimed', { staker: PLAYER, rewardAmount: BigInt(1) })] },
+    count: 1,
+    // Right event, wrong contract
+    invalid: { logs: [eventLog(LAND_CONTRACT_ADDRESS, 'RewardsClaimed', { staker: PLAYER, rewardAmount: BigInt(1) })] },
+  },
+  create_market_order: {
+    valid: { logs: [eventLog(LAND_CONTRACT_ADDRESS, 'OrderCreated', { orderId: BigInt(1), seller: PLAYER, sellToken: 0, amount: BigInt(5), amountAsk: BigInt(6) })] },
+    count: 1,
+    invalid: { logs: [eventLog(LAND_CONTRACT_ADDRESS, 'OrderCreated', { orderId: BigInt(1), seller: OTHER, sellToken: 0, amount: BigInt(5), amountAsk: BigInt(6) })] },
+  },
+  apply_warehouse: {
+    valid: {
+      logs: [
+        eventLog(LAND_CONTRACT_ADDRESS, 'WareHouseLifetimeAssigned', { landId: BigInt(5), plantId: BigInt(42), lifetime: BigInt(1), newLifetime: BigInt(2) }),
+        eventLog(LAND_CONTRACT_ADDRESS, 'WareHousePlantPointsAssigned', { landId: BigInt(5), plantId: BigInt(42), addedPoints: BigInt(1), newPlantPoints: BigInt(2) }),
+      ],
+      owners: ownedLand,
+    },
+    count: 2,
+    invalid: {
+      logs: [eventLog(LAND_CONTRACT_ADDRESS, 'WareHouseLifetimeAssigned', { landId: BigInt(6), plantId: BigInt(42), lifetime: BigInt(1), newLifetime: BigInt(2) })],
+      owners: ownedLand,
+    },
+  },
+  start_quest: {
+    valid: {
+      logs: [eventLog(LAND_CONTRACT_ADDRESS, 'QuestStarted', { landId: BigInt(5), farmerSlotId: BigInt(0), difficulty: 1, startBlock: BigInt(10), endBlock: BigInt(20) })],
+      owners: ownedLand,
+    },
+    count: 1,
+    invalid: {
+      logs: [eventLog(LAND_CONTRACT_ADDRESS, 'QuestStarted', { landId: BigInt(6), farmerSlotId: BigInt(0), difficulty: 1, startBlock: BigInt(10), endBlock: BigInt(20) })],
+      owners: ownedLand,
+    },
+  },
+  claim_production: {
+    valid: { logs: [eventLog(LAND_CONTRACT_ADDRESS, 'VillageProductionClaimed', { landId: BigInt(5), buildingId: 3 })], owners: ownedLand },
+    count: 1,
+    invalid: { logs: [eventLog(LAND_CONTRACT_ADDRESS, 'VillageProductionClaimed', { landId: BigInt(6), buildingId: 3 })], owners: ownedLand },
+  },
+  casino_game: {
+    // A bet and its reveal are still one game
+    valid: {
+      logs: [
+        eventLog(LAND_CONTRACT_ADDRESS, 'RouletteBetPlaced', { landId: BigInt(6), player: PLAYER, betType: 0, amount: BigInt(1), betIndex: BigInt(0), revealBlock: BigInt(9), bettingToken: PIXOTCHI_TOKEN_ADDRESS }),
+        eventLog(LAND_CONTRACT_ADDRESS, 'RouletteSpinResult', { landId: BigInt(6), player: PLAYER, winningNumber: 7, won: false, payout: BigInt(0), bettingToken: PIXOTCHI_TOKEN_ADDRESS }),
+      ],
+    },
+    count: 1,
+    invalid: {
+      logs: [eventLog(LAND_CONTRACT_ADDRESS, 'BlackjackResult', { landId: BigInt(6), player: OTHER, result: 1, playerFinalValue: 20, dealerFinalValue: 18, payout: BigInt(2), bettingToken: PIXOTCHI_TOKEN_ADDRESS })],
+    },
+  },
+  buy_garden_items: {
+    valid: { logs: [1, 2, 3].map((itemId) => eventLog(PIXOTCHI_NFT_ADDRESS, 'ItemConsumed', { nftId: BigInt(42), giver: PLAYER, itemId: BigInt(itemId) })) },
+    count: 3,
+    invalid: { logs: [eventLog(PIXOTCHI_NFT_ADDRESS, 'ItemConsumed', { nftId: BigInt(42), giver: OTHER, itemId: BigInt(1) })] },
+  },
+  buy_shield: {
+    valid: { logs: [eventLog(PIXOTCHI_NFT_ADDRESS, 'ShopItemPurchased', { nftId: BigInt(42), buyer: PLAYER, itemId: BigInt(1) })] },
+    count: 1,
+    // Paid SEED, but the transaction never called fenceV2Purchase
+    invalid: { logs: [seedTransfer(PLAYER, PIXOTCHI_NFT_ADDRESS)], input: '0xdeadbeef' },
+  },
+  kill_plant: {
+    valid: { logs: [eventLog(PIXOTCHI_NFT_ADDRESS, 'Killed', { nftId: BigInt(42), deadId: BigInt(43), loserName: 'b', reward: BigInt(1), killer: PLAYER, winnerName: 'a' })] },
+    count: 1,
+    invalid: { logs: [eventLog(PIXOTCHI_NFT_ADDRESS, 'Killed', { nftId: BigInt(43), deadId: BigInt(42), loserName: 'a', reward: BigInt(1), killer: OTHER, winnerName: 'b' })] },
+  },
+  play_arcade: {
+    valid: {
+      logs: [
+        eventLog(PIXOTCHI_NFT_ADDRESS, 'Played', { id: BigInt(42), points: BigInt(10), timeExtension: BigInt(0), gameName: 'box' }),
+        eventLog(PIXOTCHI_NFT_ADDRESS, 'PlayedV2', { id: BigInt(42), points: BigInt(-5), timeExtension: BigInt(60), gameName: 'spin' }),
+      ],
+      owners: ownedPlant,
+    },
+    count: 2,
+    invalid: {
+      logs: [eventLog(PIXOTCHI_NFT_ADDRESS, 'PlayedV2', { id: BigInt(43), points: BigInt(1), timeExtension: BigInt(0), gameName: 'spin' })],
+      owners: ownedPlant,
+    },
+  },
+};
+
+describe('mission proof verifiers', () => {
+  const ids = Object.keys(MISSION_PROOF_VERIFIERS) as GmProofVerifierId[];
+
+  it('has a fixture for every verifier', () => {
+    expect(Object.keys(FIXTURES).sort()).toEqual([...ids].sort());
+  });
+
+  it.each(ids)('%s credits a matching receipt', async (id) => {
+    const { valid, count } = FIXTURES[id];
+    expect(await verifyReceipt(id, context(valid))).toBe(count);
+  });
+
+  it.each(ids)('%s rejects a receipt for someone else', async (id) => {
+    expect(await verifyReceipt(id, context(FIXTURES[id].invalid))).toBe(0);
+  });
+
+  it.each(ids)('%s rejects a reverted receipt', async (id) => {
+    const ctx = context(FIXTURES[id].valid);
+    expect(await verifyReceipt(id, { ...ctx, receipt: { ...ctx.receipt, status: 'reverted' } })).toBe(0);
+  });
+});
+
+describe('proof age', () => {
+  const fixture = FIXTURES.stake_seed.valid;
+  const minedAt = 1_700_000_000;
+
+  it('rejects a transaction mined before the mission period', async () => {
+    const ctx = context(fixture, { getBlockTimestamp: async () => minedAt, notBefore: (minedAt + 1) * 1000 });
+    expect(await verifyReceipt('stake_seed', ctx)).toBe(0);
+  });
+
+  it('accepts a transaction mined during the period', async () => {
+    const ctx = context(fixture, { getBlockTimestamp: async () => minedAt, notBefore: minedAt * 1000 });
+    expect(await verifyReceipt('stake_seed', ctx)).toBe(1);
+  });
+});
+
+describe('swap_into_seed', () => {
+  it('accepts SEED from the router', async () => {
+    expect(await verifyReceipt('swap_into_seed', context({ logs: [seedTransfer(UNISWAP_ROUTER_ADDRESS, PLAYER)] }))).toBe(1);
+  });
+
+  it('accepts an aggregator route the player sent themselves', async () => {
+    const logs = [seedTransfer(SEED_PAIR_ADDRESS, AGGREGATOR), seedTransfer(AGGREGATOR, PLAYER)];
+    expect(await verifyReceipt('swap_into_seed', context({ logs, from: PLAYER }))).toBe(1);
+    // Relayed by someone else, only a delivery straight from the pair counts
+    expect(await verifyReceipt('swap_into_seed', context({ logs, from: BUNDLER }))).toBe(0);
+  });
+
+  it('ignores plain transfers even when the player sent the transaction', async () => {
+    expect(await verifyReceipt('swap_into_seed', context({ logs: [seedTransfer(OTHER, PLAYER)], from: PLAYER }))).toBe(0);
+    expect(await verifyReceipt('swap_into_seed', context({ logs: [seedTransfer(PLAYER, PLAYER)], from: PLAYER }))).toBe(0);
+  });
+
+  it('ignores zero-value transfers', async () => {
+    expect(await verifyReceipt('swap_into_seed', context({ logs: [seedTransfer(SEED_PAIR_ADDRESS, PLAYER, BigInt(0))] }))).toBe(0);
+  });
+});
+
+describe('buy_shield', () => {
+  it('accepts a SEED-paid fenceV2Purchase', async () => {
+    const fixture: Fixture = { logs: [seedTransfer(PLAYER, PIXOTCHI_NFT_ADDRESS)], input: FENCE_CALLDATA };
+    expect(await verifyReceipt('buy_shield', context(fixture))).toBe(1);
+  });
+
+  it('needs the player to have paid', async () => {
+    const fixture: Fixture = { logs: [seedTransfer(OTHER, PIXOTCHI_NFT_ADDRESS)], input: FENCE_CALLDATA };
+    expect(await verifyReceipt('buy_shield', context(fixture))).toBe(0);
+  });
+});
+
+describe('claimProofHash', () => {
+  it('credits a transaction hash once', async () => {
+    const txHash = `0x${'ab'.repeat(32)}`;
+    expect(await claimProofHash(txHash, 's1_make_swap', PLAYER)).toBe(true);
+    expect(await claimProofHash(txHash, 's1_make_swap', OTHER)).toBe(false);
+    await releaseProofHash(txHash);
+    expect(await claimProofHash(txHash, 's1_make_swap', PLAYER)).toBe(true);
+  });
+});
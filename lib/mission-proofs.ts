@@ -0,0 +1,303 @@
+import { parseAbi, parseAbiItem, parseEventLogs, toFunctionSelector, type Hex, type Log } from 'viem';
+import {
+  getReadClient,
+  LAND_CONTRACT_ADDRESS,
+  PIXOTCHI_NFT_ADDRESS,
+  PIXOTCHI_TOKEN_ADDRESS,
+  SEED_PAIR_ADDRESS,
+  STAKE_CONTRACT_ADDRESS,
+  UNISWAP_ROUTER_ADDRESS,
+} from './contracts';
+import { redis, redisDel, withPrefix } from './redis';
+import type { GmProofVerifierId, GmTaskId } from './gamification-types';
+
+/**
+ * On-chain proof verification for daily mission tasks.
+ *
+ * Mission set tasks name a verifier (see lib/mission-definitions.ts) that decodes the receipt logs for the
+ * contract and event the task is about and checks they were emitted for the player. Player
+ * binding goes through event arguments (or token ownership for events keyed by land/plant id),
+ * never through `receipt.from`, so smart-wallet transactions relayed by a bundler verify the
+ * same way as EOA ones. A hash can complete one task once (see `claimProofHash`), and only
+ * when it was mined after the mission period began.
+ */
+
+const SEED_EVENTS = [
+  parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)'),
+] as const;
+
+const STAKE_EVENTS = [
+  parseAbiItem('event TokensStaked(address indexed staker, uint256 amount)'),
+  parseAbiItem('event RewardsClaimed(address indexed staker, uint256 rewardAmount)'),
+] as const;
+
+const LAND_EVENTS = [
+  parseAbiItem('event OrderCreated(uint256 orderId, address seller, uint8 sellToken, uint256 amount, uint256 amountAsk)'),
+  parseAbiItem('event WareHouseLifetimeAssigned(uint256 indexed landId, uint256 indexed plantId, uint256 lifetime, uint256 newLifetime)'),
+  parseAbiItem('event WareHousePlantPointsAssigned(uint256 indexed landId, uint256 indexed plantId, uint256 addedPoints, uint256 newPlantPoints)'),
+  parseAbiItem('event QuestStarted(uint256 indexed landId, uint256 indexed farmerSlotId, uint8 difficulty, uint256 startBlock, uint256 endBlock)'),
+  parseAbiItem('event VillageProductionClaimed(uint256 indexed landId, uint8 indexed buildingId)'),
+  parseAbiItem('event RouletteBetPlaced(uint256 indexed landId, address indexed player, uint8 betType, uint256 amount, uint256 betIndex, uint256 revealBlock, address bettingToken)'),
+  parseAbiItem('event RouletteSpinResult(uint256 indexed landId, address indexed player, uint8 winningNumber, bool won, uint256 payout, address bettingToken)'),
+  parseAbiItem('event BlackjackBetPlaced(uint256 indexed landId, address indexed player, uint256 amount, address bettingToken)'),
+  parseAbiItem('event BlackjackResult(uint256 indexed landId, address indexed player, uint8 result, uint8 playerFinalValue, uint8 dealerFinalValue, uint256 payout, address bettingToken)'),
+  parseAbiItem('event BlackjackGameComplete(uint256 indexed landId, address indexed player, uint8 result, uint8[] playerCards, uint8[] splitCards, uint8[] dealerCards, uint8 playerFinalValue, uint8 splitFinalValue, uint8 dealerFinalValue, uint256 payout, address bettingToken)'),
+] as const;
+
+const NFT_EVENTS = [
+  parseAbiItem('event ItemConsumed(uint256 nftId, address giver, uint256 itemId)'),
+  parseAbiItem('event ShopItemPurchased(uint256 indexed nftId, address indexed buyer, uint256 indexed itemId)'),
+  parseAbiItem('event Killed(uint256 nftId, uint256 deadId, string loserName, uint256 reward, address killer, string winnerName)'),
+  parseAbiItem('event Played(uint256 indexed id, uint256 points, uint256 timeExtension, string gameName)'),
+  parseAbiItem('event PlayedV2(uint256 indexed id, int256 points, int256 timeExtension, string gameName)'),
+] as const;
+
+const OWNER_OF_ABI = parseAbi(['function ownerOf(uint256 tokenId) view returns (address)']);
+
+// Contracts SEED leaves when it is bought on a DEX
+const SEED_SWAP_SOURCES = [SEED_PAIR_ADDRESS, UNISWAP_ROUTER_ADDRESS];
+
+// fenceV2Purchase emits no event in our ABI, so fence purchases are recognised by calldata
+const FENCE_V2_PURCHASE_SELECTOR = toFunctionSelector('function fenceV2Purchase(uint256 plantId, uint256 durationDays)');
+
+// Longer than any mission window so a hash can't come back once its key expires
+const PROOF_HASH_TTL_SECONDS = 45 * 24 * 60 * 60;
+
+const KEYS = {
+  proofHash: (txHash: string) => `pixotchi:gm:missions:proof-hash:${txHash.toLowerCase()}`,
+};
+
+/** The parts of a transaction receipt the verifiers read; recorded receipts can be passed as-is. */
+export type ProofReceipt = {
+  status: 'success' | 'reverted';
+  /** Transaction sender: the player for EOA transactions, a bundler for smart wallets */
+  from: `0x${string}`;
+  logs: Array<Pick<Log, 'address' | 'data' | 'topics'>>;
+};
+
+export type MissionProofContext = {
+  /** Player the task is credited to */
+  address: string;
+  receipt: ProofReceipt;
+  /** Raw transaction input, only fetched by verifiers that inspect calldata */
+  getInput: () => Promise<Hex>;
+  ownerOf: (contract: `0x${string}`, tokenId: bigint) => Promise<string | null>;
+  /** Unix seconds of the block the transaction was mined in */
+  getBlockTimestamp: () => Promise<number>;
+  /** Start of the mission period (ms); transactions mined earlier are rejected */
+  notBefore?: number;
+};
+
+/** Number of matching actions the transaction performed for the player (0 = proof rejected). */
+export type MissionProofVerifier = (ctx: MissionProofContext) => Promise<number>;
+
+const sameAddress = (a: string | undefined | null, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+function logsFrom(
+  ctx: MissionProofContext,
+  contract: `0x${string}`,
+  abi: readonly unknown[],
+  eventName: string | string[]
+) {
+  const logs = ctx.receipt.logs.filter((log) => sameAddress(log.address, contract));
+  return parseEventLogs({ abi: abi as any, logs: logs as Log[], eventName: eventName as any, strict: true }) as Array<{
+    eventName: string;
+    args: Record<string, any>;
+  }>;
+}
+
+async function countOwned(
+  ctx: MissionProofContext,
+  contract: `0x${string}`,
+  tokenIds: bigint[]
+): Promise<number> {
+  const unique = Array.from(new Set(tokenIds.map(String))).map((id) => BigInt(id));
+  const owners = await Promise.all(unique.map((id) => ctx.ownerOf(contract, id)));
+  const owned = new Set(unique.filter((_, i) => sameAddress(owners[i], ctx.address)).map(String));
+  return tokenIds.filter((id) => owned.has(String(id))).length;
+}
+
+const byPlayer = (field: string) => (events: Array<{ args: Record<string, any> }>, address: string) =>
+  events.filter((e) => sameAddress(e.args[field], address)).length;
+
+export const MISSION_PROOF_VERIFIERS: Record<GmProofVerifierId, MissionProofVerifier> = {
+  // SEED arriving in the player's wallet straight from the pair or router. Aggregators deliver
+  // through their own contracts, so those transfers count when the player sent the transaction
+  // themselves and SEED left the pair in it.
+  swap_into_seed: async (ctx) => {
+    const transfers = logsFrom(ctx, PIXOTCHI_TOKEN_ADDRESS, SEED_EVENTS, 'Transfer');
+    const fromSource = (e: { args: Record<string, any> }) => SEED_SWAP_SOURCES.some((s) => sameAddress(e.args.from, s));
+    const routedByPlayer = sameAddress(ctx.receipt.from, ctx.address) && transfers.some(fromSource);
+    return transfers.filter(
+      (e) =>
+        sameAddress(e.args.to, ctx.address) &&
+        !sameAddress(e.args.from, ctx.address) &&
+        BigInt(e.args.value) > BigInt(0) &&
+        (routedByPlayer || fromSource(e))
+    ).length;
+  },
+
+  stake_seed: async (ctx) => byPlayer('staker')(logsFrom(ctx, STAKE_CONTRACT_ADDRESS, STAKE_EVENTS, 'TokensStaked'), ctx.address),
+
+  claim_stake_rewards: async (ctx) => byPlayer('staker')(logsFrom(ctx, STAKE_CONTRACT_ADDRESS, STAKE_EVENTS, 'RewardsClaimed'), ctx.address),
+
+  create_market_order: async (ctx) => byPlayer('seller')(logsFrom(ctx, LAND_CONTRACT_ADDRESS, LAND_EVENTS, 'OrderCreated'), ctx.address),
+
+  apply_warehouse: async (ctx) => {
+    const events = logsFrom(ctx, LAND_CONTRACT_ADDRESS, LAND_EVENTS, ['WareHouseLifetimeAssigned', 'WareHousePlantPointsAssigned']);
+    return countOwned(ctx, LAND_CONTRACT_ADDRESS, events.map((e) => BigInt(e.args.landId)));
+  },
+
+  start_quest: async (ctx) => {
+    const events = logsFrom(ctx, LAND_CONTRACT_ADDRESS, LAND_EVENTS, 'QuestStarted');
+    return countOwned(ctx, LAND_CONTRACT_ADDRESS, events.map((e) => BigInt(e.args.landId)));
+  },
+
+  claim_production: async (ctx) => {
+    const events = logsFrom(ctx, LAND_CONTRACT_ADDRESS, LAND_EVENTS, 'VillageProductionClaimed');
+    return countOwned(ctx, LAND_CONTRACT_ADDRESS, events.map((e) => BigInt(e.args.landId)));
+  },
+
+  // Roulette bets/reveals and blackjack deals/settlements all name the player
+  casino_game: async (ctx) =>
+    byPlayer('player')(
+      logsFrom(ctx, LAND_CONTRACT_ADDRESS, LAND_EVENTS, [
+        'RouletteBetPlaced',
+        'RouletteSpinResult',
+        'BlackjackBetPlaced',
+        'BlackjackResult',
+        'BlackjackGameComplete',
+      ]),
+      ctx.address
+    ) > 0 ? 1 : 0,
+
+  // One ItemConsumed per garden item, so bundle purchases count every item
+  buy_garden_items: async (ctx) => byPlayer('giver')(logsFrom(ctx, PIXOTCHI_NFT_ADDRESS, NFT_EVENTS, 'ItemConsumed'), ctx.address),
+
+  buy_shield: async (ctx) => {
+    const purchases = byPlayer('buyer')(logsFrom(ctx, PIXOTCHI_NFT_ADDRESS, NFT_EVENTS, 'ShopItemPurchased'), ctx.address);
+    if (purchases > 0) return purchases;
+    // Fence V2: the player paid SEED in a transaction (or batch) that called fenceV2Purchase
+    const paid = logsFrom(ctx, PIXOTCHI_TOKEN_ADDRESS, SEED_EVENTS, 'Transfer').some((e) => sameAddress(e.args.from, ctx.address));
+    if (!paid) return 0;
+    const input = (await ctx.getInput()).toLowerCase();
+    return input.includes(FENCE_V2_PURCHASE_SELECTOR.slice(2).toLowerCase()) ? 1 : 0;
+  },
+
+  kill_plant: async (ctx) => byPlayer('killer')(logsFrom(ctx, PIXOTCHI_NFT_ADDRESS, NFT_EVENTS, 'Killed'), ctx.address),
+
+  play_arcade: async (ctx) => {
+    const events = logsFrom(ctx, PIXOTCHI_NFT_ADDRESS, NFT_EVENTS, ['Played', 'PlayedV2']);
+    return countOwned(ctx, PIXOTCHI_NFT_ADDRESS, events.map((e) => BigInt(e.args.id)));
+  },
+};
+
+/** Run a verifier against a receipt; 0 when the verifier is unknown, the tx reverted or predates `notBefore`. */
+export async function verifyReceipt(verifierId: GmProofVerifierId, ctx: MissionProofContext): Promise<number> {
+  const verifier = MISSION_PROOF_VERIFIERS[verifierId];
+  if (!verifier || ctx.receipt.status !== 'success') return 0;
+  if (ctx.notBefore !== undefined && (await ctx.getBlockTimestamp()) * 1000 < ctx.notBefore) return 0;
+  return verifier(ctx);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches transaction receipt with retry logic for timing issues.
+ * Base blocks are fast but RPC indexing can lag behind.
+ */
+async function getTransactionReceiptWithRetry(txHash: Hex, maxAttempts = 3, delayMs = 1000) {
+  const client = getReadClient();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      const receipt = await client.getTransactionReceipt({ hash: txHash });
+      if (receipt) return receipt;
+    } catch (error: any) {
+      const isTimingError =
+        error?.shortMessage?.includes('could not be found') ||
+        error?.details?.includes('indexing in progress') ||
+        error?.message?.includes('not found');
+
+      if (isTimingError && attempt < maxAttempts - 1) {
+        await sleep(delayMs * (attempt + 1));
+        continue;
+      }
+      throw error;
+    }
+  }
+  return null;
+}
+
+async function readOwnerOf(contract: `0x${string}`, tokenId: bigint): Promise<string | null> {
+  try {
+    return await getReadClient().readContract({ address: contract, abi: OWNER_OF_ABI, functionName: 'ownerOf', args: [tokenId] });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the receipt for `txHash` from Base and run the verifier on it. `periodStart` (ms) is when
+ * the mission period being credited began; older transactions don't count.
+ */
+export async function verifyMissionProof(
+  address: string,
+  verifierId: GmProofVerifierId,
+  txHash: Hex,
+  periodStart: number
+): Promise<number> {
+  const receipt = await getTransactionReceiptWithRetry(txHash);
+  if (!receipt) return 0;
+  return verifyReceipt(verifierId, {
+    address,
+    receipt,
+    getInput: async () => (await getReadClient().getTransaction({ hash: txHash })).input,
+    ownerOf: readOwnerOf,
+    getBlockTimestamp: async () => Number((await getReadClient().getBlock({ blockNumber: receipt.blockNumber })).timestamp),
+    notBefore: periodStart,
+  });
+}
+
+/**
+ * True when the transaction moved at least `minAmountWei` SEED from `address` to `receiver` and was
+ * mined at or after `notBefore` (ms), so an old transfer can't pay for something bought later.
+ */
+export async function verifySeedPayment(address: string, txHash: Hex, receiver: string, minAmountWei: bigint, notBefore: number): Promise<boolean> {
+  const receipt = await getTransactionReceiptWithRetry(txHash);
+  if (!receipt || receipt.status !== 'success') return false;
+  const block = await getReadClient().getBlock({ blockNumber: receipt.blockNumber });
+  if (Number(block.timestamp) * 1000 < notBefore) return false;
+  const ctx: MissionProofContext = {
+    address,
+    receipt,
+    getInput: async () => '0x',
+    ownerOf: async () => null,
+    getBlockTimestamp: async () => Number(block.timestamp),
+  };
+  const paid = logsFrom(ctx, PIXOTCHI_TOKEN_ADDRESS, SEED_EVENTS, 'Transfer')
+    .filter((e) => sameAddress(e.args.from, address) && sameAddress(e.args.to, receiver))
+    .reduce((sum, e) => sum + BigInt(e.args.value), BigInt(0));
+  return paid >= minAmountWei;
+}
+
+/**
+ * Reserve a transaction hash for a single credit (a mission task or a streak purchase).
+ * Returns false if it was already used.
+ * Throws without Redis: with nothing to reserve against, one hash could be credited any number of times.
+ */
+export async function claimProofHash(txHash: string, taskId: GmTaskId, address: string): Promise<boolean> {
+  if (!redis) throw new Error('Mission storage is unavailable');
+  const claimed = await redis.set(
+    withPrefix(KEYS.proofHash(txHash)),
+    JSON.stringify({ taskId, address: address.toLowerCase(), at: Date.now() }),
+    { nx: true, ex: PROOF_HASH_TTL_SECONDS }
+  );
+  return !!claimed;
+}
+
+/** Give a hash back when crediting the task failed after it was claimed. */
+export async function releaseProofHash(txHash: string): Promise<void> {
+  await redisDel(KEYS.proofHash(txHash));
+}
@@ -0,0 +1,240 @@
+import { createHmac } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME = 'pixotchi_test_bot';
+  process.env.TELEGRAM_BOT_TOKEN = 'test-token';
+});
+
+import { redis } from './redis';
+import { MemoryStore } from './kv-store-memory';
+import {
+  addNotificationChannel,
+  assertPublicUrl,
+  ChannelDeliveryError,
+  ChannelMessage,
+  ChannelTransport,
+  confirmChannelVerification,
+  deliverToAddress,
+  deliverToChannel,
+  getDeliveryLog,
+  getNotificationChannels,
+  NotificationChannel,
+  NotificationChannelType,
+  setChannelTransport,
+  signWebhookPayload,
+} from './notification-channels';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+// A public address literal, so registering it needs no DNS lookup
+const WEBHOOK_URL = 'https://93.184.216.34/hook';
+const MESSAGE: ChannelMessage = { title: 'Plant alert', body: 'Feed your plant', category: 'plant_care' };
+
+/** Records every send and fails according to `script` (one entry per attempt, undefined = success). */
+function fakeTransport(script: (ChannelDeliveryError | undefined)[] = []) {
+  const sent: { channel: NotificationChannel; message: ChannelMessage }[] = [];
+  const transport: ChannelTransport = {
+    async send(channel, message) {
+      sent.push({ channel, message });
+      const error = script[sent.length - 1];
+      if (error) throw error;
+    },
+  };
+  return { transport, sent };
+}
+
+const restore: [NotificationChannelType, ChannelTransport][] = [];
+function useTransport(type: NotificationChannelType, transport: ChannelTransport) {
+  restore.push([type, setChannelTransport(type, transport)]);
+}
+
+async function addWebhook(secret?: string): Promise<NotificationChannel> {
+  const result = await addNotificationChannel(ADDRESS, { type: 'webhook', config: { url: WEBHOOK_URL, ...(secret ? { secret } : {}) } });
+  if (!result.success) throw new Error(result.error);
+  return result.channel;
+}
+
+beforeEach(() => {
+  (redis as MemoryStore).flushAll();
+});
+
+afterEach(() => {
+  while (restore.length) {
+    const [type, transport] = restore.pop()!;
+    setChannelTransport(type, transport);
+  }
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('deliverToChannel', () => {
+  it('retries retryable failures with exponential backoff', async () => {
+    vi.useFakeTimers();
+    const { transport, sent } = fakeTransport([new ChannelDeliveryError('503'), new ChannelDeliveryError('503')]);
+    useTransport('webhook', transport);
+    const channel = await addWebhook();
+
+    const delivery = deliverToChannel(ADDRESS, channel, MESSAGE);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(sent).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent).toHaveLength(2);
+    // Second wait doubles
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sent).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    const record = await delivery;
+    expect(sent).toHaveLength(3);
+    expect(record).toMatchObject({ status: 'delivered', attempts: 3, channelId: channel.id, channelType: 'webhook' });
+    expect(record.error).toBeUndefined();
+  });
+
+  it('gives up after three attempts', async () => {
+    vi.useFakeTimers();
+    const failure = () => new ChannelDeliveryError('timeout');
+    const { transport, sent } = fakeTransport([failure(), failure(), failure(), failure()]);
+    useTransport('webhook', transport);
+    const channel = await addWebhook();
+
+    const delivery = deliverToChannel(ADDRESS, channel, MESSAGE);
+    await vi.runAllTimersAsync();
+    const record = await delivery;
+    expect(sent).toHaveLength(3);
+    expect(record).toMatchObject({ status: 'failed', attempts: 3, error: 'timeout' });
+  });
+
+  it('stops on a non-retryable error', async () => {
+    const { transport, sent } = fakeTransport([new ChannelDeliveryError('Webhook responded 400', { retryable: false })]);
+    useTransport('webhook', transport);
+    const channel = await addWebhook();
+
+    const record = await deliverToChannel(ADDRESS, channel, MESSAGE);
+    expect(sent).toHaveLength(1);
+    expect(record).toMatchObject({ status: 'failed', attempts: 1, error: 'Webhook responded 400' });
+  });
+
+  it('disables a channel the provider reports as gone', async () => {
+    const { transport } = fakeTransport([new ChannelDeliveryError('Push service responded 410', { retryable: false, gone: true })]);
+    useTransport('webhook', transport);
+    const channel = await addWebhook();
+
+    await deliverToChannel(ADDRESS, channel, MESSAGE);
+    const [stored] = await getNotificationChannels(ADDRESS);
+    expect(stored.enabled).toBe(false);
+    expect(stored.disabledReason).toBe('Push service responded 410');
+  });
+});
+
+describe('delivery records', () => {
+  it('logs every delivery newest first', async () => {
+    const { transport } = fakeTransport([undefined, new ChannelDeliveryError('bad', { retryable: false })]);
+    useTransport('webhook', transport);
+    const channel = await addWebhook();
+
+    await deliverToChannel(ADDRESS, channel, { ...MESSAGE, title: 'first' });
+    await deliverToChannel(ADDRESS, channel, { ...MESSAGE, title: 'second' });
+
+    const log = await getDeliveryLog(ADDRESS);
+    expect(log.map((r) => [r.title, r.status])).toEqual([['second', 'failed'], ['first', 'delivered']]);
+    expect(log[0]).toMatchObject({ address: ADDRESS, channelId: channel.id, category: 'plant_care', error: 'bad' });
+  });
+
+  it('only delivers to enabled, confirmed channels', async () => {
+    const webhook = fakeTransport();
+    const email = fakeTransport();
+    useTransport('webhook', webhook.transport);
+    useTransport('email', email.transport);
+    await addWebhook();
+    await addNotificationChannel(ADDRESS, { type: 'email', config: { email: 'player@example.com' } });
+    email.sent.length = 0; // the confirmation email
+
+    const records = await deliverToAddress(ADDRESS, MESSAGE);
+    expect(records.map((r) => r.channelType)).toEqual(['webhook']);
+    expect(email.sent).toHaveLength(0);
+  });
+});
+
+describe('webhook signing', () => {
+  it('signs the exact payload with HMAC-SHA256', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const channel = await addWebhook('shared-secret');
+
+    const record = await deliverToChannel(ADDRESS, channel, MESSAGE);
+    expect(record.status).toBe('delivered');
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = String(init.body);
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe(WEBHOOK_URL);
+    expect(headers['X-Pixotchi-Signature']).toBe(`sha256=${createHmac('sha256', 'shared-secret').update(body).digest('hex')}`);
+    expect(signWebhookPayload('shared-secret', body)).toBe(headers['X-Pixotchi-Signature']);
+    expect(JSON.parse(body)).toMatchObject({ type: 'pixotchi.notification', title: 'Plant alert', category: 'plant_care' });
+  });
+
+  it('sends no signature without a secret', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const channel = await addWebhook();
+
+    await deliverToChannel(ADDRESS, channel, MESSAGE);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['X-Pixotchi-Signature']).toBeUndefined();
+  });
+});
+
+describe('destination checks', () => {
+  it.each(['https://127.0.0.1/x', 'https://10.1.2.3/x', 'https://192.168.0.10/x', 'https://169.254.169.254/latest', 'https://[::1]/x', 'https://[::ffff:127.0.0.1]/x', 'https://[fd00::1]/x'])(
+    'rejects %s',
+    async (url) => {
+      await expect(assertPublicUrl(url)).rejects.toThrow('public address');
+    },
+  );
+
+  it('refuses to register a private webhook', async () => {
+    const result = await addNotificationChannel(ADDRESS, { type: 'webhook', config: { url: 'https://10.0.0.5/hook' } });
+    expect(result).toMatchObject({ success: false });
+    expect(await getNotificationChannels(ADDRESS)).toHaveLength(0);
+  });
+
+  it('confirms an email only through its emailed link', async () => {
+    const email = fakeTransport();
+    useTransport('email', email.transport);
+
+    const result = await addNotificationChannel(ADDRESS, { type: 'email', config: { email: 'player@example.com' } });
+    expect(result).toMatchObject({ success: true, verification: { type: 'email', sentTo: 'player@example.com' } });
+    expect(email.sent).toHaveLength(1);
+    const token = new URL(email.sent[0].message.targetUrl!).searchParams.get('token')!;
+
+    expect((await getNotificationChannels(ADDRESS))[0].verifiedAt).toBeNull();
+    expect(await confirmChannelVerification(token, { type: 'telegram', chatId: '42' })).toBeNull();
+    expect(await confirmChannelVerification(token, { type: 'email' })).toMatchObject({ address: ADDRESS });
+    expect((await getNotificationChannels(ADDRESS))[0].verifiedAt).toEqual(expect.any(Number));
+    // Single use
+    expect(await confirmChannelVerification(token, { type: 'email' })).toBeNull();
+  });
+
+  it('limits confirmation emails per wallet and per inbox', async () => {
+    useTransport('email', fakeTransport().transport);
+    const other = '0x00000000000000000000000000000000000000bb';
+
+    expect(await addNotificationChannel(ADDRESS, { type: 'email', config: { email: 'a@example.com' } })).toMatchObject({ success: true });
+    expect(await addNotificationChannel(ADDRESS, { type: 'email', config: { email: 'b@example.com' } })).toMatchObject({ success: false, status: 429 });
+    expect(await addNotificationChannel(other, { type: 'email', config: { email: 'a@example.com' } })).toMatchObject({ success: false, status: 429 });
+  });
+
+  it('takes the Telegram chat id from the bot, not the client', async () => {
+    const result = await addNotificationChannel(ADDRESS, { type: 'telegram', config: { chatId: '999' } });
+    if (!result.success || result.verification?.type !== 'telegram') throw new Error('expected a telegram link');
+    const [channel] = await getNotificationChannels(ADDRESS);
+    expect(channel.config).toEqual({});
+
+    const token = new URL(result.verification.link).searchParams.get('start')!;
+    expect(result.verification.link.startsWith('https://t.me/pixotchi_test_bot?start=')).toBe(true);
+    const confirmed = await confirmChannelVerification(token, { type: 'telegram', chatId: '12345' });
+    expect(confirmed?.channel).toMatchObject({ type: 'telegram', config: { chatId: '12345' } });
+  });
+});
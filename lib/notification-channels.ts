@@ -0,0 +1,541 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { redis } from './redis';
+import { CLIENT_ENV, SERVER_ENV } from './env-config';
+
+/**
+ * Notification delivery channels registered per wallet address.
+ * Farcaster delivery stays on the Neynar batch publish in the cron; these channels reach
+ * web-only players (Privy, EOA) and anyone who wants reminders outside Farcaster.
+ *
+ * Email and Telegram destinations receive nothing until their owner opts in: an emailed
+ * confirmation link, or `/start <token>` sent to the bot (which also supplies the chat id, so a
+ * wallet can never point the bot at someone else's chat). Webhook and push endpoints must
+ * resolve to public addresses.
+ *
+ * Like the rest of the notification system, keys are stored WITHOUT the pixotchi: prefix.
+ */
+
+export const NOTIFICATION_CHANNEL_TYPES = ['webhook', 'web_push', 'email', 'telegram'] as const;
+export type NotificationChannelType = typeof NOTIFICATION_CHANNEL_TYPES[number];
+
+const WebhookConfigSchema = z.object({
+  url: z.url().refine((u) => u.startsWith('https://'), 'Webhook URL must use https'),
+  // Optional shared secret; deliveries are signed with HMAC-SHA256 when set
+  secret: z.string().min(8).max(128).optional(),
+});
+
+const WebPushConfigSchema = z.object({
+  subscription: z.object({
+    endpoint: z.url(),
+    expirationTime: z.number().nullable().optional(),
+    keys: z.object({ p256dh: z.string().min(1), auth: z.string().min(1) }),
+  }),
+});
+
+const EmailConfigSchema = z.object({ email: z.email() });
+
+// The chat id is filled in from the bot's /start update, never from the client
+const TelegramConfigSchema = z.object({ chatId: z.string().regex(/^-?\d{1,20}$/, 'Invalid Telegram chat id').optional() });
+
+export const NotificationChannelInputSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('webhook'), label: z.string().max(40).optional(), config: WebhookConfigSchema }),
+  z.object({ type: z.literal('web_push'), label: z.string().max(40).optional(), config: WebPushConfigSchema }),
+  z.object({ type: z.literal('email'), label: z.string().max(40).optional(), config: EmailConfigSchema }),
+  z.object({ type: z.literal('telegram'), label: z.string().max(40).optional(), config: TelegramConfigSchema }),
+]);
+
+export type NotificationChannel = z.infer<typeof NotificationChannelInputSchema> & {
+  id: string;
+  enabled: boolean;
+  createdAt: number;
+  // Null until the destination's owner confirmed it (email link, Telegram /start)
+  verifiedAt: number | null;
+  // Set when the provider reports the channel as permanently gone (e.g. expired push subscription)
+  disabledReason?: string;
+};
+
+export type ChannelMessage = {
+  title: string;
+  body: string;
+  targetUrl?: string;
+  category?: string;
+};
+
+export type DeliveryRecord = {
+  id: string;
+  address: string;
+  channelId: string;
+  channelType: NotificationChannelType;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  error?: string;
+  title: string;
+  category?: string;
+  timestamp: number;
+};
+
+/**
+ * Thrown by transports. Non-retryable errors (bad config, 4xx) stop the retry loop,
+ * and `gone` disables the channel.
+ */
+export class ChannelDeliveryError extends Error {
+  retryable: boolean;
+  gone: boolean;
+
+  constructor(message: string, options: { retryable?: boolean; gone?: boolean } = {}) {
+    super(message);
+    this.name = 'ChannelDeliveryError';
+    this.retryable = options.retryable ?? true;
+    this.gone = options.gone ?? false;
+  }
+}
+
+export interface ChannelTransport {
+  send(channel: NotificationChannel, message: ChannelMessage): Promise<void>;
+}
+
+const MAX_CHANNELS_PER_ADDRESS = 5;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const DELIVERY_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DELIVERY_LOG_MAX = 50;
+const VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+// Confirmation emails: one per wallet per minute, one per inbox per hour (whichever wallet asks)
+const VERIFY_WALLET_COOLDOWN_SECONDS = 60;
+const VERIFY_DESTINATION_COOLDOWN_SECONDS = 60 * 60;
+
+const KEYS = {
+  channels: (address: string) => `notif:channels:${address.toLowerCase()}`,
+  addresses: 'notif:channels:addresses',
+  delivery: (id: string) => `notif:delivery:${id}`,
+  deliveryLog: (address: string) => `notif:delivery:addr:${address.toLowerCase()}`,
+  verification: (token: string) => `notif:verify:${token}`,
+  cooldown: (action: string, subject: string) => `notif:rate:${action}:${subject.toLowerCase()}`,
+};
+
+type PendingVerification = { address: string; channelId: string; type: 'email' | 'telegram' };
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved ranges
+const PRIVATE_RANGES = (() => {
+  const list = new BlockList();
+  for (const [net, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+  ] as const) list.addSubnet(net, prefix, 'ipv4');
+  for (const [net, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    list.addSubnet(net, prefix, 'ipv6');
+  }
+  return list;
+})();
+
+export function isPrivateAddress(ip: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = isIP(ip);
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Reject URLs whose host is, or resolves to, a private or loopback address. */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    throw new ChannelDeliveryError('Invalid URL', { retryable: false });
+  }
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+    } catch {
+      throw new ChannelDeliveryError(`Could not resolve ${host}`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new ChannelDeliveryError('URL must point to a public address', { retryable: false });
+  }
+}
+
+/** Claim a cooldown slot; false while the previous one is still running. */
+export async function claimChannelCooldown(action: string, subject: string, seconds: number): Promise<boolean> {
+  if (!redis) return true;
+  return Boolean(await redis.set(KEYS.cooldown(action, subject), '1', { nx: true, ex: seconds }));
+}
+
+export const signWebhookPayload = (secret: string, payload: string) =>
+  `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+const statusError = (channel: string, status: number, detail?: string) =>
+  new ChannelDeliveryError(`${channel} responded ${status}${detail ? `: ${detail}` : ''}`, {
+    // 429 and 5xx are worth retrying; other 4xx mean the request itself is wrong
+    retryable: status === 429 || status >= 500,
+    gone: status === 404 || status === 410,
+  });
+
+const webhookTransport: ChannelTransport = {
+  async send(channel, message) {
+    if (channel.type !== 'webhook') return;
+    const payload = JSON.stringify({
+      type: 'pixotchi.notification',
+      title: message.title,
+      body: message.body,
+      category: message.category ?? null,
+      targetUrl: message.targetUrl ?? CLIENT_ENV.APP_URL,
+      sentAt: new Date().toISOString(),
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (channel.config.secret) {
+      headers['X-Pixotchi-Signature'] = signWebhookPayload(channel.config.secret, payload);
+    }
+    // Re-checked on every send: DNS may have changed since the webhook was registered
+    await assertPublicUrl(channel.config.url);
+    const res = await fetch(channel.config.url, { method: 'POST', headers, body: payload, redirect: 'manual', signal: AbortSignal.timeout(10_000) });
+    if (!res.ok) throw statusError('Webhook', res.status);
+  },
+};
+
+const webPushTransport: ChannelTransport = {
+  async send(channel, message) {
+    if (channel.type !== 'web_push') return;
+    const publicKey = CLIENT_ENV.VAPID_PUBLIC_KEY;
+    const privateKey = SERVER_ENV.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      throw new ChannelDeliveryError('Web Push is not configured (VAPID keys missing)', { retryable: false });
+    }
+    const webpush = (await import('web-push')).default;
+    try {
+      await webpush.sendNotification(
+        channel.config.subscription as any,
+        JSON.stringify({ title: message.title, body: message.body, url: message.targetUrl ?? CLIENT_ENV.APP_URL }),
+        { vapidDetails: { subject: SERVER_ENV.VAPID_SUBJECT, publicKey, privateKey }, TTL: 6 * 60 * 60 },
+      );
+    } catch (error: any) {
+      if (typeof error?.statusCode === 'number') throw statusError('Push service', error.statusCode, error.body);
+      throw new ChannelDeliveryError(error?.message || 'Web Push failed');
+    }
+  },
+};
+
+let cachedMailer: import('nodemailer').Transporter | null = null;
+
+const emailTransport: ChannelTransport = {
+  async send(channel, message) {
+    if (channel.type !== 'email') return;
+    if (!SERVER_ENV.SMTP_HOST || !SERVER_ENV.SMTP_FROM) {
+      throw new ChannelDeliveryError('Email is not configured (SMTP_HOST/SMTP_FROM missing)', { retryable: false });
+    }
+    if (!cachedMailer) {
+      const nodemailer = (await import('nodemailer')).default;
+      cachedMailer = nodemailer.createTransport({
+        host: SERVER_ENV.SMTP_HOST,
+        port: SERVER_ENV.SMTP_PORT,
+        secure: SERVER_ENV.SMTP_PORT === 465,
+        auth: SERVER_ENV.SMTP_USER ? { user: SERVER_ENV.SMTP_USER, pass: SERVER_ENV.SMTP_PASS } : undefined,
+      });
+    }
+    const url = message.targetUrl ?? CLIENT_ENV.APP_URL;
+    try {
+      await cachedMailer.sendMail({
+        from: SERVER_ENV.SMTP_FROM,
+        to: channel.config.email,
+        subject: message.title,
+        text: `${message.body}\n\n${url}`,
+      });
+    } catch (error: any) {
+      // SMTP 5xx replies are permanent (unknown mailbox, rejected sender)
+      const code = Number(error?.responseCode);
+      throw new ChannelDeliveryError(error?.message || 'SMTP delivery failed', { retryable: !(code >= 500 && code < 600) });
+    }
+  },
+};
+
+const telegramTransport: ChannelTransport = {
+  async send(channel, message) {
+    if (channel.type !== 'telegram') return;
+    const token = SERVER_ENV.TELEGRAM_BOT_TOKEN;
+    if (!token) {
+      throw new ChannelDeliveryError('Telegram is not configured (TELEGRAM_BOT_TOKEN missing)', { retryable: false });
+    }
+    if (!channel.config.chatId) {
+      throw new ChannelDeliveryError('Telegram chat is not connected yet', { retryable: false });
+    }
+    const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: channel.config.chatId,
+        text: `${message.title}\n${message.body}\n${message.targetUrl ?? CLIENT_ENV.APP_URL}`,
+        disable_web_page_preview: true,
+      }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      // 403 = the user blocked the bot
+      const error = statusError('Telegram', res.status, json?.description);
+      if (res.status === 403) error.gone = true;
+      throw error;
+    }
+  },
+};
+
+const transports: Record<NotificationChannelType, ChannelTransport> = {
+  webhook: webhookTransport,
+  web_push: webPushTransport,
+  email: emailTransport,
+  telegram: telegramTransport,
+};
+
+/**
+ * Replace the transport for a channel type (e.g. a local fake in tests or scripts).
+ * Returns the previous transport so callers can restore it.
+ */
+export function setChannelTransport(type: NotificationChannelType, transport: ChannelTransport): ChannelTransport {
+  const previous = transports[type];
+  transports[type] = transport;
+  return previous;
+}
+
+export async function getNotificationChannels(address: string): Promise<NotificationChannel[]> {
+  if (!redis) return [];
+  try {
+    const raw = await (redis as any).get(KEYS.channels(address));
+    const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    return Array.isArray(parsed) ? (parsed as NotificationChannel[]) : [];
+  } catch (error) {
+    console.error('[notification-channels] Failed to read channels:', error);
+    return [];
+  }
+}
+
+async function writeChannels(address: string, channels: NotificationChannel[]): Promise<void> {
+  if (!redis) return;
+  const addr = address.toLowerCase();
+  if (channels.length === 0) {
+    await (redis as any).del(KEYS.channels(addr));
+    await (redis as any).srem(KEYS.addresses, addr);
+    return;
+  }
+  await (redis as any).set(KEYS.channels(addr), JSON.stringify(channels));
+  await (redis as any).sadd(KEYS.addresses, addr);
+}
+
+export type ChannelVerification = { type: 'email'; sentTo: string } | { type: 'telegram'; link: string };
+
+export async function addNotificationChannel(
+  address: string,
+  input: unknown,
+): Promise<
+  | { success: true; channel: NotificationChannel; verification?: ChannelVerification }
+  | { success: false; error: string; status?: number }
+> {
+  const parsed = NotificationChannelInputSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ') };
+  }
+  if (!redis) return { success: false, error: 'Redis unavailable' };
+
+  const data = parsed.data;
+  if (data.type === 'telegram') {
+    if (!CLIENT_ENV.TELEGRAM_BOT_USERNAME || !SERVER_ENV.TELEGRAM_BOT_TOKEN) {
+      return { success: false, error: 'Telegram is not configured' };
+    }
+    data.config = {};
+  }
+  if (data.type === 'webhook' || data.type === 'web_push') {
+    try {
+      await assertPublicUrl(data.type === 'webhook' ? data.config.url : data.config.subscription.endpoint);
+    } catch (error: any) {
+      return { success: false, error: error?.message || 'Invalid URL' };
+    }
+  }
+
+  const existing = await getNotificationChannels(address);
+  // Re-registering the same push endpoint (or email/chat) replaces the old entry
+  const identity = (c: z.infer<typeof NotificationChannelInputSchema>) =>
+    c.type === 'web_push' ? c.config.subscription.endpoint
+      : c.type === 'webhook' ? c.config.url
+        : c.type === 'email' ? c.config.email.toLowerCase()
+          : c.config.chatId;
+  // Unconnected Telegram channels have no identity yet and never replace each other
+  const others = existing.filter((c) => !(c.type === data.type && c.type !== 'telegram' && identity(c) === identity(data)));
+  if (others.length >= MAX_CHANNELS_PER_ADDRESS) {
+    return { success: false, error: `At most ${MAX_CHANNELS_PER_ADDRESS} channels per wallet` };
+  }
+  if (data.type === 'email') {
+    const walletOk = await claimChannelCooldown('channel-verify', address, VERIFY_WALLET_COOLDOWN_SECONDS);
+    const inboxOk = walletOk && (await claimChannelCooldown('channel-verify', data.config.email, VERIFY_DESTINATION_COOLDOWN_SECONDS));
+    if (!walletOk || !inboxOk) {
+      return { success: false, error: 'A confirmation email was sent recently. Please try again later.', status: 429 };
+    }
+  }
+
+  const now = Date.now();
+  const needsOptIn = data.type === 'email' || data.type === 'telegram';
+  const channel = { ...data, id: nanoid(10), enabled: true, createdAt: now, verifiedAt: needsOptIn ? null : now } as NotificationChannel;
+  await writeChannels(address, [...others, channel]);
+  if (!needsOptIn) return { success: true, channel };
+
+  const token = nanoid(32);
+  const pending: PendingVerification = { address: address.toLowerCase(), channelId: channel.id, type: channel.type as PendingVerification['type'] };
+  await redis.set(KEYS.verification(token), JSON.stringify(pending), { ex: VERIFICATION_TTL_SECONDS });
+
+  if (channel.type === 'telegram') {
+    return { success: true, channel, verification: { type: 'telegram', link: `https://t.me/${CLIENT_ENV.TELEGRAM_BOT_USERNAME}?start=${token}` } };
+  }
+
+  try {
+    await transports.email.send(channel, {
+      title: 'Confirm Pixotchi notifications',
+      body: 'Someone asked to send Pixotchi game reminders to this address. Open the link below to confirm; ignore this email if it was not you.',
+      targetUrl: `${CLIENT_ENV.APP_URL}/api/notifications/channels/verify?token=${token}`,
+    });
+  } catch (error: any) {
+    console.error('[notification-channels] Failed to send confirmation email:', error);
+    return { success: false, error: error?.message || 'Failed to send confirmation email', status: 502 };
+  }
+  return { success: true, channel, verification: { type: 'email', sentTo: channel.type === 'email' ? channel.config.email : '' } };
+}
+
+/**
+ * Confirm a pending email or Telegram channel from its opt-in token. Tokens are single use.
+ * Telegram confirmations carry the chat id the bot received `/start <token>` from.
+ */
+export async function confirmChannelVerification(
+  token: string,
+  proof: { type: 'email' } | { type: 'telegram'; chatId: string },
+): Promise<{ address: string; channel: NotificationChannel } | null> {
+  if (!redis || !/^[\w-]{16,64}$/.test(token)) return null;
+  const key = KEYS.verification(token);
+  const raw = await redis.get(key);
+  const pending = (typeof raw === 'string' ? JSON.parse(raw) : raw) as PendingVerification | null;
+  if (!pending || pending.type !== proof.type) return null;
+  // Only the request that deletes the token may use it
+  if ((await redis.del(key)) !== 1) return null;
+
+  const channels = await getNotificationChannels(pending.address);
+  const channel = channels.find((c) => c.id === pending.channelId);
+  if (!channel) return null;
+  if (channel.type === 'telegram' && proof.type === 'telegram') {
+    channel.config = { chatId: proof.chatId };
+  }
+  channel.verifiedAt = Date.now();
+  await writeChannels(pending.address, channels);
+  return { address: pending.address, channel };
+}
+
+export async function removeNotificationChannel(address: string, channelId: string): Promise<boolean> {
+  const channels = await getNotificationChannels(address);
+  const next = channels.filter((c) => c.id !== channelId);
+  if (next.length === channels.length) return false;
+  await writeChannels(address, next);
+  return true;
+}
+
+export async function setNotificationChannelEnabled(address: string, channelId: string, enabled: boolean): Promise<boolean> {
+  const channels = await getNotificationChannels(address);
+  const channel = channels.find((c) => c.id === channelId);
+  if (!channel) return false;
+  channel.enabled = enabled;
+  if (enabled) delete channel.disabledReason;
+  await writeChannels(address, channels);
+  return true;
+}
+
+/** Addresses with at least one registered channel (for the notifications cron). */
+export async function getChannelAddresses(): Promise<string[]> {
+  if (!redis) return [];
+  try {
+    return ((await (redis as any).smembers(KEYS.addresses)) || []) as string[];
+  } catch {
+    return [];
+  }
+}
+
+export async function getDeliveryLog(address: string, limit: number = 20): Promise<DeliveryRecord[]> {
+  if (!redis) return [];
+  try {
+    const raw = (await (redis as any).lrange(KEYS.deliveryLog(address), 0, Math.min(limit, DELIVERY_LOG_MAX) - 1)) as unknown[];
+    return raw.map((item) => (typeof item === 'string' ? JSON.parse(item) : item) as DeliveryRecord);
+  } catch (error) {
+    console.error('[notification-channels] Failed to read delivery log:', error);
+    return [];
+  }
+}
+
+async function recordDelivery(record: DeliveryRecord): Promise<void> {
+  if (!redis) return;
+  try {
+    await (redis as any).set(KEYS.delivery(record.id), JSON.stringify(record), { ex: DELIVERY_TTL_SECONDS });
+    await (redis as any).lpush(KEYS.deliveryLog(record.address), JSON.stringify(record));
+    await (redis as any).ltrim(KEYS.deliveryLog(record.address), 0, DELIVERY_LOG_MAX - 1);
+    await (redis as any).expire(KEYS.deliveryLog(record.address), DELIVERY_TTL_SECONDS);
+  } catch (error) {
+    console.error('[notification-channels] Failed to record delivery:', error);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Deliver one message through one channel with exponential backoff, then record the outcome.
+ */
+export async function deliverToChannel(address: string, channel: NotificationChannel, message: ChannelMessage): Promise<DeliveryRecord> {
+  const transport = transports[channel.type];
+  let attempts = 0;
+  let lastError: ChannelDeliveryError | null = null;
+
+  while (attempts < MAX_ATTEMPTS) {
+    attempts++;
+    try {
+      await transport.send(channel, message);
+      lastError = null;
+      break;
+    } catch (error: any) {
+      lastError = error instanceof ChannelDeliveryError ? error : new ChannelDeliveryError(error?.message || 'Delivery failed');
+      if (!lastError.retryable || attempts >= MAX_ATTEMPTS) break;
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempts - 1));
+    }
+  }
+
+  if (lastError?.gone) {
+    const channels = await getNotificationChannels(address);
+    const stored = channels.find((c) => c.id === channel.id);
+    if (stored) {
+      stored.enabled = false;
+      stored.disabledReason = lastError.message;
+      await writeChannels(address, channels);
+    }
+  }
+
+  const record: DeliveryRecord = {
+    id: nanoid(12),
+    address: address.toLowerCase(),
+    channelId: channel.id,
+    channelType: channel.type,
+    status: lastError ? 'failed' : 'delivered',
+    attempts,
+    ...(lastError ? { error: lastError.message } : {}),
+    title: message.title,
+    category: message.category,
+    timestamp: Date.now(),
+  };
+  await recordDelivery(record);
+  return record;
+}
+
+/**
+ * Deliver a message to every enabled channel of an address.
+ */
+export async function deliverToAddress(address: string, message: ChannelMessage): Promise<DeliveryRecord[]> {
+  const channels = (await getNotificationChannels(address)).filter((c) => c.enabled && c.verifiedAt);
+  const results = await Promise.allSettled(channels.map((channel) => deliverToChannel(address, channel, message)));
+  return results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+}
@@ -0,0 +1,433 @@
+import { z } from 'zod';
+import { redis } from './redis';
+import {
+  casinoGetActiveBetsBatch,
+  getLandBuildingsBatch,
+  getLandsByOwner,
+  getPlantsByOwnerWithRpc,
+  getQuestSlotsBatch,
+  getReadClient,
+  getStakeInfo,
+} from './contracts';
+import { getStreak } from './gamification-service';
+import { getTodayDateString } from './invite-utils';
+
+/**
+ * Notification rules engine used by the notifications cron.
+ * Preferences and throttles are stored per recipient: a Farcaster FID (the same FID -> address
+ * mapping kept by /api/notifications/map-fid) or, for web-only players, a wallet address.
+ *
+ * Like the rest of the notification system, keys are stored WITHOUT the pixotchi: prefix.
+ */
+
+export const NOTIFICATION_CATEGORIES = [
+  'plant_care',
+  'building_production',
+  'quest_finished',
+  'casino_revealable',
+  'staking_rewards',
+  'streak_at_risk',
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+type CategoryMeta = {
+  label: string;
+  description: string;
+  // Minimum time between two notifications of this category to the same user
+  userThrottleSeconds: number;
+  // How long a single subject (plant tier, building, quest...) stays "already notified"
+  subjectThrottleSeconds: number;
+};
+
+export const NOTIFICATION_CATEGORY_META: Record<NotificationCategory, CategoryMeta> = {
+  plant_care: {
+    label: 'Plant care',
+    description: 'A plant drops below one of your time-of-death thresholds',
+    userThrottleSeconds: 60 * 60,
+    subjectThrottleSeconds: 24 * 60 * 60,
+  },
+  building_production: {
+    label: 'Building production',
+    description: 'A village building has a full day of production waiting',
+    userThrottleSeconds: 6 * 60 * 60,
+    subjectThrottleSeconds: 24 * 60 * 60,
+  },
+  quest_finished: {
+    label: 'Quests',
+    description: 'A farmer quest has finished and can be claimed',
+    userThrottleSeconds: 60 * 60,
+    subjectThrottleSeconds: 7 * 24 * 60 * 60,
+  },
+  casino_revealable: {
+    label: 'Casino',
+    description: 'A roulette bet is ready to be revealed',
+    userThrottleSeconds: 15 * 60,
+    subjectThrottleSeconds: 24 * 60 * 60,
+  },
+  staking_rewards: {
+    label: 'Staking rewards',
+    description: 'Unclaimed staking rewards passed your minimum',
+    userThrottleSeconds: 24 * 60 * 60,
+    subjectThrottleSeconds: 24 * 60 * 60,
+  },
+  streak_at_risk: {
+    label: 'Streak at risk',
+    description: 'Your daily streak ends in a few hours',
+    userThrottleSeconds: 12 * 60 * 60,
+    subjectThrottleSeconds: 24 * 60 * 60,
+  },
+};
+
+const QuietHoursSchema = z.object({
+  enabled: z.boolean(),
+  startHour: z.number().int().min(0).max(23),
+  endHour: z.number().int().min(0).max(23),
+  timezone: z.string().min(1).max(64).refine(isValidTimezone, 'Unknown timezone'),
+});
+
+// The notifications cron runs hourly (vercel.json), so a plant spends at least one run under the
+// smallest threshold before it dies. Keep this in step with the cron schedule.
+export const MIN_PLANT_THRESHOLD_HOURS = 1;
+
+export const NotificationPreferencesSchema = z.object({
+  categories: z.partialRecord(z.enum(NOTIFICATION_CATEGORIES), z.boolean()),
+  plantThresholdsHours: z.array(z.number().int().min(MIN_PLANT_THRESHOLD_HOURS).max(48)).min(1).max(3),
+  stakingRewardsMin: z.number().min(0).max(1_000_000),
+  quietHours: QuietHoursSchema,
+});
+
+export type NotificationPreferences = {
+  categories: Record<NotificationCategory, boolean>;
+  // Sorted descending, e.g. [24, 6, 1]
+  plantThresholdsHours: number[];
+  // Minimum unclaimed staking rewards (LEAF) before notifying
+  stakingRewardsMin: number;
+  quietHours: z.infer<typeof QuietHoursSchema>;
+  updatedAt: number;
+};
+
+export type NotificationCandidate = {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // Subject throttle keys to claim once this candidate was actually sent
+  subjects: string[];
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    plant_care: true,
+    building_production: true,
+    quest_finished: true,
+    casino_revealable: true,
+    staking_rewards: false,
+    streak_at_risk: true,
+  },
+  // Matches the previous hard-coded 12h plant alert
+  plantThresholdsHours: [12],
+  stakingRewardsMin: 100,
+  quietHours: { enabled: false, startHour: 22, endHour: 8, timezone: 'UTC' },
+  updatedAt: 0,
+};
+
+const KEYS = {
+  prefs: (recipient: string) => `notif:prefs:${recipient}`,
+  userThrottle: (category: NotificationCategory, recipient: string) => `notif:cat:${category}:${recipient}`,
+  subjectThrottle: (category: NotificationCategory, recipient: string, subject: string) => `notif:cat:${category}:${recipient}:${subject}`,
+};
+
+export const fidRecipient = (fid: number) => `fid:${fid}`;
+export const addressRecipient = (address: string) => `addr:${address.toLowerCase()}`;
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function getNotificationPreferences(recipient: string): Promise<NotificationPreferences> {
+  if (!redis) return DEFAULT_NOTIFICATION_PREFERENCES;
+  try {
+    const raw = await (redis as any).get(KEYS.prefs(recipient));
+    const stored = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Partial<NotificationPreferences> | null;
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...stored,
+      categories: { ...DEFAULT_NOTIFICATION_PREFERENCES.categories, ...(stored.categories || {}) },
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...(stored.quietHours || {}) },
+    };
+  } catch (error) {
+    console.error('[notification-rules] Failed to read preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+export async function saveNotificationPreferences(
+  recipient: string,
+  input: unknown,
+): Promise<{ success: true; preferences: NotificationPreferences } | { success: false; error: string }> {
+  const parsed = NotificationPreferencesSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ') };
+  }
+  if (!redis) return { success: false, error: 'Redis unavailable' };
+
+  const preferences: NotificationPreferences = {
+    categories: { ...DEFAULT_NOTIFICATION_PREFERENCES.categories, ...parsed.data.categories },
+    plantThresholdsHours: Array.from(new Set(parsed.data.plantThresholdsHours)).sort((a, b) => b - a),
+    stakingRewardsMin: parsed.data.stakingRewardsMin,
+    quietHours: parsed.data.quietHours,
+    updatedAt: Date.now(),
+  };
+  await (redis as any).set(KEYS.prefs(recipient), JSON.stringify(preferences));
+  return { success: true, preferences };
+}
+
+/**
+ * True when `now` falls inside the user's quiet hours (in their own timezone).
+ * Windows may wrap midnight, e.g. 22 -> 8.
+ */
+export function isWithinQuietHours(quietHours: NotificationPreferences['quietHours'], now: Date): boolean {
+  if (!quietHours.enabled || quietHours.startHour === quietHours.endHour) return false;
+  let hour: number;
+  try {
+    hour = Number(new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: quietHours.timezone }).format(now));
+  } catch {
+    return false;
+  }
+  const { startHour, endHour } = quietHours;
+  return startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+}
+
+async function isThrottled(key: string): Promise<boolean> {
+  if (!redis) return false;
+  return Boolean(await (redis as any).get(key));
+}
+
+async function markThrottled(key: string, seconds: number): Promise<void> {
+  if (!redis) return;
+  await (redis as any).set(key, '1', { ex: seconds });
+}
+
+type SubjectHit = { subject: string; detail: string };
+
+type EvaluationContext = {
+  recipient: string;
+  address: string;
+  prefs: NotificationPreferences;
+  now: Date;
+  rpcUrl: string;
+  dryRun: boolean;
+};
+
+const plural = (n: number, one: string, many: string) => (n === 1 ? one : many);
+
+async function evaluatePlantCare(ctx: EvaluationContext): Promise<SubjectHit[]> {
+  const plants = await getPlantsByOwnerWithRpc(ctx.address, ctx.rpcUrl);
+  const nowSec = Math.floor(ctx.now.getTime() / 1000);
+  const tiers = [...ctx.prefs.plantThresholdsHours].sort((a, b) => a - b);
+  const maxTierSeconds = tiers[tiers.length - 1] * 3600;
+  const hits: SubjectHit[] = [];
+
+  for (const plant of plants || []) {
+    const left = Number(plant.timeUntilStarving ?? 0) - nowSec;
+    if (left <= 0) continue;
+
+    // Plant recovered above every threshold: start a fresh episode
+    if (left > maxTierSeconds) {
+      if (!ctx.dryRun && redis) {
+        await Promise.all(tiers.map((t) => (redis as any).del(KEYS.subjectThrottle('plant_care', ctx.recipient, `plant:${plant.id}:${t}h`))));
+      }
+      continue;
+    }
+
+    // Smallest tier the plant is under, so a 1h alert is not masked by the 6h one
+    const tier = tiers.find((t) => left <= t * 3600)!;
+    hits.push({ subject: `plant:${plant.id}:${tier}h`, detail: String(tier) });
+  }
+  return hits;
+}
+
+async function evaluateLandCategories(ctx: EvaluationContext): Promise<Partial<Record<NotificationCategory, SubjectHit[]>>> {
+  const wants = ctx.prefs.categories;
+  if (!wants.building_production && !wants.quest_finished && !wants.casino_revealable) return {};
+
+  const lands = await getLandsByOwner(ctx.address);
+  if (lands.length === 0) return {};
+  const landIds = lands.map((l) => BigInt(l.tokenId));
+  const result: Partial<Record<NotificationCategory, SubjectHit[]>> = {};
+
+  // One multicall per category (chunked for large estates), all three in flight together
+  const buildingsRead = async () => {
+    const buildings = await getLandBuildingsBatch(landIds);
+    result.building_production = buildings.flatMap((entry) =>
+      entry.villageBuildings
+        .filter((b: any) => {
+          const ratePts = BigInt(b.productionRatePlantPointsPerDay ?? 0);
+          const rateTod = BigInt(b.productionRatePlantLifetimePerDay ?? 0);
+          const fullPts = ratePts > BigInt(0) && BigInt(b.accumulatedPoints ?? 0) >= ratePts;
+          const fullTod = rateTod > BigInt(0) && BigInt(b.accumulatedLifetime ?? 0) >= rateTod;
+          return fullPts || fullTod;
+        })
+        .map((b: any) => ({ subject: `land:${entry.landId}:building:${b.id}`, detail: String(entry.landId) })),
+    );
+  };
+
+  const questsRead = async () => {
+    const [currentBlock, slotsByLand] = await Promise.all([getReadClient().getBlockNumber(), getQuestSlotsBatch(landIds)]);
+    const hits: SubjectHit[] = [];
+    for (const landId of landIds) {
+      const slots = slotsByLand.get(landId.toString()) ?? [];
+      slots.forEach((slot, index) => {
+        if (slot.endBlock > BigInt(0) && slot.endBlock <= currentBlock) {
+          // endBlock makes the subject unique per quest run
+          hits.push({ subject: `land:${landId}:slot:${index}:${slot.endBlock}`, detail: String(landId) });
+        }
+      });
+    }
+    result.quest_finished = hits;
+  };
+
+  const betsRead = async () => {
+    const bets = await casinoGetActiveBetsBatch(landIds);
+    const hits: SubjectHit[] = [];
+    for (const landId of landIds) {
+      const bet = bets.get(landId.toString());
+      if (bet?.isActive && bet.canReveal && !bet.isExpired) {
+        hits.push({ subject: `land:${landId}:bet:${bet.revealBlock}`, detail: String(landId) });
+      }
+    }
+    result.casino_revealable = hits;
+  };
+
+  await Promise.all([
+    wants.building_production ? buildingsRead() : undefined,
+    wants.quest_finished ? questsRead() : undefined,
+    wants.casino_revealable ? betsRead() : undefined,
+  ]);
+  return result;
+}
+
+async function evaluateStakingRewards(ctx: EvaluationContext): Promise<SubjectHit[]> {
+  const info = await getStakeInfo(ctx.address);
+  if (!info) return [];
+  const rewards = Number(info.rewards) / 1e18;
+  if (rewards <= 0 || rewards < ctx.prefs.stakingRewardsMin) return [];
+  return [{ subject: 'rewards', detail: rewards.toLocaleString(undefined, { maximumFractionDigits: 0 }) }];
+}
+
+async function evaluateStreakAtRisk(ctx: EvaluationContext): Promise<SubjectHit[]> {
+  // Streak days roll over at 00:00 UTC; warn during the last 4 hours
+  if (ctx.now.getUTCHours() < 20) return [];
+  const streak = await getStreak(ctx.address);
+  const today = getTodayDateString();
+  if (!streak.current || streak.lastActive === today) return [];
+
+  const yesterday = new Date(today);
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  if (streak.lastActive !== yesterday.toISOString().slice(0, 10)) return [];
+  return [{ subject: `day:${today}`, detail: String(streak.current) }];
+}
+
+function buildMessage(category: NotificationCategory, hits: SubjectHit[]): { title: string; body: string } {
+  const n = hits.length;
+  switch (category) {
+    case 'plant_care': {
+      const hours = Math.min(...hits.map((h) => Number(h.detail)));
+      return {
+        title: '🪴 Plant Health Alert',
+        body: n === 1
+          ? `Your plant has under ${hours}h left before it dies. Tap to feed it now!`
+          : `${n} of your plants are running low (under ${hours}h left). Tap to feed them now!`,
+      };
+    }
+    case 'building_production':
+      return {
+        title: '🏡 Production Ready',
+        body: `${n} ${plural(n, 'building has', 'buildings have')} a full day of production waiting. Claim it on your land!`,
+      };
+    case 'quest_finished':
+      return {
+        title: '🧭 Quest Complete',
+        body: `${n} ${plural(n, 'quest has', 'quests have')} finished. Tap to collect your rewards!`,
+      };
+    case 'casino_revealable':
+      return {
+        title: '🎰 Bet Ready',
+        body: 'Your roulette bet is ready to reveal. Reveal it before it expires!',
+      };
+    case 'staking_rewards':
+      return {
+        title: '🌱 Staking Rewards',
+        body: `You have ${hits[0]?.detail ?? ''} LEAF in staking rewards waiting to be claimed.`,
+      };
+    case 'streak_at_risk':
+      return {
+        title: '🔥 Streak at Risk',
+        body: `Your ${hits[0]?.detail ?? ''}-day streak ends in a few hours. Check in to keep it going!`,
+      };
+  }
+}
+
+/**
+ * Evaluate every enabled category for one user and return what should be sent. Throttle keys are
+ * not claimed here: call claimNotificationThrottles after a delivery succeeds, so a failed
+ * publish is retried on the next run instead of being suppressed for the whole throttle window.
+ * Returns nothing during quiet hours so notifications go out once quiet hours end.
+ */
+export async function evaluateNotificationRules(
+  recipient: string,
+  address: string,
+  options: { now: Date; rpcUrl: string; dryRun?: boolean; prefs?: NotificationPreferences },
+): Promise<{ quiet: boolean; candidates: NotificationCandidate[] }> {
+  const prefs = options.prefs ?? (await getNotificationPreferences(recipient));
+  if (isWithinQuietHours(prefs.quietHours, options.now)) {
+    return { quiet: true, candidates: [] };
+  }
+
+  const ctx: EvaluationContext = { recipient, address, prefs, now: options.now, rpcUrl: options.rpcUrl, dryRun: Boolean(options.dryRun) };
+  const hitsByCategory: Partial<Record<NotificationCategory, SubjectHit[]>> = {};
+
+  const safely = async <T>(category: string, fn: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+      return await fn();
+    } catch (error) {
+      console.warn(`[notification-rules] ${category} evaluation failed for ${recipient}:`, error);
+      return fallback;
+    }
+  };
+
+  if (prefs.categories.plant_care) hitsByCategory.plant_care = await safely('plant_care', () => evaluatePlantCare(ctx), []);
+  Object.assign(hitsByCategory, await safely('lands', () => evaluateLandCategories(ctx), {}));
+  if (prefs.categories.staking_rewards) hitsByCategory.staking_rewards = await safely('staking_rewards', () => evaluateStakingRewards(ctx), []);
+  if (prefs.categories.streak_at_risk) hitsByCategory.streak_at_risk = await safely('streak_at_risk', () => evaluateStreakAtRisk(ctx), []);
+
+  const candidates: NotificationCandidate[] = [];
+  for (const category of NOTIFICATION_CATEGORIES) {
+    const hits = hitsByCategory[category];
+    if (!hits || hits.length === 0) continue;
+
+    const fresh: SubjectHit[] = [];
+    for (const hit of hits) {
+      if (!(await isThrottled(KEYS.subjectThrottle(category, recipient, hit.subject)))) fresh.push(hit);
+    }
+    if (fresh.length === 0) continue;
+    if (await isThrottled(KEYS.userThrottle(category, recipient))) continue;
+
+    candidates.push({ category, ...buildMessage(category, fresh), subjects: fresh.map((h) => h.subject) });
+  }
+
+  return { quiet: false, candidates };
+}
+
+/** Mark a delivered candidate as sent so the same alert is throttled on later runs. */
+export async function claimNotificationThrottles(recipient: string, candidate: NotificationCandidate): Promise<void> {
+  const meta = NOTIFICATION_CATEGORY_META[candidate.category];
+  await markThrottled(KEYS.userThrottle(candidate.category, recipient), meta.userThrottleSeconds);
+  await Promise.all(candidate.subjects.map((subject) => markThrottled(KEYS.subjectThrottle(candidate.category, recipient, subject), meta.subjectThrottleSeconds)));
+}
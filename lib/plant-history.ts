@@ -0,0 +1,276 @@
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { getPlantsInfoExtended } from './contracts';
+import { getActivityFeed, ACTIVITY_PAGE_MAX } from './activity-feed';
+import type { ActivityEvent, Plant } from './types';
+
+/**
+ * Per-plant lifetime history: periodic snapshots of the onchain plant state kept in Redis,
+ * combined with the plant's indexer events (attacks, kills, items, arcade plays).
+ *
+ * Reading a history never writes. Plants are enrolled in the hourly snapshot cron by their
+ * owner (see enrollOwnedPlant); the tracked set and every snapshot list are bounded.
+ */
+
+const SNAPSHOT_MAX_ENTRIES = 24 * 30; // hourly for ~30 days
+const SNAPSHOT_MIN_INTERVAL_MS = 30 * 60 * 1000;
+const TRACK_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// Snapshot lists of plants that stop being tracked expire with the tracking window
+const SNAPSHOT_TTL_SECONDS = TRACK_WINDOW_MS / 1000;
+const TRACKED_MAX = 5000;
+const HISTORY_CACHE_TTL_SECONDS = 60;
+const EVENT_PAGES = 5;
+const SNAPSHOT_BATCH = 100;
+
+const KEYS = {
+  snapshots: (plantId: number) => `plant-history:snapshots:${plantId}`,
+  tracked: 'plant-history:tracked',
+  cache: (plantId: number) => `plant-history:cache:${plantId}`,
+};
+
+const HISTORY_EVENT_TYPES = ['Attack', 'Killed', 'Mint', 'Played', 'ItemConsumed', 'ShopItemPurchased'] as const;
+
+export type PlantSnapshot = {
+  t: number;
+  name: string;
+  score: number;
+  level: number;
+  stars: number;
+  status: number;
+  timeUntilStarving: number;
+  rewards: number;
+};
+
+export type PlantRename = { t: number; from: string; to: string };
+
+export type PlantHistoryStats = {
+  attacksGiven: number;
+  attacksGivenWon: number;
+  attacksReceived: number;
+  attacksReceivedLost: number;
+  pointsFromAttacks: number;
+  pointsLostToAttacks: number;
+  kills: number;
+  killedBy: string | null;
+  itemsConsumed: number;
+  shopPurchases: number;
+  gamesPlayed: number;
+};
+
+export type PlantHistory = {
+  plantId: number;
+  generatedAt: number;
+  current: PlantSnapshot | null;
+  snapshots: PlantSnapshot[];
+  renames: PlantRename[];
+  stats: PlantHistoryStats;
+  events: ActivityEvent[];
+  eventsTruncated: boolean;
+};
+
+const toSnapshot = (plant: Plant, t: number): PlantSnapshot => ({
+  t,
+  name: plant.name || '',
+  score: plant.score,
+  level: plant.level,
+  stars: plant.stars,
+  status: plant.status,
+  timeUntilStarving: plant.timeUntilStarving,
+  rewards: plant.rewards,
+});
+
+async function readSnapshots(plantId: number): Promise<PlantSnapshot[]> {
+  if (!redis) return [];
+  try {
+    const raw = (await redis.lrange(withPrefix(KEYS.snapshots(plantId)), 0, SNAPSHOT_MAX_ENTRIES - 1)) as unknown[];
+    return raw
+      .map((entry) => (typeof entry === 'string' ? JSON.parse(entry) : entry) as PlantSnapshot)
+      .filter((s) => s && typeof s.t === 'number')
+      .reverse(); // stored newest first
+  } catch (error) {
+    console.warn('[plant-history] failed to read snapshots', plantId, error);
+    return [];
+  }
+}
+
+async function appendSnapshot(plant: Plant, now: number): Promise<boolean> {
+  if (!redis) return false;
+  const key = withPrefix(KEYS.snapshots(plant.id));
+  try {
+    const latestRaw = await redis.lindex(key, 0);
+    const latest = latestRaw ? ((typeof latestRaw === 'string' ? JSON.parse(latestRaw) : latestRaw) as PlantSnapshot) : null;
+    if (latest && now - latest.t < SNAPSHOT_MIN_INTERVAL_MS) return false;
+    await redis.lpush(key, JSON.stringify(toSnapshot(plant, now)));
+    await redis.ltrim(key, 0, SNAPSHOT_MAX_ENTRIES - 1);
+    await redis.expire(key, SNAPSHOT_TTL_SECONDS);
+    return true;
+  } catch (error) {
+    console.warn('[plant-history] failed to append snapshot', plant.id, error);
+    return false;
+  }
+}
+
+/** Snapshot a batch of plants (skips plants snapshotted within the last 30 minutes). */
+export async function recordPlantSnapshots(plants: Plant[], now: number = Date.now()): Promise<number> {
+  let written = 0;
+  for (const plant of plants) {
+    if (await appendSnapshot(plant, now)) written++;
+  }
+  return written;
+}
+
+/** Enrolled plants are sampled by the snapshot cron; past TRACKED_MAX the stalest drop out. */
+async function trackPlant(plantId: number, now: number): Promise<void> {
+  if (!redis) return;
+  const key = withPrefix(KEYS.tracked);
+  try {
+    await redis.zadd(key, { score: now, member: String(plantId) });
+    const excess = (await redis.zcard(key)) - TRACKED_MAX;
+    if (excess > 0) {
+      const stale = await redis.zrange<string[]>(key, 0, excess - 1);
+      if (stale.length) await redis.zrem(key, ...stale);
+    }
+  } catch (error) {
+    console.warn('[plant-history] failed to track plant', plantId, error);
+  }
+}
+
+export async function snapshotTrackedPlants(now: number = Date.now()): Promise<{ tracked: number; written: number; failedBatches: number }> {
+  if (!redis) return { tracked: 0, written: 0, failedBatches: 0 };
+  const key = withPrefix(KEYS.tracked);
+  await redis.zremrangebyscore(key, 0, now - TRACK_WINDOW_MS);
+  const ids = ((await redis.zrange(key, 0, -1)) as unknown[]).map(Number).filter((n) => Number.isInteger(n) && n >= 0);
+
+  let written = 0;
+  let failedBatches = 0;
+  for (let i = 0; i < ids.length; i += SNAPSHOT_BATCH) {
+    try {
+      const plants = await getPlantsInfoExtended(ids.slice(i, i + SNAPSHOT_BATCH));
+      written += await recordPlantSnapshots(plants, now);
+    } catch (error) {
+      failedBatches++;
+      console.warn('[plant-history] snapshot batch failed', error);
+    }
+  }
+  return { tracked: ids.length, written, failedBatches };
+}
+
+async function fetchPlantEvents(plantId: number): Promise<{ events: ActivityEvent[]; truncated: boolean }> {
+  const events: ActivityEvent[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < EVENT_PAGES; page++) {
+    const result = await getActivityFeed(
+      { plantId: String(plantId), types: [...HISTORY_EVENT_TYPES] },
+      { cursor, limit: ACTIVITY_PAGE_MAX },
+    );
+    events.push(...result.events);
+    cursor = result.nextCursor;
+    if (!cursor) return { events, truncated: false };
+  }
+  return { events, truncated: true };
+}
+
+function computeStats(plantId: number, events: ActivityEvent[]): PlantHistoryStats {
+  const id = String(plantId);
+  const stats: PlantHistoryStats = {
+    attacksGiven: 0,
+    attacksGivenWon: 0,
+    attacksReceived: 0,
+    attacksReceivedLost: 0,
+    pointsFromAttacks: 0,
+    pointsLostToAttacks: 0,
+    kills: 0,
+    killedBy: null,
+    itemsConsumed: 0,
+    shopPurchases: 0,
+    gamesPlayed: 0,
+  };
+
+  for (const e of events) {
+    switch (e.__typename) {
+      case 'Attack': {
+        const pts = Number(e.scoresWon) || 0;
+        if (e.attacker === id) {
+          stats.attacksGiven++;
+          if (e.winner === id) stats.attacksGivenWon++;
+        } else {
+          stats.attacksReceived++;
+          if (e.loser === id) stats.attacksReceivedLost++;
+        }
+        if (e.winner === id) stats.pointsFromAttacks += pts;
+        if (e.loser === id) stats.pointsLostToAttacks += pts;
+        break;
+      }
+      case 'Killed':
+        if (e.nftId === id) stats.kills++;
+        if (e.deadId === id) stats.killedBy = e.winnerName || `#${e.nftId}`;
+        break;
+      case 'ItemConsumed':
+        stats.itemsConsumed++;
+        break;
+      case 'ShopItemPurchased':
+        stats.shopPurchases++;
+        break;
+      case 'Played':
+        stats.gamesPlayed++;
+        break;
+    }
+  }
+  return stats;
+}
+
+function computeRenames(snapshots: PlantSnapshot[]): PlantRename[] {
+  const renames: PlantRename[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1];
+    const next = snapshots[i];
+    if (prev.name !== next.name) renames.push({ t: next.t, from: prev.name, to: next.name });
+  }
+  return renames;
+}
+
+export type EnrollResult = { ok: true } | { ok: false; reason: 'not_found' | 'not_owner' };
+
+/**
+ * Record a fresh snapshot and (re)enroll the plant in the hourly snapshot cron for another
+ * 30 days. Only the plant's current owner may do this.
+ */
+export async function enrollOwnedPlant(plantId: number, ownerAddress: string, now: number = Date.now()): Promise<EnrollResult> {
+  const [plant] = await getPlantsInfoExtended([plantId]).catch(() => [] as Plant[]);
+  if (!plant) return { ok: false, reason: 'not_found' };
+  if (plant.owner.toLowerCase() !== ownerAddress.toLowerCase()) return { ok: false, reason: 'not_owner' };
+
+  await Promise.all([appendSnapshot(plant, now), trackPlant(plantId, now)]);
+  return { ok: true };
+}
+
+/** Build (or serve from a short cache) the full history for one plant. */
+export async function getPlantHistory(plantId: number): Promise<PlantHistory | null> {
+  const cached = await redisGetJSON<PlantHistory>(KEYS.cache(plantId));
+  if (cached) return cached;
+
+  const now = Date.now();
+  const [plant] = await getPlantsInfoExtended([plantId]).catch(() => [] as Plant[]);
+  if (!plant) return null;
+
+  const [snapshots, feed] = await Promise.all([
+    readSnapshots(plantId),
+    fetchPlantEvents(plantId).catch((error) => {
+      console.warn('[plant-history] failed to load plant events', plantId, error);
+      return { events: [] as ActivityEvent[], truncated: false };
+    }),
+  ]);
+
+  const history: PlantHistory = {
+    plantId,
+    generatedAt: now,
+    current: toSnapshot(plant, now),
+    snapshots,
+    renames: computeRenames(snapshots),
+    stats: computeStats(plantId, feed.events),
+    events: feed.events,
+    eventsTruncated: feed.truncated,
+  };
+
+  await redisSetJSON(KEYS.cache(plantId), history, HISTORY_CACHE_TTL_SECONDS);
+  return history;
+}
@@ -2,6 +2,9 @@
 // @ts-ignore - module types may not be present in local dev until deps are installed
 import { Redis } from "@upstash/redis";
 import { logger } from "./logger";
+import { createUpstashStore, type KVDriver, type KVStore } from "./kv-store";
+import { MemoryStore } from "./kv-store-memory";
+import { RedisTcpStore } from "./kv-store-tcp";
 
 // Only check environment variables on server side
 const isServer = typeof window === 'undefined';
@@ -14,45 +17,81 @@ const hasUpstashVars = isServer && !!(env.UPSTASH_REDIS_REST_URL && env.UPSTASH_
 const hasKVVars = isServer && !!(env.KV_REST_API_URL && env.KV_REST_API_TOKEN);
 const hasKVDoubleVars = isServer && !!(env.KV_KV_REST_API_URL && env.KV_KV_REST_API_TOKEN);
 const hasCustomVars = isServer && !!(env.REDIS_URL && env.REDIS_TOKEN);
+// A redis:// URL without a REST token means a plain Redis server
+const hasTcpUrl = isServer && !!env.REDIS_URL && /^rediss?:\/\//.test(env.REDIS_URL) && !env.REDIS_TOKEN;
+const isLocalEnv = env.NODE_ENV === 'development' || env.NODE_ENV === 'test';
+
+/**
+ * Which storage driver backs `redis`: STORAGE_DRIVER when set (upstash | redis | memory),
+ * otherwise Upstash when its REST vars are present, a TCP server for a redis:// REDIS_URL, and
+ * the in-memory store in development and tests when nothing is configured.
+ */
+function resolveDriver(): KVDriver | null {
+  const requested = env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (requested === 'upstash' || requested === 'redis' || requested === 'memory') return requested;
+  if (requested) logger.warn(`Unknown STORAGE_DRIVER "${requested}", detecting from environment`);
+  if (hasUpstashVars || hasKVVars || hasKVDoubleVars || hasCustomVars) return 'upstash';
+  if (hasTcpUrl) return 'redis';
+  return isLocalEnv ? 'memory' : null;
+}
 
 // Only show warning on server side in development
-if (isServer && !hasUpstashVars && !hasKVVars && !hasKVDoubleVars && !hasCustomVars && env.NODE_ENV === 'development') {
+if (isServer && resolveDriver() === 'memory' && !env.STORAGE_DRIVER && env.NODE_ENV === 'development') {
   logger.warn(
-    "Redis environment variables not found. Please set either: " +
+    "Redis environment variables not found; using the in-memory store (data is lost on restart). " +
+    "For persistent storage set either: " +
     "UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN (recommended), " +
     "KV_REST_API_URL and KV_REST_API_TOKEN (from Vercel KV integration), " +
-    "KV_KV_REST_API_URL and KV_KV_REST_API_TOKEN (alternative Vercel KV), or " +
-    "REDIS_URL and REDIS_TOKEN (custom)"
+    "KV_KV_REST_API_URL and KV_KV_REST_API_TOKEN (alternative Vercel KV), " +
+    "REDIS_URL and REDIS_TOKEN (custom), or REDIS_URL=redis://... (plain Redis server)"
   );
 }
 
-// Create a single Redis instance for server runtime
-export const redis = (() => {
+function createUpstashClient(): Redis | null {
+  if (hasUpstashVars) return Redis.fromEnv();
+  if (hasKVVars) return new Redis({ url: env.KV_REST_API_URL!, token: env.KV_REST_API_TOKEN! });
+  if (hasKVDoubleVars) return new Redis({ url: env.KV_KV_REST_API_URL!, token: env.KV_KV_REST_API_TOKEN! });
+  if (hasCustomVars) return new Redis({ url: env.REDIS_URL!, token: env.REDIS_TOKEN! });
+  return null;
+}
+
+// One memory store per process, kept across dev hot reloads
+function getMemoryStore(): MemoryStore {
+  const g = globalThis as { __pixotchiMemoryStore?: MemoryStore };
+  g.__pixotchiMemoryStore ??= new MemoryStore();
+  return g.__pixotchiMemoryStore;
+}
+
+// Create a single storage instance for server runtime
+export const redis: KVStore | null = (() => {
   if (!isServer) return null;
   try {
-    let instance: Redis | null = null as any;
-    if (hasUpstashVars) {
-      instance = Redis.fromEnv();
-    } else if (hasKVVars) {
-      instance = new Redis({ url: env.KV_REST_API_URL!, token: env.KV_REST_API_TOKEN! });
-    } else if (hasKVDoubleVars) {
-      instance = new Redis({ url: env.KV_KV_REST_API_URL!, token: env.KV_KV_REST_API_TOKEN! });
-    } else if (hasCustomVars) {
-      instance = new Redis({ url: env.REDIS_URL!, token: env.REDIS_TOKEN! });
-    } else {
-      logger.error('No valid environment variables found for Redis');
+    const driver = resolveDriver();
+    let instance: KVStore | null = null;
+    if (driver === 'upstash') {
+      const client = createUpstashClient();
+      instance = client ? createUpstashStore(client) : null;
+    } else if (driver === 'redis') {
+      instance = env.REDIS_URL ? new RedisTcpStore(env.REDIS_URL) : null;
+    } else if (driver === 'memory') {
+      instance = getMemoryStore();
+    }
+    if (!instance) {
+      logger.error('No valid environment variables found for Redis', { driver });
       return null;
     }
 
     // Async connectivity check (non-blocking)
-    setTimeout(async () => {
-      try {
-        await instance!.ping();
-        logger.debug('Redis connection test successful');
-      } catch (e) {
-        logger.error('Redis connection test failed', e);
-      }
-    }, 0);
+    if (instance.driver !== 'memory') {
+      setTimeout(async () => {
+        try {
+          await instance!.ping();
+          logger.debug('Redis connection test successful', { driver: instance!.driver });
+        } catch (e) {
+          logger.error('Redis connection test failed', e);
+        }
+      }, 0);
+    }
 
     return instance;
   } catch (error) {
@@ -139,20 +178,11 @@ export async function redisScanKeys(pattern: string, count: number = 1000): Prom
     const pat = pattern.startsWith(KEY_PREFIX) ? pattern : withPrefix(pattern);
     let cursor = 0;
     const results: string[] = [];
-    // Upstash scan returns [nextCursor, keys]
+    // Every driver returns [nextCursor, keys]
     do {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const resp: any = await (redis as any).scan(cursor, { match: pat, count });
-      if (Array.isArray(resp)) {
-        cursor = typeof resp[0] === 'string' ? parseInt(resp[0], 10) : resp[0];
-        const batch: string[] = (resp[1] || []) as string[];
-        results.push(...batch);
-      } else if (resp && typeof resp === 'object' && 'cursor' in resp) {
-        cursor = Number(resp.cursor) || 0;
-        results.push(...((resp.keys || []) as string[]));
-      } else {
-        break;
-      }
+      const [next, batch] = await redis.scan(cursor, { match: pat, count });
+      cursor = parseInt(String(next), 10) || 0;
+      results.push(...(batch || []));
     } while (cursor !== 0);
     return results;
   } catch (error) {
@@ -204,14 +234,7 @@ export async function redisTTL(key: string): Promise<number | null> {
 export async function redisPersist(key: string): Promise<boolean> {
   if (!redis) return false;
   try {
-    if (typeof (redis as any).persist === 'function') {
-      await (redis as any).persist(withPrefix(key));
-    } else {
-      const ttl = await redisTTL(key);
-      if (ttl && ttl > 0) {
-        await redisExpire(key, Math.max(ttl, 1));
-      }
-    }
+    await redis.persist(withPrefix(key));
     return true;
   } catch (error) {
     logger.error('redisPersist failed', error, { key });
@@ -221,56 +244,12 @@ export async function redisPersist(key: string): Promise<boolean> {
 
 export type RedisClient = typeof redis;
 
-const REDIS_CAS_SCRIPT = `
-local key = KEYS[1]
-local expected = ARGV[1]
-local value = ARGV[2]
-
-if expected == "__nil__" then
-  if redis.call("EXISTS", key) == 0 then
-    redis.call("SET", key, value)
-    return 1
-  else
-    return 0
-  end
-end
-
-local current = redis.call("GET", key)
-if current == expected then
-  redis.call("SET", key, value)
-  return 1
-end
-return 0
-`;
-
 export async function redisCompareAndSetJSON(key: string, expected: string | null, value: string): Promise<boolean> {
   if (!redis) return false;
-  const fullKey = withPrefix(key);
-  const sentinel = '__nil__';
   try {
-    const evalFn = (redis as any)?.eval;
-    if (typeof evalFn === 'function') {
-      const result = await evalFn.call(redis, REDIS_CAS_SCRIPT, [fullKey], [expected ?? sentinel, value]);
-      return Number(result) === 1;
-    }
-
-    if (expected == null) {
-      const exists = await (redis as any)?.exists?.(fullKey);
-      if (Number(exists) === 0) {
-        await redis.set(fullKey, value);
-        return true;
-      }
-      return false;
-    }
-
-    const current = await redis.get(fullKey);
-    if (current === expected) {
-      await redis.set(fullKey, value);
-      return true;
-    }
-    return false;
+    return await redis.compareAndSet(withPrefix(key), expected, value);
   } catch (error) {
     logger.error('redisCompareAndSetJSON failed', error, { key });
     return false;
   }
-}
\ No newline at end of file
+}
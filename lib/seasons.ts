@@ -0,0 +1,439 @@
+import { encodeFunctionData, erc20Abi, formatUnits, getAddress, isAddress, parseUnits, type Hex } from 'viem';
+import { redis, redisGetJSON, redisSetJSON, redisDel, withPrefix } from './redis';
+import { getTodayDateString } from './invite-utils';
+import { getAliveTokenIds, getLandLeaderboard, getPlantsInfoExtended, LEAF_CONTRACT_ADDRESS, PIXOTCHI_TOKEN_ADDRESS } from './contracts';
+import { getStakeLeaderboard } from './stake-leaderboard-service';
+import { getAgentCallsStatus, submitAgentCalls, waitForAgentCalls, type AgentCall } from './agent-service';
+import type {
+  GmDay,
+  GmSeason,
+  GmSeasonBoard,
+  GmSeasonDistribution,
+  GmSeasonPayoutEntry,
+  GmSeasonPhase,
+  GmSeasonPrize,
+  GmSeasonSnapshot,
+  GmSeasonStanding,
+} from './gamification-types';
+
+/**
+ * Leaderboard seasons.
+ *
+ * Missions and streaks are scored per season as they happen (Rocks earned and the longest
+ * streak reached between startsOn and endsOn). Plants, lands and stake are read onchain when
+ * the season is finalized. Finalizing freezes every board into a snapshot and drafts a prize
+ * distribution; nothing is paid until an admin approves it, after which the seasons cron sends
+ * the transfers from the agent smart account.
+ */
+
+export const SEASON_BOARDS: readonly GmSeasonBoard[] = ['missions', 'streaks', 'plants', 'lands', 'stake'];
+
+const SNAPSHOT_SIZE = 100;
+const HALL_OF_FAME_SIZE = 3;
+const PAYOUT_ENTRIES_PER_CALL = 10;
+const PAYOUT_LOCK_TTL_SECONDS = 5 * 60;
+const SEASON_ID_RE = /^[a-z0-9][a-z0-9_-]{1,47}$/;
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Not under missions:* or streak:* so gamification resets leave finished seasons alone
+const KEYS = {
+  seasons: 'pixotchi:gm:seasons',
+  board: (id: string, board: GmSeasonBoard) => `pixotchi:gm:seasons:${id}:${board}`,
+  snapshot: (id: string) => `pixotchi:gm:seasons:${id}:snapshot`,
+  distribution: (id: string) => `pixotchi:gm:seasons:${id}:distribution`,
+  payoutLock: 'pixotchi:gm:seasons:payout-lock',
+};
+
+export class SeasonError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SeasonError';
+    this.status = status;
+  }
+}
+
+const isAmount = (value: unknown): value is string => typeof value === 'string' && /^\d+(\.\d+)?$/.test(value);
+
+export function seasonPhase(season: GmSeason, day: GmDay = getTodayDateString()): GmSeasonPhase {
+  if (season.finalizedAt) return 'finalized';
+  if (day < season.startsOn) return 'scheduled';
+  return day <= season.endsOn ? 'active' : 'ended';
+}
+
+function validatePrize(input: any, index: number): GmSeasonPrize {
+  const board = input?.board as GmSeasonBoard;
+  if (!SEASON_BOARDS.includes(board)) {
+    throw new SeasonError(`Prize ${index + 1} needs a board (${SEASON_BOARDS.join(', ')})`);
+  }
+  const fromRank = Math.floor(Number(input?.fromRank));
+  const toRank = Math.floor(Number(input?.toRank ?? input?.fromRank));
+  if (!Number.isFinite(fromRank) || fromRank < 1 || !Number.isFinite(toRank) || toRank < fromRank || toRank > SNAPSHOT_SIZE) {
+    throw new SeasonError(`Prize ${index + 1} needs ranks between 1 and ${SNAPSHOT_SIZE}`);
+  }
+  const seed = input?.seed == null || input.seed === '' ? '0' : String(input.seed);
+  const leaf = input?.leaf == null || input.leaf === '' ? '0' : String(input.leaf);
+  if (!isAmount(seed) || !isAmount(leaf)) {
+    throw new SeasonError(`Prize ${index + 1} amounts must be decimal numbers`);
+  }
+  return { board, fromRank, toRank, seed, leaf };
+}
+
+/** Normalize an admin-submitted season, throwing SeasonError on anything unusable. */
+export function validateSeason(input: any): GmSeason {
+  const id = typeof input?.id === 'string' ? input.id.trim() : '';
+  if (!SEASON_ID_RE.test(id)) {
+    throw new SeasonError('Season id must be 2-48 lowercase letters, digits, "-" or "_"');
+  }
+  const title = typeof input?.title === 'string' && input.title.trim() ? input.title.trim().slice(0, 80) : id;
+  for (const field of ['startsOn', 'endsOn'] as const) {
+    const value = input?.[field];
+    if (typeof value !== 'string' || !DAY_RE.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new SeasonError(`${field} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (input.endsOn < input.startsOn) throw new SeasonError('endsOn must not be before startsOn');
+  const prizes = Array.isArray(input?.prizes) ? input.prizes.map(validatePrize) : [];
+  return { id, title, startsOn: input.startsOn, endsOn: input.endsOn, prizes, updatedAt: Date.now(), finalizedAt: null };
+}
+
+export async function getSeasons(): Promise<GmSeason[]> {
+  const seasons = await redisGetJSON<GmSeason[]>(KEYS.seasons);
+  return (Array.isArray(seasons) ? seasons : []).sort((a, b) => b.startsOn.localeCompare(a.startsOn));
+}
+
+export async function getSeason(id: string): Promise<GmSeason | null> {
+  return (await getSeasons()).find((s) => s.id === id) ?? null;
+}
+
+/** The season running on `day`; seasons may not overlap, so there is at most one. */
+export async function getActiveSeason(day: GmDay = getTodayDateString()): Promise<GmSeason | null> {
+  return (await getSeasons()).find((s) => seasonPhase(s, day) === 'active') ?? null;
+}
+
+export async function saveSeason(input: unknown): Promise<GmSeason> {
+  if (!redis) throw new SeasonError('Season storage is unavailable', 503);
+  const season = validateSeason(input);
+  const seasons = await getSeasons();
+  const existing = seasons.find((s) => s.id === season.id);
+  if (existing?.finalizedAt) {
+    throw new SeasonError('A finalized season can no longer be edited', 409);
+  }
+  const overlapping = seasons.find((s) => s.id !== season.id && s.startsOn <= season.endsOn && season.startsOn <= s.endsOn);
+  if (overlapping) {
+    throw new SeasonError(`Season overlaps "${overlapping.id}" (${overlapping.startsOn} → ${overlapping.endsOn})`, 409);
+  }
+  await redisSetJSON(KEYS.seasons, [...seasons.filter((s) => s.id !== season.id), season]);
+  return season;
+}
+
+export async function deleteSeason(id: string): Promise<boolean> {
+  const seasons = await getSeasons();
+  const season = seasons.find((s) => s.id === id);
+  if (!season) return false;
+  if (season.finalizedAt) throw new SeasonError('A finalized season cannot be deleted', 409);
+  await redisSetJSON(KEYS.seasons, seasons.filter((s) => s.id !== id));
+  await Promise.all((['missions', 'streaks'] as const).map((board) => redisDel(KEYS.board(id, board))));
+  return true;
+}
+
+async function updateSeason(id: string, patch: Partial<GmSeason>): Promise<void> {
+  const seasons = await getSeasons();
+  await redisSetJSON(KEYS.seasons, seasons.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+}
+
+// -------------------- Scoring --------------------
+
+/** Add Rocks earned on `day` to the running season's missions board. */
+export async function recordSeasonMissionPoints(address: string, day: GmDay, gained: number): Promise<void> {
+  if (!redis || gained <= 0) return;
+  const season = await getActiveSeason(day);
+  if (!season) return;
+  await (redis as any).zincrby(withPrefix(KEYS.board(season.id, 'missions')), gained, address.toLowerCase());
+}
+
+/** Keep the longest streak reached during the running season. */
+export async function recordSeasonStreak(address: string, day: GmDay, current: number): Promise<void> {
+  if (!redis || current <= 0) return;
+  const season = await getActiveSeason(day);
+  if (!season) return;
+  await (redis as any).zadd(withPrefix(KEYS.board(season.id, 'streaks')), { gt: true }, { score: current, member: address.toLowerCase() });
+}
+
+async function readScoredBoard(id: string, board: 'missions' | 'streaks'): Promise<GmSeasonStanding[]> {
+  if (!redis) return [];
+  const raw = ((await (redis as any).zrange(withPrefix(KEYS.board(id, board)), 0, SNAPSHOT_SIZE - 1, { rev: true, withScores: true })) || []) as any[];
+  const standings: GmSeasonStanding[] = [];
+  for (let i = 0; i < raw.length; i += 2) {
+    const value = Number(raw[i + 1]);
+    if (typeof raw[i] === 'string' && Number.isFinite(value)) {
+      standings.push({ rank: standings.length + 1, address: raw[i], value });
+    }
+  }
+  return standings;
+}
+
+async function readPlantBoard(): Promise<GmSeasonStanding[]> {
+  const plants = await getPlantsInfoExtended(await getAliveTokenIds());
+  return plants
+    .filter((p) => p.status !== 4 && isAddress(p.owner))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SNAPSHOT_SIZE)
+    .map((p, i) => ({ rank: i + 1, address: p.owner.toLowerCase(), value: p.score / 1e12, label: p.name || `Plant #${p.id}`, tokenId: p.id }));
+}
+
+async function readLandBoard(): Promise<GmSeasonStanding[]> {
+  const lands = await getLandLeaderboard();
+  return lands
+    .filter((l) => isAddress(l.owner))
+    .sort((a, b) => (b.experiencePoints > a.experiencePoints ? 1 : b.experiencePoints < a.experiencePoints ? -1 : 0))
+    .slice(0, SNAPSHOT_SIZE)
+    .map((l, i) => ({
+      rank: i + 1,
+      address: l.owner.toLowerCase(),
+      value: Number(formatUnits(l.experiencePoints, 18)),
+      label: l.name || `Land #${l.landId}`,
+      tokenId: l.landId,
+    }));
+}
+
+async function readStakeBoard(): Promise<GmSeasonStanding[]> {
+  const stakers = await getStakeLeaderboard();
+  return stakers.slice(0, SNAPSHOT_SIZE).map((s, i) => ({
+    rank: i + 1,
+    address: s.address.toLowerCase(),
+    value: Number(formatUnits(s.stakedAmount, 18)),
+  }));
+}
+
+/**
+ * Standings for a season: the frozen snapshot once finalized, otherwise the live missions and
+ * streak boards (plants, lands and stake are only captured at the end).
+ */
+export async function getSeasonStandings(season: GmSeason): Promise<{ final: boolean; boards: Partial<Record<GmSeasonBoard, GmSeasonStanding[]>>; takenAt?: number }> {
+  if (season.finalizedAt) {
+    const snapshot = await redisGetJSON<GmSeasonSnapshot>(KEYS.snapshot(season.id));
+    if (snapshot) return { final: true, boards: snapshot.boards, takenAt: snapshot.takenAt };
+  }
+  const [missions, streaks] = await Promise.all([readScoredBoard(season.id, 'missions'), readScoredBoard(season.id, 'streaks')]);
+  return { final: false, boards: { missions, streaks } };
+}
+
+// -------------------- Finalization --------------------
+
+function buildDistribution(season: GmSeason, snapshot: GmSeasonSnapshot): GmSeasonDistribution {
+  const entries: GmSeasonPayoutEntry[] = [];
+  for (const prize of season.prizes) {
+    for (const standing of snapshot.boards[prize.board] ?? []) {
+      if (standing.rank < prize.fromRank || standing.rank > prize.toRank) continue;
+      entries.push({ board: prize.board, rank: standing.rank, address: standing.address, seed: prize.seed, leaf: prize.leaf, status: 'pending' });
+    }
+  }
+  const sum = (pick: (e: GmSeasonPayoutEntry) => string) =>
+    formatUnits(entries.reduce((acc, e) => acc + parseUnits(pick(e), 18), BigInt(0)), 18);
+  return {
+    seasonId: season.id,
+    createdAt: Date.now(),
+    status: entries.length > 0 ? 'draft' : 'completed',
+    totals: { seed: sum((e) => e.seed), leaf: sum((e) => e.leaf) },
+    entries,
+  };
+}
+
+/**
+ * Freeze the final standings of an ended season and draft its prize distribution.
+ * Onchain boards are read at this moment, so the cron runs it shortly after the season ends.
+ */
+export async function finalizeSeason(id: string): Promise<{ snapshot: GmSeasonSnapshot; distribution: GmSeasonDistribution }> {
+  const season = await getSeason(id);
+  if (!season) throw new SeasonError('Season not found', 404);
+  const phase = seasonPhase(season);
+  if (phase === 'finalized') throw new SeasonError('Season is already finalized', 409);
+  if (phase !== 'ended') throw new SeasonError('Season has not ended yet', 409);
+
+  const [missions, streaks, plants, lands, stake] = await Promise.all([
+    readScoredBoard(id, 'missions'),
+    readScoredBoard(id, 'streaks'),
+    readPlantBoard(),
+    readLandBoard(),
+    readStakeBoard(),
+  ]);
+  const snapshot: GmSeasonSnapshot = { seasonId: id, takenAt: Date.now(), boards: { missions, streaks, plants, lands, stake } };
+  const distribution = buildDistribution(season, snapshot);
+
+  await redisSetJSON(KEYS.snapshot(id), snapshot);
+  await redisSetJSON(KEYS.distribution(id), distribution);
+  await updateSeason(id, { finalizedAt: snapshot.takenAt });
+  return { snapshot, distribution };
+}
+
+export async function getSeasonDistribution(id: string): Promise<GmSeasonDistribution | null> {
+  return redisGetJSON<GmSeasonDistribution>(KEYS.distribution(id));
+}
+
+/**
+ * Approve a reviewed distribution for sending; failed entries are retried. Entries that were
+ * submitted but never confirmed stay `sending` and are not paid again.
+ */
+export async function approveSeasonDistribution(id: string): Promise<GmSeasonDistribution> {
+  const distribution = await getSeasonDistribution(id);
+  if (!distribution) throw new SeasonError('Season has no distribution yet', 404);
+  const pending = distribution.entries.map((e) => (e.status === 'failed' ? { ...e, status: 'pending' as const, error: undefined } : e));
+  if (!pending.some((e) => e.status === 'pending')) throw new SeasonError('Nothing left to pay', 409);
+  const approved: GmSeasonDistribution = { ...distribution, status: 'approved', approvedAt: Date.now(), entries: pending };
+  await redisSetJSON(KEYS.distribution(id), approved);
+  return approved;
+}
+
+/** The distribution as CSV, for review before approval. */
+export function distributionToCsv(distribution: GmSeasonDistribution): string {
+  const rows = distribution.entries.map((e) => [e.board, e.rank, e.address, e.seed, e.leaf, e.status, e.txHash ?? ''].join(','));
+  return ['board,rank,address,seed,leaf,status,tx_hash', ...rows].join('\n');
+}
+
+function transferCalls(entries: GmSeasonPayoutEntry[]): AgentCall[] {
+  const calls: AgentCall[] = [];
+  for (const entry of entries) {
+    const to = getAddress(entry.address);
+    for (const [token, amount] of [[PIXOTCHI_TOKEN_ADDRESS, entry.seed], [LEAF_CONTRACT_ADDRESS, entry.leaf]] as const) {
+      const wei = parseUnits(amount, 18);
+      if (wei <= BigInt(0)) continue;
+      calls.push({ to: token, value: BigInt(0), data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, wei] }) });
+    }
+  }
+  return calls;
+}
+
+/**
+ * Send the pending entries in batches. Each batch is marked `sending` before it is submitted
+ * and gets its user operation hash as soon as one exists; batches an earlier run left
+ * unconfirmed are settled from that operation's status instead of being sent again.
+ */
+async function payDistribution(distribution: GmSeasonDistribution): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+  const entries = [...distribution.entries];
+  const save = () => redisSetJSON(KEYS.distribution(distribution.seasonId), { ...distribution, entries });
+  const update = (batch: number[], patch: Partial<GmSeasonPayoutEntry>) => {
+    for (const idx of batch) entries[idx] = { ...entries[idx], ...patch };
+  };
+
+  const inflight = new Map<string, number[]>();
+  entries.forEach((e, idx) => {
+    if (e.status !== 'sending') return;
+    if (e.userOpHash) inflight.set(e.userOpHash, [...(inflight.get(e.userOpHash) ?? []), idx]);
+    // Stopped between marking and submitting or storing the hash: whether it was paid is unknown
+    else if (!e.error) entries[idx] = { ...e, error: 'Interrupted while sending; check the agent account before paying again' };
+  });
+  for (const [userOpHash, batch] of inflight) {
+    try {
+      const op = await getAgentCallsStatus(userOpHash as Hex);
+      if (op.status === 'complete') {
+        update(batch, { status: 'sent', txHash: op.transactionHash, error: undefined });
+        sent += batch.length;
+      } else if (op.status === 'failed') {
+        update(batch, { status: 'failed', userOpHash: undefined, error: 'User operation failed' });
+        failed += batch.length;
+      }
+    } catch (error) {
+      console.warn('[seasons] could not check payout user operation', distribution.seasonId, userOpHash, error);
+    }
+  }
+  await save();
+
+  const pendingIndexes = entries.map((e, i) => (e.status === 'pending' ? i : -1)).filter((i) => i >= 0);
+  for (let i = 0; i < pendingIndexes.length; i += PAYOUT_ENTRIES_PER_CALL) {
+    const batch = pendingIndexes.slice(i, i + PAYOUT_ENTRIES_PER_CALL);
+    const calls = transferCalls(batch.map((idx) => entries[idx]));
+    if (calls.length === 0) {
+      update(batch, { status: 'sent' });
+      sent += batch.length;
+      continue;
+    }
+
+    update(batch, { status: 'sending', error: undefined });
+    await save();
+    let userOpHash: Hex;
+    try {
+      userOpHash = await submitAgentCalls(calls);
+    } catch (error: any) {
+      update(batch, { status: 'failed', error: error?.message || String(error) });
+      failed += batch.length;
+      console.error('[seasons] payout batch failed', distribution.seasonId, error);
+      await save();
+      continue;
+    }
+    update(batch, { userOpHash });
+    await save();
+
+    try {
+      const txHash = await waitForAgentCalls(userOpHash);
+      update(batch, { status: 'sent', txHash });
+      sent += batch.length;
+    } catch (error) {
+      console.warn('[seasons] payout batch not confirmed yet, will check its user operation next run', distribution.seasonId, error);
+    }
+    await save();
+  }
+
+  // Stay approved while a batch awaits confirmation so the next run settles it
+  const awaiting = entries.some((e) => e.status === 'sending' && e.userOpHash);
+  const done = entries.every((e) => e.status === 'sent');
+  await redisSetJSON(KEYS.distribution(distribution.seasonId), {
+    ...distribution,
+    entries,
+    status: done ? 'completed' : awaiting ? 'approved' : 'draft',
+  });
+  return { sent, failed };
+}
+
+/**
+ * Cron entry point: finalize seasons that have ended, then send approved distributions.
+ * Failed payouts drop the distribution back to draft for another review.
+ */
+export async function runSeasonJobs(): Promise<{ finalized: string[]; sent: number; failed: number }> {
+  if (!redis) return { finalized: [], sent: 0, failed: 0 };
+  const acquired = await redis.set(withPrefix(KEYS.payoutLock), '1', { nx: true, ex: PAYOUT_LOCK_TTL_SECONDS });
+  if (!acquired) return { finalized: [], sent: 0, failed: 0 };
+
+  const finalized: string[] = [];
+  let sent = 0;
+  let failed = 0;
+  try {
+    for (const season of await getSeasons()) {
+      if (seasonPhase(season) === 'ended') {
+        try {
+          await finalizeSeason(season.id);
+          finalized.push(season.id);
+        } catch (error) {
+          console.error('[seasons] finalize failed', season.id, error);
+        }
+        continue;
+      }
+      if (!season.finalizedAt) continue;
+      const distribution = await getSeasonDistribution(season.id);
+      if (distribution?.status !== 'approved') continue;
+      const result = await payDistribution(distribution);
+      sent += result.sent;
+      failed += result.failed;
+    }
+  } finally {
+    await redisDel(KEYS.payoutLock);
+  }
+  return { finalized, sent, failed };
+}
+
+/** Top finishers of every finalized season, newest first. */
+export async function getHallOfFame(): Promise<Array<{ season: GmSeason; winners: Partial<Record<GmSeasonBoard, GmSeasonStanding[]>> }>> {
+  const finalized = (await getSeasons()).filter((s) => s.finalizedAt);
+  const snapshots = await Promise.all(finalized.map((s) => redisGetJSON<GmSeasonSnapshot>(KEYS.snapshot(s.id))));
+  return finalized.flatMap((season, i) => {
+    const snapshot = snapshots[i];
+    if (!snapshot) return [];
+    const winners: Partial<Record<GmSeasonBoard, GmSeasonStanding[]>> = {};
+    for (const board of SEASON_BOARDS) {
+      winners[board] = (snapshot.boards[board] ?? []).slice(0, HALL_OF_FAME_SIZE);
+    }
+    return [{ season, winners }];
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Client half of the wallet session layer (see lib/auth-session.ts).
+ *
+ * `sessionFetch` is a drop-in `fetch` for address-scoped API routes: when the server answers
+ * 401/403 because there is no session (or it belongs to another wallet), it asks the
+ * SessionProvider to sign in once and retries the request.
+ */
+
+const RETRYABLE_CODES = new Set(['SESSION_REQUIRED', 'SESSION_ADDRESS_MISMATCH']);
+
+type SignInHandler = () => Promise<boolean>;
+
+let signInHandler: SignInHandler | null = null;
+let pendingSignIn: Promise<boolean> | null = null;
+
+/** Registered by SessionProvider; returns an unregister function. */
+export function registerSessionSignIn(handler: SignInHandler): () => void {
+  signInHandler = handler;
+  return () => {
+    if (signInHandler === handler) signInHandler = null;
+  };
+}
+
+// Concurrent 401s share a single wallet prompt
+function signInOnce(): Promise<boolean> {
+  if (!signInHandler) return Promise.resolve(false);
+  if (!pendingSignIn) {
+    pendingSignIn = signInHandler().finally(() => {
+      pendingSignIn = null;
+    });
+  }
+  return pendingSignIn;
+}
+
+export async function sessionFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const request = () => fetch(input, { credentials: 'same-origin', ...init });
+  const response = await request();
+  if (response.status !== 401 && response.status !== 403) return response;
+
+  const body = await response.clone().json().catch(() => null);
+  if (!RETRYABLE_CODES.has(body?.code)) return response;
+
+  return (await signInOnce()) ? request() : response;
+}
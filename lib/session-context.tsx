@@ -0,0 +1,136 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { base } from 'wagmi/chains';
+import { SiweMessage } from 'siwe';
+import { sdk } from '@farcaster/miniapp-sdk';
+import toast from 'react-hot-toast';
+import { useFrameContext } from '@/lib/frame-context';
+import { registerSessionSignIn } from '@/lib/session-client';
+
+export type ClientSession = {
+  address: string;
+  method: 'siwe' | 'quick-auth';
+  fid?: number | null;
+  expiresAt: number;
+};
+
+interface SessionContextType {
+  session: ClientSession | null;
+  signingIn: boolean;
+  signIn: () => Promise<boolean>;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+async function postJSON(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Sign-in failed');
+  }
+  return data;
+}
+
+/**
+ * Wallet session for address-scoped API routes. Sign-in is lazy: it happens the first time
+ * `sessionFetch` gets a SESSION_REQUIRED response, using Farcaster Quick Auth inside a Mini App
+ * and a SIWE signature otherwise. Solana twin addresses cannot sign in yet.
+ */
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const fc = useFrameContext();
+  const isInMiniApp = Boolean(fc?.isInMiniApp);
+  const [session, setSession] = useState<ClientSession | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setSession(data?.session ?? null);
+      })
+      .catch(() => { });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!address) {
+      toast.error('Connect a wallet to continue');
+      return false;
+    }
+    setSigningIn(true);
+    try {
+      if (isInMiniApp) {
+        try {
+          const { token } = await sdk.quickAuth.getToken();
+          const data = await postJSON('/api/auth/quick-auth', { token, address });
+          setSession(data.session);
+          return true;
+        } catch (error) {
+          // The Mini App wallet can still sign a SIWE message
+          console.warn('[session] Quick Auth sign-in failed, falling back to SIWE', error);
+        }
+      }
+
+      const nonceResponse = await fetch('/api/auth/nonce');
+      const { nonce } = await nonceResponse.json();
+      if (!nonceResponse.ok || !nonce) {
+        throw new Error('Sign-in is temporarily unavailable');
+      }
+
+      const message = new SiweMessage({
+        domain: window.location.host,
+        address,
+        statement: 'Sign in to Pixotchi. This does not send a transaction or cost gas.',
+        uri: window.location.origin,
+        version: '1',
+        chainId: base.id,
+        nonce,
+        issuedAt: new Date().toISOString(),
+      }).prepareMessage();
+      const signature = await signMessageAsync({ message });
+
+      const data = await postJSON('/api/auth/verify', { message, signature });
+      setSession(data.session);
+      return true;
+    } catch (error: any) {
+      const rejected = /reject|denied|cancel/i.test(error?.message || '');
+      toast.error(rejected ? 'Sign-in cancelled' : error?.message || 'Sign-in failed');
+      return false;
+    } finally {
+      setSigningIn(false);
+    }
+  }, [address, isInMiniApp, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' }).catch(() => { });
+    setSession(null);
+  }, []);
+
+  useEffect(() => registerSessionSignIn(signIn), [signIn]);
+
+  return (
+    <SessionContext.Provider value={{ session, signingIn, signIn, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession() {
+  const context = useContext(SessionContext);
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
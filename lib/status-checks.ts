@@ -1,5 +1,6 @@
 import { CLIENT_ENV, listRpcHttpEndpoints } from './env-config';
 import { redis } from './redis';
+import { getOnchainActivity, getOnchainServedInfo } from './activity-indexer';
 
 type StatusLevel = 'operational' | 'degraded' | 'outage' | 'unknown';
 
@@ -167,16 +168,39 @@ async function checkIndexer(): Promise<StatusService> {
     }
   });
 
-  const status: StatusLevel = error
-    ? (error?.name === 'AbortError' ? 'outage' : 'degraded')
-    : 'operational';
+  // While Ponder is failing the activity tab falls back to contract logs; probe that path so the
+  // feed is only reported as degraded when the fallback actually answers
+  let fallbackError: any = null;
+  if (error) {
+    const probe = await measure(() => withTimeout((signal) => new Promise((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(Object.assign(new Error('Timed out'), { name: 'AbortError' })));
+      getOnchainActivity().then(resolve, reject);
+    }), DEFAULT_TIMEOUT_MS));
+    fallbackError = probe.error ?? null;
+  }
+  const source = !error ? 'ponder' : fallbackError ? 'none' : 'onchain';
+  const lastFallback = await getOnchainServedInfo().catch(() => null);
+  const status: StatusLevel = !error ? 'operational' : fallbackError ? 'outage' : 'degraded';
+
+  const ponderDetail = error?.name === 'AbortError' ? 'Timed out' : (error?.message || 'Unavailable');
+  const fallbackDetail = fallbackError?.name === 'AbortError' ? 'timed out' : (fallbackError?.message || 'unavailable');
 
   return {
     id: 'indexer',
     label: 'Indexer (Ponder)',
     status,
     latencyMs: ms,
-    details: error ? (error?.message || 'Unavailable') : 'Responding',
+    details: !error
+      ? 'Responding'
+      : fallbackError
+        ? `${ponderDetail}; contract log fallback ${fallbackDetail}`
+        : `${ponderDetail}; serving activity from contract logs`,
+    metrics: {
+      source,
+      fallbackLastServedAt: lastFallback ? new Date(lastFallback.at).toISOString() : null,
+      fallbackEvents: lastFallback?.events ?? null,
+      fallbackToBlock: lastFallback?.toBlock ?? null,
+    },
   };
 }
 
@@ -211,7 +235,7 @@ async function checkRedis(): Promise<StatusService> {
     label: 'Database',
     status,
     latencyMs: ms,
-    details: error ? (error?.message || 'Ping failed') : 'Ping successful',
+    details: error ? (error?.message || 'Ping failed') : `Ping successful (${redis.driver} driver)`,
   };
 }
 
@@ -0,0 +1,228 @@
+import { encodeFunctionData, erc20Abi, getAddress, isAddress, parseUnits, type Hex } from 'viem';
+import { redis, redisGetJSON, redisSetJSON, withPrefix } from './redis';
+import { PIXOTCHI_TOKEN_ADDRESS, LEAF_CONTRACT_ADDRESS, getLandsByOwner, getPlantsByOwner } from './contracts';
+import { isPlantDead } from './attack-planner';
+import { getAgentCallsStatus, submitAgentCalls, waitForAgentCalls, type AgentCall } from './agent-service';
+import type { GmStreakMilestone, GmStreakPayout, GmStreakRewardConfig } from './gamification-types';
+
+/**
+ * Streak economy: SEED prices for freezes and repairs, and milestone rewards that are queued
+ * here and paid out by the payouts cron from the agent smart account (same CDP account the
+ * airdrop claim uses).
+ */
+
+const BURN_ADDRESS = '0x000000000000000000000000000000000000dEaD';
+
+const DEFAULT_MILESTONES: GmStreakMilestone[] = [
+  { days: 7, seed: '10', leaf: '0' },
+  { days: 30, seed: '50', leaf: '500' },
+  { days: 100, seed: '250', leaf: '2500' },
+];
+
+const MAX_PAYOUT_ATTEMPTS = 3;
+const PAYOUTS_PER_RUN = 10;
+const PAYOUT_LOCK_TTL_SECONDS = 5 * 60;
+
+// Own namespace so admin streak resets don't drop rewards that are still owed
+const KEYS = {
+  queue: 'pixotchi:gm:streak-payouts:queue',
+  payout: (id: string) => `pixotchi:gm:streak-payouts:${id}`,
+  // Payouts in the `sending` state, checked at the start of every run
+  inflight: 'pixotchi:gm:streak-payouts:inflight',
+  lock: 'pixotchi:gm:streak-payouts:lock',
+};
+
+const isAmount = (value: unknown): value is string => typeof value === 'string' && /^\d+(\.\d+)?$/.test(value);
+
+// STREAK_MILESTONE_REWARDS='[{"days":7,"seed":"10"},{"days":30,"seed":"50","leaf":"500"}]'
+function parseMilestones(raw: string | undefined): GmStreakMilestone[] {
+  if (!raw) return DEFAULT_MILESTONES;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_MILESTONES;
+    return parsed
+      .map((m: any) => ({
+        days: Math.floor(Number(m?.days)),
+        seed: isAmount(m?.seed) ? m.seed : '0',
+        leaf: isAmount(m?.leaf) ? m.leaf : '0',
+      }))
+      .filter((m) => Number.isFinite(m.days) && m.days > 0)
+      .sort((a, b) => a.days - b.days);
+  } catch {
+    console.warn('[streak-rewards] Invalid STREAK_MILESTONE_REWARDS, using defaults');
+    return DEFAULT_MILESTONES;
+  }
+}
+
+export function getStreakRewardConfig(): GmStreakRewardConfig {
+  const receiver = process.env.STREAK_PAYMENT_ADDRESS;
+  const maxFreezes = Math.floor(Number(process.env.STREAK_MAX_FREEZES || 3));
+  return {
+    milestones: parseMilestones(process.env.STREAK_MILESTONE_REWARDS),
+    freezePriceSeed: isAmount(process.env.STREAK_FREEZE_PRICE_SEED) ? process.env.STREAK_FREEZE_PRICE_SEED : '25',
+    repairPriceSeed: isAmount(process.env.STREAK_REPAIR_PRICE_SEED) ? process.env.STREAK_REPAIR_PRICE_SEED : '50',
+    maxFreezes: Number.isFinite(maxFreezes) && maxFreezes >= 0 ? maxFreezes : 3,
+    paymentAddress: receiver && isAddress(receiver) ? getAddress(receiver) : BURN_ADDRESS,
+  };
+}
+
+/**
+ * Milestones pay treasury SEED and LEAF, so they need more than a wallet session: the wallet must
+ * hold a living plant or a land, which costs SEED to get and makes sybil farming unprofitable.
+ */
+export async function isStreakRewardEligible(address: string): Promise<boolean> {
+  const plants = await getPlantsByOwner(address);
+  if (plants.some((plant) => !isPlantDead(plant))) return true;
+  return (await getLandsByOwner(address)).length > 0;
+}
+
+export async function enqueueStreakPayout(address: string, milestone: GmStreakMilestone, runStartedOn: string): Promise<GmStreakPayout | null> {
+  if (!redis) return null;
+  if (parseUnits(milestone.seed, 18) <= BigInt(0) && parseUnits(milestone.leaf, 18) <= BigInt(0)) return null;
+
+  const payout: GmStreakPayout = {
+    id: `${address.toLowerCase()}:${milestone.days}:${runStartedOn}`,
+    address: address.toLowerCase(),
+    milestone: milestone.days,
+    seed: milestone.seed,
+    leaf: milestone.leaf,
+    status: 'queued',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  await redisSetJSON(KEYS.payout(payout.id), payout);
+  await (redis as any).rpush(withPrefix(KEYS.queue), payout.id);
+  return payout;
+}
+
+function transferCalls(payout: GmStreakPayout): AgentCall[] {
+  const to = getAddress(payout.address);
+  const calls: AgentCall[] = [];
+  const seedWei = parseUnits(payout.seed, 18);
+  const leafWei = parseUnits(payout.leaf, 18);
+  if (seedWei > BigInt(0)) {
+    calls.push({
+      to: PIXOTCHI_TOKEN_ADDRESS,
+      value: BigInt(0),
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, seedWei] }),
+    });
+  }
+  if (leafWei > BigInt(0)) {
+    calls.push({
+      to: LEAF_CONTRACT_ADDRESS,
+      value: BigInt(0),
+      data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [to, leafWei] }),
+    });
+  }
+  return calls;
+}
+
+type PayoutOutcome = 'sent' | 'failed' | 'pending' | 'retry';
+
+async function savePayout(payout: GmStreakPayout): Promise<void> {
+  await redisSetJSON(KEYS.payout(payout.id), payout);
+}
+
+/** Re-queue a payout whose transfers definitely did not go out, or fail it for good. */
+async function retryOrFail(client: any, payout: GmStreakPayout, error: string): Promise<PayoutOutcome> {
+  const giveUp = payout.attempts >= MAX_PAYOUT_ATTEMPTS;
+  await savePayout({ ...payout, status: giveUp ? 'failed' : 'queued', userOpHash: undefined, error });
+  await client.srem(withPrefix(KEYS.inflight), payout.id);
+  if (giveUp) return 'failed';
+  await client.rpush(withPrefix(KEYS.queue), payout.id);
+  return 'retry';
+}
+
+/**
+ * Settle a payout left in `sending` by an earlier run from its user operation's status.
+ * Only an operation that failed onchain is re-queued; one still in flight is left alone.
+ */
+async function reconcilePayout(client: any, payout: GmStreakPayout): Promise<PayoutOutcome> {
+  if (!payout.userOpHash) {
+    // The run stopped between marking and storing the hash: whether anything was sent is unknown
+    await savePayout({ ...payout, status: 'failed', error: 'Interrupted while sending; check the agent account before re-queuing' });
+    await client.srem(withPrefix(KEYS.inflight), payout.id);
+    return 'failed';
+  }
+  const op = await getAgentCallsStatus(payout.userOpHash as Hex);
+  if (op.status === 'pending') return 'pending';
+  if (op.status === 'failed') return retryOrFail(client, payout, 'User operation failed');
+  await savePayout({ ...payout, status: 'sent', sentAt: Date.now(), txHash: op.transactionHash, error: undefined });
+  await client.srem(withPrefix(KEYS.inflight), payout.id);
+  return 'sent';
+}
+
+/**
+ * Mark the payout `sending` before submitting and store the user operation hash as soon as it
+ * exists, so a crash or a timed-out wait is settled by reconcilePayout instead of paying twice.
+ */
+async function sendPayout(client: any, queued: GmStreakPayout): Promise<PayoutOutcome> {
+  const payout: GmStreakPayout = { ...queued, status: 'sending', attempts: queued.attempts + 1, error: undefined };
+  await savePayout(payout);
+  await client.sadd(withPrefix(KEYS.inflight), payout.id);
+
+  let userOpHash: Hex;
+  try {
+    userOpHash = await submitAgentCalls(transferCalls(payout));
+  } catch (error: any) {
+    console.error('[streak-rewards] payout failed', payout.id, error);
+    return retryOrFail(client, payout, error?.message || String(error));
+  }
+  await savePayout({ ...payout, userOpHash });
+
+  try {
+    const txHash = await waitForAgentCalls(userOpHash);
+    await savePayout({ ...payout, userOpHash, status: 'sent', sentAt: Date.now(), txHash });
+    await client.srem(withPrefix(KEYS.inflight), payout.id);
+    return 'sent';
+  } catch (error) {
+    console.warn('[streak-rewards] payout not confirmed yet, will check its user operation next run', payout.id, error);
+    return 'pending';
+  }
+}
+
+/**
+ * Pay up to PAYOUTS_PER_RUN queued rewards, one user operation each so a bad payout can't
+ * block the rest. Payouts still awaiting confirmation from earlier runs are settled first.
+ * Failures are re-queued until MAX_PAYOUT_ATTEMPTS.
+ */
+export async function processStreakPayouts(): Promise<{ sent: number; failed: number; remaining: number }> {
+  if (!redis) return { sent: 0, failed: 0, remaining: 0 };
+  const client = redis as any;
+  const acquired = await client.set(withPrefix(KEYS.lock), '1', { nx: true, ex: PAYOUT_LOCK_TTL_SECONDS });
+  if (!acquired) return { sent: 0, failed: 0, remaining: Number(await client.llen(withPrefix(KEYS.queue))) || 0 };
+
+  let sent = 0;
+  let failed = 0;
+  const count = (outcome: PayoutOutcome) => {
+    if (outcome === 'sent') sent++;
+    else if (outcome === 'failed') failed++;
+  };
+  try {
+    const inflight = ((await client.smembers(withPrefix(KEYS.inflight))) as unknown[]).map(String);
+    for (const id of inflight) {
+      const payout = await redisGetJSON<GmStreakPayout>(KEYS.payout(id));
+      if (!payout || payout.status !== 'sending') {
+        await client.srem(withPrefix(KEYS.inflight), id);
+        continue;
+      }
+      try {
+        count(await reconcilePayout(client, payout));
+      } catch (error) {
+        console.warn('[streak-rewards] could not check payout user operation', id, error);
+      }
+    }
+
+    for (let i = 0; i < PAYOUTS_PER_RUN; i++) {
+      const id = await client.lpop(withPrefix(KEYS.queue));
+      if (!id) break;
+      const payout = await redisGetJSON<GmStreakPayout>(KEYS.payout(String(id)));
+      if (!payout || payout.status !== 'queued') continue;
+      count(await sendPayout(client, payout));
+    }
+  } finally {
+    await client.del(withPrefix(KEYS.lock));
+  }
+  const remaining = Number(await client.llen(withPrefix(KEYS.queue))) || 0;
+  return { sent, failed, remaining };
+}
@@ -469,12 +469,25 @@ export type BundledItemConsumedEvent = ItemConsumedEvent & {
 };
 
 // Chat system types
+export type ChatReplyPreview = {
+  id: string;
+  address: string;
+  displayName: string;
+  excerpt: string;
+};
+
 export type ChatMessage = {
   id: string;
   address: string;
   message: string;
   timestamp: number;
   displayName: string; // Fallback display name, OnchainKit handles real names client-side
+  room: string;
+  threadId?: string | null; // Root message of the reply thread this message belongs to
+  replyTo?: ChatReplyPreview | null;
+  replyCount?: number;
+  editedAt?: number;
+  deletedAt?: number;
 };
 
 export type ChatRateLimit = {
@@ -486,6 +499,8 @@ export type ChatStats = {
   totalMessages: number;
   activeUsers: number;
   messagesLast24h: number;
+  activeRooms: number;
+  retentionDays: number;
 };
 
 export type AdminChatMessage = ChatMessage & {
@@ -506,8 +521,36 @@ export type AIChatMessage = {
   model: string;
   tokensUsed?: number;
   displayName: string;
+  /** Provider that answered, when failover may have picked a different one */
+  provider?: AIProvider;
+  /** Knowledge base chunks the reply cited */
+  sources?: KnowledgeCitation[];
 };
 
+// A retrievable section of Neural Seed's knowledge base
+export type KnowledgeChunk = {
+  id: string;
+  title: string;
+  content: string;
+  /** Where the text came from: 'builtin' for the shipped guide, otherwise who or what added it */
+  source: string;
+  version: number;
+  tags: string[];
+  /** Pinned chunks are sent with every question */
+  pinned: boolean;
+  updatedAt: number;
+};
+
+export type KnowledgeCitation = Pick<KnowledgeChunk, 'id' | 'title' | 'version' | 'source'>;
+
+// Newline-delimited events streamed by /api/chat/ai/send
+export type AIStreamEvent =
+  | { type: 'start'; userMessage: AIChatMessage }
+  | { type: 'tool'; name: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; aiResponse: AIChatMessage }
+  | { type: 'error'; aiResponse: AIChatMessage };
+
 export type AIConversation = {
   id: string;
   address: string;
@@ -519,8 +562,29 @@ export type AIConversation = {
   totalTokens: number;
 };
 
+// Durable facts a player asked Neural Seed to remember (opt-in)
+export type AIMemoryCategory = 'strain' | 'timezone' | 'goal' | 'preference' | 'other';
+
+export type AIMemoryFact = {
+  id: string;
+  category: AIMemoryCategory;
+  text: string;
+  createdAt: number;
+  /** Conversation the fact was learned in */
+  conversationId?: string;
+};
+
+export type AIPlayerMemory = {
+  enabled: boolean;
+  facts: AIMemoryFact[];
+  updatedAt: number;
+};
+
 export type AIProvider = 'openai' | 'claude' | 'google';
 
+// Neural Seed budget tiers: invite-validated, Base Verify / Farcaster verified, and SEED stakers
+export type AIBudgetTier = 'base' | 'invited' | 'verified' | 'staker';
+
 export type AIUsageStats = {
   totalConversations: number;
   totalMessages: number;
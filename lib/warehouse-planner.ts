@@ -0,0 +1,211 @@
+import { LAND_CONTRACT_ADDRESS } from './contracts';
+import { landAbi } from '@/public/abi/pixotchi-v3-abi';
+import { isPlantDead } from './attack-planner';
+import { chunkByGas, estimateCallGas } from './batch-limits';
+import type { Plant, TransactionCall } from './types';
+
+/**
+ * Splits a land's warehouse PTS and TOD across many plants so they can be applied in one
+ * batched transaction instead of one plant at a time.
+ *
+ * Strategies:
+ * - equalize:  level everyone's time of death (lowest plants first) and split PTS evenly
+ * - urgent:    top up the plants closest to dying to URGENT_HORIZON_SECONDS each, in order,
+ *              then level the rest; PTS split evenly across the plants that received TOD
+ * - focus_pts: every PTS onto one plant; TOD leveled across all plants
+ */
+
+export type WarehouseStrategy = 'equalize' | 'urgent' | 'focus_pts';
+
+export const WAREHOUSE_STRATEGIES: { value: WarehouseStrategy; label: string; description: string }[] = [
+  { value: 'equalize', label: 'Equalize', description: 'Bring every plant to the same time of death' },
+  { value: 'urgent', label: 'Urgent first', description: 'Save the plants closest to dying first' },
+  { value: 'focus_pts', label: 'Max PTS', description: 'All PTS on one plant, TOD shared out' },
+];
+
+// "Safe" TOD for the urgent strategy before leftovers are leveled across everyone
+export const URGENT_HORIZON_SECONDS = 24 * 60 * 60;
+
+export type WarehouseAllocation = {
+  plantId: number;
+  /** 1e12 = 1 PTS */
+  points: bigint;
+  /** Seconds of TOD */
+  lifetime: bigint;
+  /** Projected timeUntilStarving (unix seconds) after the allocation */
+  projectedTod: number;
+};
+
+export type WarehousePlanInput = {
+  plants: Plant[];
+  /** Warehouse PTS, 1e12 scaled */
+  points: bigint;
+  /** Warehouse TOD in seconds */
+  lifetime: bigint;
+  strategy: WarehouseStrategy;
+  /** Plant receiving all PTS for focus_pts; defaults to the highest-scoring plant */
+  focusPlantId?: number | null;
+  now?: number;
+};
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+/** Plants that can still receive TOD/PTS: not dead and not already past their time of death */
+export const isWarehouseEligible = (plant: Plant, now: number = nowSec()) =>
+  !isPlantDead(plant) && plant.timeUntilStarving > now;
+
+/**
+ * Water-fill `seconds` of TOD over plants so the lowest times of death rise together.
+ * Returns seconds per plant id (whole seconds; remainders go to the most urgent plants).
+ */
+function levelLifetime(plants: { id: number; tod: number }[], seconds: bigint): Map<number, bigint> {
+  const result = new Map<number, bigint>();
+  if (plants.length === 0 || seconds <= BigInt(0)) return result;
+
+  const sorted = [...plants].sort((a, b) => a.tod - b.tod);
+  let budget = Number(seconds);
+  // Find the level L such that sum(max(0, L - tod)) == budget over the lowest k plants
+  let level = sorted[0].tod;
+  let k = 1;
+  while (k <= sorted.length) {
+    const nextTod = k < sorted.length ? sorted[k].tod : Infinity;
+    const cost = (nextTod - level) * k;
+    if (cost >= budget) {
+      level += budget / k;
+      break;
+    }
+    budget -= cost;
+    level = nextTod;
+    k++;
+  }
+
+  let assigned = BigInt(0);
+  for (const p of sorted) {
+    const add = Math.max(0, Math.floor(level - p.tod));
+    if (add > 0) {
+      result.set(p.id, BigInt(add));
+      assigned += BigInt(add);
+    }
+  }
+  // Hand out seconds lost to flooring, most urgent first
+  let remainder = seconds - assigned;
+  for (const p of sorted) {
+    if (remainder <= BigInt(0)) break;
+    if (p.tod > level) break;
+    result.set(p.id, (result.get(p.id) ?? BigInt(0)) + BigInt(1));
+    remainder -= BigInt(1);
+  }
+  return result;
+}
+
+/** Split `points` evenly (remainder to the first plants) */
+function splitEvenly(ids: number[], points: bigint): Map<number, bigint> {
+  const result = new Map<number, bigint>();
+  if (ids.length === 0 || points <= BigInt(0)) return result;
+  const n = BigInt(ids.length);
+  const share = points / n;
+  let remainder = points % n;
+  for (const id of ids) {
+    const extra = remainder > BigInt(0) ? BigInt(1) : BigInt(0);
+    remainder -= extra;
+    if (share + extra > BigInt(0)) result.set(id, share + extra);
+  }
+  return result;
+}
+
+export function planWarehouseDistribution({
+  plants,
+  points,
+  lifetime,
+  strategy,
+  focusPlantId = null,
+  now = nowSec(),
+}: WarehousePlanInput): WarehouseAllocation[] {
+  const eligible = plants.filter((p) => isWarehouseEligible(p, now));
+  if (eligible.length === 0) return [];
+  const byUrgency = [...eligible].sort((a, b) => a.timeUntilStarving - b.timeUntilStarving);
+  const todOf = (p: Plant) => ({ id: p.id, tod: p.timeUntilStarving });
+
+  let lifetimeShares: Map<number, bigint>;
+  let pointShares: Map<number, bigint>;
+
+  if (strategy === 'urgent') {
+    lifetimeShares = new Map();
+    let budget = lifetime;
+    for (const p of byUrgency) {
+      if (budget <= BigInt(0)) break;
+      const needed = BigInt(Math.max(0, now + URGENT_HORIZON_SECONDS - p.timeUntilStarving));
+      if (needed === BigInt(0)) break; // sorted: nobody after this is urgent either
+      const give = needed < budget ? needed : budget;
+      lifetimeShares.set(p.id, give);
+      budget -= give;
+    }
+    if (budget > BigInt(0)) {
+      const leveled = levelLifetime(
+        eligible.map((p) => ({ id: p.id, tod: p.timeUntilStarving + Number(lifetimeShares.get(p.id) ?? BigInt(0)) })),
+        budget
+      );
+      leveled.forEach((s, id) => lifetimeShares.set(id, (lifetimeShares.get(id) ?? BigInt(0)) + s));
+    }
+    const topped = byUrgency.filter((p) => lifetimeShares.has(p.id)).map((p) => p.id);
+    pointShares = splitEvenly(topped.length > 0 ? topped : byUrgency.map((p) => p.id), points);
+  } else {
+    lifetimeShares = levelLifetime(eligible.map(todOf), lifetime);
+    if (strategy === 'focus_pts') {
+      const focus = eligible.find((p) => p.id === focusPlantId)
+        ?? [...eligible].sort((a, b) => b.score - a.score)[0];
+      pointShares = points > BigInt(0) ? new Map([[focus.id, points]]) : new Map();
+    } else {
+      pointShares = splitEvenly(byUrgency.map((p) => p.id), points);
+    }
+  }
+
+  return byUrgency
+    .map((p) => {
+      const lifetimeShare = lifetimeShares.get(p.id) ?? BigInt(0);
+      return {
+        plantId: p.id,
+        points: pointShares.get(p.id) ?? BigInt(0),
+        lifetime: lifetimeShare,
+        projectedTod: p.timeUntilStarving + Number(lifetimeShare),
+      };
+    })
+    .filter((a) => a.points > BigInt(0) || a.lifetime > BigInt(0));
+}
+
+/** One warehouse call per non-zero PTS/TOD share, in allocation order */
+export function buildWarehouseCalls(landId: bigint, allocations: WarehouseAllocation[]): TransactionCall[] {
+  return allocations.flatMap((a) => [
+    ...(a.points > BigInt(0)
+      ? [{ address: LAND_CONTRACT_ADDRESS, abi: landAbi, functionName: 'wareHouseAssignPlantPoints', args: [landId, BigInt(a.plantId), a.points] }]
+      : []),
+    ...(a.lifetime > BigInt(0)
+      ? [{ address: LAND_CONTRACT_ADDRESS, abi: landAbi, functionName: 'wareHouseAssignLifeTime', args: [landId, BigInt(a.plantId), a.lifetime] }]
+      : []),
+  ]) as TransactionCall[];
+}
+
+export type WarehouseBatchPlan = {
+  /** Allocations with at least one call in this batch */
+  batch: WarehouseAllocation[];
+  calls: TransactionCall[];
+  /** Batches needed for the whole plan at current estimates */
+  totalBatches: number;
+};
+
+/**
+ * The first gas-bounded batch of a plan. Allocations are ordered most urgent first; a plant whose
+ * PTS and TOD calls straddle the boundary gets the rest when the plan is rebuilt after this lands.
+ */
+export function planWarehouseBatch(landId: bigint, allocations: WarehouseAllocation[]): WarehouseBatchPlan {
+  const items = allocations.flatMap((allocation) =>
+    buildWarehouseCalls(landId, [allocation]).map((call) => ({ allocation, call })),
+  );
+  const chunks = chunkByGas(items, (item) => estimateCallGas(item.call.functionName));
+  const first = chunks[0] ?? [];
+  return {
+    batch: Array.from(new Set(first.map((item) => item.allocation))),
+    calls: first.map((item) => item.call),
+    totalBatches: chunks.length,
+  };
+}
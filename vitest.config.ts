@@ -0,0 +1,14 @@
+import path from 'node:path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+    // Tests run against the in-memory storage driver; see lib/kv-store-memory.ts
+    env: { STORAGE_DRIVER: 'memory' },
+  },
+});